@@ -7,9 +7,26 @@ export const AUDIT_ACTIONS = {
   CREATE_TOURNAMENT: 'CREATE_TOURNAMENT',
   UPDATE_TOURNAMENT: 'UPDATE_TOURNAMENT',
   DELETE_TOURNAMENT: 'DELETE_TOURNAMENT',
+  CREATE_TOURNAMENT_TEMPLATE: 'CREATE_TOURNAMENT_TEMPLATE',
+  DELETE_TOURNAMENT_TEMPLATE: 'DELETE_TOURNAMENT_TEMPLATE',
+  UPDATE_TEAM_SETTINGS: 'UPDATE_TEAM_SETTINGS',
+  CREATE_TEAM: 'CREATE_TEAM',
+  UPDATE_TEAM: 'UPDATE_TEAM',
+  DELETE_TEAM: 'DELETE_TEAM',
+  GRANT_TOURNAMENT_STAFF: 'GRANT_TOURNAMENT_STAFF',
+  REVOKE_TOURNAMENT_STAFF: 'REVOKE_TOURNAMENT_STAFF',
+  UPDATE_REGISTRATION_SETTINGS: 'UPDATE_REGISTRATION_SETTINGS',
+  CREATE_TOURNAMENT_REGISTRATION: 'CREATE_TOURNAMENT_REGISTRATION',
+  REVIEW_TOURNAMENT_REGISTRATION: 'REVIEW_TOURNAMENT_REGISTRATION',
+  WITHDRAW_TOURNAMENT_REGISTRATION: 'WITHDRAW_TOURNAMENT_REGISTRATION',
+  CHECK_IN_TOURNAMENT_REGISTRATION: 'CHECK_IN_TOURNAMENT_REGISTRATION',
+  MARK_REGISTRATION_NO_SHOW: 'MARK_REGISTRATION_NO_SHOW',
   CREATE_PLAYER: 'CREATE_PLAYER',
+  SIGN_UP_PLAYER: 'SIGN_UP_PLAYER',
   UPDATE_PLAYER: 'UPDATE_PLAYER',
   DELETE_PLAYER: 'DELETE_PLAYER',
+  IMPORT_PLAYERS: 'IMPORT_PLAYERS',
+  MERGE_PLAYERS: 'MERGE_PLAYERS',
   CREATE_TA_ENTRY: 'CREATE_TA_ENTRY',
   UPDATE_TA_ENTRY: 'UPDATE_TA_ENTRY',
   DELETE_TA_ENTRY: 'DELETE_TA_ENTRY',
@@ -21,9 +38,14 @@ export const AUDIT_ACTIONS = {
   DELETE_MR_MATCH: 'DELETE_MR_MATCH',
   CREATE_GP_MATCH: 'CREATE_GP_MATCH',
   RECONCILE_PLAYOFF_UPPER_SLOTS: 'RECONCILE_PLAYOFF_UPPER_SLOTS',
+  APPLY_MATCH_SCHEDULE: 'APPLY_MATCH_SCHEDULE',
+  CALL_MATCH: 'CALL_MATCH',
+  PAIR_SWISS_ROUND: 'PAIR_SWISS_ROUND',
+  WITHDRAW_QUALIFICATION_PLAYER: 'WITHDRAW_QUALIFICATION_PLAYER',
   CREATE_BRACKET: 'CREATE_BRACKET',
   DEBUG_FILL_SCORES: 'DEBUG_FILL_SCORES',
   LOGIN_SUCCESS: 'LOGIN_SUCCESS',
   LOGIN_FAILURE: 'LOGIN_FAILURE',
+  UNLOCK_PLAYER_LOGIN: 'UNLOCK_PLAYER_LOGIN',
   UNAUTHORIZED_ACCESS: 'UNAUTHORIZED_ACCESS',
 } as const;
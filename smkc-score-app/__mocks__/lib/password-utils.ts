@@ -5,3 +5,7 @@ export const generateSecurePassword = jest.fn();
 export const hashPassword = jest.fn();
 
 export const verifyPassword = jest.fn();
+
+export const MIN_PASSWORD_LENGTH = 8;
+
+export const MAX_PASSWORD_LENGTH = 72;
@@ -68,6 +68,15 @@ const mockNextAuth = jest.fn((config) => {
   return result;
 });
 
+// Minimal stand-in for the Auth.js credentials error; `code` reaches the client.
+class CredentialsSignin extends Error {
+  constructor(message) {
+    super(message);
+    this.type = 'CredentialsSignin';
+    this.code = 'credentials';
+  }
+}
+
 // Export the mock
 module.exports = mockNextAuth;
 module.exports.default = mockNextAuth;
@@ -75,3 +84,4 @@ module.exports.Credentials = mockCredentials;
 module.exports.Discord = mockDiscord;
 module.exports.GitHub = mockGitHub;
 module.exports.Google = mockGoogle;
+module.exports.CredentialsSignin = CredentialsSignin;
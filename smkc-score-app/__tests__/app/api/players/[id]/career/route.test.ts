@@ -0,0 +1,139 @@
+/**
+ * @module Player Career Route Tests
+ *
+ * Test suite for the GET /api/players/[id]/career endpoint. Aggregation
+ * itself is covered in __tests__/lib/player-career.test.ts; these tests
+ * cover the HTTP contract:
+ * - Public access, with hidden modes only included for admins
+ * - 404 for missing players
+ * - 500 with structured logging on loader failure
+ */
+// @ts-nocheck - This test file uses complex mock types for Next.js API routes
+
+jest.mock('@/lib/auth', () => ({
+  auth: jest.fn(),
+}));
+
+jest.mock('@/lib/player-career', () => ({
+  loadPlayerCareer: jest.fn(),
+}));
+
+jest.mock('@/lib/logger', () => {
+  const instance = {
+    error: jest.fn(),
+    warn: jest.fn(),
+    info: jest.fn(),
+    debug: jest.fn(),
+  };
+  return {
+    createLogger: jest.fn(() => instance),
+    __mockLoggerInstance: instance,
+  };
+});
+
+const mockLoggerInstance = (jest.requireMock('@/lib/logger') as { __mockLoggerInstance: Record<string, jest.Mock> })
+  .__mockLoggerInstance;
+
+// Custom next/server mock matching the pattern used in working tournament tests.
+jest.mock('next/server', () => {
+  const mockJson = jest.fn();
+  class MockNextRequest {
+    constructor(url, init = {}) {
+      this.url = url;
+      this.method = init.method || 'GET';
+      this._body = init.body;
+      const h = init.headers || {};
+      this.headers = {
+        get: (key) => {
+          if (h instanceof Headers) return h.get(key);
+          if (h instanceof Map) return h.get(key);
+          return h[key] || null;
+        },
+        forEach: (cb) => {
+          if (h instanceof Headers) {
+            h.forEach(cb);
+            return;
+          }
+          Object.entries(h).forEach(([k, v]) => cb(v, k));
+        },
+      };
+    }
+    async json() {
+      if (typeof this._body === 'string') return JSON.parse(this._body);
+      return this._body;
+    }
+  }
+  return {
+    NextRequest: MockNextRequest,
+    NextResponse: {
+      json: mockJson,
+    },
+    __esModule: true,
+  };
+});
+
+import { NextRequest } from 'next/server';
+import { auth } from '@/lib/auth';
+import { loadPlayerCareer } from '@/lib/player-career';
+import * as careerRoute from '@/app/api/players/[id]/career/route';
+
+const loggerMock = jest.requireMock('@/lib/logger');
+
+describe('GET /api/players/[id]/career', () => {
+  const { NextResponse } = jest.requireMock('next/server');
+  const career = { player: { id: 'p1', nickname: 'alice' }, tournaments: [], headToHead: [] };
+
+  const callGet = () =>
+    careerRoute.GET(new NextRequest('http://localhost:3000/api/players/p1/career'), {
+      params: Promise.resolve({ id: 'p1' }),
+    });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    loggerMock.createLogger.mockReturnValue(mockLoggerInstance);
+    auth.mockResolvedValue(null);
+    loadPlayerCareer.mockResolvedValue(career);
+  });
+
+  it('returns the career for anonymous viewers limited to published modes', async () => {
+    await callGet();
+
+    expect(loadPlayerCareer).toHaveBeenCalledWith('p1', { includeHidden: false });
+    expect(NextResponse.json).toHaveBeenCalledWith({ success: true, data: career });
+  });
+
+  it('includes unpublished modes for admins', async () => {
+    auth.mockResolvedValue({ user: { id: 'admin-1', role: 'admin' } });
+
+    await callGet();
+
+    expect(loadPlayerCareer).toHaveBeenCalledWith('p1', { includeHidden: true });
+  });
+
+  it('returns 404 when the player does not exist', async () => {
+    loadPlayerCareer.mockResolvedValue(null);
+
+    await callGet();
+
+    expect(NextResponse.json).toHaveBeenCalledWith(
+      expect.objectContaining({ success: false, error: 'Player not found' }),
+      { status: 404 },
+    );
+  });
+
+  it('returns 500 and logs when loading fails', async () => {
+    const error = new Error('D1 unavailable');
+    loadPlayerCareer.mockRejectedValue(error);
+
+    await callGet();
+
+    expect(mockLoggerInstance.error).toHaveBeenCalledWith('Failed to fetch player career', {
+      error,
+      playerId: 'p1',
+    });
+    expect(NextResponse.json).toHaveBeenCalledWith(
+      expect.objectContaining({ success: false, error: 'Failed to fetch player career' }),
+      { status: 500 },
+    );
+  });
+});
@@ -0,0 +1,99 @@
+jest.mock('next/server', () => ({
+  NextResponse: {
+    json: jest.fn((data: unknown, options?: { status?: number }) => ({ data, status: options?.status ?? 200 })),
+  },
+  NextRequest: jest.fn(),
+}));
+
+jest.mock('@/lib/auth', () => ({ auth: jest.fn() }));
+jest.mock('@/lib/audit-log', () => ({ resolveAuditUserId: jest.fn(() => 'admin') }));
+jest.mock('@/lib/rate-limit', () => ({ checkRateLimit: jest.fn() }));
+jest.mock('@/lib/request-utils', () => ({
+  getClientIdentifier: jest.fn(() => '127.0.0.1'),
+  getUserAgent: jest.fn(() => 'jest'),
+}));
+jest.mock('@/lib/sanitize', () => ({ sanitizeInput: jest.fn((value) => value) }));
+jest.mock('@/lib/logger', () => ({
+  createLogger: jest.fn(() => ({ error: jest.fn(), warn: jest.fn(), info: jest.fn(), debug: jest.fn() })),
+}));
+jest.mock('@/lib/player-merge-service', () => ({
+  applyPlayerMerge: jest.fn(),
+  previewPlayerMerge: jest.fn(),
+  publicPlayerMergePreview: jest.fn((value) => value),
+}));
+
+import { NextResponse, type NextRequest } from 'next/server';
+import prisma from '@/lib/prisma';
+import { auth } from '@/lib/auth';
+import { checkRateLimit } from '@/lib/rate-limit';
+import { PlayerMergeError } from '@/lib/player-merge';
+import { applyPlayerMerge, previewPlayerMerge } from '@/lib/player-merge-service';
+import { POST } from '@/app/api/players/[id]/merge/route';
+
+const mockPrisma = prisma as unknown as { player: { findUnique: jest.Mock } };
+
+function request(body: unknown): NextRequest {
+  return {
+    json: async () => body,
+    headers: { get: () => 'jest' },
+  } as unknown as NextRequest;
+}
+
+const params = { params: Promise.resolve({ id: 'dup' }) };
+
+describe('POST /api/players/:id/merge', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (auth as jest.Mock).mockResolvedValue({ user: { id: 'admin', role: 'admin' } });
+    (checkRateLimit as jest.Mock).mockResolvedValue({ success: true });
+    mockPrisma.player.findUnique.mockResolvedValue({ id: 'keep' });
+  });
+
+  it('rejects non-admin callers', async () => {
+    (auth as jest.Mock).mockResolvedValue({ user: { id: 'p1', role: 'player' } });
+
+    await POST(request({ action: 'preview', targetNickname: 'ale' }), params);
+
+    expect(NextResponse.json).toHaveBeenCalledWith(expect.objectContaining({ success: false }), { status: 403 });
+  });
+
+  it('resolves the target by nickname and previews', async () => {
+    (previewPlayerMerge as jest.Mock).mockResolvedValue({ digest: 'a'.repeat(64) });
+
+    await POST(request({ action: 'preview', targetNickname: ' ale ' }), params);
+
+    expect(mockPrisma.player.findUnique).toHaveBeenCalledWith({ where: { nickname: 'ale' }, select: { id: true } });
+    expect(previewPlayerMerge).toHaveBeenCalledWith('dup', 'keep');
+  });
+
+  it('returns 404 for an unknown target nickname', async () => {
+    mockPrisma.player.findUnique.mockResolvedValue(null);
+
+    await POST(request({ action: 'preview', targetNickname: 'nobody' }), params);
+
+    expect(NextResponse.json).toHaveBeenCalledWith(expect.objectContaining({ code: 'PLAYER_NOT_FOUND' }), {
+      status: 404,
+    });
+  });
+
+  it('returns 409 with collisions when the merge is blocked', async () => {
+    (applyPlayerMerge as jest.Mock).mockRejectedValue(
+      new PlayerMergeError('Resolve the listed collisions before merging', 'PLAYER_MERGE_COLLISION', {
+        collisions: [{ type: 'bm_qualification', tournamentId: 't1' }],
+      }),
+    );
+
+    await POST(request({ action: 'apply', targetNickname: 'ale', digest: 'b'.repeat(64) }), params);
+
+    expect(applyPlayerMerge).toHaveBeenCalledWith(
+      expect.objectContaining({ sourceId: 'dup', targetId: 'keep', expectedDigest: 'b'.repeat(64) }),
+    );
+    expect(NextResponse.json).toHaveBeenCalledWith(
+      expect.objectContaining({
+        code: 'PLAYER_MERGE_COLLISION',
+        details: { collisions: [{ type: 'bm_qualification', tournamentId: 't1' }] },
+      }),
+      { status: 409 },
+    );
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * @module Test Suite: POST /api/players/[id]/unlock-login
+ *
+ * Tests for the player login unlock API route.
+ * Verifies:
+ * - Admin unlock writes an UNLOCK_PLAYER_LOGIN audit event and reports the prior state
+ * - Non-admin requests are rejected with 403
+ * - 404 is returned when the player does not exist
+ * - A failed audit write (the unlock itself) produces 500
+ *
+ * IMPORTANT: jest.mock() calls use the global jest (not @jest/globals) because
+ * babel-jest hoisting does not work correctly when jest is imported from @jest/globals.
+ */
+// @ts-nocheck
+
+jest.mock('@/lib/auth', () => ({
+  auth: jest.fn(),
+}));
+
+jest.mock('@/lib/audit-log', () => ({
+  createRequiredAuditLog: jest.fn(() => Promise.resolve()),
+  AUDIT_ACTIONS: {
+    UNLOCK_PLAYER_LOGIN: 'UNLOCK_PLAYER_LOGIN',
+  },
+  resolveAuditUserId: jest.fn((s) => s?.user?.id ?? undefined),
+}));
+
+jest.mock('@/lib/login-lockout', () => ({
+  getLoginLockout: jest.fn(),
+}));
+
+jest.mock('next/server', () => ({
+  NextResponse: {
+    json: jest.fn((data, init) => ({ data, status: init?.status ?? 200 })),
+  },
+  __esModule: true,
+}));
+
+import prisma from '@/lib/prisma';
+import { auth } from '@/lib/auth';
+import { createRequiredAuditLog } from '@/lib/audit-log';
+import { getLoginLockout } from '@/lib/login-lockout';
+import { POST } from '@/app/api/players/[id]/unlock-login/route';
+
+describe('POST /api/players/[id]/unlock-login', () => {
+  const adminSession = { user: { id: 'admin-1', role: 'admin' } };
+  const playerParams = { params: Promise.resolve({ id: 'player-1' }) };
+  const request = { headers: { get: () => null } };
+
+  beforeEach(() => {
+    getLoginLockout.mockResolvedValue({ locked: true, failures: 5, lockedUntil: new Date() });
+    createRequiredAuditLog.mockResolvedValue(undefined);
+  });
+
+  it('records the unlock and reports that the account was locked', async () => {
+    auth.mockResolvedValue(adminSession);
+    prisma.player.findUnique.mockResolvedValue({ id: 'player-1', nickname: 'TestPlayer' });
+
+    const response = await POST(request, playerParams);
+
+    expect(response.status).toBe(200);
+    expect(response.data.data).toEqual({ wasLocked: true });
+    expect(createRequiredAuditLog).toHaveBeenCalledWith(
+      expect.objectContaining({
+        userId: 'admin-1',
+        action: 'UNLOCK_PLAYER_LOGIN',
+        targetId: 'player-1',
+        targetType: 'Player',
+        details: { playerNickname: 'TestPlayer', wasLocked: true, failures: 5 },
+      }),
+    );
+  });
+
+  it('rejects non-admin sessions', async () => {
+    auth.mockResolvedValue({ user: { id: 'player-1', role: 'player' } });
+
+    const response = await POST(request, playerParams);
+
+    expect(response.status).toBe(403);
+    expect(createRequiredAuditLog).not.toHaveBeenCalled();
+  });
+
+  it('returns 404 for an unknown player', async () => {
+    auth.mockResolvedValue(adminSession);
+    prisma.player.findUnique.mockResolvedValue(null);
+
+    const response = await POST(request, playerParams);
+
+    expect(response.status).toBe(404);
+    expect(createRequiredAuditLog).not.toHaveBeenCalled();
+  });
+
+  it('returns 500 when the unlock event cannot be written', async () => {
+    auth.mockResolvedValue(adminSession);
+    prisma.player.findUnique.mockResolvedValue({ id: 'player-1', nickname: 'TestPlayer' });
+    createRequiredAuditLog.mockRejectedValue(new Error('D1 unavailable'));
+
+    const response = await POST(request, playerParams);
+
+    expect(response.status).toBe(500);
+  });
+});
@@ -0,0 +1,104 @@
+jest.mock('next/server', () => ({
+  NextResponse: {
+    json: jest.fn((data: unknown, options?: { status?: number }) => ({ data, status: options?.status ?? 200 })),
+  },
+  NextRequest: jest.fn(),
+}));
+
+jest.mock('@/lib/auth', () => ({ auth: jest.fn() }));
+jest.mock('@/lib/audit-log', () => ({ resolveAuditUserId: jest.fn(() => 'admin') }));
+jest.mock('@/lib/rate-limit', () => ({ checkRateLimit: jest.fn() }));
+jest.mock('@/lib/request-utils', () => ({
+  getClientIdentifier: jest.fn(() => '127.0.0.1'),
+  getUserAgent: jest.fn(() => 'jest'),
+}));
+jest.mock('@/lib/logger', () => ({
+  createLogger: jest.fn(() => ({ error: jest.fn(), warn: jest.fn(), info: jest.fn(), debug: jest.fn() })),
+}));
+jest.mock('@/lib/player-roster-import-service', () => ({
+  applyRosterImport: jest.fn(),
+  previewRosterImport: jest.fn(),
+  publicRosterImportPreview: jest.fn((value) => value),
+}));
+
+import { NextResponse, type NextRequest } from 'next/server';
+import { auth } from '@/lib/auth';
+import { checkRateLimit } from '@/lib/rate-limit';
+import { RosterImportError } from '@/lib/player-roster-import';
+import { applyRosterImport, previewRosterImport } from '@/lib/player-roster-import-service';
+import { POST } from '@/app/api/players/import/route';
+
+const rosterFile = {
+  name: 'roster.csv',
+  arrayBuffer: async () => new ArrayBuffer(8),
+};
+
+function request(fields: Record<string, unknown>): NextRequest {
+  return {
+    formData: async () => ({ get: (key: string) => fields[key] ?? null }),
+    headers: { get: () => 'jest' },
+  } as unknown as NextRequest;
+}
+
+describe('POST /api/players/import', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (auth as jest.Mock).mockResolvedValue({ user: { id: 'admin', role: 'admin' } });
+    (checkRateLimit as jest.Mock).mockResolvedValue({ success: true });
+  });
+
+  it('rejects non-admin callers', async () => {
+    (auth as jest.Mock).mockResolvedValue({ user: { id: 'u1', role: 'member' } });
+
+    await POST(request({ action: 'preview', file: rosterFile }));
+
+    expect(NextResponse.json).toHaveBeenCalledWith(expect.objectContaining({ success: false }), { status: 403 });
+    expect(previewRosterImport).not.toHaveBeenCalled();
+  });
+
+  it('returns the preview for an uploaded file', async () => {
+    (previewRosterImport as jest.Mock).mockResolvedValue({ digest: 'a'.repeat(64), plan: { rows: [] } });
+
+    await POST(request({ action: 'preview', file: rosterFile }));
+
+    expect(previewRosterImport).toHaveBeenCalledWith('roster.csv', expect.any(ArrayBuffer));
+    expect(NextResponse.json).toHaveBeenCalledWith(
+      expect.objectContaining({ success: true, data: expect.objectContaining({ digest: 'a'.repeat(64) }) }),
+    );
+  });
+
+  it('requires a valid digest to apply', async () => {
+    await POST(request({ action: 'apply', file: rosterFile, digest: 'nope' }));
+
+    expect(applyRosterImport).not.toHaveBeenCalled();
+    expect(NextResponse.json).toHaveBeenCalledWith(expect.objectContaining({ success: false }), { status: 400 });
+  });
+
+  it('returns 409 when the preview is stale', async () => {
+    (applyRosterImport as jest.Mock).mockRejectedValue(
+      new RosterImportError('Players changed after the preview.', 'ROSTER_IMPORT_STALE_PREVIEW'),
+    );
+
+    await POST(request({ action: 'apply', file: rosterFile, digest: 'b'.repeat(64) }));
+
+    expect(applyRosterImport).toHaveBeenCalledWith(
+      expect.objectContaining({ fileName: 'roster.csv', expectedDigest: 'b'.repeat(64) }),
+    );
+    expect(NextResponse.json).toHaveBeenCalledWith(
+      expect.objectContaining({ success: false, code: 'ROSTER_IMPORT_STALE_PREVIEW' }),
+      { status: 409 },
+    );
+  });
+
+  it('returns 422 for unreadable files', async () => {
+    (previewRosterImport as jest.Mock).mockRejectedValue(
+      new RosterImportError('A nickname column is required', 'ROSTER_IMPORT_MISSING_COLUMNS'),
+    );
+
+    await POST(request({ action: 'preview', file: rosterFile }));
+
+    expect(NextResponse.json).toHaveBeenCalledWith(expect.objectContaining({ code: 'ROSTER_IMPORT_MISSING_COLUMNS' }), {
+      status: 422,
+    });
+  });
+});
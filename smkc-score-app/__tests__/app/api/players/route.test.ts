@@ -162,14 +162,14 @@ describe('GET /api/players', () => {
       await playerRoute.GET(req);
 
       // Verify the Prisma calls were made with correct parameters
-      // paginate calls count({ where: { id: { not: '__BREAK__' } } })
+      // paginate calls count({ where: { id: { not: '__BREAK__' }, deletedAt: null } })
       expect(prisma.player.count).toHaveBeenCalledWith({
-        where: { id: { not: '__BREAK__' } },
+        where: { id: { not: '__BREAK__' }, deletedAt: null },
       });
 
       // paginate calls findMany with where, orderBy, skip, take
       expect(prisma.player.findMany).toHaveBeenCalledWith({
-        where: { id: { not: '__BREAK__' } },
+        where: { id: { not: '__BREAK__' }, deletedAt: null },
         orderBy: { nickname: 'asc' },
         skip: 0,
         take: 50,
@@ -201,7 +201,7 @@ describe('GET /api/players', () => {
 
       // With page=2, limit=10, skip should be (2-1)*10 = 10
       expect(prisma.player.findMany).toHaveBeenCalledWith({
-        where: { id: { not: '__BREAK__' } },
+        where: { id: { not: '__BREAK__' }, deletedAt: null },
         orderBy: { nickname: 'asc' },
         skip: 10,
         take: 10,
@@ -287,12 +287,12 @@ describe('GET /api/players', () => {
 
       // Verify that an empty where clause is passed (no filters)
       expect(prisma.player.count).toHaveBeenCalledWith({
-        where: { id: { not: '__BREAK__' } },
+        where: { id: { not: '__BREAK__' }, deletedAt: null },
       });
 
       expect(prisma.player.findMany).toHaveBeenCalledWith(
         expect.objectContaining({
-          where: { id: { not: '__BREAK__' } },
+          where: { id: { not: '__BREAK__' }, deletedAt: null },
         }),
       );
 
@@ -433,6 +433,28 @@ describe('POST /api/players', () => {
         { status: 400 },
       );
     });
+    it('should return 400 when the nickname is blank or too long', async () => {
+      auth.mockResolvedValue({
+        user: { id: 'admin-1', role: 'admin' },
+      });
+      sanitizeMock.sanitizeInput.mockReturnValueOnce({ name: 'Test Player', nickname: '   ' });
+      sanitizeMock.sanitizeInput.mockReturnValueOnce({ name: 'Test Player', nickname: 'x'.repeat(51) });
+
+      const request = () =>
+        new NextRequest('http://localhost:3000/api/players', {
+          method: 'POST',
+          body: JSON.stringify({}),
+        });
+
+      await playerRoute.POST(request());
+      await playerRoute.POST(request());
+      expect(NextResponse.json).toHaveBeenLastCalledWith(
+        expect.objectContaining({ code: 'VALIDATION_ERROR', details: { field: 'nickname' } }),
+        { status: 400 },
+      );
+      expect(NextResponse.json).toHaveBeenCalledTimes(2);
+      expect(prisma.player.create).not.toHaveBeenCalled();
+    });
   });
 
   describe('Successful Player Creation', () => {
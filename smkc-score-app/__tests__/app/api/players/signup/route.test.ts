@@ -0,0 +1,88 @@
+// @ts-nocheck - Route mocks deliberately use compact partial shapes.
+
+jest.mock('next/server', () => ({
+  NextResponse: {
+    json: jest.fn((data: unknown, options?: { status?: number }) => ({ data, status: options?.status ?? 200 })),
+  },
+  NextRequest: jest.fn(),
+}));
+
+jest.mock('@/lib/password-utils');
+jest.mock('@/lib/audit-log', () => ({
+  createAuditLog: jest.fn(() => Promise.resolve()),
+  AUDIT_ACTIONS: { SIGN_UP_PLAYER: 'SIGN_UP_PLAYER' },
+}));
+jest.mock('@/lib/sanitize', () => ({ sanitizeInput: jest.fn((data) => data) }));
+
+import prisma from '@/lib/prisma';
+import { createAuditLog } from '@/lib/audit-log';
+import { hashPassword } from '@/lib/password-utils';
+import { checkRateLimit } from '@/lib/rate-limit';
+import { MAX_PLAYER_NAME_LENGTH, MAX_PLAYER_NICKNAME_LENGTH } from '@/lib/constants';
+import { POST } from '@/app/api/players/signup/route';
+
+function request(body?: unknown) {
+  return { json: async () => body, headers: { get: () => 'jest' } };
+}
+
+const validBody = { name: 'Taro Yamada', nickname: ' taro ', country: 'Japan', password: 'kart-racer-64' };
+
+describe('POST /api/players/signup', () => {
+  beforeEach(() => {
+    checkRateLimit.mockResolvedValue({ success: true });
+    hashPassword.mockResolvedValue('hashed');
+    prisma.player.create.mockResolvedValue({ id: 'p1', nickname: 'taro', country: 'JP', password: 'hashed' });
+  });
+
+  it('creates the account with a hashed password', async () => {
+    const response = await POST(request(validBody));
+
+    expect(response.status).toBe(201);
+    expect(hashPassword).toHaveBeenCalledWith('kart-racer-64');
+    expect(prisma.player.create).toHaveBeenCalledWith({
+      data: { name: 'Taro Yamada', nickname: 'taro', country: 'JP', password: 'hashed' },
+    });
+    expect(response.data.data).toEqual({ player: { id: 'p1', nickname: 'taro', country: 'JP' } });
+    expect(createAuditLog).toHaveBeenCalledWith(expect.objectContaining({ action: 'SIGN_UP_PLAYER', targetId: 'p1' }));
+  });
+
+  it('rejects short passwords and missing names', async () => {
+    const short = await POST(request({ ...validBody, password: 'short' }));
+    expect(short.status).toBe(400);
+    expect(short.data.details.field).toBe('password');
+
+    expect((await POST(request({ ...validBody, nickname: '  ' }))).status).toBe(400);
+    expect(prisma.player.create).not.toHaveBeenCalled();
+  });
+
+  it('holds names to the same limits as admin-created players', async () => {
+    const longName = await POST(request({ ...validBody, name: 'x'.repeat(MAX_PLAYER_NAME_LENGTH + 1) }));
+    expect(longName.status).toBe(400);
+    expect(longName.data.details.field).toBe('name');
+
+    const longNickname = await POST(request({ ...validBody, nickname: 'x'.repeat(MAX_PLAYER_NICKNAME_LENGTH + 1) }));
+    expect(longNickname.data.details.field).toBe('nickname');
+
+    expect((await POST(request({ ...validBody, name: ' \t ' }))).status).toBe(400);
+    expect(prisma.player.create).not.toHaveBeenCalled();
+  });
+
+  it('returns 409 for a taken nickname', async () => {
+    prisma.player.create.mockRejectedValue({ code: 'P2002' });
+
+    const response = await POST(request(validBody));
+
+    expect(response.status).toBe(409);
+    expect(response.data.code).toBe('DUPLICATE_NICKNAME');
+  });
+
+  it('applies the sign-up rate limit', async () => {
+    checkRateLimit.mockResolvedValue({ success: false });
+
+    const response = await POST(request(validBody));
+
+    expect(response.status).toBe(429);
+    expect(checkRateLimit).toHaveBeenCalledWith('signup', '127.0.0.1');
+    expect(prisma.player.create).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,144 @@
+// @ts-nocheck - Prisma mocks deliberately use compact partial shapes.
+
+jest.mock('next/server', () => ({
+  NextResponse: {
+    json: jest.fn((data: unknown, options?: { status?: number }) => ({ data, status: options?.status ?? 200 })),
+  },
+  NextRequest: jest.fn(),
+}));
+
+jest.mock('@/lib/auth', () => ({ auth: jest.fn() }));
+jest.mock('@/lib/audit-log', () => ({
+  createAuditLog: jest.fn(() => Promise.resolve()),
+  AUDIT_ACTIONS: {
+    CREATE_TOURNAMENT_TEMPLATE: 'CREATE_TOURNAMENT_TEMPLATE',
+    DELETE_TOURNAMENT_TEMPLATE: 'DELETE_TOURNAMENT_TEMPLATE',
+  },
+  resolveAuditUserId: jest.fn(() => 'admin'),
+}));
+jest.mock('@/lib/rate-limit', () => ({ checkRateLimit: jest.fn() }));
+jest.mock('@/lib/request-utils', () => ({
+  getClientIdentifier: jest.fn(() => '127.0.0.1'),
+  getUserAgent: jest.fn(() => 'jest'),
+}));
+jest.mock('@/lib/sanitize', () => ({ sanitizeInput: jest.fn((data) => data) }));
+jest.mock('@/lib/logger', () => ({
+  createLogger: jest.fn(() => ({ error: jest.fn(), warn: jest.fn(), info: jest.fn(), debug: jest.fn() })),
+}));
+jest.mock('@/lib/tournament-template-service', () => ({ buildTemplateFromTournament: jest.fn() }));
+
+import { NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { auth } from '@/lib/auth';
+import { createAuditLog } from '@/lib/audit-log';
+import { checkRateLimit } from '@/lib/rate-limit';
+import { buildTemplateFromTournament } from '@/lib/tournament-template-service';
+import { TournamentTemplateError } from '@/lib/tournament-template';
+import { GET, POST } from '@/app/api/tournament-templates/route';
+import { DELETE } from '@/app/api/tournament-templates/[id]/route';
+
+const config = {
+  version: 1,
+  settings: {
+    dualReportEnabled: false,
+    taPlayerSelfEdit: true,
+    taBattleRoyaleMode: false,
+    qualificationScheduleMethod: 'circle',
+  },
+  overlayLayout: {},
+  finalsRounds: [{ mode: 'bm', stage: 'finals', round: 'grand_final', targetWins: 7 }],
+  roster: null,
+};
+
+function request(body: unknown) {
+  return { json: async () => body, headers: { get: () => 'jest' } };
+}
+
+describe('/api/tournament-templates', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    auth.mockResolvedValue({ user: { id: 'admin', role: 'admin' } });
+    checkRateLimit.mockResolvedValue({ success: true });
+  });
+
+  it('rejects non-admin callers', async () => {
+    auth.mockResolvedValue({ user: { id: 'u1', role: 'member' } });
+
+    await GET();
+    await POST(request({ name: 'Monthly', sourceTournamentId: 't1' }));
+
+    expect(NextResponse.json).toHaveBeenCalledTimes(2);
+    expect(NextResponse.json).toHaveBeenLastCalledWith(expect.objectContaining({ success: false }), { status: 403 });
+    expect(buildTemplateFromTournament).not.toHaveBeenCalled();
+  });
+
+  it('lists templates with counts and skips unreadable ones', async () => {
+    prisma.tournamentTemplate.findMany.mockResolvedValue([
+      { id: 'tpl1', name: 'Monthly', config, createdAt: new Date(0), updatedAt: new Date(0) },
+      { id: 'tpl2', name: 'Broken', config: { version: 42 }, createdAt: new Date(0), updatedAt: new Date(0) },
+    ]);
+
+    await GET();
+
+    const [body] = NextResponse.json.mock.calls[0];
+    expect(body.data).toEqual([
+      expect.objectContaining({ id: 'tpl1', hasRoster: false, finalsRounds: 1, rosterPlayers: 0 }),
+    ]);
+  });
+
+  it('saves a tournament as a template', async () => {
+    buildTemplateFromTournament.mockResolvedValue(config);
+    prisma.tournamentTemplate.create.mockResolvedValue({
+      id: 'tpl1',
+      name: 'Monthly',
+      createdAt: new Date(0),
+      updatedAt: new Date(0),
+    });
+
+    const response = await POST(request({ name: '  Monthly ', sourceTournamentId: 't1', includeRoster: true }));
+
+    expect(response.status).toBe(201);
+    expect(buildTemplateFromTournament).toHaveBeenCalledWith('t1', { includeRoster: true });
+    expect(prisma.tournamentTemplate.create).toHaveBeenCalledWith({ data: { name: 'Monthly', config } });
+    expect(createAuditLog).toHaveBeenCalledWith(
+      expect.objectContaining({ action: 'CREATE_TOURNAMENT_TEMPLATE', targetId: 'tpl1' }),
+    );
+  });
+
+  it('validates the body', async () => {
+    const response = await POST(request({ name: '', sourceTournamentId: 't1' }));
+
+    expect(response.status).toBe(400);
+    expect(prisma.tournamentTemplate.create).not.toHaveBeenCalled();
+  });
+
+  it('returns 404 for a missing source tournament and 409 for a duplicate name', async () => {
+    buildTemplateFromTournament.mockRejectedValueOnce(
+      new TournamentTemplateError('Source tournament not found', 'TEMPLATE_SOURCE_NOT_FOUND'),
+    );
+    expect((await POST(request({ name: 'Monthly', sourceTournamentId: 'x' }))).status).toBe(404);
+
+    buildTemplateFromTournament.mockResolvedValue(config);
+    prisma.tournamentTemplate.create.mockRejectedValue(Object.assign(new Error('unique'), { code: 'P2002' }));
+    expect((await POST(request({ name: 'Monthly', sourceTournamentId: 't1' }))).status).toBe(409);
+  });
+
+  it('deletes a template', async () => {
+    prisma.tournamentTemplate.findUnique.mockResolvedValue({ id: 'tpl1', name: 'Monthly' });
+
+    const response = await DELETE(request({}), { params: Promise.resolve({ id: 'tpl1' }) });
+
+    expect(response.status).toBe(200);
+    expect(prisma.tournamentTemplate.delete).toHaveBeenCalledWith({ where: { id: 'tpl1' } });
+    expect(createAuditLog).toHaveBeenCalledWith(expect.objectContaining({ action: 'DELETE_TOURNAMENT_TEMPLATE' }));
+  });
+
+  it('returns 404 when deleting an unknown template', async () => {
+    prisma.tournamentTemplate.findUnique.mockResolvedValue(null);
+
+    const response = await DELETE(request({}), { params: Promise.resolve({ id: 'nope' }) });
+
+    expect(response.status).toBe(404);
+    expect(prisma.tournamentTemplate.delete).not.toHaveBeenCalled();
+  });
+});
@@ -562,15 +562,15 @@ describe('BM Finals API Route - /api/tournaments/[id]/bm/finals', () => {
       expect(result.data.seededPlayers).toHaveLength(8);
     });
 
-    // Validation error case - Returns 400 when topN is not 8 or 16
-    it('should return 400 when topN is not 8 or 16', async () => {
-      const request = new MockNextRequest('http://localhost:3000/api/tournaments/t1/bm/finals', { topN: 12 });
+    // Validation error case - Returns 400 for an unsupported bracket size
+    it('should return 400 when topN is not a supported bracket size', async () => {
+      const request = new MockNextRequest('http://localhost:3000/api/tournaments/t1/bm/finals', { topN: 6 });
       const params = Promise.resolve({ id: 't1' });
       const result = await POST(request, { params });
 
       expect(result.data).toEqual({
         success: false,
-        error: 'Only 8-player, 16-player, or 24-player (Top-16 + playoff) brackets are supported',
+        error: 'Only 4, 8, 12, 16, 24 or 32-player brackets are supported',
         code: 'VALIDATION_ERROR',
         details: { field: 'topN' },
       });
@@ -31,6 +31,7 @@ jest.mock('@/lib/sanitize', () => ({
 
 jest.mock('@/lib/tournament-identifier', () => ({
   resolveTournament: jest.fn(),
+  resolveTournamentId: jest.fn(async (id: string) => id),
 }));
 
 import { NextResponse, NextRequest } from 'next/server';
@@ -218,10 +219,7 @@ describe('PUT /api/tournaments/[id]/broadcast', () => {
   });
 
   it('clears a field when null is passed', async () => {
-    await PUT(
-      mockReq({ matchLabel: null }),
-      mockParams('t1'),
-    );
+    await PUT(mockReq({ matchLabel: null }), mockParams('t1'));
 
     expect(prisma.tournament.update).toHaveBeenCalledWith(
       expect.objectContaining({
@@ -236,10 +234,7 @@ describe('PUT /api/tournaments/[id]/broadcast', () => {
   });
 
   it('omits layout from partial update responses when layout is not sent', async () => {
-    await PUT(
-      mockReq({ matchLabel: 'SF1' }),
-      mockParams('t1'),
-    );
+    await PUT(mockReq({ matchLabel: 'SF1' }), mockParams('t1'));
 
     expect(prisma.tournament.update).toHaveBeenCalledWith(
       expect.objectContaining({
@@ -254,10 +249,7 @@ describe('PUT /api/tournaments/[id]/broadcast', () => {
   });
 
   it('clears player1 wins when null is passed', async () => {
-    await PUT(
-      mockReq({ player1Wins: null }),
-      mockParams('t1'),
-    );
+    await PUT(mockReq({ player1Wins: null }), mockParams('t1'));
 
     expect(prisma.tournament.update).toHaveBeenCalledWith(
       expect.objectContaining({
@@ -272,10 +264,7 @@ describe('PUT /api/tournaments/[id]/broadcast', () => {
   });
 
   it('clears player2 wins when null is passed', async () => {
-    await PUT(
-      mockReq({ player2Wins: null }),
-      mockParams('t1'),
-    );
+    await PUT(mockReq({ player2Wins: null }), mockParams('t1'));
 
     expect(prisma.tournament.update).toHaveBeenCalledWith(
       expect.objectContaining({
@@ -290,10 +279,7 @@ describe('PUT /api/tournaments/[id]/broadcast', () => {
   });
 
   it('trims whitespace from player names', async () => {
-    await PUT(
-      mockReq({ player1Name: '  Alice  ' }),
-      mockParams('t1'),
-    );
+    await PUT(mockReq({ player1Name: '  Alice  ' }), mockParams('t1'));
 
     expect(prisma.tournament.update).toHaveBeenCalledWith(
       expect.objectContaining({
@@ -328,6 +314,18 @@ describe('PUT /api/tournaments/[id]/broadcast', () => {
     expect((NextResponse.json as jest.Mock).mock.calls[0][1]?.status).toBe(403);
   });
 
+  it('allows a broadcast operator of the tournament', async () => {
+    jest.mocked(auth).mockResolvedValue({ user: { id: 'p1', userType: 'player', playerId: 'p1' } });
+    (prisma.tournamentStaff.findFirst as jest.Mock).mockResolvedValue({ id: 'staff-1' });
+
+    await PUT(mockReq({ player1Name: 'X' }), mockParams('t1'));
+
+    expect(prisma.tournamentStaff.findFirst).toHaveBeenCalledWith(
+      expect.objectContaining({ where: expect.objectContaining({ role: { in: ['BROADCAST_OPERATOR'] } }) }),
+    );
+    expect(prisma.tournament.update).toHaveBeenCalled();
+  });
+
   it('returns 400 when body is empty (no fields provided)', async () => {
     await PUT(mockReq({}), mockParams('t1'));
 
@@ -0,0 +1,77 @@
+// @ts-nocheck - Route mocks deliberately use compact partial shapes.
+
+jest.mock('next/server', () => ({
+  NextResponse: {
+    json: jest.fn((data: unknown, options?: { status?: number }) => ({ data, status: options?.status ?? 200 })),
+  },
+  NextRequest: jest.fn(),
+}));
+
+jest.mock('@/lib/logger', () => ({
+  createLogger: jest.fn(() => ({ error: jest.fn(), warn: jest.fn(), info: jest.fn(), debug: jest.fn() })),
+}));
+jest.mock('@/lib/tournament-identifier', () => ({ resolveTournament: jest.fn(), resolveTournamentId: jest.fn() }));
+
+import { resolveTournament } from '@/lib/tournament-identifier';
+import {
+  clearTournamentSubscribers,
+  countTournamentSubscribers,
+  publishTournamentChange,
+} from '@/lib/tournament-events';
+import { GET } from '@/app/api/tournaments/[id]/events/route';
+
+const params = { params: Promise.resolve({ id: 'spring-cup' }) };
+
+function request(scope?: string) {
+  const url = new URL('http://localhost/api/tournaments/spring-cup/events');
+  if (scope !== undefined) url.searchParams.set('scope', scope);
+  const controller = new AbortController();
+  return { req: { nextUrl: url, signal: controller.signal }, controller };
+}
+
+async function readChunk(reader: ReadableStreamDefaultReader<Uint8Array>) {
+  const { value } = await reader.read();
+  return new TextDecoder().decode(value);
+}
+
+describe('GET /api/tournaments/[id]/events', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    clearTournamentSubscribers();
+    resolveTournament.mockResolvedValue({ id: 't1' });
+  });
+
+  it('returns 404 for an unknown tournament', async () => {
+    resolveTournament.mockResolvedValue(null);
+
+    const response = await GET(request().req, params);
+
+    expect(response.status).toBe(404);
+  });
+
+  it('rejects an unknown scope', async () => {
+    const response = await GET(request('overall').req, params);
+
+    expect(response.status).toBe(400);
+    expect(response.data.details).toEqual({ field: 'scope' });
+  });
+
+  it('streams change events for the requested scope', async () => {
+    const { req, controller } = request('bm');
+    const response = await GET(req, params);
+    expect(response.headers.get('Content-Type')).toContain('text/event-stream');
+
+    const reader = response.body.getReader();
+    expect(await readChunk(reader)).toBe('retry: 3000\n\n');
+
+    publishTournamentChange('t1', 'ta');
+    publishTournamentChange('t1', 'bm');
+    const chunk = await readChunk(reader);
+    expect(chunk).toMatch(/^event: change\ndata: /);
+    expect(JSON.parse(chunk.split('data: ')[1])).toMatchObject({ scope: 'bm' });
+
+    controller.abort();
+    expect(countTournamentSubscribers('t1')).toBe(0);
+    expect((await reader.read()).done).toBe(true);
+  });
+});
@@ -1781,6 +1781,60 @@ describe('Export API Route - /api/tournaments/[id]/export', () => {
     expect(result.data).toEqual(expect.objectContaining({ success: false, code: 'FINALS_SEED_REPAIR_REQUIRED' }));
   });
 
+  it('rejects CDM export when a mode uses a bracket size the template cannot represent', async () => {
+    const assetFetch = mockRealTemplateAsset();
+    const seedState = {
+      status: 'active',
+      bmFinalsSeedSnapshot: null,
+      mrFinalsSeedSnapshot: null,
+      gpFinalsSeedSnapshot: null,
+    };
+    /* 23 finals rows = 12-player double elimination. */
+    const twelvePlayerFinals = Array.from({ length: 23 }, (_, index) => ({
+      matchNumber: index + 1,
+      stage: 'finals',
+      round: 'winners_r1',
+      completed: false,
+    }));
+
+    (prisma.tournament.findUnique as jest.Mock)
+      .mockResolvedValueOnce(seedState)
+      .mockResolvedValueOnce(seedState)
+      .mockResolvedValueOnce(seedState)
+      .mockResolvedValueOnce({
+        id: 't1',
+        name: 'Active Tournament',
+        date: new Date('2024-01-15'),
+        status: 'active',
+        bmQualifications: [],
+        mrQualifications: [],
+        gpQualifications: [],
+        bmMatches: [],
+        mrMatches: twelvePlayerFinals,
+        gpMatches: [],
+        ttEntries: [],
+        ttPhaseRounds: [],
+        finalsRoundSettings: [],
+        bmFinalsSeedSnapshot: null,
+        mrFinalsSeedSnapshot: null,
+        gpFinalsSeedSnapshot: null,
+      });
+
+    const result = await GET(new MockNextRequest('http://localhost:3000/api/tournaments/t1/export?format=cdm'), {
+      params: Promise.resolve({ id: 't1' }),
+    });
+
+    expect(result.status).toBe(409);
+    expect(result.data).toEqual(
+      expect.objectContaining({
+        success: false,
+        code: 'CDM_UNSUPPORTED_BRACKET_SIZE',
+        error: expect.stringContaining('(MR uses another size or format)'),
+      }),
+    );
+    expect(assetFetch).not.toHaveBeenCalled();
+  });
+
   /*
    * Regression coverage for the CDM Export HTTP 500 reported when the export
    * encounters a row whose `player` / `player1` / `player2` relation came back
@@ -2132,4 +2186,105 @@ describe('Export API Route - /api/tournaments/[id]/export', () => {
       );
     });
   });
+
+  describe('print sheets', () => {
+    const printTournament = {
+      id: 't1',
+      name: 'Print Cup',
+      date: new Date('2024-01-15'),
+      status: 'active',
+      bmQualifications: [],
+      mrQualifications: [
+        { playerId: 'p1', player: { id: 'p1', name: 'Alice', nickname: 'ALI' }, group: 'A', seeding: 1 },
+        { playerId: 'p2', player: { id: 'p2', name: 'Bob', nickname: 'BOB' }, group: 'A', seeding: 2 },
+      ],
+      gpQualifications: [],
+      bmMatches: [],
+      mrMatches: [
+        {
+          id: 'mr1',
+          matchNumber: 1,
+          stage: 'qualification',
+          roundNumber: 1,
+          tvNumber: 2,
+          player1Id: 'p1',
+          player2Id: 'p2',
+          player1: { id: 'p1', name: 'Alice', nickname: 'ALI' },
+          player2: { id: 'p2', name: 'Bob', nickname: 'BOB' },
+          player1Side: 1,
+          player2Side: 2,
+          completed: false,
+          assignedCourses: ['MC1', 'DP1', 'GV1', 'BC1'],
+        },
+      ],
+      gpMatches: [],
+      ttEntries: [
+        { playerId: 'p1', stage: 'qualification', seeding: 1, player: { id: 'p1', name: 'Alice', nickname: 'ALI' } },
+        { playerId: 'p2', stage: 'qualification', seeding: 2, player: { id: 'p2', name: 'Bob', nickname: 'BOB' } },
+      ],
+    };
+
+    const getPrint = (query: string) =>
+      GET(new MockNextRequest(`http://localhost:3000/api/tournaments/t1/export?format=print&${query}`), {
+        params: Promise.resolve({ id: 't1' }),
+      });
+
+    it('renders match cards as printable HTML from the export query', async () => {
+      (prisma.tournament.findUnique as jest.Mock).mockResolvedValue(printTournament);
+
+      const result = await getPrint('doc=match-cards&mode=mr');
+
+      expect(result.status).toBe(200);
+      expect(result.headers['Content-Type']).toBe('text/html; charset=utf-8');
+      expect(result.data).toContain('Match Race 対戦カード');
+      expect(result.data).toContain('MC1 / DP1 / GV1 / BC1');
+      expect(result.data).toContain('<td>2P</td><td>ALI</td>');
+      expect(result.data).not.toContain('<svg');
+      expect(prisma.tournament.findUnique).toHaveBeenCalledWith({
+        where: { id: 't1' },
+        include: expect.objectContaining({
+          mrMatches: {
+            include: { player1: { select: PLAYER_PUBLIC_SELECT }, player2: { select: PLAYER_PUBLIC_SELECT } },
+          },
+          mrQualifications: { include: { player: { select: PLAYER_PUBLIC_SELECT } } },
+        }),
+      });
+    });
+
+    it('adds a QR report code per open match when report links can be signed', async () => {
+      process.env.AUTH_SECRET = 'print-secret';
+      (prisma.tournament.findUnique as jest.Mock).mockResolvedValue(printTournament);
+
+      const result = await getPrint('doc=match-cards&mode=mr');
+
+      expect(result.data).toContain('<th>スコア入力</th>');
+      expect(result.data.match(/<td class="qr"><svg/g)).toHaveLength(2);
+      delete process.env.AUTH_SECRET;
+    });
+
+    it('renders the TA pair sheet in English when asked', async () => {
+      (prisma.tournament.findUnique as jest.Mock).mockResolvedValue(printTournament);
+
+      const result = await getPrint('doc=ta-pairs&lang=en');
+
+      expect(result.data).toContain('<html lang="en">');
+      expect(result.data).toContain('Time Attack Qualification Pairs');
+      expect(result.data).toContain('ALI <span class="seed">[1]</span></td><td>BOB');
+    });
+
+    it('rejects an unknown document or a missing mode', async () => {
+      expect((await getPrint('doc=scorecard')).status).toBe(400);
+      expect((await getPrint('doc=bracket')).status).toBe(400);
+      expect(prisma.tournament.findUnique).not.toHaveBeenCalled();
+    });
+
+    it('requires an admin session', async () => {
+      jest.mocked(auth).mockResolvedValue({ user: { id: 'player-1', role: 'player' } });
+
+      const result = await getPrint('doc=bracket&mode=bm');
+
+      expect(result.status).toBe(403);
+      expect(prisma.tournament.findUnique).not.toHaveBeenCalled();
+    });
+  });
 });
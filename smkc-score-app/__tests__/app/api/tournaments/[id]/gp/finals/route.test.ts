@@ -21,6 +21,7 @@
 jest.mock('@/lib/auth', () => ({ auth: jest.fn() }));
 jest.mock('@/lib/logger', () => ({ createLogger: jest.fn(() => ({ error: jest.fn(), warn: jest.fn() })) }));
 jest.mock('@/lib/double-elimination', () => ({
+  ...jest.requireActual('@/lib/double-elimination'),
   generateBracketStructure: jest.fn(),
   generatePlayoffStructure: jest.fn(() => []),
   roundNames: {
@@ -163,6 +164,7 @@ describe('GP Finals API Route - /api/tournaments/[id]/gp/finals', () => {
         ...mockPaginatedResult,
         bracketStructure: mockBracket,
         bracketSize: expect.any(Number),
+        finalsFormat: 'double_elimination',
         roundNames,
         phase: 'finals',
         playoffMatches: [],
@@ -659,15 +661,15 @@ describe('GP Finals API Route - /api/tournaments/[id]/gp/finals', () => {
       expect(ft3Match.cup).toBe((ft3Match.assignedCups as string[])[0]);
     });
 
-    // Validation error case - Returns 400 when topN is not 8
-    it('should return 400 when topN is not 8', async () => {
-      const request = new MockNextRequest('http://localhost:3000/api/tournaments/t1/gp/finals', { topN: 4 });
+    // Validation error case - Returns 400 for an unsupported bracket size
+    it('should return 400 when topN is not a supported bracket size', async () => {
+      const request = new MockNextRequest('http://localhost:3000/api/tournaments/t1/gp/finals', { topN: 6 });
       const params = Promise.resolve({ id: 't1' });
       const result = await POST(request, { params });
 
       expect(result.data).toEqual({
         success: false,
-        error: 'Only 8-player, 16-player, or 24-player (Top-16 + playoff) brackets are supported',
+        error: 'Only 4, 8, 12, 16, 24 or 32-player brackets are supported',
         code: 'VALIDATION_ERROR',
         details: { field: 'topN' },
       });
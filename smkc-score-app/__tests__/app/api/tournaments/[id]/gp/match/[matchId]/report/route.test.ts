@@ -87,13 +87,13 @@ class MockNextRequest {
   constructor(
     private url: string,
     private body?: any,
-    private headers: Map<string, string> = new Map(),
+    private headerMap: Map<string, string> = new Map(),
   ) {}
   async json() {
     return this.body;
   }
   headers = {
-    get: (key: string) => this.headers.get(key),
+    get: (key: string) => this.headerMap.get(key) ?? null,
   };
 }
 
@@ -15,7 +15,6 @@
  */
 // @ts-nocheck
 
-
 jest.mock('@/lib/auth', () => ({ auth: jest.fn() }));
 jest.mock('@/lib/standings-cache', () => ({
   get: jest.fn(),
@@ -40,14 +39,18 @@ class MockNextRequest {
   constructor(
     private url: string,
     private body?: any,
-    headers?: Map<string, string>
+    headers?: Map<string, string>,
   ) {
     this._headers = headers || new Map();
   }
-  async json() { return this.body; }
-  get header() { return { get: (key: string) => this._headers.get(key) }; }
+  async json() {
+    return this.body;
+  }
+  get header() {
+    return { get: (key: string) => this._headers.get(key) };
+  }
   headers = {
-    get: (key: string) => this._headers.get(key)
+    get: (key: string) => this._headers.get(key),
   };
 }
 
@@ -168,6 +171,8 @@ describe('GP Standings API Route - /api/tournaments/[id]/gp/standings', () => {
             losses: 1,
             points: 36,
             score: 6,
+            withdrawnAt: null,
+            withdrawalPolicy: null,
           },
           {
             rank: 2,
@@ -181,6 +186,8 @@ describe('GP Standings API Route - /api/tournaments/[id]/gp/standings', () => {
             losses: 1,
             points: 30,
             score: 5,
+            withdrawnAt: null,
+            withdrawalPolicy: null,
           },
         ],
       });
@@ -189,10 +196,7 @@ describe('GP Standings API Route - /api/tournaments/[id]/gp/standings', () => {
         where: { tournamentId: 't1' },
         include: { player: { select: PLAYER_PUBLIC_SELECT } },
         // GP ranks by match score first, then driver points (per requirements.md Section 4.1)
-        orderBy: [
-          { score: 'desc' },
-          { points: 'desc' },
-        ],
+        orderBy: [{ score: 'desc' }, { points: 'desc' }],
       });
       expect(set).toHaveBeenCalledWith('t1', 'qualification', mockQualifications, 'etag-123');
     });
@@ -269,7 +273,7 @@ describe('GP Standings API Route - /api/tournaments/[id]/gp/standings', () => {
       const request = new MockNextRequest(
         'http://localhost:3000/api/tournaments/t1/gp/standings',
         undefined,
-        new Map([['if-none-match', '*']])
+        new Map([['if-none-match', '*']]),
       );
       const params = Promise.resolve({ id: 't1' });
       const result = await GET(request, { params });
@@ -369,7 +373,10 @@ describe('GP Standings API Route - /api/tournaments/[id]/gp/standings', () => {
 
       expect(result.data).toEqual({ success: false, error: 'Failed to fetch GP standings', code: 'INTERNAL_ERROR' });
       expect(result.status).toBe(500);
-      expect(loggerMock.error).toHaveBeenCalledWith('Failed to fetch GP standings', { error: expect.any(Error), tournamentId: 't1' });
+      expect(loggerMock.error).toHaveBeenCalledWith('Failed to fetch GP standings', {
+        error: expect.any(Error),
+        tournamentId: 't1',
+      });
     });
 
     // Edge case - Handles invalid tournament ID gracefully
@@ -480,9 +487,11 @@ describe('GP Standings API Route - /api/tournaments/[id]/gp/standings', () => {
       expect(result.data.qualifications[0].playerId).toBe('p1');
       expect(result.data.qualifications[1].playerId).toBe('p2');
       expect(result.data.qualifications[2].playerId).toBe('p3');
-      expect(prisma.gPQualification.findMany).toHaveBeenCalledWith(expect.objectContaining({
-        orderBy: [{ score: 'desc' }, { points: 'desc' }],
-      }));
+      expect(prisma.gPQualification.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          orderBy: [{ score: 'desc' }, { points: 'desc' }],
+        }),
+      );
     });
   });
 });
@@ -31,6 +31,7 @@
 
 jest.mock('@/lib/auth', () => ({ auth: jest.fn() }));
 jest.mock('@/lib/double-elimination', () => ({
+  ...jest.requireActual('@/lib/double-elimination'),
   generateBracketStructure: jest.fn(() => []),
   generatePlayoffStructure: jest.fn(() => []),
   roundNames: ['Quarter Finals', 'Semi Finals', 'Finals'],
@@ -154,6 +155,7 @@ describe('MR Finals API Route - /api/tournaments/[id]/mr/finals', () => {
         matches: mockMatches,
         bracketStructure: expect.any(Array),
         bracketSize: expect.any(Number),
+        finalsFormat: 'double_elimination',
         roundNames: ['Quarter Finals', 'Semi Finals', 'Finals'],
         phase: 'finals',
         playoffMatches: [],
@@ -411,15 +413,15 @@ describe('MR Finals API Route - /api/tournaments/[id]/mr/finals', () => {
       expect(result.status).toBe(201);
     });
 
-    // Validation error case - Returns 400 when topN is not 8 or 16
-    it('should return 400 when topN is not 8 or 16', async () => {
-      const request = new MockNextRequest('http://localhost:3000/api/tournaments/t1/mr/finals', { topN: 12 });
+    // Validation error case - Returns 400 for an unsupported bracket size
+    it('should return 400 when topN is not a supported bracket size', async () => {
+      const request = new MockNextRequest('http://localhost:3000/api/tournaments/t1/mr/finals', { topN: 6 });
       const params = Promise.resolve({ id: 't1' });
       const result = await POST(request, { params });
 
       expect(result.data).toEqual({
         success: false,
-        error: 'Only 8-player, 16-player, or 24-player (Top-16 + playoff) brackets are supported',
+        error: 'Only 4, 8, 12, 16, 24 or 32-player brackets are supported',
         code: 'VALIDATION_ERROR',
         details: { field: 'topN' },
       });
@@ -23,7 +23,6 @@
  */
 // @ts-nocheck
 
-
 jest.mock('@/lib/auth', () => ({ auth: jest.fn() }));
 jest.mock('@/lib/standings-cache', () => ({
   get: jest.fn(),
@@ -52,10 +51,12 @@ class MockNextRequest {
   constructor(url: string, headers: Map<string, string> = new Map()) {
     this._url = url;
     this.headers = {
-      get: (key: string) => headers.get(key) ?? null
+      get: (key: string) => headers.get(key) ?? null,
     };
   }
-  get url() { return this._url; }
+  get url() {
+    return this._url;
+  }
 }
 
 describe('MR Standings API Route - /api/tournaments/[id]/mr/standings', () => {
@@ -90,7 +91,7 @@ describe('MR Standings API Route - /api/tournaments/[id]/mr/standings', () => {
 
       expect(result.data).toEqual({ ...cachedData.data, _cached: true });
       expect(result.headers).toEqual({
-        'ETag': 'etag-123',
+        ETag: 'etag-123',
         'Cache-Control': 'private, max-age=0, must-revalidate',
       });
       expect(get).toHaveBeenCalledWith('t1', 'qualification');
@@ -102,8 +103,30 @@ describe('MR Standings API Route - /api/tournaments/[id]/mr/standings', () => {
       jest.mocked(auth).mockResolvedValue(mockAuth);
 
       const mockQualifications = [
-        { id: 'q1', playerId: 'p1', group: 'A', score: 6, points: 10, mp: 3, wins: 2, ties: 1, losses: 0, player: { name: 'Player 1', nickname: 'P1' } },
-        { id: 'q2', playerId: 'p2', group: 'A', score: 4, points: 8, mp: 3, wins: 1, ties: 2, losses: 0, player: { name: 'Player 2', nickname: 'P2' } },
+        {
+          id: 'q1',
+          playerId: 'p1',
+          group: 'A',
+          score: 6,
+          points: 10,
+          mp: 3,
+          wins: 2,
+          ties: 1,
+          losses: 0,
+          player: { name: 'Player 1', nickname: 'P1' },
+        },
+        {
+          id: 'q2',
+          playerId: 'p2',
+          group: 'A',
+          score: 4,
+          points: 8,
+          mp: 3,
+          wins: 1,
+          ties: 2,
+          losses: 0,
+          player: { name: 'Player 2', nickname: 'P2' },
+        },
       ];
 
       (get as jest.Mock).mockResolvedValue(null);
@@ -120,8 +143,38 @@ describe('MR Standings API Route - /api/tournaments/[id]/mr/standings', () => {
         stage: 'qualification',
         lastUpdated: expect.any(String),
         qualifications: [
-          { rank: 1, rankOverridden: false, playerId: 'p1', playerName: 'Player 1', playerNickname: 'P1', group: 'A', matchesPlayed: 3, wins: 2, ties: 1, losses: 0, points: 10, score: 6 },
-          { rank: 2, rankOverridden: false, playerId: 'p2', playerName: 'Player 2', playerNickname: 'P2', group: 'A', matchesPlayed: 3, wins: 1, ties: 2, losses: 0, points: 8, score: 4 },
+          {
+            rank: 1,
+            rankOverridden: false,
+            playerId: 'p1',
+            playerName: 'Player 1',
+            playerNickname: 'P1',
+            group: 'A',
+            matchesPlayed: 3,
+            wins: 2,
+            ties: 1,
+            losses: 0,
+            points: 10,
+            score: 6,
+            withdrawnAt: null,
+            withdrawalPolicy: null,
+          },
+          {
+            rank: 2,
+            rankOverridden: false,
+            playerId: 'p2',
+            playerName: 'Player 2',
+            playerNickname: 'P2',
+            group: 'A',
+            matchesPlayed: 3,
+            wins: 1,
+            ties: 2,
+            losses: 0,
+            points: 8,
+            score: 4,
+            withdrawnAt: null,
+            withdrawalPolicy: null,
+          },
         ],
       });
       expect(prisma.mRQualification.findMany).toHaveBeenCalledWith({
@@ -144,7 +197,18 @@ describe('MR Standings API Route - /api/tournaments/[id]/mr/standings', () => {
       };
 
       const mockQualifications = [
-        { id: 'q1', playerId: 'p1', group: 'A', score: 6, points: 10, mp: 3, wins: 2, ties: 1, losses: 0, player: { name: 'Player 1', nickname: 'P1' } },
+        {
+          id: 'q1',
+          playerId: 'p1',
+          group: 'A',
+          score: 6,
+          points: 10,
+          mp: 3,
+          wins: 2,
+          ties: 1,
+          losses: 0,
+          player: { name: 'Player 1', nickname: 'P1' },
+        },
       ];
 
       (get as jest.Mock).mockResolvedValue(cachedData);
@@ -161,7 +225,22 @@ describe('MR Standings API Route - /api/tournaments/[id]/mr/standings', () => {
         stage: 'qualification',
         lastUpdated: expect.any(String),
         qualifications: [
-          { rank: 1, rankOverridden: false, playerId: 'p1', playerName: 'Player 1', playerNickname: 'P1', group: 'A', matchesPlayed: 3, wins: 2, ties: 1, losses: 0, points: 10, score: 6 },
+          {
+            rank: 1,
+            rankOverridden: false,
+            playerId: 'p1',
+            playerName: 'Player 1',
+            playerNickname: 'P1',
+            group: 'A',
+            matchesPlayed: 3,
+            wins: 2,
+            ties: 1,
+            losses: 0,
+            points: 10,
+            score: 6,
+            withdrawnAt: null,
+            withdrawalPolicy: null,
+          },
         ],
       });
       expect(prisma.mRQualification.findMany).toHaveBeenCalled();
@@ -179,7 +258,18 @@ describe('MR Standings API Route - /api/tournaments/[id]/mr/standings', () => {
       };
 
       const mockQualifications = [
-        { id: 'q1', playerId: 'p1', group: 'A', score: 6, points: 10, mp: 3, wins: 2, ties: 1, losses: 0, player: { name: 'Player 1', nickname: 'P1' } },
+        {
+          id: 'q1',
+          playerId: 'p1',
+          group: 'A',
+          score: 6,
+          points: 10,
+          mp: 3,
+          wins: 2,
+          ties: 1,
+          losses: 0,
+          player: { name: 'Player 1', nickname: 'P1' },
+        },
       ];
 
       (get as jest.Mock).mockResolvedValue(cachedData);
@@ -187,7 +277,10 @@ describe('MR Standings API Route - /api/tournaments/[id]/mr/standings', () => {
       (prisma.mRQualification.findMany as jest.Mock).mockResolvedValue(mockQualifications);
       (set as jest.Mock).mockResolvedValue(undefined);
 
-      const request = new MockNextRequest('http://localhost:3000/api/tournaments/t1/mr/standings', new Map([['if-none-match', '*']]));
+      const request = new MockNextRequest(
+        'http://localhost:3000/api/tournaments/t1/mr/standings',
+        new Map([['if-none-match', '*']]),
+      );
       const params = Promise.resolve({ id: 't1' });
       const result = await GET(request, { params });
 
@@ -196,7 +289,22 @@ describe('MR Standings API Route - /api/tournaments/[id]/mr/standings', () => {
         stage: 'qualification',
         lastUpdated: expect.any(String),
         qualifications: [
-          { rank: 1, rankOverridden: false, playerId: 'p1', playerName: 'Player 1', playerNickname: 'P1', group: 'A', matchesPlayed: 3, wins: 2, ties: 1, losses: 0, points: 10, score: 6 },
+          {
+            rank: 1,
+            rankOverridden: false,
+            playerId: 'p1',
+            playerName: 'Player 1',
+            playerNickname: 'P1',
+            group: 'A',
+            matchesPlayed: 3,
+            wins: 2,
+            ties: 1,
+            losses: 0,
+            points: 10,
+            score: 6,
+            withdrawnAt: null,
+            withdrawalPolicy: null,
+          },
         ],
       });
       expect(prisma.mRQualification.findMany).toHaveBeenCalled();
@@ -267,7 +375,10 @@ describe('MR Standings API Route - /api/tournaments/[id]/mr/standings', () => {
 
       expect(result.data).toEqual({ success: false, error: 'Failed to fetch MR standings', code: 'INTERNAL_ERROR' });
       expect(result.status).toBe(500);
-      expect(loggerMock.error).toHaveBeenCalledWith('Failed to fetch MR standings', { error: expect.any(Error), tournamentId: 't1' });
+      expect(loggerMock.error).toHaveBeenCalledWith('Failed to fetch MR standings', {
+        error: expect.any(Error),
+        tournamentId: 't1',
+      });
     });
 
     // Error case - Returns 500 when cache get operation fails
@@ -283,7 +394,10 @@ describe('MR Standings API Route - /api/tournaments/[id]/mr/standings', () => {
 
       expect(result.data).toEqual({ success: false, error: 'Failed to fetch MR standings', code: 'INTERNAL_ERROR' });
       expect(result.status).toBe(500);
-      expect(loggerMock.error).toHaveBeenCalledWith('Failed to fetch MR standings', { error: expect.any(Error), tournamentId: 't1' });
+      expect(loggerMock.error).toHaveBeenCalledWith('Failed to fetch MR standings', {
+        error: expect.any(Error),
+        tournamentId: 't1',
+      });
     });
 
     // Edge case - Handles empty standings
@@ -315,7 +429,18 @@ describe('MR Standings API Route - /api/tournaments/[id]/mr/standings', () => {
       jest.mocked(auth).mockResolvedValue(mockAuth);
 
       const mockQualifications = [
-        { id: 'q1', playerId: 'p1', group: 'A', score: 6, points: 10, mp: 3, wins: 2, ties: 1, losses: 0, player: { name: 'Player 1', nickname: 'P1' } },
+        {
+          id: 'q1',
+          playerId: 'p1',
+          group: 'A',
+          score: 6,
+          points: 10,
+          mp: 3,
+          wins: 2,
+          ties: 1,
+          losses: 0,
+          player: { name: 'Player 1', nickname: 'P1' },
+        },
       ];
 
       (get as jest.Mock).mockResolvedValue(null);
@@ -337,7 +462,18 @@ describe('MR Standings API Route - /api/tournaments/[id]/mr/standings', () => {
       jest.mocked(auth).mockResolvedValue(mockAuth);
 
       const mockQualifications = [
-        { id: 'q1', playerId: 'p1', group: 'A', score: 6, points: 10, mp: 3, wins: 2, ties: 1, losses: 0, player: { name: 'Player 1', nickname: 'P1' } },
+        {
+          id: 'q1',
+          playerId: 'p1',
+          group: 'A',
+          score: 6,
+          points: 10,
+          mp: 3,
+          wins: 2,
+          ties: 1,
+          losses: 0,
+          player: { name: 'Player 1', nickname: 'P1' },
+        },
       ];
 
       (get as jest.Mock).mockResolvedValue(null);
@@ -359,9 +495,42 @@ describe('MR Standings API Route - /api/tournaments/[id]/mr/standings', () => {
       jest.mocked(auth).mockResolvedValue(mockAuth);
 
       const mockQualifications = [
-        { id: 'q1', playerId: 'p1', group: 'A', score: 6, points: 10, mp: 3, wins: 2, ties: 1, losses: 0, player: { name: 'Player 1', nickname: 'P1' } },
-        { id: 'q2', playerId: 'p2', group: 'A', score: 6, points: 8, mp: 3, wins: 1, ties: 3, losses: 0, player: { name: 'Player 2', nickname: 'P2' } },
-        { id: 'q3', playerId: 'p3', group: 'A', score: 4, points: 8, mp: 3, wins: 1, ties: 2, losses: 1, player: { name: 'Player 3', nickname: 'P3' } },
+        {
+          id: 'q1',
+          playerId: 'p1',
+          group: 'A',
+          score: 6,
+          points: 10,
+          mp: 3,
+          wins: 2,
+          ties: 1,
+          losses: 0,
+          player: { name: 'Player 1', nickname: 'P1' },
+        },
+        {
+          id: 'q2',
+          playerId: 'p2',
+          group: 'A',
+          score: 6,
+          points: 8,
+          mp: 3,
+          wins: 1,
+          ties: 3,
+          losses: 0,
+          player: { name: 'Player 2', nickname: 'P2' },
+        },
+        {
+          id: 'q3',
+          playerId: 'p3',
+          group: 'A',
+          score: 4,
+          points: 8,
+          mp: 3,
+          wins: 1,
+          ties: 2,
+          losses: 1,
+          player: { name: 'Player 3', nickname: 'P3' },
+        },
       ];
 
       (get as jest.Mock).mockResolvedValue(null);
@@ -47,6 +47,11 @@ jest.mock('@/lib/overlay/events', () => ({
   buildOverlayEvents: jest.fn(),
 }));
 
+jest.mock('@/lib/ta/course-records', () => ({
+  ...jest.requireActual('@/lib/ta/course-records'),
+  loadCourseTimes: jest.fn(),
+}));
+
 jest.mock('@/lib/overlay/phase', () => ({
   computeCurrentPhase: jest.fn(),
   computeCurrentPhaseFormat: jest.fn(),
@@ -99,6 +104,7 @@ import { computeCurrentPhase, computeCurrentPhaseFormat } from '@/lib/overlay/ph
 import { normalizeOverlayBroadcastLayout, DEFAULT_OVERLAY_BROADCAST_LAYOUT } from '@/lib/overlay/layout';
 import { GET, invalidateOverlayProbe } from '@/app/api/tournaments/[id]/overlay-events/route';
 import { createLogger } from '@/lib/logger';
+import { loadCourseTimes } from '@/lib/ta/course-records';
 
 /** Response shape returned by our NextResponseMock (not the real NextResponse). */
 type MockResponse = {
@@ -112,6 +118,7 @@ const mockBuildOverlayEvents = jest.mocked(buildOverlayEvents);
 const mockComputeCurrentPhase = jest.mocked(computeCurrentPhase);
 const mockComputeCurrentPhaseFormat = jest.mocked(computeCurrentPhaseFormat);
 const mockNormalizeLayout = jest.mocked(normalizeOverlayBroadcastLayout);
+const mockLoadCourseTimes = jest.mocked(loadCourseTimes);
 // Access prisma mock instance created inside jest.mock factory.
 const mockPrisma = jest.requireMock('@/lib/prisma').default;
 
@@ -252,6 +259,64 @@ describe('GET /api/tournaments/[id]/overlay-events', () => {
       expect(mockBuildOverlayEvents).toHaveBeenCalledWith(expect.objectContaining({ scoreLogs: [], gpMatches: [] }));
     });
 
+    it('passes qualification times that beat a personal best or event record as course records', async () => {
+      const id = 'course-records-overlay';
+      mockResolveTournament.mockResolvedValue(makeTournament(id));
+      const now = new Date();
+      stubAggregatesAt(now);
+      stubPhaseInputEmpty();
+      stubFindManyEmpty();
+      mockPrisma.tTEntry.findMany.mockResolvedValue([
+        {
+          id: 'entry-1',
+          playerId: 'p1',
+          stage: 'qualification',
+          updatedAt: now,
+          lastRecordedCourse: 'MC1',
+          lastRecordedTime: '0:58.00',
+          player: { nickname: 'Alice' },
+        },
+      ]);
+      const past = { nickname: 'Alice', tournamentId: id, course: 'MC1', stage: 'qualification' };
+      mockLoadCourseTimes.mockResolvedValue({
+        tournaments: [],
+        times: [
+          { ...past, playerId: 'p2', nickname: 'Bob', timeMs: 57000, sourceId: 'entry-2' },
+          { ...past, playerId: 'p1', timeMs: 59000, tournamentId: 'older', sourceId: 'entry-0' },
+        ],
+      });
+
+      await GET(makeRequest({ since: new Date(now.getTime() - 60_000).toISOString() }), makeParams(id));
+
+      expect(mockLoadCourseTimes).toHaveBeenCalledWith({
+        includeHidden: false,
+        includeArchived: false,
+        focusTournamentId: id,
+        playerIds: ['p1'],
+        courses: ['MC1'],
+      });
+      expect(mockBuildOverlayEvents).toHaveBeenCalledWith(
+        expect.objectContaining({
+          taCourseRecords: [
+            expect.objectContaining({
+              sourceId: 'entry-1',
+              course: 'MC1',
+              timeMs: 58000,
+              recordedAt: now,
+              records: [
+                {
+                  kind: 'personal_best',
+                  previousTimeMs: 59000,
+                  previousTimeFormatted: '0:59.00',
+                  previousHolder: 'Alice',
+                },
+              ],
+            }),
+          ],
+        }),
+      );
+    });
+
     it('returns events from buildOverlayEvents when latestChange > since', async () => {
       const id = 'full-build-tc-2485';
       mockResolveTournament.mockResolvedValue(makeTournament(id));
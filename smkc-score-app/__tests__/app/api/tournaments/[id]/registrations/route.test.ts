@@ -0,0 +1,448 @@
+// @ts-nocheck - Route mocks deliberately use compact partial shapes.
+
+jest.mock('next/server', () => ({
+  NextResponse: {
+    json: jest.fn((data: unknown, options?: { status?: number }) => ({ data, status: options?.status ?? 200 })),
+  },
+  NextRequest: jest.fn(),
+}));
+
+jest.mock('@/lib/auth', () => ({ auth: jest.fn() }));
+jest.mock('@/lib/audit-log', () => ({
+  createAuditLog: jest.fn(() => Promise.resolve()),
+  createRequiredAuditLog: jest.fn(() => Promise.resolve()),
+  AUDIT_ACTIONS: {
+    UPDATE_REGISTRATION_SETTINGS: 'UPDATE_REGISTRATION_SETTINGS',
+    CREATE_TOURNAMENT_REGISTRATION: 'CREATE_TOURNAMENT_REGISTRATION',
+    REVIEW_TOURNAMENT_REGISTRATION: 'REVIEW_TOURNAMENT_REGISTRATION',
+    WITHDRAW_TOURNAMENT_REGISTRATION: 'WITHDRAW_TOURNAMENT_REGISTRATION',
+    CHECK_IN_TOURNAMENT_REGISTRATION: 'CHECK_IN_TOURNAMENT_REGISTRATION',
+    MARK_REGISTRATION_NO_SHOW: 'MARK_REGISTRATION_NO_SHOW',
+  },
+  resolveAuditUserId: jest.fn((session) => (session?.user?.userType === 'player' ? undefined : session?.user?.id)),
+}));
+jest.mock('@/lib/rate-limit', () => ({ checkRateLimit: jest.fn() }));
+jest.mock('@/lib/sanitize', () => ({ sanitizeInput: jest.fn((data) => data) }));
+jest.mock('@/lib/tournament-identifier', () => ({ resolveTournament: jest.fn() }));
+jest.mock('@/lib/qualification-no-show', () => ({ convertNoShowMatches: jest.fn(), findNoShowMatches: jest.fn() }));
+jest.mock('@/lib/qualification-confirmed-check', () => ({ checkQualificationConfirmed: jest.fn() }));
+jest.mock('@/lib/standings-cache', () => ({ invalidate: jest.fn() }));
+jest.mock('@/lib/points/overall-ranking', () => ({ invalidateOverallRankingsCache: jest.fn() }));
+jest.mock('@/lib/tournament-events', () => ({ publishTournamentChange: jest.fn() }));
+
+import prisma from '@/lib/prisma';
+import { auth } from '@/lib/auth';
+import { createAuditLog, createRequiredAuditLog } from '@/lib/audit-log';
+import { checkRateLimit } from '@/lib/rate-limit';
+import { resolveTournament } from '@/lib/tournament-identifier';
+import { convertNoShowMatches, findNoShowMatches } from '@/lib/qualification-no-show';
+import { checkQualificationConfirmed } from '@/lib/qualification-confirmed-check';
+import { invalidate } from '@/lib/standings-cache';
+import { publishTournamentChange } from '@/lib/tournament-events';
+import { GET, POST, PUT } from '@/app/api/tournaments/[id]/registrations/route';
+import { PATCH } from '@/app/api/tournaments/[id]/registrations/[registrationId]/route';
+import { DELETE as WITHDRAW, GET as GET_ME } from '@/app/api/tournaments/[id]/registrations/me/route';
+import { POST as CHECK_IN, PUT as BULK_CHECK_IN } from '@/app/api/tournaments/[id]/registrations/check-in/route';
+import { POST as NO_SHOW } from '@/app/api/tournaments/[id]/registrations/[registrationId]/no-show/route';
+
+const params = { params: Promise.resolve({ id: 'spring-cup' }) };
+const reviewParams = { params: Promise.resolve({ id: 'spring-cup', registrationId: 'r1' }) };
+const adminSession = { user: { id: 'admin', role: 'admin' } };
+const playerSession = { user: { id: 'p1', userType: 'player', playerId: 'p1' } };
+const openSettings = { open: true, cap: 2, modes: ['bm', 'gp'], checkIn: false };
+
+function request(body?: unknown) {
+  return { json: async () => body, headers: { get: () => 'jest' } };
+}
+
+describe('/api/tournaments/:id/registrations', () => {
+  beforeEach(() => {
+    auth.mockResolvedValue(playerSession);
+    checkRateLimit.mockResolvedValue({ success: true });
+    resolveTournament.mockResolvedValue({ id: 't1', status: 'draft', registrationSettings: openSettings });
+    prisma.tournamentRegistration.findFirst.mockResolvedValue(null);
+    prisma.tournamentRegistration.count.mockResolvedValue(0);
+    prisma.tournamentRegistration.findMany.mockResolvedValue([]);
+    prisma.tournamentRegistration.create.mockImplementation(({ data }) =>
+      Promise.resolve({ id: 'r1', status: data.status, modes: data.modes }),
+    );
+  });
+
+  describe('POST (sign up)', () => {
+    it('creates a pending entry for the chosen modes', async () => {
+      const response = await POST(request({ modes: ['gp', 'bm'] }), params);
+
+      expect(response.status).toBe(201);
+      expect(prisma.tournamentRegistration.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: { tournamentId: 't1', playerId: 'p1', modes: ['bm', 'gp'], status: 'pending' },
+        }),
+      );
+      expect(createAuditLog).toHaveBeenCalledWith(
+        expect.objectContaining({ action: 'CREATE_TOURNAMENT_REGISTRATION', targetId: 'r1' }),
+      );
+    });
+
+    it('waitlists the entry once the cap is full', async () => {
+      prisma.tournamentRegistration.count.mockResolvedValue(2);
+
+      const response = await POST(request({ modes: ['bm'] }), params);
+
+      expect(response.status).toBe(201);
+      expect(response.data.data.status).toBe('waitlisted');
+    });
+
+    it('waitlists the entry when a concurrent sign-up took the last spot first', async () => {
+      prisma.tournamentRegistration.count.mockResolvedValue(1);
+      prisma.tournamentRegistration.findMany.mockResolvedValue([{ id: 'r0' }, { id: 'r-other' }, { id: 'r1' }]);
+
+      const response = await POST(request({ modes: ['bm'] }), params);
+
+      expect(response.status).toBe(201);
+      expect(response.data.data.status).toBe('waitlisted');
+      expect(prisma.tournamentRegistration.updateMany).toHaveBeenCalledWith({
+        where: { id: 'r1', status: 'pending' },
+        data: { status: 'waitlisted' },
+      });
+      expect(createAuditLog).toHaveBeenCalledWith(
+        expect.objectContaining({ details: expect.objectContaining({ status: 'waitlisted' }) }),
+      );
+    });
+
+    it('requires a player session', async () => {
+      auth.mockResolvedValue(null);
+      expect((await POST(request({ modes: ['bm'] }), params)).status).toBe(401);
+
+      auth.mockResolvedValue(adminSession);
+      expect((await POST(request({ modes: ['bm'] }), params)).status).toBe(403);
+      expect(prisma.tournamentRegistration.create).not.toHaveBeenCalled();
+    });
+
+    it('rejects sign-ups while registration is closed or the tournament is over', async () => {
+      resolveTournament.mockResolvedValue({ id: 't1', status: 'draft', registrationSettings: null });
+      expect((await POST(request({ modes: ['bm'] }), params)).status).toBe(409);
+
+      resolveTournament.mockResolvedValue({ id: 't1', status: 'completed', registrationSettings: openSettings });
+      expect((await POST(request({ modes: ['bm'] }), params)).status).toBe(409);
+      expect(prisma.tournamentRegistration.create).not.toHaveBeenCalled();
+    });
+
+    it('rejects modes that are not offered and duplicate sign-ups', async () => {
+      const invalid = await POST(request({ modes: ['ta'] }), params);
+      expect(invalid.status).toBe(400);
+      expect(invalid.data.details.field).toBe('modes');
+
+      prisma.tournamentRegistration.findFirst.mockResolvedValue({ id: 'r0' });
+      expect((await POST(request({ modes: ['bm'] }), params)).status).toBe(409);
+      expect(prisma.tournamentRegistration.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('GET / PUT (admin)', () => {
+    beforeEach(() => {
+      auth.mockResolvedValue(adminSession);
+    });
+
+    it('rejects non-admin callers', async () => {
+      auth.mockResolvedValue(playerSession);
+
+      expect((await GET(request(), params)).status).toBe(403);
+      expect((await PUT(request({ open: true }), params)).status).toBe(403);
+      expect((await PATCH(request({ status: 'approved' }), reviewParams)).status).toBe(403);
+    });
+
+    it('lists entries with the stored settings', async () => {
+      prisma.tournamentRegistration.findMany.mockResolvedValue([{ id: 'r1', status: 'pending' }]);
+
+      const response = await GET(request(), params);
+
+      expect(response.data.data).toEqual({ settings: openSettings, registrations: [{ id: 'r1', status: 'pending' }] });
+    });
+
+    it('saves settings and promotes the waitlist when the cap is raised', async () => {
+      prisma.tournamentRegistration.count.mockResolvedValue(2);
+      prisma.tournamentRegistration.findMany.mockResolvedValue([{ id: 'r3' }]);
+
+      const response = await PUT(request({ cap: 4 }), params);
+
+      expect(response.status).toBe(200);
+      expect(prisma.tournament.update).toHaveBeenCalledWith({
+        where: { id: 't1' },
+        data: { registrationSettings: { open: true, cap: 4, modes: ['bm', 'gp'], checkIn: false } },
+      });
+      expect(response.data.data.promoted).toEqual(['r3']);
+      expect(createAuditLog).toHaveBeenCalledWith(expect.objectContaining({ action: 'UPDATE_REGISTRATION_SETTINGS' }));
+    });
+
+    it('validates settings', async () => {
+      const response = await PUT(request({ cap: 0 }), params);
+
+      expect(response.status).toBe(400);
+      expect(response.data.details.field).toBe('cap');
+      expect(prisma.tournament.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('PATCH (review)', () => {
+    beforeEach(() => {
+      auth.mockResolvedValue(adminSession);
+      prisma.tournamentRegistration.findFirst.mockResolvedValue({
+        id: 'r1',
+        tournamentId: 't1',
+        playerId: 'p1',
+        status: 'pending',
+      });
+      prisma.tournamentRegistration.update.mockImplementation(({ data }) =>
+        Promise.resolve({ id: 'r1', status: data.status }),
+      );
+    });
+
+    it('approves an entry and records the reviewer', async () => {
+      const response = await PATCH(request({ status: 'approved' }), reviewParams);
+
+      expect(response.status).toBe(200);
+      expect(prisma.tournamentRegistration.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { id: 'r1' },
+          data: expect.objectContaining({ status: 'approved', reviewedBy: 'admin' }),
+        }),
+      );
+      expect(prisma.tournamentRegistration.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('promotes the next waitlisted entry after a rejection', async () => {
+      prisma.tournamentRegistration.count.mockResolvedValue(1);
+      prisma.tournamentRegistration.findMany.mockResolvedValue([{ id: 'r9' }]);
+
+      const response = await PATCH(request({ status: 'rejected' }), reviewParams);
+
+      expect(response.data.data.promoted).toEqual(['r9']);
+      expect(createAuditLog).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: 'REVIEW_TOURNAMENT_REGISTRATION',
+          details: expect.objectContaining({ previousStatus: 'pending', status: 'rejected', promoted: ['r9'] }),
+        }),
+      );
+    });
+
+    it('validates the status and scopes the entry to the tournament', async () => {
+      const invalid = await PATCH(request({ status: 'waitlisted' }), reviewParams);
+      expect(invalid.status).toBe(400);
+      expect(invalid.data.details.field).toBe('status');
+
+      prisma.tournamentRegistration.findFirst.mockResolvedValue(null);
+      expect((await PATCH(request({ status: 'approved' }), reviewParams)).status).toBe(404);
+      expect(prisma.tournamentRegistration.findFirst).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { id: 'r1', tournamentId: 't1' } }),
+      );
+      expect(prisma.tournamentRegistration.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('me', () => {
+    it("reports the caller's entry and waitlist position", async () => {
+      const createdAt = new Date('2026-10-01T00:00:00Z');
+      prisma.tournamentRegistration.findFirst.mockResolvedValue({
+        id: 'r1',
+        status: 'waitlisted',
+        modes: ['bm'],
+        createdAt,
+      });
+      prisma.tournamentRegistration.count.mockResolvedValue(2);
+
+      const response = await GET_ME(request(), params);
+
+      expect(response.data.data.waitlistPosition).toBe(3);
+      expect(response.data.data.settings).toEqual(openSettings);
+
+      auth.mockResolvedValue(null);
+      const anonymous = await GET_ME(request(), params);
+      expect(anonymous.data.data.registration).toBeNull();
+    });
+
+    it('reports registration as closed once the tournament is completed', async () => {
+      resolveTournament.mockResolvedValue({ id: 't1', status: 'completed', registrationSettings: openSettings });
+
+      const response = await GET_ME(request(), params);
+
+      expect(response.data.data.settings.open).toBe(false);
+    });
+
+    it('withdraws an entry and promotes the waitlist', async () => {
+      prisma.tournamentRegistration.findFirst.mockResolvedValue({ id: 'r1', status: 'approved', modes: ['bm'] });
+      prisma.tournamentRegistration.count.mockResolvedValue(1);
+      prisma.tournamentRegistration.findMany.mockResolvedValue([{ id: 'r7' }]);
+
+      const response = await WITHDRAW(request(), params);
+
+      expect(response.status).toBe(200);
+      expect(prisma.tournamentRegistration.delete).toHaveBeenCalledWith({ where: { id: 'r1' } });
+      expect(response.data.data.promoted).toEqual(['r7']);
+    });
+
+    it('keeps rejected entries', async () => {
+      prisma.tournamentRegistration.findFirst.mockResolvedValue({ id: 'r1', status: 'rejected', modes: ['bm'] });
+
+      expect((await WITHDRAW(request(), params)).status).toBe(409);
+      expect(prisma.tournamentRegistration.delete).not.toHaveBeenCalled();
+
+      auth.mockResolvedValue(null);
+      expect((await WITHDRAW(request(), params)).status).toBe(401);
+    });
+  });
+
+  describe('check-in', () => {
+    const checkInSettings = { ...openSettings, checkIn: true };
+
+    beforeEach(() => {
+      resolveTournament.mockResolvedValue({ id: 't1', status: 'active', registrationSettings: checkInSettings });
+      prisma.tournamentRegistration.update.mockImplementation(({ data }) =>
+        Promise.resolve({ id: 'r1', checkedInAt: data.checkedInAt }),
+      );
+      prisma.tournamentRegistration.updateMany.mockResolvedValue({ count: 2 });
+    });
+
+    it('lets an approved player check themselves in', async () => {
+      prisma.tournamentRegistration.findFirst.mockResolvedValue({ id: 'r1', status: 'approved', checkedInAt: null });
+
+      const response = await CHECK_IN(request(), params);
+
+      expect(response.status).toBe(200);
+      expect(prisma.tournamentRegistration.update).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { id: 'r1' }, data: { checkedInAt: expect.any(Date), checkedInBy: null } }),
+      );
+      expect(createAuditLog).toHaveBeenCalledWith(
+        expect.objectContaining({ action: 'CHECK_IN_TOURNAMENT_REGISTRATION', targetId: 'r1' }),
+      );
+    });
+
+    it('refuses self check-in while check-in is off or for entries that are not approved', async () => {
+      resolveTournament.mockResolvedValue({ id: 't1', status: 'active', registrationSettings: openSettings });
+      expect((await CHECK_IN(request(), params)).status).toBe(409);
+
+      resolveTournament.mockResolvedValue({ id: 't1', status: 'active', registrationSettings: checkInSettings });
+      prisma.tournamentRegistration.findFirst.mockResolvedValue({ id: 'r1', status: 'pending', checkedInAt: null });
+      expect((await CHECK_IN(request(), params)).status).toBe(409);
+
+      prisma.tournamentRegistration.findFirst.mockResolvedValue({
+        id: 'r1',
+        status: 'approved',
+        checkedInAt: null,
+        noShowAt: new Date(),
+      });
+      expect((await CHECK_IN(request(), params)).status).toBe(409);
+      expect(prisma.tournamentRegistration.update).not.toHaveBeenCalled();
+    });
+
+    it('checks approved entries in and out in bulk (admin)', async () => {
+      auth.mockResolvedValue(adminSession);
+
+      const response = await BULK_CHECK_IN(request({ registrationIds: ['r1', 'r2'], checkedIn: true }), params);
+
+      expect(response.data.data).toEqual({ updated: 2 });
+      expect(prisma.tournamentRegistration.updateMany).toHaveBeenCalledWith({
+        where: {
+          id: { in: ['r1', 'r2'] },
+          tournamentId: 't1',
+          status: 'approved',
+          checkedInAt: null,
+          noShowAt: null,
+        },
+        data: { checkedInAt: expect.any(Date), checkedInBy: 'admin' },
+      });
+
+      await BULK_CHECK_IN(request({ registrationIds: ['r1'], checkedIn: false }), params);
+      expect(prisma.tournamentRegistration.updateMany).toHaveBeenLastCalledWith({
+        where: { id: { in: ['r1'] }, tournamentId: 't1', status: 'approved', checkedInAt: { not: null } },
+        data: { checkedInAt: null, checkedInBy: null },
+      });
+    });
+
+    it('validates bulk check-in requests', async () => {
+      expect((await BULK_CHECK_IN(request({ registrationIds: ['r1'], checkedIn: true }), params)).status).toBe(403);
+
+      auth.mockResolvedValue(adminSession);
+      const empty = await BULK_CHECK_IN(request({ registrationIds: [], checkedIn: true }), params);
+      expect(empty.data.details.field).toBe('registrationIds');
+      const flag = await BULK_CHECK_IN(request({ registrationIds: ['r1'], checkedIn: 'yes' }), params);
+      expect(flag.data.details.field).toBe('checkedIn');
+      expect(prisma.tournamentRegistration.updateMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('no-show', () => {
+    beforeEach(() => {
+      auth.mockResolvedValue(adminSession);
+      prisma.tournamentRegistration.findFirst.mockResolvedValue({
+        id: 'r1',
+        tournamentId: 't1',
+        playerId: 'p1',
+        status: 'approved',
+      });
+      prisma.tournamentRegistration.update.mockImplementation(({ data }) =>
+        Promise.resolve({ id: 'r1', noShowAt: data.noShowAt }),
+      );
+      findNoShowMatches.mockImplementation((config) => Promise.resolve(config.eventTypeCode === 'bm' ? [bmMatch] : []));
+      convertNoShowMatches.mockImplementation((config) => Promise.resolve(config.eventTypeCode === 'bm' ? ['m1'] : []));
+      checkQualificationConfirmed.mockResolvedValue(null);
+    });
+
+    const bmMatch = { id: 'm1', player1Id: 'p1', player2Id: 'p2', completed: false, score1: 0, score2: 0 };
+
+    it('converts the remaining matches of every mode and refreshes standings', async () => {
+      const response = await NO_SHOW(request(), reviewParams);
+
+      expect(response.status).toBe(200);
+      expect(convertNoShowMatches).toHaveBeenCalledTimes(3);
+      expect(convertNoShowMatches).toHaveBeenCalledWith(
+        expect.objectContaining({ eventTypeCode: 'gp' }),
+        't1',
+        'p1',
+        [],
+      );
+      expect(convertNoShowMatches).toHaveBeenCalledWith(expect.objectContaining({ eventTypeCode: 'bm' }), 't1', 'p1', [
+        bmMatch,
+      ]);
+      expect(response.data.data.converted).toEqual({ bm: ['m1'], mr: [], gp: [] });
+      expect(prisma.tournamentRegistration.update).toHaveBeenCalledWith(
+        expect.objectContaining({ data: { noShowAt: expect.any(Date), checkedInAt: null, checkedInBy: null } }),
+      );
+      expect(invalidate).toHaveBeenCalledWith('t1');
+      expect(publishTournamentChange).toHaveBeenCalledTimes(1);
+      expect(publishTournamentChange).toHaveBeenCalledWith('t1', 'bm');
+      expect(createRequiredAuditLog).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: 'MARK_REGISTRATION_NO_SHOW',
+          details: { tournamentId: 't1', playerId: 'p1', matches: { bm: [bmMatch], mr: [], gp: [] } },
+        }),
+      );
+      expect(createRequiredAuditLog.mock.invocationCallOrder[0]).toBeLessThan(
+        convertNoShowMatches.mock.invocationCallOrder[0],
+      );
+    });
+
+    it('refuses to convert matches of a mode whose qualification is confirmed', async () => {
+      checkQualificationConfirmed.mockImplementation((_prisma, _tournamentId, mode) =>
+        Promise.resolve(mode === 'bm' ? { status: 403 } : null),
+      );
+
+      const response = await NO_SHOW(request(), reviewParams);
+
+      expect(response.status).toBe(409);
+      expect(response.data.code).toBe('QUALIFICATION_CONFIRMED');
+      expect(checkQualificationConfirmed).toHaveBeenCalledTimes(1);
+      expect(createRequiredAuditLog).not.toHaveBeenCalled();
+      expect(convertNoShowMatches).not.toHaveBeenCalled();
+      expect(prisma.tournamentRegistration.update).not.toHaveBeenCalled();
+    });
+
+    it('only accepts approved entries from admins', async () => {
+      prisma.tournamentRegistration.findFirst.mockResolvedValue({ id: 'r1', tournamentId: 't1', status: 'pending' });
+      expect((await NO_SHOW(request(), reviewParams)).status).toBe(409);
+
+      auth.mockResolvedValue(playerSession);
+      expect((await NO_SHOW(request(), reviewParams)).status).toBe(403);
+      expect(convertNoShowMatches).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,111 @@
+// @ts-nocheck - Route mocks deliberately use compact partial shapes.
+
+jest.mock('next/server', () => ({
+  NextResponse: {
+    json: jest.fn((data: unknown, options?: { status?: number }) => ({ data, status: options?.status ?? 200 })),
+  },
+  NextRequest: jest.fn(),
+}));
+
+jest.mock('@/lib/auth', () => ({ auth: jest.fn() }));
+jest.mock('@/lib/audit-log', () => ({ resolveAuditUserId: jest.fn(() => 'admin') }));
+jest.mock('@/lib/rate-limit', () => ({ checkRateLimit: jest.fn() }));
+jest.mock('@/lib/request-utils', () => ({
+  getClientIdentifier: jest.fn(() => '127.0.0.1'),
+  getUserAgent: jest.fn(() => 'jest'),
+}));
+jest.mock('@/lib/sanitize', () => ({ sanitizeInput: jest.fn((data) => data) }));
+jest.mock('@/lib/logger', () => ({
+  createLogger: jest.fn(() => ({ error: jest.fn(), warn: jest.fn(), info: jest.fn(), debug: jest.fn() })),
+}));
+jest.mock('@/lib/tournament-identifier', () => ({ resolveTournament: jest.fn() }));
+jest.mock('@/lib/match-schedule-service', () => ({
+  applyMatchSchedule: jest.fn(),
+  getStoredMatchSchedule: jest.fn(),
+  previewMatchSchedule: jest.fn(),
+}));
+
+import { NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { checkRateLimit } from '@/lib/rate-limit';
+import { resolveTournament } from '@/lib/tournament-identifier';
+import { applyMatchSchedule, getStoredMatchSchedule, previewMatchSchedule } from '@/lib/match-schedule-service';
+import { GET, POST } from '@/app/api/tournaments/[id]/schedule/route';
+
+const params = { params: Promise.resolve({ id: 'spring-cup' }) };
+
+function request(body: unknown) {
+  return { json: async () => body, headers: { get: () => 'jest' } };
+}
+
+describe('/api/tournaments/:id/schedule', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    auth.mockResolvedValue({ user: { id: 'admin', role: 'admin' } });
+    checkRateLimit.mockResolvedValue({ success: true });
+    resolveTournament.mockResolvedValue({ id: 't1', scheduleSettings: { tvCount: 2 } });
+    previewMatchSchedule.mockResolvedValue({ slots: [], endAt: '2026-01-10T01:00:00.000Z' });
+    applyMatchSchedule.mockResolvedValue({ slots: [], endAt: '2026-01-10T01:00:00.000Z' });
+  });
+
+  it('rejects non-admin callers', async () => {
+    auth.mockResolvedValue({ user: { id: 'u1', role: 'member' } });
+
+    await GET(request({}), params);
+    await POST(request({ action: 'preview' }), params);
+
+    expect(NextResponse.json).toHaveBeenCalledTimes(2);
+    expect(NextResponse.json).toHaveBeenLastCalledWith(expect.objectContaining({ success: false }), { status: 403 });
+    expect(previewMatchSchedule).not.toHaveBeenCalled();
+  });
+
+  it('returns the stored schedule with saved settings', async () => {
+    getStoredMatchSchedule.mockResolvedValue({ settings: {}, slots: [], conflicts: [] });
+
+    const response = await GET(request({}), params);
+
+    expect(response.status).toBe(200);
+    expect(getStoredMatchSchedule).toHaveBeenCalledWith('t1', expect.objectContaining({ tvCount: 2 }));
+  });
+
+  it('returns 404 for an unknown tournament', async () => {
+    resolveTournament.mockResolvedValue(null);
+
+    expect((await GET(request({}), params)).status).toBe(404);
+    expect((await POST(request({ action: 'preview' }), params)).status).toBe(404);
+  });
+
+  it('previews with body values over saved settings', async () => {
+    await POST(request({ action: 'preview', startAt: '2026-01-10T01:00:00.000Z', durations: { gp: 20 } }), params);
+
+    expect(previewMatchSchedule).toHaveBeenCalledWith(
+      't1',
+      expect.objectContaining({
+        startAt: '2026-01-10T01:00:00.000Z',
+        tvCount: 2,
+        durations: expect.objectContaining({ gp: 20 }),
+      }),
+    );
+    expect(applyMatchSchedule).not.toHaveBeenCalled();
+  });
+
+  it('applies the plan with audit context', async () => {
+    const response = await POST(request({ action: 'apply', tvCount: 3 }), params);
+
+    expect(response.status).toBe(200);
+    expect(applyMatchSchedule).toHaveBeenCalledWith({
+      tournamentId: 't1',
+      settings: expect.objectContaining({ tvCount: 3 }),
+      audit: { userId: 'admin', ipAddress: '127.0.0.1', userAgent: 'jest' },
+    });
+  });
+
+  it('validates the action and settings', async () => {
+    expect((await POST(request({ action: 'publish' }), params)).status).toBe(400);
+    const response = await POST(request({ action: 'preview', tvCount: 7 }), params);
+
+    expect(response.status).toBe(400);
+    expect(response.data).toEqual(expect.objectContaining({ details: { field: 'tvCount' } }));
+    expect(previewMatchSchedule).not.toHaveBeenCalled();
+  });
+});
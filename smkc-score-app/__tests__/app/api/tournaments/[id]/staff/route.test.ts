@@ -0,0 +1,140 @@
+// @ts-nocheck - Route mocks deliberately use compact partial shapes.
+
+jest.mock('next/server', () => ({
+  NextResponse: {
+    json: jest.fn((data: unknown, options?: { status?: number }) => ({ data, status: options?.status ?? 200 })),
+  },
+  NextRequest: jest.fn(),
+}));
+
+jest.mock('@/lib/auth', () => ({ auth: jest.fn() }));
+jest.mock('@/lib/audit-log', () => ({
+  createRequiredAuditLog: jest.fn(() => Promise.resolve()),
+  AUDIT_ACTIONS: {
+    GRANT_TOURNAMENT_STAFF: 'GRANT_TOURNAMENT_STAFF',
+    REVOKE_TOURNAMENT_STAFF: 'REVOKE_TOURNAMENT_STAFF',
+  },
+  resolveAuditUserId: jest.fn(() => 'admin'),
+}));
+jest.mock('@/lib/rate-limit', () => ({ checkRateLimit: jest.fn() }));
+jest.mock('@/lib/sanitize', () => ({ sanitizeInput: jest.fn((data) => data) }));
+jest.mock('@/lib/tournament-identifier', () => ({ resolveTournament: jest.fn() }));
+
+import prisma from '@/lib/prisma';
+import { auth } from '@/lib/auth';
+import { createRequiredAuditLog } from '@/lib/audit-log';
+import { checkRateLimit } from '@/lib/rate-limit';
+import { resolveTournament } from '@/lib/tournament-identifier';
+import { GET, POST } from '@/app/api/tournaments/[id]/staff/route';
+import { DELETE } from '@/app/api/tournaments/[id]/staff/[staffId]/route';
+import { GET as GET_ME } from '@/app/api/tournaments/[id]/staff/me/route';
+
+const params = { params: Promise.resolve({ id: 'spring-cup' }) };
+const staffParams = { params: Promise.resolve({ id: 'spring-cup', staffId: 'staff1' }) };
+
+function request(body?: unknown) {
+  return { json: async () => body, headers: { get: () => 'jest' } };
+}
+
+describe('/api/tournaments/:id/staff', () => {
+  beforeEach(() => {
+    auth.mockResolvedValue({ user: { id: 'admin', role: 'admin' } });
+    checkRateLimit.mockResolvedValue({ success: true });
+    resolveTournament.mockResolvedValue({ id: 't1' });
+    prisma.player.findUnique.mockResolvedValue({ id: 'p1', nickname: 'Volunteer' });
+    prisma.tournamentStaff.findFirst.mockResolvedValue(null);
+    prisma.tournamentStaff.create.mockResolvedValue({ id: 'staff1', role: 'STAFF' });
+  });
+
+  it('rejects non-admin callers', async () => {
+    auth.mockResolvedValue({ user: { id: 'p1', userType: 'player', playerId: 'p1' } });
+
+    expect((await GET(request(), params)).status).toBe(403);
+    expect((await POST(request({ playerId: 'p1', role: 'STAFF' }), params)).status).toBe(403);
+    expect((await DELETE(request(), staffParams)).status).toBe(403);
+    expect(prisma.tournamentStaff.create).not.toHaveBeenCalled();
+  });
+
+  it('audits a grant before writing it', async () => {
+    const response = await POST(request({ playerId: 'p1', role: 'TA_OPERATOR' }), params);
+
+    expect(response.status).toBe(201);
+    expect(createRequiredAuditLog).toHaveBeenCalledWith(
+      expect.objectContaining({
+        action: 'GRANT_TOURNAMENT_STAFF',
+        targetId: 'p1',
+        targetType: 'Player',
+        details: { tournamentId: 't1', role: 'TA_OPERATOR', playerNickname: 'Volunteer' },
+      }),
+    );
+    expect(prisma.tournamentStaff.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: { tournamentId: 't1', playerId: 'p1', role: 'TA_OPERATOR', grantedBy: 'admin' },
+      }),
+    );
+  });
+
+  it('does not grant when the audit record cannot be written', async () => {
+    createRequiredAuditLog.mockRejectedValueOnce(new Error('D1 unavailable'));
+
+    const response = await POST(request({ playerId: 'p1', role: 'STAFF' }), params);
+
+    expect(response.status).toBe(500);
+    expect(prisma.tournamentStaff.create).not.toHaveBeenCalled();
+  });
+
+  it('validates the role and rejects duplicate grants', async () => {
+    const invalid = await POST(request({ playerId: 'p1', role: 'ADMIN' }), params);
+    expect(invalid.status).toBe(400);
+    expect(invalid.data.details.field).toBe('role');
+
+    prisma.tournamentStaff.findFirst.mockResolvedValue({ id: 'staff1' });
+    const duplicate = await POST(request({ playerId: 'p1', role: 'STAFF' }), params);
+    expect(duplicate.status).toBe(409);
+    expect(createRequiredAuditLog).not.toHaveBeenCalled();
+  });
+
+  it('audits and deletes a revoke', async () => {
+    prisma.tournamentStaff.findFirst.mockResolvedValue({
+      id: 'staff1',
+      tournamentId: 't1',
+      playerId: 'p1',
+      role: 'BROADCAST_OPERATOR',
+      player: { nickname: 'Volunteer' },
+    });
+
+    const response = await DELETE(request(), staffParams);
+
+    expect(response.status).toBe(200);
+    expect(createRequiredAuditLog).toHaveBeenCalledWith(
+      expect.objectContaining({
+        action: 'REVOKE_TOURNAMENT_STAFF',
+        targetId: 'p1',
+        details: { tournamentId: 't1', role: 'BROADCAST_OPERATOR', playerNickname: 'Volunteer' },
+      }),
+    );
+    expect(prisma.tournamentStaff.delete).toHaveBeenCalledWith({ where: { id: 'staff1' } });
+  });
+
+  it('returns 404 when revoking a grant from another tournament', async () => {
+    const response = await DELETE(request(), staffParams);
+
+    expect(response.status).toBe(404);
+    expect(prisma.tournamentStaff.findFirst).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { id: 'staff1', tournamentId: 't1' } }),
+    );
+    expect(prisma.tournamentStaff.delete).not.toHaveBeenCalled();
+  });
+
+  it("reports the caller's own permissions", async () => {
+    auth.mockResolvedValue({ user: { id: 'p1', userType: 'player', playerId: 'p1' } });
+    prisma.tournamentStaff.findMany.mockResolvedValue([{ role: 'STAFF' }]);
+
+    const response = await GET_ME(request(), params);
+
+    expect(response.data.data).toEqual({ permissions: ['scores', 'tv'] });
+
+    auth.mockResolvedValue(null);
+    expect((await GET_ME(request(), params)).data.data).toEqual({ permissions: [] });
+  });
+});
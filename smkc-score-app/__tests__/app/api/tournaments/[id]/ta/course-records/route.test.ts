@@ -0,0 +1,116 @@
+// @ts-nocheck - Route and Prisma mocks deliberately use compact partial shapes.
+
+jest.mock('next/server', () => ({
+  NextResponse: {
+    json: jest.fn((data: unknown, options?: { status?: number }) => ({ data, status: options?.status ?? 200 })),
+  },
+  NextRequest: jest.fn(),
+}));
+
+jest.mock('@/lib/prisma', () => ({
+  __esModule: true,
+  default: { tTEntry: { findMany: jest.fn() } },
+}));
+jest.mock('@/lib/auth', () => ({ auth: jest.fn() }));
+jest.mock('@/lib/logger', () => ({
+  createLogger: jest.fn(() => ({ error: jest.fn(), warn: jest.fn(), info: jest.fn(), debug: jest.fn() })),
+}));
+jest.mock('@/lib/tournament-identifier', () => ({ resolveTournament: jest.fn() }));
+jest.mock('@/lib/ta/course-records', () => ({
+  ...jest.requireActual('@/lib/ta/course-records'),
+  loadCourseTimes: jest.fn(),
+}));
+
+import prisma from '@/lib/prisma';
+import { auth } from '@/lib/auth';
+import { resolveTournament } from '@/lib/tournament-identifier';
+import { loadCourseTimes } from '@/lib/ta/course-records';
+import { GET } from '@/app/api/tournaments/[id]/ta/course-records/route';
+
+const params = { params: Promise.resolve({ id: 'spring-cup' }) };
+
+const request = (query = '') => ({ url: `http://localhost/api/tournaments/spring-cup/ta/course-records${query}` });
+
+const courseTime = (overrides) => ({
+  playerId: 'a',
+  nickname: 'A',
+  tournamentId: 't1',
+  course: 'MC1',
+  timeMs: 60000,
+  stage: 'qualification',
+  sourceId: 'e1',
+  ...overrides,
+});
+
+describe('GET /api/tournaments/:id/ta/course-records', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    resolveTournament.mockResolvedValue({ id: 't1', name: 'Spring Cup' });
+    auth.mockResolvedValue(null);
+    prisma.tTEntry.findMany.mockResolvedValue([
+      { playerId: 'a', player: { nickname: 'A' } },
+      { playerId: 'b', player: { nickname: 'B' } },
+    ]);
+    loadCourseTimes.mockResolvedValue({
+      tournaments: [
+        { id: 't0', name: 'Old Cup', slug: null, date: '2025-01-01', archived: true },
+        { id: 't1', name: 'Spring Cup', slug: null, date: '2026-01-01', archived: false },
+      ],
+      times: [
+        courseTime({ playerId: 'b', nickname: 'B', tournamentId: 't0', timeMs: 58000, sourceId: 'e0' }),
+        courseTime({ timeMs: 59000, tournamentId: 't0', sourceId: 'e9' }),
+        courseTime({}),
+      ],
+    });
+  });
+
+  it('returns the app record, event record and the picked player personal best per course', async () => {
+    const response = await GET(request('?playerId=a'), params);
+
+    expect(response.status).toBe(200);
+    const { tournament, players, courses } = response.data.data;
+    expect(tournament).toEqual({ id: 't1', name: 'Spring Cup' });
+    expect(players).toEqual([
+      { playerId: 'a', nickname: 'A' },
+      { playerId: 'b', nickname: 'B' },
+    ]);
+    expect(courses[0]).toMatchObject({
+      course: 'MC1',
+      appRecord: { playerId: 'b', timeMs: 58000, tournamentName: 'Old Cup' },
+      eventRecord: { playerId: 'a', timeMs: 60000 },
+      personalBest: { playerId: 'a', timeMs: 59000, tournamentName: 'Old Cup' },
+    });
+    expect(loadCourseTimes).toHaveBeenCalledWith({
+      includeHidden: false,
+      includeArchived: true,
+      focusTournamentId: 't1',
+    });
+  });
+
+  it('lets admins see tournaments that have not published TA', async () => {
+    auth.mockResolvedValue({ user: { role: 'admin' } });
+
+    const response = await GET(request(), params);
+
+    expect(response.data.data.courses[0].personalBest).toBeNull();
+    expect(loadCourseTimes).toHaveBeenCalledWith(expect.objectContaining({ includeHidden: true }));
+  });
+
+  it('returns 404 for an unknown tournament', async () => {
+    resolveTournament.mockResolvedValue(null);
+
+    const response = await GET(request(), params);
+
+    expect(response.status).toBe(404);
+    expect(loadCourseTimes).not.toHaveBeenCalled();
+  });
+
+  it('returns 500 when loading times fails', async () => {
+    loadCourseTimes.mockRejectedValue(new Error('D1 down'));
+
+    const response = await GET(request(), params);
+
+    expect(response.status).toBe(500);
+    expect(response.data.code).toBe('INTERNAL_ERROR');
+  });
+});
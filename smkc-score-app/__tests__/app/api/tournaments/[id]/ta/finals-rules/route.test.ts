@@ -0,0 +1,114 @@
+// @ts-nocheck - Route mocks deliberately use compact partial shapes.
+
+jest.mock('next/server', () => ({
+  NextResponse: {
+    json: jest.fn((data: unknown, options?: { status?: number }) => ({ data, status: options?.status ?? 200 })),
+  },
+  NextRequest: jest.fn(),
+}));
+
+jest.mock('@/lib/auth', () => ({ auth: jest.fn() }));
+jest.mock('@/lib/audit-log', () => ({
+  createAuditLog: jest.fn(() => Promise.resolve()),
+  AUDIT_ACTIONS: { UPDATE_TA_FINALS_RULES: 'UPDATE_TA_FINALS_RULES' },
+  resolveAuditUserId: jest.fn(() => 'admin'),
+}));
+jest.mock('@/lib/rate-limit', () => ({ checkRateLimit: jest.fn() }));
+jest.mock('@/lib/request-utils', () => ({
+  getClientIdentifier: jest.fn(() => '127.0.0.1'),
+  getUserAgent: jest.fn(() => 'jest'),
+}));
+jest.mock('@/lib/sanitize', () => ({ sanitizeInput: jest.fn((data) => data) }));
+jest.mock('@/lib/logger', () => ({
+  createLogger: jest.fn(() => ({ error: jest.fn(), warn: jest.fn(), info: jest.fn(), debug: jest.fn() })),
+}));
+jest.mock('@/lib/tournament-identifier', () => ({ resolveTournament: jest.fn() }));
+
+import { Prisma } from '@prisma/client';
+import prisma from '@/lib/prisma';
+import { auth } from '@/lib/auth';
+import { createAuditLog } from '@/lib/audit-log';
+import { checkRateLimit } from '@/lib/rate-limit';
+import { resolveTournament } from '@/lib/tournament-identifier';
+import { DEFAULT_TA_FINALS_RULES } from '@/lib/ta/finals-rules';
+import { PUT } from '@/app/api/tournaments/[id]/ta/finals-rules/route';
+
+const params = { params: Promise.resolve({ id: 'spring-cup' }) };
+
+function request(body: unknown) {
+  return { json: async () => body, headers: { get: () => 'jest' } };
+}
+
+const rules = {
+  phase1: { qualRankStart: 9, qualRankEnd: 12, survivorsNeeded: 2 },
+  phase2: { qualRankStart: 7, qualRankEnd: 8, survivorsNeeded: 2 },
+  phase3: { qualRankStart: 1, qualRankEnd: 6, initialLives: 4, lifeLoss: 2, lifeResetThresholds: [2, 4] },
+};
+
+describe('PUT /api/tournaments/:id/ta/finals-rules', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    auth.mockResolvedValue({ user: { id: 'admin', role: 'admin' } });
+    checkRateLimit.mockResolvedValue({ success: true });
+    resolveTournament.mockResolvedValue({ id: 't1', taBattleRoyaleMode: false, taFinalsRules: null });
+    prisma.tTEntry.findFirst.mockResolvedValue(null);
+  });
+
+  it('saves a normalized rule set and audits the change', async () => {
+    const response = await PUT(request({ rules }), params);
+
+    const saved = { ...rules, phase3: { ...rules.phase3, lifeResetThresholds: [4, 2] } };
+    expect(response.status).toBe(200);
+    expect(response.data.data).toEqual({ rules: saved });
+    expect(prisma.tournament.update).toHaveBeenCalledWith({ where: { id: 't1' }, data: { taFinalsRules: saved } });
+    expect(createAuditLog).toHaveBeenCalledWith(
+      expect.objectContaining({
+        action: 'UPDATE_TA_FINALS_RULES',
+        targetId: 't1',
+        details: { previous: null, rules: saved },
+      }),
+    );
+  });
+
+  it('clears the stored rule set back to the defaults', async () => {
+    const response = await PUT(request({ rules: null }), params);
+
+    expect(response.status).toBe(200);
+    expect(response.data.data).toEqual({ rules: DEFAULT_TA_FINALS_RULES });
+    expect(prisma.tournament.update).toHaveBeenCalledWith({
+      where: { id: 't1' },
+      data: { taFinalsRules: Prisma.DbNull },
+    });
+  });
+
+  it('requires admin', async () => {
+    auth.mockResolvedValue({ user: { id: 'p1', role: 'player' } });
+
+    expect((await PUT(request({ rules }), params)).status).toBe(403);
+    expect(prisma.tournament.update).not.toHaveBeenCalled();
+  });
+
+  it('rejects an invalid rule set with the failing field', async () => {
+    const response = await PUT(request({ rules: { ...rules, phase2: { ...rules.phase2, qualRankStart: 8 } } }), params);
+
+    expect(response.status).toBe(400);
+    expect(response.data.details).toEqual({ field: 'rules.phase2.qualRankStart' });
+    expect(prisma.tournament.update).not.toHaveBeenCalled();
+  });
+
+  it('refuses changes once a finals phase has been promoted', async () => {
+    prisma.tTEntry.findFirst.mockResolvedValue({ id: 'phase1-entry' });
+
+    const response = await PUT(request({ rules }), params);
+
+    expect(response.status).toBe(409);
+    expect(prisma.tournament.update).not.toHaveBeenCalled();
+  });
+
+  it('does not apply to battle royale tournaments', async () => {
+    resolveTournament.mockResolvedValue({ id: 't1', taBattleRoyaleMode: true, taFinalsRules: null });
+
+    expect((await PUT(request({ rules }), params)).status).toBe(400);
+    expect(prisma.tournament.update).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,106 @@
+// @ts-nocheck - Route and Prisma mocks deliberately use compact partial shapes.
+
+jest.mock('next/server', () => ({
+  NextResponse: Object.assign(
+    jest.fn((body: string, init: { headers: Record<string, string> }) => ({
+      body,
+      status: 200,
+      headers: init.headers,
+    })),
+    {
+      json: jest.fn((data: unknown, options?: { status?: number }) => ({ data, status: options?.status ?? 200 })),
+    },
+  ),
+  NextRequest: jest.fn(),
+}));
+
+jest.mock('@/lib/prisma', () => ({
+  __esModule: true,
+  default: {
+    tTEntry: { findMany: jest.fn() },
+    tTPhaseRound: { findMany: jest.fn() },
+    tTPhaseLifeAdjustment: { findMany: jest.fn() },
+  },
+}));
+jest.mock('@/lib/logger', () => ({
+  createLogger: jest.fn(() => ({ error: jest.fn(), warn: jest.fn(), info: jest.fn(), debug: jest.fn() })),
+}));
+jest.mock('@/lib/tournament-identifier', () => ({ resolveTournament: jest.fn() }));
+
+import prisma from '@/lib/prisma';
+import { resolveTournament } from '@/lib/tournament-identifier';
+import { GET } from '@/app/api/tournaments/[id]/ta/finals-timeline/route';
+
+const params = { params: Promise.resolve({ id: 'spring-cup' }) };
+
+const request = (query = '') => ({ url: `http://localhost/api/tournaments/spring-cup/ta/finals-timeline${query}` });
+
+describe('GET /api/tournaments/:id/ta/finals-timeline', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    resolveTournament.mockResolvedValue({
+      id: 't1',
+      name: 'Spring Cup',
+      taBattleRoyaleMode: false,
+      taFinalsRules: null,
+    });
+    prisma.tTEntry.findMany.mockResolvedValue([
+      { playerId: 'a', stage: 'phase3', player: { id: 'a', nickname: 'A' } },
+      { playerId: 'b', stage: 'phase3', player: { id: 'b', nickname: 'B' } },
+    ]);
+    prisma.tTPhaseRound.findMany.mockResolvedValue([
+      {
+        id: 'r1',
+        phase: 'phase3',
+        roundNumber: 1,
+        course: 'MC1',
+        results: [
+          { playerId: 'a', timeMs: 60000 },
+          { playerId: 'b', timeMs: 61000 },
+        ],
+        eliminatedIds: [],
+        livesReset: false,
+        lifeLoss: 1,
+        submittedAt: new Date('2026-05-01T10:00:00.000Z'),
+        suddenDeathRounds: [],
+      },
+    ]);
+    prisma.tTPhaseLifeAdjustment.findMany.mockResolvedValue([]);
+  });
+
+  it('replays the finals with the tournament Phase 3 rules', async () => {
+    const response = await GET(request(), params);
+
+    expect(response.status).toBe(200);
+    const [step] = response.data.data.steps;
+    expect(step.players.map((player) => [player.nickname, player.lives])).toEqual([
+      ['A', 3],
+      ['B', 2],
+    ]);
+    expect(prisma.tTPhaseRound.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { tournamentId: 't1' } }),
+    );
+  });
+
+  it('downloads the sequence as CSV', async () => {
+    const response = await GET(request('?format=csv'), params);
+
+    expect(response.headers['Content-Type']).toBe('text/csv; charset=utf-8');
+    expect(response.headers['Content-Disposition']).toContain('Spring_Cup-ta-finals-timeline.csv');
+    expect(response.body).toContain('1,phase3,1,MC1,B,1:01.000,,yes,2,yes,,,');
+  });
+
+  it('downloads the sequence as JSON', async () => {
+    const response = await GET(request('?format=json'), params);
+
+    expect(response.headers['Content-Type']).toBe('application/json; charset=utf-8');
+    expect(JSON.parse(response.body).steps).toHaveLength(1);
+  });
+
+  it('rejects unknown formats and tournaments', async () => {
+    expect((await GET(request('?format=xlsx'), params)).status).toBe(400);
+
+    resolveTournament.mockResolvedValue(null);
+    expect((await GET(request(), params)).status).toBe(404);
+  });
+});
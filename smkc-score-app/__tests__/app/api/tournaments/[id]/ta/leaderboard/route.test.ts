@@ -0,0 +1,67 @@
+// @ts-nocheck - Route and Prisma mocks deliberately use compact partial shapes.
+
+jest.mock('next/server', () => ({
+  NextResponse: {
+    json: jest.fn((data: unknown, options?: { status?: number }) => ({ data, status: options?.status ?? 200 })),
+  },
+  NextRequest: jest.fn(),
+}));
+
+jest.mock('@/lib/prisma', () => ({ __esModule: true, default: { tTEntry: { findMany: jest.fn() } } }));
+jest.mock('@/lib/logger', () => ({
+  createLogger: jest.fn(() => ({ error: jest.fn(), warn: jest.fn(), info: jest.fn(), debug: jest.fn() })),
+}));
+jest.mock('@/lib/tournament-identifier', () => ({ resolveTournament: jest.fn() }));
+
+import prisma from '@/lib/prisma';
+import { resolveTournament } from '@/lib/tournament-identifier';
+import { generateETag } from '@/lib/standings-cache';
+import { GET } from '@/app/api/tournaments/[id]/ta/leaderboard/route';
+
+const params = { params: Promise.resolve({ id: 'spring-cup' }) };
+
+function request(headers: Record<string, string> = {}) {
+  return { headers: { get: (name: string) => headers[name] ?? null } };
+}
+
+const entry = (id: string, times: Record<string, string> | null) => ({
+  id,
+  playerId: `player-${id}`,
+  times,
+  player: { id: `player-${id}`, name: id, nickname: id.toUpperCase() },
+});
+
+describe('GET /api/tournaments/:id/ta/leaderboard', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    resolveTournament.mockResolvedValue({ id: 't1' });
+    prisma.tTEntry.findMany.mockResolvedValue([entry('a', { MC1: '1:00.00' }), entry('b', null)]);
+  });
+
+  it('builds the leaderboard from the qualification entries', async () => {
+    const response = await GET(request(), params);
+
+    expect(response.status).toBe(200);
+    expect(response.data.data.players.map((p) => [p.nickname, p.provisionalRank, p.provisionalPoints])).toEqual([
+      ['A', 1, 50],
+      ['B', 2, 0],
+    ]);
+    expect(prisma.tTEntry.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { tournamentId: 't1', stage: 'qualification' } }),
+    );
+  });
+
+  it('answers 304 while the times are unchanged', async () => {
+    const first = await GET(request(), params);
+
+    const response = await GET(request({ 'if-none-match': generateETag([first.data.data]) }), params);
+
+    expect(response.status).toBe(304);
+  });
+
+  it('returns 404 for an unknown tournament', async () => {
+    resolveTournament.mockResolvedValue(null);
+
+    expect((await GET(request(), params)).status).toBe(404);
+  });
+});
@@ -192,6 +192,7 @@ import { getPlayedCoursesWithSuddenDeath, getAvailableCourses } from '@/lib/ta/c
 import { checkStageFrozen } from '@/lib/ta/freeze-check';
 import { auth } from '@/lib/auth';
 import { readTournamentArchive } from '@/lib/tournament-archive';
+import { DEFAULT_TA_FINALS_RULES } from '@/lib/ta/finals-rules';
 import * as phasesRoute from '@/app/api/tournaments/[id]/ta/phases/route';
 
 const { NextResponse } = jest.requireMock('next/server');
@@ -600,6 +601,7 @@ describe('GET /api/tournaments/[id]/ta/phases', () => {
             handicapEnabled: false,
             retryAppliesHandicap: false,
           },
+          taFinalsRules: DEFAULT_TA_FINALS_RULES,
         },
       });
       // Should NOT query entries or rounds when no phase is specified
@@ -635,6 +637,7 @@ describe('GET /api/tournaments/[id]/ta/phases', () => {
             handicapEnabled: false,
             retryAppliesHandicap: false,
           },
+          taFinalsRules: DEFAULT_TA_FINALS_RULES,
         },
       });
     });
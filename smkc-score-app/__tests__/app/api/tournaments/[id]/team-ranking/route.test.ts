@@ -0,0 +1,134 @@
+// @ts-nocheck - Route mocks deliberately use compact partial shapes.
+
+jest.mock('next/server', () => ({
+  NextResponse: {
+    json: jest.fn((data: unknown, options?: { status?: number }) => ({ data, status: options?.status ?? 200 })),
+  },
+  NextRequest: jest.fn(),
+}));
+
+jest.mock('@/lib/auth', () => ({ auth: jest.fn() }));
+jest.mock('@/lib/audit-log', () => ({
+  createAuditLog: jest.fn(() => Promise.resolve()),
+  AUDIT_ACTIONS: { UPDATE_TEAM_SETTINGS: 'UPDATE_TEAM_SETTINGS' },
+  resolveAuditUserId: jest.fn(() => 'admin'),
+}));
+jest.mock('@/lib/rate-limit', () => ({ checkRateLimit: jest.fn() }));
+jest.mock('@/lib/request-utils', () => ({
+  getClientIdentifier: jest.fn(() => '127.0.0.1'),
+  getUserAgent: jest.fn(() => 'jest'),
+}));
+jest.mock('@/lib/sanitize', () => ({ sanitizeInput: jest.fn((data) => data) }));
+jest.mock('@/lib/logger', () => ({
+  createLogger: jest.fn(() => ({ error: jest.fn(), warn: jest.fn(), info: jest.fn(), debug: jest.fn() })),
+}));
+jest.mock('@/lib/tournament-identifier', () => ({ resolveTournament: jest.fn() }));
+jest.mock('@/lib/points/overall-ranking', () => ({ getOverallRankings: jest.fn() }));
+
+import prisma from '@/lib/prisma';
+import { auth } from '@/lib/auth';
+import { createAuditLog } from '@/lib/audit-log';
+import { checkRateLimit } from '@/lib/rate-limit';
+import { resolveTournament } from '@/lib/tournament-identifier';
+import { getOverallRankings } from '@/lib/points/overall-ranking';
+import { GET, PUT } from '@/app/api/tournaments/[id]/team-ranking/route';
+
+const params = { params: Promise.resolve({ id: 'spring-cup' }) };
+
+function request(body: unknown) {
+  return { json: async () => body, headers: { get: () => 'jest' } };
+}
+
+function playerScore(playerId: string, playerCountry: string, totalPoints: number) {
+  return {
+    playerId,
+    playerName: playerId,
+    playerNickname: playerId,
+    playerCountry,
+    taQualificationPoints: totalPoints,
+    bmQualificationPoints: 0,
+    mrQualificationPoints: 0,
+    gpQualificationPoints: 0,
+    taFinalsPoints: 0,
+    bmFinalsPoints: 0,
+    mrFinalsPoints: 0,
+    gpFinalsPoints: 0,
+    totalPoints,
+    overallRank: null,
+  };
+}
+
+describe('/api/tournaments/:id/team-ranking', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    auth.mockResolvedValue(null);
+    checkRateLimit.mockResolvedValue({ success: true });
+    resolveTournament.mockResolvedValue({
+      id: 't1',
+      name: 'Spring Cup',
+      publicModes: ['overall'],
+      teamSettings: { grouping: 'country', rule: 'best_n_total', bestN: 1 },
+      teamRankingUpdatedAt: new Date('2026-01-10T01:00:00.000Z'),
+    });
+    getOverallRankings.mockResolvedValue([
+      playerScore('a', 'JP', 900),
+      playerScore('b', 'JP', 500),
+      playerScore('c', 'FR', 700),
+    ]);
+  });
+
+  it('returns country standings publicly when the overall ranking is public', async () => {
+    const response = await GET(request({}), params);
+
+    expect(response.status).toBe(200);
+    const { data } = response.data;
+    expect(data.lastUpdated).toBe('2026-01-10T01:00:00.000Z');
+    expect(data.rankings.map((entry) => [entry.teamId, entry.rank, entry.totalPoints])).toEqual([
+      ['country:JP', 1, 900],
+      ['country:FR', 2, 700],
+    ]);
+  });
+
+  it('hides standings from the public while the overall ranking is private', async () => {
+    resolveTournament.mockResolvedValue({ id: 't1', publicModes: [], teamSettings: null });
+
+    expect((await GET(request({}), params)).status).toBe(403);
+  });
+
+  it('returns no rankings while team standings are off', async () => {
+    resolveTournament.mockResolvedValue({ id: 't1', publicModes: ['overall'], teamSettings: null });
+
+    const response = await GET(request({}), params);
+
+    expect(response.data.data).toMatchObject({ settings: null, lastUpdated: null, rankings: [] });
+    expect(getOverallRankings).not.toHaveBeenCalled();
+  });
+
+  it('saves settings over the stored ones and audits the change', async () => {
+    auth.mockResolvedValue({ user: { id: 'admin', role: 'admin' } });
+
+    const response = await PUT(request({ rule: 'best_n_per_mode' }), params);
+
+    expect(response.status).toBe(200);
+    expect(prisma.tournament.update).toHaveBeenCalledWith({
+      where: { id: 't1' },
+      data: {
+        teamSettings: { grouping: 'country', rule: 'best_n_per_mode', bestN: 1 },
+        teamRankingUpdatedAt: expect.any(Date),
+      },
+    });
+    expect(createAuditLog).toHaveBeenCalledWith(
+      expect.objectContaining({ action: 'UPDATE_TEAM_SETTINGS', targetId: 't1' }),
+    );
+  });
+
+  it('validates settings and requires admin', async () => {
+    expect((await PUT(request({ bestN: 2 }), params)).status).toBe(403);
+
+    auth.mockResolvedValue({ user: { id: 'admin', role: 'admin' } });
+    const response = await PUT(request({ bestN: 0 }), params);
+
+    expect(response.status).toBe(400);
+    expect(prisma.tournament.update).not.toHaveBeenCalled();
+  });
+});
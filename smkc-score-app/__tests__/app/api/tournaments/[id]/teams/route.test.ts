@@ -0,0 +1,131 @@
+// @ts-nocheck - Route mocks deliberately use compact partial shapes.
+
+jest.mock('next/server', () => ({
+  NextResponse: {
+    json: jest.fn((data: unknown, options?: { status?: number }) => ({ data, status: options?.status ?? 200 })),
+  },
+  NextRequest: jest.fn(),
+}));
+
+jest.mock('@/lib/auth', () => ({ auth: jest.fn() }));
+jest.mock('@/lib/audit-log', () => ({
+  createAuditLog: jest.fn(() => Promise.resolve()),
+  AUDIT_ACTIONS: { CREATE_TEAM: 'CREATE_TEAM', UPDATE_TEAM: 'UPDATE_TEAM', DELETE_TEAM: 'DELETE_TEAM' },
+  resolveAuditUserId: jest.fn(() => 'admin'),
+}));
+jest.mock('@/lib/rate-limit', () => ({ checkRateLimit: jest.fn() }));
+jest.mock('@/lib/request-utils', () => ({
+  getClientIdentifier: jest.fn(() => '127.0.0.1'),
+  getUserAgent: jest.fn(() => 'jest'),
+}));
+jest.mock('@/lib/sanitize', () => ({ sanitizeInput: jest.fn((data) => data) }));
+jest.mock('@/lib/logger', () => ({
+  createLogger: jest.fn(() => ({ error: jest.fn(), warn: jest.fn(), info: jest.fn(), debug: jest.fn() })),
+}));
+jest.mock('@/lib/tournament-identifier', () => ({ resolveTournament: jest.fn() }));
+
+import { NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { auth } from '@/lib/auth';
+import { createAuditLog } from '@/lib/audit-log';
+import { checkRateLimit } from '@/lib/rate-limit';
+import { resolveTournament } from '@/lib/tournament-identifier';
+import { POST } from '@/app/api/tournaments/[id]/teams/route';
+import { DELETE, PUT } from '@/app/api/tournaments/[id]/teams/[teamId]/route';
+
+const params = { params: Promise.resolve({ id: 'spring-cup' }) };
+const teamParams = { params: Promise.resolve({ id: 'spring-cup', teamId: 'team1' }) };
+
+function request(body: unknown) {
+  return { json: async () => body, headers: { get: () => 'jest' } };
+}
+
+describe('/api/tournaments/:id/teams', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    auth.mockResolvedValue({ user: { id: 'admin', role: 'admin' } });
+    checkRateLimit.mockResolvedValue({ success: true });
+    resolveTournament.mockResolvedValue({ id: 't1' });
+    prisma.player.findMany.mockResolvedValue([{ id: 'p1' }, { id: 'p2' }]);
+    prisma.team.findFirst.mockResolvedValue({
+      id: 'team1',
+      tournamentId: 't1',
+      name: 'Kanto',
+      country: null,
+      members: [{ playerId: 'p1' }],
+    });
+  });
+
+  it('rejects non-admin callers', async () => {
+    auth.mockResolvedValue({ user: { id: 'u1', role: 'member' } });
+
+    await POST(request({ name: 'Kanto' }), params);
+    await DELETE(request({}), teamParams);
+
+    expect(NextResponse.json).toHaveBeenLastCalledWith(expect.objectContaining({ success: false }), { status: 403 });
+    expect(prisma.team.create).not.toHaveBeenCalled();
+    expect(prisma.team.delete).not.toHaveBeenCalled();
+  });
+
+  it('creates a team with members and marks team standings changed', async () => {
+    prisma.team.create.mockResolvedValue({ id: 'team1', name: 'Kanto', members: [] });
+
+    const response = await POST(request({ name: ' Kanto ', country: 'jp', playerIds: ['p1', 'p2'] }), params);
+
+    expect(response.status).toBe(201);
+    expect(prisma.team.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: {
+          tournamentId: 't1',
+          name: 'Kanto',
+          country: 'JP',
+          members: {
+            create: [
+              { tournamentId: 't1', playerId: 'p1' },
+              { tournamentId: 't1', playerId: 'p2' },
+            ],
+          },
+        },
+      }),
+    );
+    expect(prisma.tournament.update).toHaveBeenCalledWith({
+      where: { id: 't1' },
+      data: { teamRankingUpdatedAt: expect.any(Date) },
+    });
+    expect(createAuditLog).toHaveBeenCalledWith(expect.objectContaining({ action: 'CREATE_TEAM', targetId: 'team1' }));
+  });
+
+  it('rejects unknown players and reports conflicts', async () => {
+    expect((await POST(request({ name: 'Kanto', playerIds: ['p1', 'ghost'] }), params)).status).toBe(400);
+
+    prisma.team.create.mockRejectedValue(Object.assign(new Error('Unique constraint'), { code: 'P2002' }));
+    expect((await POST(request({ name: 'Kanto', playerIds: ['p1'] }), params)).status).toBe(409);
+  });
+
+  it('replaces the member list on update', async () => {
+    prisma.team.update.mockResolvedValue({ id: 'team1', name: 'Kansai', members: [] });
+
+    const response = await PUT(request({ name: 'Kansai', playerIds: ['p2'] }), teamParams);
+
+    expect(response.status).toBe(200);
+    expect(prisma.team.update).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { id: 'team1' },
+        data: {
+          name: 'Kansai',
+          country: null,
+          members: { deleteMany: {}, create: [{ tournamentId: 't1', playerId: 'p2' }] },
+        },
+      }),
+    );
+    expect(createAuditLog).toHaveBeenCalledWith(expect.objectContaining({ action: 'UPDATE_TEAM' }));
+  });
+
+  it('deletes a team of the tournament and returns 404 for another tournament', async () => {
+    expect((await DELETE(request({}), teamParams)).status).toBe(200);
+    expect(prisma.team.delete).toHaveBeenCalledWith({ where: { id: 'team1' } });
+
+    prisma.team.findFirst.mockResolvedValue(null);
+    expect((await DELETE(request({}), teamParams)).status).toBe(404);
+  });
+});
@@ -0,0 +1,221 @@
+// @ts-nocheck - Route and Prisma mocks deliberately use compact partial shapes.
+
+jest.mock('next/server', () => ({
+  NextResponse: {
+    json: jest.fn((data: unknown, options?: { status?: number }) => ({ data, status: options?.status ?? 200 })),
+  },
+  NextRequest: jest.fn(),
+}));
+
+jest.mock('@/lib/prisma', () => {
+  const model = () => ({ findMany: jest.fn(), findFirst: jest.fn(), update: jest.fn() });
+  return { __esModule: true, default: { bMMatch: model(), mRMatch: model(), gPMatch: model() } };
+});
+jest.mock('@/lib/auth', () => ({ auth: jest.fn() }));
+jest.mock('@/lib/audit-log', () => ({
+  AUDIT_ACTIONS: { CALL_MATCH: 'CALL_MATCH' },
+  createAuditLog: jest.fn(() => Promise.resolve()),
+  resolveAuditUserId: jest.fn(() => 'admin'),
+}));
+jest.mock('@/lib/request-utils', () => ({
+  getClientIdentifier: jest.fn(() => '127.0.0.1'),
+  getUserAgent: jest.fn(() => 'jest'),
+}));
+jest.mock('@/lib/sanitize', () => ({ sanitizeInput: jest.fn((data) => data) }));
+jest.mock('@/lib/logger', () => ({
+  createLogger: jest.fn(() => ({ error: jest.fn(), warn: jest.fn(), info: jest.fn(), debug: jest.fn() })),
+}));
+jest.mock('@/lib/tournament-identifier', () => ({ resolveTournament: jest.fn() }));
+jest.mock('@/lib/match-report-token', () => {
+  const actual = jest.requireActual('@/lib/match-report-token');
+  return { ...actual, createMatchReportToken: jest.fn(actual.createMatchReportToken) };
+});
+
+import prisma from '@/lib/prisma';
+import { auth } from '@/lib/auth';
+import { createAuditLog } from '@/lib/audit-log';
+import { resolveTournament } from '@/lib/tournament-identifier';
+import { createMatchReportToken, verifyMatchReportToken } from '@/lib/match-report-token';
+import { GET, POST } from '@/app/api/tournaments/[id]/venue/route';
+
+const params = { params: Promise.resolve({ id: 'spring-cup' }) };
+
+function request(body: unknown = {}, headers: Record<string, string> = {}, search = '') {
+  return {
+    json: async () => body,
+    headers: { get: (name: string) => headers[name] ?? null },
+    nextUrl: new URL(`https://smkc.example/api/tournaments/spring-cup/venue${search}`),
+  };
+}
+
+function row(id: string, tvNumber: number, extra = {}) {
+  return {
+    id,
+    stage: 'qualification',
+    round: null,
+    matchNumber: Number(id.replace(/\D/g, '')),
+    roundNumber: 1,
+    tvNumber,
+    scheduledStartAt: null,
+    calledAt: null,
+    player1Id: 'alice',
+    player2Id: 'bob',
+    player1: { nickname: 'Alice' },
+    player2: { nickname: 'Bob' },
+    ...extra,
+  };
+}
+
+describe('/api/tournaments/:id/venue', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    auth.mockResolvedValue({ user: { id: 'admin', role: 'admin' } });
+    resolveTournament.mockResolvedValue({ id: 't1' });
+    prisma.bMMatch.findMany.mockResolvedValue([row('bm2', 1), row('bm1', 1)]);
+    prisma.mRMatch.findMany.mockResolvedValue([row('mr1', 2, { calledAt: new Date('2026-01-10T01:00:00.000Z') })]);
+    prisma.gPMatch.findMany.mockResolvedValue([]);
+  });
+
+  describe('GET', () => {
+    it('returns the per-TV queue without requiring a session', async () => {
+      auth.mockResolvedValue(null);
+
+      const response = await GET(request(), params);
+
+      expect(response.status).toBe(200);
+      expect(response.data.data.tvs.map((tv) => [tv.tvNumber, tv.nowPlaying.id, tv.upNext.map((m) => m.id)])).toEqual([
+        [1, 'bm1', ['bm2']],
+        [2, 'mr1', []],
+      ]);
+      expect(response.data.data.tvs[1].nowPlaying.calledAt).toBe('2026-01-10T01:00:00.000Z');
+      expect(prisma.bMMatch.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({
+            tournamentId: 't1',
+            completed: false,
+            isBye: false,
+            tvNumber: { not: null },
+          }),
+        }),
+      );
+    });
+
+    it('answers 304 when the ETag matches', async () => {
+      const first = await GET(request(), params);
+      const etag = (await import('@/lib/standings-cache')).generateETag([first.data.data]);
+
+      const response = await GET(request({}, { 'if-none-match': etag }), params);
+
+      expect(response.status).toBe(304);
+    });
+
+    it('adds signed report links for admins who ask for QR codes', async () => {
+      process.env.AUTH_SECRET = 'venue-secret';
+
+      const response = await GET(request({}, {}, '?qr=1'), params);
+
+      const { player1, player2 } = response.data.data.tvs[0].nowPlaying.reportUrls;
+      expect(player1).toMatch(/^https:\/\/smkc\.example\/tournaments\/t1\/bm\/match\/bm1\?token=/);
+      const token = new URL(player2).searchParams.get('token');
+      expect(await verifyMatchReportToken(token, 'venue-secret')).toMatchObject({
+        tournamentId: 't1',
+        matchId: 'bm1',
+        playerId: 'bob',
+        side: 2,
+      });
+      delete process.env.AUTH_SECRET;
+    });
+
+    it('keeps the report links of later TVs when one token cannot be signed', async () => {
+      process.env.AUTH_SECRET = 'venue-secret';
+      createMatchReportToken.mockResolvedValueOnce(null);
+
+      const response = await GET(request({}, {}, '?qr=1'), params);
+
+      expect(response.data.data.tvs[0].nowPlaying.reportUrls).toBeUndefined();
+      expect(response.data.data.tvs[1].nowPlaying.reportUrls.player1).toMatch(/\/mr\/match\/mr1\?token=/);
+      delete process.env.AUTH_SECRET;
+    });
+
+    it('leaves report links out for public viewers', async () => {
+      process.env.AUTH_SECRET = 'venue-secret';
+      auth.mockResolvedValue(null);
+
+      const response = await GET(request({}, {}, '?qr=1'), params);
+
+      expect(response.data.data.tvs[0].nowPlaying.reportUrls).toBeUndefined();
+      expect(response.data.data.tvs[0].nowPlaying.player1Id).toBeUndefined();
+      delete process.env.AUTH_SECRET;
+    });
+
+    it('returns 404 for an unknown tournament', async () => {
+      resolveTournament.mockResolvedValue(null);
+
+      expect((await GET(request(), params)).status).toBe(404);
+    });
+  });
+
+  describe('POST', () => {
+    it('rejects non-admin callers', async () => {
+      auth.mockResolvedValue({ user: { id: 'u1', role: 'member' } });
+
+      const response = await POST(request({ mode: 'bm', matchId: 'bm1' }), params);
+
+      expect(response.status).toBe(403);
+      expect(prisma.bMMatch.update).not.toHaveBeenCalled();
+    });
+
+    it('calls a match and records an audit entry', async () => {
+      prisma.gPMatch.findFirst.mockResolvedValue({ id: 'gp1', completed: false });
+
+      const response = await POST(request({ mode: 'gp', matchId: 'gp1' }), params);
+
+      expect(response.status).toBe(200);
+      expect(prisma.gPMatch.findFirst).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { id: 'gp1', tournamentId: 't1' } }),
+      );
+      expect(prisma.gPMatch.update).toHaveBeenCalledWith({
+        where: { id: 'gp1' },
+        data: { calledAt: expect.any(Date) },
+      });
+      expect(createAuditLog).toHaveBeenCalledWith(
+        expect.objectContaining({ action: 'CALL_MATCH', targetId: 'gp1', targetType: 'GPMatch' }),
+      );
+    });
+
+    it('clears a call', async () => {
+      prisma.bMMatch.findFirst.mockResolvedValue({ id: 'bm1', completed: true });
+
+      const response = await POST(request({ mode: 'bm', matchId: 'bm1', called: false }), params);
+
+      expect(response.status).toBe(200);
+      expect(prisma.bMMatch.update).toHaveBeenCalledWith({ where: { id: 'bm1' }, data: { calledAt: null } });
+    });
+
+    it('refuses to call a completed match', async () => {
+      prisma.bMMatch.findFirst.mockResolvedValue({ id: 'bm1', completed: true });
+
+      const response = await POST(request({ mode: 'bm', matchId: 'bm1' }), params);
+
+      expect(response.status).toBe(409);
+      expect(prisma.bMMatch.update).not.toHaveBeenCalled();
+    });
+
+    it('returns 404 for a match outside the tournament', async () => {
+      prisma.mRMatch.findFirst.mockResolvedValue(null);
+
+      expect((await POST(request({ mode: 'mr', matchId: 'other' }), params)).status).toBe(404);
+    });
+
+    it.each([
+      [{ mode: 'ta', matchId: 'x' }, 'mode'],
+      [{ mode: 'bm' }, 'matchId'],
+      [{ mode: 'bm', matchId: 'x', called: 'yes' }, 'called'],
+    ])('validates %j', async (body, field) => {
+      const response = await POST(request(body), params);
+
+      expect(response.status).toBe(400);
+      expect(response.data.details).toEqual({ field });
+    });
+  });
+});
@@ -19,6 +19,7 @@
  * - Creates audit log entries on successful creation
  * - Handles audit log failures gracefully (tournament still created)
  * - Sanitizes input data before processing
+ * - Starts from a saved template or past tournament (settings, presets, optional roster)
  */
 // @ts-nocheck - This test file uses complex mock types for Next.js API routes
 // NOTE: Do NOT import from @jest/globals. Mock factories run with the global jest,
@@ -69,6 +70,12 @@ jest.mock('@/lib/rate-limit', () => ({
   getServerSideIdentifier: jest.fn(() => Promise.resolve('127.0.0.1')),
 }));
 
+jest.mock('@/lib/tournament-template-service', () => ({
+  __esModule: true,
+  prepareTournamentTemplate: jest.fn(),
+  createTemplateTaEntries: jest.fn(),
+}));
+
 import prisma from '@/lib/prisma';
 import { auth } from '@/lib/auth';
 import * as tournamentsRoute from '@/app/api/tournaments/route';
@@ -567,6 +574,90 @@ describe('POST /api/tournaments', () => {
     });
   });
 
+  describe('Templates', () => {
+    const templateMock = jest.requireMock('@/lib/tournament-template-service');
+    const prepared = {
+      config: {
+        settings: {
+          dualReportEnabled: true,
+          taPlayerSelfEdit: false,
+          taBattleRoyaleMode: false,
+          qualificationScheduleMethod: 'cdm',
+        },
+        overlayLayout: { version: 1 },
+      },
+      setupPresets: { finalsRounds: [{ mode: 'bm', stage: 'finals', round: 'grand_final', targetWins: 7 }] },
+      taEntries: [{ playerId: 'p1', seeding: 1, partnerId: null, taHandicapSeconds: 0 }],
+    };
+
+    function post(body: Record<string, unknown>) {
+      (sanitizeMock.sanitizeInput as jest.Mock).mockReturnValue(body);
+      return tournamentsRoute.POST(
+        new NextRequest('http://localhost:3000/api/tournaments', { method: 'POST', body: JSON.stringify(body) }),
+      );
+    }
+
+    beforeEach(() => {
+      jest.mocked(auth).mockResolvedValue({ user: { id: 'admin-1', role: 'admin' } });
+      (prisma.tournament.create as jest.Mock).mockResolvedValue({ id: 't2', name: 'Copy' });
+      templateMock.prepareTournamentTemplate.mockResolvedValue(prepared);
+      templateMock.createTemplateTaEntries.mockResolvedValue(1);
+    });
+
+    it('applies template settings, presets and the copied TA roster', async () => {
+      await post({ name: 'Copy', date: '2024-02-01', templateId: 'tpl1', copyRoster: true, dualReportEnabled: false });
+
+      expect(templateMock.prepareTournamentTemplate).toHaveBeenCalledWith({
+        templateId: 'tpl1',
+        sourceTournamentId: undefined,
+        copyRoster: true,
+      });
+      expect(prisma.tournament.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          // The explicit form value wins over the template.
+          dualReportEnabled: false,
+          taPlayerSelfEdit: false,
+          qualificationScheduleMethod: 'cdm',
+          overlayLayout: prepared.config.overlayLayout,
+          setupPresets: prepared.setupPresets,
+        }),
+      });
+      expect(templateMock.createTemplateTaEntries).toHaveBeenCalledWith('t2', prepared.taEntries);
+      expect(NextResponse.json).toHaveBeenCalledWith(expect.objectContaining({ success: true }), { status: 201 });
+    });
+
+    it('rejects templateId together with sourceTournamentId', async () => {
+      await post({ name: 'Copy', date: '2024-02-01', templateId: 'tpl1', sourceTournamentId: 't1' });
+
+      expect(templateMock.prepareTournamentTemplate).not.toHaveBeenCalled();
+      expect(NextResponse.json).toHaveBeenCalledWith(expect.objectContaining({ success: false }), { status: 400 });
+    });
+
+    it('returns 404 when the source tournament does not exist', async () => {
+      const { TournamentTemplateError } = jest.requireActual('@/lib/tournament-template');
+      templateMock.prepareTournamentTemplate.mockRejectedValue(
+        new TournamentTemplateError('Source tournament not found', 'TEMPLATE_SOURCE_NOT_FOUND'),
+      );
+
+      await post({ name: 'Copy', date: '2024-02-01', sourceTournamentId: 'missing' });
+
+      expect(prisma.tournament.create).not.toHaveBeenCalled();
+      expect(NextResponse.json).toHaveBeenCalledWith(expect.objectContaining({ code: 'TEMPLATE_SOURCE_NOT_FOUND' }), {
+        status: 404,
+      });
+    });
+
+    it('removes the new tournament when copying the TA roster fails', async () => {
+      templateMock.createTemplateTaEntries.mockRejectedValue(new Error('D1 error'));
+      (prisma.tournament.delete as jest.Mock).mockResolvedValue({});
+
+      await post({ name: 'Copy', date: '2024-02-01', templateId: 'tpl1', copyRoster: true });
+
+      expect(prisma.tournament.delete).toHaveBeenCalledWith({ where: { id: 't2' } });
+      expect(NextResponse.json).toHaveBeenCalledWith(expect.objectContaining({ success: false }), { status: 500 });
+    });
+  });
+
   describe('Error Cases', () => {
     it('should handle database errors gracefully', async () => {
       jest.mocked(auth).mockResolvedValue({
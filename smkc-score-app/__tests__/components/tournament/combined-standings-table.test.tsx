@@ -28,6 +28,7 @@ describe('CombinedStandingsTable', () => {
     points: 'Pts',
     qualificationPoints: 'QP',
     qualificationPointsTooltip: 'Qualification points (0-1000 normalized)',
+    withdrawn: 'Withdrawn',
   } satisfies CombinedStandingsTableLabels;
 
   function cellsByHeader(row: HTMLTableRowElement) {
@@ -80,6 +81,7 @@ describe('CombinedStandingsTable', () => {
             losses: 2,
             points: -3,
             score: 2,
+            withdrawnAt: '2026-05-01T10:00:00.000Z',
           },
         ]}
         getGroupLabel={(group) => `Group ${group}`}
@@ -118,6 +120,9 @@ describe('CombinedStandingsTable', () => {
     expect(luigiCells.QP).toHaveTextContent('20');
     // No country → no flag image rendered.
     expect(luigiCells.Player.querySelector('img')).toBeNull();
+    // Only the withdrawn player carries the badge.
+    expect(luigiCells.Player).toHaveTextContent('Withdrawn');
+    expect(marioCells.Player).not.toHaveTextContent('Withdrawn');
   });
 
   it('renders zero points without a plus sign', () => {
@@ -15,7 +15,7 @@
  * scrolls horizontally instead of breaking the surrounding layout.
  */
 
-import { render, screen } from '@testing-library/react';
+import { fireEvent, render, screen } from '@testing-library/react';
 import { DoubleEliminationBracket } from '@/components/tournament/double-elimination-bracket';
 import { generateBracketStructure } from '@/lib/double-elimination';
 
@@ -495,3 +495,68 @@ describe('DoubleEliminationBracket startingCourseNumber display (issue #731)', (
     expect(container.textContent).not.toContain('Battle Course');
   });
 });
+
+describe('DoubleEliminationBracket path projection', () => {
+  const players = ['Alice', 'Bob', 'Carol', 'Dan', 'Eve', 'Frank', 'Grace', 'Heidi'].map((nickname, i) => ({
+    id: `p${i + 1}`,
+    name: `${nickname} X`,
+    nickname,
+  }));
+  const seededPlayers = players.map((player, i) => ({ seed: i + 1, playerId: player.id, player }));
+  const structure = generateBracketStructure(8);
+  const matches = structure.map((b) => {
+    const player1 = b.player1Seed ? players[b.player1Seed - 1] : null;
+    const player2 = b.player2Seed ? players[b.player2Seed - 1] : null;
+    return {
+      id: `m${b.matchNumber}`,
+      matchNumber: b.matchNumber,
+      round: b.round,
+      stage: 'finals',
+      player1Id: player1?.id ?? null,
+      player2Id: player2?.id ?? null,
+      score1: 0,
+      score2: 0,
+      completed: false,
+      player1,
+      player2,
+    };
+  });
+  const projectionOf = (matchNumber: number) =>
+    screen.getByRole('button', { name: new RegExp(`^Match ${matchNumber}:`) }).getAttribute('data-projection');
+
+  it('highlights the selected player paths and shows their placements', () => {
+    render(
+      <DoubleEliminationBracket
+        matches={matches}
+        bracketStructure={structure}
+        roundNames={{}}
+        seededPlayers={seededPlayers}
+        projectionMode="BM"
+      />,
+    );
+
+    fireEvent.change(screen.getByLabelText('Player to project'), { target: { value: 'p1' } });
+
+    expect(projectionOf(1)).toBe('current');
+    expect(projectionOf(5)).toBe('win');
+    expect(projectionOf(8)).toBe('loss');
+    expect(projectionOf(2)).toBeNull();
+    const panel = screen.getByTestId('bracket-projection');
+    expect(panel.textContent).toContain('9th-12th (400 pts)');
+    expect(panel.textContent).toContain('1st (2000 pts)');
+    expect(panel.textContent).toContain('Opponent decided');
+  });
+
+  it('renders no projection panel unless projectionMode is set', () => {
+    render(
+      <DoubleEliminationBracket
+        matches={matches}
+        bracketStructure={structure}
+        roundNames={{}}
+        seededPlayers={seededPlayers}
+      />,
+    );
+
+    expect(screen.queryByTestId('bracket-projection')).toBeNull();
+  });
+});
@@ -0,0 +1,55 @@
+/**
+ * @jest-environment jsdom
+ *
+ * Unit tests for the TaBulkTimePaste panel: pasted lines are previewed with
+ * their validation errors, apply stays disabled until every line resolves,
+ * and a failed apply keeps the pasted text.
+ */
+import { fireEvent, render, screen, waitFor } from '@testing-library/react';
+import { TaBulkTimePaste } from '@/components/tournament/ta-bulk-time-paste';
+
+jest.mock('next-intl', () => ({
+  useTranslations: () => (key: string) => key,
+}));
+
+const candidates = [
+  { playerId: 'p1', nickname: 'Mario' },
+  { playerId: 'p2', nickname: 'Luigi' },
+];
+
+function openAndPaste(text: string) {
+  fireEvent.click(screen.getByRole('button', { name: 'open' }));
+  fireEvent.change(screen.getByLabelText('inputLabel'), { target: { value: text } });
+}
+
+describe('TaBulkTimePaste', () => {
+  it('previews errors and keeps apply disabled until they are fixed', () => {
+    const onApply = jest.fn();
+    render(<TaBulkTimePaste candidates={candidates} onApply={onApply} />);
+
+    openAndPaste('Mario 1:23.45\nBowser 1:00.00');
+
+    expect(screen.getByText('error_unknown_player')).toBeInTheDocument();
+    expect(screen.getByText('fixErrors')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'applyToForm' })).toBeDisabled();
+
+    fireEvent.change(screen.getByLabelText('inputLabel'), { target: { value: 'Mario 1:23.45\nLuigi retry' } });
+    fireEvent.click(screen.getByRole('button', { name: 'applyToForm' }));
+
+    expect(onApply).toHaveBeenCalledWith([
+      expect.objectContaining({ playerId: 'p1', time: '1:23.45', isRetry: false }),
+      expect.objectContaining({ playerId: 'p2', isRetry: true }),
+    ]);
+  });
+
+  it('keeps the pasted text when applying fails', async () => {
+    const onApply = jest.fn().mockRejectedValue(new Error('save failed'));
+    render(<TaBulkTimePaste candidates={candidates} allowRetry={false} applyLabel="save" onApply={onApply} />);
+
+    openAndPaste('Mario 1:23.45');
+    fireEvent.click(screen.getByRole('button', { name: 'save' }));
+
+    await waitFor(() => expect(screen.getByRole('button', { name: 'save' })).toBeEnabled());
+    expect(screen.getByLabelText('inputLabel')).toHaveValue('Mario 1:23.45');
+  });
+});
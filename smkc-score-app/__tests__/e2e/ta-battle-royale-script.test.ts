@@ -38,7 +38,8 @@ describe('TA battle royale E2E wiring', () => {
   it('keeps archived TA finals read-only for administrators', () => {
     const page = read('src/app/tournaments/[id]/ta/finals/page.tsx');
     expect(page).toContain('const canManage = Boolean(isAdmin) && !archived;');
-    expect(page).toContain('isAdmin={canManage}');
+    expect(page).toContain('const canOperate = canOperateTa && !archived;');
+    expect(page).toContain('isAdmin={canOperate}');
     expect(page).not.toContain('isAdmin &&');
   });
 });
@@ -4,15 +4,21 @@
 
 jest.mock('@/lib/auth', () => ({ auth: jest.fn() }));
 jest.mock('@/lib/error-handling', () => ({
-  handleAuthzError: jest.fn(() => ({ status: 403 } as any)),
+  handleAuthzError: jest.fn(() => ({ status: 403 }) as any),
 }));
+jest.mock('@/lib/tournament-identifier', () => ({
+  resolveTournamentId: jest.fn(async (id: string) => `resolved-${id}`),
+}));
+jest.mock('@/lib/tournament-staff', () => ({ hasTournamentPermission: jest.fn() }));
 
-import { requireAdminSession, requireAdminOrPlayerSession } from '@/lib/api-auth';
+import { requireAdminSession, requireAdminOrPlayerSession, requireTournamentPermission } from '@/lib/api-auth';
 import { auth } from '@/lib/auth';
 import { handleAuthzError } from '@/lib/error-handling';
+import { hasTournamentPermission } from '@/lib/tournament-staff';
 
 const mockAuth = jest.mocked(auth);
 const mockHandleAuthzError = jest.mocked(handleAuthzError);
+const mockHasTournamentPermission = jest.mocked(hasTournamentPermission);
 
 describe('api-auth', () => {
   beforeEach(() => jest.clearAllMocks());
@@ -78,4 +84,38 @@ describe('api-auth', () => {
       expect(result.error).toBeDefined();
     });
   });
+
+  describe('requireTournamentPermission', () => {
+    it('returns session for admin without a staff lookup', async () => {
+      const session = { user: { id: 'admin-1', role: 'admin' } };
+      mockAuth.mockResolvedValue(session);
+      const result = await requireTournamentPermission('spring-cup', 'scores');
+      expect(result.session).toBe(session);
+      expect(mockHasTournamentPermission).not.toHaveBeenCalled();
+    });
+
+    it('returns session for a player whose staff role carries the permission', async () => {
+      const session = { user: { id: 'player-1', userType: 'player', playerId: 'player-1' } };
+      mockAuth.mockResolvedValue(session);
+      mockHasTournamentPermission.mockResolvedValue(true);
+      const result = await requireTournamentPermission('spring-cup', 'ta');
+      expect(result.session).toBe(session);
+      expect(mockHasTournamentPermission).toHaveBeenCalledWith(session, 'resolved-spring-cup', 'ta');
+    });
+
+    it('returns error for a player without the permission', async () => {
+      mockAuth.mockResolvedValue({ user: { id: 'player-1', userType: 'player', playerId: 'player-1' } });
+      mockHasTournamentPermission.mockResolvedValue(false);
+      const result = await requireTournamentPermission('spring-cup', 'broadcast');
+      expect(result.error).toBeDefined();
+      expect(result.session).toBeUndefined();
+    });
+
+    it('returns error for unauthenticated (null session)', async () => {
+      mockAuth.mockResolvedValue(null);
+      const result = await requireTournamentPermission('spring-cup', 'scores');
+      expect(result.error).toBeDefined();
+      expect(mockHasTournamentPermission).not.toHaveBeenCalled();
+    });
+  });
 });
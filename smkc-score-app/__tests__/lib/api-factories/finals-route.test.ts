@@ -40,7 +40,13 @@ import { NextRequest } from 'next/server';
 // Mock dependencies
 jest.mock('@/lib/prisma');
 jest.mock('@/lib/auth');
-jest.mock('@/lib/double-elimination');
+/* Bracket generators are stubbed per test; size helpers keep their real
+ * behaviour so topN validation and size inference run as in production. */
+jest.mock('@/lib/double-elimination', () => ({
+  ...jest.requireActual('@/lib/double-elimination'),
+  generateBracketStructure: jest.fn(),
+  generatePlayoffStructure: jest.fn(),
+}));
 jest.mock('@/lib/pagination');
 jest.mock('@/lib/sanitize');
 jest.mock('@/lib/logger');
@@ -733,6 +739,7 @@ describe('Finals Route Factory', () => {
         createMockMatch({ round: 'winners_sf' }),
         createMockMatch({ round: 'winners_final' }),
         createMockMatch({ round: 'losers_r1' }),
+        createMockMatch({ round: 'losers_r2' }),
         createMockMatch({ round: 'losers_sf' }),
         createMockMatch({ round: 'losers_final' }),
         createMockMatch({ round: 'grand_final' }),
@@ -756,7 +763,7 @@ describe('Finals Route Factory', () => {
       const json = await response.json();
       expect(json.data.matches).toEqual(mockMatches);
       expect(json.data.winnersMatches).toHaveLength(3); // winners_qf, winners_sf, winners_final
-      expect(json.data.losersMatches).toHaveLength(3); // losers_r1, losers_sf, losers_final
+      expect(json.data.losersMatches).toHaveLength(4); // losers_r1, losers_r2, losers_sf, losers_final
       expect(json.data.grandFinalMatches).toHaveLength(1); // grand_final
       expect(json.data.bracketStructure).toBeDefined();
       expect(json.data.roundNames).toEqual(roundNames);
@@ -1721,6 +1728,117 @@ describe('Finals Route Factory', () => {
       );
     });
 
+    it('creates a 12-player bracket with seeds 1-4 prefilled into the quarter-finals', async () => {
+      const { generateBracketStructure: actualGenerateBracketStructure } =
+        jest.requireActual('@/lib/double-elimination');
+      mockGenerateBracketStructure.mockImplementation(actualGenerateBracketStructure);
+      (prisma.bMQualification as any).findMany.mockResolvedValue(createMockQualifications(12));
+      (prisma.bMMatch as any).deleteMany.mockResolvedValue({ count: 0 });
+      (prisma.bMMatch as any).createMany.mockResolvedValue({ count: 23 });
+      (prisma.bMMatch as any).findMany.mockResolvedValue([]);
+
+      const config = createMockConfig();
+      const { POST } = createFinalsHandlers(config);
+
+      const request = new NextRequest('http://localhost:3000', {
+        method: 'POST',
+        body: JSON.stringify({ topN: 12 }),
+      });
+      const response = await POST(request, {
+        params: Promise.resolve({ id: 'tournament-123' }),
+      });
+
+      expect(response.status).toBe(201);
+      expect(mockGenerateBracketStructure).toHaveBeenCalledWith(12);
+      const createManyCall = (prisma.bMMatch as any).createMany.mock.calls[0][0];
+      expect(createManyCall.data).toHaveLength(23);
+      const openingMatches = createManyCall.data.filter((match: any) => match.round === 'winners_r1');
+      expect(openingMatches).toHaveLength(4);
+      expect(openingMatches.every((match: any) => match.player1Id && match.player2Id)).toBe(true);
+      const quarterFinals = createManyCall.data.filter((match: any) => match.round === 'winners_qf');
+      expect(quarterFinals.map((match: any) => match.player1Id)).toEqual([
+        'player-0',
+        'player-3',
+        'player-1',
+        'player-2',
+      ]);
+      expect(quarterFinals.every((match: any) => match.player2Id === null)).toBe(true);
+    });
+
+    it('creates a single-elimination bracket with a third-place match', async () => {
+      (prisma.bMQualification as any).findMany.mockResolvedValue(createMockQualifications(8));
+      (prisma.bMMatch as any).deleteMany.mockResolvedValue({ count: 0 });
+      (prisma.bMMatch as any).createMany.mockResolvedValue({ count: 8 });
+      (prisma.bMMatch as any).findMany.mockResolvedValue([]);
+
+      const { POST } = createFinalsHandlers(createMockConfig());
+      const request = new NextRequest('http://localhost:3000', {
+        method: 'POST',
+        body: JSON.stringify({ topN: 8, format: 'single_elimination', thirdPlace: true }),
+      });
+      const response = await POST(request, {
+        params: Promise.resolve({ id: 'tournament-123' }),
+      });
+
+      expect(response.status).toBe(201);
+      expect(mockGenerateBracketStructure).not.toHaveBeenCalled();
+      const createManyCall = (prisma.bMMatch as any).createMany.mock.calls[0][0];
+      expect(createManyCall.data.map((match: any) => match.round)).toEqual([
+        'single_qf',
+        'single_qf',
+        'single_qf',
+        'single_qf',
+        'single_sf',
+        'single_sf',
+        'single_third_place',
+        'single_final',
+      ]);
+      expect(createManyCall.data[0]).toMatchObject({ player1Id: 'player-0', player2Id: 'player-7' });
+    });
+
+    it('creates a fully seeded round-robin final pool', async () => {
+      (prisma.bMQualification as any).findMany.mockResolvedValue(createMockQualifications(5));
+      (prisma.bMMatch as any).deleteMany.mockResolvedValue({ count: 0 });
+      (prisma.bMMatch as any).createMany.mockResolvedValue({ count: 10 });
+      (prisma.bMMatch as any).findMany.mockResolvedValue([]);
+
+      const { POST } = createFinalsHandlers(createMockConfig());
+      const request = new NextRequest('http://localhost:3000', {
+        method: 'POST',
+        body: JSON.stringify({ topN: 5, format: 'round_robin' }),
+      });
+      const response = await POST(request, {
+        params: Promise.resolve({ id: 'tournament-123' }),
+      });
+
+      expect(response.status).toBe(201);
+      const createManyCall = (prisma.bMMatch as any).createMany.mock.calls[0][0];
+      expect(createManyCall.data).toHaveLength(10);
+      expect(
+        createManyCall.data.every(
+          (match: any) => match.round.startsWith('round_robin_r') && match.player1Id && match.player2Id,
+        ),
+      ).toBe(true);
+    });
+
+    it.each([
+      [{ topN: 8, format: 'swiss' }, 'format must be double_elimination, single_elimination or round_robin'],
+      [{ topN: 12, format: 'single_elimination' }, 'Single elimination supports 4, 8, 16 or 32 players'],
+      [{ topN: 10, format: 'round_robin' }, 'Round-robin finals support 3 to 8 players'],
+    ])('returns 400 for unsupported format options %j', async (body, message) => {
+      const { POST } = createFinalsHandlers(createMockConfig());
+      const request = new NextRequest('http://localhost:3000', {
+        method: 'POST',
+        body: JSON.stringify(body),
+      });
+      const response = await POST(request, {
+        params: Promise.resolve({ id: 'tournament-123' }),
+      });
+
+      expect(response.status).toBe(400);
+      expect((await response.json()).error).toBe(message);
+    });
+
     it('prioritizes rankOverride over equal group-local ranks when seeding a 16-player bracket', async () => {
       const qualifications = Array.from({ length: 16 }, (_, index) => {
         const group = index < 8 ? 'A' : 'B';
@@ -1964,13 +2082,13 @@ describe('Finals Route Factory', () => {
       },
     );
 
-    it('should return 400 when topN is not 8', async () => {
+    it('should return 400 when topN is not a supported bracket size', async () => {
       const config = createMockConfig();
       const { POST } = createFinalsHandlers(config);
 
       const request = new NextRequest('http://localhost:3000', {
         method: 'POST',
-        body: JSON.stringify({ topN: 4 }),
+        body: JSON.stringify({ topN: 6 }),
       });
       const response = await POST(request, {
         params: Promise.resolve({ id: 'tournament-123' }),
@@ -1978,7 +2096,7 @@ describe('Finals Route Factory', () => {
 
       expect(response.status).toBe(400);
       const json = await response.json();
-      expect(json.error).toBe('Only 8-player, 16-player, or 24-player (Top-16 + playoff) brackets are supported');
+      expect(json.error).toBe('Only 4, 8, 12, 16, 24 or 32-player brackets are supported');
     });
 
     it('should return 400 when not enough players qualified', async () => {
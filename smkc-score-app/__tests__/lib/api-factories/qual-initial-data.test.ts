@@ -20,6 +20,7 @@
 jest.mock('@/lib/prisma');
 jest.mock('@/lib/server-ranking', () => ({
   computeQualificationRanks: jest.fn(),
+  qualificationTiebreakFor: jest.requireActual('@/lib/server-ranking').qualificationTiebreakFor,
 }));
 
 import { fetchQualInitialData } from '@/lib/api-factories/qual-initial-data';
@@ -76,12 +77,10 @@ describe('fetchQualInitialData', () => {
     expect(result!.matches).toEqual([MATCH]);
     expect(result!.allPlayers).toEqual([PLAYER]);
     expect(result!.qualificationConfirmed).toBe(false);
-    expect(mockComputeRanks).toHaveBeenCalledWith(
-      [QUALIFICATION],
-      bmConfig.qualificationOrderBy,
-      [MATCH],
-      { matchScoreFields: bmConfig.matchScoreFields },
-    );
+    expect(mockComputeRanks).toHaveBeenCalledWith([QUALIFICATION], bmConfig.qualificationOrderBy, [MATCH], {
+      matchScoreFields: bmConfig.matchScoreFields,
+      tiebreak: 'h2h',
+    });
   });
 
   it('TC-2571: returns qualificationConfirmed=true when bmQualificationConfirmed is true', async () => {
@@ -96,9 +95,7 @@ describe('fetchQualInitialData', () => {
   });
 
   it('TC-2572: swallows Prisma error and returns null', async () => {
-    (mockPrisma.bMQualification.findMany as jest.Mock).mockRejectedValue(
-      new Error('DB connection failed'),
-    );
+    (mockPrisma.bMQualification.findMany as jest.Mock).mockRejectedValue(new Error('DB connection failed'));
 
     const result = await fetchQualInitialData(bmConfig, 'tournament-1');
 
@@ -10,6 +10,7 @@
  * - POST handler: Setting up qualification groups and generating round-robin matches
  *   - Authentication requirement (postRequiresAuth)
  *   - Player array validation and group partitioning
+ *   - Check-in gate for approved self-registrations
  *   - Round-robin match generation within groups
  *   - Audit logging (non-critical, graceful failure)
  * - PUT handler: Updating match score and recalculating player standings
@@ -43,6 +44,7 @@ import { PLAYER_PUBLIC_SELECT } from '@/lib/prisma-selects';
 import { NextRequest } from 'next/server';
 import { COURSES, CUPS } from '@/lib/constants';
 import { CDM_QUALIFICATION_ROUND_FIXTURES } from '@/lib/cdm-qualification-round-fixtures';
+import { BREAK_PLAYER_ID } from '@/lib/round-robin';
 
 // Mock dependencies
 jest.mock('@/lib/prisma');
@@ -522,6 +524,45 @@ describe('Qualification Route Factory', () => {
       );
     });
 
+    it('creates only Swiss round 1, split by seed, with a round course card', async () => {
+      const players = Array.from({ length: 7 }, (_, i) => ({
+        playerId: `player-${i + 1}`,
+        group: 'A',
+        seeding: i + 1,
+      }));
+      (prisma.tournament.findFirst as jest.Mock).mockResolvedValue({
+        id: 'tournament-123',
+        qualificationScheduleMethod: 'swiss',
+      });
+      (prisma.mRQualification as any).createMany.mockResolvedValue({ count: 7 });
+      (prisma.mRQualification as any).findMany.mockResolvedValue([]);
+      (prisma.mRMatch as any).findMany.mockResolvedValue([]);
+      (prisma.mRMatch as any).createMany.mockResolvedValue({ count: 4 });
+
+      const { POST } = createQualificationHandlers(
+        createMockConfig({
+          eventTypeCode: 'mr',
+          matchModel: 'mRMatch',
+          qualificationModel: 'mRQualification',
+          assignCoursesRandomly: true,
+        }),
+      );
+      const request = new NextRequest('http://localhost:3000', { method: 'POST', body: JSON.stringify({ players }) });
+
+      expect((await POST(request, { params: Promise.resolve({ id: 'tournament-123' }) })).status).toBe(201);
+      const rows = (prisma.mRMatch as any).createMany.mock.calls[0][0].data;
+      expect(rows.map((row: any) => [row.roundNumber, row.player1Id, row.player2Id, row.isBye])).toEqual([
+        [1, 'player-1', 'player-4', false],
+        [1, 'player-5', 'player-2', false],
+        [1, 'player-3', 'player-6', false],
+        [1, 'player-7', BREAK_PLAYER_ID, true],
+      ]);
+      expect(rows[0].assignedCourses).toHaveLength(4);
+      expect(rows[1].assignedCourses).toEqual(rows[0].assignedCourses);
+      expect(rows[3].completed).toBe(true);
+      expect(rows[3].assignedCourses).toBeUndefined();
+    });
+
     it('should fail explicitly instead of falling back to createMany for unsupported large raw insert modes', async () => {
       const players = Array.from({ length: 8 }, (_, i) => ({
         playerId: `player-${i + 1}`,
@@ -616,6 +657,31 @@ describe('Qualification Route Factory', () => {
       expect((prisma.bMQualification as any).deleteMany).not.toHaveBeenCalled();
     });
 
+    it('rejects approved registrations that have not checked in while check-in is on', async () => {
+      (prisma.tournament.findFirst as jest.Mock).mockResolvedValue({
+        id: 'tournament-123',
+        registrationSettings: { open: false, cap: null, modes: ['bm'], checkIn: true },
+      });
+      (prisma.tournamentRegistration.findMany as jest.Mock).mockResolvedValue([
+        { playerId: 'player-2', modes: ['bm'] },
+      ]);
+      const { POST } = createQualificationHandlers(createMockConfig());
+
+      const response = await POST(
+        new NextRequest('http://localhost:3000', {
+          method: 'POST',
+          body: JSON.stringify({ players: createMockPlayers() }),
+        }),
+        { params: Promise.resolve({ id: 'tournament-123' }) },
+      );
+
+      expect(response.status).toBe(409);
+      expect(await response.json()).toEqual(
+        expect.objectContaining({ code: 'PLAYERS_NOT_CHECKED_IN', details: { playerIds: ['player-2'] } }),
+      );
+      expect((prisma.bMMatch as any).deleteMany).not.toHaveBeenCalled();
+    });
+
     it('rejects a one-player CDM group before deleting an existing qualification', async () => {
       (prisma.tournament.findFirst as jest.Mock).mockResolvedValue({
         id: 'tournament-123',
@@ -1661,6 +1727,31 @@ describe('Qualification Route Factory', () => {
       );
     });
 
+    it('should count Swiss byes as matches when aggregating player stats', async () => {
+      const mockMatch = { id: 'match-123', player1Id: 'player-1', player2Id: 'player-2', isBye: false };
+      const bye = { id: 'bye-1', player1Id: 'player-1', player2Id: BREAK_PLAYER_ID, isBye: true };
+      (prisma.tournament.findUnique as jest.Mock).mockResolvedValueOnce({ qualificationScheduleMethod: 'swiss' });
+      (prisma.bMMatch as any).findMany.mockResolvedValueOnce([mockMatch, bye]).mockResolvedValueOnce([mockMatch]);
+
+      const config = createMockConfig();
+      const { PUT } = createQualificationHandlers(config);
+
+      const request = new NextRequest('http://localhost:3000', {
+        method: 'PUT',
+        body: JSON.stringify(createMockRequestBody()),
+      });
+      const response = await PUT(request, {
+        params: Promise.resolve({ id: 'tournament-123' }),
+      });
+
+      expect(response.status).toBe(200);
+      expect(config.aggregatePlayerStats).toHaveBeenCalledWith(
+        [mockMatch, { ...bye, isBye: false }],
+        'player-1',
+        config.calculateMatchResult,
+      );
+    });
+
     it('should update both players qualification records', async () => {
       const requestBody = createMockRequestBody();
 
@@ -2010,6 +2101,47 @@ describe('Qualification Route Factory', () => {
       });
     });
 
+    it('should let tournament staff with the tv permission assign TVs', async () => {
+      mockAuth.mockResolvedValue({ user: { id: 'player-1', userType: 'player', playerId: 'player-1' } });
+      (prisma.tournamentStaff.findFirst as jest.Mock).mockResolvedValue({ id: 'staff-1' });
+      const mockMatch = { id: 'match-1', tvNumber: 3 };
+      (prisma.bMMatch as any).findFirst.mockResolvedValueOnce(mockMatch).mockResolvedValueOnce(null);
+      (prisma.bMMatch as any).update.mockResolvedValue(mockMatch);
+
+      const { PATCH } = createQualificationHandlers(createMockConfig());
+      const response = await PATCH(
+        new NextRequest('http://localhost:3000', {
+          method: 'PATCH',
+          body: JSON.stringify({ matchId: 'match-1', tvNumber: 3 }),
+        }),
+        { params: Promise.resolve({ id: 'tournament-123' }) },
+      );
+
+      expect(response.status).toBe(200);
+      expect(prisma.tournamentStaff.findFirst).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({ tournamentId: 'tournament-123', playerId: 'player-1' }),
+        }),
+      );
+    });
+
+    it('should keep rank overrides admin-only for tournament staff', async () => {
+      mockAuth.mockResolvedValue({ user: { id: 'player-1', userType: 'player', playerId: 'player-1' } });
+      (prisma.tournamentStaff.findFirst as jest.Mock).mockResolvedValue({ id: 'staff-1' });
+
+      const { PATCH } = createQualificationHandlers(createMockConfig());
+      const response = await PATCH(
+        new NextRequest('http://localhost:3000', {
+          method: 'PATCH',
+          body: JSON.stringify({ qualificationId: 'qual-1', rankOverride: 1 }),
+        }),
+        { params: Promise.resolve({ id: 'tournament-123' }) },
+      );
+
+      expect(response.status).toBe(403);
+      expect((prisma.bMQualification as any).update).not.toHaveBeenCalled();
+    });
+
     it('should set tvNumber to null when removing assignment', async () => {
       mockAuth.mockResolvedValue({ user: { id: 'user-1', role: 'admin' } });
 
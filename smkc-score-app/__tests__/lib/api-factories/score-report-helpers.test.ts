@@ -9,6 +9,7 @@
  * - checkScoreReportAuth: Session-based authorization (admin + player)
  *   - Admin session authorization with full override capability
  *   - Player session authorization via credential login
+ *   - QR match report token for one match and side, without a session
  * - validateCharacter: Character validation against SMK roster
  * - createScoreEntryLog: Audit trail logging (non-critical, graceful failure)
  * - createCharacterUsageLog: Character usage tracking (non-critical, graceful failure)
@@ -32,6 +33,7 @@ import {
 
 import { NextRequest } from 'next/server';
 import { SMK_CHARACTERS } from '@/lib/constants';
+import { createMatchReportToken, MATCH_REPORT_TOKEN_HEADER } from '@/lib/match-report-token';
 
 // Mock dependencies
 jest.mock('@/lib/prisma');
@@ -71,6 +73,7 @@ describe('Score Report Helpers', () => {
     const mockTournamentId = 'tournament-123';
 
     const createMockMatch = (overrides = {}) => ({
+      id: 'match-1',
       player1Id: 'player-1',
       player2Id: 'player-2',
       ...overrides,
@@ -188,6 +191,57 @@ describe('Score Report Helpers', () => {
 
       expect(result).toBe(false);
     });
+
+    describe('with a QR match report token', () => {
+      const SECRET = 'test-auth-secret';
+      const exp = Math.floor(Date.now() / 1000) + 600;
+
+      const tokenRequest = async (claims = {}) => {
+        const token = await createMatchReportToken(
+          { tournamentId: mockTournamentId, matchId: 'match-1', playerId: 'player-2', side: 2, exp, ...claims },
+          SECRET,
+        );
+        return new NextRequest('http://localhost:3000', { headers: { [MATCH_REPORT_TOKEN_HEADER]: token } });
+      };
+
+      beforeEach(() => {
+        process.env.AUTH_SECRET = SECRET;
+        mockAuth.mockResolvedValue(null);
+      });
+
+      afterEach(() => {
+        delete process.env.AUTH_SECRET;
+      });
+
+      it('authorizes the side the token was issued for', async () => {
+        expect(await checkScoreReportAuth(await tokenRequest(), mockTournamentId, 2, createMockMatch())).toBe(true);
+      });
+
+      it('rejects the other side, another match and another tournament', async () => {
+        expect(await checkScoreReportAuth(await tokenRequest(), mockTournamentId, 1, createMockMatch())).toBe(false);
+        expect(
+          await checkScoreReportAuth(
+            await tokenRequest({ matchId: 'match-2' }),
+            mockTournamentId,
+            2,
+            createMockMatch(),
+          ),
+        ).toBe(false);
+        expect(
+          await checkScoreReportAuth(
+            await tokenRequest({ tournamentId: 'other' }),
+            mockTournamentId,
+            2,
+            createMockMatch(),
+          ),
+        ).toBe(false);
+      });
+
+      it('rejects an expired token', async () => {
+        const request = await tokenRequest({ exp: Math.floor(Date.now() / 1000) - 1 });
+        expect(await checkScoreReportAuth(request, mockTournamentId, 2, createMockMatch())).toBe(false);
+      });
+    });
   });
 
   // ============================================================
@@ -593,6 +647,54 @@ describe('Score Report Helpers', () => {
       ]);
     });
 
+    it('counts a Swiss bye as a win, level with a player who won every match', async () => {
+      (mockPrisma.tournament.findUnique as jest.Mock).mockResolvedValue({ qualificationScheduleMethod: 'swiss' });
+      (mockPrisma as any).bMQualification = {
+        findMany: jest.fn().mockResolvedValue([{ playerId: 'byeWinner' }, { playerId: 'sweeper' }]),
+      };
+      mockFindMany.mockResolvedValue([
+        { player1Id: 'byeWinner', player2Id: '__BREAK__', score1: 4, score2: 0, isBye: true },
+        { player1Id: 'sweeper', player2Id: 'p3', score1: 4, score2: 0, isBye: false },
+        { player1Id: 'byeWinner', player2Id: 'p3', score1: 3, score2: 1, isBye: false },
+        { player1Id: 'p4', player2Id: 'sweeper', score1: 1, score2: 3, isBye: false },
+      ]);
+
+      await repairQualificationStats(
+        {
+          eventTypeCode: 'bm',
+          matchModel: 'testMatch',
+          qualificationModel: 'bMQualification',
+          matchScoreFields: { p1: 'score1', p2: 'score2' },
+          calculateMatchResult: (score1, score2) => ({
+            winner: score1 > score2 ? 1 : score1 < score2 ? 2 : null,
+            result1: score1 > score2 ? 'win' : score1 < score2 ? 'loss' : 'tie',
+            result2: score1 > score2 ? 'loss' : score1 < score2 ? 'win' : 'tie',
+          }),
+        },
+        'tourney-1',
+      );
+
+      expect(mockFindMany).toHaveBeenCalledWith({
+        where: { tournamentId: 'tourney-1', stage: 'qualification', completed: true },
+      });
+      const stats = { mp: 2, wins: 2, ties: 0, losses: 0, winRounds: 7, lossRounds: 1, points: 6, score: 4 };
+      expectBulkUpdateWith('BMQualification', [
+        { playerId: 'byeWinner', ...stats },
+        { playerId: 'sweeper', ...stats },
+      ]);
+    });
+
+    it('keeps BREAK rows out of round-robin recalculation', async () => {
+      (mockPrisma.tournament.findUnique as jest.Mock).mockResolvedValue({ qualificationScheduleMethod: 'circle' });
+      mockFindMany.mockResolvedValue([]);
+
+      await recalculatePlayersStats(differentialConfig, 'tourney-1', ['p1']);
+
+      expect(mockFindMany).toHaveBeenCalledWith({
+        where: expect.objectContaining({ completed: true, isBye: false }),
+      });
+    });
+
     it('should throw for an unknown qualificationModel before issuing bulk SQL', async () => {
       await expect(
         bulkUpdateQualificationStats('unknownModel' as any, 'tourney-1', [{ playerId: 'p1' }]),
@@ -0,0 +1,187 @@
+// @ts-nocheck - Route and Prisma mocks deliberately use compact partial shapes.
+/**
+ * Tests for the Swiss round route factory (swiss-round-route.ts): guards
+ * (admin, Swiss-only, confirmed lock, unfinished round, round already
+ * paired) and pairing the next round from Buchholz standings with the mode's
+ * course assignment, leaving withdrawn players out and crediting byes.
+ */
+
+jest.mock('next/server', () => ({
+  NextResponse: {
+    json: jest.fn((data: unknown, options?: { status?: number }) => ({ data, status: options?.status ?? 200 })),
+  },
+  NextRequest: jest.fn(),
+}));
+
+jest.mock('@/lib/prisma', () => {
+  const model = () => ({ findMany: jest.fn(), findFirst: jest.fn(), createMany: jest.fn() });
+  return {
+    __esModule: true,
+    default: { bMQualification: model(), bMMatch: model(), $executeRawUnsafe: jest.fn() },
+  };
+});
+jest.mock('@/lib/auth', () => ({ auth: jest.fn() }));
+jest.mock('@/lib/audit-log', () => ({
+  AUDIT_ACTIONS: { PAIR_SWISS_ROUND: 'PAIR_SWISS_ROUND' },
+  createAuditLog: jest.fn(() => Promise.resolve()),
+  resolveAuditUserId: jest.fn(() => 'admin'),
+}));
+jest.mock('@/lib/request-utils', () => ({
+  getClientIdentifier: jest.fn(() => '127.0.0.1'),
+  getUserAgent: jest.fn(() => 'jest'),
+}));
+jest.mock('@/lib/logger', () => ({
+  createLogger: jest.fn(() => ({ error: jest.fn(), warn: jest.fn(), info: jest.fn(), debug: jest.fn() })),
+}));
+jest.mock('@/lib/tournament-identifier', () => ({ resolveTournament: jest.fn() }));
+jest.mock('@/lib/qualification-confirmed-check', () => ({ checkQualificationConfirmed: jest.fn() }));
+jest.mock('@/lib/standings-cache', () => ({ invalidate: jest.fn() }));
+jest.mock('@/lib/points/overall-ranking', () => ({ invalidateOverallRankingsCache: jest.fn() }));
+jest.mock('@/lib/api-factories/score-report-helpers', () => ({ repairQualificationStats: jest.fn() }));
+
+import prisma from '@/lib/prisma';
+import { auth } from '@/lib/auth';
+import { createAuditLog } from '@/lib/audit-log';
+import { resolveTournament } from '@/lib/tournament-identifier';
+import { checkQualificationConfirmed } from '@/lib/qualification-confirmed-check';
+import { invalidate } from '@/lib/standings-cache';
+import { repairQualificationStats } from '@/lib/api-factories/score-report-helpers';
+import { createSwissRoundHandlers } from '@/lib/api-factories/swiss-round-route';
+
+const config = {
+  eventTypeCode: 'bm',
+  eventDisplayName: 'battle mode',
+  loggerName: 'bm-swiss-test',
+  qualificationModel: 'bMQualification',
+  matchModel: 'bMMatch',
+  qualificationOrderBy: [{ group: 'asc' }, { score: 'desc' }, { points: 'desc' }],
+  matchScoreFields: { p1: 'score1', p2: 'score2' },
+  fixedCourseList: ['BC1', 'BC2', 'BC3', 'BC4'],
+};
+const { POST } = createSwissRoundHandlers(config);
+const params = { params: Promise.resolve({ id: 'spring-cup' }) };
+const request = { headers: { get: () => null } };
+
+/* Round 1 of a 4-player group: A beat C, B beat D. */
+const qualifications = [
+  { playerId: 'A', group: 'A', score: 2, points: 2 },
+  { playerId: 'B', group: 'A', score: 2, points: 2 },
+  { playerId: 'C', group: 'A', score: 0, points: -2 },
+  { playerId: 'D', group: 'A', score: 0, points: -2 },
+];
+const round1 = [
+  { matchNumber: 1, roundNumber: 1, player1Id: 'A', player2Id: 'C', score1: 3, score2: 1, completed: true },
+  { matchNumber: 2, roundNumber: 1, player1Id: 'D', player2Id: 'B', score1: 1, score2: 3, completed: true },
+];
+
+describe('Swiss round route factory', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    auth.mockResolvedValue({ user: { id: 'admin', role: 'admin' } });
+    resolveTournament.mockResolvedValue({ id: 't1', qualificationScheduleMethod: 'swiss' });
+    checkQualificationConfirmed.mockResolvedValue(null);
+    prisma.bMQualification.findMany.mockResolvedValue(qualifications);
+    prisma.bMMatch.findMany.mockResolvedValue(round1);
+  });
+
+  it('rejects non-admin callers', async () => {
+    auth.mockResolvedValue({ user: { id: 'u1', role: 'member' } });
+
+    expect((await POST(request, params)).status).toBe(403);
+  });
+
+  it('refuses tournaments that do not use Swiss pairing', async () => {
+    resolveTournament.mockResolvedValue({ id: 't1', qualificationScheduleMethod: 'circle' });
+
+    const response = await POST(request, params);
+
+    expect(response.status).toBe(409);
+    expect(response.data.code).toBe('NOT_SWISS_TOURNAMENT');
+  });
+
+  it('returns the confirmed-qualification lock error', async () => {
+    checkQualificationConfirmed.mockResolvedValue({ status: 403 });
+
+    expect((await POST(request, params)).status).toBe(403);
+    expect(prisma.bMMatch.createMany).not.toHaveBeenCalled();
+  });
+
+  it('waits until every match of the current round is reported', async () => {
+    prisma.bMMatch.findMany.mockResolvedValue([round1[0], { ...round1[1], completed: false }]);
+
+    const response = await POST(request, params);
+
+    expect(response.status).toBe(409);
+    expect(response.data.code).toBe('ROUND_IN_PROGRESS');
+  });
+
+  it('pairs the next round from the standings without rematches', async () => {
+    const response = await POST(request, params);
+
+    expect(response.status).toBe(201);
+    expect(response.data.data.round).toBe(2);
+    const data = prisma.bMMatch.createMany.mock.calls[0][0].data;
+    expect(data.map((m) => [m.matchNumber, m.roundNumber, [m.player1Id, m.player2Id].sort().join('-')])).toEqual([
+      [3, 2, 'A-B'],
+      [4, 2, 'C-D'],
+    ]);
+    expect(data[0]).toEqual(
+      expect.objectContaining({ stage: 'qualification', assignedCourses: config.fixedCourseList }),
+    );
+    expect(createAuditLog).toHaveBeenCalledWith(
+      expect.objectContaining({ action: 'PAIR_SWISS_ROUND', details: { mode: 'bm', round: 2, matchCount: 2 } }),
+    );
+    expect(invalidate).toHaveBeenCalledWith('t1');
+    expect(repairQualificationStats).not.toHaveBeenCalled();
+  });
+
+  it('refuses to pair a round that already has matches', async () => {
+    prisma.bMMatch.findFirst.mockResolvedValueOnce({ id: 'm3' });
+
+    const response = await POST(request, params);
+
+    expect(response.status).toBe(409);
+    expect(response.data.code).toBe('ROUND_ALREADY_PAIRED');
+    expect(prisma.bMMatch.findFirst).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { tournamentId: 't1', stage: 'qualification', roundNumber: 2 } }),
+    );
+    expect(prisma.bMMatch.createMany).not.toHaveBeenCalled();
+  });
+
+  it('answers 409 when a concurrent pairing wins the insert', async () => {
+    prisma.bMMatch.createMany.mockRejectedValueOnce(Object.assign(new Error('Unique constraint'), { code: 'P2002' }));
+
+    const response = await POST(request, params);
+
+    expect(response.status).toBe(409);
+    expect(response.data.code).toBe('ROUND_ALREADY_PAIRED');
+  });
+
+  it('leaves withdrawn players out of the pairing', async () => {
+    prisma.bMQualification.findMany.mockResolvedValue(
+      qualifications.map((q) => (q.playerId === 'D' ? { ...q, withdrawnAt: new Date() } : q)),
+    );
+
+    const response = await POST(request, params);
+
+    expect(response.status).toBe(201);
+    const data = prisma.bMMatch.createMany.mock.calls[0][0].data;
+    expect(data.flatMap((m) => [m.player1Id, m.player2Id])).not.toContain('D');
+    /* The odd group's bye is a win, so the receiver's stats are refreshed. */
+    expect(data.filter((m) => m.isBye)).toHaveLength(1);
+    expect(repairQualificationStats).toHaveBeenCalledWith(config, 't1');
+  });
+
+  it('reports when every possible round has been played', async () => {
+    prisma.bMMatch.findMany.mockResolvedValue([
+      ...round1,
+      { matchNumber: 3, roundNumber: 2, player1Id: 'A', player2Id: 'B', completed: true },
+      { matchNumber: 4, roundNumber: 3, player1Id: 'A', player2Id: 'D', completed: true },
+    ]);
+
+    const response = await POST(request, params);
+
+    expect(response.status).toBe(409);
+    expect(response.data.code).toBe('SWISS_ROUNDS_EXHAUSTED');
+  });
+});
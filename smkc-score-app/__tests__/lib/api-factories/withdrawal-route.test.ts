@@ -0,0 +1,139 @@
+// @ts-nocheck - Route and Prisma mocks deliberately use compact partial shapes.
+/**
+ * Tests for the withdrawal route factory (withdrawal-route.ts): guards
+ * (admin, body validation, confirmed lock, unknown or already withdrawn
+ * player), the audit record written before any change, and cache
+ * invalidation after withdrawing.
+ */
+
+jest.mock('next/server', () => ({
+  NextResponse: {
+    json: jest.fn((data: unknown, options?: { status?: number }) => ({ data, status: options?.status ?? 200 })),
+  },
+  NextRequest: jest.fn(),
+}));
+
+jest.mock('@/lib/prisma', () => ({
+  __esModule: true,
+  default: { bMQualification: { findFirst: jest.fn() } },
+}));
+jest.mock('@/lib/auth', () => ({ auth: jest.fn() }));
+jest.mock('@/lib/audit-log', () => ({
+  AUDIT_ACTIONS: { WITHDRAW_QUALIFICATION_PLAYER: 'WITHDRAW_QUALIFICATION_PLAYER' },
+  createRequiredAuditLog: jest.fn(() => Promise.resolve()),
+  resolveAuditUserId: jest.fn(() => 'admin'),
+}));
+jest.mock('@/lib/rate-limit', () => ({ checkRateLimit: jest.fn() }));
+jest.mock('@/lib/request-utils', () => ({
+  getClientIdentifier: jest.fn(() => '127.0.0.1'),
+  getUserAgent: jest.fn(() => 'jest'),
+}));
+jest.mock('@/lib/logger', () => ({
+  createLogger: jest.fn(() => ({ error: jest.fn(), warn: jest.fn(), info: jest.fn(), debug: jest.fn() })),
+}));
+jest.mock('@/lib/tournament-identifier', () => ({ resolveTournament: jest.fn() }));
+jest.mock('@/lib/qualification-confirmed-check', () => ({ checkQualificationConfirmed: jest.fn() }));
+jest.mock('@/lib/standings-cache', () => ({ invalidate: jest.fn() }));
+jest.mock('@/lib/points/overall-ranking', () => ({ invalidateOverallRankingsCache: jest.fn() }));
+jest.mock('@/lib/tournament-events', () => ({ publishTournamentChange: jest.fn() }));
+jest.mock('@/lib/qualification-withdrawal', () => ({
+  ...jest.requireActual('@/lib/qualification-withdrawal'),
+  findWithdrawalMatches: jest.fn(),
+  withdrawQualificationPlayer: jest.fn(),
+}));
+
+import prisma from '@/lib/prisma';
+import { auth } from '@/lib/auth';
+import { createRequiredAuditLog } from '@/lib/audit-log';
+import { checkRateLimit } from '@/lib/rate-limit';
+import { resolveTournament } from '@/lib/tournament-identifier';
+import { checkQualificationConfirmed } from '@/lib/qualification-confirmed-check';
+import { invalidate } from '@/lib/standings-cache';
+import { publishTournamentChange } from '@/lib/tournament-events';
+import { findWithdrawalMatches, withdrawQualificationPlayer } from '@/lib/qualification-withdrawal';
+import { createWithdrawalHandlers } from '@/lib/api-factories/withdrawal-route';
+
+const config = {
+  eventTypeCode: 'bm',
+  eventDisplayName: 'battle mode',
+  loggerName: 'bm-withdraw-test',
+  qualificationModel: 'bMQualification',
+  matchModel: 'bMMatch',
+};
+const { POST } = createWithdrawalHandlers(config);
+const params = { params: Promise.resolve({ id: 'spring-cup' }) };
+const matches = [{ id: 'm1', player1Id: 'p1', player2Id: 'p2', completed: true, score1: 3, score2: 1 }];
+const request = (body: unknown) => ({ headers: { get: () => null }, json: () => Promise.resolve(body) });
+
+describe('Withdrawal route factory', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    auth.mockResolvedValue({ user: { id: 'admin', role: 'admin' } });
+    checkRateLimit.mockResolvedValue({ success: true });
+    resolveTournament.mockResolvedValue({ id: 't1' });
+    checkQualificationConfirmed.mockResolvedValue(null);
+    prisma.bMQualification.findFirst.mockResolvedValue({ id: 'q1', withdrawnAt: null });
+    findWithdrawalMatches.mockResolvedValue(matches);
+    withdrawQualificationPlayer.mockResolvedValue(['m1', 'm2']);
+  });
+
+  it('rejects non-admin callers', async () => {
+    auth.mockResolvedValue({ user: { id: 'u1', role: 'member' } });
+
+    expect((await POST(request({ playerId: 'p1', policy: 'void' }), params)).status).toBe(403);
+  });
+
+  it('validates the player and policy', async () => {
+    expect((await POST(request({ policy: 'void' }), params)).status).toBe(400);
+    const response = await POST(request({ playerId: 'p1', policy: 'forfeit' }), params);
+    expect(response.status).toBe(400);
+    expect(response.data.details).toEqual({ field: 'policy' });
+    expect(withdrawQualificationPlayer).not.toHaveBeenCalled();
+  });
+
+  it('returns the confirmed-qualification lock error', async () => {
+    checkQualificationConfirmed.mockResolvedValue({ status: 403 });
+
+    expect((await POST(request({ playerId: 'p1', policy: 'void' }), params)).status).toBe(403);
+    expect(withdrawQualificationPlayer).not.toHaveBeenCalled();
+  });
+
+  it('rejects players outside the qualification or already withdrawn', async () => {
+    prisma.bMQualification.findFirst.mockResolvedValueOnce(null);
+    expect((await POST(request({ playerId: 'p1', policy: 'void' }), params)).status).toBe(404);
+
+    prisma.bMQualification.findFirst.mockResolvedValueOnce({ id: 'q1', withdrawnAt: new Date() });
+    const response = await POST(request({ playerId: 'p1', policy: 'void' }), params);
+    expect(response.status).toBe(409);
+    expect(response.data.code).toBe('ALREADY_WITHDRAWN');
+    expect(withdrawQualificationPlayer).not.toHaveBeenCalled();
+  });
+
+  it('audits the match rows as they were, withdraws the player and refreshes the standings', async () => {
+    const response = await POST(request({ playerId: 'p1', policy: 'walkover' }), params);
+
+    expect(response.status).toBe(200);
+    expect(response.data.data).toEqual({ playerId: 'p1', policy: 'walkover', changedMatchIds: ['m1', 'm2'] });
+    expect(createRequiredAuditLog).toHaveBeenCalledWith(
+      expect.objectContaining({
+        action: 'WITHDRAW_QUALIFICATION_PLAYER',
+        targetId: 'q1',
+        details: { tournamentId: 't1', mode: 'bm', playerId: 'p1', policy: 'walkover', matches },
+      }),
+    );
+    expect(findWithdrawalMatches).toHaveBeenCalledWith(config, 't1', 'p1', 'walkover');
+    expect(withdrawQualificationPlayer).toHaveBeenCalledWith(config, 't1', 'p1', 'walkover', matches);
+    expect(createRequiredAuditLog.mock.invocationCallOrder[0]).toBeLessThan(
+      withdrawQualificationPlayer.mock.invocationCallOrder[0],
+    );
+    expect(invalidate).toHaveBeenCalledWith('t1');
+    expect(publishTournamentChange).toHaveBeenCalledWith('t1', 'bm');
+  });
+
+  it('does not touch any match when the audit record cannot be written', async () => {
+    createRequiredAuditLog.mockRejectedValueOnce(new Error('audit down'));
+
+    expect((await POST(request({ playerId: 'p1', policy: 'void' }), params)).status).toBe(500);
+    expect(withdrawQualificationPlayer).not.toHaveBeenCalled();
+  });
+});
@@ -18,10 +18,8 @@ jest.mock('bcryptjs', () => ({
 
 import { compare as mockBcryptCompare } from 'bcryptjs';
 import prisma from '@/lib/prisma';
-import {
-  authConfig,
-  getAdminDiscordIds,
-} from '@/lib/auth';
+import { checkRateLimit } from '@/lib/rate-limit';
+import { authConfig, getAdminDiscordIds } from '@/lib/auth';
 
 const bcryptCompare = mockBcryptCompare as jest.Mock;
 
@@ -31,22 +29,17 @@ describe('authConfig', () => {
     process.env.ADMIN_DISCORD_IDS = '123456789012345678,987654321098765432';
     process.env.DISCORD_CLIENT_ID = 'discord-client-id';
     process.env.DISCORD_CLIENT_SECRET = 'discord-client-secret';
+    (prisma.auditLog.findMany as jest.Mock).mockResolvedValue([]);
   });
 
   describe('admin Discord allowlist', () => {
     it('parses admin Discord IDs from the environment', () => {
-      expect(getAdminDiscordIds()).toEqual([
-        '123456789012345678',
-        '987654321098765432',
-      ]);
+      expect(getAdminDiscordIds()).toEqual(['123456789012345678', '987654321098765432']);
     });
 
     it('filters blank values from ADMIN_DISCORD_IDS', () => {
       process.env.ADMIN_DISCORD_IDS = ' 123456789012345678, , 987654321098765432 ,,';
-      expect(getAdminDiscordIds()).toEqual([
-        '123456789012345678',
-        '987654321098765432',
-      ]);
+      expect(getAdminDiscordIds()).toEqual(['123456789012345678', '987654321098765432']);
     });
   });
 
@@ -117,6 +110,44 @@ describe('authConfig', () => {
       });
 
       expect(result).toBeNull();
+      expect(prisma.auditLog.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          action: 'LOGIN_FAILURE',
+          targetId: 'player-1',
+          targetType: 'Player',
+        }),
+      });
+    });
+
+    it('rejects a locked account before checking the password', async () => {
+      (prisma.player.findUnique as jest.Mock).mockResolvedValue({
+        id: 'player-1',
+        nickname: 'test-player',
+        name: 'Test Player',
+        password: 'hashed-password',
+      });
+      (prisma.auditLog.findMany as jest.Mock).mockResolvedValue(
+        Array.from({ length: 5 }, () => ({ timestamp: new Date() })),
+      );
+
+      await expect(provider.authorize({ nickname: 'test-player', password: 'secret' })).rejects.toMatchObject({
+        code: 'account_locked',
+      });
+      expect(bcryptCompare).not.toHaveBeenCalled();
+      /* Attempts while locked are logged without a player target so they do not extend the lock. */
+      expect(prisma.auditLog.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ action: 'LOGIN_FAILURE', targetId: undefined }),
+      });
+    });
+
+    it('rejects logins over the per-client and nickname rate limit', async () => {
+      (checkRateLimit as jest.Mock).mockResolvedValueOnce({ success: false, retryAfter: 60 });
+
+      await expect(provider.authorize({ nickname: 'test-player', password: 'secret' })).rejects.toMatchObject({
+        code: 'rate_limited',
+      });
+      expect(checkRateLimit).toHaveBeenCalledWith('login', 'unknown:test-player');
+      expect(prisma.player.findUnique).not.toHaveBeenCalled();
     });
   });
 
@@ -141,9 +172,7 @@ describe('authConfig', () => {
     });
 
     it('redirects to ServerError when DB operation fails during Discord sign-in', async () => {
-      (prisma.account.findUnique as jest.Mock).mockRejectedValue(
-        new Error('DB connection failed')
-      );
+      (prisma.account.findUnique as jest.Mock).mockRejectedValue(new Error('DB connection failed'));
 
       const result = await authConfig.callbacks.signIn({
         user: { email: 'admin@example.com' },
@@ -0,0 +1,232 @@
+/**
+ * @module __tests__/lib/bracket-projection.test.ts
+ *
+ * Test suite for bracket-projection.ts: a player's win/loss paths through a
+ * finals or playoff bracket, the matches they are waiting on, and their
+ * guaranteed and best placements with the matching finals points.
+ */
+import { describe, it, expect } from '@jest/globals';
+import { generateBracketStructure, generatePlayoffStructure } from '@/lib/double-elimination';
+import { generateRoundRobinFinalsStructure, generateSingleEliminationStructure } from '@/lib/finals-format';
+import {
+  getProjectionHighlight,
+  projectBracketPath,
+  type BracketProjection,
+  type ProjectionMatch,
+} from '@/lib/bracket-projection';
+import type { BracketMatch } from '@/types/bracket';
+
+/** One row per structure match: seeded slots hold `s<seed>`, routed slots are empty. */
+function makeMatches(structure: BracketMatch[]): ProjectionMatch[] {
+  return structure.map((b) => ({
+    matchNumber: b.matchNumber,
+    round: b.round,
+    completed: false,
+    player1Id: b.player1Seed != null ? `s${b.player1Seed}` : null,
+    player2Id: b.player2Seed != null ? `s${b.player2Seed}` : null,
+    winnerId: null,
+  }));
+}
+
+/** Complete `matchNumber` for `winnerId` and route both players like finals-route.ts does. */
+function complete(structure: BracketMatch[], matches: ProjectionMatch[], matchNumber: number, winnerId: string) {
+  const row = matches.find((m) => m.matchNumber === matchNumber)!;
+  const bracketMatch = structure.find((b) => b.matchNumber === matchNumber)!;
+  const loserId = row.player1Id === winnerId ? row.player2Id : row.player1Id;
+  row.completed = true;
+  row.winnerId = winnerId;
+  const place = (target: number | undefined, slot: 1 | 2 | undefined, playerId: string | null) => {
+    const next = target ? matches.find((m) => m.matchNumber === target) : undefined;
+    if (next) next[(slot ?? 1) === 1 ? 'player1Id' : 'player2Id'] = playerId;
+  };
+  place(bracketMatch.winnerGoesTo, bracketMatch.position, winnerId);
+  place(bracketMatch.loserGoesTo, bracketMatch.loserPosition, loserId);
+}
+
+describe('projectBracketPath', () => {
+  describe('8-player double elimination', () => {
+    const structure = generateBracketStructure(8);
+
+    /* Only the Grand Final and its reset are left to play. */
+    const completeBeforeGrandFinal = (matches: ProjectionMatch[]) =>
+      matches.map((m) =>
+        m.round?.startsWith('grand_final') ? m : { ...m, completed: true, winnerId: m.player1Id ?? 'x' },
+      );
+
+    it('projects the top seed before any match is played', () => {
+      const projection = projectBracketPath(structure, makeMatches(structure), 's1', 'BM');
+
+      expect(projection).toEqual({
+        status: 'active',
+        currentMatch: 1,
+        winPath: [5, 7, 16],
+        lossPath: [8, 10, 12, 14, 15, 16, 17],
+        reachable: [5, 7, 8, 10, 12, 14, 15, 16, 17],
+        waitingOn: [],
+        worst: { position: 9, points: 400 },
+        best: { position: 1, points: 2000 },
+      });
+    });
+
+    it('waits on the match that decides the opponent', () => {
+      const matches = makeMatches(structure);
+      complete(structure, matches, 1, 's1');
+
+      const projection = projectBracketPath(structure, matches, 's1', 'BM');
+
+      expect(projection).toMatchObject({
+        currentMatch: 5,
+        winPath: [7, 16],
+        lossPath: [12, 14, 15, 16, 17],
+        waitingOn: [2],
+        worst: { position: 5, points: 750 },
+      });
+    });
+
+    it('follows the loser into the Losers Bracket', () => {
+      const matches = makeMatches(structure);
+      complete(structure, matches, 1, 's1');
+
+      const projection = projectBracketPath(structure, matches, 's8', 'MR');
+
+      expect(projection).toMatchObject({
+        status: 'active',
+        currentMatch: 8,
+        winPath: [10, 12, 14, 15, 16, 17],
+        lossPath: [],
+        waitingOn: [2],
+        worst: { position: 9, points: 400 },
+        best: { position: 1, points: 2000 },
+      });
+    });
+
+    it('fixes the placement once the player is eliminated', () => {
+      const matches = makeMatches(structure);
+      complete(structure, matches, 1, 's1');
+      complete(structure, matches, 2, 's4');
+      complete(structure, matches, 8, 's5');
+
+      const projection = projectBracketPath(structure, matches, 's8', 'BM');
+
+      expect(projection).toEqual({
+        status: 'finished',
+        currentMatch: null,
+        winPath: [],
+        lossPath: [],
+        reachable: [],
+        waitingOn: [],
+        worst: { position: 9, points: 400 },
+        best: { position: 9, points: 400 },
+      });
+    });
+
+    it('sends the Winners Bracket champion to the reset when they lose the Grand Final', () => {
+      const matches = completeBeforeGrandFinal(makeMatches(structure));
+      const grandFinal = matches.find((m) => m.round === 'grand_final')!;
+      grandFinal.player1Id = 's1';
+      grandFinal.player2Id = 's2';
+
+      expect(projectBracketPath(structure, matches, 's1', 'GP')).toMatchObject({
+        currentMatch: 16,
+        winPath: [],
+        lossPath: [17],
+        worst: { position: 2, points: 1600 },
+        best: { position: 1, points: 2000 },
+      });
+      expect(projectBracketPath(structure, matches, 's2', 'GP')).toMatchObject({
+        currentMatch: 16,
+        winPath: [17],
+        lossPath: [],
+        worst: { position: 2, points: 1600 },
+      });
+    });
+
+    it('moves both Grand Final players to the reset when the Losers Bracket champion wins', () => {
+      const matches = completeBeforeGrandFinal(makeMatches(structure));
+      Object.assign(
+        matches.find((m) => m.round === 'grand_final')!,
+        {
+          player1Id: 's1',
+          player2Id: 's2',
+          completed: true,
+          winnerId: 's2',
+        },
+      );
+
+      expect(projectBracketPath(structure, matches, 's1', 'BM')).toMatchObject({
+        currentMatch: 17,
+        waitingOn: [],
+        worst: { position: 2, points: 1600 },
+      });
+    });
+
+    it('returns null for a player outside the bracket', () => {
+      expect(projectBracketPath(structure, makeMatches(structure), 'someone-else', 'BM')).toBeNull();
+    });
+  });
+
+  it('drops a single-elimination Semi Final loser into the third-place match', () => {
+    const structure = generateSingleEliminationStructure(4, { thirdPlace: true });
+    const projection = projectBracketPath(structure, makeMatches(structure), 's1', 'BM');
+
+    expect(projection).toMatchObject({
+      currentMatch: 1,
+      winPath: [4],
+      lossPath: [3],
+      worst: { position: 4, points: 1000 },
+      best: { position: 1, points: 2000 },
+    });
+  });
+
+  it('places playoff losers and marks playoff winners as advanced', () => {
+    const structure = generatePlayoffStructure(12);
+    const matches = makeMatches(structure);
+
+    const opening = projectBracketPath(structure, matches, 's17', 'BM');
+    expect(opening).toMatchObject({
+      currentMatch: 1,
+      winPath: [5],
+      worst: { position: 21, points: 100 },
+      best: null,
+    });
+
+    complete(structure, matches, 1, 's17');
+    complete(structure, matches, 5, 's17');
+    expect(projectBracketPath(structure, matches, 's17', 'BM')).toMatchObject({
+      status: 'advanced',
+      worst: null,
+      best: null,
+    });
+  });
+
+  it('does not project round-robin finals', () => {
+    const structure = generateRoundRobinFinalsStructure(4);
+    expect(projectBracketPath(structure, makeMatches(structure), 's1', 'BM')).toBeNull();
+  });
+});
+
+describe('getProjectionHighlight', () => {
+  const projection: BracketProjection = {
+    status: 'active',
+    currentMatch: 5,
+    winPath: [7, 16],
+    lossPath: [12, 14, 15, 16],
+    reachable: [7, 12, 13, 14, 15, 16],
+    waitingOn: [2],
+    worst: { position: 5, points: 750 },
+    best: { position: 1, points: 2000 },
+  };
+
+  it('prefers the current match, then the win path, then the loss path', () => {
+    expect(getProjectionHighlight(projection, 5)).toBe('current');
+    expect(getProjectionHighlight(projection, 16)).toBe('win');
+    expect(getProjectionHighlight(projection, 12)).toBe('loss');
+    expect(getProjectionHighlight(projection, 2)).toBe('waiting');
+    expect(getProjectionHighlight(projection, 13)).toBe('possible');
+    expect(getProjectionHighlight(projection, 9)).toBeNull();
+  });
+
+  it('highlights nothing without a projection', () => {
+    expect(getProjectionHighlight(null, 5)).toBeNull();
+  });
+});
@@ -0,0 +1,146 @@
+/**
+ * @module __tests__/lib/cache-backend.test.ts
+ *
+ * Test suite for the pluggable cache backend (cache-backend.ts):
+ * - createMemoryCacheBackend(): TTL expiry and LRU eviction.
+ * - createKvCacheBackend(): JSON round-trip and the 60-second KV TTL floor.
+ * - createD1CacheBackend(): expired rows read as misses; writes purge them.
+ * - getCacheBackend(): CACHE_BACKEND selection and fail-soft shared backends.
+ * - Versioned keys: a generation bump orphans every key of one tournament only.
+ */
+import prisma from '@/lib/prisma';
+import { getCloudflareContext } from '@opennextjs/cloudflare';
+import {
+  bumpTournamentCacheGeneration,
+  clearMemoryCache,
+  createD1CacheBackend,
+  createKvCacheBackend,
+  createMemoryCacheBackend,
+  getCacheBackend,
+  setCacheBackend,
+  tournamentCacheKey,
+} from '@/lib/cache-backend';
+
+describe('cache-backend', () => {
+  const originalBackend = process.env.CACHE_BACKEND;
+
+  afterEach(() => {
+    jest.useRealTimers();
+    setCacheBackend(null);
+    clearMemoryCache();
+    if (originalBackend === undefined) delete process.env.CACHE_BACKEND;
+    else process.env.CACHE_BACKEND = originalBackend;
+  });
+
+  describe('memory backend', () => {
+    it('expires entries after their TTL', async () => {
+      jest.useFakeTimers();
+      const backend = createMemoryCacheBackend();
+      await backend.set('a', { n: 1 }, 1000);
+
+      expect(await backend.get('a')).toEqual({ n: 1 });
+      jest.advanceTimersByTime(1001);
+      expect(await backend.get('a')).toBeNull();
+      expect(backend.size).toBe(0);
+    });
+
+    it('evicts the least recently used entry when full', async () => {
+      const backend = createMemoryCacheBackend(2);
+      await backend.set('a', 1, 60_000);
+      await backend.set('b', 2, 60_000);
+      await backend.get('a');
+      await backend.set('c', 3, 60_000);
+
+      expect(await backend.get('a')).toBe(1);
+      expect(await backend.get('b')).toBeNull();
+      expect(await backend.get('c')).toBe(3);
+    });
+  });
+
+  describe('KV backend', () => {
+    it('stores JSON with at least the minimum KV TTL', async () => {
+      const kv = { get: jest.fn().mockResolvedValue({ n: 1 }), put: jest.fn(), delete: jest.fn() };
+      const backend = createKvCacheBackend(kv as never);
+
+      await backend.set('a', { n: 1 }, 5_000);
+      await backend.set('b', { n: 2 }, 300_000);
+
+      expect(kv.put).toHaveBeenNthCalledWith(1, 'a', '{"n":1}', { expirationTtl: 60 });
+      expect(kv.put).toHaveBeenNthCalledWith(2, 'b', '{"n":2}', { expirationTtl: 300 });
+      expect(await backend.get('a')).toEqual({ n: 1 });
+      expect(kv.get).toHaveBeenCalledWith('a', 'json');
+    });
+  });
+
+  describe('D1 backend', () => {
+    it('treats expired rows as misses', async () => {
+      const backend = createD1CacheBackend();
+      (prisma.cacheEntry.findUnique as jest.Mock)
+        .mockResolvedValueOnce({ key: 'a', value: '[1,2]', expiresAt: new Date(Date.now() + 60_000) })
+        .mockResolvedValueOnce({ key: 'a', value: '[1,2]', expiresAt: new Date(Date.now() - 1) });
+
+      expect(await backend.get('a')).toEqual([1, 2]);
+      expect(await backend.get('a')).toBeNull();
+    });
+
+    it('upserts the value and purges expired rows', async () => {
+      const backend = createD1CacheBackend();
+
+      await backend.set('a', { n: 1 }, 60_000);
+
+      expect(prisma.cacheEntry.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { key: 'a' },
+          create: expect.objectContaining({ key: 'a', value: '{"n":1}' }),
+        }),
+      );
+      expect(prisma.cacheEntry.deleteMany).toHaveBeenCalledWith({ where: { expiresAt: { lte: expect.any(Date) } } });
+    });
+  });
+
+  describe('getCacheBackend', () => {
+    it('uses memory unless a shared backend is configured', () => {
+      delete process.env.CACHE_BACKEND;
+      expect(getCacheBackend().name).toBe('memory');
+
+      process.env.CACHE_BACKEND = 'd1';
+      expect(getCacheBackend().name).toBe('d1');
+    });
+
+    it('falls back to memory when the KV binding is missing', () => {
+      process.env.CACHE_BACKEND = 'kv';
+      expect(getCacheBackend().name).toBe('memory');
+
+      (getCloudflareContext as jest.Mock).mockReturnValueOnce({ env: { DB: {}, CACHE_KV: {} } });
+      expect(getCacheBackend().name).toBe('kv');
+    });
+
+    it('turns shared backend errors into misses', async () => {
+      process.env.CACHE_BACKEND = 'd1';
+      (prisma.cacheEntry.findUnique as jest.Mock).mockRejectedValueOnce(new Error('D1 unavailable'));
+      (prisma.cacheEntry.upsert as jest.Mock).mockRejectedValueOnce(new Error('D1 unavailable'));
+      const backend = getCacheBackend();
+
+      await expect(backend.get('a')).resolves.toBeNull();
+      await expect(backend.set('a', 1, 1000)).resolves.toBeUndefined();
+    });
+  });
+
+  describe('versioned keys', () => {
+    it('moves only the bumped tournament to a new generation', async () => {
+      const backend = createMemoryCacheBackend();
+      setCacheBackend(backend);
+      const before = await tournamentCacheKey('standings', 't1', ['qualification']);
+      const other = await tournamentCacheKey('standings', 't2', ['qualification']);
+      expect(before).toMatch(/^standings:t1:g[0-9a-z]+:qualification$/);
+      await backend.set(before, ['cached'], 60_000);
+
+      await bumpTournamentCacheGeneration('t1');
+
+      const after = await tournamentCacheKey('standings', 't1', ['qualification']);
+      expect(after).not.toBe(before);
+      expect(await backend.get(after)).toBeNull();
+      expect(await tournamentCacheKey('standings', 't2', ['qualification'])).toBe(other);
+    });
+  });
+});
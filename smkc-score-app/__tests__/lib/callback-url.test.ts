@@ -0,0 +1,20 @@
+import { DEFAULT_CALLBACK_URL, readCallbackUrl } from '@/lib/callback-url';
+
+describe('readCallbackUrl', () => {
+  it('returns a same-origin path', () => {
+    expect(readCallbackUrl('?callbackUrl=%2Ftournaments%2Fspring-cup%2Fregister')).toBe(
+      '/tournaments/spring-cup/register',
+    );
+  });
+
+  it('falls back when the parameter is missing', () => {
+    expect(readCallbackUrl('')).toBe(DEFAULT_CALLBACK_URL);
+    expect(readCallbackUrl('?other=1', '/profile')).toBe('/profile');
+  });
+
+  it('rejects absolute and protocol-relative URLs', () => {
+    expect(readCallbackUrl('?callbackUrl=https%3A%2F%2Fevil.example')).toBe(DEFAULT_CALLBACK_URL);
+    expect(readCallbackUrl('?callbackUrl=%2F%2Fevil.example')).toBe(DEFAULT_CALLBACK_URL);
+    expect(readCallbackUrl('?callbackUrl=%2F%5Cevil.example')).toBe(DEFAULT_CALLBACK_URL);
+  });
+});
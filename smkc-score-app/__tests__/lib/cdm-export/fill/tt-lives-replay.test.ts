@@ -24,10 +24,7 @@ import type {
 
 const warnMock = (createLogger('tt-lives-replay-test') as unknown as { warn: jest.Mock }).warn;
 
-function makeData(
-  ttEntries: CdmTTEntry[] = [],
-  ttPhaseRounds: CdmTTPhaseRound[] = [],
-): CdmTournamentData {
+function makeData(ttEntries: CdmTTEntry[] = [], ttPhaseRounds: CdmTTPhaseRound[] = []): CdmTournamentData {
   return {
     name: 'test',
     date: new Date('2025-01-01'),
@@ -42,11 +39,7 @@ function makeData(
   };
 }
 
-function makeQualEntry(
-  playerId: string,
-  rank: number,
-  totalTime = 60000,
-): CdmTTEntry {
+function makeQualEntry(playerId: string, rank: number, totalTime = 60000): CdmTTEntry {
   return {
     player: { id: playerId, name: playerId, nickname: playerId },
     playerId,
@@ -100,8 +93,12 @@ describe('replayTTFinals', () => {
     const entries = [makeQualEntry('p1', 1), makeQualEntry('p2', 2)];
     const rounds = [
       makePhaseRound(
-        'phase1', 1,
-        [{ playerId: 'p1', timeMs: 5000 }, { playerId: 'p2', timeMs: 6000 }],
+        'phase1',
+        1,
+        [
+          { playerId: 'p1', timeMs: 5000 },
+          { playerId: 'p2', timeMs: 6000 },
+        ],
         ['p2'],
       ),
     ];
@@ -118,18 +115,14 @@ describe('replayTTFinals', () => {
   it('TC-2559: phase3 — bottom half by time loses a life (Math.ceil split)', () => {
     // 4 runners: p1=5000, p2=6000, p3=7000, p4=8000
     // halfwayPoint = Math.ceil(4/2) = 2 → p3 and p4 lose a life
-    const entries = [
-      makeQualEntry('p1', 1), makeQualEntry('p2', 2),
-      makeQualEntry('p3', 3), makeQualEntry('p4', 4),
-    ];
+    const entries = [makeQualEntry('p1', 1), makeQualEntry('p2', 2), makeQualEntry('p3', 3), makeQualEntry('p4', 4)];
     const rounds = [
-      makePhaseRound(
-        'phase3', 1,
-        [
-          { playerId: 'p1', timeMs: 5000 }, { playerId: 'p2', timeMs: 6000 },
-          { playerId: 'p3', timeMs: 7000 }, { playerId: 'p4', timeMs: 8000 },
-        ],
-      ),
+      makePhaseRound('phase3', 1, [
+        { playerId: 'p1', timeMs: 5000 },
+        { playerId: 'p2', timeMs: 6000 },
+        { playerId: 'p3', timeMs: 7000 },
+        { playerId: 'p4', timeMs: 8000 },
+      ]),
     ];
     const result = replayTTFinals(makeData(entries, rounds));
 
@@ -145,10 +138,10 @@ describe('replayTTFinals', () => {
     // Players carry 1 life into phase3; PHASE3_INITIAL_LIVES(3) - 1 = 2 gain
     const entries = [makeQualEntry('p1', 1), makeQualEntry('p2', 2)];
     const rounds = [
-      makePhaseRound(
-        'phase3', 1,
-        [{ playerId: 'p1', timeMs: 5000 }, { playerId: 'p2', timeMs: 6000 }],
-      ),
+      makePhaseRound('phase3', 1, [
+        { playerId: 'p1', timeMs: 5000 },
+        { playerId: 'p2', timeMs: 6000 },
+      ]),
     ];
     const result = replayTTFinals(makeData(entries, rounds));
 
@@ -162,18 +155,14 @@ describe('replayTTFinals', () => {
     // Round 2 (livesReset=true): p3 and p4 again in bottom half, lose a life
     //   before reset: p3=2-1=1, p4=2-1=1 → both > 0 → reset to 3
     //   reset gain for p3 = 3-1 = 2, for p4 = 3-1 = 2
-    const entries = [
-      makeQualEntry('p1', 1), makeQualEntry('p2', 2),
-      makeQualEntry('p3', 3), makeQualEntry('p4', 4),
-    ];
+    const entries = [makeQualEntry('p1', 1), makeQualEntry('p2', 2), makeQualEntry('p3', 3), makeQualEntry('p4', 4)];
     const results4 = [
-      { playerId: 'p1', timeMs: 5000 }, { playerId: 'p2', timeMs: 6000 },
-      { playerId: 'p3', timeMs: 7000 }, { playerId: 'p4', timeMs: 8000 },
-    ];
-    const rounds = [
-      makePhaseRound('phase3', 1, results4, [], false),
-      makePhaseRound('phase3', 2, results4, [], true),
+      { playerId: 'p1', timeMs: 5000 },
+      { playerId: 'p2', timeMs: 6000 },
+      { playerId: 'p3', timeMs: 7000 },
+      { playerId: 'p4', timeMs: 8000 },
     ];
+    const rounds = [makePhaseRound('phase3', 1, results4, [], false), makePhaseRound('phase3', 2, results4, [], true)];
     const result = replayTTFinals(makeData(entries, rounds));
 
     const r2 = result[1];
@@ -194,9 +183,15 @@ describe('replayTTFinals', () => {
     // Provide entries in reverse rank order to verify ordering
     const entries = [makeQualEntry('p2', 2), makeQualEntry('p1', 1)];
     const rounds = [
-      makePhaseRound('phase1', 1, [
-        { playerId: 'p1', timeMs: 5000 }, { playerId: 'p2', timeMs: 6000 },
-      ], ['p2']),
+      makePhaseRound(
+        'phase1',
+        1,
+        [
+          { playerId: 'p1', timeMs: 5000 },
+          { playerId: 'p2', timeMs: 6000 },
+        ],
+        ['p2'],
+      ),
     ];
     const result = replayTTFinals(makeData(entries, rounds));
 
@@ -206,15 +201,18 @@ describe('replayTTFinals', () => {
   });
 
   it('TC-2563: round 1 inputRowOrder matches qualification universe order', () => {
-    const entries = [
-      makeQualEntry('p1', 1), makeQualEntry('p2', 2), makeQualEntry('p3', 3),
-    ];
+    const entries = [makeQualEntry('p1', 1), makeQualEntry('p2', 2), makeQualEntry('p3', 3)];
     const rounds = [
-      makePhaseRound('phase1', 1, [
-        { playerId: 'p1', timeMs: 5000 },
-        { playerId: 'p2', timeMs: 6000 },
-        { playerId: 'p3', timeMs: 7000 },
-      ], ['p3']),
+      makePhaseRound(
+        'phase1',
+        1,
+        [
+          { playerId: 'p1', timeMs: 5000 },
+          { playerId: 'p2', timeMs: 6000 },
+          { playerId: 'p3', timeMs: 7000 },
+        ],
+        ['p3'],
+      ),
     ];
     const result = replayTTFinals(makeData(entries, rounds));
 
@@ -242,10 +240,15 @@ describe('replayTTFinals', () => {
     //   p2 key=0, p1 key=-1 → sorted: p1 before p2 → ['p1','p2']
     const entries = [makeQualEntry('p1', 1), makeQualEntry('p2', 2)];
     const rounds = [
-      makePhaseRound('phase1', 1, [
-        { playerId: 'p1', timeMs: 6000 },
-        { playerId: 'p2', timeMs: 5000 },
-      ], ['p2']),
+      makePhaseRound(
+        'phase1',
+        1,
+        [
+          { playerId: 'p1', timeMs: 6000 },
+          { playerId: 'p2', timeMs: 5000 },
+        ],
+        ['p2'],
+      ),
       makePhaseRound('phase1', 2, [
         { playerId: 'p1', timeMs: 5000 },
         { playerId: 'p2', timeMs: 6000 },
@@ -285,31 +288,26 @@ describe('replayTTFinals', () => {
     ['undefined', undefined, null, false],
     ['null', null, null, false],
     ['zero', 0, 0, false],
-  ])(
-    'TC-2743: handles %s timeMs as expected',
-    (_label, timeMs, expectedTime, shouldWarn) => {
-      const playerId = 'p1';
-      const entries = [makeQualEntry(playerId, 1)];
-      const results = [{ playerId, timeMs }] as unknown as Array<{
-        playerId: string;
-        timeMs: number | null;
-      }>;
-
-      const [round] = replayTTFinals(
-        makeData(entries, [makePhaseRound('phase1', 1, results)]),
+  ])('TC-2743: handles %s timeMs as expected', (_label, timeMs, expectedTime, shouldWarn) => {
+    const playerId = 'p1';
+    const entries = [makeQualEntry(playerId, 1)];
+    const results = [{ playerId, timeMs }] as unknown as Array<{
+      playerId: string;
+      timeMs: number | null;
+    }>;
+
+    const [round] = replayTTFinals(makeData(entries, [makePhaseRound('phase1', 1, results)]));
+
+    expect(round.participants.get(playerId)).toBe(expectedTime);
+    if (shouldWarn) {
+      expect(warnMock).toHaveBeenCalledTimes(1);
+      expect(warnMock).toHaveBeenCalledWith(
+        `TT Finals phase1 round 1: invalid timeMs for player ${playerId}; treating as missing time`,
       );
-
-      expect(round.participants.get(playerId)).toBe(expectedTime);
-      if (shouldWarn) {
-        expect(warnMock).toHaveBeenCalledTimes(1);
-        expect(warnMock).toHaveBeenCalledWith(
-          `TT Finals phase1 round 1: invalid timeMs for player ${playerId}; treating as missing time`,
-        );
-      } else {
-        expect(warnMock).not.toHaveBeenCalled();
-      }
-    },
-  );
+    } else {
+      expect(warnMock).not.toHaveBeenCalled();
+    }
+  });
 
   it('TC-3004: phase3 bronze race — displayRowOrder stays raw-time order (template limitation), lostLife membership is unaffected either way', () => {
     // Manually-tested ASMKC 2025 replica report: the bronze-race LOSER
@@ -330,19 +328,25 @@ describe('replayTTFinals', () => {
     // this replay can fix without a materially different, riskier design
     // (e.g. writing a synthetic/nudged Time value, which would also affect
     // any other formula reading that same cell).
-    const entries = [
-      makeQualEntry('p1', 1), makeQualEntry('p2', 2),
-      makeQualEntry('p3', 3), makeQualEntry('p4', 4),
-    ];
+    const entries = [makeQualEntry('p1', 1), makeQualEntry('p2', 2), makeQualEntry('p3', 3), makeQualEntry('p4', 4)];
     const rounds = [
       makePhaseRound(
-        'phase3', 1,
+        'phase3',
+        1,
         [
-          { playerId: 'p1', timeMs: 5000 }, { playerId: 'p2', timeMs: 6000 },
-          { playerId: 'p3', timeMs: 7000 }, { playerId: 'p4', timeMs: 8000 },
+          { playerId: 'p1', timeMs: 5000 },
+          { playerId: 'p2', timeMs: 6000 },
+          { playerId: 'p3', timeMs: 7000 },
+          { playerId: 'p4', timeMs: 8000 },
+        ],
+        [],
+        false,
+        [
+          makeSuddenDeath(1, [
+            { playerId: 'p3', timeMs: 9000 },
+            { playerId: 'p4', timeMs: 8500 },
+          ]),
         ],
-        [], false,
-        [makeSuddenDeath(1, [{ playerId: 'p3', timeMs: 9000 }, { playerId: 'p4', timeMs: 8500 }])],
       ),
     ];
     const result = replayTTFinals(makeData(entries, rounds));
@@ -365,19 +369,33 @@ describe('replayTTFinals', () => {
     // ID-keyed fix (lostLife is a Set, not a row position) with no row-
     // alignment risk, unlike displayRowOrder (see TC-3004).
     const entries = [
-      makeQualEntry('p1', 1), makeQualEntry('p2', 2), makeQualEntry('p3', 3),
-      makeQualEntry('p4', 4), makeQualEntry('p5', 5), makeQualEntry('p6', 6),
+      makeQualEntry('p1', 1),
+      makeQualEntry('p2', 2),
+      makeQualEntry('p3', 3),
+      makeQualEntry('p4', 4),
+      makeQualEntry('p5', 5),
+      makeQualEntry('p6', 6),
     ];
     const rounds = [
       makePhaseRound(
-        'phase3', 1,
+        'phase3',
+        1,
+        [
+          { playerId: 'p1', timeMs: 1000 },
+          { playerId: 'p2', timeMs: 2000 },
+          { playerId: 'p3', timeMs: 4000 },
+          { playerId: 'p4', timeMs: 4000 },
+          { playerId: 'p5', timeMs: 5000 },
+          { playerId: 'p6', timeMs: 6000 },
+        ],
+        [],
+        false,
         [
-          { playerId: 'p1', timeMs: 1000 }, { playerId: 'p2', timeMs: 2000 },
-          { playerId: 'p3', timeMs: 4000 }, { playerId: 'p4', timeMs: 4000 },
-          { playerId: 'p5', timeMs: 5000 }, { playerId: 'p6', timeMs: 6000 },
+          makeSuddenDeath(1, [
+            { playerId: 'p3', timeMs: 9500 },
+            { playerId: 'p4', timeMs: 9000 },
+          ]),
         ],
-        [], false,
-        [makeSuddenDeath(1, [{ playerId: 'p3', timeMs: 9500 }, { playerId: 'p4', timeMs: 9000 }])],
       ),
     ];
     const result = replayTTFinals(makeData(entries, rounds));
@@ -390,4 +408,33 @@ describe('replayTTFinals', () => {
     // the sudden-death-resolved order).
     expect(result[0].displayRowOrder).toEqual(['p1', 'p2', 'p3', 'p4', 'p5', 'p6']);
   });
+
+  it('phase3 follows the tournament rule set: entry top-up to its lives and multi-life losses as negative Gain', () => {
+    const entries = [makeQualEntry('p1', 1), makeQualEntry('p2', 2)];
+    const results = [
+      { playerId: 'p1', timeMs: 5000 },
+      { playerId: 'p2', timeMs: 6000 },
+    ];
+    const data = {
+      ...makeData(entries, [
+        makePhaseRound('phase3', 1, results),
+        { ...makePhaseRound('phase3', 2, results), lifeLoss: 1 },
+      ]),
+      taFinalsRules: {
+        phase1: { qualRankStart: 9, qualRankEnd: 12, survivorsNeeded: 2 },
+        phase2: { qualRankStart: 7, qualRankEnd: 8, survivorsNeeded: 2 },
+        phase3: { qualRankStart: 1, qualRankEnd: 6, initialLives: 5, lifeLoss: 2, lifeResetThresholds: [] },
+      },
+    };
+    const result = replayTTFinals(data);
+
+    // Round 1 uses the rule set's loss of 2: Lost stays a 0/1 flag, the second life is booked as Gain -1.
+    expect(result[0].gains.get('p1')).toBe(4);
+    expect(result[0].gains.get('p2')).toBe(3);
+    expect(result[0].lostLife.has('p2')).toBe(true);
+    expect(result[0].livesAfter.get('p2')).toBe(3);
+    // Round 2 stored its own lifeLoss of 1, which wins over the rule set.
+    expect(result[1].gains.get('p2')).toBeUndefined();
+    expect(result[1].livesAfter.get('p2')).toBe(2);
+  });
 });
@@ -0,0 +1,26 @@
+import { digestJson } from '@/lib/digest';
+
+describe('digestJson', () => {
+  it('returns the same SHA-256 hex for equal values', async () => {
+    const digest = await digestJson(['merge', 'p1', 'p2', 3]);
+
+    expect(digest).toMatch(/^[0-9a-f]{64}$/);
+    expect(await digestJson(['merge', 'p1', 'p2', 3])).toBe(digest);
+    expect(await digestJson(['merge', 'p2', 'p1', 3])).not.toBe(digest);
+  });
+
+  it('falls back to a stable 64-character hash without Web Crypto', async () => {
+    const subtle = Object.getOwnPropertyDescriptor(globalThis.crypto, 'subtle');
+    Object.defineProperty(globalThis.crypto, 'subtle', { value: undefined, configurable: true });
+    try {
+      const digest = await digestJson({ nickname: 'アリス' });
+
+      expect(digest).toMatch(/^[0-9a-f]{64}$/);
+      expect(await digestJson({ nickname: 'アリス' })).toBe(digest);
+      expect(await digestJson({ nickname: 'アリサ' })).not.toBe(digest);
+    } finally {
+      if (subtle) Object.defineProperty(globalThis.crypto, 'subtle', subtle);
+      else delete (globalThis.crypto as { subtle?: SubtleCrypto }).subtle;
+    }
+  });
+});
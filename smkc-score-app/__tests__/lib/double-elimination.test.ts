@@ -24,11 +24,16 @@
 // Test for double elimination bracket generation logic
 import { describe, it, expect } from '@jest/globals';
 import {
+  FINALS_BRACKET_SIZES,
   generateBracketStructure,
   generatePlayoffStructure,
+  getFinalsBracketSizeForMatchCount,
+  getLosersRoundPlacements,
   getNextMatchInfo,
+  inferFinalsBracketSizeFromRows,
   roundNames,
 } from '@/lib/double-elimination';
+import type { BracketMatch } from '@/types/bracket';
 
 describe('Double Elimination Bracket Structure', () => {
   describe('generateBracketStructure', () => {
@@ -52,9 +57,9 @@ describe('Double Elimination Bracket Structure', () => {
     });
 
     it('should throw error for unsupported player counts', () => {
-      expect(() => generateBracketStructure(4)).toThrow('Only 8-player and 16-player brackets are supported');
-      expect(() => generateBracketStructure(0)).toThrow('Only 8-player and 16-player brackets are supported');
-      expect(() => generateBracketStructure(12)).toThrow('Only 8-player and 16-player brackets are supported');
+      expect(() => generateBracketStructure(6)).toThrow('Unsupported bracket size 6');
+      expect(() => generateBracketStructure(0)).toThrow('Unsupported bracket size 0');
+      expect(() => generateBracketStructure(20)).toThrow('Unsupported bracket size 20');
     });
 
     it('should generate 31 matches for 16 players', () => {
@@ -450,6 +455,165 @@ describe('Double Elimination Bracket Structure', () => {
     });
   });
 
+  describe('configurable bracket sizes', () => {
+    /* Every non-seeded slot must be fed by exactly one routing edge. */
+    const incomingSlots = (structure: BracketMatch[]) => {
+      const slots = new Map<string, number>();
+      const add = (matchNumber: number | undefined, position: number | undefined) => {
+        if (!matchNumber) return;
+        const key = `${matchNumber}-${position ?? 1}`;
+        slots.set(key, (slots.get(key) ?? 0) + 1);
+      };
+      for (const match of structure) {
+        if (match.player1Seed) add(match.matchNumber, 1);
+        if (match.player2Seed) add(match.matchNumber, 2);
+        add(match.winnerGoesTo, match.position);
+        add(match.loserGoesTo, match.loserPosition);
+      }
+      return slots;
+    };
+
+    it.each([
+      [4, 7],
+      [12, 23],
+      [24, 47],
+      [32, 63],
+    ])('builds a %i-player bracket with %i matches', (size, matchCount) => {
+      const structure = generateBracketStructure(size);
+      expect(structure).toHaveLength(matchCount);
+      expect(structure.map((m) => m.matchNumber)).toEqual(Array.from({ length: matchCount }, (_, i) => i + 1));
+    });
+
+    it.each(FINALS_BRACKET_SIZES.filter((size) => size !== 8))(
+      'fills every non-Grand-Final slot of the %i-player bracket exactly once',
+      (size) => {
+        const structure = generateBracketStructure(size);
+        const slots = incomingSlots(structure);
+        for (const match of structure) {
+          if (match.round === 'grand_final_reset') continue;
+          expect([slots.get(`${match.matchNumber}-1`), slots.get(`${match.matchNumber}-2`)]).toEqual([1, 1]);
+        }
+        const seeds = structure.flatMap((m) => [m.player1Seed, m.player2Seed]).filter((seed) => seed != null);
+        expect(seeds.sort((a, b) => a - b)).toEqual(Array.from({ length: size }, (_, i) => i + 1));
+      },
+    );
+
+    it('uses the standard seed order for 32 players', () => {
+      const r1 = generateBracketStructure(32).filter((m) => m.round === 'winners_r1');
+      expect(r1.slice(0, 4).map((m) => [m.player1Seed, m.player2Seed])).toEqual([
+        [1, 32],
+        [16, 17],
+        [8, 25],
+        [9, 24],
+      ]);
+      expect(new Set(generateBracketStructure(32).map((m) => m.round))).toEqual(
+        new Set([
+          'winners_r1',
+          'winners_r2',
+          'winners_qf',
+          'winners_sf',
+          'winners_final',
+          'losers_r1',
+          'losers_r2',
+          'losers_r3',
+          'losers_r4',
+          'losers_r5',
+          'losers_r6',
+          'losers_sf',
+          'losers_final',
+          'grand_final',
+          'grand_final_reset',
+        ]),
+      );
+    });
+
+    it('wires a 4-player bracket straight into the semi finals', () => {
+      expect(generateBracketStructure(4)).toEqual([
+        expect.objectContaining({
+          matchNumber: 1,
+          round: 'winners_sf',
+          player1Seed: 1,
+          player2Seed: 4,
+          loserGoesTo: 4,
+        }),
+        expect.objectContaining({
+          matchNumber: 2,
+          round: 'winners_sf',
+          player1Seed: 2,
+          player2Seed: 3,
+          loserGoesTo: 4,
+        }),
+        expect.objectContaining({ matchNumber: 3, round: 'winners_final', winnerGoesTo: 6, loserGoesTo: 5 }),
+        expect.objectContaining({ matchNumber: 4, round: 'losers_sf', winnerGoesTo: 5, position: 2 }),
+        expect.objectContaining({ matchNumber: 5, round: 'losers_final', winnerGoesTo: 6, position: 2 }),
+        expect.objectContaining({ matchNumber: 6, round: 'grand_final' }),
+        expect.objectContaining({ matchNumber: 7, round: 'grand_final_reset' }),
+      ]);
+    });
+
+    it('gives the top four seeds of a 12-player bracket a Round-1 bye', () => {
+      const structure = generateBracketStructure(12);
+      const r1 = structure.filter((m) => m.round === 'winners_r1');
+      const qf = structure.filter((m) => m.round === 'winners_qf');
+
+      expect(r1.map((m) => [m.player1Seed, m.player2Seed])).toEqual([
+        [8, 9],
+        [5, 12],
+        [7, 10],
+        [6, 11],
+      ]);
+      expect(qf.map((m) => m.player1Seed)).toEqual([1, 4, 2, 3]);
+      expect(r1.map((m) => m.winnerGoesTo)).toEqual(qf.map((m) => m.matchNumber));
+    });
+
+    it('routes 12-player Round-1 losers straight into Losers R2', () => {
+      const structure = generateBracketStructure(12);
+      const losersR2 = structure.filter((m) => m.round === 'losers_r2').map((m) => m.matchNumber);
+
+      expect(structure.some((m) => m.round === 'losers_r1')).toBe(false);
+      for (const match of structure.filter((m) => m.round === 'winners_r1')) {
+        expect(losersR2).toContain(match.loserGoesTo);
+        expect(match.loserPosition).toBe(2);
+      }
+    });
+
+    it('recognises each size from its match count', () => {
+      for (const size of FINALS_BRACKET_SIZES) {
+        expect(getFinalsBracketSizeForMatchCount(generateBracketStructure(size).length)).toBe(size);
+      }
+      expect(getFinalsBracketSizeForMatchCount(0)).toBeNull();
+      expect(getFinalsBracketSizeForMatchCount(20)).toBeNull();
+    });
+
+    it('recognises a bracket from a subset of its rows', () => {
+      expect(inferFinalsBracketSizeFromRows([{ matchNumber: 16, round: 'grand_final' }])).toBe(8);
+      expect(inferFinalsBracketSizeFromRows([{ matchNumber: 30, round: 'grand_final' }])).toBe(16);
+      expect(inferFinalsBracketSizeFromRows([{ matchNumber: 22, round: 'grand_final' }])).toBe(12);
+      expect(inferFinalsBracketSizeFromRows([{ matchNumber: 40, round: 'losers_r2' }])).toBe(32);
+      expect(inferFinalsBracketSizeFromRows([{ matchNumber: 3, round: 'losers_r9' }])).toBeNull();
+    });
+
+    it('places Losers-round eliminations below every later elimination', () => {
+      expect(Object.fromEntries(getLosersRoundPlacements(8))).toEqual({
+        losers_final: 3,
+        losers_sf: 4,
+        losers_r3: 5,
+        losers_r2: 7,
+        losers_r1: 9,
+      });
+      expect(Object.fromEntries(getLosersRoundPlacements(16))).toEqual({
+        losers_final: 3,
+        losers_sf: 4,
+        losers_r4: 5,
+        losers_r3: 7,
+        losers_r2: 9,
+        losers_r1: 13,
+      });
+      expect(getLosersRoundPlacements(12).get('losers_r2')).toBe(9);
+      expect(getLosersRoundPlacements(32).get('losers_r1')).toBe(25);
+    });
+  });
+
   /**
    * Pre-Bracket Playoff (a.k.a. "barrage") — Top 24 → Top 16.
    *
@@ -692,6 +856,9 @@ describe('Double Elimination Bracket Structure', () => {
         'losers_final',
         'grand_final',
         'grand_final_reset',
+        'winners_r2',
+        'losers_r5',
+        'losers_r6',
       ];
 
       expectedRounds.forEach((round) => {
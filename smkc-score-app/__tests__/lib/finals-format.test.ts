@@ -0,0 +1,144 @@
+/**
+ * @module __tests__/lib/finals-format.test.ts
+ *
+ * Test suite for the finals formats (finals-format.ts):
+ * - generateSingleEliminationStructure(): seeding, routing and the optional
+ *   third-place match.
+ * - generateRoundRobinFinalsStructure(): every pairing exactly once.
+ * - inferFinalsStructure(): recognising format and size from persisted rows.
+ * - getSingleEliminationPlacements() / getRoundRobinFinalsStandings():
+ *   placements used for finals points.
+ */
+import { describe, it, expect } from '@jest/globals';
+import {
+  generateRoundRobinFinalsStructure,
+  generateSingleEliminationStructure,
+  getFinalsEntrantCount,
+  getFinalsFormatFromRound,
+  getRoundRobinFinalsStandings,
+  getSingleEliminationPlacements,
+  inferFinalsStructure,
+  isSupportedFinalsSize,
+} from '@/lib/finals-format';
+
+describe('Finals formats', () => {
+  describe('generateSingleEliminationStructure', () => {
+    it('builds an 8-player bracket with standard seeding and routing', () => {
+      const structure = generateSingleEliminationStructure(8);
+
+      expect(structure).toHaveLength(7);
+      expect(structure.filter((m) => m.round === 'single_qf').map((m) => [m.player1Seed, m.player2Seed])).toEqual([
+        [1, 8],
+        [4, 5],
+        [2, 7],
+        [3, 6],
+      ]);
+      expect(structure.find((m) => m.matchNumber === 1)).toMatchObject({ winnerGoesTo: 5, position: 1 });
+      expect(structure.find((m) => m.matchNumber === 4)).toMatchObject({ winnerGoesTo: 6, position: 2 });
+      expect(structure.find((m) => m.matchNumber === 7)).toMatchObject({ round: 'single_final', bracket: 'winners' });
+      expect(structure.some((m) => m.loserGoesTo)).toBe(false);
+    });
+
+    it('numbers the third-place match before the final and routes Semi Final losers into it', () => {
+      const structure = generateSingleEliminationStructure(4, { thirdPlace: true });
+
+      expect(structure.map((m) => m.round)).toEqual(['single_sf', 'single_sf', 'single_third_place', 'single_final']);
+      expect(structure[0]).toMatchObject({ winnerGoesTo: 4, position: 1, loserGoesTo: 3, loserPosition: 1 });
+      expect(structure[1]).toMatchObject({ winnerGoesTo: 4, position: 2, loserGoesTo: 3, loserPosition: 2 });
+      expect(structure[2].bracket).toBe('third_place');
+    });
+
+    it('names rounds before the Quarter Finals by number', () => {
+      const rounds = new Set(generateSingleEliminationStructure(32).map((m) => m.round));
+      expect([...rounds]).toEqual(['single_r1', 'single_r2', 'single_qf', 'single_sf', 'single_final']);
+    });
+
+    it('rejects sizes that would need byes', () => {
+      expect(() => generateSingleEliminationStructure(12)).toThrow('Unsupported single elimination size 12');
+    });
+  });
+
+  describe('generateRoundRobinFinalsStructure', () => {
+    it.each([3, 4, 5, 8])('pairs every entrant once in a %i-player pool', (size) => {
+      const structure = generateRoundRobinFinalsStructure(size);
+      const pairs = structure.map((m) => [m.player1Seed, m.player2Seed].sort().join('-'));
+
+      expect(structure).toHaveLength((size * (size - 1)) / 2);
+      expect(new Set(pairs).size).toBe(structure.length);
+      expect(structure.every((m) => m.bracket === 'round_robin' && /^round_robin_r\d+$/.test(m.round))).toBe(true);
+      expect(getFinalsEntrantCount(structure)).toBe(size);
+    });
+
+    it('rejects pools larger than a finals day allows', () => {
+      expect(isSupportedFinalsSize('round_robin', 9)).toBe(false);
+      expect(() => generateRoundRobinFinalsStructure(9)).toThrow('Unsupported round-robin finals size 9');
+    });
+  });
+
+  describe('inferFinalsStructure', () => {
+    it('recognises the format from round names', () => {
+      expect(getFinalsFormatFromRound('single_qf')).toBe('single_elimination');
+      expect(getFinalsFormatFromRound('round_robin_r2')).toBe('round_robin');
+      expect(getFinalsFormatFromRound('winners_qf')).toBe('double_elimination');
+      expect(getFinalsFormatFromRound(null)).toBe('double_elimination');
+    });
+
+    it('recovers single-elimination size and third-place match from the match count', () => {
+      expect(inferFinalsStructure('single_final', 7)).toEqual(generateSingleEliminationStructure(8));
+      expect(inferFinalsStructure('single_final', 8)).toEqual(
+        generateSingleEliminationStructure(8, { thirdPlace: true }),
+      );
+    });
+
+    it('recovers the round-robin pool size from the match count', () => {
+      expect(getFinalsEntrantCount(inferFinalsStructure('round_robin_r1', 10))).toBe(5);
+    });
+
+    it('returns an empty structure for an unrecognisable count', () => {
+      expect(inferFinalsStructure('single_final', 5)).toEqual([]);
+    });
+
+    it('keeps double-elimination inference by match count', () => {
+      expect(inferFinalsStructure('winners_qf', 17)).toHaveLength(17);
+    });
+  });
+
+  describe('getSingleEliminationPlacements', () => {
+    it('places each round loser below everyone still in the bracket', () => {
+      expect(Object.fromEntries(getSingleEliminationPlacements(16))).toEqual({
+        single_r1: 9,
+        single_qf: 5,
+        single_sf: 3,
+        single_final: 2,
+      });
+    });
+  });
+
+  describe('getRoundRobinFinalsStandings', () => {
+    const result = (player1Id: string, player2Id: string, score1: number, score2: number) => ({
+      player1Id,
+      player2Id,
+      winnerId: score1 > score2 ? player1Id : player2Id,
+      score1,
+      score2,
+    });
+
+    it('ranks by wins, then score difference', () => {
+      const standings = getRoundRobinFinalsStandings(
+        [result('a', 'b', 5, 0), result('a', 'c', 2, 5), result('b', 'c', 5, 4)],
+        ['a', 'b', 'c'],
+      );
+
+      /* Everyone has one win; a is +2, c is +2, b is -4. a keeps the better seed. */
+      expect(standings.map((row) => [row.playerId, row.wins, row.scoreDifference, row.position])).toEqual([
+        ['a', 1, 2, 1],
+        ['c', 1, 2, 2],
+        ['b', 1, -4, 3],
+      ]);
+    });
+
+    it('lists entrants without results in seed order', () => {
+      expect(getRoundRobinFinalsStandings([], ['x', 'y']).map((row) => row.playerId)).toEqual(['x', 'y']);
+    });
+  });
+});
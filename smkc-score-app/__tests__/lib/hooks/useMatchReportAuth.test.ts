@@ -15,9 +15,11 @@
  * - Unauthenticated: cannot report
  * - Auto-select: player identity auto-selected for participants
  * - Session loading: isSessionLoading flag prevents flash
+ * - QR report token: grants and preselects one side without a session
  */
 import { renderHook, act } from '@testing-library/react';
 import { useMatchReportAuth } from '@/lib/hooks/useMatchReportAuth';
+import { createMatchReportToken, MATCH_REPORT_TOKEN_HEADER } from '@/lib/match-report-token';
 
 /* Mock next-auth/react */
 const mockUseSession = jest.fn();
@@ -26,6 +28,7 @@ jest.mock('next-auth/react', () => ({
 }));
 
 const MATCH = {
+  id: 'match-1',
   player1Id: 'player-1-id',
   player2Id: 'player-2-id',
 };
@@ -178,4 +181,41 @@ describe('useMatchReportAuth', () => {
       expect(result.current.selectedPlayer).toBe(2);
     });
   });
+
+  describe('QR report token', () => {
+    const tokenFor = (claims = {}) =>
+      createMatchReportToken(
+        {
+          tournamentId: 't1',
+          matchId: 'match-1',
+          playerId: 'player-2-id',
+          side: 2,
+          exp: Math.floor(Date.now() / 1000) + 600,
+          ...claims,
+        },
+        'secret',
+      );
+
+    beforeEach(() => {
+      mockUseSession.mockReturnValue({ data: null, status: 'unauthenticated' });
+    });
+
+    it('lets a signed-out holder report for the token side and sends the token along', async () => {
+      const token = await tokenFor();
+
+      const { result } = renderHook(() => useMatchReportAuth(MATCH, token));
+      expect(result.current.canReport).toBe(true);
+      expect(result.current.tokenSide).toBe(2);
+      expect(result.current.selectedPlayer).toBe(2);
+      expect(result.current.reportHeaders).toEqual({ [MATCH_REPORT_TOKEN_HEADER]: token });
+    });
+
+    it('ignores a token for another match', async () => {
+      const token = await tokenFor({ matchId: 'match-2' });
+
+      const { result } = renderHook(() => useMatchReportAuth(MATCH, token));
+      expect(result.current.canReport).toBe(false);
+      expect(result.current.reportHeaders).toEqual({});
+    });
+  });
 });
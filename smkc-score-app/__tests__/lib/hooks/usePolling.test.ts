@@ -22,9 +22,12 @@
  *   isMounted flag reset
  * - Edge cases: multiple independent hook instances, fetch function changes via rerender,
  *   fast unmount during pending fetch, concurrent refetch calls
+ * - Event stream: refetch on `change`, regular interval kept while open and after
+ *   errors, closing the stream on unmount
  */
 import { renderHook, waitFor, act } from '@testing-library/react';
 import { usePolling, clearPollingCache } from '@/lib/hooks/usePolling';
+import { STREAM_POLLING_INTERVAL } from '@/lib/constants';
 
 describe('usePolling', () => {
   beforeEach(() => {
@@ -122,8 +125,8 @@ describe('usePolling', () => {
       const mockFetch = jest.fn().mockResolvedValue({
         ...mockData,
         headers: {
-          get: (name: string) => name === 'etag' ? mockETag : null
-        }
+          get: (name: string) => (name === 'etag' ? mockETag : null),
+        },
       });
 
       const { result } = await act(async () => {
@@ -167,8 +170,8 @@ describe('usePolling', () => {
       const mockFetch = jest.fn().mockResolvedValue({
         ...mockData,
         headers: {
-          get: (name: string) => name === 'etag' ? mockETag : null
-        }
+          get: (name: string) => (name === 'etag' ? mockETag : null),
+        },
       });
 
       const { result } = await act(async () => {
@@ -299,9 +302,7 @@ describe('usePolling', () => {
       const mockError = new Error('Initial error');
       const mockData = { id: 1 };
 
-      const mockFetch = jest.fn()
-        .mockRejectedValueOnce(mockError)
-        .mockResolvedValueOnce(mockData);
+      const mockFetch = jest.fn().mockRejectedValueOnce(mockError).mockResolvedValueOnce(mockData);
 
       const { result } = await act(async () => {
         return renderHook(() => usePolling(mockFetch));
@@ -336,10 +337,9 @@ describe('usePolling', () => {
 
     it('should start polling when enabled changes from false to true', async () => {
       const mockFetch = jest.fn().mockResolvedValue({ id: 1 });
-      const { rerender } = renderHook(
-        ({ enabled }) => usePolling(mockFetch, { enabled }),
-        { initialProps: { enabled: false } }
-      );
+      const { rerender } = renderHook(({ enabled }) => usePolling(mockFetch, { enabled }), {
+        initialProps: { enabled: false },
+      });
 
       expect(mockFetch).not.toHaveBeenCalled();
 
@@ -352,10 +352,9 @@ describe('usePolling', () => {
 
     it('should stop polling when enabled changes from true to false', async () => {
       const mockFetch = jest.fn().mockResolvedValue({ id: 1 });
-      const { rerender } = renderHook(
-        ({ enabled }) => usePolling(mockFetch, { enabled }),
-        { initialProps: { enabled: true } }
-      );
+      const { rerender } = renderHook(({ enabled }) => usePolling(mockFetch, { enabled }), {
+        initialProps: { enabled: true },
+      });
 
       await waitFor(() => {
         expect(mockFetch).toHaveBeenCalledTimes(1);
@@ -441,9 +440,7 @@ describe('usePolling', () => {
       const mockData1 = { id: 1, version: 1 };
       const mockData2 = { id: 1, version: 2 };
 
-      const mockFetch = jest.fn()
-        .mockResolvedValueOnce(mockData1)
-        .mockResolvedValueOnce(mockData2);
+      const mockFetch = jest.fn().mockResolvedValueOnce(mockData1).mockResolvedValueOnce(mockData2);
 
       const { result } = await act(async () => {
         return renderHook(() => usePolling(mockFetch));
@@ -536,10 +533,7 @@ describe('usePolling', () => {
       const mockFetch2 = jest.fn().mockResolvedValue({ id: 2 });
 
       const { result, rerender } = await act(async () => {
-        return renderHook(
-          ({ fetchFn }) => usePolling(fetchFn),
-          { initialProps: { fetchFn: mockFetch1 } }
-        );
+        return renderHook(({ fetchFn }) => usePolling(fetchFn), { initialProps: { fetchFn: mockFetch1 } });
       });
 
       await waitFor(() => {
@@ -558,9 +552,9 @@ describe('usePolling', () => {
     });
 
     it('should handle fast unmount during fetch', async () => {
-      const mockFetch = jest.fn().mockImplementation(
-        () => new Promise(resolve => setTimeout(() => resolve({ id: 1 }), 100))
-      );
+      const mockFetch = jest
+        .fn()
+        .mockImplementation(() => new Promise((resolve) => setTimeout(() => resolve({ id: 1 }), 100)));
       const { unmount } = await act(async () => {
         return renderHook(() => usePolling(mockFetch));
       });
@@ -612,9 +606,7 @@ describe('usePolling', () => {
 
     it('should initialize data as null when cacheKey has no cached value', async () => {
       const mockFetch = jest.fn().mockResolvedValue({ id: 1 });
-      const { result } = renderHook(() =>
-        usePolling(mockFetch, { immediate: false, cacheKey: 'test/uncached' })
-      );
+      const { result } = renderHook(() => usePolling(mockFetch, { immediate: false, cacheKey: 'test/uncached' }));
 
       expect(result.current.data).toBeNull();
     });
@@ -637,9 +629,7 @@ describe('usePolling', () => {
       unmount();
 
       /* Second mount: should initialize from cache */
-      const { result: result2 } = renderHook(() =>
-        usePolling(mockFetch, { immediate: false, cacheKey })
-      );
+      const { result: result2 } = renderHook(() => usePolling(mockFetch, { immediate: false, cacheKey }));
 
       /* Data should be available immediately from cache */
       expect(result2.current.data).toEqual(mockData);
@@ -664,15 +654,11 @@ describe('usePolling', () => {
       unmount2();
 
       /* Remount with key1 - should get key1's data */
-      const { result: r1 } = renderHook(() =>
-        usePolling(mockFetch1, { immediate: false, cacheKey: 'key1' })
-      );
+      const { result: r1 } = renderHook(() => usePolling(mockFetch1, { immediate: false, cacheKey: 'key1' }));
       expect(r1.current.data).toEqual(mockData1);
 
       /* Remount with key2 - should get key2's data */
-      const { result: r2 } = renderHook(() =>
-        usePolling(mockFetch2, { immediate: false, cacheKey: 'key2' })
-      );
+      const { result: r2 } = renderHook(() => usePolling(mockFetch2, { immediate: false, cacheKey: 'key2' }));
       expect(r2.current.data).toEqual(mockData2);
     });
 
@@ -704,9 +690,7 @@ describe('usePolling', () => {
       unmount();
 
       /* Remount: should get v2 from cache */
-      const { result: result2 } = renderHook(() =>
-        usePolling(mockFetch, { immediate: false, cacheKey })
-      );
+      const { result: result2 } = renderHook(() => usePolling(mockFetch, { immediate: false, cacheKey }));
       expect(result2.current.data).toEqual(mockData2);
     });
 
@@ -725,9 +709,7 @@ describe('usePolling', () => {
       clearPollingCache();
 
       /* Remount: should have null data (cache cleared) */
-      const { result } = renderHook(() =>
-        usePolling(mockFetch, { immediate: false, cacheKey })
-      );
+      const { result } = renderHook(() => usePolling(mockFetch, { immediate: false, cacheKey }));
       expect(result.current.data).toBeNull();
     });
 
@@ -742,9 +724,7 @@ describe('usePolling', () => {
       for (let i = 0; i < 21; i++) {
         const mockFetch = jest.fn().mockResolvedValue({ id: i });
         const { unmount } = await act(async () => {
-          return renderHook(() =>
-            usePolling(mockFetch, { cacheKey: `evict/key-${i}` })
-          );
+          return renderHook(() => usePolling(mockFetch, { cacheKey: `evict/key-${i}` }));
         });
         hooks.push({ unmount });
       }
@@ -757,7 +737,7 @@ describe('usePolling', () => {
         usePolling(jest.fn().mockResolvedValue(null), {
           immediate: false,
           cacheKey: 'evict/key-0',
-        })
+        }),
       );
       expect(evictedResult.current.data).toBeNull();
 
@@ -766,7 +746,7 @@ describe('usePolling', () => {
         usePolling(jest.fn().mockResolvedValue(null), {
           immediate: false,
           cacheKey: 'evict/key-20',
-        })
+        }),
       );
       expect(retainedResult.current.data).toEqual({ id: 20 });
     });
@@ -801,7 +781,7 @@ describe('usePolling', () => {
         usePolling(jest.fn().mockResolvedValue(null), {
           immediate: false,
           cacheKey,
-        })
+        }),
       );
 
       /* Expired entries return undefined from getCacheEntry,
@@ -833,9 +813,7 @@ describe('usePolling', () => {
       for (let i = 0; i < 15; i++) {
         const mockFetch = jest.fn().mockResolvedValue({ id: i });
         const { unmount } = await act(async () => {
-          return renderHook(() =>
-            usePolling(mockFetch, { cacheKey: `${cacheKeyPrefix}${i}` })
-          );
+          return renderHook(() => usePolling(mockFetch, { cacheKey: `${cacheKeyPrefix}${i}` }));
         });
         hooks.push({ unmount });
       }
@@ -850,9 +828,7 @@ describe('usePolling', () => {
       for (let i = 15; i < 25; i++) {
         const mockFetch = jest.fn().mockResolvedValue({ id: i });
         const { unmount } = await act(async () => {
-          return renderHook(() =>
-            usePolling(mockFetch, { cacheKey: `${cacheKeyPrefix}${i}` })
-          );
+          return renderHook(() => usePolling(mockFetch, { cacheKey: `${cacheKeyPrefix}${i}` }));
         });
         hooks.push({ unmount });
       }
@@ -868,7 +844,7 @@ describe('usePolling', () => {
         usePolling(jest.fn().mockResolvedValue(null), {
           immediate: false,
           cacheKey: `${cacheKeyPrefix}0`,
-        })
+        }),
       );
       expect(evictedResult.current.data).toBeNull();
 
@@ -877,7 +853,7 @@ describe('usePolling', () => {
         usePolling(jest.fn().mockResolvedValue(null), {
           immediate: false,
           cacheKey: `${cacheKeyPrefix}24`,
-        })
+        }),
       );
       expect(retainedResult.current.data).toEqual({ id: 24 });
     });
@@ -930,9 +906,7 @@ describe('usePolling', () => {
     it('should initialize data from initialData when no cache exists', () => {
       const serverData = { entries: [{ id: 'e1' }], frozenStages: [] };
       const mockFetch = jest.fn().mockResolvedValue({ entries: [{ id: 'e2' }] });
-      const { result } = renderHook(() =>
-        usePolling(mockFetch, { immediate: false, initialData: serverData })
-      );
+      const { result } = renderHook(() => usePolling(mockFetch, { immediate: false, initialData: serverData }));
 
       expect(result.current.data).toEqual(serverData);
     });
@@ -946,9 +920,7 @@ describe('usePolling', () => {
       const mockFetch = jest.fn().mockResolvedValue(cachedData);
 
       // Warm the cache via a first mount
-      const { unmount } = await act(async () =>
-        renderHook(() => usePolling(mockFetch, { cacheKey }))
-      );
+      const { unmount } = await act(async () => renderHook(() => usePolling(mockFetch, { cacheKey })));
       await waitFor(() => expect(mockFetch).toHaveBeenCalledTimes(1));
       unmount();
 
@@ -956,7 +928,7 @@ describe('usePolling', () => {
 
       // Second mount with initialData — cache hit must win
       const { result } = renderHook(() =>
-        usePolling(mockFetch, { immediate: false, cacheKey, initialData: serverData })
+        usePolling(mockFetch, { immediate: false, cacheKey, initialData: serverData }),
       );
 
       expect(result.current.data).toEqual(cachedData);
@@ -965,9 +937,7 @@ describe('usePolling', () => {
     // Without initialData the hook still starts with null (regression guard).
     it('should start with null when neither initialData nor cache is present', () => {
       const mockFetch = jest.fn().mockResolvedValue({ id: 1 });
-      const { result } = renderHook(() =>
-        usePolling(mockFetch, { immediate: false })
-      );
+      const { result } = renderHook(() => usePolling(mockFetch, { immediate: false }));
 
       expect(result.current.data).toBeNull();
     });
@@ -978,11 +948,121 @@ describe('usePolling', () => {
       const fetchedData = { entries: [{ id: 'fetched' }] };
       const mockFetch = jest.fn().mockResolvedValue(fetchedData);
 
-      const { result } = await act(async () =>
-        renderHook(() => usePolling(mockFetch, { initialData: serverData }))
-      );
+      const { result } = await act(async () => renderHook(() => usePolling(mockFetch, { initialData: serverData })));
 
       await waitFor(() => expect(result.current.data).toEqual(fetchedData));
     });
   });
+
+  describe('event stream', () => {
+    /** Minimal EventSource stand-in; jsdom does not provide one. */
+    class FakeEventSource {
+      static instances: FakeEventSource[] = [];
+      url: string;
+      closed = false;
+      private listeners = new Map<string, (() => void)[]>();
+
+      constructor(url: string) {
+        this.url = url;
+        FakeEventSource.instances.push(this);
+      }
+
+      addEventListener(type: string, listener: () => void) {
+        this.listeners.set(type, [...(this.listeners.get(type) ?? []), listener]);
+      }
+
+      close() {
+        this.closed = true;
+      }
+
+      emit(type: string) {
+        for (const listener of this.listeners.get(type) ?? []) listener();
+      }
+    }
+
+    beforeEach(() => {
+      FakeEventSource.instances = [];
+      (global as unknown as { EventSource: unknown }).EventSource = FakeEventSource;
+    });
+
+    afterEach(() => {
+      delete (global as unknown as { EventSource?: unknown }).EventSource;
+    });
+
+    it('refetches on change events and backs off polling while the stream is open', async () => {
+      const mockFetch = jest.fn().mockResolvedValue({ id: 1 });
+      await act(async () => {
+        renderHook(() => usePolling(mockFetch, { streamUrl: '/api/tournaments/t1/events?scope=bm' }));
+      });
+      const [stream] = FakeEventSource.instances;
+      expect(stream.url).toBe('/api/tournaments/t1/events?scope=bm');
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+
+      act(() => stream.emit('open'));
+      await act(async () => {
+        jest.advanceTimersByTime(3000);
+      });
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      await act(async () => {
+        jest.advanceTimersByTime(STREAM_POLLING_INTERVAL - 3000);
+      });
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+
+      await act(async () => {
+        stream.emit('change');
+      });
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+    });
+
+    it('returns to the regular interval when the stream errors', async () => {
+      const mockFetch = jest.fn().mockResolvedValue({ id: 1 });
+      await act(async () => {
+        renderHook(() => usePolling(mockFetch, { streamUrl: '/api/tournaments/t1/events' }));
+      });
+      const [stream] = FakeEventSource.instances;
+      act(() => stream.emit('open'));
+
+      act(() => stream.emit('error'));
+      await act(async () => {
+        jest.advanceTimersByTime(3000);
+      });
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+
+      /* Repeated reconnect failures must not keep pushing the timer back. */
+      act(() => stream.emit('error'));
+      await act(async () => {
+        jest.advanceTimersByTime(3000);
+      });
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+    });
+
+    it('polls once when the stream reconnects, then backs off again', async () => {
+      const mockFetch = jest.fn().mockResolvedValue({ id: 1 });
+      await act(async () => {
+        renderHook(() => usePolling(mockFetch, { streamUrl: '/api/tournaments/t1/events' }));
+      });
+      const [stream] = FakeEventSource.instances;
+      act(() => stream.emit('open'));
+      act(() => stream.emit('error'));
+
+      await act(async () => {
+        stream.emit('open');
+      });
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      await act(async () => {
+        jest.advanceTimersByTime(3000);
+      });
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('closes the stream on unmount', async () => {
+      const mockFetch = jest.fn().mockResolvedValue({ id: 1 });
+      const { unmount } = await act(async () =>
+        renderHook(() => usePolling(mockFetch, { streamUrl: '/api/tournaments/t1/events' })),
+      );
+      unmount();
+
+      expect(FakeEventSource.instances[0].closed).toBe(true);
+    });
+  });
 });
@@ -0,0 +1,70 @@
+/**
+ * @module __tests__/lib/login-lockout.test.ts
+ *
+ * Test suite for the audit-log-driven player lockout (login-lockout.ts):
+ * - Locks once LOGIN_LOCKOUT_THRESHOLD failures fall inside the window.
+ * - The lock lifts when the oldest counting failure leaves the window.
+ * - A later LOGIN_SUCCESS or admin unlock restarts the count.
+ */
+import prisma from '@/lib/prisma';
+import { getLoginLockout } from '@/lib/login-lockout';
+import { LOGIN_LOCKOUT_DURATION, LOGIN_LOCKOUT_THRESHOLD } from '@/lib/constants';
+
+describe('getLoginLockout', () => {
+  const now = new Date('2026-03-01T10:00:00Z').getTime();
+  const failuresAt = (...minutesAgo: number[]) =>
+    minutesAgo.map((minutes) => ({ timestamp: new Date(now - minutes * 60_000) }));
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.setSystemTime(now);
+    (prisma.auditLog.findFirst as jest.Mock).mockResolvedValue(null);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('stays unlocked below the threshold', async () => {
+    (prisma.auditLog.findMany as jest.Mock).mockResolvedValue(failuresAt(1, 2));
+
+    expect(await getLoginLockout('player-1')).toEqual({ locked: false, failures: 2 });
+  });
+
+  it('locks until the oldest counting failure leaves the window', async () => {
+    (prisma.auditLog.findMany as jest.Mock).mockResolvedValue(failuresAt(1, 2, 3, 4, 5));
+
+    const status = await getLoginLockout('player-1');
+
+    expect(status.locked).toBe(true);
+    expect(status.lockedUntil).toEqual(new Date(now - 5 * 60_000 + LOGIN_LOCKOUT_DURATION));
+    expect(prisma.auditLog.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: expect.objectContaining({
+          targetType: 'Player',
+          targetId: 'player-1',
+          action: 'LOGIN_FAILURE',
+          timestamp: { gt: new Date(now - LOGIN_LOCKOUT_DURATION) },
+        }),
+        take: LOGIN_LOCKOUT_THRESHOLD,
+      }),
+    );
+  });
+
+  it('only counts failures after the last success or unlock', async () => {
+    const unlockedAt = new Date(now - 2 * 60_000);
+    (prisma.auditLog.findFirst as jest.Mock).mockResolvedValue({ timestamp: unlockedAt });
+    (prisma.auditLog.findMany as jest.Mock).mockResolvedValue(failuresAt(1));
+
+    await getLoginLockout('player-1');
+
+    expect(prisma.auditLog.findFirst).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: expect.objectContaining({ action: { in: ['LOGIN_SUCCESS', 'UNLOCK_PLAYER_LOGIN'] } }),
+      }),
+    );
+    expect(prisma.auditLog.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: expect.objectContaining({ timestamp: { gt: unlockedAt } }) }),
+    );
+  });
+});
@@ -0,0 +1,69 @@
+/**
+ * @module __tests__/lib/match-report-token.test.ts
+ *
+ * Test suite for match-report-token.ts: signing and verifying QR match
+ * report tokens, expiry windows and the report page deep link.
+ */
+import { describe, it, expect } from '@jest/globals';
+import {
+  buildMatchReportPath,
+  createMatchReportToken,
+  decodeMatchReportToken,
+  getMatchReportTokenExpiry,
+  verifyMatchReportToken,
+  type MatchReportTokenClaims,
+} from '@/lib/match-report-token';
+
+const SECRET = 'test-secret';
+const CLAIMS: MatchReportTokenClaims = {
+  tournamentId: 't1',
+  matchId: 'm1',
+  playerId: 'p1',
+  side: 1,
+  exp: 1_900_000_000,
+};
+
+describe('createMatchReportToken / verifyMatchReportToken', () => {
+  it('round-trips the claims', async () => {
+    const token = await createMatchReportToken(CLAIMS, SECRET);
+
+    expect(await verifyMatchReportToken(token, SECRET)).toEqual(CLAIMS);
+    expect(decodeMatchReportToken(token)).toEqual(CLAIMS);
+  });
+
+  it('rejects tampered claims and a different secret', async () => {
+    const token = (await createMatchReportToken(CLAIMS, SECRET))!;
+    const [, signature] = token.split('.');
+    const forged = (await createMatchReportToken({ ...CLAIMS, playerId: 'p2' }, SECRET))!.split('.')[0];
+
+    expect(await verifyMatchReportToken(`${forged}.${signature}`, SECRET)).toBeNull();
+    expect(await verifyMatchReportToken(token, 'other-secret')).toBeNull();
+  });
+
+  it('is disabled without a secret', async () => {
+    expect(await createMatchReportToken(CLAIMS, undefined)).toBeNull();
+    expect(await verifyMatchReportToken('a.b', undefined)).toBeNull();
+  });
+
+  it('does not decode malformed tokens', () => {
+    expect(decodeMatchReportToken('not-a-token')).toBeNull();
+    expect(decodeMatchReportToken('e30.sig')).toBeNull();
+    expect(decodeMatchReportToken(null)).toBeNull();
+  });
+});
+
+describe('getMatchReportTokenExpiry', () => {
+  it('is the same for every token issued within one window', () => {
+    const ttl = 900;
+    const start = 1_000 * ttl * 1000;
+
+    expect(getMatchReportTokenExpiry(ttl, start)).toBe(getMatchReportTokenExpiry(ttl, start + ttl * 1000 - 1));
+    expect(getMatchReportTokenExpiry(ttl, start) - start / 1000).toBe(2 * ttl);
+  });
+});
+
+describe('buildMatchReportPath', () => {
+  it('links the mode match page with an encoded token', () => {
+    expect(buildMatchReportPath('t1', 'gp', 'm1', 'a+b.c')).toBe('/tournaments/t1/gp/match/m1?token=a%2Bb.c');
+  });
+});
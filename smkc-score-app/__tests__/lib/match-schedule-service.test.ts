@@ -0,0 +1,111 @@
+// @ts-nocheck - Prisma and D1 batch mocks deliberately use compact partial shapes.
+
+jest.mock('@/lib/prisma');
+jest.mock('@/lib/d1-batch');
+jest.mock('@/lib/audit-log', () => ({
+  AUDIT_ACTIONS: { APPLY_MATCH_SCHEDULE: 'APPLY_MATCH_SCHEDULE' },
+  buildAuditLogData: jest.fn((params) => ({ ...params, userId: params.userId ?? null })),
+}));
+
+import prisma from '@/lib/prisma';
+import { executeD1Batch } from '@/lib/d1-batch';
+import { defaultSchedulePlannerSettings } from '@/lib/match-schedule';
+import { applyMatchSchedule, getStoredMatchSchedule, previewMatchSchedule } from '@/lib/match-schedule-service';
+
+const settings = {
+  ...defaultSchedulePlannerSettings(new Date('2026-01-10T01:00:00.000Z')),
+  durations: { bm: 10, mr: 10, gp: 10 },
+  changeoverMinutes: 0,
+};
+
+function row(id: string, player1Id: string, player2Id: string, extra = {}) {
+  return {
+    id,
+    matchNumber: Number(id.split('-')[1]),
+    roundNumber: 1,
+    player1Id,
+    player2Id,
+    tvNumber: null,
+    completed: false,
+    scheduledStartAt: null,
+    player1: { nickname: player1Id.toUpperCase() },
+    player2: { nickname: player2Id.toUpperCase() },
+    ...extra,
+  };
+}
+
+describe('match schedule service', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    prisma.bMMatch.findMany.mockResolvedValue([row('bm-1', 'p1', 'p2')]);
+    prisma.mRMatch.findMany.mockResolvedValue([row('mr-1', 'p1', 'p3')]);
+    prisma.gPMatch.findMany.mockResolvedValue([]);
+    executeD1Batch.mockResolvedValue([1, 1, 0, 1, 1]);
+  });
+
+  it('plans incomplete, non-BREAK qualification matches with nicknames', async () => {
+    const plan = await previewMatchSchedule('t1', settings);
+
+    expect(prisma.bMMatch.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: expect.objectContaining({
+          tournamentId: 't1',
+          stage: 'qualification',
+          isBye: false,
+          completed: false,
+          player2Id: { not: '__BREAK__' },
+        }),
+      }),
+    );
+    expect(plan.slots.map((slot) => [slot.id, slot.startAt, slot.player1Nickname])).toEqual([
+      ['bm-1', '2026-01-10T01:00:00.000Z', 'P1'],
+      ['mr-1', '2026-01-10T01:10:00.000Z', 'P1'],
+    ]);
+  });
+
+  it('keeps players and TVs of the stored slots in the other modes busy', async () => {
+    prisma.mRMatch.findMany.mockResolvedValue([
+      row('mr-1', 'p1', 'p3', { tvNumber: 1, scheduledStartAt: new Date('2026-01-10T01:00:00.000Z') }),
+    ]);
+
+    const plan = await previewMatchSchedule('t1', { ...settings, modes: ['bm'] });
+
+    expect(prisma.mRMatch.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: expect.objectContaining({ scheduledStartAt: { not: null } }) }),
+    );
+    expect(plan.slots.map((slot) => [slot.id, slot.tvNumber, slot.startAt])).toEqual([
+      ['bm-1', 1, '2026-01-10T01:10:00.000Z'],
+    ]);
+  });
+
+  it('stores the plan, settings and audit row in one batch', async () => {
+    await applyMatchSchedule({
+      tournamentId: 't1',
+      settings,
+      audit: { userId: 'admin', ipAddress: '127.0.0.1', userAgent: 'jest' },
+    });
+
+    expect(executeD1Batch).toHaveBeenCalledTimes(1);
+    const statements = executeD1Batch.mock.calls[0][0];
+    expect(statements).toHaveLength(5);
+    expect(statements[0].sql).toContain('UPDATE "BMMatch"');
+    expect(JSON.parse(statements[0].values[0])).toEqual([
+      { id: 'bm-1', tvNumber: 1, startAt: '2026-01-10T01:00:00.000Z' },
+    ]);
+    expect(statements[3].sql).toContain('"scheduleSettings"');
+    expect(statements[4].values).toContain('APPLY_MATCH_SCHEDULE');
+  });
+
+  it('reports overlaps in the stored schedule', async () => {
+    const start = new Date('2026-01-10T01:00:00.000Z');
+    prisma.bMMatch.findMany.mockResolvedValue([row('bm-1', 'p1', 'p2', { tvNumber: 1, scheduledStartAt: start })]);
+    prisma.mRMatch.findMany.mockResolvedValue([
+      row('mr-1', 'p1', 'p3', { tvNumber: 2, scheduledStartAt: start, completed: true }),
+    ]);
+
+    const schedule = await getStoredMatchSchedule('t1', settings);
+
+    expect(schedule.slots.map((slot) => slot.endAt)).toEqual(['2026-01-10T01:10:00.000Z', '2026-01-10T01:10:00.000Z']);
+    expect(schedule.conflicts).toEqual([{ type: 'player', playerId: 'p1', matchIds: ['bm-1', 'mr-1'] }]);
+  });
+});
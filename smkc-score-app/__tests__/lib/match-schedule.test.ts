@@ -0,0 +1,198 @@
+/**
+ * Unit tests for the match schedule planner: no player or TV is double-booked
+ * across modes, round-robin Day order is kept per player, and settings
+ * validation.
+ */
+import { generateRoundRobinSchedule } from '@/lib/round-robin';
+import {
+  defaultSchedulePlannerSettings,
+  findScheduleConflicts,
+  parseSchedulePlannerSettings,
+  planMatchSchedule,
+  readStoredSchedulePlannerSettings,
+  SchedulePlannerError,
+  type ScheduleMatchInput,
+  type ScheduleMode,
+  type SchedulePlannerSettings,
+} from '@/lib/match-schedule';
+
+const START = '2026-01-10T01:00:00.000Z';
+
+function settings(overrides: Partial<SchedulePlannerSettings> = {}): SchedulePlannerSettings {
+  return {
+    ...defaultSchedulePlannerSettings(new Date(START)),
+    durations: { bm: 10, mr: 10, gp: 10 },
+    changeoverMinutes: 0,
+    ...overrides,
+  };
+}
+
+/** Matches as qualification setup stores them: one per round-robin pairing, BREAK excluded. */
+function roundRobinMatches(mode: ScheduleMode, playerIds: string[]): ScheduleMatchInput[] {
+  return generateRoundRobinSchedule(playerIds)
+    .matches.filter((match) => !match.isBye)
+    .map((match, index) => ({
+      id: `${mode}-${index + 1}`,
+      mode,
+      matchNumber: index + 1,
+      roundNumber: match.day,
+      player1Id: match.player1Id,
+      player2Id: match.player2Id,
+    }));
+}
+
+const players = ['p1', 'p2', 'p3', 'p4', 'p5', 'p6', 'p7', 'p8'];
+
+describe('planMatchSchedule', () => {
+  it('schedules every match without double-booking a player or TV across modes', () => {
+    const matches = [
+      ...roundRobinMatches('bm', players),
+      ...roundRobinMatches('mr', players),
+      ...roundRobinMatches('gp', players.slice(0, 5)),
+    ];
+
+    const plan = planMatchSchedule(matches, settings({ durations: { bm: 8, mr: 12, gp: 15 }, changeoverMinutes: 2 }));
+
+    expect(plan.slots).toHaveLength(matches.length);
+    expect(findScheduleConflicts(plan.slots)).toEqual([]);
+    expect(plan.slots.every((slot) => slot.tvNumber >= 1 && slot.tvNumber <= 4)).toBe(true);
+    expect(plan.slots[0].startAt).toBe(START);
+  });
+
+  it('keeps each player on their round-robin Day order within a mode', () => {
+    const plan = planMatchSchedule(roundRobinMatches('bm', players), settings({ tvCount: 2 }));
+
+    for (const player of players) {
+      const days = plan.slots
+        .filter((slot) => slot.player1Id === player || slot.player2Id === player)
+        .map((slot) => slot.roundNumber);
+      expect(days).toEqual([...days].sort((a, b) => (a ?? 0) - (b ?? 0)));
+    }
+  });
+
+  it('runs one match at a time on a single TV', () => {
+    const plan = planMatchSchedule(roundRobinMatches('bm', players.slice(0, 4)), settings({ tvCount: 1 }));
+
+    expect(plan.slots.map((slot) => slot.startAt)).toEqual(
+      plan.slots.map((_, i) => new Date(Date.parse(START) + i * 10 * 60_000).toISOString()),
+    );
+    expect(plan.endAt).toBe(new Date(Date.parse(START) + 6 * 10 * 60_000).toISOString());
+  });
+
+  it('holds a player who is busy in another mode', () => {
+    const matches: ScheduleMatchInput[] = [
+      { id: 'bm-1', mode: 'bm', matchNumber: 1, roundNumber: 1, player1Id: 'p1', player2Id: 'p2' },
+      { id: 'mr-1', mode: 'mr', matchNumber: 1, roundNumber: 1, player1Id: 'p1', player2Id: 'p3' },
+      { id: 'gp-1', mode: 'gp', matchNumber: 1, roundNumber: 1, player1Id: 'p4', player2Id: 'p5' },
+    ];
+
+    const plan = planMatchSchedule(matches, settings({ changeoverMinutes: 5 }));
+    const byId = new Map(plan.slots.map((slot) => [slot.id, slot]));
+
+    expect(byId.get('bm-1')?.startAt).toBe(START);
+    expect(byId.get('gp-1')?.startAt).toBe(START);
+    // p1 finishes BM at +10 and needs the 5-minute changeover before MR.
+    expect(byId.get('mr-1')?.startAt).toBe('2026-01-10T01:15:00.000Z');
+  });
+
+  it('only plans the selected modes', () => {
+    const plan = planMatchSchedule(
+      [...roundRobinMatches('bm', players.slice(0, 4)), ...roundRobinMatches('gp', players.slice(0, 4))],
+      settings({ modes: ['gp'] }),
+    );
+
+    expect(new Set(plan.slots.map((slot) => slot.mode))).toEqual(new Set(['gp']));
+  });
+
+  it('starts players and TVs after the reserved slots of other modes', () => {
+    const matches: ScheduleMatchInput[] = [
+      { id: 'bm-1', mode: 'bm', matchNumber: 1, roundNumber: 1, player1Id: 'p1', player2Id: 'p2' },
+      { id: 'bm-2', mode: 'bm', matchNumber: 2, roundNumber: 1, player1Id: 'p3', player2Id: 'p4' },
+    ];
+    const reserved = [
+      { player1Id: 'p1', player2Id: 'p9', tvNumber: 3, endAt: '2026-01-10T01:20:00.000Z' },
+      { player1Id: 'p7', player2Id: 'p8', tvNumber: 1, endAt: '2026-01-10T01:30:00.000Z' },
+    ];
+
+    const plan = planMatchSchedule(matches, settings({ tvCount: 2, modes: ['bm'], changeoverMinutes: 5 }), reserved);
+
+    expect(plan.slots.map((slot) => [slot.id, slot.tvNumber, slot.startAt])).toEqual([
+      ['bm-2', 2, START],
+      ['bm-1', 2, '2026-01-10T01:25:00.000Z'],
+    ]);
+  });
+
+  it('returns an empty plan ending at the start time', () => {
+    expect(planMatchSchedule([], settings())).toEqual({ settings: settings(), slots: [], endAt: START });
+  });
+});
+
+describe('findScheduleConflicts', () => {
+  const slot = (id: string, tvNumber: number | null, startAt: string, endAt: string, players: string[]) => ({
+    id,
+    tvNumber,
+    startAt,
+    endAt,
+    player1Id: players[0],
+    player2Id: players[1],
+  });
+
+  it('flags overlapping TV and player bookings', () => {
+    const conflicts = findScheduleConflicts([
+      slot('a', 1, '2026-01-10T01:00:00.000Z', '2026-01-10T01:10:00.000Z', ['p1', 'p2']),
+      slot('b', 1, '2026-01-10T01:05:00.000Z', '2026-01-10T01:15:00.000Z', ['p3', 'p4']),
+      slot('c', 2, '2026-01-10T01:05:00.000Z', '2026-01-10T01:15:00.000Z', ['p2', 'p5']),
+    ]);
+
+    expect(conflicts).toEqual([
+      { type: 'tv', tvNumber: 1, matchIds: ['a', 'b'] },
+      { type: 'player', playerId: 'p2', matchIds: ['a', 'c'] },
+    ]);
+  });
+
+  it('ignores back-to-back slots and unassigned TVs', () => {
+    expect(
+      findScheduleConflicts([
+        slot('a', null, '2026-01-10T01:00:00.000Z', '2026-01-10T01:10:00.000Z', ['p1', 'p2']),
+        slot('b', null, '2026-01-10T01:05:00.000Z', '2026-01-10T01:15:00.000Z', ['p3', 'p4']),
+        slot('c', 1, '2026-01-10T01:10:00.000Z', '2026-01-10T01:20:00.000Z', ['p1', 'p2']),
+      ]),
+    ).toEqual([]);
+  });
+});
+
+describe('parseSchedulePlannerSettings', () => {
+  it('fills omitted fields from the defaults and normalizes the start time', () => {
+    const parsed = parseSchedulePlannerSettings(
+      { startAt: '2026-01-10T10:00:00+09:00', tvCount: 2, durations: { mr: 14 }, modes: ['gp', 'bm'] },
+      settings(),
+    );
+
+    expect(parsed).toEqual({
+      startAt: START,
+      tvCount: 2,
+      durations: { bm: 10, mr: 14, gp: 10 },
+      changeoverMinutes: 0,
+      modes: ['bm', 'gp'],
+    });
+  });
+
+  it.each([
+    [{ startAt: 'soon' }, 'startAt'],
+    [{ tvCount: 5 }, 'tvCount'],
+    [{ durations: { bm: 0 } }, 'durations.bm'],
+    [{ changeoverMinutes: 1.5 }, 'changeoverMinutes'],
+    [{ modes: [] }, 'modes'],
+    [{ modes: ['ta'] }, 'modes'],
+  ])('rejects %j', (input, field) => {
+    expect(() => parseSchedulePlannerSettings(input, settings())).toThrow(
+      expect.objectContaining({ name: 'SchedulePlannerError', field }),
+    );
+    expect(() => parseSchedulePlannerSettings(input, settings())).toThrow(SchedulePlannerError);
+  });
+
+  it('falls back to defaults for unreadable stored settings', () => {
+    expect(readStoredSchedulePlannerSettings({ tvCount: 9 }).tvCount).toBe(4);
+    expect(readStoredSchedulePlannerSettings(settings({ tvCount: 3 })).tvCount).toBe(3);
+  });
+});
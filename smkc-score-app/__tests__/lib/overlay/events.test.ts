@@ -242,6 +242,28 @@ describe('buildOverlayEvents', () => {
     expect(events[0].title).toBe('Playoff Match #3 Completed');
   });
 
+  it('emits match_called for incomplete matches called after since', () => {
+    const events = buildOverlayEvents(
+      emptyInput({
+        mrMatches: [
+          match({ id: 'c1', completed: false, matchNumber: 5, tvNumber: 2, calledAt: AFTER }),
+          match({ id: 'c2', completed: false, tvNumber: 3, calledAt: BEFORE }),
+          match({ id: 'c3', completed: true, tvNumber: 1, calledAt: AFTER }),
+        ],
+      }),
+    );
+
+    expect(events.map((event) => event.type)).toEqual(['match_called', 'match_completed']);
+    expect(events[0]).toEqual({
+      id: `match_called:mr:c1:${AFTER.getTime()}`,
+      type: 'match_called',
+      timestamp: AFTER.toISOString(),
+      mode: 'mr',
+      title: 'Now Calling: TV 2',
+      subtitle: 'Alice vs Bob (Match Race Qualification Match #5)',
+    });
+  });
+
   it('emits a mode champion event with top three standings when grand final completes', () => {
     const events = buildOverlayEvents(
       emptyInput({
@@ -532,6 +554,53 @@ describe('buildOverlayEvents', () => {
     });
   });
 
+  it('emits a course-record ta_time_recorded after the time it was set with', () => {
+    const record = {
+      sourceId: 'tt-q1',
+      playerId: 'p1',
+      player: { nickname: 'Grace' },
+      stage: 'qualification',
+      course: 'MC1',
+      timeMs: 58120,
+      recordedAt: AFTER,
+      records: [
+        {
+          kind: 'event_record' as const,
+          previousTimeMs: 58500,
+          previousTimeFormatted: '0:58.50',
+          previousHolder: 'Heidi',
+        },
+        {
+          kind: 'personal_best' as const,
+          previousTimeMs: 59000,
+          previousTimeFormatted: '0:59.00',
+          previousHolder: 'Grace',
+        },
+      ],
+    };
+    const events = buildOverlayEvents(
+      emptyInput({ taCourseRecords: [record, { ...record, sourceId: 'old', recordedAt: BEFORE }] }),
+    );
+
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({
+      id: 'ta_time_recorded:record:tt-q1:p1:MC1:58120',
+      type: 'ta_time_recorded',
+      timestamp: new Date(AFTER.getTime() + 1).toISOString(),
+      title: '[Qualification] Grace set a new Event Record on Mario Circuit 1: 0:58.12',
+      subtitle: 'Previous Event Record: 0:58.50 (Heidi) / Previous Personal Best: 0:59.00',
+    });
+    expect(events[0].taTimeRecord).toEqual({
+      player: 'Grace',
+      course: 'MC1',
+      time: '0:58.12',
+      phaseLabel: 'Qualification',
+      rank: null,
+      records: record.records,
+    });
+    assertNoPII(events[0]);
+  });
+
   it('emits qualification_confirmed / finals_started / overall_ranking_updated when their timestamps cross since', () => {
     const events = buildOverlayEvents(
       emptyInput({
@@ -546,6 +615,30 @@ describe('buildOverlayEvents', () => {
     expect(types).toEqual(['finals_started', 'overall_ranking_updated', 'qualification_confirmed']);
   });
 
+  it('emits team_ranking_updated with the leading teams when team standings changed', () => {
+    const standings = [
+      { rank: 1, team: 'Japan', country: 'JP', points: 6000 },
+      { rank: 2, team: 'France', country: 'FR', points: 4500 },
+    ];
+    const events = buildOverlayEvents(
+      emptyInput({
+        tournament: {
+          qualificationConfirmedAt: null,
+          earliestFinalsCreatedAt: null,
+          latestOverallRankingUpdatedAt: null,
+          latestTeamRankingUpdatedAt: AFTER,
+          teamStandings: standings,
+        },
+      }),
+    );
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({
+      type: 'team_ranking_updated',
+      subtitle: 'Japan leads with 6000 pts',
+      teamRanking: { standings },
+    });
+  });
+
   it('emits ta_phase_advanced for each phase round created after since', () => {
     const events = buildOverlayEvents(
       emptyInput({
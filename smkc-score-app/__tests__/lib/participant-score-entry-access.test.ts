@@ -1,43 +1,59 @@
-import { getParticipantScoreEntryAccessState } from "@/lib/participant-score-entry-access";
+import { getMatchReportTokenSide, getParticipantScoreEntryAccessState } from '@/lib/participant-score-entry-access';
 
-describe("getParticipantScoreEntryAccessState", () => {
-  it("hides access messaging while the session is loading", () => {
+describe('getParticipantScoreEntryAccessState', () => {
+  it('hides access messaging while the session is loading', () => {
     expect(
       getParticipantScoreEntryAccessState({
-        sessionStatus: "loading",
-        userType: "player",
+        sessionStatus: 'loading',
+        userType: 'player',
         role: null,
       }),
-    ).toBe("loading");
+    ).toBe('loading');
   });
 
-  it("allows player sessions", () => {
+  it('allows player sessions', () => {
     expect(
       getParticipantScoreEntryAccessState({
-        sessionStatus: "authenticated",
-        userType: "player",
+        sessionStatus: 'authenticated',
+        userType: 'player',
         role: null,
       }),
-    ).toBe("player");
+    ).toBe('player');
   });
 
-  it("blocks admin sessions from participant score-entry pages", () => {
+  it('blocks admin sessions from participant score-entry pages', () => {
     expect(
       getParticipantScoreEntryAccessState({
-        sessionStatus: "authenticated",
-        userType: "admin",
-        role: "admin",
+        sessionStatus: 'authenticated',
+        userType: 'admin',
+        role: 'admin',
       }),
-    ).toBe("admin-blocked");
+    ).toBe('admin-blocked');
   });
 
-  it("requires login for non-player, non-admin sessions", () => {
+  it('requires login for non-player, non-admin sessions', () => {
     expect(
       getParticipantScoreEntryAccessState({
-        sessionStatus: "unauthenticated",
+        sessionStatus: 'unauthenticated',
         userType: null,
         role: null,
       }),
-    ).toBe("login-required");
+    ).toBe('login-required');
+  });
+});
+
+describe('getMatchReportTokenSide', () => {
+  const match = { id: 'm1', player1Id: 'p1', player2Id: 'p2' };
+  const claims = { tournamentId: 't1', matchId: 'm1', playerId: 'p2', side: 2 as const, exp: 2_000 };
+
+  it('returns the side while the token is valid for this match', () => {
+    expect(getMatchReportTokenSide(claims, match, 1_000_000)).toBe(2);
+  });
+
+  it('rejects expired tokens, other matches and reassigned sides', () => {
+    expect(getMatchReportTokenSide(claims, match, 2_000_000)).toBeNull();
+    expect(getMatchReportTokenSide({ ...claims, matchId: 'm2' }, match, 1_000_000)).toBeNull();
+    expect(getMatchReportTokenSide(claims, { ...match, player2Id: 'p3' }, 1_000_000)).toBeNull();
+    expect(getMatchReportTokenSide(null, match)).toBeNull();
   });
 });
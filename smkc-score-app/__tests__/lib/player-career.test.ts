@@ -0,0 +1,306 @@
+/**
+ * Unit tests for player career aggregation.
+ *
+ * Covers winner resolution, per-mode placements, rank history, head-to-head
+ * rows, publicModes visibility, archive extraction, and the loader's
+ * live/archive merge (archived tournaments still in D1 are not re-read, and
+ * archive rows are cached per archive set).
+ */
+import prisma from '@/lib/prisma';
+import {
+  buildPlayerCareer,
+  extractArchivedCareerRows,
+  loadPlayerCareer,
+  resolveCareerMatchOutcome,
+  toCareerMatch,
+  type CareerMatch,
+  type CareerSource,
+} from '@/lib/player-career';
+import { readTournamentArchive, readTournamentArchiveIndex } from '@/lib/tournament-archive';
+import { clearMemoryCache } from '@/lib/cache-backend';
+import type { TournamentArchiveBundle } from '@/lib/tournament-archive';
+
+jest.mock('@/lib/logger', () => ({
+  createLogger: jest.fn(() => ({ error: jest.fn(), warn: jest.fn(), info: jest.fn(), debug: jest.fn() })),
+}));
+
+jest.mock('@/lib/tournament-archive', () => ({
+  readTournamentArchive: jest.fn(),
+  readTournamentArchiveIndex: jest.fn(),
+}));
+
+const mockPrisma = prisma as unknown as Record<string, Record<string, jest.Mock>>;
+
+const alice = { id: 'p1', name: 'Alice A', nickname: 'alice', country: 'JP' };
+const bob = { id: 'p2', name: 'Bob B', nickname: 'bob', country: null };
+const carol = { id: 'p3', name: 'Carol C', nickname: 'carol', country: 'IT' };
+
+function match(overrides: Partial<CareerMatch>): CareerMatch {
+  return {
+    tournamentId: 't1',
+    mode: 'bm',
+    stage: 'qualification',
+    completed: true,
+    isBye: false,
+    player1Id: alice.id,
+    player2Id: bob.id,
+    player1: alice,
+    player2: bob,
+    score1: 3,
+    score2: 1,
+    winnerOverrideId: null,
+    suddenDeathWinnerId: null,
+    ...overrides,
+  };
+}
+
+function score(tournamentId: string, overrides: Partial<CareerSource['scores'][number]> = {}) {
+  return {
+    tournamentId,
+    taQualificationPoints: 0,
+    bmQualificationPoints: 0,
+    mrQualificationPoints: 0,
+    gpQualificationPoints: 0,
+    taFinalsPoints: 0,
+    bmFinalsPoints: 0,
+    mrFinalsPoints: 0,
+    gpFinalsPoints: 0,
+    totalPoints: 0,
+    overallRank: null,
+    ...overrides,
+  };
+}
+
+const allPublic = ['ta', 'bm', 'mr', 'gp', 'overall'];
+
+describe('resolveCareerMatchOutcome', () => {
+  it('resolves wins, losses and qualification draws', () => {
+    expect(resolveCareerMatchOutcome(match({}), alice.id)).toBe('win');
+    expect(resolveCareerMatchOutcome(match({}), bob.id)).toBe('loss');
+    expect(resolveCareerMatchOutcome(match({ score1: 2, score2: 2 }), alice.id)).toBe('tie');
+  });
+
+  it('prefers the admin override, then the legacy sudden-death winner', () => {
+    expect(resolveCareerMatchOutcome(match({ winnerOverrideId: bob.id }), alice.id)).toBe('loss');
+    expect(resolveCareerMatchOutcome(match({ score1: 30, score2: 30, suddenDeathWinnerId: bob.id }), bob.id)).toBe(
+      'win',
+    );
+  });
+
+  it('ignores unfinished, bye, BREAK and unrelated matches', () => {
+    expect(resolveCareerMatchOutcome(match({ completed: false }), alice.id)).toBeNull();
+    expect(resolveCareerMatchOutcome(match({ isBye: true }), alice.id)).toBeNull();
+    expect(resolveCareerMatchOutcome(match({ player2Id: '__BREAK__' }), alice.id)).toBeNull();
+    expect(resolveCareerMatchOutcome(match({}), carol.id)).toBeNull();
+  });
+});
+
+describe('toCareerMatch', () => {
+  it('maps GP driver points onto scores', () => {
+    const normalized = toCareerMatch('gp', 't1', {
+      player1Id: alice.id,
+      player2Id: bob.id,
+      completed: true,
+      score1: 0,
+      score2: 0,
+      points1: 36,
+      points2: 24,
+    });
+    expect(normalized).toMatchObject({ mode: 'gp', score1: 36, score2: 24, stage: 'qualification' });
+  });
+});
+
+describe('buildPlayerCareer', () => {
+  const source: CareerSource = {
+    tournaments: [
+      { id: 't1', name: 'JSMKC 2024', slug: 'jsmkc2024', date: '2024-05-01', archived: true, publicModes: allPublic },
+      { id: 't2', name: 'JSMKC 2025', slug: null, date: '2025-05-01', archived: false, publicModes: allPublic },
+    ],
+    scores: [
+      score('t1', { bmQualificationPoints: 800, bmFinalsPoints: 750, totalPoints: 1550, overallRank: 4 }),
+      score('t2', { taQualificationPoints: 900, taFinalsPoints: 2000, totalPoints: 2900, overallRank: 1 }),
+    ],
+    matches: [
+      match({}),
+      match({ stage: 'finals', score1: 1, score2: 3 }),
+      match({ mode: 'mr', player2Id: carol.id, player2: carol, score1: 2, score2: 2 }),
+      match({ tournamentId: 't2', player1Id: bob.id, player1: bob, player2Id: alice.id, player2: alice }),
+    ],
+    taEntries: [
+      { tournamentId: 't2', stage: 'qualification', rank: 3 },
+      { tournamentId: 't2', stage: 'phase3', rank: null },
+    ],
+  };
+
+  it('aggregates placements, records, rank history and head-to-head', () => {
+    const career = buildPlayerCareer(alice, source, { includeHidden: false });
+
+    expect(career.summary).toEqual({ tournamentsPlayed: 2, titles: 1, bestOverallRank: 1 });
+    expect(career.tournaments.map((t) => t.tournamentId)).toEqual(['t2', 't1']);
+    expect(career.rankHistory.map((point) => [point.tournamentId, point.overallRank])).toEqual([
+      ['t1', 4],
+      ['t2', 1],
+    ]);
+
+    const t1 = career.tournaments.find((t) => t.tournamentId === 't1')!;
+    expect(t1.modes.bm).toEqual({
+      qualificationPoints: 800,
+      finalsPoints: 750,
+      finalsPlacement: { start: 5, end: 6 },
+      record: { played: 2, wins: 1, losses: 1, ties: 0 },
+    });
+    expect(t1.modes.mr?.record).toEqual({ played: 1, wins: 0, losses: 0, ties: 1 });
+
+    const t2 = career.tournaments.find((t) => t.tournamentId === 't2')!;
+    expect(t2.modes.ta).toMatchObject({
+      finalsPlacement: { start: 1, end: 1 },
+      qualificationRank: 3,
+      furthestStage: 'phase3',
+    });
+
+    expect(career.records.total).toEqual({ played: 4, wins: 1, losses: 2, ties: 1 });
+    expect(career.headToHead.map((row) => row.opponent.id)).toEqual(['p2', 'p3']);
+    expect(career.headToHead[0]).toMatchObject({
+      total: { played: 3, wins: 1, losses: 2, ties: 0 },
+      bm: { played: 3 },
+      lastMetAt: new Date('2025-05-01').toISOString(),
+    });
+  });
+
+  it('hides unpublished modes and overall rank from non-admin callers', () => {
+    const hidden: CareerSource = {
+      ...source,
+      tournaments: source.tournaments.map((t) => (t.id === 't1' ? { ...t, publicModes: ['mr'] } : t)),
+    };
+
+    const publicView = buildPlayerCareer(alice, hidden, { includeHidden: false });
+    const t1 = publicView.tournaments.find((t) => t.tournamentId === 't1')!;
+    expect(t1.modes.bm).toBeUndefined();
+    expect(t1.overallRank).toBeNull();
+    expect(publicView.records.bm.played).toBe(1);
+
+    const adminView = buildPlayerCareer(alice, hidden, { includeHidden: true });
+    expect(adminView.tournaments.find((t) => t.tournamentId === 't1')!.overallRank).toBe(4);
+  });
+});
+
+describe('extractArchivedCareerRows', () => {
+  const bundle = {
+    tournament: { id: 'ta1', name: 'Old Cup', slug: 'old', date: '2020-01-01', publicModes: allPublic },
+    modes: {
+      ta: { entries: [{ playerId: alice.id, stage: 'qualification', rank: 7, player: alice }] },
+      bm: { matches: [{ ...match({}), player1: alice, player2: bob }] },
+      mr: { matches: [] },
+      gp: {
+        matches: [
+          { player1Id: bob.id, player2Id: carol.id, player1: bob, player2: carol, completed: true, points1: 1 },
+        ],
+      },
+    },
+    overallRanking: { rankings: [{ playerId: alice.id, ...score('ta1', { overallRank: 2 }) }] },
+  } as unknown as TournamentArchiveBundle;
+
+  it('returns only rows that involve the player', () => {
+    const rows = extractArchivedCareerRows(bundle, alice.id)!;
+    expect(rows.tournaments).toEqual([expect.objectContaining({ id: 'ta1', archived: true })]);
+    expect(rows.matches).toHaveLength(1);
+    expect(rows.taEntries).toEqual([{ tournamentId: 'ta1', stage: 'qualification', rank: 7 }]);
+    expect(rows.scores[0]).toMatchObject({ tournamentId: 'ta1', overallRank: 2 });
+  });
+
+  it('returns null when the player never appears', () => {
+    expect(extractArchivedCareerRows(bundle, 'nobody')).toBeNull();
+  });
+});
+
+describe('loadPlayerCareer', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    clearMemoryCache();
+    mockPrisma.player.findFirst.mockResolvedValue({ ...alice, noCamera: false });
+    mockPrisma.tournamentPlayerScore.findMany.mockResolvedValue([score('t1', { overallRank: 3, totalPoints: 10 })]);
+    mockPrisma.bMMatch.findMany.mockResolvedValue([]);
+    mockPrisma.mRMatch.findMany.mockResolvedValue([]);
+    mockPrisma.gPMatch.findMany.mockResolvedValue([]);
+    mockPrisma.tTEntry.findMany.mockResolvedValue([]);
+    (readTournamentArchiveIndex as jest.Mock).mockResolvedValue([]);
+  });
+
+  it('returns null for a missing player', async () => {
+    mockPrisma.player.findFirst.mockResolvedValue(null);
+    await expect(loadPlayerCareer('missing', { includeHidden: false })).resolves.toBeNull();
+  });
+
+  it('merges purged archived tournaments and skips archives still in D1', async () => {
+    mockPrisma.tournament.findMany
+      .mockResolvedValueOnce([
+        { id: 't1', name: 'Live', slug: null, date: new Date('2025-01-01'), publicModes: allPublic },
+      ])
+      .mockResolvedValueOnce([{ id: 't-still-live' }]);
+    (readTournamentArchiveIndex as jest.Mock).mockResolvedValue([
+      { id: 't1' },
+      { id: 't-still-live' },
+      { id: 't-old' },
+    ]);
+    (readTournamentArchive as jest.Mock).mockResolvedValue({
+      tournament: { id: 't-old', name: 'Old', slug: null, date: '2019-01-01', publicModes: allPublic },
+      modes: { ta: { entries: [] }, bm: { matches: [] }, mr: { matches: [] }, gp: { matches: [] } },
+      overallRanking: { rankings: [{ playerId: alice.id, ...score('t-old', { overallRank: 5 }) }] },
+    });
+
+    const career = await loadPlayerCareer(alice.id, { includeHidden: false });
+
+    expect(readTournamentArchive).toHaveBeenCalledTimes(1);
+    expect(readTournamentArchive).toHaveBeenCalledWith('t-old');
+    expect(career?.rankHistory.map((point) => point.tournamentId)).toEqual(['t-old', 't1']);
+  });
+
+  it('reads the archives again only when the archive set changes', async () => {
+    const live = [{ id: 't1', name: 'Live', slug: null, date: new Date('2025-01-01'), publicModes: allPublic }];
+    mockPrisma.tournament.findMany.mockImplementation(({ select }) => Promise.resolve(select.name ? live : []));
+    (readTournamentArchiveIndex as jest.Mock).mockResolvedValue([{ id: 't-old', archivedAt: '2020-01-01T00:00:00Z' }]);
+    (readTournamentArchive as jest.Mock).mockResolvedValue({
+      tournament: { id: 't-old', name: 'Old', slug: null, date: '2019-01-01', publicModes: allPublic },
+      modes: { ta: { entries: [] }, bm: { matches: [] }, mr: { matches: [] }, gp: { matches: [] } },
+      overallRanking: { rankings: [{ playerId: alice.id, ...score('t-old', { overallRank: 5 }) }] },
+    });
+
+    await loadPlayerCareer(alice.id, { includeHidden: false });
+    const cached = await loadPlayerCareer(alice.id, { includeHidden: false });
+    expect(readTournamentArchive).toHaveBeenCalledTimes(1);
+    expect(cached?.rankHistory.map((point) => point.tournamentId)).toEqual(['t-old', 't1']);
+
+    (readTournamentArchiveIndex as jest.Mock).mockResolvedValue([{ id: 't-old', archivedAt: '2020-02-01T00:00:00Z' }]);
+    await loadPlayerCareer(alice.id, { includeHidden: false });
+    expect(readTournamentArchive).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not cache the archive rows while one archive read fails', async () => {
+    const live = [{ id: 't1', name: 'Live', slug: null, date: new Date('2025-01-01'), publicModes: allPublic }];
+    mockPrisma.tournament.findMany.mockImplementation(({ select }) => Promise.resolve(select.name ? live : []));
+    (readTournamentArchiveIndex as jest.Mock).mockResolvedValue([{ id: 't-old', archivedAt: '2020-01-01T00:00:00Z' }]);
+    (readTournamentArchive as jest.Mock).mockResolvedValueOnce(null).mockResolvedValue({
+      tournament: { id: 't-old', name: 'Old', slug: null, date: '2019-01-01', publicModes: allPublic },
+      modes: { ta: { entries: [] }, bm: { matches: [] }, mr: { matches: [] }, gp: { matches: [] } },
+      overallRanking: { rankings: [{ playerId: alice.id, ...score('t-old', { overallRank: 5 }) }] },
+    });
+
+    const partial = await loadPlayerCareer(alice.id, { includeHidden: false });
+    expect(partial?.rankHistory.map((point) => point.tournamentId)).toEqual(['t1']);
+
+    const recovered = await loadPlayerCareer(alice.id, { includeHidden: false });
+    expect(readTournamentArchive).toHaveBeenCalledTimes(2);
+    expect(recovered?.rankHistory.map((point) => point.tournamentId)).toEqual(['t-old', 't1']);
+  });
+
+  it('falls back to live data when the archive cannot be read', async () => {
+    mockPrisma.tournament.findMany.mockResolvedValueOnce([
+      { id: 't1', name: 'Live', slug: null, date: new Date('2025-01-01'), publicModes: allPublic },
+    ]);
+    (readTournamentArchiveIndex as jest.Mock).mockRejectedValue(new Error('R2 down'));
+
+    const career = await loadPlayerCareer(alice.id, { includeHidden: false });
+
+    expect(career?.tournaments.map((t) => t.tournamentId)).toEqual(['t1']);
+  });
+});
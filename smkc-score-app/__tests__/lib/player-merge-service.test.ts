@@ -0,0 +1,196 @@
+// @ts-nocheck - Prisma and D1 batch mocks deliberately use compact partial shapes.
+
+jest.mock('@/lib/prisma');
+jest.mock('@/lib/d1-batch');
+jest.mock('@/lib/standings-cache');
+jest.mock('@/lib/points/overall-ranking');
+jest.mock('@/lib/logger', () => ({
+  createLogger: jest.fn(() => ({ error: jest.fn(), warn: jest.fn(), info: jest.fn(), debug: jest.fn() })),
+}));
+jest.mock('@/lib/audit-log', () => ({
+  AUDIT_ACTIONS: { MERGE_PLAYERS: 'MERGE_PLAYERS' },
+  buildAuditLogData: jest.fn((params) => ({
+    ...params,
+    userId: params.userId ?? null,
+  })),
+}));
+
+import prisma from '@/lib/prisma';
+import { executeD1Batch } from '@/lib/d1-batch';
+import { invalidate } from '@/lib/standings-cache';
+import { applyPlayerMerge, previewPlayerMerge } from '@/lib/player-merge-service';
+
+const audit = { userId: 'admin', ipAddress: '127.0.0.1', userAgent: 'jest' };
+
+describe('player merge service', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    prisma.player.findUnique.mockImplementation(({ where }) =>
+      Promise.resolve(
+        {
+          dup: { id: 'dup', nickname: 'ale2', userId: 'u1', deletedAt: null, version: 1 },
+          keep: { id: 'keep', nickname: 'ale', userId: null, deletedAt: null, version: 4 },
+        }[where.id] ?? null,
+      ),
+    );
+    prisma.bMQualification.findMany.mockResolvedValue([
+      { playerId: 'dup', tournamentId: 't1' },
+      { playerId: 'keep', tournamentId: 't2' },
+    ]);
+    prisma.mRQualification.findMany.mockResolvedValue([]);
+    prisma.gPQualification.findMany.mockResolvedValue([]);
+    prisma.tournamentPlayerScore.findMany.mockResolvedValue([{ playerId: 'dup', tournamentId: 't1' }]);
+    prisma.teamMember.findMany.mockResolvedValue([{ playerId: 'dup', tournamentId: 't1' }]);
+    prisma.tournamentStaff.findMany.mockResolvedValue([
+      { playerId: 'dup', tournamentId: 't1', role: 'STAFF' },
+      { playerId: 'keep', tournamentId: 't1', role: 'TA_OPERATOR' },
+    ]);
+    prisma.tournamentRegistration.findMany.mockResolvedValue([
+      { playerId: 'dup', tournamentId: 't1' },
+      { playerId: 'keep', tournamentId: 't2' },
+    ]);
+    prisma.tTEntry.findMany.mockResolvedValue([
+      { playerId: 'dup', partnerId: null, tournamentId: 't1', stage: 'qualification' },
+      { playerId: 'p9', partnerId: 'dup', tournamentId: 't1', stage: 'qualification' },
+    ]);
+    prisma.tTPhaseLifeAdjustment.findMany.mockResolvedValue([]);
+    prisma.scoreEntryLog.findMany.mockResolvedValue([{ tournamentId: 't1' }]);
+    prisma.matchCharacterUsage.findMany.mockResolvedValue([]);
+    prisma.bMMatch.findMany.mockResolvedValue([
+      { id: 'm1', tournamentId: 't1', player1Id: 'dup', player2Id: 'p9', winnerOverrideId: 'dup' },
+    ]);
+    prisma.mRMatch.findMany.mockResolvedValue([]);
+    prisma.gPMatch.findMany.mockResolvedValue([]);
+    executeD1Batch.mockResolvedValue([]);
+  });
+
+  it('counts the rows to move for the source player only', async () => {
+    const { plan } = await previewPlayerMerge('dup', 'keep');
+
+    expect(plan.counts).toMatchObject({
+      bmQualifications: 1,
+      bmMatchesAsPlayer1: 1,
+      bmMatchesAsPlayer2: 0,
+      bmWinnerOverrides: 1,
+      ttEntries: 1,
+      ttPartners: 1,
+      scoreEntryLogs: 1,
+      tournamentScores: 1,
+      teamMemberships: 1,
+      staffRoles: 1,
+      registrations: 1,
+    });
+    expect(plan.blocking).toBe(false);
+    expect(plan.transferUserLink).toBe(true);
+    expect(plan.tournamentIds).toEqual(['t1']);
+  });
+
+  it('reports a missing or BREAK player as not found', async () => {
+    await expect(previewPlayerMerge('dup', 'missing')).rejects.toMatchObject({ code: 'PLAYER_NOT_FOUND' });
+    await expect(previewPlayerMerge('__BREAK__', 'keep')).rejects.toMatchObject({ code: 'PLAYER_NOT_FOUND' });
+  });
+
+  it('moves every reference, soft-deletes the source and audits in one batch', async () => {
+    const { digest } = await previewPlayerMerge('dup', 'keep');
+
+    await applyPlayerMerge({ sourceId: 'dup', targetId: 'keep', expectedDigest: digest, audit });
+
+    expect(executeD1Batch).toHaveBeenCalledTimes(1);
+    const statements = executeD1Batch.mock.calls[0][0];
+    expect(statements[0].sql).toContain('"deletedAt" = CURRENT_TIMESTAMP');
+    expect(statements[0].values).toEqual(['dup', 1]);
+    expect(statements[2].values).toEqual(['u1', 'keep', 4]);
+
+    const moved = statements.filter((statement) => /^UPDATE "\w+" SET "\w+" = \? WHERE/.test(statement.sql));
+    expect(
+      moved.map((statement) =>
+        statement.sql
+          .match(/^UPDATE "(\w+)" SET "(\w+)"/)
+          .slice(1)
+          .join('.'),
+      ),
+    ).toEqual([
+      'BMQualification.playerId',
+      'BMMatch.player1Id',
+      'BMMatch.winnerOverrideId',
+      'TTEntry.playerId',
+      'TTEntry.partnerId',
+      'ScoreEntryLog.playerId',
+      'TournamentPlayerScore.playerId',
+      'TeamMember.playerId',
+      'TournamentStaff.playerId',
+      'TournamentRegistration.playerId',
+    ]);
+    expect(moved.every((statement) => statement.values[0] === 'keep' && statement.values[1] === 'dup')).toBe(true);
+
+    const json = statements.find((statement) => statement.sql.includes('"TTPhaseRound" SET "results"'));
+    expect(json.values).toEqual(['"dup"', '"keep"', '"dup"']);
+
+    const auditRows = statements.filter((statement) => statement.sql.includes('INSERT INTO "AuditLog"'));
+    expect(auditRows).toHaveLength(1);
+    expect(auditRows[0].values).toContain('MERGE_PLAYERS');
+    expect(invalidate).toHaveBeenCalledWith('t1');
+  });
+
+  it('refuses to merge when a unique key collides', async () => {
+    prisma.bMQualification.findMany.mockResolvedValue([
+      { playerId: 'dup', tournamentId: 't1' },
+      { playerId: 'keep', tournamentId: 't1' },
+    ]);
+    const { digest, plan } = await previewPlayerMerge('dup', 'keep');
+    expect(plan.collisions).toEqual([{ type: 'bm_qualification', tournamentId: 't1' }]);
+
+    await expect(
+      applyPlayerMerge({ sourceId: 'dup', targetId: 'keep', expectedDigest: digest, audit }),
+    ).rejects.toMatchObject({ code: 'PLAYER_MERGE_COLLISION' });
+    expect(executeD1Batch).not.toHaveBeenCalled();
+  });
+
+  it('refuses to merge when both players are on a team in the same tournament', async () => {
+    prisma.teamMember.findMany.mockResolvedValue([
+      { playerId: 'dup', tournamentId: 't1' },
+      { playerId: 'keep', tournamentId: 't1' },
+    ]);
+
+    const { plan } = await previewPlayerMerge('dup', 'keep');
+
+    expect(plan.collisions).toEqual([{ type: 'team_member', tournamentId: 't1' }]);
+    expect(plan.blocking).toBe(true);
+  });
+
+  it('refuses to merge when both players hold the same staff role in a tournament', async () => {
+    prisma.tournamentStaff.findMany.mockResolvedValue([
+      { playerId: 'dup', tournamentId: 't1', role: 'STAFF' },
+      { playerId: 'keep', tournamentId: 't1', role: 'STAFF' },
+    ]);
+
+    const { plan } = await previewPlayerMerge('dup', 'keep');
+
+    expect(plan.collisions).toEqual([{ type: 'staff_role', tournamentId: 't1', role: 'STAFF' }]);
+    expect(plan.blocking).toBe(true);
+  });
+
+  it('refuses to merge when both players registered for the same tournament', async () => {
+    prisma.tournamentRegistration.findMany.mockResolvedValue([
+      { playerId: 'dup', tournamentId: 't2' },
+      { playerId: 'keep', tournamentId: 't2' },
+    ]);
+
+    const { plan } = await previewPlayerMerge('dup', 'keep');
+
+    expect(plan.collisions).toEqual([{ type: 'registration', tournamentId: 't2' }]);
+    expect(plan.blocking).toBe(true);
+  });
+
+  it('maps stale digests and in-batch postcondition failures to a stale preview', async () => {
+    await expect(
+      applyPlayerMerge({ sourceId: 'dup', targetId: 'keep', expectedDigest: 'f'.repeat(64), audit }),
+    ).rejects.toMatchObject({ code: 'PLAYER_MERGE_STALE_PREVIEW' });
+
+    const { digest } = await previewPlayerMerge('dup', 'keep');
+    executeD1Batch.mockRejectedValueOnce(new Error('D1_ERROR: bad JSON path: $..PLAYER_MERGE_POSTCONDITION_FAILED'));
+    await expect(
+      applyPlayerMerge({ sourceId: 'dup', targetId: 'keep', expectedDigest: digest, audit }),
+    ).rejects.toMatchObject({ code: 'PLAYER_MERGE_STALE_PREVIEW' });
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ * Unit tests for player merge planning: collision detection per unique
+ * constraint, head-to-head matches, user link handling and digest stability.
+ */
+import {
+  buildPlayerMergePlan,
+  digestPlayerMergePlan,
+  type PlayerMergeCounts,
+  type PlayerMergeKeys,
+  type PlayerMergeSnapshot,
+} from '@/lib/player-merge';
+
+function keys(overrides: Partial<PlayerMergeKeys> = {}): PlayerMergeKeys {
+  return {
+    bmQualifications: [],
+    mrQualifications: [],
+    gpQualifications: [],
+    tournamentScores: [],
+    teamMembers: [],
+    staffRoles: [],
+    registrations: [],
+    ttEntries: [],
+    characterUsages: [],
+    ...overrides,
+  };
+}
+
+const counts = { bmQualifications: 1, ttEntries: 1 } as unknown as PlayerMergeCounts;
+
+function snapshot(overrides: Partial<PlayerMergeSnapshot> = {}): PlayerMergeSnapshot {
+  return {
+    source: { id: 'dup', nickname: 'ale2', userId: null, deletedAt: null, version: 1 },
+    target: { id: 'keep', nickname: 'ale', userId: null, deletedAt: null, version: 4 },
+    sourceKeys: keys({ bmQualifications: ['t1'], ttEntries: [{ tournamentId: 't1', stage: 'qualification' }] }),
+    targetKeys: keys({ bmQualifications: ['t2'], ttEntries: [{ tournamentId: 't1', stage: 'phase1' }] }),
+    headToHeadMatches: [],
+    counts,
+    tournamentIds: ['t1', 't1'],
+    ...overrides,
+  };
+}
+
+describe('buildPlayerMergePlan', () => {
+  it('allows a merge when no keys overlap', () => {
+    const plan = buildPlayerMergePlan(snapshot());
+    expect(plan.collisions).toEqual([]);
+    expect(plan.blocking).toBe(false);
+    expect(plan.tournamentIds).toEqual(['t1']);
+  });
+
+  it('reports every unique-constraint collision and head-to-head match', () => {
+    const plan = buildPlayerMergePlan(
+      snapshot({
+        sourceKeys: keys({
+          bmQualifications: ['t1'],
+          tournamentScores: ['t1'],
+          teamMembers: ['t1'],
+          staffRoles: [{ tournamentId: 't1', role: 'STAFF' }],
+          registrations: ['t1'],
+          ttEntries: [{ tournamentId: 't1', stage: 'qualification' }],
+          characterUsages: [{ matchId: 'm1', matchType: 'BM' }],
+        }),
+        targetKeys: keys({
+          bmQualifications: ['t1'],
+          tournamentScores: ['t1'],
+          teamMembers: ['t1'],
+          staffRoles: [{ tournamentId: 't1', role: 'STAFF' }],
+          registrations: ['t1'],
+          ttEntries: [{ tournamentId: 't1', stage: 'qualification' }],
+          characterUsages: [{ matchId: 'm1', matchType: 'BM' }],
+        }),
+        headToHeadMatches: [{ matchType: 'BM', matchId: 'm1', tournamentId: 't1' }],
+      }),
+    );
+
+    expect(plan.collisions).toEqual([
+      { type: 'bm_qualification', tournamentId: 't1' },
+      { type: 'tournament_score', tournamentId: 't1' },
+      { type: 'team_member', tournamentId: 't1' },
+      { type: 'registration', tournamentId: 't1' },
+      { type: 'staff_role', tournamentId: 't1', role: 'STAFF' },
+      { type: 'ta_entry', tournamentId: 't1', stage: 'qualification' },
+      { type: 'character_usage', matchType: 'BM', matchId: 'm1' },
+      { type: 'head_to_head_match', tournamentId: 't1', matchType: 'BM', matchId: 'm1' },
+    ]);
+    expect(plan.blocking).toBe(true);
+  });
+
+  it('transfers a user link only when the target has none', () => {
+    const source = { id: 'dup', nickname: 'ale2', userId: 'u1', deletedAt: null, version: 1 };
+    expect(buildPlayerMergePlan(snapshot({ source })).transferUserLink).toBe(true);
+
+    const linkedTarget = { id: 'keep', nickname: 'ale', userId: 'u2', deletedAt: null, version: 4 };
+    const plan = buildPlayerMergePlan(snapshot({ source, target: linkedTarget }));
+    expect(plan.transferUserLink).toBe(false);
+    expect(plan.collisions).toEqual([{ type: 'user_link' }]);
+  });
+
+  it('rejects self-merges and deleted players', () => {
+    const base = snapshot();
+    expect(() => buildPlayerMergePlan({ ...base, target: { ...base.source } })).toThrow(
+      expect.objectContaining({ code: 'PLAYER_MERGE_SAME_PLAYER' }),
+    );
+    expect(() => buildPlayerMergePlan({ ...base, source: { ...base.source, deletedAt: new Date() } })).toThrow(
+      expect.objectContaining({ code: 'PLAYER_MERGE_DELETED_PLAYER' }),
+    );
+  });
+});
+
+describe('digestPlayerMergePlan', () => {
+  it('changes when either player version moves', async () => {
+    const digest = await digestPlayerMergePlan(buildPlayerMergePlan(snapshot()));
+    const base = snapshot();
+    const bumped = await digestPlayerMergePlan(
+      buildPlayerMergePlan({ ...base, target: { ...base.target, version: 5 } }),
+    );
+
+    expect(digest).toMatch(/^[a-f0-9]{64}$/);
+    expect(bumped).not.toBe(digest);
+  });
+});
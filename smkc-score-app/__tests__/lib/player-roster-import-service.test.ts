@@ -0,0 +1,101 @@
+// @ts-nocheck - Prisma and D1 batch mocks deliberately use compact partial shapes.
+
+jest.mock('@/lib/prisma');
+jest.mock('@/lib/d1-batch');
+jest.mock('@/lib/password-utils');
+jest.mock('@/lib/audit-log', () => ({
+  AUDIT_ACTIONS: { IMPORT_PLAYERS: 'IMPORT_PLAYERS' },
+  buildAuditLogData: jest.fn((params) => ({
+    ...params,
+    userId: params.userId ?? null,
+  })),
+}));
+
+import prisma from '@/lib/prisma';
+import { executeD1Batch } from '@/lib/d1-batch';
+import { generateSecurePassword, hashPassword } from '@/lib/password-utils';
+import { applyRosterImport, previewRosterImport } from '@/lib/player-roster-import-service';
+
+function csv(text: string): ArrayBuffer {
+  return new TextEncoder().encode(text).buffer;
+}
+
+const file = csv('nickname,name,country\nale,Alessandro S,IT\nnew,Newcomer,JP\n');
+const audit = { userId: 'admin', ipAddress: '127.0.0.1', userAgent: 'jest' };
+
+describe('player roster import service', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    prisma.player.findMany.mockResolvedValue([
+      { id: 'p1', name: 'Alessandro', nickname: 'ale', country: 'IT', noCamera: false, deletedAt: null, version: 2 },
+    ]);
+    generateSecurePassword.mockReturnValue('TempPass1234');
+    hashPassword.mockResolvedValue('hashed');
+    executeD1Batch.mockResolvedValue([]);
+  });
+
+  it('previews without writing and excludes the BREAK player from matching', async () => {
+    const preview = await previewRosterImport('roster.csv', file);
+
+    expect(preview.plan.summary).toMatchObject({ create: 1, update: 1 });
+    expect(preview.digest).toMatch(/^[a-f0-9]{64}$/);
+    expect(prisma.player.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { id: { not: '__BREAK__' } } }),
+    );
+    expect(executeD1Batch).not.toHaveBeenCalled();
+  });
+
+  it('applies creates, updates and one audit row in a single batch', async () => {
+    const { digest } = await previewRosterImport('roster.csv', file);
+
+    const result = await applyRosterImport({ fileName: 'roster.csv', content: file, expectedDigest: digest, audit });
+
+    expect(result.created).toEqual([expect.objectContaining({ nickname: 'new', temporaryPassword: 'TempPass1234' })]);
+    expect(result.updated).toEqual([{ id: 'p1', nickname: 'ale' }]);
+    expect(executeD1Batch).toHaveBeenCalledTimes(1);
+
+    const statements = executeD1Batch.mock.calls[0][0];
+    const auditStatements = statements.filter((statement) => statement.sql.includes('INSERT INTO "AuditLog"'));
+    expect(auditStatements).toHaveLength(1);
+    expect(auditStatements[0].values).toContain('IMPORT_PLAYERS');
+    expect(auditStatements[0].values.join(' ')).not.toContain('TempPass1234');
+
+    const insert = statements.find((statement) => statement.sql.includes('INSERT INTO "Player"'));
+    expect(JSON.parse(insert.values[0])).toEqual([
+      expect.objectContaining({ nickname: 'new', name: 'Newcomer', country: 'JP', password: 'hashed' }),
+    ]);
+    const update = statements.find((statement) => statement.sql.includes('UPDATE "Player"'));
+    expect(JSON.parse(update.values[0])).toEqual([
+      { id: 'p1', version: 2, name: 'Alessandro S', country: null, noCamera: null },
+    ]);
+  });
+
+  it('rejects a stale digest before writing', async () => {
+    await expect(
+      applyRosterImport({ fileName: 'roster.csv', content: file, expectedDigest: 'f'.repeat(64), audit }),
+    ).rejects.toMatchObject({ code: 'ROSTER_IMPORT_STALE_PREVIEW' });
+    expect(executeD1Batch).not.toHaveBeenCalled();
+  });
+
+  it('refuses plans with blocking rows', async () => {
+    const bad = csv('nickname,name,country\nx,X,Atlantis\n');
+    const { digest } = await previewRosterImport('roster.csv', bad);
+
+    await expect(
+      applyRosterImport({ fileName: 'roster.csv', content: bad, expectedDigest: digest, audit }),
+    ).rejects.toMatchObject({ code: 'ROSTER_IMPORT_HAS_ERRORS' });
+  });
+
+  it('maps in-batch guard and unique failures to a stale preview', async () => {
+    const { digest } = await previewRosterImport('roster.csv', file);
+    executeD1Batch.mockRejectedValueOnce(new Error('D1_ERROR: bad JSON path: $..ROSTER_IMPORT_STALE_PREVIEW'));
+    await expect(
+      applyRosterImport({ fileName: 'roster.csv', content: file, expectedDigest: digest, audit }),
+    ).rejects.toMatchObject({ code: 'ROSTER_IMPORT_STALE_PREVIEW' });
+
+    executeD1Batch.mockRejectedValueOnce(new Error('UNIQUE constraint failed: Player.nickname'));
+    await expect(
+      applyRosterImport({ fileName: 'roster.csv', content: file, expectedDigest: digest, audit }),
+    ).rejects.toMatchObject({ code: 'ROSTER_IMPORT_STALE_PREVIEW' });
+  });
+});
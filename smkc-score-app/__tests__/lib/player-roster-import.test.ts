@@ -0,0 +1,124 @@
+/**
+ * Unit tests for roster file parsing and dry-run planning.
+ *
+ * Covers CSV/XLSX parsing (header aliases, BOM, blank rows, limits), plan
+ * statuses for every row outcome, and digest stability.
+ */
+import * as XLSX from '@e965/xlsx';
+import {
+  buildRosterImportPlan,
+  digestRosterImportPlan,
+  MAX_ROSTER_IMPORT_ROWS,
+  parseRosterFile,
+  RosterImportError,
+  type RosterExistingPlayer,
+  type RosterImportRow,
+} from '@/lib/player-roster-import';
+
+function csv(text: string): ArrayBuffer {
+  return new TextEncoder().encode(text).buffer as ArrayBuffer;
+}
+
+function row(overrides: Partial<RosterImportRow>): RosterImportRow {
+  return { rowNumber: 2, nickname: 'ale', name: 'Alessandro', country: 'IT', noCamera: null, ...overrides };
+}
+
+const existing: RosterExistingPlayer[] = [
+  { id: 'p1', name: 'Alessandro', nickname: 'ale', country: 'IT', noCamera: false, deletedAt: null, version: 3 },
+  { id: 'p2', name: 'Taro', nickname: 'Taro', country: 'JP', noCamera: false, deletedAt: null, version: 0 },
+  { id: 'p3', name: 'Gone', nickname: 'gone', country: null, noCamera: false, deletedAt: new Date(), version: 1 },
+];
+
+describe('parseRosterFile', () => {
+  it('parses Google Forms style CSV with a BOM and suffixed headers', () => {
+    const rows = parseRosterFile(
+      'entries.csv',
+      csv('﻿Timestamp,Nickname (shown on stream),名前,Country,No camera\n2025/1/1,ale,Alessandro,Italy,yes\n,,,,\n'),
+    );
+    expect(rows).toEqual([{ rowNumber: 2, nickname: 'ale', name: 'Alessandro', country: 'Italy', noCamera: true }]);
+  });
+
+  it('parses the first sheet of an XLSX workbook', () => {
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(
+      workbook,
+      XLSX.utils.aoa_to_sheet([
+        ['ニックネーム', 'Name', '国籍'],
+        ['たろう', 'Taro', 'JP'],
+      ]),
+      'Form Responses 1',
+    );
+    const buffer = XLSX.write(workbook, { type: 'array', bookType: 'xlsx' }) as ArrayBuffer;
+
+    expect(parseRosterFile('roster.xlsx', buffer)).toEqual([
+      { rowNumber: 2, nickname: 'たろう', name: 'Taro', country: 'JP', noCamera: null },
+    ]);
+  });
+
+  it('rejects files without a nickname column or with too many rows', () => {
+    expect(() => parseRosterFile('a.csv', csv('name,country\nA,JP\n'))).toThrow(
+      expect.objectContaining({ code: 'ROSTER_IMPORT_MISSING_COLUMNS' }),
+    );
+    const body = Array.from({ length: MAX_ROSTER_IMPORT_ROWS + 1 }, (_, i) => `p${i}`).join('\n');
+    expect(() => parseRosterFile('a.csv', csv(`nickname\n${body}\n`))).toThrow(RosterImportError);
+    expect(() => parseRosterFile('a.csv', new ArrayBuffer(0))).toThrow(
+      expect.objectContaining({ code: 'ROSTER_IMPORT_EMPTY' }),
+    );
+  });
+});
+
+describe('buildRosterImportPlan', () => {
+  it('classifies creates, updates, unchanged and blocking rows', () => {
+    const plan = buildRosterImportPlan(
+      [
+        row({ rowNumber: 2, nickname: 'ale', country: 'Japan' }),
+        row({ rowNumber: 3, nickname: 'new', name: 'Newcomer', country: '' }),
+        row({ rowNumber: 4, nickname: 'taro', name: 'Taro', country: 'JP' }),
+        row({ rowNumber: 5, nickname: 'NEW', name: 'Dup' }),
+        row({ rowNumber: 6, nickname: 'gone', name: 'Gone' }),
+        row({ rowNumber: 7, nickname: 'x', name: 'X', country: 'Atlantis' }),
+        row({ rowNumber: 8, nickname: 'noname', name: '' }),
+        row({ rowNumber: 9, nickname: '' }),
+      ],
+      existing,
+    );
+
+    expect(plan.rows.map((r) => [r.rowNumber, r.status, r.reason ?? null])).toEqual([
+      [2, 'update', null],
+      [3, 'create', null],
+      [4, 'conflict', 'NICKNAME_CASE_MISMATCH'],
+      [5, 'conflict', 'DUPLICATE_IN_FILE'],
+      [6, 'conflict', 'DELETED_PLAYER'],
+      [7, 'invalid_country', 'INVALID_COUNTRY'],
+      [8, 'invalid', 'MISSING_NAME'],
+      [9, 'invalid', 'MISSING_NICKNAME'],
+    ]);
+    expect(plan.rows[0]).toMatchObject({
+      playerId: 'p1',
+      playerVersion: 3,
+      changes: { country: { from: 'IT', to: 'JP' } },
+    });
+    expect(plan.summary).toEqual({ create: 1, update: 1, unchanged: 0, conflict: 3, invalid_country: 1, invalid: 2 });
+    expect(plan.blocking).toBe(true);
+  });
+
+  it('keeps registered values for blank cells', () => {
+    const plan = buildRosterImportPlan([row({ name: '', country: '', noCamera: null })], existing);
+    expect(plan.rows[0]).toMatchObject({ status: 'unchanged', changes: {} });
+    expect(plan.blocking).toBe(false);
+  });
+});
+
+describe('digestRosterImportPlan', () => {
+  it('changes when a matched player version moves', async () => {
+    const before = await digestRosterImportPlan(buildRosterImportPlan([row({ name: 'Ale S' })], existing));
+    const same = await digestRosterImportPlan(buildRosterImportPlan([row({ name: 'Ale S' })], existing));
+    const bumped = await digestRosterImportPlan(
+      buildRosterImportPlan([row({ name: 'Ale S' })], [{ ...existing[0], version: 4 }]),
+    );
+
+    expect(before).toMatch(/^[a-f0-9]{64}$/);
+    expect(same).toBe(before);
+    expect(bumped).not.toBe(before);
+  });
+});
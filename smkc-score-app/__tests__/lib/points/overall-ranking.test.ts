@@ -37,6 +37,10 @@ jest.mock('@/lib/points/finals-points', () => ({
   getFinalsPoints: jest.fn(),
 }));
 
+jest.mock('@/lib/finals-seed-snapshot', () => ({
+  resolveFinalsSeedSnapshot: jest.fn(),
+}));
+
 import {
   calculateTAQualificationPointsFromDB,
   calculateBMQualificationPointsFromDB,
@@ -78,9 +82,9 @@ const mockPrisma = {
   mRQualification: { findMany: jest.fn() },
   gPQualification: { findMany: jest.fn() },
   // Match models for finals bracket analysis
-  bMMatch: { findMany: jest.fn() },
-  mRMatch: { findMany: jest.fn() },
-  gPMatch: { findMany: jest.fn() },
+  bMMatch: { findMany: jest.fn(), count: jest.fn() },
+  mRMatch: { findMany: jest.fn(), count: jest.fn() },
+  gPMatch: { findMany: jest.fn(), count: jest.fn() },
   player: { findMany: jest.fn() },
   tournamentPlayerScore: {
     findMany: jest.fn(),
@@ -668,6 +672,23 @@ describe('Overall Ranking module', () => {
       expect(positions.find((p) => p.playerId === 'p17')?.position).toBe(21);
     });
 
+    it('places a 12-player bracket by its own Losers rounds', async () => {
+      mockPrisma.bMMatch.findMany.mockResolvedValue([
+        makeMatch(22, 'grand_final', 'p1', 'p2', 5, 3),
+        makeMatch(21, 'losers_final', 'p2', 'p3', 5, 2),
+        makeMatch(18, 'losers_r4', 'p4', 'p5', 5, 1),
+        makeMatch(16, 'losers_r3', 'p6', 'p7', 5, 0),
+        makeMatch(12, 'losers_r2', 'p8', 'p9', 5, 0),
+      ]);
+
+      const positions = await getMatchFinalsPositions(mockPrisma as any, TOURNAMENT_ID, 'BM');
+
+      expect(positions.find((p) => p.playerId === 'p3')?.position).toBe(3);
+      expect(positions.find((p) => p.playerId === 'p5')?.position).toBe(5);
+      expect(positions.find((p) => p.playerId === 'p7')?.position).toBe(7);
+      expect(positions.find((p) => p.playerId === 'p9')?.position).toBe(9);
+    });
+
     it('uses points1/points2 for GP mode', async () => {
       mockPrisma.gPMatch.findMany.mockResolvedValue([
         { matchNumber: 16, round: 'grand_final', player1Id: 'p1', player2Id: 'p2', points1: 18, points2: 15 },
@@ -697,6 +718,59 @@ describe('Overall Ranking module', () => {
 
       expect(positions.find((p) => p.position === 1)?.playerId).toBe('p1');
     });
+
+    it('places single-elimination finals by round, with a third-place match deciding 3rd/4th', async () => {
+      mockPrisma.bMMatch.findMany.mockResolvedValue([
+        makeMatch(1, 'single_qf', 'p1', 'p8', 5, 0),
+        makeMatch(2, 'single_qf', 'p4', 'p5', 5, 2),
+        makeMatch(5, 'single_sf', 'p1', 'p4', 5, 1),
+        makeMatch(6, 'single_sf', 'p2', 'p3', 5, 3),
+        makeMatch(7, 'single_third_place', 'p4', 'p3', 2, 5),
+        makeMatch(8, 'single_final', 'p1', 'p2', 5, 4),
+      ]);
+      mockPrisma.bMMatch.count.mockResolvedValue(8);
+
+      const positions = await getMatchFinalsPositions(mockPrisma as any, TOURNAMENT_ID, 'BM');
+
+      expect(Object.fromEntries(positions.map((p) => [p.playerId, p.position]))).toEqual({
+        p1: 1,
+        p2: 2,
+        p3: 3,
+        p4: 4,
+        p5: 5,
+        p8: 5,
+      });
+    });
+
+    it('places a round-robin pool from its standings once every match is complete', async () => {
+      jest.requireMock('@/lib/finals-seed-snapshot').resolveFinalsSeedSnapshot.mockResolvedValue({
+        snapshot: [{ playerId: 'p1' }, { playerId: 'p2' }, { playerId: 'p3' }],
+      });
+      mockPrisma.mRMatch.findMany.mockResolvedValue([
+        makeMatch(1, 'round_robin_r1', 'p1', 'p2', 5, 3),
+        makeMatch(2, 'round_robin_r2', 'p2', 'p3', 5, 0),
+        makeMatch(3, 'round_robin_r3', 'p3', 'p1', 5, 4),
+      ]);
+      mockPrisma.mRMatch.count.mockResolvedValue(3);
+
+      const positions = await getMatchFinalsPositions(mockPrisma as any, TOURNAMENT_ID, 'MR');
+
+      /* One win each: p2 leads on score difference (+3), p1 (+1) beats p3 (-4). */
+      expect(positions).toEqual([
+        { playerId: 'p2', position: 1 },
+        { playerId: 'p1', position: 2 },
+        { playerId: 'p3', position: 3 },
+      ]);
+    });
+
+    it('leaves a round-robin pool unplaced while matches remain', async () => {
+      mockPrisma.mRMatch.findMany.mockResolvedValue([makeMatch(1, 'round_robin_r1', 'p1', 'p2', 5, 3)]);
+      mockPrisma.mRMatch.count.mockResolvedValue(3);
+
+      const positions = await getMatchFinalsPositions(mockPrisma as any, TOURNAMENT_ID, 'MR');
+
+      expect(positions).toEqual([]);
+    });
   });
 
   // =========================================================================
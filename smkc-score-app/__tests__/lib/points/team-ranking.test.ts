@@ -0,0 +1,187 @@
+/**
+ * @module __tests__/lib/points/team-ranking.test.ts
+ *
+ * Test suite for team standings (team-ranking.ts):
+ * - parseTeamSettings() / readStoredTeamSettings(): validation and defaults.
+ * - parseTeamInput(): explicit team bodies.
+ * - buildCountryTeams(): grouping by resolved country code.
+ * - calculateTeamRankings(): best-N totals, per-mode picks and tie ranks.
+ */
+import { describe, it, expect } from '@jest/globals';
+import {
+  buildCountryTeams,
+  calculateTeamRankings,
+  parseTeamInput,
+  parseTeamSettings,
+  readStoredTeamSettings,
+  TeamRankingError,
+} from '@/lib/points/team-ranking';
+import type { PlayerTournamentScore } from '@/lib/points/overall-ranking';
+
+function score(
+  playerId: string,
+  modes: { ta?: number; bm?: number; mr?: number; gp?: number },
+  playerCountry: string | null = null,
+): PlayerTournamentScore {
+  const { ta = 0, bm = 0, mr = 0, gp = 0 } = modes;
+  return {
+    playerId,
+    playerName: playerId,
+    playerNickname: playerId,
+    playerCountry,
+    taQualificationPoints: ta,
+    bmQualificationPoints: bm,
+    mrQualificationPoints: mr,
+    gpQualificationPoints: gp,
+    taFinalsPoints: 0,
+    bmFinalsPoints: 0,
+    mrFinalsPoints: 0,
+    gpFinalsPoints: 0,
+    totalPoints: ta + bm + mr + gp,
+    overallRank: null,
+  };
+}
+
+describe('Team ranking', () => {
+  describe('parseTeamSettings', () => {
+    it('fills omitted fields from the defaults', () => {
+      expect(parseTeamSettings({ rule: 'best_n_per_mode' })).toEqual({
+        grouping: 'country',
+        rule: 'best_n_per_mode',
+        bestN: 3,
+      });
+      expect(parseTeamSettings({ bestN: 2 }, { grouping: 'explicit', rule: 'best_n_total', bestN: 4 })).toEqual({
+        grouping: 'explicit',
+        rule: 'best_n_total',
+        bestN: 2,
+      });
+    });
+
+    it.each([
+      [{ grouping: 'region' }, 'grouping'],
+      [{ rule: 'average' }, 'rule'],
+      [{ bestN: 0 }, 'bestN'],
+      [{ bestN: 11 }, 'bestN'],
+      [{ bestN: 2.5 }, 'bestN'],
+    ])('rejects %p', (body, field) => {
+      expect(() => parseTeamSettings(body)).toThrow(TeamRankingError);
+      try {
+        parseTeamSettings(body);
+      } catch (error) {
+        expect((error as TeamRankingError).field).toBe(field);
+      }
+    });
+
+    it('treats missing or unreadable stored settings as disabled', () => {
+      expect(readStoredTeamSettings(null)).toBeNull();
+      expect(readStoredTeamSettings({ rule: 'average' })).toBeNull();
+      expect(readStoredTeamSettings({ grouping: 'explicit' })).toMatchObject({ grouping: 'explicit' });
+    });
+  });
+
+  describe('parseTeamInput', () => {
+    it('trims the name and normalises the country code', () => {
+      expect(parseTeamInput({ name: ' Kanto ', country: 'jp', playerIds: ['p1'] })).toEqual({
+        name: 'Kanto',
+        country: 'JP',
+        playerIds: ['p1'],
+      });
+      expect(parseTeamInput({ name: 'Kanto', country: '' })).toEqual({ name: 'Kanto', country: null, playerIds: [] });
+    });
+
+    it('rejects unknown countries and duplicate players', () => {
+      expect(() => parseTeamInput({ name: 'Kanto', country: 'Atlantis' })).toThrow('ISO 3166-1');
+      expect(() => parseTeamInput({ name: 'Kanto', playerIds: ['p1', 'p1'] })).toThrow('duplicates');
+      expect(() => parseTeamInput({ name: ' ' })).toThrow('name');
+    });
+  });
+
+  describe('buildCountryTeams', () => {
+    it('groups codes and legacy names together and skips players without a country', () => {
+      const teams = buildCountryTeams([
+        { playerId: 'a', playerCountry: 'JP' },
+        { playerId: 'b', playerCountry: 'Japan' },
+        { playerId: 'c', playerCountry: 'FR' },
+        { playerId: 'd', playerCountry: null },
+      ]);
+
+      expect(teams).toEqual([
+        { id: 'country:JP', name: 'Japan', country: 'JP', playerIds: ['a', 'b'] },
+        { id: 'country:FR', name: 'France', country: 'FR', playerIds: ['c'] },
+      ]);
+    });
+  });
+
+  describe('calculateTeamRankings', () => {
+    const scores = [
+      score('a1', { ta: 900, bm: 100 }),
+      score('a2', { ta: 100, bm: 800 }),
+      score('a3', { ta: 600, bm: 300 }),
+      score('b1', { ta: 1000, bm: 500 }),
+    ];
+    const teams = [
+      { id: 'A', name: 'Alpha', country: null, playerIds: ['a1', 'a2', 'a3'] },
+      { id: 'B', name: 'Bravo', country: null, playerIds: ['b1'] },
+    ];
+
+    it('sums the best N members by total points', () => {
+      const [first, second] = calculateTeamRankings(teams, scores, {
+        grouping: 'explicit',
+        rule: 'best_n_total',
+        bestN: 2,
+      });
+
+      /* Alpha: a1 (1000) + a2 (900) or a3 (900) — a2 wins the name tie-break. */
+      expect(first).toMatchObject({ teamId: 'A', rank: 1, totalPoints: 1900, modePoints: { ta: 1000, bm: 900 } });
+      expect(first.members.map((m) => [m.playerId, m.countedModes.length])).toEqual([
+        ['a1', 4],
+        ['a2', 4],
+        ['a3', 0],
+      ]);
+      /* A team with fewer than N members scores what it has. */
+      expect(second).toMatchObject({ teamId: 'B', rank: 2, totalPoints: 1500 });
+    });
+
+    it('re-picks the best N members in each mode', () => {
+      const [alpha] = calculateTeamRankings(teams, scores, {
+        grouping: 'explicit',
+        rule: 'best_n_per_mode',
+        bestN: 2,
+      });
+
+      expect(alpha.modePoints).toEqual({ ta: 1500, bm: 1100, mr: 0, gp: 0 });
+      expect(alpha.totalPoints).toBe(2600);
+      expect(alpha.members.find((m) => m.playerId === 'a3')?.countedModes).toEqual(
+        expect.arrayContaining(['ta', 'bm']),
+      );
+    });
+
+    it('shares a rank between tied teams and lists them by name', () => {
+      const rankings = calculateTeamRankings(
+        [
+          { id: 'Z', name: 'Zulu', country: null, playerIds: ['z'] },
+          { id: 'Y', name: 'Yankee', country: null, playerIds: ['y'] },
+          { id: 'X', name: 'X-ray', country: null, playerIds: ['x'] },
+        ],
+        [score('z', { gp: 500 }), score('y', { gp: 500 }), score('x', { gp: 100 })],
+        { grouping: 'explicit', rule: 'best_n_total', bestN: 1 },
+      );
+
+      expect(rankings.map((entry) => [entry.name, entry.rank])).toEqual([
+        ['Yankee', 1],
+        ['Zulu', 1],
+        ['X-ray', 3],
+      ]);
+    });
+
+    it('counts members without a score row as zero', () => {
+      const [entry] = calculateTeamRankings([{ id: 'A', name: 'Alpha', country: null, playerIds: ['missing'] }], [], {
+        grouping: 'explicit',
+        rule: 'best_n_total',
+        bestN: 3,
+      });
+
+      expect(entry).toMatchObject({ rank: 1, totalPoints: 0, members: [] });
+    });
+  });
+});
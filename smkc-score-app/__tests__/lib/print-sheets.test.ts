@@ -0,0 +1,244 @@
+/**
+ * @module __tests__/lib/print-sheets.test.ts
+ *
+ * Test suite for print-sheets.ts: per-player match cards, bracket sheets
+ * with feeder labels for open slots, the TA qualification pair sheet and
+ * the HTML they render to.
+ */
+import { describe, it, expect } from '@jest/globals';
+import { generateBracketStructure } from '@/lib/double-elimination';
+import {
+  buildBracketSheetStage,
+  buildMatchCards,
+  buildTaPairSheet,
+  escapeHtml,
+  getPrintCourses,
+  renderBracketSheet,
+  renderMatchCards,
+  renderTaPairSheet,
+  type PrintMatchRow,
+  type PrintPlayer,
+  type PrintQualificationRow,
+} from '@/lib/print-sheets';
+
+const player = (id: string, nickname = id.toUpperCase()): PrintPlayer => ({ id, name: `Name ${id}`, nickname });
+
+function match(overrides: Partial<PrintMatchRow> & Pick<PrintMatchRow, 'matchNumber'>): PrintMatchRow {
+  return {
+    id: `m${overrides.matchNumber}`,
+    stage: 'qualification',
+    player1Id: null,
+    player2Id: null,
+    player1: null,
+    player2: null,
+    completed: false,
+    ...overrides,
+  };
+}
+
+const qualifications: PrintQualificationRow[] = [
+  { playerId: 'p2', player: player('p2'), group: 'A', seeding: 2 },
+  { playerId: 'p1', player: player('p1'), group: 'A', seeding: 1 },
+  { playerId: 'p3', player: player('p3'), group: 'A', seeding: 3, withdrawnAt: new Date('2024-01-15') },
+];
+
+const qualificationMatches: PrintMatchRow[] = [
+  match({
+    matchNumber: 2,
+    roundNumber: 2,
+    player1Id: 'p2',
+    player2Id: 'p1',
+    player1: player('p2'),
+    player2: player('p1'),
+    player1Side: 2,
+    player2Side: 1,
+    tvNumber: 3,
+    assignedCourses: ['MC1', 'DP1'],
+  }),
+  match({
+    matchNumber: 1,
+    roundNumber: 1,
+    player1Id: 'p1',
+    player2Id: '__BREAK__',
+    player1: player('p1'),
+    isBye: true,
+    completed: true,
+    score1: 4,
+  }),
+  match({
+    matchNumber: 3,
+    roundNumber: 3,
+    player1Id: 'p1',
+    player2Id: 'p3',
+    player1: player('p1'),
+    player2: player('p3'),
+    player1Side: 1,
+    player2Side: 2,
+    completed: true,
+    score1: 3,
+    score2: 1,
+  }),
+];
+
+describe('buildMatchCards', () => {
+  it('lists every qualification match of each active player in round order', () => {
+    const cards = buildMatchCards(qualifications, qualificationMatches, 'mr');
+
+    expect(cards.map((card) => card.player.id)).toEqual(['p1', 'p2']);
+    expect(cards[0].rows).toEqual([
+      {
+        matchId: 'm1',
+        roundNumber: 1,
+        matchNumber: 1,
+        side: 1,
+        opponent: null,
+        tvNumber: null,
+        courses: [],
+        score: null,
+      },
+      {
+        matchId: 'm2',
+        roundNumber: 2,
+        matchNumber: 2,
+        side: 1,
+        opponent: player('p2'),
+        tvNumber: 3,
+        courses: ['MC1', 'DP1'],
+        score: null,
+      },
+      {
+        matchId: 'm3',
+        roundNumber: 3,
+        matchNumber: 3,
+        side: 1,
+        opponent: player('p3'),
+        tvNumber: null,
+        courses: [],
+        score: [3, 1],
+      },
+    ]);
+    expect(cards[1].rows[0]).toMatchObject({ matchNumber: 2, side: 2, opponent: player('p1') });
+  });
+
+  it('prints a single card for the requested player', () => {
+    const cards = buildMatchCards(qualifications, qualificationMatches, 'bm', { playerId: 'p2' });
+    expect(cards.map((card) => card.player.id)).toEqual(['p2']);
+  });
+});
+
+describe('getPrintCourses', () => {
+  it('prints the BM starting Battle Course and the GP cup', () => {
+    expect(getPrintCourses(match({ matchNumber: 1, startingCourseNumber: 2 }), 'bm', 'en')).toEqual([
+      'Battle Course 2',
+    ]);
+    expect(getPrintCourses(match({ matchNumber: 1, cup: 'Star' }), 'gp')).toEqual(['Star']);
+    expect(getPrintCourses(match({ matchNumber: 1, cup: 'Star', assignedCups: ['Flower', 'Special'] }), 'gp')).toEqual([
+      'Flower',
+      'Special',
+    ]);
+  });
+});
+
+describe('buildBracketSheetStage', () => {
+  const structure = generateBracketStructure(8);
+  const finals = structure.map((bm) =>
+    match({
+      matchNumber: bm.matchNumber,
+      stage: 'finals',
+      round: bm.round,
+      player1Id: bm.player1Seed != null ? `s${bm.player1Seed}` : null,
+      player2Id: bm.player2Seed != null ? `s${bm.player2Seed}` : null,
+      player1: bm.player1Seed != null ? player(`s${bm.player1Seed}`) : null,
+      player2: bm.player2Seed != null ? player(`s${bm.player2Seed}`) : null,
+    }),
+  );
+
+  it('groups matches by round with seeds and feeder labels', () => {
+    const sheet = buildBracketSheetStage('finals', finals, structure, 'bm', 'en');
+
+    expect(sheet.rounds[0]).toMatchObject({ round: 'winners_qf', label: 'Winners Quarter Final' });
+    expect(sheet.rounds[0].matches[0]).toMatchObject({
+      matchNumber: 1,
+      slots: [
+        { player: player('s1'), seed: 1, source: null },
+        { player: player('s8'), seed: 8, source: null },
+      ],
+      targetWins: 5,
+      score: null,
+    });
+    const losersFirst = sheet.rounds.find((round) => round.round === 'losers_r1')!.matches[0];
+    expect(losersFirst.slots.map((slot) => slot.source?.kind)).toEqual(['loser', 'loser']);
+    const semiFinal = sheet.rounds.find((round) => round.round === 'winners_sf')!.matches[0];
+    expect(semiFinal.slots[0]).toEqual({ player: null, seed: null, source: { kind: 'winner', matchNumber: 1 } });
+  });
+
+  it('renders open slots as "winner of" labels', () => {
+    const html = renderBracketSheet([buildBracketSheetStage('finals', finals, structure, 'bm', 'en')], 'bm', {
+      tournamentName: 'Cup',
+      locale: 'en',
+    });
+    expect(html).toContain('Battle Mode Bracket Sheet');
+    expect(html).toContain('Winner of M1');
+    expect(html).toContain('First to 5');
+  });
+});
+
+describe('buildTaPairSheet', () => {
+  const entry = (playerId: string, seeding: number | null, partnerId: string | null = null) => ({
+    playerId,
+    stage: 'qualification',
+    seeding,
+    partnerId,
+    player: player(playerId),
+  });
+
+  it('keeps saved partners and snake-pairs everyone else', () => {
+    const sheet = buildTaPairSheet([
+      entry('a', 1),
+      entry('b', 2, 'c'),
+      entry('c', 3, 'b'),
+      entry('d', 4),
+      entry('e', 5),
+      { ...entry('x', 1), stage: 'phase1' },
+    ]);
+
+    expect(sheet.pairs.map(([first, second]) => [first.playerId, second.playerId])).toEqual([
+      ['a', 'e'],
+      ['b', 'c'],
+    ]);
+    expect(sheet.unpaired.map((e) => e.playerId)).toEqual(['d']);
+  });
+});
+
+describe('rendered documents', () => {
+  it('escapes player names and declares the document language', () => {
+    const cards = buildMatchCards([{ playerId: 'p1', player: player('p1', '<b>&'), group: 'A', seeding: 1 }], [], 'gp');
+    const html = renderMatchCards(cards, 'gp', { tournamentName: 'SMKC "2024"', locale: 'ja' });
+
+    expect(html).toContain('<html lang="ja">');
+    expect(html).toContain('&lt;b&gt;&amp;');
+    expect(html).toContain('SMKC &quot;2024&quot;');
+    expect(html).toContain('Noto Sans JP');
+    expect(html).toContain('@page');
+  });
+
+  it('adds a QR column only when a card row carries a report link', () => {
+    const cards = buildMatchCards(qualifications, qualificationMatches, 'mr', { playerId: 'p2', locale: 'en' });
+    expect(renderMatchCards(cards, 'mr', { tournamentName: 'Cup', locale: 'en' })).not.toContain('<th>Report</th>');
+
+    cards[0].rows[0].reportUrl = 'https://smkc.example/tournaments/t1/mr/match/m2?token=abc';
+    const html = renderMatchCards(cards, 'mr', { tournamentName: 'Cup', locale: 'en' });
+    expect(html).toContain('<th>Report</th>');
+    expect(html).toContain('<td class="qr"><svg');
+  });
+
+  it('says so when there is nothing to print', () => {
+    expect(renderTaPairSheet({ pairs: [], unpaired: [] }, { tournamentName: 'Cup', locale: 'en' })).toContain(
+      'There are no matches to print.',
+    );
+  });
+
+  it('escapes quotes for attributes', () => {
+    expect(escapeHtml(`"it's"`)).toBe('&quot;it&#39;s&quot;');
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * @module __tests__/lib/qualification-no-show.test.ts
+ *
+ * Test suite for no-show handling (qualification-no-show.ts):
+ * - findNoShowMatches(): reads the remaining matches with every field the
+ *   conversion rewrites, for the audit.
+ * - convertNoShowMatches(): remaining matches become BREAK walkovers for the
+ *   opponent with the BYE scores of the mode in one D1 batch, then stats are
+ *   recomputed.
+ */
+jest.mock('@/lib/api-factories/score-report-helpers', () => ({
+  repairQualificationStats: jest.fn(),
+}));
+jest.mock('@/lib/d1-batch', () => ({ executeD1Batch: jest.fn() }));
+
+import prisma from '@/lib/prisma';
+import { executeD1Batch } from '@/lib/d1-batch';
+import { repairQualificationStats } from '@/lib/api-factories/score-report-helpers';
+import { bmConfig } from '@/lib/event-types/bm-config';
+import { gpConfig } from '@/lib/event-types/gp-config';
+import { convertNoShowMatches, findNoShowMatches } from '@/lib/qualification-no-show';
+
+describe('findNoShowMatches', () => {
+  it('reads the uncompleted matches with their scores', async () => {
+    (prisma.gPMatch.findMany as jest.Mock).mockResolvedValue([]);
+
+    await findNoShowMatches(gpConfig, 't1', 'p1');
+
+    expect(prisma.gPMatch.findMany).toHaveBeenCalledWith({
+      where: {
+        tournamentId: 't1',
+        stage: 'qualification',
+        completed: false,
+        OR: [{ player1Id: 'p1' }, { player2Id: 'p1' }],
+      },
+      select: expect.objectContaining({
+        player1Side: true,
+        isBye: true,
+        completed: true,
+        points1: true,
+        points2: true,
+      }),
+    });
+  });
+});
+
+describe('convertNoShowMatches', () => {
+  beforeEach(() => {
+    (executeD1Batch as jest.Mock).mockImplementation((statements) => Promise.resolve(statements.map(() => 1)));
+  });
+
+  it('hands every remaining match to the opponent as a BREAK walkover in one batch', async () => {
+    const converted = await convertNoShowMatches(bmConfig, 't1', 'p1', [
+      { id: 'm1', player1Id: 'p1', player2Id: 'p2' },
+      { id: 'm2', player1Id: 'p3', player2Id: 'p1' },
+    ]);
+
+    expect(converted).toEqual(['m1', 'm2']);
+    expect(executeD1Batch).toHaveBeenCalledTimes(1);
+    const [statements] = (executeD1Batch as jest.Mock).mock.calls[0];
+    expect(statements[0].sql).toMatch(
+      /UPDATE "BMMatch"[\s\S]*"isBye" = 1, "completed" = 1[\s\S]*"score1" = \?, "score2" = \?/,
+    );
+    expect(statements[0].sql).toContain('WHERE "id" = ? AND "completed" = 0');
+    expect(statements[0].values).toEqual(['p2', '__BREAK__', 4, 0, expect.any(String), 'm1']);
+    expect(statements[1].values).toEqual(['p3', '__BREAK__', 4, 0, expect.any(String), 'm2']);
+    expect(repairQualificationStats).toHaveBeenCalledWith(bmConfig, 't1');
+  });
+
+  it('uses the GP walkover points', async () => {
+    await convertNoShowMatches(gpConfig, 't1', 'p1', [{ id: 'g1', player1Id: 'p2', player2Id: 'p1' }]);
+
+    const [[statement]] = (executeD1Batch as jest.Mock).mock.calls[0];
+    expect(statement.sql).toMatch(/UPDATE "GPMatch"[\s\S]*"points1" = \?, "points2" = \?/);
+    expect(statement.values).toEqual(['p2', '__BREAK__', 45, 0, expect.any(String), 'g1']);
+  });
+
+  it('skips matches confirmed in the meantime and modes without remaining matches', async () => {
+    (executeD1Batch as jest.Mock).mockResolvedValue([0, 1]);
+    expect(
+      await convertNoShowMatches(bmConfig, 't1', 'p1', [
+        { id: 'm1', player1Id: 'p1', player2Id: 'p2' },
+        { id: 'm2', player1Id: 'p1', player2Id: 'p3' },
+      ]),
+    ).toEqual(['m2']);
+
+    expect(await convertNoShowMatches(gpConfig, 't1', 'p1', [])).toEqual([]);
+    expect(executeD1Batch).toHaveBeenCalledTimes(1);
+    expect(repairQualificationStats).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * @module __tests__/lib/qualification-withdrawal.test.ts
+ *
+ * Test suite for mid-qualification withdrawal (qualification-withdrawal.ts):
+ * - 'void' turns every match of the player into a BREAK row, including
+ *   finished ones and the player's own byes.
+ * - 'walkover' completes the unplayed matches as wins for the opponent.
+ * - Both mark the qualification row and recompute the stats.
+ * - findWithdrawalMatches reads every field the policy rewrites, for the audit.
+ */
+jest.mock('@/lib/api-factories/score-report-helpers', () => ({
+  repairQualificationStats: jest.fn(),
+}));
+jest.mock('@/lib/d1-batch', () => ({ executeD1Batch: jest.fn() }));
+
+import prisma from '@/lib/prisma';
+import { executeD1Batch } from '@/lib/d1-batch';
+import { repairQualificationStats } from '@/lib/api-factories/score-report-helpers';
+import { bmConfig } from '@/lib/event-types/bm-config';
+import { gpConfig } from '@/lib/event-types/gp-config';
+import {
+  findWithdrawalMatches,
+  isWithdrawalPolicy,
+  withdrawQualificationPlayer,
+  type WithdrawalPolicy,
+} from '@/lib/qualification-withdrawal';
+
+async function withdraw(config: typeof bmConfig | typeof gpConfig, policy: WithdrawalPolicy) {
+  const matches = await findWithdrawalMatches(config, 't1', 'p1', policy);
+  return withdrawQualificationPlayer(config, 't1', 'p1', policy, matches);
+}
+
+describe('isWithdrawalPolicy', () => {
+  it('accepts only the known policies', () => {
+    expect(isWithdrawalPolicy('void')).toBe(true);
+    expect(isWithdrawalPolicy('walkover')).toBe(true);
+    expect(isWithdrawalPolicy('forfeit')).toBe(false);
+    expect(isWithdrawalPolicy(undefined)).toBe(false);
+  });
+});
+
+describe('withdrawQualificationPlayer', () => {
+  beforeEach(() => {
+    (executeD1Batch as jest.Mock).mockImplementation((statements) => Promise.resolve(statements.map(() => 1)));
+    (prisma.bMMatch.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+    (prisma.gPMatch.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+    (prisma.bMQualification.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+    (prisma.gPQualification.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+  });
+
+  it('voids every match of the player, played or not', async () => {
+    (prisma.bMMatch.findMany as jest.Mock).mockResolvedValue([
+      { id: 'm1', player1Id: 'p1', player2Id: 'p2' },
+      { id: 'm2', player1Id: 'p3', player2Id: 'p1' },
+      { id: 'bye', player1Id: 'p1', player2Id: '__BREAK__' },
+    ]);
+
+    const changed = await withdraw(bmConfig, 'void');
+
+    expect(changed).toEqual(['m1', 'm2', 'bye']);
+    expect(prisma.bMMatch.findMany).toHaveBeenCalledWith({
+      where: { tournamentId: 't1', stage: 'qualification', OR: [{ player1Id: 'p1' }, { player2Id: 'p1' }] },
+      select: expect.objectContaining({ completed: true, isBye: true, player1Side: true, score1: true, score2: true }),
+    });
+    const [statements] = (executeD1Batch as jest.Mock).mock.calls[0];
+    expect(statements).toHaveLength(3);
+    expect(statements[0].sql).not.toContain('"completed" = 0');
+    expect(statements[0].values).toEqual(['p2', '__BREAK__', 4, 0, expect.any(String), 'm1']);
+    expect(statements[2].values).toEqual(['__BREAK__', '__BREAK__', 0, 0, expect.any(String), 'bye']);
+    expect(prisma.bMMatch.updateMany).not.toHaveBeenCalled();
+    expect(prisma.bMQualification.updateMany).toHaveBeenCalledWith({
+      where: { tournamentId: 't1', playerId: 'p1' },
+      data: expect.objectContaining({ withdrawnAt: expect.any(Date), withdrawalPolicy: 'void', rankOverride: null }),
+    });
+    expect(repairQualificationStats).toHaveBeenCalledWith(bmConfig, 't1');
+  });
+
+  it('awards the unplayed matches to the opponents', async () => {
+    (prisma.gPMatch.findMany as jest.Mock).mockResolvedValue([
+      { id: 'g1', player1Id: 'p1', player2Id: 'p2' },
+      { id: 'g2', player1Id: 'p3', player2Id: 'p1' },
+    ]);
+
+    const changed = await withdraw(gpConfig, 'walkover');
+
+    expect(changed).toEqual(['g1', 'g2']);
+    expect(prisma.gPMatch.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: expect.objectContaining({ completed: false, isBye: false }),
+        select: expect.objectContaining({ points1: true, points2: true }),
+      }),
+    );
+    expect(prisma.gPMatch.updateMany).toHaveBeenNthCalledWith(1, {
+      where: { id: 'g1', completed: false },
+      data: { completed: true, points1: 0, points2: 45 },
+    });
+    expect(prisma.gPMatch.updateMany).toHaveBeenNthCalledWith(2, {
+      where: { id: 'g2', completed: false },
+      data: { completed: true, points1: 45, points2: 0 },
+    });
+    expect(prisma.gPQualification.updateMany).toHaveBeenCalledWith(
+      expect.objectContaining({ data: expect.objectContaining({ withdrawalPolicy: 'walkover' }) }),
+    );
+  });
+
+  it('keeps scores confirmed in the meantime', async () => {
+    (prisma.bMMatch.findMany as jest.Mock).mockResolvedValue([{ id: 'm1', player1Id: 'p1', player2Id: 'p2' }]);
+    (prisma.bMMatch.updateMany as jest.Mock).mockResolvedValue({ count: 0 });
+
+    expect(await withdraw(bmConfig, 'walkover')).toEqual([]);
+    expect(prisma.bMQualification.updateMany).toHaveBeenCalled();
+  });
+});
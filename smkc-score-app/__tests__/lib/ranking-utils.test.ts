@@ -32,6 +32,7 @@ interface Entry {
 interface GroupedEntry extends Entry {
   group: string;
   combinedRankOverride?: number | null;
+  withdrawnAt?: string | null;
 }
 
 /** Standard BM/MR comparator: score desc, points desc */
@@ -176,6 +177,22 @@ describe('computeCombinedRanks', () => {
     expect(result.map((e) => e.id)).toEqual(['a1', 'b1', 'a2']);
   });
 
+  it('lists withdrawn players after every bucket', () => {
+    const entries: GroupedEntry[] = [
+      { id: 'a1', group: 'A', score: 8, points: 4, rankOverride: null, withdrawnAt: '2026-05-01T10:00:00Z' },
+      { id: 'a2', group: 'A', score: 2, points: 0, rankOverride: null },
+      { id: 'b1', group: 'B', score: 6, points: 2, rankOverride: null },
+      { id: 'b2', group: 'B', score: 0, points: -4, rankOverride: null },
+    ];
+    const result = computeCombinedRanks(entries, bmCompareFn);
+    expect(result.map((e) => [e.id, e._autoRank])).toEqual([
+      ['b1', 1],
+      ['a2', 2],
+      ['b2', 3],
+      ['a1', 4],
+    ]);
+  });
+
   it('breaks a same-bucket tie by WDL score then points -- not by group letter', () => {
     // This is the fix for the bug found in the CDM Excel template: its 2-group
     // formula has no real tiebreak and always resolves ties as "group A wins",
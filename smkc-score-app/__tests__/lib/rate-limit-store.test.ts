@@ -0,0 +1,128 @@
+/**
+ * @module __tests__/lib/rate-limit-store.test.ts
+ *
+ * Test suite for the shared rate-limit stores (rate-limit-store.ts):
+ * - createD1RateLimitStore(): atomic per-window counter, purge on new windows.
+ * - createKvRateLimitStore(): counter TTL and no writes once over the limit.
+ * - getSharedRateLimitStore(): RATE_LIMIT_BACKEND selection.
+ * - checkRateLimit(): shared rules use the store and fall back to memory on errors.
+ *
+ * rate-limit.ts is mocked globally in jest.setup.js, so checkRateLimit is
+ * loaded with jest.requireActual.
+ */
+import prisma from '@/lib/prisma';
+import { getCloudflareContext } from '@opennextjs/cloudflare';
+import {
+  createD1RateLimitStore,
+  createKvRateLimitStore,
+  getSharedRateLimitStore,
+  setRateLimitStore,
+} from '@/lib/rate-limit-store';
+
+const { checkRateLimit, clearRateLimitStore } = jest.requireActual('@/lib/rate-limit');
+
+describe('rate-limit-store', () => {
+  const originalBackend = process.env.RATE_LIMIT_BACKEND;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.setSystemTime(new Date('2026-03-01T10:00:30Z'));
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    setRateLimitStore(undefined);
+    clearRateLimitStore();
+    if (originalBackend === undefined) delete process.env.RATE_LIMIT_BACKEND;
+    else process.env.RATE_LIMIT_BACKEND = originalBackend;
+  });
+
+  describe('D1 store', () => {
+    it('increments one counter per window and rejects hits over the limit', async () => {
+      const store = createD1RateLimitStore();
+      (prisma.rateLimitCounter.upsert as jest.Mock)
+        .mockResolvedValueOnce({ count: 2 })
+        .mockResolvedValueOnce({ count: 4 });
+
+      const allowed = await store.hit('1.2.3.4:login', 3, 60_000);
+      const blocked = await store.hit('1.2.3.4:login', 3, 60_000);
+
+      const windowStart = Date.parse('2026-03-01T10:00:00Z');
+      expect(prisma.rateLimitCounter.upsert).toHaveBeenCalledWith({
+        where: { key: `1.2.3.4:login:${windowStart}` },
+        create: { key: `1.2.3.4:login:${windowStart}`, count: 1, expiresAt: new Date(windowStart + 60_000) },
+        update: { count: { increment: 1 } },
+      });
+      expect(allowed).toMatchObject({ success: true, remaining: 1, limit: 3 });
+      expect(blocked).toMatchObject({ success: false, remaining: 0, retryAfter: 30 });
+    });
+
+    it('purges ended windows only when a new window starts', async () => {
+      const store = createD1RateLimitStore();
+      (prisma.rateLimitCounter.upsert as jest.Mock)
+        .mockResolvedValueOnce({ count: 1 })
+        .mockResolvedValueOnce({ count: 2 });
+
+      await store.hit('k', 10, 60_000);
+      await store.hit('k', 10, 60_000);
+
+      expect(prisma.rateLimitCounter.deleteMany).toHaveBeenCalledTimes(1);
+      expect(prisma.rateLimitCounter.deleteMany).toHaveBeenCalledWith({
+        where: { expiresAt: { lte: expect.any(Date) } },
+      });
+    });
+  });
+
+  describe('KV store', () => {
+    it('expires counters with the window and stops writing once over the limit', async () => {
+      const kv = { get: jest.fn(), put: jest.fn(), delete: jest.fn() };
+      const store = createKvRateLimitStore(kv as never);
+
+      kv.get.mockResolvedValueOnce(null);
+      expect(await store.hit('k', 2, 60_000)).toMatchObject({ success: true, remaining: 1 });
+      expect(kv.put).toHaveBeenCalledWith(expect.stringMatching(/^k:\d+$/), '1', { expirationTtl: 60 });
+
+      kv.get.mockResolvedValueOnce(3);
+      kv.put.mockClear();
+      expect(await store.hit('k', 2, 60_000)).toMatchObject({ success: false });
+      expect(kv.put).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getSharedRateLimitStore', () => {
+    it('selects the configured store', () => {
+      delete process.env.RATE_LIMIT_BACKEND;
+      expect(getSharedRateLimitStore()).toBeNull();
+
+      process.env.RATE_LIMIT_BACKEND = 'd1';
+      expect(getSharedRateLimitStore()?.name).toBe('d1');
+
+      process.env.RATE_LIMIT_BACKEND = 'kv';
+      expect(getSharedRateLimitStore()).toBeNull();
+      (getCloudflareContext as jest.Mock).mockReturnValueOnce({ env: { DB: {}, RATE_LIMIT_KV: {} } });
+      expect(getSharedRateLimitStore()?.name).toBe('kv');
+    });
+  });
+
+  describe('checkRateLimit', () => {
+    it('counts shared rules in the store and other rules in memory', async () => {
+      const store = { name: 'd1' as const, hit: jest.fn().mockResolvedValue({ success: false, retryAfter: 600 }) };
+      setRateLimitStore(store);
+
+      expect(await checkRateLimit('login', '1.2.3.4')).toEqual({ success: false, retryAfter: 600 });
+      expect(store.hit).toHaveBeenCalledWith('1.2.3.4:login', 20, 15 * 60 * 1000);
+
+      expect((await checkRateLimit('general', '1.2.3.4')).success).toBe(true);
+      expect(store.hit).toHaveBeenCalledTimes(1);
+    });
+
+    it('falls back to the in-memory window when the store fails', async () => {
+      const store = { name: 'd1' as const, hit: jest.fn().mockRejectedValue(new Error('D1 unavailable')) };
+      setRateLimitStore(store);
+
+      const result = await checkRateLimit('login', '1.2.3.4');
+
+      expect(result).toEqual({ success: true, remaining: 19 });
+    });
+  });
+});
@@ -1,109 +1,101 @@
 /**
  * Tests for server-ranking.ts
  *
- * Covers the shared server-side rank computation (1224 + H2H + override)
- * extracted from standings-route.ts.
+ * Covers the shared server-side rank computation (1224 + H2H/Buchholz +
+ * override) extracted from standings-route.ts.
  */
 
-import { computeQualificationRanks } from "../../src/lib/server-ranking";
+import { computeQualificationRanks, qualificationTiebreakFor } from '../../src/lib/server-ranking';
 
-describe("computeQualificationRanks", () => {
-  it("assigns 1224 ranks when no ties exist", () => {
+describe('computeQualificationRanks', () => {
+  it('assigns 1224 ranks when no ties exist', () => {
     const quals = [
-      { playerId: "a", score: 10, points: 3 },
-      { playerId: "b", score: 8, points: 2 },
-      { playerId: "c", score: 6, points: 1 },
+      { playerId: 'a', score: 10, points: 3 },
+      { playerId: 'b', score: 8, points: 2 },
+      { playerId: 'c', score: 6, points: 1 },
     ];
-    const result = computeQualificationRanks(quals, [{ score: "desc" }, { points: "desc" }], []);
+    const result = computeQualificationRanks(quals, [{ score: 'desc' }, { points: 'desc' }], []);
     expect(result.map((q) => q._rank)).toEqual([1, 2, 3]);
   });
 
-  it("assigns shared 1224 rank to tied entries", () => {
+  it('assigns shared 1224 rank to tied entries', () => {
     const quals = [
-      { playerId: "a", score: 10, points: 2 },
-      { playerId: "b", score: 10, points: 2 },
-      { playerId: "c", score: 6, points: 1 },
+      { playerId: 'a', score: 10, points: 2 },
+      { playerId: 'b', score: 10, points: 2 },
+      { playerId: 'c', score: 6, points: 1 },
     ];
-    const result = computeQualificationRanks(quals, [{ score: "desc" }, { points: "desc" }], []);
+    const result = computeQualificationRanks(quals, [{ score: 'desc' }, { points: 'desc' }], []);
     expect(result.map((q) => q._rank)).toEqual([1, 1, 3]);
   });
 
-  it("breaks ties via H2H wins", () => {
+  it('breaks ties via H2H wins', () => {
     const quals = [
-      { playerId: "a", score: 10, points: 2 },
-      { playerId: "b", score: 10, points: 2 },
-      { playerId: "c", score: 10, points: 2 },
+      { playerId: 'a', score: 10, points: 2 },
+      { playerId: 'b', score: 10, points: 2 },
+      { playerId: 'c', score: 10, points: 2 },
     ];
     const matches = [
-      { player1Id: "a", player2Id: "b", score1: 3, score2: 1, completed: true, isBye: false },
-      { player1Id: "b", player2Id: "c", score1: 2, score2: 2, completed: true, isBye: false },
-      { player1Id: "a", player2Id: "c", score1: 1, score2: 3, completed: true, isBye: false },
+      { player1Id: 'a', player2Id: 'b', score1: 3, score2: 1, completed: true, isBye: false },
+      { player1Id: 'b', player2Id: 'c', score1: 2, score2: 2, completed: true, isBye: false },
+      { player1Id: 'a', player2Id: 'c', score1: 1, score2: 3, completed: true, isBye: false },
     ];
     // H2H wins: a=1 (beat b), b=0 (drew c, lost a), c=1 (beat a)
     // Sorted by H2H wins: a and c both 1 win, b 0 wins.
     // a and c remain tied (1 win each), b gets rank 3.
-    const result = computeQualificationRanks(
-      quals,
-      [{ score: "desc" }, { points: "desc" }],
-      matches,
-    );
+    const result = computeQualificationRanks(quals, [{ score: 'desc' }, { points: 'desc' }], matches);
     const rankMap = Object.fromEntries(result.map((q) => [q.playerId, q._rank]));
-    expect(rankMap["b"]).toBe(3); // b has 0 H2H wins → lowest
-    expect(rankMap["a"]).toBe(1); // a and c tied at 1 win → share rank 1
-    expect(rankMap["c"]).toBe(1);
+    expect(rankMap['b']).toBe(3); // b has 0 H2H wins → lowest
+    expect(rankMap['a']).toBe(1); // a and c tied at 1 win → share rank 1
+    expect(rankMap['c']).toBe(1);
   });
 
-  it("ignores incomplete and bye matches for H2H", () => {
+  it('ignores incomplete and bye matches for H2H', () => {
     const quals = [
-      { playerId: "a", score: 10, points: 2 },
-      { playerId: "b", score: 10, points: 2 },
+      { playerId: 'a', score: 10, points: 2 },
+      { playerId: 'b', score: 10, points: 2 },
     ];
     const matches = [
-      { player1Id: "a", player2Id: "b", score1: 3, score2: 1, completed: false, isBye: false },
-      { player1Id: "a", player2Id: "b", score1: 3, score2: 1, completed: true, isBye: true },
+      { player1Id: 'a', player2Id: 'b', score1: 3, score2: 1, completed: false, isBye: false },
+      { player1Id: 'a', player2Id: 'b', score1: 3, score2: 1, completed: true, isBye: true },
     ];
-    const result = computeQualificationRanks(
-      quals,
-      [{ score: "desc" }, { points: "desc" }],
-      matches,
-    );
+    const result = computeQualificationRanks(quals, [{ score: 'desc' }, { points: 'desc' }], matches);
     expect(result[0]._rank).toBe(1);
     expect(result[1]._rank).toBe(1);
   });
 
-  it("applies rankOverride and re-sorts", () => {
+  it('applies rankOverride and re-sorts', () => {
     const quals = [
-      { playerId: "a", score: 10, points: 3, rankOverride: null },
-      { playerId: "b", score: 8, points: 2, rankOverride: 1 }, // override to rank 1
-      { playerId: "c", score: 6, points: 1, rankOverride: null },
+      { playerId: 'a', score: 10, points: 3, rankOverride: null },
+      { playerId: 'b', score: 8, points: 2, rankOverride: 1 }, // override to rank 1
+      { playerId: 'c', score: 6, points: 1, rankOverride: null },
     ];
-    const result = computeQualificationRanks(quals, [{ score: "desc" }, { points: "desc" }], []);
+    const result = computeQualificationRanks(quals, [{ score: 'desc' }, { points: 'desc' }], []);
     const rankMap = Object.fromEntries(result.map((q) => [q.playerId, q._rank]));
-    expect(rankMap["b"]).toBe(1); // b moves to rank 1 via override
-    expect(rankMap["a"]).toBe(1); // a stays at rank 1, colliding with b
-    expect(rankMap["c"]).toBe(3); // c skips rank 2 because two players occupy rank 1
-    expect(result.find((q) => q.playerId === "b")?._rankOverridden).toBe(true);
+    expect(rankMap['b']).toBe(1); // b moves to rank 1 via override
+    expect(rankMap['a']).toBe(1); // a stays at rank 1, colliding with b
+    expect(rankMap['c']).toBe(3); // c skips rank 2 because two players occupy rank 1
+    expect(result.find((q) => q.playerId === 'b')?._rankOverridden).toBe(true);
   });
 
-  it("places overridden entries first when effective ranks collide", () => {
+  it('places overridden entries first when effective ranks collide', () => {
     const quals = [
-      { playerId: "a", score: 10, points: 3, rankOverride: 2 },
-      { playerId: "b", score: 8, points: 2, rankOverride: null }, // auto rank 2
+      { playerId: 'a', score: 10, points: 3, rankOverride: 2 },
+      { playerId: 'b', score: 8, points: 2, rankOverride: null }, // auto rank 2
     ];
-    const result = computeQualificationRanks(quals, [{ score: "desc" }, { points: "desc" }], []);
-    expect(result[0].playerId).toBe("a"); // overridden first
-    expect(result[1].playerId).toBe("b");
+    const result = computeQualificationRanks(quals, [{ score: 'desc' }, { points: 'desc' }], []);
+    expect(result[0].playerId).toBe('a'); // overridden first
+    expect(result[1].playerId).toBe('b');
   });
 
-  it("treats undefined rankOverride as auto-ranked", () => {
+  it('treats undefined rankOverride as auto-ranked', () => {
     const quals = [
-      { playerId: "a", score: 10, points: 3, rankOverride: undefined },
-      { playerId: "b", score: 8, points: 2, rankOverride: 1 },
+      { playerId: 'a', score: 10, points: 3, rankOverride: undefined },
+      { playerId: 'b', score: 8, points: 2, rankOverride: 1 },
     ];
 
-    const result = computeQualificationRanks(quals, [{ score: "desc" }, { points: "desc" }], []);
-    const autoRanked = result.find((q) => q.playerId === "a");
-    const overridden = result.find((q) => q.playerId === "b");
+    const result = computeQualificationRanks(quals, [{ score: 'desc' }, { points: 'desc' }], []);
+    const autoRanked = result.find((q) => q.playerId === 'a');
+    const overridden = result.find((q) => q.playerId === 'b');
 
     expect(autoRanked?._rank).toBe(1);
     expect(autoRanked?._rankOverridden).toBeUndefined();
@@ -111,51 +103,166 @@ describe("computeQualificationRanks", () => {
     expect(overridden?._rankOverridden).toBe(true);
   });
 
-  it("does not use existing _rankOverridden when rankOverride is missing", () => {
+  it('does not use existing _rankOverridden when rankOverride is missing', () => {
     const quals = [
-      { playerId: "a", score: 10, points: 3, _rankOverridden: false } as {
+      { playerId: 'a', score: 10, points: 3, _rankOverridden: false } as {
         playerId: string;
         score: number;
         points: number;
         _rankOverridden: boolean;
       },
-      { playerId: "b", score: 10, points: 3, _rankOverridden: true } as {
+      { playerId: 'b', score: 10, points: 3, _rankOverridden: true } as {
         playerId: string;
         score: number;
         points: number;
         _rankOverridden: boolean;
       },
-      { playerId: "c", score: 9, points: 2 },
+      { playerId: 'c', score: 9, points: 2 },
     ];
 
-    const result = computeQualificationRanks(quals, [{ score: "desc" }, { points: "desc" }], []);
+    const result = computeQualificationRanks(quals, [{ score: 'desc' }, { points: 'desc' }], []);
 
     // `computeQualificationRanks` uses `rankOverride` as the sole override source,
     // so `rankOverride`-less entries keep initial order when `_rank` and base
     // ranking keys are tied.
-    expect(result[0].playerId).toBe("a");
-    expect(result[1].playerId).toBe("b");
+    expect(result[0].playerId).toBe('a');
+    expect(result[1].playerId).toBe('b');
   });
 
-  it("restarts ranks when group is the leading sort field", () => {
+  it('restarts ranks when group is the leading sort field', () => {
     const quals = [
-      { playerId: "a1", group: "A", score: 10, points: 3, rankOverride: null },
-      { playerId: "a2", group: "A", score: 8, points: 2, rankOverride: null },
-      { playerId: "b1", group: "B", score: 11, points: 4, rankOverride: null },
-      { playerId: "b2", group: "B", score: 7, points: 1, rankOverride: null },
+      { playerId: 'a1', group: 'A', score: 10, points: 3, rankOverride: null },
+      { playerId: 'a2', group: 'A', score: 8, points: 2, rankOverride: null },
+      { playerId: 'b1', group: 'B', score: 11, points: 4, rankOverride: null },
+      { playerId: 'b2', group: 'B', score: 7, points: 1, rankOverride: null },
     ];
 
-    const result = computeQualificationRanks(
-      quals,
-      [{ group: "asc" }, { score: "desc" }, { points: "desc" }],
-      [],
-    );
+    const result = computeQualificationRanks(quals, [{ group: 'asc' }, { score: 'desc' }, { points: 'desc' }], []);
 
     expect(result.map((q) => [q.playerId, q._rank])).toEqual([
-      ["a1", 1],
-      ["a2", 2],
-      ["b1", 1],
-      ["b2", 2],
+      ['a1', 1],
+      ['a2', 2],
+      ['b1', 1],
+      ['b2', 2],
     ]);
   });
+
+  it('ranks withdrawn players after every active player of their group', () => {
+    const quals = [
+      { playerId: 'a1', group: 'A', score: 6, points: 5, withdrawnAt: new Date() },
+      { playerId: 'a2', group: 'A', score: 4, points: 2 },
+      { playerId: 'a3', group: 'A', score: 2, points: -1 },
+      { playerId: 'a4', group: 'A', score: 0, points: -6, withdrawnAt: new Date() },
+      { playerId: 'b1', group: 'B', score: 4, points: 3 },
+    ];
+
+    const result = computeQualificationRanks(quals, [{ group: 'asc' }, { score: 'desc' }, { points: 'desc' }], []);
+
+    expect(result.map((q) => [q.playerId, q._rank])).toEqual([
+      ['a2', 1],
+      ['a3', 2],
+      ['a1', 3],
+      ['a4', 4],
+      ['b1', 1],
+    ]);
+  });
+
+  describe('Buchholz tiebreak', () => {
+    const quals = [
+      { playerId: 'a', score: 4 },
+      { playerId: 'b', score: 4 },
+      { playerId: 'strong', score: 6 },
+      { playerId: 'weak', score: 0 },
+    ];
+    const matches = [
+      { player1Id: 'a', player2Id: 'weak', score1: 3, score2: 1, completed: true, isBye: false },
+      { player1Id: 'b', player2Id: 'strong', score1: 3, score2: 1, completed: true, isBye: false },
+      { player1Id: 'strong', player2Id: 'a', score1: 3, score2: 1, completed: true, isBye: false },
+      { player1Id: 'a', player2Id: '__BREAK__', score1: 4, score2: 0, completed: true, isBye: true },
+    ];
+    const sorted = [quals[2], quals[0], quals[1], quals[3]];
+
+    it('ranks tied players by the average score of their opponents', () => {
+      const result = computeQualificationRanks(sorted, [{ score: 'desc' }], matches, { tiebreak: 'buchholz' });
+
+      // a faced strong(6) + weak(0) -> 3; b faced strong(6) -> 6
+      expect(result.map((q) => [q.playerId, q._rank, q._buchholz])).toEqual([
+        ['strong', 1, 4],
+        ['b', 2, 6],
+        ['a', 3, 3],
+        ['weak', 4, 4],
+      ]);
+    });
+
+    it('falls back to H2H when Buchholz is equal', () => {
+      const withH2h = [
+        { player1Id: 'a', player2Id: 'strong', score1: 1, score2: 3, completed: true, isBye: false },
+        { player1Id: 'b', player2Id: 'strong', score1: 3, score2: 1, completed: true, isBye: false },
+        { player1Id: 'b', player2Id: 'a', score1: 3, score2: 1, completed: true, isBye: false },
+      ];
+      const result = computeQualificationRanks(sorted, [{ score: 'desc' }], withH2h, { tiebreak: 'buchholz' });
+
+      // Both faced strong(6) and each other(4): a = 5, b = 5; b won the H2H
+      expect(result.slice(1, 3).map((q) => [q.playerId, q._rank])).toEqual([
+        ['b', 2],
+        ['a', 3],
+      ]);
+    });
+
+    it('values a bye like an average opponent, level with a player who won every game', () => {
+      const field = [
+        { playerId: 'byeWinner', score: 6 },
+        { playerId: 'sweeper', score: 6 },
+        { playerId: 'c', score: 4 },
+        { playerId: 'e', score: 3 },
+        { playerId: 'd', score: 2 },
+      ];
+      const played = [
+        { player1Id: 'byeWinner', player2Id: '__BREAK__', score1: 4, score2: 0, completed: true, isBye: true },
+        { player1Id: 'byeWinner', player2Id: 'c', score1: 3, score2: 1, completed: true, isBye: false },
+        { player1Id: 'byeWinner', player2Id: 'd', score1: 3, score2: 1, completed: true, isBye: false },
+        { player1Id: 'sweeper', player2Id: 'c', score1: 3, score2: 1, completed: true, isBye: false },
+        { player1Id: 'sweeper', player2Id: 'd', score1: 3, score2: 1, completed: true, isBye: false },
+        { player1Id: 'sweeper', player2Id: 'e', score1: 3, score2: 1, completed: true, isBye: false },
+      ];
+
+      const result = computeQualificationRanks(field, [{ score: 'desc' }], played, { tiebreak: 'buchholz' });
+
+      // byeWinner: (4 + 2) / 2 = 3; sweeper: (4 + 2 + 3) / 3 = 3. A sum would give 6 vs 9.
+      expect(result.slice(0, 2).map((q) => [q.playerId, q._rank, q._buchholz])).toEqual([
+        ['byeWinner', 1, 3],
+        ['sweeper', 1, 3],
+      ]);
+    });
+
+    it('leaves withdrawn opponents out of Buchholz', () => {
+      const field = [
+        { playerId: 'a', score: 2 },
+        { playerId: 'b', score: 2 },
+        { playerId: 'strong', score: 2 },
+        { playerId: 'gone', score: 6, withdrawnAt: '2026-01-01T00:00:00.000Z' },
+      ];
+      const played = [
+        { player1Id: 'a', player2Id: 'gone', score1: 3, score2: 1, completed: true, isBye: false },
+        { player1Id: 'a', player2Id: 'strong', score1: 1, score2: 3, completed: true, isBye: false },
+        { player1Id: 'b', player2Id: 'strong', score1: 3, score2: 1, completed: true, isBye: false },
+      ];
+
+      const result = computeQualificationRanks(field, [{ score: 'desc' }], played, { tiebreak: 'buchholz' });
+
+      // a met gone and strong, but only strong (2) counts
+      expect(Object.fromEntries(result.map((q) => [q.playerId, q._buchholz]))).toEqual({
+        a: 2,
+        b: 2,
+        strong: 2,
+        gone: 0,
+      });
+    });
+
+    it('is selected only for Swiss tournaments', () => {
+      expect(qualificationTiebreakFor('swiss')).toBe('buchholz');
+      expect(qualificationTiebreakFor('circle')).toBe('h2h');
+      expect(qualificationTiebreakFor(undefined)).toBe('h2h');
+    });
+  });
 });
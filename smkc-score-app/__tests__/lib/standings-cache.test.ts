@@ -1,7 +1,8 @@
 /**
  * @module __tests__/lib/standings-cache.test.ts
  *
- * Test suite for the in-memory standings cache module (standings-cache.ts).
+ * Test suite for the standings cache module (standings-cache.ts) on the
+ * default in-memory cache backend.
  *
  * Covers the following functionality:
  * - get(): Retrieves cached standings by tournament ID and stage name.
@@ -15,22 +16,15 @@
  * - isExpired(): Checks whether a cache entry has exceeded its TTL (5 minutes).
  *   Tests fresh entries, expired entries, and boundary cases.
  * - invalidate(): Removes cache entries for a specific tournament+stage or
- *   all stages of a tournament. Handles non-existent keys gracefully.
+ *   all stages of a tournament (generation bump, exact id match). Handles
+ *   non-existent keys gracefully.
  * - clear(): Removes all cache entries and allows fresh data after clearing.
  * - Integration tests: Full cache lifecycle, independent tournament handling,
  *   ETag consistency, and multi-stage invalidation.
  * - Edge cases: Large data arrays, deeply nested structures, null values,
  *   numeric tournament IDs, and empty stage names.
  */
-import {
-  get,
-  set,
-  generateETag,
-  invalidate,
-  isExpired,
-  clear,
-  type CachedStandings,
-} from '@/lib/standings-cache';
+import { get, set, generateETag, invalidate, isExpired, clear, type CachedStandings } from '@/lib/standings-cache';
 
 describe('standings-cache', () => {
   beforeEach(() => {
@@ -85,7 +79,7 @@ describe('standings-cache', () => {
     });
   });
 
-describe('set', () => {
+  describe('set', () => {
     it('should set cache entry with all required fields', async () => {
       const mockData = [{ id: 1, rank: 1 }];
       const mockETag = 'abc123';
@@ -100,7 +94,7 @@ describe('set', () => {
       expect(result?.lastUpdated).toBeDefined();
     });
 
-it('should generate ISO string timestamp', async () => {
+    it('should generate ISO string timestamp', async () => {
       const mockData = [{ id: 1, rank: 1 }];
       const mockETag = 'abc123';
 
@@ -301,6 +295,15 @@ it('should generate ISO string timestamp', async () => {
       expect(await get('tournament-2', 'finals')).not.toBeNull();
     });
 
+    it('should not touch tournaments whose id starts with the invalidated one', async () => {
+      await set('tournament-1', 'finals', [{ id: 1 }], 'etag1');
+      await set('tournament-10', 'finals', [{ id: 10 }], 'etag10');
+
+      await invalidate('tournament-1');
+
+      expect(await get('tournament-10', 'finals')).not.toBeNull();
+    });
+
     it('should handle invalidating non-existent key', async () => {
       await expect(invalidate('tournament-999', 'finals')).resolves.not.toThrow();
     });
@@ -354,7 +357,7 @@ it('should generate ISO string timestamp', async () => {
     });
   });
 
- describe('integration tests', () => {
+  describe('integration tests', () => {
     it('should handle full cache lifecycle', async () => {
       const mockData = [{ id: 1, rank: 1 }];
 
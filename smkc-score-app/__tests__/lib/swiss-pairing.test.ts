@@ -0,0 +1,114 @@
+/**
+ * Swiss-System Pairing Tests
+ *
+ * Covers round-1 seed split, standings-based pairing without rematches,
+ * BREAK bye rotation and 1P/2P side balance across rounds.
+ */
+
+import { BREAK_PLAYER_ID, type RoundRobinMatch } from '@/lib/round-robin';
+import { maxSwissRounds, pairSwissRound, recommendedSwissRounds, summarizeSwissProgress } from '@/lib/swiss-pairing';
+
+const players = (count: number) => Array.from({ length: count }, (_, i) => `P${i + 1}`);
+const pairsOf = (matches: RoundRobinMatch[]) =>
+  matches.filter((m) => !m.isBye).map((m) => [m.player1Id, m.player2Id].sort().join('-'));
+
+/* Play `rounds` rounds where the better seed always wins, re-ranking by wins. */
+function simulate(ids: string[], rounds: number): RoundRobinMatch[] {
+  const played: RoundRobinMatch[] = [];
+  const wins = new Map(ids.map((id) => [id, 0]));
+  for (let round = 1; round <= rounds; round++) {
+    const standings = [...ids].sort((a, b) => (wins.get(b) ?? 0) - (wins.get(a) ?? 0));
+    const matches = pairSwissRound(round === 1 ? ids : standings, played, round);
+    for (const m of matches) {
+      if (m.isBye) continue;
+      const winner = ids.indexOf(m.player1Id) < ids.indexOf(m.player2Id) ? m.player1Id : m.player2Id;
+      wins.set(winner, (wins.get(winner) ?? 0) + 1);
+    }
+    played.push(...matches);
+  }
+  return played;
+}
+
+describe('pairSwissRound', () => {
+  it('splits the seed order in half for round 1', () => {
+    const matches = pairSwissRound(players(8), [], 1);
+
+    expect(pairsOf(matches)).toEqual(['P1-P5', 'P2-P6', 'P3-P7', 'P4-P8']);
+    expect(matches.every((m) => m.day === 1 && !m.isBye)).toBe(true);
+  });
+
+  it('pairs neighbours in the standings from round 2', () => {
+    const round1 = pairSwissRound(players(8), [], 1);
+    const matches = pairSwissRound(['P1', 'P2', 'P3', 'P4', 'P5', 'P6', 'P7', 'P8'], round1, 2);
+
+    expect(pairsOf(matches)).toEqual(['P1-P2', 'P3-P4', 'P5-P6', 'P7-P8']);
+  });
+
+  it('backtracks instead of repeating an opponent', () => {
+    const played = [
+      { player1Id: 'A', player2Id: 'B', isBye: false },
+      { player1Id: 'C', player2Id: 'D', isBye: false },
+    ];
+
+    expect(pairsOf(pairSwissRound(['A', 'B', 'C', 'D'], played, 2))).toEqual(['A-C', 'B-D']);
+  });
+
+  it('never repeats an opponent over the recommended rounds', () => {
+    const played = simulate(players(16), recommendedSwissRounds(16));
+
+    expect(new Set(pairsOf(played)).size).toBe(pairsOf(played).length);
+  });
+
+  it('gives the bye to the lowest-ranked player without one', () => {
+    const ids = players(5);
+    const round1 = pairSwissRound(ids, [], 1);
+    expect(round1.at(-1)).toEqual({ day: 1, player1Id: 'P5', player2Id: BREAK_PLAYER_ID, isBye: true });
+
+    const round2 = pairSwissRound(ids, round1, 2);
+    expect(round2.filter((m) => m.isBye).map((m) => m.player1Id)).toEqual(['P4']);
+  });
+
+  it('gives 1P to the player with fewer 1P starts', () => {
+    const played = [
+      { player1Id: 'A', player2Id: 'X', isBye: false },
+      { player1Id: 'Y', player2Id: 'B', isBye: false },
+    ];
+
+    expect(pairSwissRound(['A', 'B'], played, 2)).toEqual([{ day: 2, player1Id: 'B', player2Id: 'A', isBye: false }]);
+  });
+
+  it('keeps 1P/2P starts close to even across rounds', () => {
+    const played = simulate(players(12), 4);
+    const balance = new Map<string, number>();
+    for (const m of played) {
+      balance.set(m.player1Id, (balance.get(m.player1Id) ?? 0) + 1);
+      balance.set(m.player2Id, (balance.get(m.player2Id) ?? 0) - 1);
+    }
+
+    expect(Math.max(...[...balance.values()].map(Math.abs))).toBeLessThanOrEqual(2);
+  });
+});
+
+describe('Swiss round counts', () => {
+  it('recommends ceil(log2 N) rounds', () => {
+    expect([2, 8, 9, 16, 24].map(recommendedSwissRounds)).toEqual([1, 3, 4, 4, 5]);
+  });
+
+  it('caps rounds at a full round-robin', () => {
+    expect(maxSwissRounds(8)).toBe(7);
+    expect(maxSwissRounds(7)).toBe(7);
+  });
+});
+
+describe('summarizeSwissProgress', () => {
+  it('reports the latest round and whether it is complete', () => {
+    const qualifications = [...players(9).map(() => ({ group: 'A' })), ...players(4).map(() => ({ group: 'B' }))];
+
+    expect(
+      summarizeSwissProgress(qualifications, [
+        { roundNumber: 1, completed: true },
+        { roundNumber: 2, completed: false },
+      ]),
+    ).toEqual({ round: 2, recommendedRounds: 4, maxRounds: 9, roundComplete: false });
+  });
+});
@@ -0,0 +1,115 @@
+/**
+ * @module __tests__/lib/ta/bulk-time-paste.test.ts
+ *
+ * Test suite for bulk-time-paste.ts: parsing pasted "nickname time" lines
+ * (space- or tab-separated), nickname matching (exact, partial, typo),
+ * the retry penalty shorthand and the per-row validation errors.
+ */
+import { describe, it, expect } from '@jest/globals';
+import { RETRY_PENALTY_DISPLAY, RETRY_PENALTY_MS } from '@/lib/constants';
+import { normalizeNickname, parseBulkTimePaste } from '@/lib/ta/bulk-time-paste';
+
+const candidates = [
+  { playerId: 'p1', nickname: 'Mario Kart' },
+  { playerId: 'p2', nickname: 'Luigi' },
+  { playerId: 'p3', nickname: 'Koopa_Troopa' },
+  { playerId: 'p4', nickname: 'Koopa Jr' },
+  { playerId: 'p5', nickname: 'ヨッシー' },
+];
+
+describe('normalizeNickname', () => {
+  it('ignores case, width, whitespace and punctuation', () => {
+    expect(normalizeNickname(' Ｍａｒｉｏ Kart ')).toBe('mariokart');
+    expect(normalizeNickname('Koopa_Troopa!')).toBe('koopatroopa');
+  });
+});
+
+describe('parseBulkTimePaste', () => {
+  it('parses space-separated lines, keeping spaces inside nicknames', () => {
+    const result = parseBulkTimePaste('Mario Kart 1:23.45\nluigi 12345\n\n', candidates);
+
+    expect(result.hasErrors).toBe(false);
+    expect(result.rows).toEqual([
+      expect.objectContaining({ line: 1, playerId: 'p1', matchedBy: 'exact', time: '1:23.45', timeMs: 83450 }),
+      expect.objectContaining({ line: 2, playerId: 'p2', matchedBy: 'exact', time: '1:23.45', isRetry: false }),
+    ]);
+    expect(result.missingPlayerIds).toEqual(['p3', 'p4', 'p5']);
+  });
+
+  it('takes the last cell of tab-separated spreadsheet rows as the time and skips non-player cells', () => {
+    const result = parseBulkTimePaste('1\tKoopa_Troopa\t1:05.10\t\n2\tヨッシー\t1\'06"20', candidates);
+
+    expect(result.rows.map(({ playerId, time }) => ({ playerId, time }))).toEqual([
+      { playerId: 'p3', time: '1:05.10' },
+      { playerId: 'p5', time: '1:06.20' },
+    ]);
+  });
+
+  it('accepts the retry penalty display, its short forms and retry words', () => {
+    const result = parseBulkTimePaste(
+      `Luigi ${RETRY_PENALTY_DISPLAY}\nMario Kart 9:59.99\nヨッシー RETRY\nKoopa Jr ｒ`,
+      candidates,
+    );
+
+    expect(result.hasErrors).toBe(false);
+    for (const row of result.rows) {
+      expect(row).toMatchObject({ isRetry: true, time: RETRY_PENALTY_DISPLAY, timeMs: RETRY_PENALTY_MS });
+    }
+  });
+
+  it('rejects retries where the form has no retry penalty', () => {
+    const result = parseBulkTimePaste('Luigi retry', candidates, { allowRetry: false });
+
+    expect(result.rows[0].error).toBe('retry_not_allowed');
+    expect(result.missingPlayerIds).toContain('p2');
+  });
+
+  it('resolves unique partial and near-miss nicknames', () => {
+    const result = parseBulkTimePaste('troopa 1:00.00\nLuigl 1:00.00\nMario Krat 1:00.00', candidates);
+
+    expect(result.rows.map(({ playerId, matchedBy }) => ({ playerId, matchedBy }))).toEqual([
+      { playerId: 'p3', matchedBy: 'partial' },
+      { playerId: 'p2', matchedBy: 'fuzzy' },
+      { playerId: 'p1', matchedBy: 'fuzzy' },
+    ]);
+  });
+
+  it('flags unknown, ambiguous, duplicate and badly timed rows', () => {
+    const result = parseBulkTimePaste(
+      'Bowser 1:00.00\nKoopa 1:00.00\nLuigi 1:00.00\nluigi 1:01.00\nMario Kart 1:2x.00\nヨッシー',
+      candidates,
+    );
+
+    expect(result.hasErrors).toBe(true);
+    expect(result.rows.map(({ error }) => error)).toEqual([
+      'unknown_player',
+      'ambiguous_player',
+      null,
+      'duplicate_player',
+      'invalid_time',
+      'invalid_time',
+    ]);
+    expect(result.missingPlayerIds).toEqual(['p1', 'p3', 'p4', 'p5']);
+  });
+
+  it('does not guess typos on short nicknames', () => {
+    const result = parseBulkTimePaste('Lu1gi 1:00.00', [
+      { playerId: 'a', nickname: 'Ali' },
+      { playerId: 'b', nickname: 'Lugi' },
+    ]);
+
+    expect(result.rows.map(({ error }) => error)).toEqual([null]);
+    expect(parseBulkTimePaste('Bo 1:00.00', [{ playerId: 'a', nickname: 'Al' }]).rows[0].error).toBe('unknown_player');
+  });
+
+  it('skips rank cells and partial names too short to tell players apart', () => {
+    const roster = [...candidates, { playerId: 'p6', nickname: 'Toad2' }];
+    const result = parseBulkTimePaste('2\tLuigi\t1:00.00\nMar 1:00.00\nLu 1:00.00', roster);
+
+    expect(result.rows.map(({ playerId, matchedBy, error }) => ({ playerId, matchedBy, error }))).toEqual([
+      { playerId: 'p2', matchedBy: 'exact', error: null },
+      { playerId: 'p1', matchedBy: 'partial', error: null },
+      { playerId: null, matchedBy: null, error: 'unknown_player' },
+    ]);
+  });
+});
@@ -0,0 +1,342 @@
+/**
+ * @module __tests__/lib/ta/course-records.test.ts
+ *
+ * Test suite for course-records.ts: extracting course times from
+ * qualification entries and submitted finals rounds, the app / event /
+ * personal-best rows, record-break detection for new times, archive
+ * extraction and the loader's visibility and player filtering, and the
+ * archive-set cache.
+ */
+import prisma from '@/lib/prisma';
+import { RETRY_PENALTY_DISPLAY, RETRY_PENALTY_MS } from '@/lib/constants';
+import {
+  buildCourseRecords,
+  extractArchivedCourseTimes,
+  findCourseRecordBreaks,
+  loadCourseTimes,
+  phaseRoundCourseTimes,
+  qualificationCourseTimes,
+  type CourseTime,
+} from '@/lib/ta/course-records';
+import { readTournamentArchive, readTournamentArchiveIndex } from '@/lib/tournament-archive';
+import { clearMemoryCache } from '@/lib/cache-backend';
+import type { TournamentArchiveBundle } from '@/lib/tournament-archive';
+
+jest.mock('@/lib/logger', () => ({
+  createLogger: jest.fn(() => ({ error: jest.fn(), warn: jest.fn(), info: jest.fn(), debug: jest.fn() })),
+}));
+
+jest.mock('@/lib/tournament-archive', () => ({
+  readTournamentArchive: jest.fn(),
+  readTournamentArchiveIndex: jest.fn(),
+}));
+
+const mockPrisma = prisma as unknown as Record<string, Record<string, jest.Mock>>;
+
+function time(overrides: Partial<CourseTime>): CourseTime {
+  return {
+    playerId: 'p1',
+    nickname: 'alice',
+    tournamentId: 't1',
+    course: 'MC1',
+    timeMs: 60000,
+    stage: 'qualification',
+    sourceId: 'e1',
+    ...overrides,
+  };
+}
+
+describe('qualificationCourseTimes', () => {
+  it('keeps valid course times and skips retries and unparseable values', () => {
+    const times = qualificationCourseTimes({
+      id: 'e1',
+      tournamentId: 't1',
+      playerId: 'p1',
+      times: { MC1: '1:01.23', DP1: RETRY_PENALTY_DISPLAY, GV1: '', BC1: 'abc' },
+      player: { nickname: 'alice' },
+    });
+
+    expect(times).toEqual([time({ timeMs: 61230 })]);
+  });
+});
+
+describe('phaseRoundCourseTimes', () => {
+  const round = {
+    id: 'r1',
+    tournamentId: 't1',
+    phase: 'phase3',
+    course: 'DP1',
+    submittedAt: new Date('2026-01-01T00:00:00Z'),
+    results: [
+      { playerId: 'p1', timeMs: 63000, rawTimeMs: 60000 },
+      { playerId: 'p2', timeMs: RETRY_PENALTY_MS, isRetry: true },
+    ],
+  };
+
+  it('uses the raw driven time and skips retries', () => {
+    expect(phaseRoundCourseTimes(round, new Map([['p1', 'alice']]))).toEqual([
+      time({ course: 'DP1', timeMs: 60000, stage: 'phase3', sourceId: 'r1' }),
+    ]);
+  });
+
+  it('ignores rounds that were never submitted', () => {
+    expect(phaseRoundCourseTimes({ ...round, submittedAt: null }, new Map())).toEqual([]);
+  });
+});
+
+describe('buildCourseRecords', () => {
+  const history = [
+    time({ timeMs: 59000, playerId: 'p2', nickname: 'bob', tournamentId: 't0', sourceId: 'e0' }),
+    time({ timeMs: 61000 }),
+    time({ timeMs: 60500, playerId: 'p3', nickname: 'carol', sourceId: 'e3' }),
+    time({ timeMs: 62000, tournamentId: 't0', sourceId: 'e4' }),
+  ];
+  const tournaments = [
+    { id: 't0', name: 'Cup 0', slug: null, date: '2025-01-01', archived: true },
+    { id: 't1', name: 'Cup 1', slug: null, date: '2026-01-01', archived: false },
+  ];
+
+  it('returns the app record, event record and personal best per course', () => {
+    const rows = buildCourseRecords(history, tournaments, { tournamentId: 't1', playerId: 'p1' });
+    const mc1 = rows.find((row) => row.course === 'MC1');
+
+    expect(rows).toHaveLength(20);
+    expect(mc1).toMatchObject({
+      courseName: 'Mario Circuit 1',
+      appRecord: { playerId: 'p2', timeMs: 59000, tournamentName: 'Cup 0' },
+      eventRecord: { playerId: 'p3', timeMs: 60500, tournamentName: 'Cup 1' },
+      personalBest: { playerId: 'p1', timeMs: 61000, tournamentId: 't1' },
+    });
+    expect(rows.find((row) => row.course === 'DP1')).toMatchObject({
+      appRecord: null,
+      eventRecord: null,
+      personalBest: null,
+    });
+  });
+
+  it('leaves event and personal columns empty without a focus', () => {
+    const mc1 = buildCourseRecords(history, tournaments).find((row) => row.course === 'MC1');
+    expect(mc1).toMatchObject({ eventRecord: null, personalBest: null });
+  });
+});
+
+describe('findCourseRecordBreaks', () => {
+  const history = [
+    time({ timeMs: 58000, playerId: 'p2', tournamentId: 't0', sourceId: 'e0' }),
+    time({ timeMs: 61000, playerId: 'p2', sourceId: 'e2' }),
+    time({ timeMs: 62000, tournamentId: 't0', sourceId: 'e4' }),
+  ];
+
+  it('reports each best the new time beats, most prominent first', () => {
+    const fresh = time({ timeMs: 60000 });
+    expect(
+      findCourseRecordBreaks(fresh, [...history, fresh]).map(({ kind, previous }) => [kind, previous.timeMs]),
+    ).toEqual([
+      ['event_record', 61000],
+      ['personal_best', 62000],
+    ]);
+    expect(findCourseRecordBreaks(time({ timeMs: 57000 }), history).map(({ kind }) => kind)).toEqual([
+      'app_record',
+      'event_record',
+      'personal_best',
+    ]);
+  });
+
+  it('does not call out ties or first-ever times', () => {
+    expect(findCourseRecordBreaks(time({ timeMs: 61000, playerId: 'p3' }), history)).toEqual([]);
+    expect(findCourseRecordBreaks(time({ course: 'DP1' }), history)).toEqual([]);
+  });
+});
+
+describe('extractArchivedCourseTimes', () => {
+  it('reads qualification times and submitted rounds, skipping copied finals entries', () => {
+    const player = { id: 'p1', name: 'Alice', nickname: 'alice', country: null, noCamera: false };
+    const bundle = {
+      tournament: { id: 'ta1' },
+      modes: {
+        ta: {
+          entries: [
+            { id: 'e1', playerId: 'p1', stage: 'qualification', times: { MC1: '1:00.00' }, player },
+            { id: 'e2', playerId: 'p1', stage: 'phase3', times: { MC1: '1:00.00' }, player },
+          ],
+          phaseRounds: [
+            {
+              id: 'r1',
+              phase: 'phase3',
+              course: 'DP1',
+              submittedAt: '2025-01-01T00:00:00Z',
+              results: [{ playerId: 'p1', timeMs: 59000 }],
+            },
+          ],
+        },
+      },
+    } as unknown as TournamentArchiveBundle;
+
+    expect(extractArchivedCourseTimes(bundle)).toEqual([
+      time({ tournamentId: 'ta1' }),
+      time({ tournamentId: 'ta1', course: 'DP1', timeMs: 59000, stage: 'phase3', sourceId: 'r1' }),
+    ]);
+  });
+});
+
+describe('loadCourseTimes', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    clearMemoryCache();
+    mockPrisma.tournament.findMany.mockResolvedValue([
+      { id: 't1', name: 'Live', slug: null, date: '2026-01-01', publicModes: [], deletedAt: null },
+      { id: 't2', name: 'Public', slug: null, date: '2025-06-01', publicModes: ['ta'], deletedAt: null },
+      { id: 't3', name: 'Hidden', slug: null, date: '2025-01-01', publicModes: [], deletedAt: null },
+    ]);
+    mockPrisma.tTEntry.findMany.mockResolvedValue([]);
+    mockPrisma.tTPhaseRound.findMany.mockResolvedValue([]);
+    (readTournamentArchiveIndex as jest.Mock).mockResolvedValue([]);
+  });
+
+  it('reads the focus tournament and public tournaments only for non-admins', async () => {
+    const { tournaments } = await loadCourseTimes({
+      includeHidden: false,
+      includeArchived: false,
+      focusTournamentId: 't1',
+    });
+
+    expect(tournaments.map(({ id }) => id)).toEqual(['t1', 't2']);
+    expect(mockPrisma.tTPhaseRound.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { tournamentId: { in: ['t1', 't2'] }, submittedAt: { not: null } } }),
+    );
+    expect(readTournamentArchiveIndex).not.toHaveBeenCalled();
+  });
+
+  it('limits other tournaments to the requested players', async () => {
+    mockPrisma.tTEntry.findMany
+      .mockResolvedValueOnce([
+        { id: 'e1', tournamentId: 't1', playerId: 'p1', times: { MC1: '1:00.00' }, player: { nickname: 'alice' } },
+        { id: 'e2', tournamentId: 't1', playerId: 'p2', times: { MC1: '1:01.00' }, player: { nickname: 'bob' } },
+      ])
+      .mockResolvedValueOnce([
+        { id: 'e3', tournamentId: 't2', playerId: 'p1', times: { MC1: '0:59.00' }, player: { nickname: 'alice' } },
+      ]);
+
+    const { times } = await loadCourseTimes({
+      includeHidden: false,
+      includeArchived: false,
+      focusTournamentId: 't1',
+      playerIds: ['p1'],
+    });
+
+    expect(mockPrisma.tTEntry.findMany).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        where: { stage: 'qualification', deletedAt: null, playerId: { in: ['p1'] }, tournamentId: { not: 't1' } },
+      }),
+    );
+    expect(times.map(({ sourceId }) => sourceId)).toEqual(['e1', 'e2', 'e3']);
+  });
+
+  it('reads phase rounds only on the requested courses where the requested players qualified', async () => {
+    mockPrisma.tTEntry.findMany
+      .mockResolvedValueOnce([
+        {
+          id: 'e1',
+          tournamentId: 't1',
+          playerId: 'p1',
+          times: { MC1: '1:00.00', DP1: '1:05.00' },
+          player: { nickname: 'alice' },
+        },
+      ])
+      .mockResolvedValueOnce([
+        { id: 'e3', tournamentId: 't2', playerId: 'p1', times: { MC1: '0:59.00' }, player: { nickname: 'alice' } },
+      ]);
+
+    const { times } = await loadCourseTimes({
+      includeHidden: true,
+      includeArchived: false,
+      focusTournamentId: 't1',
+      playerIds: ['p1'],
+      courses: ['MC1'],
+    });
+
+    expect(mockPrisma.tTPhaseRound.findMany).toHaveBeenCalledTimes(1);
+    expect(mockPrisma.tTPhaseRound.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { tournamentId: { in: ['t1', 't2'] }, submittedAt: { not: null }, course: { in: ['MC1'] } },
+      }),
+    );
+    expect(times.map(({ sourceId, course }) => [sourceId, course])).toEqual([
+      ['e1', 'MC1'],
+      ['e3', 'MC1'],
+    ]);
+  });
+
+  it('adds archived tournaments that are no longer in D1', async () => {
+    (readTournamentArchiveIndex as jest.Mock).mockResolvedValue([
+      { id: 't2', publicModes: ['ta'] },
+      { id: 'old', publicModes: ['ta'] },
+      { id: 'old-hidden', publicModes: [] },
+    ]);
+    (readTournamentArchive as jest.Mock).mockResolvedValue({
+      tournament: { id: 'old', name: 'Old', slug: 'old', date: '2020-01-01' },
+      modes: { ta: { entries: [], phaseRounds: [] } },
+    });
+
+    const { tournaments } = await loadCourseTimes({ includeHidden: false, includeArchived: true });
+
+    expect(readTournamentArchive).toHaveBeenCalledTimes(1);
+    expect(readTournamentArchive).toHaveBeenCalledWith('old');
+    expect(tournaments.map(({ id, archived }) => [id, archived])).toEqual([
+      ['t2', false],
+      ['old', true],
+    ]);
+  });
+
+  it('reuses the archive times until the archive set changes', async () => {
+    (readTournamentArchiveIndex as jest.Mock).mockResolvedValue([
+      { id: 'old', publicModes: ['ta'], archivedAt: '2020-01-02T00:00:00Z' },
+    ]);
+    (readTournamentArchive as jest.Mock).mockResolvedValue({
+      tournament: { id: 'old', name: 'Old', slug: 'old', date: '2020-01-01' },
+      modes: {
+        ta: {
+          entries: [{ id: 'e9', playerId: 'p1', stage: 'qualification', times: { MC1: '1:00.00' }, player: {} }],
+          phaseRounds: [],
+        },
+      },
+    });
+
+    await loadCourseTimes({ includeHidden: false, includeArchived: true });
+    const { times } = await loadCourseTimes({ includeHidden: false, includeArchived: true, playerIds: ['p1'] });
+    expect(readTournamentArchive).toHaveBeenCalledTimes(1);
+    expect(times.map(({ sourceId }) => sourceId)).toEqual(['e9']);
+
+    (readTournamentArchiveIndex as jest.Mock).mockResolvedValue([
+      { id: 'old', publicModes: ['ta'], archivedAt: '2020-01-02T00:00:00Z' },
+      { id: 'older', publicModes: ['ta'], archivedAt: '2020-01-03T00:00:00Z' },
+    ]);
+    await loadCourseTimes({ includeHidden: false, includeArchived: true });
+    expect(readTournamentArchive).toHaveBeenCalledTimes(3);
+  });
+
+  it('does not cache the archive times while one archive read fails', async () => {
+    (readTournamentArchiveIndex as jest.Mock).mockResolvedValue([
+      { id: 'old', publicModes: ['ta'], archivedAt: '2020-01-02T00:00:00Z' },
+    ]);
+    (readTournamentArchive as jest.Mock).mockResolvedValueOnce(null).mockResolvedValue({
+      tournament: { id: 'old', name: 'Old', slug: 'old', date: '2020-01-01' },
+      modes: { ta: { entries: [], phaseRounds: [] } },
+    });
+
+    const partial = await loadCourseTimes({ includeHidden: false, includeArchived: true });
+    expect(partial.tournaments.map(({ id }) => id)).toEqual(['t2']);
+
+    const recovered = await loadCourseTimes({ includeHidden: false, includeArchived: true });
+    expect(readTournamentArchive).toHaveBeenCalledTimes(2);
+    expect(recovered.tournaments.map(({ id }) => id)).toEqual(['t2', 'old']);
+  });
+
+  it('falls back to live records when archives cannot be read', async () => {
+    (readTournamentArchiveIndex as jest.Mock).mockRejectedValue(new Error('R2 down'));
+
+    const { tournaments } = await loadCourseTimes({ includeHidden: true, includeArchived: true });
+
+    expect(tournaments.map(({ id }) => id)).toEqual(['t1', 't2', 't3']);
+  });
+});
@@ -116,6 +116,13 @@ jest.mock('@/lib/logger', () => ({
   })),
 }));
 
+/** A smaller event: Phase 1 from ranks 9-12, Phase 2 from 7-8, Phase 3 from 1-6 with 2 lives lost per round. */
+const CUSTOM_FINALS_RULES = {
+  phase1: { qualRankStart: 9, qualRankEnd: 12, survivorsNeeded: 2 },
+  phase2: { qualRankStart: 7, qualRankEnd: 8, survivorsNeeded: 2 },
+  phase3: { qualRankStart: 1, qualRankEnd: 6, initialLives: 4, lifeLoss: 2, lifeResetThresholds: [4, 2] },
+};
+
 describe('TA Finals Phase Manager', () => {
   beforeEach(() => {
     jest.clearAllMocks();
@@ -1358,6 +1365,21 @@ describe('TA Finals Phase Manager', () => {
         }),
       );
     });
+
+    it("defaults a Phase 3 round to the tournament rule set's lifeLoss", async () => {
+      const result = await startPhaseRound(
+        mockPrismaClient as any,
+        { ...context, taFinalsRules: CUSTOM_FINALS_RULES },
+        'phase3',
+      );
+
+      expect(result.lifeLoss).toBe(2);
+      expect(mockPrismaClient.tTPhaseRound.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({ lifeLoss: 2 }),
+        }),
+      );
+    });
   });
 
   describe('submitRoundResults sudden death', () => {
@@ -2662,6 +2684,23 @@ describe('TA Finals Phase Manager', () => {
       expect(result.entries).toHaveLength(1);
     });
 
+    it('promotes the Phase 1 band of the tournament rule set', async () => {
+      (mockPrismaClient.tTEntry.findMany as jest.Mock)
+        .mockResolvedValueOnce([makeQualPlayer('p1', 9)])
+        .mockResolvedValueOnce([])
+        .mockResolvedValueOnce([makePhaseEntry('p1')]);
+      (mockPrismaClient.tTEntry.createMany as jest.Mock).mockResolvedValue({ count: 1 });
+
+      await promoteToPhase1(mockPrismaClient as never, { ...context, taFinalsRules: CUSTOM_FINALS_RULES });
+
+      expect(mockPrismaClient.tTEntry.findMany).toHaveBeenNthCalledWith(
+        1,
+        expect.objectContaining({
+          where: { tournamentId: 't1', stage: 'qualification', rank: { gte: 9, lte: 12 } },
+        }),
+      );
+    });
+
     it('should call logger.warn when audit log rejects in promoteToPhase2', async () => {
       (createAuditLog as jest.Mock).mockRejectedValue(new Error('Audit failed'));
 
@@ -0,0 +1,72 @@
+/**
+ * @module __tests__/lib/ta/finals-rules.test.ts
+ *
+ * Test suite for finals-rules.ts: validation of per-tournament TA finals rule
+ * sets, the stored-value fallback and the derived per-phase config.
+ */
+import { describe, it, expect } from '@jest/globals';
+import {
+  DEFAULT_TA_FINALS_RULES,
+  getTaFinalsStartingPlayers,
+  getTaPhaseConfig,
+  parseTaFinalsRules,
+  readStoredTaFinalsRules,
+  type TaFinalsRules,
+} from '@/lib/ta/finals-rules';
+
+const small: TaFinalsRules = {
+  phase1: { qualRankStart: 9, qualRankEnd: 12, survivorsNeeded: 2 },
+  phase2: { qualRankStart: 7, qualRankEnd: 8, survivorsNeeded: 2 },
+  phase3: { qualRankStart: 1, qualRankEnd: 6, initialLives: 4, lifeLoss: 2, lifeResetThresholds: [4, 2] },
+};
+
+describe('parseTaFinalsRules', () => {
+  it('accepts the rulebook defaults', () => {
+    expect(parseTaFinalsRules(DEFAULT_TA_FINALS_RULES)).toEqual({ success: true, rules: DEFAULT_TA_FINALS_RULES });
+  });
+
+  it('sorts reset thresholds highest first', () => {
+    const result = parseTaFinalsRules({ ...small, phase3: { ...small.phase3, lifeResetThresholds: [2, 4] } });
+
+    expect(result).toEqual({ success: true, rules: small });
+  });
+
+  it.each([
+    ['phase3.qualRankStart', { ...small, phase3: { ...small.phase3, qualRankStart: 2 } }],
+    ['phase2.qualRankStart', { ...small, phase2: { ...small.phase2, qualRankStart: 8 } }],
+    ['phase1.qualRankStart', { ...small, phase1: { ...small.phase1, qualRankStart: 10 } }],
+    ['phase1.qualRankEnd', { ...small, phase1: { ...small.phase1, qualRankEnd: 70 } }],
+    /* The CDM finals sheet has rows for qualification ranks 1-24 only. */
+    ['phase1.qualRankEnd', { ...small, phase1: { ...small.phase1, qualRankEnd: 25 } }],
+    ['phase1.survivorsNeeded', { ...small, phase1: { ...small.phase1, survivorsNeeded: 4 } }],
+    ['phase2.survivorsNeeded', { ...small, phase2: { ...small.phase2, survivorsNeeded: 4 } }],
+    ['phase3.lifeLoss', { ...small, phase3: { ...small.phase3, lifeLoss: 5 } }],
+    ['phase3.lifeResetThresholds', { ...small, phase3: { ...small.phase3, lifeResetThresholds: [4, 4] } }],
+    ['phase3.lifeResetThresholds', { ...small, phase3: { ...small.phase3, lifeResetThresholds: [8] } }],
+  ])('reports %s', (field, value) => {
+    expect(parseTaFinalsRules(value)).toMatchObject({ success: false, field });
+  });
+});
+
+describe('readStoredTaFinalsRules', () => {
+  it('falls back to the defaults for missing or unreadable values', () => {
+    expect(readStoredTaFinalsRules(null)).toBe(DEFAULT_TA_FINALS_RULES);
+    expect(readStoredTaFinalsRules({ phase1: {} })).toBe(DEFAULT_TA_FINALS_RULES);
+    expect(readStoredTaFinalsRules(small)).toEqual(small);
+  });
+});
+
+describe('getTaPhaseConfig', () => {
+  it('derives each phase field from the bands and survivors', () => {
+    expect(getTaFinalsStartingPlayers(small)).toEqual({ phase1: 4, phase2: 4, phase3: 8 });
+    expect(getTaPhaseConfig(small).phase3).toEqual({
+      qualRankStart: 1,
+      qualRankEnd: 6,
+      startingPlayers: 8,
+      survivorsNeeded: 1,
+      hasLives: true,
+      initialLives: 4,
+      lifeResetThresholds: [4, 2],
+    });
+  });
+});
@@ -0,0 +1,188 @@
+/**
+ * @module __tests__/lib/ta/finals-timeline.test.ts
+ *
+ * Test suite for finals-timeline.ts: the round-by-round replay of the TA
+ * finals (alive players, Phase 3 lives, course pool, sudden-death chain) and
+ * its CSV export.
+ */
+import { describe, it, expect } from '@jest/globals';
+import { buildTaFinalsTimeline, taFinalsTimelineToCsv, type TimelineRoundInput } from '@/lib/ta/finals-timeline';
+
+const entry = (playerId: string, stage: string) => ({ playerId, stage, player: { nickname: playerId.toUpperCase() } });
+
+const round = (overrides: Partial<TimelineRoundInput> & Pick<TimelineRoundInput, 'phase' | 'roundNumber'>) => ({
+  id: `${overrides.phase}-${overrides.roundNumber}`,
+  course: 'MC1',
+  results: [],
+  eliminatedIds: [],
+  livesReset: false,
+  lifeLoss: 1,
+  submittedAt: new Date(`2026-05-01T10:${String(overrides.roundNumber).padStart(2, '0')}:00.000Z`),
+  suddenDeathRounds: [],
+  ...overrides,
+});
+
+const rules = { initialLives: 2, lifeResetThresholds: [] };
+
+describe('buildTaFinalsTimeline', () => {
+  it('steps through the phases in order with the state after each round', () => {
+    const timeline = buildTaFinalsTimeline({
+      entries: [entry('a', 'phase1'), entry('b', 'phase1'), entry('a', 'phase3'), entry('c', 'phase3')],
+      rounds: [
+        round({
+          phase: 'phase3',
+          roundNumber: 1,
+          course: 'DP1',
+          results: [
+            { playerId: 'a', timeMs: 60000 },
+            { playerId: 'c', timeMs: 61000 },
+          ],
+        }),
+        round({
+          phase: 'phase1',
+          roundNumber: 1,
+          results: [
+            { playerId: 'a', timeMs: 60000 },
+            { playerId: 'b', timeMs: 62000 },
+          ],
+          eliminatedIds: ['b'],
+        }),
+        round({ phase: 'phase3', roundNumber: 2, submittedAt: null }),
+      ],
+      phase3Rules: rules,
+    });
+
+    expect(timeline.steps.map((step) => [step.step, step.phase, step.roundNumber])).toEqual([
+      [1, 'phase1', 1],
+      [2, 'phase3', 1],
+    ]);
+    expect(timeline.steps[0].players).toEqual([
+      { playerId: 'a', nickname: 'A', alive: true, lives: null, lifeLost: false, eliminatedThisRound: false },
+      { playerId: 'b', nickname: 'B', alive: false, lives: null, lifeLost: true, eliminatedThisRound: true },
+    ]);
+    expect(timeline.steps[1].players).toEqual([
+      { playerId: 'a', nickname: 'A', alive: true, lives: 2, lifeLost: false, eliminatedThisRound: false },
+      { playerId: 'c', nickname: 'C', alive: true, lives: 1, lifeLost: true, eliminatedThisRound: false },
+    ]);
+    expect(timeline.steps[1].courses).toMatchObject({ cycleNumber: 1, playedInCycle: 2, played: ['MC1', 'DP1'] });
+    expect(timeline.steps[1].courses.available).not.toContain('DP1');
+  });
+
+  it('keeps the sudden-death chain and counts its courses like the course pool does', () => {
+    const timeline = buildTaFinalsTimeline({
+      entries: [entry('a', 'phase3'), entry('b', 'phase3'), entry('c', 'phase3')],
+      rounds: [
+        round({
+          phase: 'phase3',
+          roundNumber: 1,
+          results: [
+            { playerId: 'a', timeMs: 60000 },
+            { playerId: 'b', timeMs: 61000 },
+            { playerId: 'c', timeMs: 61000 },
+          ],
+          suddenDeathRounds: [
+            {
+              sequence: 2,
+              course: 'GV1',
+              kind: 'elimination',
+              targetPlayerIds: ['b', 'c'],
+              results: null,
+              resolved: false,
+            },
+            {
+              sequence: 1,
+              course: 'MC1',
+              kind: 'life_loss',
+              targetPlayerIds: ['b', 'c'],
+              results: [
+                { playerId: 'c', timeMs: 59000 },
+                { playerId: 'b', timeMs: 59500 },
+              ],
+              resolved: true,
+            },
+          ],
+        }),
+      ],
+      phase3Rules: rules,
+    });
+
+    const [step] = timeline.steps;
+    expect(step.suddenDeaths.map((suddenDeath) => [suddenDeath.sequence, suddenDeath.kind])).toEqual([
+      [1, 'life_loss'],
+      [2, 'elimination'],
+    ]);
+    /* c won the tiebreak, so only b drops into the bottom half with a. */
+    expect(step.players.find((player) => player.playerId === 'b')).toMatchObject({ lives: 1, lifeLost: true });
+    expect(step.players.find((player) => player.playerId === 'c')).toMatchObject({ lives: 2, lifeLost: false });
+    expect(step.courses.played).toEqual(['MC1', 'GV1']);
+  });
+
+  it('shows manual life adjustments from the round they follow', () => {
+    const timeline = buildTaFinalsTimeline({
+      entries: [entry('a', 'phase3'), entry('b', 'phase3')],
+      rounds: [
+        round({
+          phase: 'phase3',
+          roundNumber: 1,
+          results: [
+            { playerId: 'a', timeMs: 60000 },
+            { playerId: 'b', timeMs: 61000 },
+          ],
+        }),
+        round({
+          phase: 'phase3',
+          roundNumber: 2,
+          results: [
+            { playerId: 'a', timeMs: 60000 },
+            { playerId: 'b', timeMs: 61000 },
+          ],
+        }),
+      ],
+      phase3Rules: rules,
+      lifeAdjustments: [
+        {
+          id: 'adj-1',
+          playerId: 'b',
+          oldLives: 1,
+          newLives: 2,
+          entryVersion: 3,
+          afterRoundId: 'phase3-1',
+          afterRoundNumber: 1,
+          createdAt: new Date('2026-05-01T10:01:30.000Z'),
+        },
+      ],
+    });
+
+    /* Without the adjustment back to 2 lives, b would have been eliminated in round 2. */
+    expect(timeline.steps.map((step) => step.players.find((player) => player.playerId === 'b')?.lives)).toEqual([1, 1]);
+  });
+});
+
+describe('taFinalsTimelineToCsv', () => {
+  it('writes one row per player per round', () => {
+    const csv = taFinalsTimelineToCsv(
+      buildTaFinalsTimeline({
+        entries: [entry('a', 'phase1'), entry('b', 'phase1')],
+        rounds: [
+          round({
+            phase: 'phase1',
+            roundNumber: 1,
+            results: [
+              { playerId: 'a', timeMs: 60000 },
+              { playerId: 'b', timeMs: 62000, isRetry: true },
+            ],
+            eliminatedIds: ['b'],
+          }),
+        ],
+        phase3Rules: rules,
+      }),
+    );
+
+    expect(csv.split('\r\n')).toEqual([
+      '﻿Step,Phase,Round,Course,Player,Time,Retry,Life Lost,Lives After,Alive,Eliminated,Lives Reset,Sudden Death',
+      '1,phase1,1,MC1,A,1:00.000,,,,yes,,,',
+      '1,phase1,1,MC1,B,1:02.000,yes,yes,,no,yes,,',
+      '',
+    ]);
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * @module __tests__/lib/ta/live-leaderboard.test.ts
+ *
+ * Test suite for live-leaderboard.ts: provisional TA qualification points on
+ * partial times, projected final-points ranges and cut-line bubble flags.
+ */
+import { describe, it, expect } from '@jest/globals';
+import { COURSES } from '@/lib/constants';
+import { buildTaLiveLeaderboard, type LeaderboardEntryInput } from '@/lib/ta/live-leaderboard';
+
+const entry = (id: string, times: Record<string, string> | null = {}): LeaderboardEntryInput => ({
+  id,
+  playerId: `player-${id}`,
+  times,
+  player: { name: `Name ${id}`, nickname: id.toUpperCase() },
+});
+
+/** Every course run in `seconds` past one minute, so lower is faster on all of them. */
+const completeTimes = (seconds: number) =>
+  Object.fromEntries(COURSES.map((course) => [course, `1:${String(seconds).padStart(2, '0')}.00`]));
+
+describe('buildTaLiveLeaderboard', () => {
+  it('projects ranges from the courses run so far', () => {
+    const board = buildTaLiveLeaderboard([
+      entry('a', { MC1: '1:00.00' }),
+      entry('b', { MC1: '1:01.00' }),
+      entry('c', null),
+    ]);
+
+    expect(board.players.map((p) => [p.entryId, p.provisionalRank, p.provisionalPoints])).toEqual([
+      ['a', 1, 50],
+      ['b', 2, 0],
+      ['c', 3, 0],
+    ]);
+    /* a can still drop to second on MC1 once c runs it (25 of 50). */
+    expect(board.players[0]).toMatchObject({ coursesRun: 1, minPoints: 25, maxPoints: 1000 });
+    expect(board.players[1]).toMatchObject({ coursesRun: 1, minPoints: 0, maxPoints: 975 });
+    expect(board.players[2]).toMatchObject({ coursesRun: 0, minPoints: 0, maxPoints: 1000 });
+    expect(board.courses.find((c) => c.course === 'MC1')!.results).toEqual([
+      { entryId: 'a', rank: 1, time: '1:00.00', points: 50 },
+      { entryId: 'b', rank: 2, time: '1:01.00', points: 0 },
+    ]);
+    expect(board.courses.find((c) => c.course === 'DP1')!.results).toEqual([]);
+  });
+
+  it('settles every range once all times are in', () => {
+    const board = buildTaLiveLeaderboard(
+      Array.from({ length: 13 }, (_, i) => entry(`p${i + 1}`, completeTimes(10 + i))),
+    );
+
+    expect(board.cutLines).toEqual([12]);
+    for (const player of board.players) {
+      expect(player.minPoints).toBe(player.provisionalPoints);
+      expect(player.maxPoints).toBe(player.provisionalPoints);
+      expect([player.bestRank, player.worstRank]).toEqual([player.provisionalRank, player.provisionalRank]);
+      expect(player.bubbleCutLines).toEqual([]);
+    }
+  });
+
+  it('puts everyone on the bubble before the first time is entered', () => {
+    const board = buildTaLiveLeaderboard(Array.from({ length: 17 }, (_, i) => entry(`p${i + 1}`)));
+
+    expect(board.cutLines).toEqual([12, 16]);
+    expect(board.players.every((p) => p.bestRank === 1 && p.worstRank === 17)).toBe(true);
+    expect(board.players[0].bubbleCutLines).toEqual([12, 16]);
+  });
+
+  it('flags only the players who can still finish either side of a cut line', () => {
+    const lastCourse = COURSES[COURSES.length - 1];
+    const withoutLast = (seconds: number) => {
+      const times = completeTimes(seconds);
+      delete times[lastCourse];
+      return times;
+    };
+    const board = buildTaLiveLeaderboard([
+      ...Array.from({ length: 11 }, (_, i) => entry(`p${i + 1}`, completeTimes(10 + i))),
+      entry('p12', withoutLast(30)),
+      entry('p13', withoutLast(30)),
+    ]);
+
+    const byId = new Map(board.players.map((p) => [p.entryId, p]));
+    expect(byId.get('p11')).toMatchObject({ bestRank: 11, worstRank: 11, bubbleCutLines: [] });
+    expect(byId.get('p12')).toMatchObject({ bestRank: 12, worstRank: 13, bubbleCutLines: [12] });
+    expect(byId.get('p13')).toMatchObject({ bestRank: 12, worstRank: 13, bubbleCutLines: [12] });
+  });
+
+  it('draws the cut lines of a custom finals rule set', () => {
+    const board = buildTaLiveLeaderboard(
+      Array.from({ length: 10 }, (_, i) => entry(`p${i + 1}`)),
+      {
+        phase1: { qualRankStart: 9, qualRankEnd: 12, survivorsNeeded: 2 },
+        phase2: { qualRankStart: 7, qualRankEnd: 8, survivorsNeeded: 2 },
+        phase3: { qualRankStart: 1, qualRankEnd: 6, initialLives: 3, lifeLoss: 1, lifeResetThresholds: [4, 2] },
+      },
+    );
+
+    expect(board.cutLines).toEqual([6, 8]);
+  });
+});
@@ -0,0 +1,184 @@
+/**
+ * @module __tests__/lib/tournament-events.test.ts
+ *
+ * Test suite for the tournament event hub (tournament-events.ts):
+ * - subscribeTournamentChanges() / publishTournamentChange(): per-tournament delivery,
+ *   unsubscribe, and isolation of a throwing listener.
+ * - watchTournamentChanges(): changes from other isolates through the shared
+ *   change cursors, scope filtering, and no double delivery.
+ * - withTournamentChangePublish(): publishes only after 2xx responses.
+ */
+import { describe, it, expect, beforeEach } from '@jest/globals';
+
+jest.mock('@/lib/logger', () => ({
+  createLogger: jest.fn(() => ({ error: jest.fn(), warn: jest.fn(), info: jest.fn(), debug: jest.fn() })),
+}));
+jest.mock('@/lib/tournament-identifier', () => ({
+  resolveTournamentId: jest.fn(async (id: string) => (id === 'spring-cup' ? 't1' : id)),
+}));
+
+import { createMemoryCacheBackend, setCacheBackend, type CacheBackend } from '@/lib/cache-backend';
+import {
+  clearTournamentSubscribers,
+  countTournamentSubscribers,
+  CURSOR_POLL_MS,
+  publishTournamentChange,
+  subscribeTournamentChanges,
+  watchTournamentChanges,
+  withTournamentChangePublish,
+} from '@/lib/tournament-events';
+
+describe('Tournament event hub', () => {
+  let backend: CacheBackend;
+
+  beforeEach(() => {
+    clearTournamentSubscribers();
+    backend = createMemoryCacheBackend();
+    setCacheBackend(backend);
+  });
+
+  afterAll(() => {
+    setCacheBackend(null);
+  });
+
+  it('delivers changes only to subscribers of that tournament', () => {
+    const first = jest.fn();
+    const other = jest.fn();
+    subscribeTournamentChanges('t1', first);
+    subscribeTournamentChanges('t2', other);
+
+    publishTournamentChange('t1', 'bm');
+
+    expect(first).toHaveBeenCalledWith({ id: expect.any(String), scope: 'bm', at: expect.any(String) });
+    expect(other).not.toHaveBeenCalled();
+  });
+
+  it('drops the tournament entry with its last listener', () => {
+    const listener = jest.fn();
+    const unsubscribe = subscribeTournamentChanges('t1', listener);
+    expect(countTournamentSubscribers('t1')).toBe(1);
+
+    unsubscribe();
+    publishTournamentChange('t1');
+
+    expect(listener).not.toHaveBeenCalled();
+    expect(countTournamentSubscribers('t1')).toBe(0);
+  });
+
+  it('keeps delivering after a listener throws', () => {
+    const after = jest.fn();
+    subscribeTournamentChanges('t1', () => {
+      throw new Error('stream closed');
+    });
+    subscribeTournamentChanges('t1', after);
+
+    publishTournamentChange('t1', 'ta');
+
+    expect(after).toHaveBeenCalledWith(expect.objectContaining({ scope: 'ta' }));
+  });
+
+  it('records the change in the shared cursors', async () => {
+    await publishTournamentChange('t1', 'bm');
+
+    const cursor = await backend.get('events:t1:bm');
+    expect(cursor).toEqual({ id: expect.any(String), scope: 'bm', at: expect.any(String) });
+    expect(await backend.get('events:t1:any')).toEqual(cursor);
+    expect(await backend.get('events:t1:global')).toBeNull();
+  });
+
+  describe('watchTournamentChanges', () => {
+    beforeEach(() => {
+      jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    /** A publish from another isolate only reaches this one through the cursors. */
+    async function publishElsewhere(scope: 'ta' | 'bm' | null) {
+      const event = { id: `remote-${scope}`, scope, at: new Date().toISOString() };
+      await backend.set(`events:t1:${scope ?? 'global'}`, event, 60_000);
+      await backend.set('events:t1:any', event, 60_000);
+      return event;
+    }
+
+    it('delivers changes published by another isolate', async () => {
+      const listener = jest.fn();
+      const stop = watchTournamentChanges('t1', 'bm', listener);
+      await jest.advanceTimersByTimeAsync(0);
+
+      const event = await publishElsewhere('bm');
+      await jest.advanceTimersByTimeAsync(CURSOR_POLL_MS);
+
+      expect(listener).toHaveBeenCalledWith(event);
+      await jest.advanceTimersByTimeAsync(CURSOR_POLL_MS);
+      expect(listener).toHaveBeenCalledTimes(1);
+      stop();
+    });
+
+    it('skips other modes but passes mode-agnostic changes', async () => {
+      const listener = jest.fn();
+      const stop = watchTournamentChanges('t1', 'bm', listener);
+      await jest.advanceTimersByTimeAsync(0);
+
+      await publishElsewhere('ta');
+      await jest.advanceTimersByTimeAsync(CURSOR_POLL_MS);
+      expect(listener).not.toHaveBeenCalled();
+
+      await publishElsewhere(null);
+      await jest.advanceTimersByTimeAsync(CURSOR_POLL_MS);
+      expect(listener).toHaveBeenCalledWith(expect.objectContaining({ scope: null }));
+      stop();
+    });
+
+    it('delivers a local change once although its cursor is read later', async () => {
+      const listener = jest.fn();
+      const stop = watchTournamentChanges('t1', null, listener);
+      await jest.advanceTimersByTimeAsync(0);
+
+      await publishTournamentChange('t1', 'gp');
+      await jest.advanceTimersByTimeAsync(CURSOR_POLL_MS);
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      stop();
+      expect(countTournamentSubscribers('t1')).toBe(0);
+    });
+
+    it('ignores cursors written before it started', async () => {
+      await publishTournamentChange('t1', 'bm');
+      const listener = jest.fn();
+      const stop = watchTournamentChanges('t1', 'bm', listener);
+
+      await jest.advanceTimersByTimeAsync(CURSOR_POLL_MS * 2);
+
+      expect(listener).not.toHaveBeenCalled();
+      stop();
+    });
+  });
+
+  describe('withTournamentChangePublish', () => {
+    const ctx = { params: Promise.resolve({ id: 'spring-cup' }) };
+
+    it('publishes under the resolved id after a successful response', async () => {
+      const listener = jest.fn();
+      subscribeTournamentChanges('t1', listener);
+      const handler = withTournamentChangePublish('gp', async () => new Response(null, { status: 201 }));
+
+      const response = await handler(new Request('http://localhost'), ctx);
+
+      expect(response.status).toBe(201);
+      expect(listener).toHaveBeenCalledWith(expect.objectContaining({ scope: 'gp' }));
+    });
+
+    it('does not publish after an error response', async () => {
+      const listener = jest.fn();
+      subscribeTournamentChanges('t1', listener);
+      const handler = withTournamentChangePublish('gp', async () => new Response(null, { status: 409 }));
+
+      await handler(new Request('http://localhost'), ctx);
+
+      expect(listener).not.toHaveBeenCalled();
+    });
+  });
+});
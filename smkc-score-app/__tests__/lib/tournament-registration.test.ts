@@ -0,0 +1,210 @@
+/**
+ * @module __tests__/lib/tournament-registration.test.ts
+ *
+ * Test suite for tournament self-registration (tournament-registration.ts):
+ * - parseRegistrationSettings() / parseRegistrationModes(): validation and defaults.
+ * - initialRegistrationStatus(): waitlisting once the cap is full.
+ * - reconcileRegistrationCap(): a sign-up that lost the race for the last spot is waitlisted.
+ * - promoteWaitlistedRegistrations(): oldest waitlisted entries fill free spots.
+ * - getApprovedRegistrationPlayerIds() / registrationGroupPresets(): setup pre-fill.
+ * - getNotCheckedInPlayerIds(): the check-in gate on group setup.
+ */
+import prisma from '@/lib/prisma';
+import {
+  defaultRegistrationSettings,
+  getApprovedRegistrationPlayerIds,
+  getNotCheckedInPlayerIds,
+  initialRegistrationStatus,
+  parseRegistrationModes,
+  parseRegistrationSettings,
+  promoteWaitlistedRegistrations,
+  readStoredRegistrationSettings,
+  reconcileRegistrationCap,
+  registrationGroupPresets,
+  RegistrationError,
+} from '@/lib/tournament-registration';
+
+describe('tournament-registration', () => {
+  describe('parseRegistrationSettings', () => {
+    it('fills omitted fields from the defaults', () => {
+      expect(parseRegistrationSettings({ open: true })).toEqual({
+        open: true,
+        cap: null,
+        modes: ['ta', 'bm', 'mr', 'gp'],
+        checkIn: false,
+      });
+      const saved = { open: true, cap: 16, modes: ['bm' as const], checkIn: true };
+      expect(parseRegistrationSettings({ cap: 32 }, saved)).toEqual({
+        open: true,
+        cap: 32,
+        modes: ['bm'],
+        checkIn: true,
+      });
+      expect(parseRegistrationSettings({ cap: null }, saved).cap).toBeNull();
+    });
+
+    it('rejects invalid fields with the field name', () => {
+      expect(() => parseRegistrationSettings({ open: 'yes' })).toThrow(RegistrationError);
+      expect(() => parseRegistrationSettings({ cap: 0 })).toThrow(expect.objectContaining({ field: 'cap' }));
+      expect(() => parseRegistrationSettings({ cap: 2.5 })).toThrow(expect.objectContaining({ field: 'cap' }));
+      expect(() => parseRegistrationSettings({ modes: [] })).toThrow(expect.objectContaining({ field: 'modes' }));
+      expect(() => parseRegistrationSettings({ checkIn: 1 })).toThrow(expect.objectContaining({ field: 'checkIn' }));
+    });
+
+    it('reads stored settings, treating settings saved before check-in as check-in off', () => {
+      expect(readStoredRegistrationSettings(null)).toBeNull();
+      expect(readStoredRegistrationSettings({ open: true, cap: -1 })).toBeNull();
+      expect(readStoredRegistrationSettings({ open: true, cap: 8, modes: ['ta'] })).toEqual({
+        open: true,
+        cap: 8,
+        modes: ['ta'],
+        checkIn: false,
+      });
+    });
+  });
+
+  describe('parseRegistrationModes', () => {
+    it('dedupes and orders the selection', () => {
+      expect(parseRegistrationModes(['gp', 'bm', 'gp'])).toEqual(['bm', 'gp']);
+    });
+
+    it('rejects modes not on offer', () => {
+      expect(() => parseRegistrationModes(['ta'], ['bm', 'mr'])).toThrow('modes must be chosen from bm, mr');
+      expect(() => parseRegistrationModes('bm')).toThrow(RegistrationError);
+    });
+  });
+
+  describe('initialRegistrationStatus', () => {
+    it('accepts everyone without a cap', async () => {
+      expect(await initialRegistrationStatus('t1', defaultRegistrationSettings())).toBe('pending');
+      expect(prisma.tournamentRegistration.count).not.toHaveBeenCalled();
+    });
+
+    it('waitlists once pending and approved entries reach the cap', async () => {
+      const settings = { open: true, cap: 2, modes: ['bm' as const], checkIn: false };
+      (prisma.tournamentRegistration.count as jest.Mock).mockResolvedValueOnce(1).mockResolvedValueOnce(2);
+
+      expect(await initialRegistrationStatus('t1', settings)).toBe('pending');
+      expect(await initialRegistrationStatus('t1', settings)).toBe('waitlisted');
+      expect(prisma.tournamentRegistration.count).toHaveBeenCalledWith({
+        where: { tournamentId: 't1', status: { in: ['pending', 'approved'] } },
+      });
+    });
+  });
+
+  describe('reconcileRegistrationCap', () => {
+    const settings = { open: true, cap: 2, modes: ['bm' as const], checkIn: false };
+
+    it('keeps an entry that is within the cap', async () => {
+      (prisma.tournamentRegistration.findMany as jest.Mock).mockResolvedValue([{ id: 'r1' }, { id: 'r2' }]);
+
+      expect(await reconcileRegistrationCap('t1', 'r2', settings)).toBe('pending');
+      expect(prisma.tournamentRegistration.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ orderBy: [{ createdAt: 'asc' }, { id: 'asc' }] }),
+      );
+      expect(prisma.tournamentRegistration.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('waitlists the later of two sign-ups that both took the last spot', async () => {
+      (prisma.tournamentRegistration.findMany as jest.Mock).mockResolvedValue([
+        { id: 'r1' },
+        { id: 'r2' },
+        { id: 'r3' },
+      ]);
+
+      expect(await reconcileRegistrationCap('t1', 'r3', settings)).toBe('waitlisted');
+      expect(prisma.tournamentRegistration.updateMany).toHaveBeenCalledWith({
+        where: { id: 'r3', status: 'pending' },
+        data: { status: 'waitlisted' },
+      });
+    });
+
+    it('does nothing without a cap', async () => {
+      expect(await reconcileRegistrationCap('t1', 'r3', defaultRegistrationSettings())).toBe('pending');
+      expect(prisma.tournamentRegistration.findMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('promoteWaitlistedRegistrations', () => {
+    it('moves the oldest waitlisted entries into the free spots', async () => {
+      (prisma.tournamentRegistration.count as jest.Mock).mockResolvedValue(3);
+      (prisma.tournamentRegistration.findMany as jest.Mock).mockResolvedValue([{ id: 'r4' }, { id: 'r5' }]);
+
+      const promoted = await promoteWaitlistedRegistrations('t1', {
+        open: true,
+        cap: 5,
+        modes: ['bm'],
+        checkIn: false,
+      });
+
+      expect(promoted).toEqual(['r4', 'r5']);
+      expect(prisma.tournamentRegistration.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { tournamentId: 't1', status: 'waitlisted' }, take: 2 }),
+      );
+      expect(prisma.tournamentRegistration.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: ['r4', 'r5'] }, status: 'waitlisted' },
+        data: { status: 'pending' },
+      });
+    });
+
+    it('does nothing while the cap is full', async () => {
+      (prisma.tournamentRegistration.count as jest.Mock).mockResolvedValue(5);
+
+      expect(await promoteWaitlistedRegistrations('t1', { open: true, cap: 5, modes: ['bm'], checkIn: false })).toEqual(
+        [],
+      );
+      expect(prisma.tournamentRegistration.updateMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('setup pre-fill', () => {
+    it('returns approved players of a mode in sign-up order', async () => {
+      (prisma.tournamentRegistration.findMany as jest.Mock).mockResolvedValue([
+        { playerId: 'p1', modes: ['ta', 'bm'] },
+        { playerId: 'p2', modes: ['gp'] },
+        { playerId: 'p3', modes: ['bm'] },
+      ]);
+
+      expect(await getApprovedRegistrationPlayerIds('t1', 'bm')).toEqual(['p1', 'p3']);
+      expect(prisma.tournamentRegistration.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { tournamentId: 't1', status: 'approved', player: { deletedAt: null } } }),
+      );
+    });
+
+    it('only returns checked-in players while check-in is on', async () => {
+      (prisma.tournament.findUnique as jest.Mock).mockResolvedValue({
+        registrationSettings: { open: false, cap: null, modes: ['bm'], checkIn: true },
+      });
+      (prisma.tournamentRegistration.findMany as jest.Mock).mockResolvedValue([
+        { playerId: 'p1', modes: ['bm'], checkedInAt: new Date() },
+        { playerId: 'p2', modes: ['bm'], checkedInAt: null },
+      ]);
+
+      expect(await getApprovedRegistrationPlayerIds('t1', 'bm')).toEqual(['p1']);
+    });
+
+    it('reports approved players of the mode who have not checked in', async () => {
+      (prisma.tournamentRegistration.findMany as jest.Mock).mockResolvedValue([
+        { playerId: 'p2', modes: ['bm'] },
+        { playerId: 'p3', modes: ['gp'] },
+      ]);
+
+      expect(await getNotCheckedInPlayerIds('t1', 'bm', ['p1', 'p2', 'p3'])).toEqual(['p2']);
+      expect(prisma.tournamentRegistration.findMany).toHaveBeenCalledWith({
+        where: { tournamentId: 't1', status: 'approved', checkedInAt: null, playerId: { in: ['p1', 'p2', 'p3'] } },
+        select: { playerId: true, modes: true },
+      });
+      expect(await getNotCheckedInPlayerIds('t1', 'bm', [])).toEqual([]);
+    });
+
+    it('spreads players over groups without storing a seeding', () => {
+      const ids = Array.from({ length: 16 }, (_, index) => `p${index + 1}`);
+      const presets = registrationGroupPresets(ids);
+
+      expect(new Set(presets.map((preset) => preset.group))).toEqual(new Set(['A', 'B', 'C']));
+      expect(presets.slice(0, 6).map((preset) => preset.group)).toEqual(['A', 'B', 'C', 'C', 'B', 'A']);
+      expect(presets.every((preset) => !('seeding' in preset))).toBe(true);
+      expect(registrationGroupPresets([])).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,72 @@
+/**
+ * @module __tests__/lib/tournament-staff.test.ts
+ *
+ * Test suite for per-tournament staff roles (tournament-staff.ts):
+ * - permissionsForRoles(): role → permission mapping without duplicates.
+ * - getTournamentPermissions(): admins hold everything, players their roles', others none.
+ * - hasTournamentPermission(): admin short-circuit and role lookup for players.
+ */
+import prisma from '@/lib/prisma';
+import {
+  getTournamentPermissions,
+  hasTournamentPermission,
+  isTournamentStaffRole,
+  permissionsForRoles,
+} from '@/lib/tournament-staff';
+
+describe('tournament-staff', () => {
+  const adminSession = { user: { id: 'admin-1', role: 'admin' } };
+  const playerSession = { user: { id: 'player-1', userType: 'player', playerId: 'player-1' } };
+
+  it('maps roles to their permissions', () => {
+    expect(permissionsForRoles(['STAFF'])).toEqual(['scores', 'tv']);
+    expect(permissionsForRoles(['BROADCAST_OPERATOR', 'STAFF'])).toEqual(['scores', 'tv', 'broadcast']);
+    expect(permissionsForRoles(['TA_OPERATOR', 'UNKNOWN'])).toEqual(['ta']);
+    expect(isTournamentStaffRole('TA_OPERATOR')).toBe(true);
+    expect(isTournamentStaffRole('ADMIN')).toBe(false);
+  });
+
+  describe('getTournamentPermissions', () => {
+    it('grants every permission to admins without a query', async () => {
+      expect(await getTournamentPermissions(adminSession as never, 't1')).toEqual(['scores', 'tv', 'ta', 'broadcast']);
+      expect(prisma.tournamentStaff.findMany).not.toHaveBeenCalled();
+    });
+
+    it("returns the permissions of a player's roles in the tournament", async () => {
+      (prisma.tournamentStaff.findMany as jest.Mock).mockResolvedValue([{ role: 'TA_OPERATOR' }]);
+
+      expect(await getTournamentPermissions(playerSession as never, 't1')).toEqual(['ta']);
+      expect(prisma.tournamentStaff.findMany).toHaveBeenCalledWith({
+        where: { tournamentId: 't1', playerId: 'player-1' },
+        select: { role: true },
+      });
+    });
+
+    it('returns nothing for anonymous sessions', async () => {
+      expect(await getTournamentPermissions(null, 't1')).toEqual([]);
+    });
+  });
+
+  describe('hasTournamentPermission', () => {
+    it('looks up a role that carries the permission', async () => {
+      (prisma.tournamentStaff.findFirst as jest.Mock).mockResolvedValue({ id: 'staff-1' });
+
+      expect(await hasTournamentPermission(playerSession as never, 't1', 'tv')).toBe(true);
+      expect(prisma.tournamentStaff.findFirst).toHaveBeenCalledWith({
+        where: { tournamentId: 't1', playerId: 'player-1', role: { in: ['STAFF', 'BROADCAST_OPERATOR'] } },
+        select: { id: true },
+      });
+    });
+
+    it('denies players without a matching role', async () => {
+      (prisma.tournamentStaff.findFirst as jest.Mock).mockResolvedValue(null);
+
+      expect(await hasTournamentPermission(playerSession as never, 't1', 'scores')).toBe(false);
+    });
+
+    it('allows admins without a query', async () => {
+      expect(await hasTournamentPermission(adminSession as never, 't1', 'ta')).toBe(true);
+      expect(prisma.tournamentStaff.findFirst).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,111 @@
+// @ts-nocheck - Prisma mocks deliberately use compact partial shapes.
+
+jest.mock('@/lib/prisma');
+jest.mock('@/lib/tournament-identifier', () => ({ resolveTournament: jest.fn() }));
+
+import prisma from '@/lib/prisma';
+import { resolveTournament } from '@/lib/tournament-identifier';
+import {
+  buildTemplateFromTournament,
+  createTemplateTaEntries,
+  prepareTournamentTemplate,
+} from '@/lib/tournament-template-service';
+import { TournamentTemplateError } from '@/lib/tournament-template';
+
+describe('tournament template service', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    resolveTournament.mockResolvedValue({
+      id: 't1',
+      dualReportEnabled: true,
+      taPlayerSelfEdit: true,
+      taBattleRoyaleMode: false,
+      qualificationScheduleMethod: 'circle',
+      overlayLayout: null,
+    });
+    prisma.finalsRoundSetting.findMany.mockResolvedValue([
+      { mode: 'mr', stage: 'finals', round: 'grand_final', targetWins: 5 },
+    ]);
+    prisma.bMMatch.findMany.mockResolvedValue([]);
+    prisma.mRMatch.findMany.mockResolvedValue([
+      { stage: 'finals', round: 'grand_final', matchNumber: 15, assignedCourses: ['MC1', 'DP1', 'GV1'] },
+    ]);
+    prisma.gPMatch.findMany.mockResolvedValue([]);
+    prisma.bMQualification.findMany.mockResolvedValue([{ playerId: 'p1', group: 'A', seeding: 1 }]);
+    prisma.mRQualification.findMany.mockResolvedValue([]);
+    prisma.gPQualification.findMany.mockResolvedValue([]);
+    prisma.tTEntry.findMany.mockResolvedValue([{ playerId: 'p2', seeding: 2, partnerId: null, taHandicapSeconds: 0 }]);
+    prisma.player.findMany.mockResolvedValue([{ id: 'p1' }]);
+  });
+
+  it('never selects score columns from finals matches', async () => {
+    const config = await buildTemplateFromTournament('t1', { includeRoster: false });
+
+    for (const model of [prisma.bMMatch, prisma.mRMatch, prisma.gPMatch]) {
+      const { select } = model.findMany.mock.calls[0][0];
+      expect(Object.keys(select).some((column) => /score|points|winner/i.test(column))).toBe(false);
+    }
+    expect(prisma.bMQualification.findMany).not.toHaveBeenCalled();
+    expect(config.finalsRounds).toEqual([
+      { mode: 'mr', stage: 'finals', round: 'grand_final', targetWins: 5, assignedCourses: ['MC1', 'DP1', 'GV1'] },
+    ]);
+  });
+
+  it('throws when the source tournament does not exist', async () => {
+    resolveTournament.mockResolvedValue(null);
+
+    await expect(buildTemplateFromTournament('missing', { includeRoster: false })).rejects.toMatchObject({
+      code: 'TEMPLATE_SOURCE_NOT_FOUND',
+    });
+  });
+
+  it('copies the roster from a past tournament, dropping deleted players', async () => {
+    const prepared = await prepareTournamentTemplate({ sourceTournamentId: 't1', copyRoster: true });
+
+    expect(prisma.player.findMany).toHaveBeenCalledWith({
+      where: { id: { in: ['p1', 'p2'] }, deletedAt: null },
+      select: { id: true },
+    });
+    expect(prepared.setupPresets.groups.bm).toEqual([{ playerId: 'p1', group: 'A', seeding: 1 }]);
+    expect(prepared.taEntries).toEqual([]);
+  });
+
+  it('ignores a saved roster unless copyRoster is set', async () => {
+    prisma.tournamentTemplate.findUnique.mockResolvedValue({
+      config: {
+        version: 1,
+        finalsRounds: [],
+        roster: { groups: { bm: [{ playerId: 'p1', group: 'A' }] }, taEntries: [] },
+      },
+    });
+
+    const prepared = await prepareTournamentTemplate({ templateId: 'tpl1', copyRoster: false });
+
+    expect(prepared.setupPresets).toBeNull();
+    expect(prisma.player.findMany).not.toHaveBeenCalled();
+  });
+
+  it('rejects unknown template ids', async () => {
+    prisma.tournamentTemplate.findUnique.mockResolvedValue(null);
+
+    await expect(prepareTournamentTemplate({ templateId: 'nope', copyRoster: false })).rejects.toBeInstanceOf(
+      TournamentTemplateError,
+    );
+  });
+
+  it('creates TA entries in D1-sized chunks with empty times', async () => {
+    const entries = Array.from({ length: 20 }, (_, i) => ({
+      playerId: `p${i}`,
+      seeding: null,
+      partnerId: null,
+      taHandicapSeconds: 0,
+    }));
+
+    await expect(createTemplateTaEntries('t2', entries)).resolves.toBe(20);
+
+    expect(prisma.tTEntry.createMany).toHaveBeenCalledTimes(2);
+    expect(prisma.tTEntry.createMany.mock.calls[0][0].data[0]).toEqual(
+      expect.objectContaining({ tournamentId: 't2', stage: 'qualification', times: {} }),
+    );
+  });
+});
@@ -0,0 +1,160 @@
+/**
+ * Unit tests for tournament templates: building a template from a past
+ * tournament, validating stored templates, roster filtering and the presets
+ * stored on (and read back from) Tournament.setupPresets.
+ */
+import {
+  buildTournamentSetupPresets,
+  buildTournamentTemplateConfig,
+  filterTemplateRoster,
+  getFinalsRoundPresets,
+  getGroupPresets,
+  getTemplateRosterPlayerIds,
+  parseTournamentTemplateConfig,
+  summarizeTournamentTemplate,
+  TournamentTemplateError,
+  type TournamentTemplateSource,
+} from '@/lib/tournament-template';
+
+function source(overrides: Partial<TournamentTemplateSource> = {}): TournamentTemplateSource {
+  return {
+    tournament: {
+      dualReportEnabled: true,
+      taPlayerSelfEdit: false,
+      taBattleRoyaleMode: false,
+      qualificationScheduleMethod: 'cdm',
+      overlayLayout: null,
+    },
+    finalsRoundSettings: [{ mode: 'bm', stage: 'finals', round: 'grand_final', targetWins: 7 }],
+    finalsMatches: [
+      { mode: 'mr', stage: 'finals', round: 'winners_qf', matchNumber: 2, assignedCourses: ['DP1', 'GV1'] },
+      { mode: 'mr', stage: 'finals', round: 'winners_qf', matchNumber: 1, assignedCourses: ['MC1', 'DP1'] },
+      { mode: 'gp', stage: 'playoff', round: 'playoff_r1', matchNumber: 1, assignedCups: ['Star', 'Special'] },
+      { mode: 'bm', stage: 'finals', round: 'winners_qf', matchNumber: 1, startingCourseNumber: 3 },
+      { mode: 'bm', stage: 'qualification', round: null, matchNumber: 1, startingCourseNumber: 2 },
+    ],
+    qualifications: [
+      { mode: 'bm', playerId: 'p1', group: 'A', seeding: 1 },
+      { mode: 'bm', playerId: 'p2', group: 'B', seeding: null },
+    ],
+    taEntries: [
+      { playerId: 'p1', seeding: 1, partnerId: 'p2', taHandicapSeconds: 0 },
+      { playerId: 'p3', seeding: null, partnerId: 'gone', taHandicapSeconds: 0 },
+    ],
+    ...overrides,
+  };
+}
+
+describe('buildTournamentTemplateConfig', () => {
+  it('copies settings and per-round finals presets without scores', () => {
+    const config = buildTournamentTemplateConfig(source(), { includeRoster: false });
+
+    expect(config.settings).toEqual({
+      dualReportEnabled: true,
+      taPlayerSelfEdit: false,
+      taBattleRoyaleMode: false,
+      qualificationScheduleMethod: 'cdm',
+    });
+    expect(config.finalsRounds).toEqual(
+      expect.arrayContaining([
+        { mode: 'mr', stage: 'finals', round: 'winners_qf', assignedCourses: ['MC1', 'DP1'] },
+        { mode: 'gp', stage: 'playoff', round: 'playoff_r1', assignedCups: ['Star', 'Special'] },
+        { mode: 'bm', stage: 'finals', round: 'winners_qf', startingCourseNumber: 3 },
+        { mode: 'bm', stage: 'finals', round: 'grand_final', targetWins: 7 },
+      ]),
+    );
+    expect(config.finalsRounds).toHaveLength(4);
+    expect(config.roster).toBeNull();
+  });
+
+  it('includes group assignments and TA entries when asked', () => {
+    const config = buildTournamentTemplateConfig(source(), { includeRoster: true });
+
+    expect(config.roster?.groups.bm).toEqual([
+      { playerId: 'p1', group: 'A', seeding: 1 },
+      { playerId: 'p2', group: 'B' },
+    ]);
+    // p2 is not a TA entrant and "gone" is unknown, so neither partner link survives.
+    expect(config.roster?.taEntries).toEqual([
+      { playerId: 'p1', seeding: 1, partnerId: null, taHandicapSeconds: 0 },
+      { playerId: 'p3', seeding: null, partnerId: null, taHandicapSeconds: 0 },
+    ]);
+  });
+});
+
+describe('parseTournamentTemplateConfig', () => {
+  it('round-trips a built template', () => {
+    const config = buildTournamentTemplateConfig(source(), { includeRoster: true });
+
+    expect(parseTournamentTemplateConfig(JSON.parse(JSON.stringify(config)))).toEqual(config);
+  });
+
+  it('rejects unknown versions', () => {
+    expect(() => parseTournamentTemplateConfig({ version: 99 })).toThrow(TournamentTemplateError);
+    expect(() => parseTournamentTemplateConfig(null)).toThrow(TournamentTemplateError);
+  });
+
+  it('drops malformed presets', () => {
+    const config = parseTournamentTemplateConfig({
+      version: 1,
+      finalsRounds: [
+        { mode: 'mr', stage: 'finals', round: 'winners_sf', assignedCourses: ['NOPE'] },
+        { mode: 'bm', stage: 'finals', round: 'winners_sf', startingCourseNumber: 5, targetWins: 0 },
+        { mode: 'ta', stage: 'finals', round: 'winners_sf', targetWins: 3 },
+        { mode: 'gp', stage: 'finals', round: 'winners_sf', targetWins: 3 },
+      ],
+      roster: { groups: { bm: [{ playerId: 'p1', group: 'Z' }] }, taEntries: [] },
+    });
+
+    expect(config.finalsRounds).toEqual([{ mode: 'gp', stage: 'finals', round: 'winners_sf', targetWins: 3 }]);
+    expect(config.roster?.groups).toEqual({ bm: [], mr: [], gp: [] });
+    expect(config.settings.qualificationScheduleMethod).toBe('circle');
+  });
+});
+
+describe('roster helpers', () => {
+  const config = buildTournamentTemplateConfig(source(), { includeRoster: true });
+
+  it('lists every roster player once', () => {
+    expect(getTemplateRosterPlayerIds(config)).toEqual(['p1', 'p2', 'p3']);
+    expect(summarizeTournamentTemplate(config)).toEqual({ finalsRounds: 4, rosterPlayers: 3 });
+  });
+
+  it('drops players that no longer exist', () => {
+    const roster = filterTemplateRoster(config.roster!, new Set(['p2', 'p3']));
+
+    expect(roster.groups.bm).toEqual([{ playerId: 'p2', group: 'B' }]);
+    expect(roster.taEntries.map((entry) => entry.playerId)).toEqual(['p3']);
+  });
+});
+
+describe('setup presets', () => {
+  it('stores finals presets and copied groups', () => {
+    const config = buildTournamentTemplateConfig(source(), { includeRoster: true });
+    const presets = buildTournamentSetupPresets(config, { copyRoster: true });
+
+    expect(getGroupPresets(presets, 'bm')).toHaveLength(2);
+    expect(getGroupPresets(presets, 'mr')).toEqual([]);
+    expect(getFinalsRoundPresets(presets, 'bm', 'finals').get('grand_final')?.targetWins).toBe(7);
+    expect(getFinalsRoundPresets(presets, 'gp', 'finals').size).toBe(0);
+    expect(getFinalsRoundPresets(presets, 'gp', 'playoff').get('playoff_r1')?.assignedCups).toEqual([
+      'Star',
+      'Special',
+    ]);
+  });
+
+  it('leaves groups out unless the roster is copied', () => {
+    const config = buildTournamentTemplateConfig(source(), { includeRoster: true });
+
+    expect(getGroupPresets(buildTournamentSetupPresets(config, { copyRoster: false }), 'bm')).toEqual([]);
+  });
+
+  it('returns null when there is nothing to store', () => {
+    const config = buildTournamentTemplateConfig(source({ finalsRoundSettings: [], finalsMatches: [] }), {
+      includeRoster: false,
+    });
+
+    expect(buildTournamentSetupPresets(config, { copyRoster: false })).toBeNull();
+    expect(getFinalsRoundPresets(null, 'bm', 'finals').size).toBe(0);
+  });
+});
@@ -0,0 +1,72 @@
+/**
+ * Unit tests for the venue call queue: per-TV grouping, queue order
+ * (called, planned start, stage, round, match number) and the up-next cap.
+ */
+import { buildVenueQueue, VENUE_QUEUE_UP_NEXT, type VenueQueueMatch } from '@/lib/venue-queue';
+
+function queued(overrides: Partial<VenueQueueMatch> & Pick<VenueQueueMatch, 'id'>): VenueQueueMatch {
+  return {
+    mode: 'bm',
+    stage: 'qualification',
+    round: null,
+    matchNumber: 1,
+    roundNumber: 1,
+    tvNumber: 1,
+    player1Nickname: 'Alice',
+    player2Nickname: 'Bob',
+    scheduledStartAt: null,
+    calledAt: null,
+    ...overrides,
+  };
+}
+
+const ids = (matches: VenueQueueMatch[]) => matches.map((match) => match.id);
+
+describe('buildVenueQueue', () => {
+  it('groups matches by TV in ascending TV order', () => {
+    const tvs = buildVenueQueue([queued({ id: 'tv3', tvNumber: 3 }), queued({ id: 'tv1', tvNumber: 1 })]);
+
+    expect(tvs.map((tv) => [tv.tvNumber, tv.nowPlaying?.id])).toEqual([
+      [1, 'tv1'],
+      [3, 'tv3'],
+    ]);
+    expect(tvs[0].upNext).toEqual([]);
+  });
+
+  it('orders by round, then match number, with qualification before finals', () => {
+    const [tv] = buildVenueQueue([
+      queued({ id: 'finals', stage: 'finals', roundNumber: null, matchNumber: 1 }),
+      queued({ id: 'r2', roundNumber: 2, matchNumber: 3 }),
+      queued({ id: 'r1-m9', roundNumber: 1, matchNumber: 9 }),
+      queued({ id: 'r1-m2', roundNumber: 1, matchNumber: 2 }),
+    ]);
+
+    expect(tv.nowPlaying?.id).toBe('r1-m2');
+    expect(ids(tv.upNext)).toEqual(['r1-m9', 'r2']);
+    expect(tv.upNext).toHaveLength(VENUE_QUEUE_UP_NEXT);
+  });
+
+  it('puts planned start times ahead of round order', () => {
+    const [tv] = buildVenueQueue([
+      queued({ id: 'unplanned', roundNumber: 1 }),
+      queued({ id: 'late', roundNumber: 1, scheduledStartAt: '2026-01-10T01:30:00.000Z' }),
+      queued({ id: 'early', roundNumber: 3, mode: 'gp', scheduledStartAt: '2026-01-10T01:00:00.000Z' }),
+    ]);
+
+    expect([tv.nowPlaying?.id, ...ids(tv.upNext)]).toEqual(['early', 'late', 'unplanned']);
+  });
+
+  it('moves called matches to the head of their TV', () => {
+    const [tv] = buildVenueQueue([
+      queued({ id: 'first', scheduledStartAt: '2026-01-10T01:00:00.000Z' }),
+      queued({ id: 'called-late', roundNumber: 4, calledAt: '2026-01-10T01:05:00.000Z' }),
+      queued({ id: 'called-early', roundNumber: 5, calledAt: '2026-01-10T01:02:00.000Z' }),
+    ]);
+
+    expect([tv.nowPlaying?.id, ...ids(tv.upNext)]).toEqual(['called-early', 'called-late', 'first']);
+  });
+
+  it('returns no TVs when nothing is queued', () => {
+    expect(buildVenueQueue([])).toEqual([]);
+  });
+});
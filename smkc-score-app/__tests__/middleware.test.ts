@@ -21,9 +21,16 @@ jest.mock('next/server', () => {
 
   class MockResponseHeaders {
     private _map = new Map<string, string>();
-    set(k: string, v: string) { this._map.set(k, v); mockResponseHeaderSet(k, v); }
-    get(k: string) { return this._map.get(k) ?? null; }
-    has(k: string) { return this._map.has(k); }
+    set(k: string, v: string) {
+      this._map.set(k, v);
+      mockResponseHeaderSet(k, v);
+    }
+    get(k: string) {
+      return this._map.get(k) ?? null;
+    }
+    has(k: string) {
+      return this._map.has(k);
+    }
   }
 
   class MockNextResponse {
@@ -115,7 +122,7 @@ describe('middleware — auth gate', () => {
     mockAuth.mockResolvedValue(null);
     const req = makeRequest('http://localhost/api/tournaments', 'POST');
 
-    const res = await middleware(req) as { status: number; body: unknown };
+    const res = (await middleware(req)) as { status: number; body: unknown };
 
     // The 401 path uses new NextResponse(body, {status:401}) — not NextResponse.json()
     expect(res.status).toBe(401);
@@ -142,7 +149,7 @@ describe('middleware — auth gate', () => {
     mockAuth.mockResolvedValue(null);
     const req = makeRequest('http://localhost/profile', 'GET');
 
-    const res = await middleware(req) as { _redirectUrl?: string };
+    const res = (await middleware(req)) as { _redirectUrl?: string };
 
     expect(mockRedirectFn).toHaveBeenCalledTimes(1);
     expect(res._redirectUrl).toContain('/auth/signin');
@@ -168,7 +175,7 @@ describe('middleware — auth gate', () => {
     mockAuth.mockResolvedValue({ user: { id: 'u1', role: 'admin' } } as Awaited<ReturnType<typeof auth>>);
     const req = makeRequest('http://localhost/api/tournaments', 'POST');
 
-    const res = await middleware(req) as { status: number };
+    const res = (await middleware(req)) as { status: number };
 
     expect(mockNextFn).toHaveBeenCalledTimes(1);
     expect(res.status).not.toBe(401);
@@ -178,12 +185,43 @@ describe('middleware — auth gate', () => {
     mockAuth.mockResolvedValue(null);
     const req = makeRequest('http://localhost/api/players/p1', 'DELETE');
 
-    const res = await middleware(req) as { status: number; body: unknown };
+    const res = (await middleware(req)) as { status: number; body: unknown };
 
     expect(res.status).toBe(401);
     expect(res.body).toContain('"Unauthorized"');
     expect(mockAuth).toHaveBeenCalledTimes(1);
   });
+
+  it('POST /api/players/signup は未ログインでも通過する', async () => {
+    const { mockNextFn } = getMocks();
+    const req = makeRequest('http://localhost/api/players/signup', 'POST');
+
+    await middleware(req);
+
+    expect(mockAuth).not.toHaveBeenCalled();
+    expect(mockNextFn).toHaveBeenCalledTimes(1);
+  });
+
+  it('QR トークン付きのスコア報告 POST は未ログインでも通過する (検証はルート側)', async () => {
+    const { mockNextFn } = getMocks();
+    const req = makeRequest('http://localhost/api/tournaments/t1/mr/match/m1/report', 'POST');
+    req.headers.set('x-match-report-token', 'payload.signature');
+
+    await middleware(req);
+
+    expect(mockAuth).not.toHaveBeenCalled();
+    expect(mockNextFn).toHaveBeenCalledTimes(1);
+  });
+
+  it('QR トークンは報告ルート以外の POST を通さない', async () => {
+    mockAuth.mockResolvedValue(null);
+    const req = makeRequest('http://localhost/api/tournaments/t1/mr/match/m1', 'PUT');
+    req.headers.set('x-match-report-token', 'payload.signature');
+    const report = makeRequest('http://localhost/api/tournaments/t1/mr/match/m1/report', 'POST');
+
+    expect(((await middleware(report)) as { status: number }).status).toBe(401);
+    expect(((await middleware(req)) as { status: number }).status).toBe(401);
+  });
 });
 
 describe('middleware — ヘッダー付与', () => {
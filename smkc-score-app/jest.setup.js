@@ -49,9 +49,13 @@ if (typeof window !== 'undefined' && !window.Response) {
   window.Response = ResponsePolyfill;
 }
 
-// Polyfill crypto.randomUUID and crypto.getRandomValues for Jest environment
+// Polyfill crypto.randomUUID and crypto.getRandomValues for Jest environment.
+// SubtleCrypto is Node's own, for the HMAC-signed match report tokens.
+// eslint-disable-next-line @typescript-eslint/no-require-imports
+const { webcrypto } = require('crypto');
 Object.defineProperty(global, 'crypto', {
   value: {
+    subtle: webcrypto.subtle,
     randomUUID: () => {
       return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, (c) => {
         const r = (Math.random() * 16) | 0;
@@ -175,6 +179,7 @@ jest.mock('@/lib/prisma', () => {
     auditLog: {
       create: jest.fn(),
       createMany: jest.fn(),
+      findFirst: jest.fn(),
       findMany: jest.fn(),
     },
     player: createMockModelWithMethods(),
@@ -197,7 +202,15 @@ jest.mock('@/lib/prisma', () => {
     finalsRoundSetting: createMockModelWithMethods(),
     tTEntry: createMockModelWithMethods(),
     tTPhaseRound: createMockModelWithMethods(),
+    tTPhaseLifeAdjustment: createMockModelWithMethods(),
     tournamentPlayerScore: createMockModelWithMethods(),
+    tournamentTemplate: createMockModelWithMethods(),
+    team: createMockModelWithMethods(),
+    teamMember: createMockModelWithMethods(),
+    tournamentStaff: createMockModelWithMethods(),
+    tournamentRegistration: createMockModelWithMethods(),
+    cacheEntry: { ...createMockModelWithMethods(), upsert: jest.fn() },
+    rateLimitCounter: { ...createMockModelWithMethods(), upsert: jest.fn() },
     scoreEntryLog: {
       aggregate: jest.fn(),
       findMany: jest.fn(),
@@ -355,7 +368,9 @@ jest.mock('@/lib/rate-limit', () => ({
   getClientIdentifier: jest.fn().mockReturnValue('127.0.0.1'),
   getServerSideIdentifier: jest.fn().mockResolvedValue('127.0.0.1'),
   rateLimitConfigs: {
-    scoreInput: { limit: 120, windowMs: 60000 },
+    login: { limit: 10, windowMs: 900000, shared: true },
+    signup: { limit: 5, windowMs: 3600000, shared: true },
+    scoreInput: { limit: 120, windowMs: 60000, shared: true },
     polling: { limit: 120, windowMs: 60000 },
     sessionStatus: { limit: 60, windowMs: 60000 },
     general: { limit: 60, windowMs: 60000 },
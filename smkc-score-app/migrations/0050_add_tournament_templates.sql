@@ -0,0 +1,13 @@
+-- Tournament templates: new tournaments can start from a past event or a
+-- saved named template. Finals presets and group assignments copied from
+-- the template are kept on the tournament until bracket/group setup runs.
+ALTER TABLE "Tournament" ADD COLUMN "setupPresets" TEXT;
+
+CREATE TABLE "TournamentTemplate" (
+  "id" TEXT NOT NULL PRIMARY KEY,
+  "name" TEXT NOT NULL,
+  "config" TEXT NOT NULL,
+  "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updatedAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+CREATE UNIQUE INDEX "TournamentTemplate_name_key" ON "TournamentTemplate"("name");
@@ -0,0 +1,7 @@
+-- Match schedule planner: planned wall-clock start per qualification match
+-- (the TV goes in the existing tvNumber column) and the planner settings
+-- used to produce it, so the admin timeline can re-plan with the same values.
+ALTER TABLE "Tournament" ADD COLUMN "scheduleSettings" TEXT;
+ALTER TABLE "BMMatch" ADD COLUMN "scheduledStartAt" DATETIME;
+ALTER TABLE "MRMatch" ADD COLUMN "scheduledStartAt" DATETIME;
+ALTER TABLE "GPMatch" ADD COLUMN "scheduledStartAt" DATETIME;
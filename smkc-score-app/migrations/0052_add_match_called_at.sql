@@ -0,0 +1,5 @@
+-- Venue call queue: when an admin last called a match to its TV. Shown on
+-- the venue screen and emitted to the overlay as a match_called event.
+ALTER TABLE "BMMatch" ADD COLUMN "calledAt" DATETIME;
+ALTER TABLE "MRMatch" ADD COLUMN "calledAt" DATETIME;
+ALTER TABLE "GPMatch" ADD COLUMN "calledAt" DATETIME;
@@ -0,0 +1,8 @@
+-- Shared cache rows for the D1 cache backend (standings and overall
+-- rankings), so invalidation from one Worker isolate reaches the others.
+CREATE TABLE "CacheEntry" (
+  "key" TEXT NOT NULL PRIMARY KEY,
+  "value" TEXT NOT NULL,
+  "expiresAt" DATETIME NOT NULL
+);
+CREATE INDEX "CacheEntry_expiresAt_idx" ON "CacheEntry"("expiresAt");
@@ -0,0 +1,8 @@
+-- Fixed-window rate-limit counters for the D1 rate-limit store, so login
+-- and score-report limits hold across Worker isolates.
+CREATE TABLE "RateLimitCounter" (
+  "key" TEXT NOT NULL PRIMARY KEY,
+  "count" INTEGER NOT NULL DEFAULT 0,
+  "expiresAt" DATETIME NOT NULL
+);
+CREATE INDEX "RateLimitCounter_expiresAt_idx" ON "RateLimitCounter"("expiresAt");
@@ -0,0 +1,14 @@
+-- Per-tournament operator roles (tournament staff, TA operator, broadcast
+-- operator) granted to player accounts by super-admins.
+CREATE TABLE "TournamentStaff" (
+  "id" TEXT NOT NULL PRIMARY KEY,
+  "tournamentId" TEXT NOT NULL,
+  "playerId" TEXT NOT NULL,
+  "role" TEXT NOT NULL,
+  "grantedBy" TEXT,
+  "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT "TournamentStaff_tournamentId_fkey" FOREIGN KEY ("tournamentId") REFERENCES "Tournament" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+  CONSTRAINT "TournamentStaff_playerId_fkey" FOREIGN KEY ("playerId") REFERENCES "Player" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+CREATE UNIQUE INDEX "TournamentStaff_tournamentId_playerId_role_key" ON "TournamentStaff"("tournamentId", "playerId", "role");
+CREATE INDEX "TournamentStaff_playerId_idx" ON "TournamentStaff"("playerId");
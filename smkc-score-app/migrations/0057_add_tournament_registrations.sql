@@ -0,0 +1,20 @@
+-- Player self-registration: registrationSettings opens sign-ups with an
+-- optional cap and mode list; TournamentRegistration holds each entry and
+-- its pending / approved / waitlisted / rejected status.
+ALTER TABLE "Tournament" ADD COLUMN "registrationSettings" TEXT;
+CREATE TABLE "TournamentRegistration" (
+  "id" TEXT NOT NULL PRIMARY KEY,
+  "tournamentId" TEXT NOT NULL,
+  "playerId" TEXT NOT NULL,
+  "modes" TEXT NOT NULL DEFAULT '[]',
+  "status" TEXT NOT NULL DEFAULT 'pending',
+  "reviewedBy" TEXT,
+  "reviewedAt" DATETIME,
+  "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updatedAt" DATETIME NOT NULL,
+  CONSTRAINT "TournamentRegistration_tournamentId_fkey" FOREIGN KEY ("tournamentId") REFERENCES "Tournament" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+  CONSTRAINT "TournamentRegistration_playerId_fkey" FOREIGN KEY ("playerId") REFERENCES "Player" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+CREATE UNIQUE INDEX "TournamentRegistration_tournamentId_playerId_key" ON "TournamentRegistration"("tournamentId", "playerId");
+CREATE INDEX "TournamentRegistration_tournamentId_status_idx" ON "TournamentRegistration"("tournamentId", "status");
+CREATE INDEX "TournamentRegistration_playerId_idx" ON "TournamentRegistration"("playerId");
@@ -0,0 +1,6 @@
+-- Day-of check-in: checkedInAt/checkedInBy record self or admin check-in,
+-- noShowAt marks a player whose remaining qualification matches were
+-- converted to BREAK walkovers.
+ALTER TABLE "TournamentRegistration" ADD COLUMN "checkedInAt" DATETIME;
+ALTER TABLE "TournamentRegistration" ADD COLUMN "checkedInBy" TEXT;
+ALTER TABLE "TournamentRegistration" ADD COLUMN "noShowAt" DATETIME;
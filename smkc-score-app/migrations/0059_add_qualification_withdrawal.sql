@@ -0,0 +1,10 @@
+-- Mid-qualification withdrawal: withdrawnAt marks a player who left the
+-- BM/MR/GP qualification, withdrawalPolicy records how their matches were
+-- settled ('void' = all matches removed, 'walkover' = unplayed matches
+-- awarded to the opponents).
+ALTER TABLE "BMQualification" ADD COLUMN "withdrawnAt" DATETIME;
+ALTER TABLE "BMQualification" ADD COLUMN "withdrawalPolicy" TEXT;
+ALTER TABLE "MRQualification" ADD COLUMN "withdrawnAt" DATETIME;
+ALTER TABLE "MRQualification" ADD COLUMN "withdrawalPolicy" TEXT;
+ALTER TABLE "GPQualification" ADD COLUMN "withdrawnAt" DATETIME;
+ALTER TABLE "GPQualification" ADD COLUMN "withdrawalPolicy" TEXT;
@@ -0,0 +1,4 @@
+-- Per-tournament TA finals phase structure: JSON rule set (finals bands,
+-- phase sizes, life rules) read by finals-rules.ts. NULL keeps the default
+-- 24-player finals.
+ALTER TABLE "Tournament" ADD COLUMN "taFinalsRules" TEXT;
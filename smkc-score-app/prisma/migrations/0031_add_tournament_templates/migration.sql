@@ -0,0 +1,11 @@
+ALTER TABLE "Tournament" ADD COLUMN "setupPresets" TEXT;
+
+CREATE TABLE "TournamentTemplate" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "name" TEXT NOT NULL,
+    "config" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+CREATE UNIQUE INDEX "TournamentTemplate_name_key" ON "TournamentTemplate"("name");
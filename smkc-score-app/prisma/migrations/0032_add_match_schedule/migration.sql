@@ -0,0 +1,4 @@
+ALTER TABLE "Tournament" ADD COLUMN "scheduleSettings" TEXT;
+ALTER TABLE "BMMatch" ADD COLUMN "scheduledStartAt" DATETIME;
+ALTER TABLE "MRMatch" ADD COLUMN "scheduledStartAt" DATETIME;
+ALTER TABLE "GPMatch" ADD COLUMN "scheduledStartAt" DATETIME;
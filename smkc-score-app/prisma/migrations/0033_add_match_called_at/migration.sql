@@ -0,0 +1,3 @@
+ALTER TABLE "BMMatch" ADD COLUMN "calledAt" DATETIME;
+ALTER TABLE "MRMatch" ADD COLUMN "calledAt" DATETIME;
+ALTER TABLE "GPMatch" ADD COLUMN "calledAt" DATETIME;
@@ -0,0 +1,31 @@
+-- AlterTable
+ALTER TABLE "Tournament" ADD COLUMN "teamSettings" TEXT;
+ALTER TABLE "Tournament" ADD COLUMN "teamRankingUpdatedAt" DATETIME;
+
+-- CreateTable
+CREATE TABLE "Team" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "tournamentId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "country" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "Team_tournamentId_fkey" FOREIGN KEY ("tournamentId") REFERENCES "Tournament" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "TeamMember" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "teamId" TEXT NOT NULL,
+    "tournamentId" TEXT NOT NULL,
+    "playerId" TEXT NOT NULL,
+    CONSTRAINT "TeamMember_teamId_fkey" FOREIGN KEY ("teamId") REFERENCES "Team" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "TeamMember_tournamentId_fkey" FOREIGN KEY ("tournamentId") REFERENCES "Tournament" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "TeamMember_playerId_fkey" FOREIGN KEY ("playerId") REFERENCES "Player" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Team_tournamentId_name_key" ON "Team"("tournamentId", "name");
+CREATE INDEX "Team_tournamentId_idx" ON "Team"("tournamentId");
+CREATE UNIQUE INDEX "TeamMember_tournamentId_playerId_key" ON "TeamMember"("tournamentId", "playerId");
+CREATE INDEX "TeamMember_teamId_idx" ON "TeamMember"("teamId");
@@ -0,0 +1,9 @@
+-- CreateTable
+CREATE TABLE "CacheEntry" (
+    "key" TEXT NOT NULL PRIMARY KEY,
+    "value" TEXT NOT NULL,
+    "expiresAt" DATETIME NOT NULL
+);
+
+-- CreateIndex
+CREATE INDEX "CacheEntry_expiresAt_idx" ON "CacheEntry"("expiresAt");
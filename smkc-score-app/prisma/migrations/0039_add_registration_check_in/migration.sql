@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "TournamentRegistration" ADD COLUMN "checkedInAt" DATETIME;
+ALTER TABLE "TournamentRegistration" ADD COLUMN "checkedInBy" TEXT;
+ALTER TABLE "TournamentRegistration" ADD COLUMN "noShowAt" DATETIME;
@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "BMQualification" ADD COLUMN "withdrawnAt" DATETIME;
+ALTER TABLE "BMQualification" ADD COLUMN "withdrawalPolicy" TEXT;
+
+-- AlterTable
+ALTER TABLE "MRQualification" ADD COLUMN "withdrawnAt" DATETIME;
+ALTER TABLE "MRQualification" ADD COLUMN "withdrawalPolicy" TEXT;
+
+-- AlterTable
+ALTER TABLE "GPQualification" ADD COLUMN "withdrawnAt" DATETIME;
+ALTER TABLE "GPQualification" ADD COLUMN "withdrawalPolicy" TEXT;
@@ -0,0 +1 @@
+ALTER TABLE "Tournament" ADD COLUMN "taFinalsRules" TEXT;
@@ -0,0 +1,46 @@
+/**
+ * Player Career API Route
+ *
+ * GET /api/players/:id/career
+ *
+ * Returns a player's history across every JSMKC/CDM tournament, including
+ * tournaments that only survive as R2 archives:
+ *   - per-tournament placements per mode and overall rank
+ *   - overall rank over time
+ *   - BM/MR/GP win/loss records
+ *   - head-to-head table against every opponent
+ *
+ * Access: Public. Non-admin callers only see modes that each tournament has
+ * published (publicModes); admins see everything.
+ *
+ * Response:
+ *   200 - PlayerCareer (see lib/player-career.ts)
+ *   404 - Player not found
+ *   500 - Server error
+ */
+import { NextRequest } from 'next/server';
+import { auth } from '@/lib/auth';
+import { createLogger } from '@/lib/logger';
+import { createSuccessResponse, createErrorResponse } from '@/lib/error-handling';
+import { loadPlayerCareer } from '@/lib/player-career';
+
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  // Logger created inside function for proper test mocking support
+  const logger = createLogger('players-career-api');
+  const { id } = await params;
+
+  try {
+    const session = await auth();
+    const isAdmin = session?.user?.role === 'admin';
+
+    const career = await loadPlayerCareer(id, { includeHidden: isAdmin });
+    if (!career) {
+      return createErrorResponse('Player not found', 404);
+    }
+
+    return createSuccessResponse(career);
+  } catch (error) {
+    logger.error('Failed to fetch player career', { error, playerId: id });
+    return createErrorResponse('Failed to fetch player career', 500);
+  }
+}
@@ -0,0 +1,98 @@
+import { NextRequest } from 'next/server';
+import prisma from '@/lib/prisma';
+import { auth } from '@/lib/auth';
+import { resolveAuditUserId } from '@/lib/audit-log';
+import { checkRateLimit } from '@/lib/rate-limit';
+import { getClientIdentifier, getUserAgent } from '@/lib/request-utils';
+import { sanitizeInput } from '@/lib/sanitize';
+import { createLogger } from '@/lib/logger';
+import {
+  createErrorResponse,
+  createSuccessResponse,
+  handleAuthzError,
+  handleRateLimitError,
+  handleValidationError,
+} from '@/lib/error-handling';
+import { PlayerMergeError } from '@/lib/player-merge';
+import { applyPlayerMerge, previewPlayerMerge, publicPlayerMergePreview } from '@/lib/player-merge-service';
+
+const DIGEST_RE = /^[a-f0-9]{64}$/;
+
+function statusForPlayerMergeError(code: string): number {
+  if (code === 'PLAYER_NOT_FOUND') return 404;
+  if (code === 'PLAYER_MERGE_STALE_PREVIEW' || code === 'PLAYER_MERGE_COLLISION') return 409;
+  return 422;
+}
+
+/**
+ * POST /api/players/:id/merge
+ *
+ * Admin-only merge of the player `:id` (source, soft-deleted afterwards) into
+ * the player identified by `targetNickname` (kept). Body:
+ *   { action: "preview", targetNickname }
+ *   { action: "apply", targetNickname, digest }
+ *
+ * Preview reports how many rows move and any collisions that block the
+ * merge; apply re-checks the digest and commits everything in one batch.
+ */
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const logger = createLogger('players-merge-api');
+  const session = await auth();
+  if (!session?.user || session.user.role !== 'admin') {
+    return handleAuthzError();
+  }
+
+  const clientIp = getClientIdentifier(request);
+  const rateResult = await checkRateLimit('general', clientIp);
+  if (!rateResult.success) {
+    return handleRateLimitError(rateResult.retryAfter);
+  }
+
+  const { id } = await params;
+  try {
+    const body = sanitizeInput(await request.json());
+    const action = body.action;
+    if (action !== 'preview' && action !== 'apply') {
+      return handleValidationError('action must be "preview" or "apply"', 'action');
+    }
+    if (typeof body.targetNickname !== 'string' || body.targetNickname.trim() === '') {
+      return handleValidationError('targetNickname is required', 'targetNickname');
+    }
+
+    const target = await prisma.player.findUnique({
+      where: { nickname: body.targetNickname.trim() },
+      select: { id: true },
+    });
+    if (!target) {
+      return createErrorResponse('Target player not found', 404, 'PLAYER_NOT_FOUND');
+    }
+
+    if (action === 'preview') {
+      const preview = await previewPlayerMerge(id, target.id);
+      return createSuccessResponse(publicPlayerMergePreview(preview));
+    }
+
+    const digest = body.digest;
+    if (typeof digest !== 'string' || !DIGEST_RE.test(digest)) {
+      return handleValidationError('A valid preview digest is required', 'digest');
+    }
+
+    const result = await applyPlayerMerge({
+      sourceId: id,
+      targetId: target.id,
+      expectedDigest: digest,
+      audit: {
+        userId: resolveAuditUserId(session),
+        ipAddress: clientIp,
+        userAgent: getUserAgent(request),
+      },
+    });
+    return createSuccessResponse(result, 'Players merged');
+  } catch (error) {
+    if (error instanceof PlayerMergeError) {
+      return createErrorResponse(error.message, statusForPlayerMergeError(error.code), error.code, error.details);
+    }
+    logger.error('Failed to merge players', { error, playerId: id });
+    return createErrorResponse('Failed to merge players', 500, 'INTERNAL_ERROR');
+  }
+}
@@ -0,0 +1,62 @@
+/**
+ * Player Login Unlock API Route
+ *
+ * POST /api/players/:id/unlock-login
+ *
+ * Clears a player's login lockout (login-lockout.ts). Admin only. The
+ * lockout is derived from the audit log, so the unlock is itself an
+ * `UNLOCK_PLAYER_LOGIN` audit event: failures before it no longer count.
+ * The event is written even when the account is not locked, which also
+ * resets a partial failure count.
+ *
+ * Response (200):
+ *   { wasLocked: boolean }
+ *
+ * Error responses:
+ *   403 - Not admin
+ *   404 - Player not found
+ *   500 - Server error
+ */
+import { NextRequest } from 'next/server';
+import prisma from '@/lib/prisma';
+import { auth } from '@/lib/auth';
+import { createRequiredAuditLog, AUDIT_ACTIONS, resolveAuditUserId } from '@/lib/audit-log';
+import { getLoginLockout } from '@/lib/login-lockout';
+import { getClientIdentifier, getUserAgent } from '@/lib/request-utils';
+import { createLogger } from '@/lib/logger';
+import { createErrorResponse, createSuccessResponse, handleAuthzError } from '@/lib/error-handling';
+
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const logger = createLogger('players-unlock-login-api');
+  const { id } = await params;
+
+  try {
+    const session = await auth();
+    if (!session?.user || session.user.role !== 'admin') {
+      return handleAuthzError();
+    }
+
+    const player = await prisma.player.findUnique({ where: { id }, select: { id: true, nickname: true } });
+    if (!player) {
+      return createErrorResponse('Player not found', 404);
+    }
+
+    const lockout = await getLoginLockout(id);
+
+    await createRequiredAuditLog({
+      userId: resolveAuditUserId(session),
+      ipAddress: getClientIdentifier(request),
+      userAgent: getUserAgent(request),
+      action: AUDIT_ACTIONS.UNLOCK_PLAYER_LOGIN,
+      targetId: id,
+      targetType: 'Player',
+      details: { playerNickname: player.nickname, wasLocked: lockout.locked, failures: lockout.failures },
+    });
+
+    logger.info('Player login unlocked', { playerId: id, wasLocked: lockout.locked });
+    return createSuccessResponse({ wasLocked: lockout.locked });
+  } catch (error) {
+    logger.error('Failed to unlock player login', { error, playerId: id });
+    return createErrorResponse('Failed to unlock login', 500);
+  }
+}
@@ -0,0 +1,98 @@
+import { NextRequest } from 'next/server';
+import { auth } from '@/lib/auth';
+import { resolveAuditUserId } from '@/lib/audit-log';
+import { checkRateLimit } from '@/lib/rate-limit';
+import { getClientIdentifier, getUserAgent } from '@/lib/request-utils';
+import { createLogger } from '@/lib/logger';
+import {
+  createErrorResponse,
+  createSuccessResponse,
+  handleAuthzError,
+  handleRateLimitError,
+  handleValidationError,
+} from '@/lib/error-handling';
+import { RosterImportError } from '@/lib/player-roster-import';
+import { applyRosterImport, previewRosterImport, publicRosterImportPreview } from '@/lib/player-roster-import-service';
+
+const DIGEST_RE = /^[a-f0-9]{64}$/;
+
+function statusForRosterImportError(code: string): number {
+  if (code === 'ROSTER_IMPORT_STALE_PREVIEW') return 409;
+  if (code === 'ROSTER_IMPORT_TOO_LARGE') return 413;
+  return 422;
+}
+
+/**
+ * POST /api/players/import
+ *
+ * Admin-only bulk roster import (multipart/form-data):
+ *   file   - CSV or XLSX export (e.g. from Google Forms)
+ *   action - "preview" returns the per-row diff and its digest;
+ *            "apply" re-uploads the same file with that digest and commits
+ *   digest - required for "apply"
+ *
+ * The file is re-parsed on apply instead of trusting a client-side plan, and
+ * a digest mismatch means the file or players changed since the preview.
+ * Temporary passwords of created players are only in the apply response.
+ */
+export async function POST(request: NextRequest) {
+  const logger = createLogger('players-import-api');
+  const session = await auth();
+  if (!session?.user || session.user.role !== 'admin') {
+    return handleAuthzError();
+  }
+
+  const clientIp = getClientIdentifier(request);
+  const rateResult = await checkRateLimit('general', clientIp);
+  if (!rateResult.success) {
+    return handleRateLimitError(rateResult.retryAfter);
+  }
+
+  let formData: FormData;
+  try {
+    formData = await request.formData();
+  } catch {
+    return handleValidationError('Request body must be multipart/form-data', 'file');
+  }
+
+  const file = formData.get('file');
+  const action = formData.get('action');
+  if (action !== 'preview' && action !== 'apply') {
+    return handleValidationError('action must be "preview" or "apply"', 'action');
+  }
+  if (!file || typeof file === 'string') {
+    return handleValidationError('A CSV or XLSX file is required', 'file');
+  }
+
+  try {
+    const content = await file.arrayBuffer();
+
+    if (action === 'preview') {
+      const preview = await previewRosterImport(file.name, content);
+      return createSuccessResponse(publicRosterImportPreview(preview));
+    }
+
+    const digest = formData.get('digest');
+    if (typeof digest !== 'string' || !DIGEST_RE.test(digest)) {
+      return handleValidationError('A valid preview digest is required', 'digest');
+    }
+
+    const result = await applyRosterImport({
+      fileName: file.name,
+      content,
+      expectedDigest: digest,
+      audit: {
+        userId: resolveAuditUserId(session),
+        ipAddress: clientIp,
+        userAgent: getUserAgent(request),
+      },
+    });
+    return createSuccessResponse(result, 'Players imported');
+  } catch (error) {
+    if (error instanceof RosterImportError) {
+      return createErrorResponse(error.message, statusForRosterImportError(error.code), error.code, error.details);
+    }
+    logger.error('Failed to import players', { error, fileName: file.name });
+    return createErrorResponse('Failed to import players', 500, 'INTERNAL_ERROR');
+  }
+}
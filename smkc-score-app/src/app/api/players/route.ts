@@ -25,6 +25,7 @@ import { createLogger } from '@/lib/logger';
 import { createErrorResponse, handleValidationError, handleAuthzError } from '@/lib/error-handling';
 import { resolveCountryCode } from '@/lib/countries';
 import { PLAYER_ERROR_CODES } from '@/lib/player-error-codes';
+import { MAX_PLAYER_NAME_LENGTH, MAX_PLAYER_NICKNAME_LENGTH } from '@/lib/constants';
 
 /**
  * GET /api/players
@@ -59,7 +60,8 @@ export async function GET(request: NextRequest) {
     // Exclude the system __BREAK__ player used as a sentinel for BYE matches
     // in round-robin scheduling. This player has no real-world identity and
     // should never appear in player listings or UI.
-    const where = { id: { not: '__BREAK__' } };
+    // Soft-deleted players (e.g. the source of a merge) are hidden as well.
+    const where = { id: { not: '__BREAK__' }, deletedAt: null };
     const result = await paginate(
       {
         findMany: prisma.player.findMany.bind(prisma.player),
@@ -225,12 +227,20 @@ export async function POST(request: NextRequest) {
 
     // Sanitize all input fields to prevent XSS and injection attacks
     const body = sanitizeInput(await request.json());
-    const { name, nickname, country, noCamera } = body;
+    const { country, noCamera } = body;
+    const name = typeof body.name === 'string' ? body.name.trim() : '';
+    const nickname = typeof body.nickname === 'string' ? body.nickname.trim() : '';
 
     // Validate required fields before database operations
     if (!name || !nickname) {
       return handleValidationError('Name and nickname are required');
     }
+    if (name.length > MAX_PLAYER_NAME_LENGTH) {
+      return handleValidationError(`name must be at most ${MAX_PLAYER_NAME_LENGTH} characters`, 'name');
+    }
+    if (nickname.length > MAX_PLAYER_NICKNAME_LENGTH) {
+      return handleValidationError(`nickname must be at most ${MAX_PLAYER_NICKNAME_LENGTH} characters`, 'nickname');
+    }
 
     // Generate a cryptographically secure random password (12 characters).
     // This password is hashed with bcrypt before storage.
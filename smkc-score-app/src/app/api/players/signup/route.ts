@@ -0,0 +1,106 @@
+/**
+ * Player Sign-Up API Route
+ *
+ * POST /api/players/signup - Create a player account (public)
+ *
+ * Lets players create their own account instead of waiting for an admin.
+ * The chosen password is hashed like admin-generated ones; the client then
+ * logs in through the player credentials provider with the same nickname
+ * and password, and signs up for tournaments from there.
+ *
+ * Request body:
+ *   { name: string, nickname: string, country?: string, password: string }
+ *
+ * Rate limited by client IP with the shared `signup` rule. Name and nickname
+ * follow the same limits as an admin-created player (POST /api/players).
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { sanitizeInput } from '@/lib/sanitize';
+import { hashPassword, MAX_PASSWORD_LENGTH, MIN_PASSWORD_LENGTH } from '@/lib/password-utils';
+import { createAuditLog, AUDIT_ACTIONS } from '@/lib/audit-log';
+import { checkRateLimit } from '@/lib/rate-limit';
+import { getClientIdentifier, getUserAgent } from '@/lib/request-utils';
+import { createLogger } from '@/lib/logger';
+import { createErrorResponse, handleRateLimitError, handleValidationError } from '@/lib/error-handling';
+import { resolveCountryCode } from '@/lib/countries';
+import { PLAYER_ERROR_CODES } from '@/lib/player-error-codes';
+import { MAX_PLAYER_NAME_LENGTH, MAX_PLAYER_NICKNAME_LENGTH } from '@/lib/constants';
+
+export async function POST(request: NextRequest) {
+  const logger = createLogger('players-api');
+  const clientIp = getClientIdentifier(request);
+  const rateResult = await checkRateLimit('signup', clientIp);
+  if (!rateResult.success) {
+    return handleRateLimitError(rateResult.retryAfter);
+  }
+
+  try {
+    /* The password is taken before sanitizing so characters the sanitizer
+     * would escape are hashed exactly as the player will type them. */
+    const raw = await request.json();
+    const password = raw?.password;
+    const body = sanitizeInput(raw);
+    const name = typeof body?.name === 'string' ? body.name.trim() : '';
+    const nickname = typeof body?.nickname === 'string' ? body.nickname.trim() : '';
+
+    if (!name || !nickname) {
+      return handleValidationError('Name and nickname are required');
+    }
+    if (name.length > MAX_PLAYER_NAME_LENGTH) {
+      return handleValidationError(`name must be at most ${MAX_PLAYER_NAME_LENGTH} characters`, 'name');
+    }
+    if (nickname.length > MAX_PLAYER_NICKNAME_LENGTH) {
+      return handleValidationError(`nickname must be at most ${MAX_PLAYER_NICKNAME_LENGTH} characters`, 'nickname');
+    }
+    if (
+      typeof password !== 'string' ||
+      password.length < MIN_PASSWORD_LENGTH ||
+      new TextEncoder().encode(password).length > MAX_PASSWORD_LENGTH
+    ) {
+      return handleValidationError(
+        `password must be ${MIN_PASSWORD_LENGTH} to ${MAX_PASSWORD_LENGTH} characters`,
+        'password',
+      );
+    }
+
+    const normalizedCountry = resolveCountryCode(body?.country) ?? null;
+    const player = await prisma.player.create({
+      data: {
+        name,
+        nickname,
+        country: normalizedCountry,
+        password: await hashPassword(password),
+      },
+    });
+
+    createAuditLog({
+      ipAddress: clientIp,
+      userAgent: getUserAgent(request),
+      action: AUDIT_ACTIONS.SIGN_UP_PLAYER,
+      targetId: player.id,
+      targetType: 'Player',
+      details: { nickname: player.nickname, country: normalizedCountry },
+    }).catch((err) =>
+      logger.warn('Failed to create audit log', { error: err, playerId: player.id, action: 'sign_up_player' }),
+    );
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: { player: { id: player.id, nickname: player.nickname, country: player.country } },
+      },
+      { status: 201 },
+    );
+  } catch (error: unknown) {
+    if (error && typeof error === 'object' && 'code' in error && error.code === 'P2002') {
+      return createErrorResponse(
+        'A player with this nickname already exists',
+        409,
+        PLAYER_ERROR_CODES.DUPLICATE_NICKNAME,
+      );
+    }
+    logger.error('Failed to sign up player', { error });
+    return createErrorResponse('Failed to create account', 500);
+  }
+}
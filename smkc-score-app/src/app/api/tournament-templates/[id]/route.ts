@@ -0,0 +1,53 @@
+/**
+ * Tournament Template API Route
+ *
+ * DELETE /api/tournament-templates/:id - Delete a saved template (admin only)
+ *
+ * Tournaments created from the template keep their copied configuration;
+ * nothing references the template after creation.
+ */
+import { NextRequest } from 'next/server';
+import prisma from '@/lib/prisma';
+import { auth } from '@/lib/auth';
+import { createAuditLog, AUDIT_ACTIONS, resolveAuditUserId } from '@/lib/audit-log';
+import { getClientIdentifier, getUserAgent } from '@/lib/request-utils';
+import { createLogger } from '@/lib/logger';
+import { createErrorResponse, createSuccessResponse, handleAuthzError } from '@/lib/error-handling';
+
+export async function DELETE(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const logger = createLogger('tournament-templates-api');
+  const session = await auth();
+  if (!session?.user || session.user.role !== 'admin') {
+    return handleAuthzError();
+  }
+
+  const { id } = await params;
+  try {
+    const template = await prisma.tournamentTemplate.findUnique({ where: { id }, select: { id: true, name: true } });
+    if (!template) {
+      return createErrorResponse('Tournament template not found', 404, 'NOT_FOUND');
+    }
+    await prisma.tournamentTemplate.delete({ where: { id } });
+
+    createAuditLog({
+      userId: resolveAuditUserId(session),
+      ipAddress: getClientIdentifier(request),
+      userAgent: getUserAgent(request),
+      action: AUDIT_ACTIONS.DELETE_TOURNAMENT_TEMPLATE,
+      targetId: id,
+      targetType: 'TournamentTemplate',
+      details: { name: template.name },
+    }).catch((err) =>
+      logger.warn('Failed to create audit log', {
+        error: err,
+        templateId: id,
+        action: 'delete_tournament_template',
+      }),
+    );
+
+    return createSuccessResponse({ id }, 'Tournament template deleted');
+  } catch (error) {
+    logger.error('Failed to delete tournament template', { error, templateId: id });
+    return createErrorResponse('Failed to delete tournament template', 500);
+  }
+}
@@ -0,0 +1,163 @@
+/**
+ * Tournament Templates Collection API Route
+ *
+ * GET  /api/tournament-templates  - List saved templates (admin only)
+ * POST /api/tournament-templates  - Save a tournament as a named template (admin only)
+ *
+ * A template stores settings, overlay layout, finals presets and optionally
+ * the roster of a past tournament; see tournament-template.ts. New
+ * tournaments reference one via POST /api/tournaments { templateId }.
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import type { InputJsonValue } from '@prisma/client/runtime/library';
+import prisma from '@/lib/prisma';
+import { auth } from '@/lib/auth';
+import { createAuditLog, AUDIT_ACTIONS, resolveAuditUserId } from '@/lib/audit-log';
+import { checkRateLimit } from '@/lib/rate-limit';
+import { getClientIdentifier, getUserAgent } from '@/lib/request-utils';
+import { sanitizeInput } from '@/lib/sanitize';
+import { createLogger } from '@/lib/logger';
+import {
+  createErrorResponse,
+  createSuccessResponse,
+  handleAuthzError,
+  handleRateLimitError,
+  handleValidationError,
+} from '@/lib/error-handling';
+import {
+  parseTournamentTemplateConfig,
+  summarizeTournamentTemplate,
+  TOURNAMENT_TEMPLATE_NAME_MAX_LENGTH,
+  TournamentTemplateError,
+  type TournamentTemplateConfig,
+} from '@/lib/tournament-template';
+import { buildTemplateFromTournament } from '@/lib/tournament-template-service';
+
+function publicTemplate(
+  template: { id: string; name: string; createdAt: Date; updatedAt: Date },
+  config: TournamentTemplateConfig,
+) {
+  return {
+    id: template.id,
+    name: template.name,
+    createdAt: template.createdAt,
+    updatedAt: template.updatedAt,
+    settings: config.settings,
+    hasRoster: config.roster !== null,
+    ...summarizeTournamentTemplate(config),
+  };
+}
+
+/**
+ * GET /api/tournament-templates
+ *
+ * Returns every template with its settings (so the create dialog can
+ * pre-fill the form) and preset/roster counts. Unreadable templates are
+ * skipped rather than failing the whole list.
+ */
+export async function GET() {
+  const logger = createLogger('tournament-templates-api');
+  const session = await auth();
+  if (!session?.user || session.user.role !== 'admin') {
+    return handleAuthzError();
+  }
+
+  try {
+    const templates = await prisma.tournamentTemplate.findMany({ orderBy: { name: 'asc' } });
+    const data = templates.flatMap((template) => {
+      try {
+        return [publicTemplate(template, parseTournamentTemplateConfig(template.config))];
+      } catch {
+        logger.warn('Skipping unreadable tournament template', { templateId: template.id });
+        return [];
+      }
+    });
+    return createSuccessResponse(data);
+  } catch (error) {
+    logger.error('Failed to fetch tournament templates', { error });
+    return createErrorResponse('Failed to fetch tournament templates', 500);
+  }
+}
+
+/**
+ * POST /api/tournament-templates
+ *
+ * Request body:
+ *   - name (string, required) - Unique template name (e.g., "JSMKC monthly")
+ *   - sourceTournamentId (string, required) - Tournament id or slug to copy from
+ *   - includeRoster (boolean, optional) - Also store group assignments and TA entries
+ *
+ * Error responses:
+ *   400 - Invalid body
+ *   404 - Source tournament not found
+ *   409 - Template name already exists
+ */
+export async function POST(request: NextRequest) {
+  const logger = createLogger('tournament-templates-api');
+  const session = await auth();
+  if (!session?.user || session.user.role !== 'admin') {
+    return handleAuthzError();
+  }
+
+  const clientIp = getClientIdentifier(request);
+  const rateResult = await checkRateLimit('general', clientIp);
+  if (!rateResult.success) {
+    return handleRateLimitError(rateResult.retryAfter);
+  }
+
+  try {
+    const body = sanitizeInput(await request.json());
+    const name = typeof body.name === 'string' ? body.name.trim() : '';
+    if (!name || name.length > TOURNAMENT_TEMPLATE_NAME_MAX_LENGTH) {
+      return handleValidationError(
+        `name is required and must be at most ${TOURNAMENT_TEMPLATE_NAME_MAX_LENGTH} characters`,
+        'name',
+      );
+    }
+    if (typeof body.sourceTournamentId !== 'string' || !body.sourceTournamentId) {
+      return handleValidationError('sourceTournamentId is required', 'sourceTournamentId');
+    }
+    if (body.includeRoster !== undefined && typeof body.includeRoster !== 'boolean') {
+      return handleValidationError('includeRoster must be a boolean', 'includeRoster');
+    }
+
+    const config = await buildTemplateFromTournament(body.sourceTournamentId, {
+      includeRoster: body.includeRoster === true,
+    });
+    const template = await prisma.tournamentTemplate.create({
+      data: { name, config: config as unknown as InputJsonValue },
+    });
+
+    createAuditLog({
+      userId: resolveAuditUserId(session),
+      ipAddress: clientIp,
+      userAgent: getUserAgent(request),
+      action: AUDIT_ACTIONS.CREATE_TOURNAMENT_TEMPLATE,
+      targetId: template.id,
+      targetType: 'TournamentTemplate',
+      details: {
+        name,
+        sourceTournamentId: body.sourceTournamentId,
+        includeRoster: body.includeRoster === true,
+        ...summarizeTournamentTemplate(config),
+      },
+    }).catch((err) =>
+      logger.warn('Failed to create audit log', {
+        error: err,
+        templateId: template.id,
+        action: 'create_tournament_template',
+      }),
+    );
+
+    return NextResponse.json({ success: true, data: publicTemplate(template, config) }, { status: 201 });
+  } catch (error) {
+    if (error instanceof TournamentTemplateError) {
+      return createErrorResponse(error.message, 404, error.code);
+    }
+    if (error && typeof error === 'object' && 'code' in error && error.code === 'P2002') {
+      return createErrorResponse('Template name already exists', 409, 'CONFLICT');
+    }
+    logger.error('Failed to save tournament template', { error });
+    return createErrorResponse('Failed to save tournament template', 500);
+  }
+}
@@ -47,6 +47,7 @@ import {
 import prisma from '@/lib/prisma';
 import { createLogger } from '@/lib/logger';
 import { resolveTournamentId } from '@/lib/tournament-identifier';
+import { withTournamentChangePublish } from '@/lib/tournament-events';
 import { checkQualificationConfirmed } from '@/lib/qualification-confirmed-check';
 
 /**
@@ -71,10 +72,11 @@ const BM_RECALC_CONFIG: RecalculateStatsConfig = {
  * Report score from a player's perspective. Supports:
  * 1. Admin session (full access)
  * 2. Player session (restricted to own matches)
+ * 3. QR match report token for this match and side (no session)
  *
- * Authentication: admin or player (for their own reports).
+ * Authentication: admin, player (for their own reports) or QR token.
  */
-export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string; matchId: string }> }) {
+async function handlePOST(request: NextRequest, { params }: { params: Promise<{ id: string; matchId: string }> }) {
   const logger = createLogger('bm-score-report-api');
   const { id, matchId } = await params;
   const tournamentId = await resolveTournamentId(id);
@@ -379,3 +381,6 @@ export async function POST(request: NextRequest, { params }: { params: Promise<{
     return handleDatabaseError(error, 'score report');
   }
 }
+
+/* Successful reports notify live views subscribed to the tournament event stream. */
+export const POST = withTournamentChangePublish('bm', handlePOST);
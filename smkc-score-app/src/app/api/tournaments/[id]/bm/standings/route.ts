@@ -43,6 +43,8 @@ const { GET: _GET } = createStandingsHandlers({
     lossRounds: q.lossRounds,
     points: q.points,
     score: q.score,
+    withdrawnAt: q.withdrawnAt ?? null,
+    withdrawalPolicy: q.withdrawalPolicy ?? null,
   }),
 });
 
@@ -0,0 +1,12 @@
+/**
+ * Battle Mode (BM) Swiss Round API Route
+ *
+ * POST /api/tournaments/:id/bm/swiss-round - Pair the next Swiss qualification
+ * round from the current standings (admin only, audit-logged).
+ * See swiss-round-route.ts for pairing and course assignment rules.
+ */
+
+import { createSwissRoundHandlers } from '@/lib/api-factories/swiss-round-route';
+import { bmConfig } from '@/lib/event-types';
+
+export const { POST } = createSwissRoundHandlers(bmConfig);
@@ -0,0 +1,109 @@
+/**
+ * GET /api/tournaments/[id]/events
+ *
+ * Server-sent events stream of change notifications for one tournament
+ * (tournament-events.ts). Live views open it through `usePolling`'s
+ * `streamUrl` option and refetch whenever a `change` event arrives.
+ * Changes published by other Worker isolates arrive through the shared
+ * change cursors, so they can lag by up to CURSOR_POLL_MS.
+ *
+ * Query params:
+ *   - scope: optional mode filter (ta | bm | mr | gp). Mode-agnostic
+ *     notifications are always delivered.
+ *
+ * Stream format:
+ *   - `retry:` hint once at the start so browsers reconnect quickly.
+ *   - `event: change` with `data: { id, scope, at }` per notification.
+ *   - `: ping` comments every HEARTBEAT_MS so proxies keep the connection open.
+ *
+ * The stream closes itself after MAX_STREAM_MS; EventSource reconnects
+ * transparently, which keeps long-lived connections from pinning a worker.
+ *
+ * Public and unauthenticated: notifications carry no data beyond the mode
+ * name, and clients re-read through the regular access-checked endpoints.
+ */
+
+import { NextRequest } from 'next/server';
+import { createLogger } from '@/lib/logger';
+import { createErrorResponse, handleValidationError } from '@/lib/error-handling';
+import { resolveTournament } from '@/lib/tournament-identifier';
+import { TOURNAMENT_CHANGE_SCOPES, watchTournamentChanges, type TournamentChangeScope } from '@/lib/tournament-events';
+
+/** Comment-line heartbeat interval. */
+const HEARTBEAT_MS = 25_000;
+
+/** Lifetime of one stream before the server closes it and the client reconnects. */
+const MAX_STREAM_MS = 10 * 60_000;
+
+/** Reconnect delay suggested to the browser. */
+const RETRY_MS = 3_000;
+
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const logger = createLogger('tournament-events-api');
+  const { id } = await params;
+
+  const scopeParam = request.nextUrl.searchParams.get('scope');
+  if (scopeParam !== null && !TOURNAMENT_CHANGE_SCOPES.includes(scopeParam as TournamentChangeScope)) {
+    return handleValidationError(`scope must be one of ${TOURNAMENT_CHANGE_SCOPES.join(', ')}`, 'scope');
+  }
+  const scope = scopeParam as TournamentChangeScope | null;
+
+  let tournamentId: string;
+  try {
+    const tournament = await resolveTournament(id, { id: true });
+    if (!tournament) {
+      return createErrorResponse('Tournament not found', 404);
+    }
+    tournamentId = tournament.id;
+  } catch (error) {
+    logger.error('Failed to open tournament event stream', { error, tournamentId: id });
+    return createErrorResponse('Failed to open event stream', 500);
+  }
+
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let closed = false;
+      const write = (chunk: string) => {
+        if (!closed) controller.enqueue(encoder.encode(chunk));
+      };
+
+      const unsubscribe = watchTournamentChanges(tournamentId, scope, (event) => {
+        write(`event: change\ndata: ${JSON.stringify(event)}\n\n`);
+      });
+      const heartbeat = setInterval(() => write(': ping\n\n'), HEARTBEAT_MS);
+      const expiry = setTimeout(() => cleanup(), MAX_STREAM_MS);
+
+      cleanup = () => {
+        if (closed) return;
+        closed = true;
+        unsubscribe();
+        clearInterval(heartbeat);
+        clearTimeout(expiry);
+        request.signal.removeEventListener('abort', cleanup);
+        try {
+          controller.close();
+        } catch {
+          /* already closed by the runtime */
+        }
+      };
+      request.signal.addEventListener('abort', cleanup);
+
+      write(`retry: ${RETRY_MS}\n\n`);
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    },
+  });
+}
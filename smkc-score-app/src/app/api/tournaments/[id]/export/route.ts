@@ -12,11 +12,17 @@
  *   - MR (Match Race) match results
  *   - GP (Grand Prix) match results with driver points
  *   - TA (Time Attack) entries with times and rankings
+ *   - Team standings, when team standings are enabled (team-ranking.ts)
  *
  * The CSV uses UTF-8 BOM encoding for proper display in Excel and
  * other spreadsheet applications, especially for Japanese characters.
  *
- * Access: CSV is public; CDM workbook export requires an admin session.
+ * format=print renders printable match cards, bracket sheets and the TA pair
+ * sheet (print-sheets.ts) from the same query as HTML for the browser to print
+ * or save as PDF. Query: doc=match-cards|bracket|ta-pairs, mode=bm|mr|gp
+ * (not for ta-pairs), optional playerId (match cards) and lang=ja|en.
+ *
+ * Access: CSV is public; CDM workbook and print exports require an admin session.
  * Response: CSV file download
  */
 import { NextResponse } from 'next/server';
@@ -25,14 +31,39 @@ import { PLAYER_PUBLIC_SELECT } from '@/lib/prisma-selects';
 import prisma from '@/lib/prisma';
 import { formatDate, formatTime } from '@/lib/excel';
 import { createLogger } from '@/lib/logger';
-import { createErrorResponse, handleAuthError, handleAuthzError } from '@/lib/error-handling';
+import { createErrorResponse, handleAuthError, handleAuthzError, handleValidationError } from '@/lib/error-handling';
 import { resolveTournamentId } from '@/lib/tournament-identifier';
 import { auth } from '@/lib/auth';
 import { generateCdmWorkbook } from '@/lib/cdm-export';
 import { getBmFinalsTargetWins, getGpFinalsTargetWins, getMrFinalsTargetWins } from '@/lib/finals-target-wins';
 import { resolveFinalsSeedSnapshot } from '@/lib/finals-seed-snapshot';
-import { generateBracketStructure, generatePlayoffStructure } from '@/lib/double-elimination';
+import { generatePlayoffStructure, inferFinalsBracketSize } from '@/lib/double-elimination';
+import { getFinalsFormatFromRound, inferFinalsStructure } from '@/lib/finals-format';
+import type { BracketMatch } from '@/types/bracket';
+import {
+  buildBracketSheetStage,
+  buildMatchCards,
+  buildTaPairSheet,
+  isPrintDocument,
+  renderBracketSheet,
+  renderMatchCards,
+  renderTaPairSheet,
+  type MatchCard,
+  type PrintLocale,
+  type PrintMatchRow,
+  type PrintMode,
+  type PrintQualificationRow,
+  type PrintTtEntryRow,
+} from '@/lib/print-sheets';
+import {
+  buildMatchReportPath,
+  createMatchReportToken,
+  getMatchReportTokenExpiry,
+  MATCH_CARD_TOKEN_TTL_SECONDS,
+} from '@/lib/match-report-token';
 import { serializeFinalsSlots, type SlotStatusMatch } from '@/lib/finals-slot-status';
+import { getTeamRankings, readStoredTeamSettings } from '@/lib/points/team-ranking';
+import { readStoredTaFinalsRules } from '@/lib/ta/finals-rules';
 import type {
   CdmMatch,
   CdmModeQualification,
@@ -66,6 +97,7 @@ type CdmQualificationRow = {
   points: number;
   score: number;
   rankOverride?: number | null;
+  withdrawnAt?: Date | null;
 };
 
 type CdmMatchRow = {
@@ -121,6 +153,7 @@ type CdmTtPhaseRoundRow = {
   results: unknown;
   eliminatedIds?: unknown;
   livesReset: boolean;
+  lifeLoss?: number | null;
   suddenDeathRounds?: CdmTtSuddenDeathRoundRow[];
 };
 
@@ -139,6 +172,7 @@ type CdmTournamentRow = {
   mrFinalsSeedSnapshot?: unknown;
   gpFinalsSeedSnapshot?: unknown;
   finalsRoundSettings?: CdmFinalsRoundSetting[];
+  taFinalsRules?: unknown;
 };
 
 /*
@@ -166,6 +200,7 @@ type CsvTournamentRow = {
   name: string;
   date: Date;
   status: string;
+  teamSettings: unknown;
   bmQualifications: CsvQualRow[];
   bmMatches: CsvMatchRow[];
   mrMatches: CsvMatchRow[];
@@ -247,6 +282,59 @@ const CDM_EXPORT_INCLUDE = {
   },
 };
 
+/* Match cards need every mode's qualification groups and seeding, not just BM's. */
+const PRINT_EXPORT_INCLUDE = {
+  ...BASE_EXPORT_INCLUDE,
+  mrQualifications: CDM_EXPORT_INCLUDE.mrQualifications,
+  gpQualifications: CDM_EXPORT_INCLUDE.gpQualifications,
+};
+
+type PrintTournamentRow = {
+  name: string;
+  bmQualifications: PrintQualificationRow[];
+  mrQualifications: PrintQualificationRow[];
+  gpQualifications: PrintQualificationRow[];
+  bmMatches: PrintMatchRow[];
+  mrMatches: PrintMatchRow[];
+  gpMatches: PrintMatchRow[];
+  ttEntries: PrintTtEntryRow[];
+};
+
+function isPrintMode(value: string | null): value is PrintMode {
+  return value === 'bm' || value === 'mr' || value === 'gp';
+}
+
+/**
+ * Give every open match on the cards a QR report link signed for the card's
+ * player (match-report-token.ts). Without AUTH_SECRET the cards print as
+ * before, with no QR column.
+ */
+async function attachMatchCardReportUrls(
+  cards: MatchCard[],
+  matches: PrintMatchRow[],
+  tournamentId: string,
+  mode: PrintMode,
+  origin: string,
+): Promise<void> {
+  const matchesById = new Map(matches.map((match) => [match.id, match]));
+  const exp = getMatchReportTokenExpiry(MATCH_CARD_TOKEN_TTL_SECONDS);
+  for (const card of cards) {
+    for (const row of card.rows) {
+      const match = matchesById.get(row.matchId);
+      if (!match || row.opponent === null || row.score !== null) continue;
+      const token = await createMatchReportToken({
+        tournamentId,
+        matchId: match.id,
+        playerId: card.player.id,
+        side: match.player1Id === card.player.id ? 1 : 2,
+        exp,
+      });
+      if (!token) return;
+      row.reportUrl = new URL(buildMatchReportPath(tournamentId, mode, match.id, token), origin).toString();
+    }
+  }
+}
+
 async function loadCDMTemplate(
   request: Request,
 ): Promise<{ ok: true; buffer: ArrayBuffer } | { ok: false; status: number; source: string; error?: unknown }> {
@@ -327,6 +415,7 @@ function mapQualification(q: CdmQualificationRow): CdmModeQualification {
     seeding: q.seeding,
     group: q.group,
     rankOverride: q.rankOverride ?? null,
+    withdrawnAt: q.withdrawnAt ?? null,
     points: q.points,
     score: q.score,
   };
@@ -383,6 +472,7 @@ function mapTtPhaseRound(round: CdmTtPhaseRoundRow): CdmTTPhaseRound {
     results: round.results,
     eliminatedIds: round.eliminatedIds,
     livesReset: round.livesReset,
+    lifeLoss: round.lifeLoss ?? undefined,
     suddenDeathRounds: round.suddenDeathRounds?.map((sd) => ({
       sequence: sd.sequence,
       results: sd.results,
@@ -422,7 +512,7 @@ function dropIncompletePlayerRows<T extends { player?: CdmPlayerRow | null }>(
  * unresolved side into a blank workbook slot and score writers clear it.
  */
 function normalizeCdmKnockoutSlots(rows: CdmMatchRow[], groupCount: 2 | 3): CdmMatchRow[] {
-  const byStage = (stage: 'finals' | 'playoff', structure: ReturnType<typeof generateBracketStructure>) => {
+  const byStage = (stage: 'finals' | 'playoff', structure: BracketMatch[]) => {
     const stageRows = rows.filter((row) => row.stage === stage);
     if (stageRows.length === 0) return new Map<number, CdmMatchRow>();
     const normalized = serializeFinalsSlots(
@@ -434,11 +524,7 @@ function normalizeCdmKnockoutSlots(rows: CdmMatchRow[], groupCount: 2 | 3): CdmM
 
   const finalsRows = rows.filter((row) => row.stage === 'finals');
   const finalsStructure =
-    finalsRows.length > 0
-      ? finalsRows.length > 20
-        ? generateBracketStructure(16, groupCount)
-        : generateBracketStructure(8)
-      : [];
+    finalsRows.length > 0 ? inferFinalsStructure(finalsRows[0].round, finalsRows.length, groupCount) : [];
   const byStageAndMatch = new Map<string, CdmMatchRow>();
   for (const [stage, structure] of [
     ['finals', finalsStructure],
@@ -512,6 +598,7 @@ function mapToCdmTournamentData(
     finalsRoundSettings: tournament.finalsRoundSettings ?? [],
     ttEntries: dropIncompletePlayerRows(tournament.ttEntries, 'ttEntries', logger).map(mapTtEntry),
     ttPhaseRounds: tournament.ttPhaseRounds.map(mapTtPhaseRound),
+    taFinalsRules: readStoredTaFinalsRules(tournament.taFinalsRules),
   };
 }
 
@@ -560,6 +647,27 @@ export async function GET(request: Request, { params }: { params: Promise<{ id:
         return createErrorResponse('Tournament not found', 404);
       }
 
+      /* The CDM Finals sheet is a fixed Top-24 double-elimination layout: it
+       * can represent 8 and 16-player brackets (the latter also after a Top-24
+       * barrage), but not the other configurable sizes or finals formats. */
+      const unsupportedFinalsModes = (['bm', 'mr', 'gp'] as const).filter((mode) => {
+        const finals = (tournament[`${mode}Matches`] as Array<{ stage?: string | null; round?: string | null }>).filter(
+          (match) => match.stage === 'finals',
+        );
+        return (
+          finals.length > 0 &&
+          (getFinalsFormatFromRound(finals[0].round) !== 'double_elimination' ||
+            ![8, 16].includes(inferFinalsBracketSize(finals.length)))
+        );
+      });
+      if (unsupportedFinalsModes.length > 0) {
+        return createErrorResponse(
+          `CDM export supports only 8-player, 16-player and Top-24 finals brackets (${unsupportedFinalsModes.map((mode) => mode.toUpperCase()).join(', ')} uses another size or format). Use the CSV export instead.`,
+          409,
+          'CDM_UNSUPPORTED_BRACKET_SIZE',
+        );
+      }
+
       const template = await loadCDMTemplate(request);
       if (!template.ok) {
         logger.error('Failed to load CDM export template', {
@@ -590,6 +698,75 @@ export async function GET(request: Request, { params }: { params: Promise<{ id:
       });
     }
 
+    if (exportFormat === 'print') {
+      const session = await auth();
+      if (!session?.user) {
+        return handleAuthError();
+      }
+      if (session.user.role !== 'admin') {
+        return handleAuthzError('Admin access required');
+      }
+
+      const searchParams = new URL(request.url).searchParams;
+      const doc = searchParams.get('doc');
+      const mode = searchParams.get('mode');
+      if (!isPrintDocument(doc)) {
+        return handleValidationError('doc must be one of match-cards, bracket, ta-pairs', 'doc');
+      }
+      if (doc !== 'ta-pairs' && !isPrintMode(mode)) {
+        return handleValidationError('mode must be one of bm, mr, gp', 'mode');
+      }
+      const locale: PrintLocale = searchParams.get('lang') === 'en' ? 'en' : 'ja';
+
+      const tournament = (await prisma.tournament.findUnique({
+        where: { id: tournamentId },
+        include: PRINT_EXPORT_INCLUDE,
+      })) as unknown as PrintTournamentRow | null;
+
+      if (!tournament) {
+        return createErrorResponse('Tournament not found', 404);
+      }
+
+      const context = { tournamentName: tournament.name, locale };
+      let html: string;
+      if (doc === 'ta-pairs') {
+        html = renderTaPairSheet(buildTaPairSheet(tournament.ttEntries), context);
+      } else {
+        const printMode = mode as PrintMode;
+        const qualifications = tournament[`${printMode}Qualifications`];
+        const matches = tournament[`${printMode}Matches`];
+        if (doc === 'match-cards') {
+          const cards = buildMatchCards(qualifications, matches, printMode, {
+            playerId: searchParams.get('playerId'),
+            locale,
+          });
+          await attachMatchCardReportUrls(cards, matches, tournamentId, printMode, request.url);
+          html = renderMatchCards(cards, printMode, context);
+        } else {
+          const groupCount = new Set(qualifications.map((q) => q.group).filter(Boolean)).size === 2 ? 2 : 3;
+          const finalsRows = matches.filter((match) => match.stage === 'finals');
+          const finalsStructure =
+            finalsRows.length > 0 ? inferFinalsStructure(finalsRows[0].round, finalsRows.length, groupCount) : [];
+          html = renderBracketSheet(
+            [
+              buildBracketSheetStage('playoff', matches, generatePlayoffStructure(12, groupCount), printMode, locale),
+              buildBracketSheetStage('finals', matches, finalsStructure, printMode, locale),
+            ],
+            printMode,
+            context,
+          );
+        }
+      }
+
+      // Rendered inline so the browser opens its print dialog / Save as PDF directly.
+      return new NextResponse(html, {
+        headers: {
+          'Content-Type': 'text/html; charset=utf-8',
+          'Cache-Control': 'no-store',
+        },
+      });
+    }
+
     // CSV does not read CDM-only qualification/phase/overall tables, so keep
     // its include narrow. The CDM workbook path above opts into the heavier
     // include set only when those workbook sheets need the extra data.
@@ -919,6 +1096,36 @@ export async function GET(request: Request, { params }: { params: Promise<{ id:
       csvContent += taData.join('\n');
     }
 
+    // ========================================
+    // Section 7: Team Standings (only when team standings are enabled)
+    // ========================================
+    const teamSettings = readStoredTeamSettings(tournament.teamSettings);
+    if (teamSettings) {
+      const teamRankings = await getTeamRankings(prisma, tournamentId, teamSettings);
+      if (teamRankings.length > 0) {
+        const teamHeaders = ['Rank', 'Team', 'Country', 'Points', 'TA', 'BM', 'MR', 'GP', 'Members'];
+        const teamData = teamRankings.map((entry) =>
+          [
+            String(entry.rank),
+            entry.name,
+            entry.country || '-',
+            String(entry.totalPoints),
+            String(entry.modePoints.ta),
+            String(entry.modePoints.bm),
+            String(entry.modePoints.mr),
+            String(entry.modePoints.gp),
+            entry.members.map((member) => member.nickname).join(' / '),
+          ]
+            .map((v) => (v.includes(',') ? `"${v.replace(/"/g, '""')}"` : v))
+            .join(','),
+        );
+
+        csvContent += '\nTeam Standings\n';
+        csvContent += teamHeaders.join(',') + '\n';
+        csvContent += teamData.join('\n');
+      }
+    }
+
     // Generate a filesystem-safe filename from the tournament name and date.
     // Non-alphanumeric characters are replaced with underscores.
     const filename = `${tournament.name.replace(/[^a-zA-Z0-9]/g, '_')}-full-${formatDate(new Date(tournament.date))}.csv`;
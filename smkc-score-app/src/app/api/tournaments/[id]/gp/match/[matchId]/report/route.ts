@@ -46,6 +46,7 @@ import {
 import { checkRateLimit } from '@/lib/rate-limit';
 import { updateWithRetry, OptimisticLockError } from '@/lib/optimistic-locking';
 import { resolveTournamentId } from '@/lib/tournament-identifier';
+import { withTournamentChangePublish } from '@/lib/tournament-events';
 import { checkQualificationConfirmed } from '@/lib/qualification-confirmed-check';
 
 type ProcessedRace = {
@@ -213,9 +214,10 @@ function processGpParticipantReport(
  * Processes race-by-race positions into driver points and
  * stores the report. Auto-confirms when both players agree.
  *
- * Authentication: admin or player (for their own reports).
+ * Authentication: admin, player (for their own reports) or a QR match
+ * report token for this match and side.
  */
-export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string; matchId: string }> }) {
+async function handlePOST(request: NextRequest, { params }: { params: Promise<{ id: string; matchId: string }> }) {
   const logger = createLogger('gp-score-report-api');
   const { id, matchId } = await params;
   const tournamentId = await resolveTournamentId(id);
@@ -605,3 +607,6 @@ export async function POST(request: NextRequest, { params }: { params: Promise<{
     return handleDatabaseError(error, 'score report');
   }
 }
+
+/* Successful reports notify live views subscribed to the tournament event stream. */
+export const POST = withTournamentChangePublish('gp', handlePOST);
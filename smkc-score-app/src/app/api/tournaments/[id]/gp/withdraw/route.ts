@@ -0,0 +1,12 @@
+/**
+ * Grand Prix (GP) Withdrawal API Route
+ *
+ * POST /api/tournaments/:id/gp/withdraw - Withdraw a player mid-qualification,
+ * voiding their matches or awarding the unplayed ones as walkovers (admin only,
+ * audit-logged). See withdrawal-route.ts and qualification-withdrawal.ts.
+ */
+
+import { createWithdrawalHandlers } from '@/lib/api-factories/withdrawal-route';
+import { gpConfig } from '@/lib/event-types';
+
+export const { POST } = createWithdrawalHandlers(gpConfig);
@@ -5,9 +5,10 @@
  * Both players must independently report matching scores for
  * the match to be automatically confirmed.
  *
- * Authorization supports session-based methods:
+ * Authorization (checkScoreReportAuth):
  * 1. Admin session (full access)
  * 2. Player account (matched by playerId in session)
+ * 3. QR match report token for this match and side (no session)
  *
  * Security features:
  * - Session-based authorization (admin or player)
@@ -45,6 +46,7 @@ import {
 import { checkRateLimit } from '@/lib/rate-limit';
 import { updateWithRetry, OptimisticLockError } from '@/lib/optimistic-locking';
 import { resolveTournamentId } from '@/lib/tournament-identifier';
+import { withTournamentChangePublish } from '@/lib/tournament-events';
 import { checkQualificationConfirmed } from '@/lib/qualification-confirmed-check';
 
 /**
@@ -69,7 +71,7 @@ const MR_RECALC_CONFIG: RecalculateStatsConfig = {
  *
  * Authentication: admin or player (for their own reports).
  */
-export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string; matchId: string }> }) {
+async function handlePOST(request: NextRequest, { params }: { params: Promise<{ id: string; matchId: string }> }) {
   const logger = createLogger('mr-score-report-api');
   const { id, matchId } = await params;
   const tournamentId = await resolveTournamentId(id);
@@ -452,3 +454,6 @@ export async function POST(request: NextRequest, { params }: { params: Promise<{
     return handleDatabaseError(error, 'score report');
   }
 }
+
+/* Successful reports notify live views subscribed to the tournament event stream. */
+export const POST = withTournamentChangePublish('mr', handlePOST);
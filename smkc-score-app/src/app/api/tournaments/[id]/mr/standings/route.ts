@@ -38,6 +38,8 @@ const { GET: _GET } = createStandingsHandlers({
     losses: q.losses,
     points: q.points,
     score: q.score,
+    withdrawnAt: q.withdrawnAt ?? null,
+    withdrawalPolicy: q.withdrawalPolicy ?? null,
   }),
 });
 
@@ -0,0 +1,12 @@
+/**
+ * Match Race (MR) Swiss Round API Route
+ *
+ * POST /api/tournaments/:id/mr/swiss-round - Pair the next Swiss qualification
+ * round from the current standings (admin only, audit-logged).
+ * See swiss-round-route.ts for pairing and course assignment rules.
+ */
+
+import { createSwissRoundHandlers } from '@/lib/api-factories/swiss-round-route';
+import { mrConfig } from '@/lib/event-types';
+
+export const { POST } = createSwissRoundHandlers(mrConfig);
@@ -0,0 +1,12 @@
+/**
+ * Match Race (MR) Withdrawal API Route
+ *
+ * POST /api/tournaments/:id/mr/withdraw - Withdraw a player mid-qualification,
+ * voiding their matches or awarding the unplayed ones as walkovers (admin only,
+ * audit-logged). See withdrawal-route.ts and qualification-withdrawal.ts.
+ */
+
+import { createWithdrawalHandlers } from '@/lib/api-factories/withdrawal-route';
+import { mrConfig } from '@/lib/event-types';
+
+export const { POST } = createWithdrawalHandlers(mrConfig);
@@ -28,7 +28,9 @@ import {
   invalidateOverallRankingsCache,
 } from '@/lib/points/overall-ranking';
 import { createSuccessResponse, createErrorResponse, handleAuthError, handleAuthzError } from '@/lib/error-handling';
+import { readStoredTeamSettings } from '@/lib/points/team-ranking';
 import { resolveTournament } from '@/lib/tournament-identifier';
+import { publishTournamentChange } from '@/lib/tournament-events';
 import { withApiTiming } from '@/lib/perf/api-timing';
 import { readTournamentArchive } from '@/lib/tournament-archive';
 import { bmConfig } from '@/lib/event-types/bm-config';
@@ -149,7 +151,7 @@ async function handlePOST(request: NextRequest, { params }: { params: Promise<{
 
   try {
     /* Single query: fold slug/id resolution + field fetch (#692) */
-    const tournament = await resolveTournament(id, { id: true, name: true });
+    const tournament = await resolveTournament(id, { id: true, name: true, teamSettings: true });
 
     if (!tournament) {
       return createErrorResponse('Tournament not found', 404);
@@ -161,13 +163,21 @@ async function handlePOST(request: NextRequest, { params }: { params: Promise<{
      * ranking can never be written back after a repair. */
     const repairedLegacyStats = await repairLegacyBreakStats(tournamentId);
     if (repairedLegacyStats) {
-      invalidateOverallRankingsCache(tournamentId);
+      await invalidateOverallRankingsCache(tournamentId);
     }
     const rankings = await calculateOverallRankings(prisma, tournamentId);
 
     /* Persist rankings to TournamentPlayerScore table using transaction */
     await saveOverallRankings(prisma, tournamentId, rankings);
 
+    /* Team standings are derived from these rows; mark them changed so the
+     * overlay announces the new team order. */
+    if (readStoredTeamSettings(tournament.teamSettings)) {
+      await prisma.tournament.update({ where: { id: tournamentId }, data: { teamRankingUpdatedAt: new Date() } });
+    }
+
+    await publishTournamentChange(tournamentId);
+
     logger.info('Recalculated overall rankings', {
       tournamentId,
       playerCount: rankings.length,
@@ -30,8 +30,23 @@ import { createSuccessResponse, createErrorResponse } from '@/lib/error-handling
 import { buildOverlayEvents } from '@/lib/overlay/events';
 import { withApiTiming } from '@/lib/perf/api-timing';
 import { computeCurrentPhase, computeCurrentPhaseFormat, type ComputeCurrentPhaseInput } from '@/lib/overlay/phase';
-import type { OverlayMatchInput, OverlayMode, OverlayTaChampionStanding } from '@/lib/overlay/types';
+import type {
+  OverlayMatchInput,
+  OverlayMode,
+  OverlayTaChampionStanding,
+  OverlayTaCourseRecordInput,
+  OverlayTeamStanding,
+} from '@/lib/overlay/types';
 import { normalizeOverlayBroadcastLayout } from '@/lib/overlay/layout';
+import { getTeamRankings, readStoredTeamSettings } from '@/lib/points/team-ranking';
+import { RETRY_PENALTY_MS } from '@/lib/constants';
+import { msToDisplayTime, timeToMs } from '@/lib/ta/time-utils';
+import {
+  findCourseRecordBreaks,
+  loadCourseTimes,
+  phaseRoundCourseTimes,
+  type CourseTime,
+} from '@/lib/ta/course-records';
 
 /** Initial-poll window when no `since` is supplied. */
 const INITIAL_WINDOW_MS = 30_000;
@@ -50,6 +65,9 @@ const INITIAL_BACKFILL_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
 /** Hard cap on backfilled events (per dashboard contract). */
 const INITIAL_BACKFILL_LIMIT = 100;
 
+/** Teams listed on a `team_ranking_updated` event. */
+const OVERLAY_TEAM_STANDINGS_LIMIT = 3;
+
 /**
  * Per-tournament early-return cache.
  *
@@ -271,6 +289,97 @@ async function readCurrentPhaseInput(
   };
 }
 
+/**
+ * Course times saved after `since` that beat the player's personal best or
+ * the event record: the last course entered on each qualification entry and
+ * every result of a newly submitted finals round. History comes from D1 only
+ * (reading R2 archives on every poll is too slow), so a best set in a purged
+ * tournament is not compared against; the records page covers those. A
+ * failure only drops the call-outs, never the rest of the feed.
+ */
+async function findTaCourseRecords(
+  tournamentId: string,
+  since: Date,
+  entries: Array<{
+    id: string;
+    playerId: string;
+    stage: string;
+    updatedAt: Date;
+    lastRecordedCourse: string | null;
+    lastRecordedTime: string | null;
+    player: { nickname: string };
+  }>,
+  rounds: Array<{ id: string; phase: string; course: string; results?: unknown; submittedAt?: Date | null }>,
+  playerNamesByPhase: Map<string, Record<string, string>>,
+  logger: ReturnType<typeof createLogger>,
+): Promise<OverlayTaCourseRecordInput[]> {
+  const candidates: Array<{ time: CourseTime; recordedAt: Date }> = [];
+  for (const entry of entries) {
+    if (entry.stage !== 'qualification' || !entry.lastRecordedCourse || !entry.lastRecordedTime) continue;
+    const timeMs = timeToMs(entry.lastRecordedTime);
+    if (timeMs === null || timeMs === RETRY_PENALTY_MS) continue;
+    candidates.push({
+      recordedAt: entry.updatedAt,
+      time: {
+        playerId: entry.playerId,
+        nickname: entry.player.nickname,
+        tournamentId,
+        course: entry.lastRecordedCourse,
+        timeMs,
+        stage: entry.stage,
+        sourceId: entry.id,
+      },
+    });
+  }
+  for (const round of rounds) {
+    if (!round.submittedAt || round.submittedAt <= since) continue;
+    const nicknames = new Map(Object.entries(playerNamesByPhase.get(round.phase) ?? {}));
+    for (const time of phaseRoundCourseTimes(
+      { ...round, tournamentId, results: round.results, submittedAt: round.submittedAt },
+      nicknames,
+    )) {
+      candidates.push({ time, recordedAt: round.submittedAt });
+    }
+  }
+  if (candidates.length === 0) return [];
+
+  try {
+    const { times } = await loadCourseTimes({
+      includeHidden: false,
+      includeArchived: false,
+      focusTournamentId: tournamentId,
+      playerIds: [...new Set(candidates.map(({ time }) => time.playerId))],
+      courses: [...new Set(candidates.map(({ time }) => time.course))],
+    });
+    return candidates.flatMap(({ time, recordedAt }): OverlayTaCourseRecordInput[] => {
+      const records = findCourseRecordBreaks(time, times)
+        .filter((broken) => broken.kind !== 'app_record')
+        .map((broken) => ({
+          kind: broken.kind as OverlayTaCourseRecordInput['records'][number]['kind'],
+          previousTimeMs: broken.previous.timeMs,
+          previousTimeFormatted: msToDisplayTime(broken.previous.timeMs),
+          previousHolder: broken.previous.nickname,
+        }));
+      if (records.length === 0) return [];
+      return [
+        {
+          sourceId: time.sourceId,
+          playerId: time.playerId,
+          player: { nickname: time.nickname },
+          stage: time.stage,
+          course: time.course,
+          timeMs: time.timeMs,
+          recordedAt,
+          records,
+        },
+      ];
+    });
+  } catch (error) {
+    logger.warn('Failed to resolve TA course records for overlay', { error, tournamentId });
+    return [];
+  }
+}
+
 function parseSince(raw: string | null, now: Date, initial: boolean): Date {
   if (initial) return new Date(now.getTime() - INITIAL_BACKFILL_MS);
   if (!raw) return new Date(now.getTime() - INITIAL_WINDOW_MS);
@@ -305,6 +414,8 @@ async function handleGET(request: NextRequest, { params }: { params: Promise<{ i
       overlayPlayer2Wins: true,
       overlayMatchFt: true,
       overlayLayout: true,
+      teamSettings: true,
+      teamRankingUpdatedAt: true,
       id: true,
     });
     if (!tournament) {
@@ -356,6 +467,7 @@ async function handleGET(request: NextRequest, { params }: { params: Promise<{ i
           ttPhaseSubmittedMax._max.submittedAt,
           scoreMax._max.timestamp,
           tpsMax._max.updatedAt,
+          tournament.teamRankingUpdatedAt as Date | null,
         ];
         latestChange = candidates.reduce<number>((acc, d) => {
           const t = d?.getTime() ?? 0;
@@ -409,6 +521,9 @@ async function handleGET(request: NextRequest, { params }: { params: Promise<{ i
       // BM/MR pre-assigned courses, surfaced on match_completed events so
       // the dashboard scoreboard can show which courses the match used.
       assignedCourses: true,
+      // Venue call queue: surfaced as match_called events.
+      tvNumber: true,
+      calledAt: true,
       player1: { select: { id: true, nickname: true } },
       player2: { select: { id: true, nickname: true } },
     } as const;
@@ -429,6 +544,8 @@ async function handleGET(request: NextRequest, { params }: { params: Promise<{ i
       // GP cup label ("Mushroom" / "Flower" / ...), shown on the dashboard
       // scoreboard so viewers can identify which cup the match was on.
       cup: true,
+      tvNumber: true,
+      calledAt: true,
       player1: { select: { id: true, nickname: true } },
       player2: { select: { id: true, nickname: true } },
     } as const;
@@ -464,7 +581,11 @@ async function handleGET(request: NextRequest, { params }: { params: Promise<{ i
           OR: [
             { updatedAt: { gt: since } },
             { isBye: true },
-            { round: { in: ['losers_final', 'grand_final', 'grand_final_reset'] } },
+            {
+              round: {
+                in: ['losers_final', 'grand_final', 'grand_final_reset', 'single_third_place', 'single_final'],
+              },
+            },
           ],
         },
         select: matchSelect,
@@ -476,7 +597,11 @@ async function handleGET(request: NextRequest, { params }: { params: Promise<{ i
           OR: [
             { updatedAt: { gt: since } },
             { isBye: true },
-            { round: { in: ['losers_final', 'grand_final', 'grand_final_reset'] } },
+            {
+              round: {
+                in: ['losers_final', 'grand_final', 'grand_final_reset', 'single_third_place', 'single_final'],
+              },
+            },
           ],
         },
         select: matchSelect,
@@ -488,7 +613,11 @@ async function handleGET(request: NextRequest, { params }: { params: Promise<{ i
           OR: [
             { updatedAt: { gt: since } },
             { isBye: true },
-            { round: { in: ['losers_final', 'grand_final', 'grand_final_reset'] } },
+            {
+              round: {
+                in: ['losers_final', 'grand_final', 'grand_final_reset', 'single_third_place', 'single_final'],
+              },
+            },
           ],
         },
         select: gpMatchSelect,
@@ -498,6 +627,7 @@ async function handleGET(request: NextRequest, { params }: { params: Promise<{ i
         where: { tournamentId, updatedAt: { gt: since } },
         select: {
           id: true,
+          playerId: true,
           totalTime: true,
           rank: true,
           updatedAt: true,
@@ -683,12 +813,35 @@ async function handleGET(request: NextRequest, { params }: { params: Promise<{ i
       [...bmMatches, ...mrMatches, ...gpMatches].filter((match) => match.isBye).map((match) => match.id),
     );
 
+    /* Team settings / team edits and overall ranking recalculations all bump
+     * teamRankingUpdatedAt. Standings are only computed when the event will
+     * be emitted. */
+    const teamSettings = readStoredTeamSettings(tournament.teamSettings);
+    const latestTeamRankingUpdatedAt = teamSettings ? (tournament.teamRankingUpdatedAt as Date | null) : null;
+    const teamStandings: OverlayTeamStanding[] | undefined =
+      teamSettings && latestTeamRankingUpdatedAt && latestTeamRankingUpdatedAt > since
+        ? (await getTeamRankings(prisma, tournamentId, teamSettings))
+            .slice(0, OVERLAY_TEAM_STANDINGS_LIMIT)
+            .map((entry) => ({ rank: entry.rank, team: entry.name, country: entry.country, points: entry.totalPoints }))
+        : undefined;
+
+    const taCourseRecords = await findTaCourseRecords(
+      tournamentId,
+      since,
+      ttEntries,
+      ttPhaseRounds,
+      taPlayerNamesByPhase,
+      logger,
+    );
+
     const events = buildOverlayEvents({
       since,
       tournament: {
         qualificationConfirmedAt: tournament.qualificationConfirmedAt,
         earliestFinalsCreatedAt: earliestFinals?.createdAt ?? null,
         latestOverallRankingUpdatedAt: latestOverallRanking._max.updatedAt ?? null,
+        latestTeamRankingUpdatedAt,
+        teamStandings,
       },
       bmMatches: bmMatches.filter((match) => !match.isBye) as unknown as OverlayMatchInput[],
       mrMatches: mrMatches.filter((match) => !match.isBye) as unknown as OverlayMatchInput[],
@@ -721,6 +874,7 @@ async function handleGET(request: NextRequest, { params }: { params: Promise<{ i
         championStandings: round.id === championRoundId ? taChampionStandings : undefined,
       })),
       scoreLogs: scoreLogs.filter((log) => !nonCompetitiveMatchIds.has(log.matchId)),
+      taCourseRecords,
     });
 
     /* Initial dashboard load: cap to the most-recent N events. The window
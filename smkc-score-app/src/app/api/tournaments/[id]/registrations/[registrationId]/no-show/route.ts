@@ -0,0 +1,129 @@
+/**
+ * Registration No-Show API Route
+ *
+ * POST /api/tournaments/:id/registrations/:registrationId/no-show - Mark an approved entry as a no-show (admin only)
+ *
+ * Converts the player's remaining BM/MR/GP qualification matches into BREAK
+ * walkovers for their opponents (qualification-no-show.ts), recomputes the
+ * standings and records noShowAt on the entry. Modes without a schedule, or
+ * where every match of the player is already finished, are left unchanged,
+ * so the request can be repeated after a partial failure. A mode whose
+ * qualification is confirmed is locked: the request is refused with 409
+ * while the player still has matches there.
+ *
+ * The conversion overwrites the match rows, so they are read first and kept
+ * in the audit details, which is written before anything changes.
+ *
+ * Response (200): { id, noShowAt, converted: { bm: string[], mr: string[], gp: string[] } }
+ */
+import { NextRequest } from 'next/server';
+import prisma from '@/lib/prisma';
+import { auth } from '@/lib/auth';
+import { createRequiredAuditLog, AUDIT_ACTIONS, resolveAuditUserId } from '@/lib/audit-log';
+import { checkRateLimit } from '@/lib/rate-limit';
+import { getClientIdentifier, getUserAgent } from '@/lib/request-utils';
+import { createLogger } from '@/lib/logger';
+import { resolveTournament } from '@/lib/tournament-identifier';
+import {
+  createErrorResponse,
+  createSuccessResponse,
+  handleAuthzError,
+  handleRateLimitError,
+} from '@/lib/error-handling';
+import { bmConfig, gpConfig, mrConfig } from '@/lib/event-types';
+import { convertNoShowMatches, findNoShowMatches, type QualificationMatchSnapshot } from '@/lib/qualification-no-show';
+import { checkQualificationConfirmed } from '@/lib/qualification-confirmed-check';
+import { invalidate } from '@/lib/standings-cache';
+import { invalidateOverallRankingsCache } from '@/lib/points/overall-ranking';
+import { publishTournamentChange } from '@/lib/tournament-events';
+
+const MODE_CONFIGS = [bmConfig, mrConfig, gpConfig];
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; registrationId: string }> },
+) {
+  const logger = createLogger('registrations-api');
+  const session = await auth();
+  if (!session?.user || session.user.role !== 'admin') {
+    return handleAuthzError();
+  }
+
+  const clientIp = getClientIdentifier(request);
+  const rateResult = await checkRateLimit('general', clientIp);
+  if (!rateResult.success) {
+    return handleRateLimitError(rateResult.retryAfter);
+  }
+
+  const { id, registrationId } = await params;
+  try {
+    const tournament = await resolveTournament(id, { id: true });
+    const registration = tournament
+      ? await prisma.tournamentRegistration.findFirst({
+          where: { id: registrationId, tournamentId: tournament.id as string },
+          select: { id: true, tournamentId: true, playerId: true, status: true },
+        })
+      : null;
+    if (!tournament || !registration) {
+      return createErrorResponse('Registration not found', 404, 'NOT_FOUND');
+    }
+    if (registration.status !== 'approved') {
+      return createErrorResponse('Only approved entries can be marked as no-shows', 409, 'CONFLICT');
+    }
+    const { tournamentId, playerId } = registration;
+
+    const matches: Record<string, QualificationMatchSnapshot[]> = {};
+    for (const config of MODE_CONFIGS) {
+      matches[config.eventTypeCode] = await findNoShowMatches(config, tournamentId, playerId);
+      if (matches[config.eventTypeCode].length === 0) continue;
+      if (await checkQualificationConfirmed(prisma, tournamentId, config.eventTypeCode)) {
+        return createErrorResponse(
+          `${config.eventTypeCode.toUpperCase()} qualification is confirmed. Matches can no longer be converted.`,
+          409,
+          'QUALIFICATION_CONFIRMED',
+        );
+      }
+    }
+
+    await createRequiredAuditLog({
+      userId: resolveAuditUserId(session),
+      ipAddress: clientIp,
+      userAgent: getUserAgent(request),
+      action: AUDIT_ACTIONS.MARK_REGISTRATION_NO_SHOW,
+      targetId: registrationId,
+      targetType: 'TournamentRegistration',
+      details: { tournamentId, playerId, matches },
+    });
+
+    const converted: Record<string, string[]> = {};
+    for (const config of MODE_CONFIGS) {
+      converted[config.eventTypeCode] = await convertNoShowMatches(
+        config,
+        tournamentId,
+        playerId,
+        matches[config.eventTypeCode],
+      );
+    }
+
+    const updated = await prisma.tournamentRegistration.update({
+      where: { id: registrationId },
+      data: { noShowAt: new Date(), checkedInAt: null, checkedInBy: null },
+      select: { id: true, noShowAt: true },
+    });
+
+    try {
+      await invalidate(tournamentId);
+    } catch (invalidateErr) {
+      logger.warn('Failed to invalidate standings cache after no-show', { error: invalidateErr, tournamentId });
+    }
+    await invalidateOverallRankingsCache(tournamentId);
+    for (const config of MODE_CONFIGS) {
+      if (converted[config.eventTypeCode].length > 0) await publishTournamentChange(tournamentId, config.eventTypeCode);
+    }
+
+    return createSuccessResponse({ ...updated, converted });
+  } catch (error) {
+    logger.error('Failed to mark registration as no-show', { error, registrationId });
+    return createErrorResponse('Failed to mark registration as no-show', 500, 'INTERNAL_ERROR');
+  }
+}
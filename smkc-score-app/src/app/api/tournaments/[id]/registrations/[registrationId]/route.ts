@@ -0,0 +1,112 @@
+/**
+ * Tournament Registration Review API Route
+ *
+ * PATCH /api/tournaments/:id/registrations/:registrationId - Approve or reject an entry (admin only)
+ *
+ * Request body: { status: 'approved' | 'rejected' }
+ *
+ * Admins may approve a waitlisted entry directly (going over the cap is
+ * their call). Rejecting an active entry frees a spot, which moves the
+ * oldest waitlisted entry up to pending.
+ */
+import { NextRequest } from 'next/server';
+import prisma from '@/lib/prisma';
+import { auth } from '@/lib/auth';
+import { createAuditLog, AUDIT_ACTIONS, resolveAuditUserId } from '@/lib/audit-log';
+import { checkRateLimit } from '@/lib/rate-limit';
+import { getClientIdentifier, getUserAgent } from '@/lib/request-utils';
+import { sanitizeInput } from '@/lib/sanitize';
+import { createLogger } from '@/lib/logger';
+import { resolveTournament } from '@/lib/tournament-identifier';
+import {
+  createErrorResponse,
+  createSuccessResponse,
+  handleAuthzError,
+  handleRateLimitError,
+  handleValidationError,
+} from '@/lib/error-handling';
+import {
+  defaultRegistrationSettings,
+  promoteWaitlistedRegistrations,
+  readStoredRegistrationSettings,
+} from '@/lib/tournament-registration';
+
+const REVIEW_STATUSES = ['approved', 'rejected'] as const;
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; registrationId: string }> },
+) {
+  const logger = createLogger('registrations-api');
+  const session = await auth();
+  if (!session?.user || session.user.role !== 'admin') {
+    return handleAuthzError();
+  }
+
+  const clientIp = getClientIdentifier(request);
+  const rateResult = await checkRateLimit('general', clientIp);
+  if (!rateResult.success) {
+    return handleRateLimitError(rateResult.retryAfter);
+  }
+
+  const { id, registrationId } = await params;
+  try {
+    const body = sanitizeInput(await request.json());
+    if (!REVIEW_STATUSES.includes(body.status)) {
+      return handleValidationError(`status must be one of ${REVIEW_STATUSES.join(', ')}`, 'status');
+    }
+    const status = body.status as (typeof REVIEW_STATUSES)[number];
+
+    const tournament = await resolveTournament(id, { id: true, registrationSettings: true });
+    const registration = tournament
+      ? await prisma.tournamentRegistration.findFirst({
+          where: { id: registrationId, tournamentId: tournament.id as string },
+          select: { id: true, tournamentId: true, playerId: true, status: true },
+        })
+      : null;
+    if (!tournament || !registration) {
+      return createErrorResponse('Registration not found', 404, 'NOT_FOUND');
+    }
+
+    const reviewerId = resolveAuditUserId(session);
+    const updated = await prisma.tournamentRegistration.update({
+      where: { id: registrationId },
+      data: { status, reviewedBy: reviewerId ?? null, reviewedAt: new Date() },
+      select: { id: true, status: true, modes: true, reviewedAt: true },
+    });
+    const promoted =
+      status === 'rejected'
+        ? await promoteWaitlistedRegistrations(
+            registration.tournamentId,
+            readStoredRegistrationSettings(tournament.registrationSettings) ?? defaultRegistrationSettings(),
+          )
+        : [];
+
+    createAuditLog({
+      userId: reviewerId,
+      ipAddress: clientIp,
+      userAgent: getUserAgent(request),
+      action: AUDIT_ACTIONS.REVIEW_TOURNAMENT_REGISTRATION,
+      targetId: registrationId,
+      targetType: 'TournamentRegistration',
+      details: {
+        tournamentId: registration.tournamentId,
+        playerId: registration.playerId,
+        previousStatus: registration.status,
+        status,
+        promoted,
+      },
+    }).catch((err) =>
+      logger.warn('Failed to create audit log', {
+        error: err,
+        registrationId,
+        action: 'review_tournament_registration',
+      }),
+    );
+
+    return createSuccessResponse({ ...updated, promoted });
+  } catch (error) {
+    logger.error('Failed to review registration', { error, registrationId });
+    return createErrorResponse('Failed to review registration', 500, 'INTERNAL_ERROR');
+  }
+}
@@ -0,0 +1,185 @@
+/**
+ * Tournament Check-In API Route
+ *
+ * POST /api/tournaments/:id/registrations/check-in - Check in the caller's entry (player)
+ * PUT  /api/tournaments/:id/registrations/check-in - Check entries in or out in bulk (admin only)
+ *
+ * Only approved entries can be checked in. Players may check themselves in
+ * while Tournament.registrationSettings.checkIn is on; admins can always
+ * check players in or out, e.g. at the venue desk. See
+ * tournament-registration.ts for how check-in gates qualification setup.
+ */
+import { NextRequest } from 'next/server';
+import prisma from '@/lib/prisma';
+import { auth } from '@/lib/auth';
+import { createAuditLog, AUDIT_ACTIONS, resolveAuditUserId } from '@/lib/audit-log';
+import { checkRateLimit } from '@/lib/rate-limit';
+import { getClientIdentifier, getUserAgent } from '@/lib/request-utils';
+import { sanitizeInput } from '@/lib/sanitize';
+import { createLogger } from '@/lib/logger';
+import { resolveTournament } from '@/lib/tournament-identifier';
+import {
+  createErrorResponse,
+  createSuccessResponse,
+  handleAuthError,
+  handleAuthzError,
+  handleRateLimitError,
+  handleValidationError,
+} from '@/lib/error-handling';
+import { readStoredRegistrationSettings } from '@/lib/tournament-registration';
+
+/** Upper bound for one bulk request; matches the registration cap ceiling. */
+const MAX_BULK_CHECK_IN = 256;
+
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const logger = createLogger('registrations-api');
+  const session = await auth();
+  if (!session?.user) {
+    return handleAuthError();
+  }
+  if (session.user.userType !== 'player' || !session.user.playerId) {
+    return handleAuthzError('Sign in with a player account to check in');
+  }
+  const playerId = session.user.playerId;
+
+  const clientIp = getClientIdentifier(request);
+  const rateResult = await checkRateLimit('general', clientIp);
+  if (!rateResult.success) {
+    return handleRateLimitError(rateResult.retryAfter);
+  }
+
+  const { id } = await params;
+  try {
+    const tournament = await resolveTournament(id, { id: true, status: true, registrationSettings: true });
+    if (!tournament) {
+      return createErrorResponse('Tournament not found', 404, 'NOT_FOUND');
+    }
+    const tournamentId = tournament.id as string;
+    const settings = readStoredRegistrationSettings(tournament.registrationSettings);
+    if (!settings?.checkIn || tournament.status === 'completed') {
+      return createErrorResponse('Check-in is closed', 409, 'CHECK_IN_CLOSED');
+    }
+
+    const registration = await prisma.tournamentRegistration.findFirst({
+      where: { tournamentId, playerId },
+      select: { id: true, status: true, checkedInAt: true, noShowAt: true },
+    });
+    if (!registration) {
+      return createErrorResponse('Registration not found', 404, 'NOT_FOUND');
+    }
+    if (registration.status !== 'approved' || registration.noShowAt) {
+      return createErrorResponse('Only approved entries can check in', 409, 'CONFLICT');
+    }
+    if (registration.checkedInAt) {
+      return createSuccessResponse({ id: registration.id, checkedInAt: registration.checkedInAt });
+    }
+
+    const updated = await prisma.tournamentRegistration.update({
+      where: { id: registration.id },
+      data: { checkedInAt: new Date(), checkedInBy: null },
+      select: { id: true, checkedInAt: true },
+    });
+
+    createAuditLog({
+      ipAddress: clientIp,
+      userAgent: getUserAgent(request),
+      action: AUDIT_ACTIONS.CHECK_IN_TOURNAMENT_REGISTRATION,
+      targetId: registration.id,
+      targetType: 'TournamentRegistration',
+      details: { tournamentId, playerId, checkedIn: true },
+    }).catch((err) =>
+      logger.warn('Failed to create audit log', {
+        error: err,
+        tournamentId,
+        action: 'check_in_tournament_registration',
+      }),
+    );
+
+    return createSuccessResponse(updated, 'Checked in');
+  } catch (error) {
+    logger.error('Failed to check in', { error, tournamentIdentifier: id, playerId });
+    return createErrorResponse('Failed to check in', 500, 'INTERNAL_ERROR');
+  }
+}
+
+/**
+ * PUT /api/tournaments/:id/registrations/check-in
+ *
+ * Request body: { registrationIds: string[], checkedIn: boolean }
+ *
+ * Entries that are not approved, or were marked as no-shows, are skipped;
+ * `updated` counts the entries whose check-in state changed.
+ */
+export async function PUT(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const logger = createLogger('registrations-api');
+  const session = await auth();
+  if (!session?.user || session.user.role !== 'admin') {
+    return handleAuthzError();
+  }
+
+  const clientIp = getClientIdentifier(request);
+  const rateResult = await checkRateLimit('general', clientIp);
+  if (!rateResult.success) {
+    return handleRateLimitError(rateResult.retryAfter);
+  }
+
+  const { id } = await params;
+  try {
+    const body = sanitizeInput(await request.json());
+    const { registrationIds, checkedIn } = body;
+    if (
+      !Array.isArray(registrationIds) ||
+      registrationIds.length === 0 ||
+      registrationIds.length > MAX_BULK_CHECK_IN ||
+      registrationIds.some((value: unknown) => typeof value !== 'string')
+    ) {
+      return handleValidationError(
+        `registrationIds must be a non-empty array of at most ${MAX_BULK_CHECK_IN} IDs`,
+        'registrationIds',
+      );
+    }
+    if (typeof checkedIn !== 'boolean') {
+      return handleValidationError('checkedIn must be a boolean', 'checkedIn');
+    }
+
+    const tournament = await resolveTournament(id, { id: true });
+    if (!tournament) {
+      return createErrorResponse('Tournament not found', 404, 'NOT_FOUND');
+    }
+    const tournamentId = tournament.id as string;
+
+    const adminId = resolveAuditUserId(session);
+    const { count } = await prisma.tournamentRegistration.updateMany({
+      where: {
+        id: { in: registrationIds },
+        tournamentId,
+        status: 'approved',
+        ...(checkedIn ? { checkedInAt: null, noShowAt: null } : { checkedInAt: { not: null } }),
+      },
+      data: checkedIn
+        ? { checkedInAt: new Date(), checkedInBy: adminId ?? null }
+        : { checkedInAt: null, checkedInBy: null },
+    });
+
+    createAuditLog({
+      userId: adminId,
+      ipAddress: clientIp,
+      userAgent: getUserAgent(request),
+      action: AUDIT_ACTIONS.CHECK_IN_TOURNAMENT_REGISTRATION,
+      targetId: tournamentId,
+      targetType: 'Tournament',
+      details: { registrationIds, checkedIn, updated: count },
+    }).catch((err) =>
+      logger.warn('Failed to create audit log', {
+        error: err,
+        tournamentId,
+        action: 'check_in_tournament_registration',
+      }),
+    );
+
+    return createSuccessResponse({ updated: count });
+  } catch (error) {
+    logger.error('Failed to update check-in', { error, tournamentIdentifier: id });
+    return createErrorResponse('Failed to update check-in', 500, 'INTERNAL_ERROR');
+  }
+}
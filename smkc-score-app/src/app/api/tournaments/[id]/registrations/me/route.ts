@@ -0,0 +1,124 @@
+/**
+ * Own Tournament Registration API Route
+ *
+ * GET    /api/tournaments/:id/registrations/me - Sign-up settings and the caller's entry
+ * DELETE /api/tournaments/:id/registrations/me - Withdraw the caller's entry (player)
+ *
+ * GET is public so the sign-up page can show whether registration is open
+ * before the visitor logs in; anonymous callers receive `registration: null`.
+ *
+ * Response (200):
+ *   {
+ *     settings: { open, cap, modes, checkIn } | null,
+ *     registration: { id, status, modes, createdAt, checkedInAt, noShowAt } | null,
+ *     waitlistPosition: number | null   // 1-based, only while waitlisted
+ *   }
+ */
+import { NextRequest } from 'next/server';
+import prisma from '@/lib/prisma';
+import { auth } from '@/lib/auth';
+import { createAuditLog, AUDIT_ACTIONS } from '@/lib/audit-log';
+import { getClientIdentifier, getUserAgent } from '@/lib/request-utils';
+import { createLogger } from '@/lib/logger';
+import { resolveTournament } from '@/lib/tournament-identifier';
+import { createErrorResponse, createSuccessResponse, handleAuthError } from '@/lib/error-handling';
+import {
+  defaultRegistrationSettings,
+  promoteWaitlistedRegistrations,
+  readStoredRegistrationSettings,
+} from '@/lib/tournament-registration';
+
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const logger = createLogger('registrations-api');
+  const { id } = await params;
+  try {
+    const tournament = await resolveTournament(id, { id: true, status: true, registrationSettings: true });
+    if (!tournament) {
+      return createErrorResponse('Tournament not found', 404, 'NOT_FOUND');
+    }
+    const tournamentId = tournament.id as string;
+    const stored = readStoredRegistrationSettings(tournament.registrationSettings);
+    const settings = stored && { ...stored, open: stored.open && tournament.status !== 'completed' };
+
+    const session = await auth();
+    const playerId = session?.user?.userType === 'player' ? session.user.playerId : undefined;
+    const registration = playerId
+      ? await prisma.tournamentRegistration.findFirst({
+          where: { tournamentId, playerId },
+          select: { id: true, status: true, modes: true, createdAt: true, checkedInAt: true, noShowAt: true },
+        })
+      : null;
+
+    const waitlistPosition =
+      registration?.status === 'waitlisted'
+        ? (await prisma.tournamentRegistration.count({
+            where: { tournamentId, status: 'waitlisted', createdAt: { lt: registration.createdAt } },
+          })) + 1
+        : null;
+
+    return createSuccessResponse({ settings, registration, waitlistPosition });
+  } catch (error) {
+    logger.error('Failed to fetch own registration', { error, tournamentIdentifier: id });
+    return createErrorResponse('Failed to fetch registration', 500, 'INTERNAL_ERROR');
+  }
+}
+
+/**
+ * DELETE /api/tournaments/:id/registrations/me
+ *
+ * Removes the entry so the player can sign up again later. A withdrawn
+ * active entry frees its spot for the waitlist. Rejected entries stay, so a
+ * rejection cannot be undone by withdrawing and signing up again.
+ */
+export async function DELETE(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const logger = createLogger('registrations-api');
+  const session = await auth();
+  const playerId = session?.user?.userType === 'player' ? session.user.playerId : undefined;
+  if (!playerId) {
+    return handleAuthError();
+  }
+
+  const { id } = await params;
+  try {
+    const tournament = await resolveTournament(id, { id: true, registrationSettings: true });
+    const tournamentId = tournament?.id as string | undefined;
+    const registration = tournamentId
+      ? await prisma.tournamentRegistration.findFirst({
+          where: { tournamentId, playerId },
+          select: { id: true, status: true, modes: true },
+        })
+      : null;
+    if (!tournament || !tournamentId || !registration) {
+      return createErrorResponse('Registration not found', 404, 'NOT_FOUND');
+    }
+    if (registration.status === 'rejected') {
+      return createErrorResponse('A rejected registration cannot be withdrawn', 409, 'CONFLICT');
+    }
+
+    await prisma.tournamentRegistration.delete({ where: { id: registration.id } });
+    const promoted = await promoteWaitlistedRegistrations(
+      tournamentId,
+      readStoredRegistrationSettings(tournament.registrationSettings) ?? defaultRegistrationSettings(),
+    );
+
+    createAuditLog({
+      ipAddress: getClientIdentifier(request),
+      userAgent: getUserAgent(request),
+      action: AUDIT_ACTIONS.WITHDRAW_TOURNAMENT_REGISTRATION,
+      targetId: registration.id,
+      targetType: 'TournamentRegistration',
+      details: { tournamentId, playerId, status: registration.status, modes: registration.modes, promoted },
+    }).catch((err) =>
+      logger.warn('Failed to create audit log', {
+        error: err,
+        tournamentId,
+        action: 'withdraw_tournament_registration',
+      }),
+    );
+
+    return createSuccessResponse({ id: registration.id, promoted }, 'Registration withdrawn');
+  } catch (error) {
+    logger.error('Failed to withdraw registration', { error, tournamentIdentifier: id, playerId });
+    return createErrorResponse('Failed to withdraw registration', 500, 'INTERNAL_ERROR');
+  }
+}
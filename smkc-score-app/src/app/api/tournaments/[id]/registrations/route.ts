@@ -0,0 +1,220 @@
+/**
+ * Tournament Registrations API Route
+ *
+ * GET  /api/tournaments/:id/registrations - Sign-up settings and every entry (admin only)
+ * POST /api/tournaments/:id/registrations - Sign up for the tournament (player)
+ * PUT  /api/tournaments/:id/registrations - Open, close or configure sign-ups (admin only)
+ *
+ * See tournament-registration.ts for the entry lifecycle and cap handling.
+ * A player's own entry is read and withdrawn through ./me; day-of check-in
+ * goes through ./check-in.
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { auth } from '@/lib/auth';
+import { createAuditLog, AUDIT_ACTIONS, resolveAuditUserId } from '@/lib/audit-log';
+import { checkRateLimit } from '@/lib/rate-limit';
+import { getClientIdentifier, getUserAgent } from '@/lib/request-utils';
+import { sanitizeInput } from '@/lib/sanitize';
+import { createLogger } from '@/lib/logger';
+import { resolveTournament } from '@/lib/tournament-identifier';
+import {
+  createErrorResponse,
+  createSuccessResponse,
+  handleAuthError,
+  handleAuthzError,
+  handleRateLimitError,
+  handleValidationError,
+} from '@/lib/error-handling';
+import {
+  initialRegistrationStatus,
+  parseRegistrationModes,
+  parseRegistrationSettings,
+  promoteWaitlistedRegistrations,
+  readStoredRegistrationSettings,
+  reconcileRegistrationCap,
+  RegistrationError,
+} from '@/lib/tournament-registration';
+
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const logger = createLogger('registrations-api');
+  const session = await auth();
+  if (!session?.user || session.user.role !== 'admin') {
+    return handleAuthzError();
+  }
+
+  const { id } = await params;
+  try {
+    const tournament = await resolveTournament(id, { id: true, registrationSettings: true });
+    if (!tournament) {
+      return createErrorResponse('Tournament not found', 404, 'NOT_FOUND');
+    }
+    const registrations = await prisma.tournamentRegistration.findMany({
+      where: { tournamentId: tournament.id as string },
+      orderBy: { createdAt: 'asc' },
+      select: {
+        id: true,
+        status: true,
+        modes: true,
+        createdAt: true,
+        reviewedAt: true,
+        checkedInAt: true,
+        noShowAt: true,
+        player: { select: { id: true, nickname: true, country: true } },
+      },
+    });
+    return createSuccessResponse({
+      settings: readStoredRegistrationSettings(tournament.registrationSettings),
+      registrations,
+    });
+  } catch (error) {
+    logger.error('Failed to fetch registrations', { error, tournamentIdentifier: id });
+    return createErrorResponse('Failed to fetch registrations', 500, 'INTERNAL_ERROR');
+  }
+}
+
+/**
+ * POST /api/tournaments/:id/registrations
+ *
+ * Request body: { modes: ('ta' | 'bm' | 'mr' | 'gp')[] }
+ *
+ * Returns 201 with the entry; its status is `waitlisted` when the cap is full.
+ */
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const logger = createLogger('registrations-api');
+  const session = await auth();
+  if (!session?.user) {
+    return handleAuthError();
+  }
+  if (session.user.userType !== 'player' || !session.user.playerId) {
+    return handleAuthzError('Sign in with a player account to register');
+  }
+  const playerId = session.user.playerId;
+
+  const clientIp = getClientIdentifier(request);
+  const rateResult = await checkRateLimit('general', clientIp);
+  if (!rateResult.success) {
+    return handleRateLimitError(rateResult.retryAfter);
+  }
+
+  const { id } = await params;
+  try {
+    const tournament = await resolveTournament(id, { id: true, status: true, registrationSettings: true });
+    if (!tournament) {
+      return createErrorResponse('Tournament not found', 404, 'NOT_FOUND');
+    }
+    const tournamentId = tournament.id as string;
+    const settings = readStoredRegistrationSettings(tournament.registrationSettings);
+    if (!settings?.open || tournament.status === 'completed') {
+      return createErrorResponse('Registration is closed', 409, 'REGISTRATION_CLOSED');
+    }
+
+    const body = sanitizeInput(await request.json());
+    const modes = parseRegistrationModes(body.modes, settings.modes);
+
+    const existing = await prisma.tournamentRegistration.findFirst({
+      where: { tournamentId, playerId },
+      select: { id: true },
+    });
+    if (existing) {
+      return createErrorResponse('Already registered for this tournament', 409, 'CONFLICT');
+    }
+
+    const initialStatus = await initialRegistrationStatus(tournamentId, settings);
+    const created = await prisma.tournamentRegistration.create({
+      data: { tournamentId, playerId, modes, status: initialStatus },
+      select: { id: true, status: true, modes: true, createdAt: true },
+    });
+    /* The count above and the insert are separate statements; a concurrent
+     * sign-up may have taken the last spot in between. */
+    const status =
+      initialStatus === 'pending' ? await reconcileRegistrationCap(tournamentId, created.id, settings) : initialStatus;
+    const registration = { ...created, status };
+
+    createAuditLog({
+      ipAddress: clientIp,
+      userAgent: getUserAgent(request),
+      action: AUDIT_ACTIONS.CREATE_TOURNAMENT_REGISTRATION,
+      targetId: registration.id,
+      targetType: 'TournamentRegistration',
+      details: { tournamentId, playerId, modes, status },
+    }).catch((err) =>
+      logger.warn('Failed to create audit log', {
+        error: err,
+        tournamentId,
+        action: 'create_tournament_registration',
+      }),
+    );
+
+    return NextResponse.json({ success: true, data: registration }, { status: 201 });
+  } catch (error) {
+    if (error instanceof RegistrationError) {
+      return handleValidationError(error.message, error.field);
+    }
+    if (error && typeof error === 'object' && 'code' in error && error.code === 'P2002') {
+      return createErrorResponse('Already registered for this tournament', 409, 'CONFLICT');
+    }
+    logger.error('Failed to register for tournament', { error, tournamentIdentifier: id, playerId });
+    return createErrorResponse('Failed to register', 500, 'INTERNAL_ERROR');
+  }
+}
+
+/**
+ * PUT /api/tournaments/:id/registrations
+ *
+ * Request body: { open?: boolean, cap?: number | null, modes?: string[] }
+ *
+ * Omitted fields keep their saved values. Raising or removing the cap moves
+ * waitlisted entries up to pending.
+ */
+export async function PUT(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const logger = createLogger('registrations-api');
+  const session = await auth();
+  if (!session?.user || session.user.role !== 'admin') {
+    return handleAuthzError();
+  }
+
+  const clientIp = getClientIdentifier(request);
+  const rateResult = await checkRateLimit('general', clientIp);
+  if (!rateResult.success) {
+    return handleRateLimitError(rateResult.retryAfter);
+  }
+
+  const { id } = await params;
+  try {
+    const tournament = await resolveTournament(id, { id: true, registrationSettings: true });
+    if (!tournament) {
+      return createErrorResponse('Tournament not found', 404, 'NOT_FOUND');
+    }
+    const tournamentId = tournament.id as string;
+    const current = readStoredRegistrationSettings(tournament.registrationSettings);
+    const settings = parseRegistrationSettings(sanitizeInput(await request.json()), current ?? undefined);
+
+    await prisma.tournament.update({ where: { id: tournamentId }, data: { registrationSettings: settings } });
+    const promoted = await promoteWaitlistedRegistrations(tournamentId, settings);
+
+    createAuditLog({
+      userId: resolveAuditUserId(session),
+      ipAddress: clientIp,
+      userAgent: getUserAgent(request),
+      action: AUDIT_ACTIONS.UPDATE_REGISTRATION_SETTINGS,
+      targetId: tournamentId,
+      targetType: 'Tournament',
+      details: { previous: current, settings, promoted },
+    }).catch((err) =>
+      logger.warn('Failed to create audit log', {
+        error: err,
+        tournamentId,
+        action: 'update_registration_settings',
+      }),
+    );
+
+    return createSuccessResponse({ settings, promoted }, 'Registration settings saved');
+  } catch (error) {
+    if (error instanceof RegistrationError) {
+      return handleValidationError(error.message, error.field);
+    }
+    logger.error('Failed to save registration settings', { error, tournamentIdentifier: id });
+    return createErrorResponse('Failed to save registration settings', 500, 'INTERNAL_ERROR');
+  }
+}
@@ -30,6 +30,7 @@ import {
 } from '@/lib/error-handling';
 import { isValidPublicModes } from '@/lib/public-modes';
 import { hasJsmkcIdentity } from '@/lib/cdm-archive-reconciliation-policy';
+import { QUALIFICATION_SCHEDULE_METHODS } from '@/lib/round-robin';
 import {
   getArchivedTournamentSummary,
   persistTournamentArchive,
@@ -98,6 +99,7 @@ export async function GET(request: NextRequest, { params }: { params: Promise<{
                 taBattleRoyaleMode: true,
                 qualificationScheduleMethod: true,
                 debugMode: true,
+                registrationSettings: true,
                 createdAt: true,
                 updatedAt: true,
               }
@@ -303,9 +305,12 @@ export async function PUT(request: NextRequest, { params }: { params: Promise<{
     if (taBattleRoyaleMode !== undefined && typeof taBattleRoyaleMode !== 'boolean') {
       return handleValidationError('taBattleRoyaleMode must be a boolean', 'taBattleRoyaleMode');
     }
-    if (qualificationScheduleMethod !== undefined && !['circle', 'cdm'].includes(qualificationScheduleMethod)) {
+    if (
+      qualificationScheduleMethod !== undefined &&
+      !(QUALIFICATION_SCHEDULE_METHODS as readonly string[]).includes(qualificationScheduleMethod)
+    ) {
       return handleValidationError(
-        'qualificationScheduleMethod must be "circle" or "cdm"',
+        'qualificationScheduleMethod must be "circle", "cdm" or "swiss"',
         'qualificationScheduleMethod',
       );
     }
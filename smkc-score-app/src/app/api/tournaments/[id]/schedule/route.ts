@@ -0,0 +1,111 @@
+/**
+ * Match Schedule API Route
+ *
+ * GET  /api/tournaments/:id/schedule - Stored schedule, planner settings and conflicts (admin only)
+ * POST /api/tournaments/:id/schedule - Preview or apply a planned schedule (admin only)
+ *
+ * The planner assigns wall-clock start times and TVs to incomplete BM/MR/GP
+ * qualification matches without double-booking a player across modes; see
+ * match-schedule.ts.
+ */
+import { NextRequest } from 'next/server';
+import { auth } from '@/lib/auth';
+import { resolveAuditUserId } from '@/lib/audit-log';
+import { checkRateLimit } from '@/lib/rate-limit';
+import { getClientIdentifier, getUserAgent } from '@/lib/request-utils';
+import { sanitizeInput } from '@/lib/sanitize';
+import { createLogger } from '@/lib/logger';
+import { resolveTournament } from '@/lib/tournament-identifier';
+import {
+  createErrorResponse,
+  createSuccessResponse,
+  handleAuthzError,
+  handleRateLimitError,
+  handleValidationError,
+} from '@/lib/error-handling';
+import {
+  parseSchedulePlannerSettings,
+  readStoredSchedulePlannerSettings,
+  SchedulePlannerError,
+} from '@/lib/match-schedule';
+import { applyMatchSchedule, getStoredMatchSchedule, previewMatchSchedule } from '@/lib/match-schedule-service';
+
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const logger = createLogger('match-schedule-api');
+  const session = await auth();
+  if (!session?.user || session.user.role !== 'admin') {
+    return handleAuthzError();
+  }
+
+  const { id } = await params;
+  try {
+    const tournament = await resolveTournament(id, { id: true, scheduleSettings: true });
+    if (!tournament) {
+      return createErrorResponse('Tournament not found', 404, 'NOT_FOUND');
+    }
+    const settings = readStoredSchedulePlannerSettings(tournament.scheduleSettings);
+    return createSuccessResponse(await getStoredMatchSchedule(tournament.id as string, settings));
+  } catch (error) {
+    logger.error('Failed to fetch match schedule', { error, tournamentIdentifier: id });
+    return createErrorResponse('Failed to fetch match schedule', 500, 'INTERNAL_ERROR');
+  }
+}
+
+/**
+ * POST /api/tournaments/:id/schedule
+ *
+ * Request body:
+ *   - action ("preview" | "apply", required)
+ *   - startAt (ISO date-time), tvCount (1-4), durations ({ bm, mr, gp } minutes),
+ *     changeoverMinutes, modes (subset of ["bm", "mr", "gp"]) - optional;
+ *     omitted values fall back to the last applied settings, then defaults
+ */
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const logger = createLogger('match-schedule-api');
+  const session = await auth();
+  if (!session?.user || session.user.role !== 'admin') {
+    return handleAuthzError();
+  }
+
+  const clientIp = getClientIdentifier(request);
+  const rateResult = await checkRateLimit('general', clientIp);
+  if (!rateResult.success) {
+    return handleRateLimitError(rateResult.retryAfter);
+  }
+
+  const { id } = await params;
+  try {
+    const tournament = await resolveTournament(id, { id: true, scheduleSettings: true });
+    if (!tournament) {
+      return createErrorResponse('Tournament not found', 404, 'NOT_FOUND');
+    }
+    const tournamentId = tournament.id as string;
+    const body = sanitizeInput(await request.json());
+    const action = body.action;
+    if (action !== 'preview' && action !== 'apply') {
+      return handleValidationError('action must be "preview" or "apply"', 'action');
+    }
+
+    const settings = parseSchedulePlannerSettings(body, readStoredSchedulePlannerSettings(tournament.scheduleSettings));
+    if (action === 'preview') {
+      return createSuccessResponse(await previewMatchSchedule(tournamentId, settings));
+    }
+
+    const plan = await applyMatchSchedule({
+      tournamentId,
+      settings,
+      audit: {
+        userId: resolveAuditUserId(session),
+        ipAddress: clientIp,
+        userAgent: getUserAgent(request),
+      },
+    });
+    return createSuccessResponse(plan, 'Match schedule applied');
+  } catch (error) {
+    if (error instanceof SchedulePlannerError) {
+      return handleValidationError(error.message, error.field);
+    }
+    logger.error('Failed to plan match schedule', { error, tournamentIdentifier: id });
+    return createErrorResponse('Failed to plan match schedule', 500, 'INTERNAL_ERROR');
+  }
+}
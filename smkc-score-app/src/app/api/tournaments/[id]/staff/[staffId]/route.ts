@@ -0,0 +1,55 @@
+/**
+ * Tournament Staff Grant API Route
+ *
+ * DELETE /api/tournaments/:id/staff/:staffId - Revoke a staff role (admin only)
+ *
+ * Permissions are looked up per request, so the revoke applies to the
+ * player's next API call without a new login.
+ */
+import { NextRequest } from 'next/server';
+import prisma from '@/lib/prisma';
+import { auth } from '@/lib/auth';
+import { createRequiredAuditLog, AUDIT_ACTIONS, resolveAuditUserId } from '@/lib/audit-log';
+import { getClientIdentifier, getUserAgent } from '@/lib/request-utils';
+import { createLogger } from '@/lib/logger';
+import { resolveTournament } from '@/lib/tournament-identifier';
+import { createErrorResponse, createSuccessResponse, handleAuthzError } from '@/lib/error-handling';
+
+export async function DELETE(request: NextRequest, { params }: { params: Promise<{ id: string; staffId: string }> }) {
+  const logger = createLogger('staff-api');
+  const session = await auth();
+  if (!session?.user || session.user.role !== 'admin') {
+    return handleAuthzError();
+  }
+
+  const { id, staffId } = await params;
+  try {
+    const tournament = await resolveTournament(id, { id: true });
+    const grant = tournament
+      ? await prisma.tournamentStaff.findFirst({
+          where: { id: staffId, tournamentId: tournament.id as string },
+          include: { player: { select: { nickname: true } } },
+        })
+      : null;
+    if (!grant) {
+      return createErrorResponse('Staff role not found', 404, 'NOT_FOUND');
+    }
+
+    await createRequiredAuditLog({
+      userId: resolveAuditUserId(session),
+      ipAddress: getClientIdentifier(request),
+      userAgent: getUserAgent(request),
+      action: AUDIT_ACTIONS.REVOKE_TOURNAMENT_STAFF,
+      targetId: grant.playerId,
+      targetType: 'Player',
+      details: { tournamentId: grant.tournamentId, role: grant.role, playerNickname: grant.player.nickname },
+    });
+    await prisma.tournamentStaff.delete({ where: { id: staffId } });
+
+    logger.info('Tournament staff role revoked', { staffId, playerId: grant.playerId, role: grant.role });
+    return createSuccessResponse({ id: staffId }, 'Staff role revoked');
+  } catch (error) {
+    logger.error('Failed to revoke tournament staff role', { error, staffId });
+    return createErrorResponse('Failed to revoke staff role', 500, 'INTERNAL_ERROR');
+  }
+}
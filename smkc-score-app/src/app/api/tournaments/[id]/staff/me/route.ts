@@ -0,0 +1,39 @@
+/**
+ * Own Tournament Permissions API Route
+ *
+ * GET /api/tournaments/:id/staff/me - Permissions the caller holds in the tournament
+ *
+ * Used by the tournament pages to show operator controls to staff. Admins
+ * receive every permission; anonymous callers and players without a staff
+ * role receive an empty list. The API routes enforce the same permissions
+ * independently, so this response only drives the UI.
+ *
+ * Response (200):
+ *   { permissions: ('scores' | 'tv' | 'ta' | 'broadcast')[] }
+ */
+import { NextRequest } from 'next/server';
+import { auth } from '@/lib/auth';
+import { createLogger } from '@/lib/logger';
+import { resolveTournament } from '@/lib/tournament-identifier';
+import { getTournamentPermissions } from '@/lib/tournament-staff';
+import { createErrorResponse, createSuccessResponse } from '@/lib/error-handling';
+
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const logger = createLogger('staff-api');
+  const { id } = await params;
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return createSuccessResponse({ permissions: [] });
+    }
+    const tournament = await resolveTournament(id, { id: true });
+    if (!tournament) {
+      return createErrorResponse('Tournament not found', 404, 'NOT_FOUND');
+    }
+    const permissions = await getTournamentPermissions(session, tournament.id as string);
+    return createSuccessResponse({ permissions });
+  } catch (error) {
+    logger.error('Failed to fetch tournament permissions', { error, tournamentIdentifier: id });
+    return createErrorResponse('Failed to fetch permissions', 500, 'INTERNAL_ERROR');
+  }
+}
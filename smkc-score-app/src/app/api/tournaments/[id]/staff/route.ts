@@ -0,0 +1,131 @@
+/**
+ * Tournament Staff Collection API Route
+ *
+ * GET  /api/tournaments/:id/staff - Staff role grants with their players (admin only)
+ * POST /api/tournaments/:id/staff - Grant a player a staff role (admin only)
+ *
+ * Roles and the permissions they carry are defined in tournament-staff.ts.
+ * Grants are audited before they are written, so a grant never exists
+ * without its GRANT_TOURNAMENT_STAFF record.
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { auth } from '@/lib/auth';
+import { createRequiredAuditLog, AUDIT_ACTIONS, resolveAuditUserId } from '@/lib/audit-log';
+import { checkRateLimit } from '@/lib/rate-limit';
+import { getClientIdentifier, getUserAgent } from '@/lib/request-utils';
+import { sanitizeInput } from '@/lib/sanitize';
+import { createLogger } from '@/lib/logger';
+import { PLAYER_PUBLIC_SELECT } from '@/lib/prisma-selects';
+import { resolveTournament } from '@/lib/tournament-identifier';
+import { isTournamentStaffRole } from '@/lib/tournament-staff';
+import {
+  createErrorResponse,
+  createSuccessResponse,
+  handleAuthzError,
+  handleRateLimitError,
+  handleValidationError,
+} from '@/lib/error-handling';
+
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const logger = createLogger('staff-api');
+  const session = await auth();
+  if (!session?.user || session.user.role !== 'admin') {
+    return handleAuthzError();
+  }
+
+  const { id } = await params;
+  try {
+    const tournament = await resolveTournament(id, { id: true });
+    if (!tournament) {
+      return createErrorResponse('Tournament not found', 404, 'NOT_FOUND');
+    }
+    const staff = await prisma.tournamentStaff.findMany({
+      where: { tournamentId: tournament.id as string },
+      include: { player: { select: PLAYER_PUBLIC_SELECT } },
+      orderBy: { createdAt: 'asc' },
+    });
+    return createSuccessResponse(staff);
+  } catch (error) {
+    logger.error('Failed to fetch tournament staff', { error, tournamentIdentifier: id });
+    return createErrorResponse('Failed to fetch tournament staff', 500, 'INTERNAL_ERROR');
+  }
+}
+
+/**
+ * POST /api/tournaments/:id/staff
+ *
+ * Request body:
+ *   - playerId (string, required) - The player account that signs in as staff
+ *   - role (STAFF | TA_OPERATOR | BROADCAST_OPERATOR, required)
+ *
+ * Error responses:
+ *   400 - Invalid body or unknown player
+ *   409 - The player already holds this role
+ */
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const logger = createLogger('staff-api');
+  const session = await auth();
+  if (!session?.user || session.user.role !== 'admin') {
+    return handleAuthzError();
+  }
+
+  const clientIp = getClientIdentifier(request);
+  const rateResult = await checkRateLimit('general', clientIp);
+  if (!rateResult.success) {
+    return handleRateLimitError(rateResult.retryAfter);
+  }
+
+  const { id } = await params;
+  try {
+    const tournament = await resolveTournament(id, { id: true });
+    if (!tournament) {
+      return createErrorResponse('Tournament not found', 404, 'NOT_FOUND');
+    }
+    const tournamentId = tournament.id as string;
+
+    const { playerId, role } = sanitizeInput(await request.json()) as Record<string, unknown>;
+    if (typeof playerId !== 'string' || !playerId) {
+      return handleValidationError('playerId is required', 'playerId');
+    }
+    if (!isTournamentStaffRole(role)) {
+      return handleValidationError('role must be STAFF, TA_OPERATOR or BROADCAST_OPERATOR', 'role');
+    }
+
+    const player = await prisma.player.findUnique({ where: { id: playerId }, select: { id: true, nickname: true } });
+    if (!player) {
+      return handleValidationError(`Unknown player: ${playerId}`, 'playerId');
+    }
+    const existing = await prisma.tournamentStaff.findFirst({
+      where: { tournamentId, playerId, role },
+      select: { id: true },
+    });
+    if (existing) {
+      return createErrorResponse('Player already holds this role', 409, 'CONFLICT');
+    }
+
+    await createRequiredAuditLog({
+      userId: resolveAuditUserId(session),
+      ipAddress: clientIp,
+      userAgent: getUserAgent(request),
+      action: AUDIT_ACTIONS.GRANT_TOURNAMENT_STAFF,
+      targetId: playerId,
+      targetType: 'Player',
+      details: { tournamentId, role, playerNickname: player.nickname },
+    });
+
+    const grant = await prisma.tournamentStaff.create({
+      data: { tournamentId, playerId, role, grantedBy: session.user.id ?? null },
+      include: { player: { select: PLAYER_PUBLIC_SELECT } },
+    });
+
+    logger.info('Tournament staff role granted', { tournamentId, playerId, role });
+    return NextResponse.json({ success: true, data: grant }, { status: 201 });
+  } catch (error) {
+    if (error && typeof error === 'object' && 'code' in error && error.code === 'P2002') {
+      return createErrorResponse('Player already holds this role', 409, 'CONFLICT');
+    }
+    logger.error('Failed to grant tournament staff role', { error, tournamentIdentifier: id });
+    return createErrorResponse('Failed to grant staff role', 500, 'INTERNAL_ERROR');
+  }
+}
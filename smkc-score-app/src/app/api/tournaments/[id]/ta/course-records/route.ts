@@ -0,0 +1,72 @@
+/**
+ * TA Course Records API Route
+ *
+ * GET /api/tournaments/:id/ta/course-records
+ *
+ * Per-course records seen from one tournament (course-records.ts): the
+ * all-time app record, this tournament's event record and, when a player is
+ * picked, that player's personal best across every tournament — including
+ * those that only survive as R2 archives.
+ *
+ * Access: Public. Non-admin callers only see times from tournaments that
+ * have published TA (plus this tournament, whose TA pages are public);
+ * admins see everything.
+ *
+ * Query:
+ *   - playerId: optional, the player whose personal bests are filled in
+ *
+ * Response:
+ *   200 - { tournament, players, courses: CourseRecordRow[] }
+ *   404 - Tournament not found
+ *   500 - Server error
+ */
+import { NextRequest } from 'next/server';
+import prisma from '@/lib/prisma';
+import { auth } from '@/lib/auth';
+import { createLogger } from '@/lib/logger';
+import { retryDbRead } from '@/lib/db-read-retry';
+import { resolveTournament } from '@/lib/tournament-identifier';
+import { createErrorResponse, createSuccessResponse } from '@/lib/error-handling';
+import { buildCourseRecords, loadCourseTimes } from '@/lib/ta/course-records';
+
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const logger = createLogger('ta-course-records-api');
+  const { id } = await params;
+  const playerId = new URL(request.url).searchParams.get('playerId') || null;
+
+  try {
+    const tournament = await resolveTournament(id, { id: true, name: true });
+    if (!tournament) {
+      return createErrorResponse('Tournament not found', 404, 'NOT_FOUND');
+    }
+    const tournamentId = tournament.id as string;
+
+    const session = await auth();
+    const isAdmin = session?.user?.role === 'admin';
+
+    const entries = await retryDbRead(() =>
+      prisma.tTEntry.findMany({
+        where: { tournamentId, stage: 'qualification', deletedAt: null },
+        select: { playerId: true, player: { select: { nickname: true } } },
+        orderBy: { player: { nickname: 'asc' } },
+      }),
+    );
+    const { tournaments, times } = await loadCourseTimes({
+      includeHidden: isAdmin,
+      includeArchived: true,
+      focusTournamentId: tournamentId,
+    });
+
+    return createSuccessResponse({
+      tournament: { id: tournamentId, name: tournament.name },
+      players: entries.map((entry: { playerId: string; player: { nickname: string } }) => ({
+        playerId: entry.playerId,
+        nickname: entry.player.nickname,
+      })),
+      courses: buildCourseRecords(times, tournaments, { tournamentId, playerId }),
+    });
+  } catch (error) {
+    logger.error('Failed to load TA course records', { error, tournamentIdentifier: id });
+    return createErrorResponse('Failed to load TA course records', 500, 'INTERNAL_ERROR');
+  }
+}
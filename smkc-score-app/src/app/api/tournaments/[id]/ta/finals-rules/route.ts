@@ -0,0 +1,118 @@
+/**
+ * TA Finals Rule Set API Route
+ *
+ * PUT /api/tournaments/:id/ta/finals-rules - Save or clear the tournament's TA finals rule set (admin only)
+ *
+ * The rule set (finals-rules.ts) decides the qualification bands of each
+ * phase, the Phase 1/2 survivor counts and the Phase 3 lives, per-round life
+ * loss and reset thresholds. Rounds already played were scored under the
+ * rules in force at the time, so the rule set is locked once any finals
+ * phase has been promoted. The current rules are read through GET /ta/phases.
+ */
+import { NextRequest } from 'next/server';
+import { Prisma } from '@prisma/client';
+import prisma from '@/lib/prisma';
+import { auth } from '@/lib/auth';
+import { createAuditLog, AUDIT_ACTIONS, resolveAuditUserId } from '@/lib/audit-log';
+import { checkRateLimit } from '@/lib/rate-limit';
+import { getClientIdentifier, getUserAgent } from '@/lib/request-utils';
+import { sanitizeInput } from '@/lib/sanitize';
+import { createLogger } from '@/lib/logger';
+import { resolveTournament } from '@/lib/tournament-identifier';
+import { withTournamentChangePublish } from '@/lib/tournament-events';
+import {
+  createErrorResponse,
+  createSuccessResponse,
+  handleAuthzError,
+  handleRateLimitError,
+  handleValidationError,
+} from '@/lib/error-handling';
+import { DEFAULT_TA_FINALS_RULES, parseTaFinalsRules, readStoredTaFinalsRules } from '@/lib/ta/finals-rules';
+
+/**
+ * Request body:
+ *   - rules (TaFinalsRules | null, required); null goes back to the rulebook defaults
+ */
+async function handlePUT(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const logger = createLogger('ta-finals-rules-api');
+  const session = await auth();
+  if (!session?.user || session.user.role !== 'admin') {
+    return handleAuthzError();
+  }
+
+  const clientIp = getClientIdentifier(request);
+  const rateResult = await checkRateLimit('general', clientIp);
+  if (!rateResult.success) {
+    return handleRateLimitError(rateResult.retryAfter);
+  }
+
+  const { id } = await params;
+  try {
+    const tournament = await resolveTournament(id, { id: true, taBattleRoyaleMode: true, taFinalsRules: true });
+    if (!tournament) {
+      return createErrorResponse('Tournament not found', 404, 'NOT_FOUND');
+    }
+    const tournamentId = tournament.id as string;
+    if (tournament.taBattleRoyaleMode) {
+      return createErrorResponse('TA battle royale mode has its own Phase 3 rules', 400, 'INVALID_TA_MODE');
+    }
+
+    const body = sanitizeInput(await request.json());
+    if (body.rules === undefined) {
+      return handleValidationError('rules is required', 'rules');
+    }
+    let rules = null;
+    if (body.rules !== null) {
+      const parsed = parseTaFinalsRules(body.rules);
+      if (!parsed.success) {
+        return handleValidationError(parsed.message, `rules.${parsed.field}`);
+      }
+      rules = parsed.rules;
+    }
+
+    const finalsEntry = await prisma.tTEntry.findFirst({
+      where: { tournamentId, stage: { in: ['phase1', 'phase2', 'phase3'] } },
+      select: { id: true },
+    });
+    if (finalsEntry) {
+      return createErrorResponse(
+        'The finals rule set cannot be changed after a finals phase has started',
+        409,
+        'FINALS_STARTED',
+      );
+    }
+
+    const previous = tournament.taFinalsRules ? readStoredTaFinalsRules(tournament.taFinalsRules) : null;
+    await prisma.tournament.update({
+      where: { id: tournamentId },
+      data: { taFinalsRules: rules ?? Prisma.DbNull },
+    });
+
+    createAuditLog({
+      userId: resolveAuditUserId(session),
+      ipAddress: clientIp,
+      userAgent: getUserAgent(request),
+      action: AUDIT_ACTIONS.UPDATE_TA_FINALS_RULES,
+      targetId: tournamentId,
+      targetType: 'Tournament',
+      details: { previous, rules },
+    }).catch((err) =>
+      logger.warn('Failed to create audit log', {
+        error: err,
+        tournamentId,
+        action: 'update_ta_finals_rules',
+      }),
+    );
+
+    return createSuccessResponse(
+      { rules: rules ?? DEFAULT_TA_FINALS_RULES },
+      rules ? 'TA finals rules saved' : 'TA finals rules reset to defaults',
+    );
+  } catch (error) {
+    logger.error('Failed to save TA finals rules', { error, tournamentIdentifier: id });
+    return createErrorResponse('Failed to save TA finals rules', 500, 'INTERNAL_ERROR');
+  }
+}
+
+/* A saved rule set changes the cut lines the TA pages draw. */
+export const PUT = withTournamentChangePublish('ta', handlePUT);
@@ -0,0 +1,104 @@
+/**
+ * TA Finals Timeline API Route
+ *
+ * GET /api/tournaments/:id/ta/finals-timeline
+ *
+ * Round-by-round replay of the TA finals (finals-timeline.ts) for the
+ * time-travel viewer: who was alive, each player's lives, the course pool
+ * and the sudden-death chain after every submitted round. Public like
+ * GET /ta/phases, which already exposes the same rounds.
+ *
+ * Query:
+ *   - format: omitted for the viewer's JSON response, "json" or "csv" for a
+ *     downloadable file of the whole sequence
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { PLAYER_PUBLIC_SELECT } from '@/lib/prisma-selects';
+import { createLogger } from '@/lib/logger';
+import { retryDbRead } from '@/lib/db-read-retry';
+import { resolveTournament } from '@/lib/tournament-identifier';
+import { createErrorResponse, createSuccessResponse, handleValidationError } from '@/lib/error-handling';
+import { getTaPhase3Rules } from '@/lib/ta/battle-royale';
+import { readStoredTaFinalsRules } from '@/lib/ta/finals-rules';
+import { buildTaFinalsTimeline, taFinalsTimelineToCsv } from '@/lib/ta/finals-timeline';
+
+const EXPORT_FORMATS = ['json', 'csv'] as const;
+
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const logger = createLogger('ta-finals-timeline-api');
+  const { id } = await params;
+
+  const format = new URL(request.url).searchParams.get('format');
+  if (format !== null && !EXPORT_FORMATS.includes(format as (typeof EXPORT_FORMATS)[number])) {
+    return handleValidationError('format must be json or csv', 'format');
+  }
+
+  try {
+    const tournament = await resolveTournament(id, {
+      id: true,
+      name: true,
+      taBattleRoyaleMode: true,
+      taFinalsRules: true,
+    });
+    if (!tournament) {
+      return createErrorResponse('Tournament not found', 404, 'NOT_FOUND');
+    }
+    const tournamentId = tournament.id as string;
+
+    /* Sequential reads, for the same D1 fan-out reason as GET /ta/phases. */
+    const entries = await retryDbRead(() =>
+      prisma.tTEntry.findMany({
+        where: { tournamentId, stage: { in: ['phase1', 'phase2', 'phase3'] } },
+        select: { playerId: true, stage: true, player: { select: PLAYER_PUBLIC_SELECT } },
+      }),
+    );
+    const rounds = await retryDbRead(() =>
+      prisma.tTPhaseRound.findMany({
+        where: { tournamentId },
+        include: { suddenDeathRounds: { orderBy: { sequence: 'asc' } } },
+        orderBy: [{ phase: 'asc' }, { roundNumber: 'asc' }],
+      }),
+    );
+    const lifeAdjustments = await retryDbRead(() =>
+      prisma.tTPhaseLifeAdjustment.findMany({
+        where: { tournamentId },
+        select: {
+          id: true,
+          playerId: true,
+          oldLives: true,
+          newLives: true,
+          entryVersion: true,
+          afterRoundId: true,
+          afterRoundNumber: true,
+          createdAt: true,
+        },
+        orderBy: [{ createdAt: 'asc' }, { entryVersion: 'asc' }, { id: 'asc' }],
+      }),
+    );
+
+    const timeline = buildTaFinalsTimeline({
+      entries,
+      rounds,
+      phase3Rules: getTaPhase3Rules(
+        tournament.taBattleRoyaleMode === true,
+        readStoredTaFinalsRules(tournament.taFinalsRules),
+      ),
+      lifeAdjustments,
+    });
+
+    if (!format) {
+      return createSuccessResponse(timeline);
+    }
+    const filename = `${String(tournament.name).replace(/[^a-zA-Z0-9]/g, '_')}-ta-finals-timeline.${format}`;
+    return new NextResponse(format === 'csv' ? taFinalsTimelineToCsv(timeline) : JSON.stringify(timeline, null, 2), {
+      headers: {
+        'Content-Type': format === 'csv' ? 'text/csv; charset=utf-8' : 'application/json; charset=utf-8',
+        'Content-Disposition': `attachment; filename*=UTF-8''${encodeURIComponent(filename)}; filename="${filename}"`,
+      },
+    });
+  } catch (error) {
+    logger.error('Failed to build TA finals timeline', { error, tournamentIdentifier: id });
+    return createErrorResponse('Failed to build TA finals timeline', 500, 'INTERNAL_ERROR');
+  }
+}
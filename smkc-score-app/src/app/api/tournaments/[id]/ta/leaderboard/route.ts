@@ -0,0 +1,60 @@
+/**
+ * TA Qualification Live Leaderboard API Route
+ *
+ * GET /api/tournaments/:id/ta/leaderboard
+ *
+ * Per-course rankings, provisional points, projected final-points ranges and
+ * cut-line bubble flags for the TA qualification while times are still being
+ * entered (live-leaderboard.ts). Public like GET /ta, which already exposes
+ * the same times; the leaderboard page polls it, so it answers 304 when the
+ * times have not changed.
+ */
+import { NextRequest } from 'next/server';
+import prisma from '@/lib/prisma';
+import { PLAYER_PUBLIC_SELECT } from '@/lib/prisma-selects';
+import { createLogger } from '@/lib/logger';
+import { resolveTournament } from '@/lib/tournament-identifier';
+import { generateETag } from '@/lib/standings-cache';
+import { createErrorResponse, createSuccessResponse } from '@/lib/error-handling';
+import { buildTaLiveLeaderboard } from '@/lib/ta/live-leaderboard';
+import { readStoredTaFinalsRules } from '@/lib/ta/finals-rules';
+
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const logger = createLogger('ta-leaderboard-api');
+  const { id } = await params;
+
+  try {
+    const tournament = await resolveTournament(id, { id: true, taFinalsRules: true });
+    if (!tournament) {
+      return createErrorResponse('Tournament not found', 404, 'NOT_FOUND');
+    }
+
+    const entries = await prisma.tTEntry.findMany({
+      where: { tournamentId: tournament.id as string, stage: 'qualification' },
+      select: { id: true, playerId: true, times: true, player: { select: PLAYER_PUBLIC_SELECT } },
+    });
+
+    const leaderboard = buildTaLiveLeaderboard(
+      entries.map((entry) => ({ ...entry, times: entry.times as Record<string, string> | null })),
+      readStoredTaFinalsRules(tournament.taFinalsRules),
+    );
+    const etag = generateETag([leaderboard]);
+    const ifNoneMatch = request.headers.get('if-none-match');
+    if (ifNoneMatch && ifNoneMatch !== '*' && ifNoneMatch === etag) {
+      return new Response(null, {
+        status: 304,
+        headers: { ETag: etag, 'Cache-Control': 'private, max-age=0, must-revalidate' },
+      });
+    }
+
+    const response = createSuccessResponse(leaderboard);
+    if (response && (response as Response).headers && typeof (response as Response).headers.set === 'function') {
+      (response as Response).headers.set('ETag', etag);
+      (response as Response).headers.set('Cache-Control', 'private, max-age=0, must-revalidate');
+    }
+    return response;
+  } catch (error) {
+    logger.error('Failed to build TA leaderboard', { error, tournamentIdentifier: id });
+    return createErrorResponse('Failed to build TA leaderboard', 500, 'INTERNAL_ERROR');
+  }
+}
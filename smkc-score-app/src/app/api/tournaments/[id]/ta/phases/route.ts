@@ -6,6 +6,9 @@
  * - Phase 2: Phase 1 survivors + ranks 13-16, 8→4 players, single elimination
  * - Phase 3: Phase 2 survivors + ranks 1-12, 16→1 player, life-based elimination
  *
+ * Those are the rulebook defaults; a tournament's stored finals rule set
+ * (Tournament.taFinalsRules, finals-rules.ts) overrides them.
+ *
  * Endpoints:
  * - GET:  Fetch phase status, entries, rounds, and available courses
  * - POST: Promote players to phases, start rounds, or submit round results
@@ -21,11 +24,16 @@ import { PLAYER_PUBLIC_SELECT } from '@/lib/prisma-selects';
 import prisma from '@/lib/prisma';
 import { getClientIdentifier, getUserAgent } from '@/lib/request-utils';
 import { sanitizeInput } from '@/lib/sanitize';
-import { requireAdminSession } from '@/lib/api-auth';
+import { requireTournamentPermission } from '@/lib/api-auth';
 import { z } from 'zod';
 import { createLogger } from '@/lib/logger';
 import { retryDbRead } from '@/lib/db-read-retry';
-import { createSuccessResponse, createErrorResponse, handleValidationError } from '@/lib/error-handling';
+import {
+  createSuccessResponse,
+  createErrorResponse,
+  handleAuthzError,
+  handleValidationError,
+} from '@/lib/error-handling';
 import {
   promoteToPhase1,
   promoteToPhase2,
@@ -47,9 +55,11 @@ import { getAvailableCourses, getPlayedCoursesWithSuddenDeath } from '@/lib/ta/c
 import { checkStageFrozen } from '@/lib/ta/freeze-check';
 import { RETRY_PENALTY_MS } from '@/lib/constants';
 import { resolveTournamentId } from '@/lib/tournament-identifier';
+import { withTournamentChangePublish } from '@/lib/tournament-events';
 import { resolveAuditUserId } from '@/lib/audit-log';
 import { readTournamentArchive } from '@/lib/tournament-archive';
 import { buildPhase3RulesDto } from '@/lib/ta/phase-rules-dto';
+import { readStoredTaFinalsRules } from '@/lib/ta/finals-rules';
 import { TA_HANDICAP_SECONDS } from '@/lib/ta/battle-royale';
 import { TA_ROUND_LIFE_LOSS_MIN, TA_ROUND_LIFE_LOSS_MAX } from '@/lib/ta/battle-royale-constants';
 import { normalizeTaRoundResults } from '@/lib/ta/round-result';
@@ -514,9 +524,11 @@ export async function GET(request: NextRequest, { params }: { params: Promise<{
         }),
     });
 
+    const finalsRules = readStoredTaFinalsRules(tournament.taFinalsRules);
     const response: TaPhaseResponse = {
       phaseStatus,
-      ...buildPhase3RulesDto(tournament.taBattleRoyaleMode === true),
+      ...buildPhase3RulesDto(tournament.taBattleRoyaleMode === true, finalsRules),
+      taFinalsRules: finalsRules,
       frozenStages: Array.isArray(tournament.frozenStages)
         ? (tournament.frozenStages as unknown[]).filter((stage): stage is string => typeof stage === 'string')
         : [],
@@ -652,7 +664,7 @@ export async function GET(request: NextRequest, { params }: { params: Promise<{
  * POST /api/tournaments/[id]/ta/phases
  *
  * Action-based mutation endpoint for finals phase management.
- * All actions require admin authentication.
+ * Requires an admin or a tournament TA operator; reset_phase is admin-only.
  *
  * Actions:
  * - promote_phase1: Promote qualification ranks 17-24 to Phase 1
@@ -661,13 +673,13 @@ export async function GET(request: NextRequest, { params }: { params: Promise<{
  * - start_round: Select random course and create a new round
  * - submit_results: Submit player times and trigger elimination
  */
-export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+async function handlePOST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
   const logger = createLogger('ta-phases-api');
   const { id } = await params;
   const tournamentId = await resolveTournamentId(id);
 
-  // Require admin authentication
-  const { error: authError, session } = await requireAdminSession();
+  // Require an admin or a TA operator of this tournament
+  const { error: authError, session } = await requireTournamentPermission(id, 'ta');
   if (authError) return authError;
 
   try {
@@ -689,12 +701,14 @@ export async function POST(request: NextRequest, { params }: { params: Promise<{
     }
 
     // Build context for audit logging and phase operations
+    const finalsRules = readStoredTaFinalsRules(tournament.taFinalsRules);
     const context: PhaseContext = {
       tournamentId,
       userId: resolveAuditUserId(session),
       ipAddress: getClientIdentifier(request),
       userAgent: getUserAgent(request),
       taBattleRoyaleMode: tournament.taBattleRoyaleMode,
+      taFinalsRules: finalsRules,
     };
 
     const action = parsed.data.action;
@@ -742,10 +756,15 @@ export async function POST(request: NextRequest, { params }: { params: Promise<{
       // Prevent starting rounds in a frozen phase (admin locked after completion)
       const freezeError = await checkStageFrozen(prisma, tournamentId, phase);
       if (freezeError) return freezeError;
-      // A non-default lifeLoss only makes sense for TA battle royale Phase 3
-      // (docs/ta-battle-royale-operations.ja.md): standard TA keeps a fixed
-      // 1-life-per-round rule, and phase1/2 have no life system at all.
-      if (lifeLoss !== undefined && lifeLoss !== 1 && !(phase === 'phase3' && tournament.taBattleRoyaleMode)) {
+      // A per-round lifeLoss only makes sense for TA battle royale Phase 3
+      // (docs/ta-battle-royale-operations.ja.md): standard TA rounds cost the
+      // rule set's phase3.lifeLoss, and phase1/2 have no life system at all.
+      const defaultLifeLoss = phase === 'phase3' ? finalsRules.phase3.lifeLoss : 1;
+      if (
+        lifeLoss !== undefined &&
+        lifeLoss !== defaultLifeLoss &&
+        !(phase === 'phase3' && tournament.taBattleRoyaleMode)
+      ) {
         return createErrorResponse(
           'Custom lifeLoss is only allowed for TA battle royale Phase 3 rounds',
           400,
@@ -785,6 +804,8 @@ export async function POST(request: NextRequest, { params }: { params: Promise<{
     }
 
     if (action === 'reset_phase') {
+      // Wiping a whole phase is not delegated to TA operators
+      if (session?.user?.role !== 'admin') return handleAuthzError();
       const { phase } = parsed.data;
       // Same frozen-stage guard as the other phase mutations above: a stage
       // an admin has explicitly locked should not be resettable either.
@@ -872,3 +893,6 @@ export async function POST(request: NextRequest, { params }: { params: Promise<{
     );
   }
 }
+
+/* Successful phase actions notify live views subscribed to the tournament event stream. */
+export const POST = withTournamentChangePublish('ta', handlePOST);
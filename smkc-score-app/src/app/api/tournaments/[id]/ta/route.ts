@@ -28,6 +28,7 @@ import { getClientIdentifier, getUserAgent } from '@/lib/request-utils';
 import { sanitizeInput } from '@/lib/sanitize';
 import { z } from 'zod';
 import { requireAdminSession, requireAdminOrPlayerSession } from '@/lib/api-auth';
+import { hasTournamentPermission } from '@/lib/tournament-staff';
 import { COURSES, type CourseAbbr } from '@/lib/constants';
 import { recalculateRanks, rerankStageAfterDelete } from '@/lib/ta/rank-calculation';
 import { timeToMs, TimesObjectSchema } from '@/lib/ta/time-utils';
@@ -36,14 +37,17 @@ import { createLogger } from '@/lib/logger';
 import { checkStageFrozen } from '@/lib/ta/freeze-check';
 import { createErrorResponse, createSuccessResponse } from '@/lib/error-handling';
 import { resolveTournamentId, resolveTournament } from '@/lib/tournament-identifier';
+import { withTournamentChangePublish } from '@/lib/tournament-events';
 import { withApiTiming } from '@/lib/perf/api-timing';
 import { getArchivedModePayload, readTournamentArchive, type TournamentArchiveBundle } from '@/lib/tournament-archive';
 import { getTaPhase3Rules, normalizeTaHandicapSeconds, type TaHandicapSeconds } from '@/lib/ta/battle-royale';
+import { readStoredTaFinalsRules } from '@/lib/ta/finals-rules';
 import {
   TaEntryNotFoundError,
   TaHandicapUpdateConflictError,
   updateQualificationHandicaps,
 } from '@/lib/ta/handicap-service';
+import { getApprovedRegistrationPlayerIds } from '@/lib/tournament-registration';
 
 const KNOCKOUT_STAGES = ['phase1', 'phase2', 'phase3'] as const;
 
@@ -233,11 +237,19 @@ async function handleGET(request: NextRequest, { params }: { params: Promise<{ i
       hasKnockoutStageStarted(tournamentId),
     ]);
 
+    /* Approved self-registrations pre-fill the setup dialog until the first
+     * qualification entry is saved. */
+    const registrationPlayerIds =
+      stageToQuery === 'qualification' && qualCount === 0
+        ? await getApprovedRegistrationPlayerIds(tournamentId, 'ta')
+        : [];
+
     return createSuccessResponse({
       entries,
       courses: COURSES,
       stage: stageToQuery,
       qualCount,
+      ...(registrationPlayerIds.length > 0 && { registrationPlayerIds }),
       qualificationRegistrationLocked: knockoutStarted,
       qualificationEditingLockedForPlayers: knockoutStarted,
       // Return frozen stages so the UI can disable editing for frozen phases
@@ -269,7 +281,7 @@ export const GET = (...args: Parameters<typeof handleGET>): ReturnType<typeof ha
  * qualification scoring fields after a scoring-rule deployment.
  * For promotion to finals phases, use POST /api/tournaments/[id]/ta/phases.
  */
-export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+async function handlePOST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
   // Logger created inside function for proper test mocking
   const logger = createLogger('ta-api');
   const { id } = await params;
@@ -463,7 +475,7 @@ export async function POST(request: NextRequest, { params }: { params: Promise<{
   }
 }
 
-export async function PATCH(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+async function handlePATCH(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
   const logger = createLogger('ta-api');
   const authResult = await requireAdminSession();
   if (authResult.error) return authResult.error;
@@ -538,7 +550,7 @@ export async function PATCH(request: NextRequest, { params }: { params: Promise<
  *
  * After any update, ranks are automatically recalculated for the affected stage.
  */
-export async function PUT(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+async function handlePUT(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
   // Logger created inside function for proper test mocking
   const logger = createLogger('ta-api');
   const { id } = await params;
@@ -638,17 +650,17 @@ export async function PUT(request: NextRequest, { params }: { params: Promise<{
       const livesFreeze = await checkStageFrozen(prisma, tournamentId, entry.stage);
       if (livesFreeze) return livesFreeze;
 
-      const phase3Rules =
+      const phase3Tournament =
         entry.stage === 'phase3'
-          ? getTaPhase3Rules(
-              (
-                await prisma.tournament.findUnique({
-                  where: { id: tournamentId },
-                  select: { taBattleRoyaleMode: true },
-                })
-              )?.taBattleRoyaleMode === true,
-            )
-          : getTaPhase3Rules(false);
+          ? await prisma.tournament.findUnique({
+              where: { id: tournamentId },
+              select: { taBattleRoyaleMode: true, taFinalsRules: true },
+            })
+          : null;
+      const phase3Rules = getTaPhase3Rules(
+        phase3Tournament?.taBattleRoyaleMode === true,
+        readStoredTaFinalsRules(phase3Tournament?.taFinalsRules),
+      );
       const updatedEntry = await prisma.tTEntry.update({
         where: { id: entryId },
         data: action === 'reset_lives' ? { lives: phase3Rules.initialLives } : { lives: { increment: livesDelta } },
@@ -911,8 +923,8 @@ export async function PUT(request: NextRequest, { params }: { params: Promise<{
 
     // Ownership check: players can update their own entry OR their partner's entry.
     // §3.1: Partners can enter each other's times during pair running.
-    // Admins can update any entry.
-    if (authResult.session!.user.role !== 'admin') {
+    // Admins and the tournament's TA operators can update any entry.
+    if (!(await hasTournamentPermission(authResult.session, tournamentId, 'ta'))) {
       const currentPlayerId = authResult.session!.user.playerId;
       if (!currentPlayerId) {
         return createErrorResponse('Player ID not found in session', 401);
@@ -1040,7 +1052,7 @@ export async function PUT(request: NextRequest, { params }: { params: Promise<{
  * Query parameters:
  * - entryId: UUID of the entry to delete (required)
  */
-export async function DELETE(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+async function handleDELETE(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
   // Logger created inside function for proper test mocking
   const logger = createLogger('ta-api');
   const { id } = await params;
@@ -1112,3 +1124,9 @@ export async function DELETE(request: NextRequest, { params }: { params: Promise
     return createErrorResponse('Failed to delete entry', 500, 'INTERNAL_ERROR');
   }
 }
+
+/* Successful writes notify live views subscribed to the tournament event stream. */
+export const POST = withTournamentChangePublish('ta', handlePOST);
+export const PATCH = withTournamentChangePublish('ta', handlePATCH);
+export const PUT = withTournamentChangePublish('ta', handlePUT);
+export const DELETE = withTournamentChangePublish('ta', handleDELETE);
@@ -0,0 +1,146 @@
+/**
+ * Team Ranking API Route
+ *
+ * GET /api/tournaments/:id/team-ranking - Team standings and settings
+ * PUT /api/tournaments/:id/team-ranking - Enable, disable or configure team standings (admin only)
+ *
+ * Team points are derived from the stored overall ranking (see
+ * team-ranking.ts), so standings follow the last overall ranking POST.
+ *
+ * Authentication: GET requires the overall section to be public unless the
+ * caller is admin, like the overall ranking it is built from.
+ */
+import { NextRequest } from 'next/server';
+import { Prisma } from '@prisma/client';
+import prisma from '@/lib/prisma';
+import { auth } from '@/lib/auth';
+import { createAuditLog, AUDIT_ACTIONS, resolveAuditUserId } from '@/lib/audit-log';
+import { checkRateLimit } from '@/lib/rate-limit';
+import { getClientIdentifier, getUserAgent } from '@/lib/request-utils';
+import { sanitizeInput } from '@/lib/sanitize';
+import { createLogger } from '@/lib/logger';
+import { resolveTournament } from '@/lib/tournament-identifier';
+import {
+  createErrorResponse,
+  createSuccessResponse,
+  handleAuthzError,
+  handleRateLimitError,
+  handleValidationError,
+} from '@/lib/error-handling';
+import {
+  getTeamRankings,
+  parseTeamSettings,
+  readStoredTeamSettings,
+  TeamRankingError,
+} from '@/lib/points/team-ranking';
+
+/**
+ * GET /api/tournaments/:id/team-ranking
+ *
+ * Returns `settings: null` and no rankings while team standings are off.
+ */
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const logger = createLogger('team-ranking-api');
+  const { id } = await params;
+
+  try {
+    const tournament = await resolveTournament(id, {
+      id: true,
+      name: true,
+      publicModes: true,
+      teamSettings: true,
+      teamRankingUpdatedAt: true,
+    });
+    if (!tournament) {
+      return createErrorResponse('Tournament not found', 404, 'NOT_FOUND');
+    }
+    const session = await auth();
+    const isAdmin = session?.user?.role === 'admin';
+    const publicModes = (tournament.publicModes as string[]) || [];
+    if (!isAdmin && !publicModes.includes('overall')) {
+      return handleAuthzError('Team ranking is not public');
+    }
+
+    const tournamentId = tournament.id as string;
+    const settings = readStoredTeamSettings(tournament.teamSettings);
+    const rankings = settings ? await getTeamRankings(prisma, tournamentId, settings) : [];
+    const updatedAt = tournament.teamRankingUpdatedAt as Date | null;
+
+    return createSuccessResponse({
+      tournamentId,
+      tournamentName: tournament.name,
+      settings,
+      lastUpdated: updatedAt ? updatedAt.toISOString() : null,
+      rankings,
+    });
+  } catch (error) {
+    logger.error('Failed to fetch team rankings', { error, tournamentIdentifier: id });
+    return createErrorResponse('Failed to fetch team rankings', 500, 'INTERNAL_ERROR');
+  }
+}
+
+/**
+ * PUT /api/tournaments/:id/team-ranking
+ *
+ * Request body:
+ *   - enabled (boolean, optional) - false turns team standings off
+ *   - grouping ("country" | "explicit"), rule ("best_n_total" | "best_n_per_mode"),
+ *     bestN (1-10) - optional; omitted values keep the saved settings, then defaults
+ */
+export async function PUT(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const logger = createLogger('team-ranking-api');
+  const session = await auth();
+  if (!session?.user || session.user.role !== 'admin') {
+    return handleAuthzError();
+  }
+
+  const clientIp = getClientIdentifier(request);
+  const rateResult = await checkRateLimit('general', clientIp);
+  if (!rateResult.success) {
+    return handleRateLimitError(rateResult.retryAfter);
+  }
+
+  const { id } = await params;
+  try {
+    const tournament = await resolveTournament(id, { id: true, teamSettings: true });
+    if (!tournament) {
+      return createErrorResponse('Tournament not found', 404, 'NOT_FOUND');
+    }
+    const tournamentId = tournament.id as string;
+    const body = sanitizeInput(await request.json());
+    if (body.enabled !== undefined && typeof body.enabled !== 'boolean') {
+      return handleValidationError('enabled must be a boolean', 'enabled');
+    }
+
+    const current = readStoredTeamSettings(tournament.teamSettings);
+    const settings = body.enabled === false ? null : parseTeamSettings(body, current ?? undefined);
+    await prisma.tournament.update({
+      where: { id: tournamentId },
+      data: { teamSettings: settings ?? Prisma.DbNull, teamRankingUpdatedAt: new Date() },
+    });
+
+    createAuditLog({
+      userId: resolveAuditUserId(session),
+      ipAddress: clientIp,
+      userAgent: getUserAgent(request),
+      action: AUDIT_ACTIONS.UPDATE_TEAM_SETTINGS,
+      targetId: tournamentId,
+      targetType: 'Tournament',
+      details: { previous: current, settings },
+    }).catch((err) =>
+      logger.warn('Failed to create audit log', {
+        error: err,
+        tournamentId,
+        action: 'update_team_settings',
+      }),
+    );
+
+    return createSuccessResponse({ settings }, settings ? 'Team settings saved' : 'Team standings disabled');
+  } catch (error) {
+    if (error instanceof TeamRankingError) {
+      return handleValidationError(error.message, error.field);
+    }
+    logger.error('Failed to save team settings', { error, tournamentIdentifier: id });
+    return createErrorResponse('Failed to save team settings', 500, 'INTERNAL_ERROR');
+  }
+}
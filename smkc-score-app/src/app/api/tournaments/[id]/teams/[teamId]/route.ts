@@ -0,0 +1,169 @@
+/**
+ * Team API Route
+ *
+ * PUT    /api/tournaments/:id/teams/:teamId - Rename a team or replace its members (admin only)
+ * DELETE /api/tournaments/:id/teams/:teamId - Delete a team and its memberships (admin only)
+ */
+import { NextRequest } from 'next/server';
+import prisma from '@/lib/prisma';
+import { auth } from '@/lib/auth';
+import { createAuditLog, AUDIT_ACTIONS, resolveAuditUserId } from '@/lib/audit-log';
+import { checkRateLimit } from '@/lib/rate-limit';
+import { getClientIdentifier, getUserAgent } from '@/lib/request-utils';
+import { sanitizeInput } from '@/lib/sanitize';
+import { createLogger } from '@/lib/logger';
+import { resolveTournament } from '@/lib/tournament-identifier';
+import {
+  createErrorResponse,
+  createSuccessResponse,
+  handleAuthzError,
+  handleRateLimitError,
+  handleValidationError,
+} from '@/lib/error-handling';
+import {
+  findUnknownPlayerIds,
+  parseTeamInput,
+  TEAM_WITH_MEMBERS_INCLUDE,
+  TeamRankingError,
+} from '@/lib/points/team-ranking';
+
+type TeamRouteParams = { params: Promise<{ id: string; teamId: string }> };
+
+/** The team when it belongs to the tournament identified by id or slug. */
+async function findTeam(id: string, teamId: string) {
+  const tournament = await resolveTournament(id, { id: true });
+  if (!tournament) return null;
+  return prisma.team.findFirst({
+    where: { id: teamId, tournamentId: tournament.id as string },
+    include: { members: { select: { playerId: true } } },
+  });
+}
+
+/**
+ * PUT /api/tournaments/:id/teams/:teamId
+ *
+ * Request body: the full team (name, country, playerIds) as for POST; the
+ * member list replaces the current one.
+ */
+export async function PUT(request: NextRequest, { params }: TeamRouteParams) {
+  const logger = createLogger('teams-api');
+  const session = await auth();
+  if (!session?.user || session.user.role !== 'admin') {
+    return handleAuthzError();
+  }
+
+  const clientIp = getClientIdentifier(request);
+  const rateResult = await checkRateLimit('general', clientIp);
+  if (!rateResult.success) {
+    return handleRateLimitError(rateResult.retryAfter);
+  }
+
+  const { id, teamId } = await params;
+  try {
+    const existing = await findTeam(id, teamId);
+    if (!existing) {
+      return createErrorResponse('Team not found', 404, 'NOT_FOUND');
+    }
+    const input = parseTeamInput(sanitizeInput(await request.json()));
+    const unknownPlayerIds = await findUnknownPlayerIds(prisma, input.playerIds);
+    if (unknownPlayerIds.length > 0) {
+      return handleValidationError(`Unknown player: ${unknownPlayerIds.join(', ')}`, 'playerIds');
+    }
+
+    const tournamentId = existing.tournamentId;
+    const team = await prisma.team.update({
+      where: { id: teamId },
+      data: {
+        name: input.name,
+        country: input.country,
+        members: {
+          deleteMany: {},
+          create: input.playerIds.map((playerId) => ({ tournamentId, playerId })),
+        },
+      },
+      include: TEAM_WITH_MEMBERS_INCLUDE,
+    });
+    await prisma.tournament.update({ where: { id: tournamentId }, data: { teamRankingUpdatedAt: new Date() } });
+
+    createAuditLog({
+      userId: resolveAuditUserId(session),
+      ipAddress: clientIp,
+      userAgent: getUserAgent(request),
+      action: AUDIT_ACTIONS.UPDATE_TEAM,
+      targetId: teamId,
+      targetType: 'Team',
+      details: {
+        tournamentId,
+        previous: {
+          name: existing.name,
+          country: existing.country,
+          playerIds: existing.members.map((member) => member.playerId),
+        },
+        ...input,
+      },
+    }).catch((err) =>
+      logger.warn('Failed to create audit log', {
+        error: err,
+        teamId,
+        action: 'update_team',
+      }),
+    );
+
+    return createSuccessResponse(team, 'Team updated');
+  } catch (error) {
+    if (error instanceof TeamRankingError) {
+      return handleValidationError(error.message, error.field);
+    }
+    if (error && typeof error === 'object' && 'code' in error && error.code === 'P2002') {
+      return createErrorResponse('Team name already exists or a player is already on another team', 409, 'CONFLICT');
+    }
+    logger.error('Failed to update team', { error, teamId });
+    return createErrorResponse('Failed to update team', 500, 'INTERNAL_ERROR');
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: TeamRouteParams) {
+  const logger = createLogger('teams-api');
+  const session = await auth();
+  if (!session?.user || session.user.role !== 'admin') {
+    return handleAuthzError();
+  }
+
+  const { id, teamId } = await params;
+  try {
+    const existing = await findTeam(id, teamId);
+    if (!existing) {
+      return createErrorResponse('Team not found', 404, 'NOT_FOUND');
+    }
+    await prisma.team.delete({ where: { id: teamId } });
+    await prisma.tournament.update({
+      where: { id: existing.tournamentId },
+      data: { teamRankingUpdatedAt: new Date() },
+    });
+
+    createAuditLog({
+      userId: resolveAuditUserId(session),
+      ipAddress: getClientIdentifier(request),
+      userAgent: getUserAgent(request),
+      action: AUDIT_ACTIONS.DELETE_TEAM,
+      targetId: teamId,
+      targetType: 'Team',
+      details: {
+        tournamentId: existing.tournamentId,
+        name: existing.name,
+        playerIds: existing.members.map((member) => member.playerId),
+      },
+    }).catch((err) =>
+      logger.warn('Failed to create audit log', {
+        error: err,
+        teamId,
+        action: 'delete_team',
+      }),
+    );
+
+    return createSuccessResponse({ id: teamId }, 'Team deleted');
+  } catch (error) {
+    logger.error('Failed to delete team', { error, teamId });
+    return createErrorResponse('Failed to delete team', 500, 'INTERNAL_ERROR');
+  }
+}
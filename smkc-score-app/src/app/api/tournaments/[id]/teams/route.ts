@@ -0,0 +1,134 @@
+/**
+ * Teams Collection API Route
+ *
+ * GET  /api/tournaments/:id/teams - Explicit teams with their members (admin only)
+ * POST /api/tournaments/:id/teams - Create an explicit team (admin only)
+ *
+ * Explicit teams are only scored when Tournament.teamSettings.grouping is
+ * "explicit"; country teams are built on the fly and never stored.
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { auth } from '@/lib/auth';
+import { createAuditLog, AUDIT_ACTIONS, resolveAuditUserId } from '@/lib/audit-log';
+import { checkRateLimit } from '@/lib/rate-limit';
+import { getClientIdentifier, getUserAgent } from '@/lib/request-utils';
+import { sanitizeInput } from '@/lib/sanitize';
+import { createLogger } from '@/lib/logger';
+import { resolveTournament } from '@/lib/tournament-identifier';
+import {
+  createErrorResponse,
+  createSuccessResponse,
+  handleAuthzError,
+  handleRateLimitError,
+  handleValidationError,
+} from '@/lib/error-handling';
+import {
+  findUnknownPlayerIds,
+  parseTeamInput,
+  TEAM_WITH_MEMBERS_INCLUDE,
+  TeamRankingError,
+} from '@/lib/points/team-ranking';
+
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const logger = createLogger('teams-api');
+  const session = await auth();
+  if (!session?.user || session.user.role !== 'admin') {
+    return handleAuthzError();
+  }
+
+  const { id } = await params;
+  try {
+    const tournament = await resolveTournament(id, { id: true });
+    if (!tournament) {
+      return createErrorResponse('Tournament not found', 404, 'NOT_FOUND');
+    }
+    const teams = await prisma.team.findMany({
+      where: { tournamentId: tournament.id as string },
+      include: TEAM_WITH_MEMBERS_INCLUDE,
+      orderBy: { name: 'asc' },
+    });
+    return createSuccessResponse(teams);
+  } catch (error) {
+    logger.error('Failed to fetch teams', { error, tournamentIdentifier: id });
+    return createErrorResponse('Failed to fetch teams', 500, 'INTERNAL_ERROR');
+  }
+}
+
+/**
+ * POST /api/tournaments/:id/teams
+ *
+ * Request body:
+ *   - name (string, required) - Unique within the tournament
+ *   - country (ISO alpha-2 code, optional) - Flag shown next to the team
+ *   - playerIds (string[], optional) - A player can be on one team per tournament
+ *
+ * Error responses:
+ *   400 - Invalid body or unknown player
+ *   409 - Team name taken or a player is already on another team
+ */
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const logger = createLogger('teams-api');
+  const session = await auth();
+  if (!session?.user || session.user.role !== 'admin') {
+    return handleAuthzError();
+  }
+
+  const clientIp = getClientIdentifier(request);
+  const rateResult = await checkRateLimit('general', clientIp);
+  if (!rateResult.success) {
+    return handleRateLimitError(rateResult.retryAfter);
+  }
+
+  const { id } = await params;
+  try {
+    const tournament = await resolveTournament(id, { id: true });
+    if (!tournament) {
+      return createErrorResponse('Tournament not found', 404, 'NOT_FOUND');
+    }
+    const tournamentId = tournament.id as string;
+    const input = parseTeamInput(sanitizeInput(await request.json()));
+    const unknownPlayerIds = await findUnknownPlayerIds(prisma, input.playerIds);
+    if (unknownPlayerIds.length > 0) {
+      return handleValidationError(`Unknown player: ${unknownPlayerIds.join(', ')}`, 'playerIds');
+    }
+
+    const team = await prisma.team.create({
+      data: {
+        tournamentId,
+        name: input.name,
+        country: input.country,
+        members: { create: input.playerIds.map((playerId) => ({ tournamentId, playerId })) },
+      },
+      include: TEAM_WITH_MEMBERS_INCLUDE,
+    });
+    await prisma.tournament.update({ where: { id: tournamentId }, data: { teamRankingUpdatedAt: new Date() } });
+
+    createAuditLog({
+      userId: resolveAuditUserId(session),
+      ipAddress: clientIp,
+      userAgent: getUserAgent(request),
+      action: AUDIT_ACTIONS.CREATE_TEAM,
+      targetId: team.id,
+      targetType: 'Team',
+      details: { tournamentId, ...input },
+    }).catch((err) =>
+      logger.warn('Failed to create audit log', {
+        error: err,
+        teamId: team.id,
+        action: 'create_team',
+      }),
+    );
+
+    return NextResponse.json({ success: true, data: team }, { status: 201 });
+  } catch (error) {
+    if (error instanceof TeamRankingError) {
+      return handleValidationError(error.message, error.field);
+    }
+    if (error && typeof error === 'object' && 'code' in error && error.code === 'P2002') {
+      return createErrorResponse('Team name already exists or a player is already on another team', 409, 'CONFLICT');
+    }
+    logger.error('Failed to create team', { error, tournamentIdentifier: id });
+    return createErrorResponse('Failed to create team', 500, 'INTERNAL_ERROR');
+  }
+}
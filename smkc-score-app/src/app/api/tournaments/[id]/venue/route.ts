@@ -0,0 +1,282 @@
+/**
+ * Venue Call Queue API Route
+ *
+ * GET  /api/tournaments/:id/venue - Now playing / up next per TV (public)
+ * POST /api/tournaments/:id/venue - Call or un-call a match (admin only)
+ *
+ * The queue is derived from incomplete qualification and finals matches that
+ * have a TV assigned (see venue-queue.ts). GET carries an ETag and answers
+ * 304 on If-None-Match, like the qualification routes, so the venue screen
+ * can poll it every few seconds. Only nicknames are exposed — the same data
+ * the public match pages already show.
+ *
+ * Calling a match stamps `calledAt`, which moves it to the head of its TV's
+ * queue and surfaces a `match_called` event on the OBS overlay.
+ *
+ * With `?qr=1` and an admin session (the venue monitor is run by staff), the
+ * qualification match now playing on each TV also carries `reportUrls`: per-side deep links
+ * with a short-lived match report token (match-report-token.ts) for the QR
+ * codes on the screen. Tokens are windowed so the ETag holds between polls.
+ */
+import { NextRequest } from 'next/server';
+import prisma from '@/lib/prisma';
+import { auth } from '@/lib/auth';
+import { AUDIT_ACTIONS, createAuditLog, resolveAuditUserId } from '@/lib/audit-log';
+import { getClientIdentifier, getUserAgent } from '@/lib/request-utils';
+import { sanitizeInput } from '@/lib/sanitize';
+import { createLogger } from '@/lib/logger';
+import { resolveTournament } from '@/lib/tournament-identifier';
+import { generateETag } from '@/lib/standings-cache';
+import { BREAK_PLAYER_ID } from '@/lib/round-robin';
+import {
+  createErrorResponse,
+  createSuccessResponse,
+  handleAuthzError,
+  handleValidationError,
+} from '@/lib/error-handling';
+import {
+  buildVenueQueue,
+  VENUE_QUEUE_MODES,
+  type VenueQueueMatch,
+  type VenueQueueMode,
+  type VenueTvQueue,
+} from '@/lib/venue-queue';
+import {
+  buildMatchReportPath,
+  createMatchReportToken,
+  getMatchReportTokenExpiry,
+  VENUE_TOKEN_TTL_SECONDS,
+} from '@/lib/match-report-token';
+
+const MATCH_MODELS = { bm: 'bMMatch', mr: 'mRMatch', gp: 'gPMatch' } as const;
+
+type QueueRow = {
+  id: string;
+  stage: string;
+  round: string | null;
+  matchNumber: number;
+  roundNumber: number | null;
+  tvNumber: number | null;
+  scheduledStartAt: Date | null;
+  calledAt: Date | null;
+  player1Id: string | null;
+  player2Id: string | null;
+  player1: { nickname: string } | null;
+  player2: { nickname: string } | null;
+};
+
+type MatchDelegate = {
+  findMany: (args: Record<string, unknown>) => Promise<QueueRow[]>;
+  findFirst: (args: Record<string, unknown>) => Promise<{ id: string; completed: boolean } | null>;
+  update: (args: Record<string, unknown>) => Promise<unknown>;
+};
+
+function matchModel(mode: VenueQueueMode): MatchDelegate {
+  return (prisma as unknown as Record<string, MatchDelegate>)[MATCH_MODELS[mode]];
+}
+
+function isVenueQueueMode(value: unknown): value is VenueQueueMode {
+  return typeof value === 'string' && (VENUE_QUEUE_MODES as readonly string[]).includes(value);
+}
+
+type QueuedMatches = {
+  matches: VenueQueueMatch[];
+  /** Match ID → [player1Id, player2Id], for report tokens; not sent to clients. */
+  playerIds: Map<string, [string, string]>;
+};
+
+/* BREAK rows and unfilled finals slots never reach a TV. */
+async function loadQueuedMatches(tournamentId: string): Promise<QueuedMatches> {
+  const rowsByMode = await Promise.all(
+    VENUE_QUEUE_MODES.map((mode) =>
+      matchModel(mode).findMany({
+        where: {
+          tournamentId,
+          stage: { in: ['qualification', 'playoff', 'finals'] },
+          completed: false,
+          isBye: false,
+          tvNumber: { not: null },
+          AND: [
+            { player1Id: { not: null } },
+            { player1Id: { not: BREAK_PLAYER_ID } },
+            { player2Id: { not: null } },
+            { player2Id: { not: BREAK_PLAYER_ID } },
+          ],
+        },
+        select: {
+          id: true,
+          stage: true,
+          round: true,
+          matchNumber: true,
+          roundNumber: true,
+          tvNumber: true,
+          scheduledStartAt: true,
+          calledAt: true,
+          player1Id: true,
+          player2Id: true,
+          player1: { select: { nickname: true } },
+          player2: { select: { nickname: true } },
+        },
+      }),
+    ),
+  );
+
+  const playerIds = new Map<string, [string, string]>();
+  for (const row of rowsByMode.flat()) {
+    if (row.player1Id && row.player2Id) playerIds.set(row.id, [row.player1Id, row.player2Id]);
+  }
+
+  const matches = rowsByMode.flatMap((rows, index) =>
+    rows
+      .filter((row) => row.tvNumber !== null)
+      .map((row) => ({
+        id: row.id,
+        mode: VENUE_QUEUE_MODES[index],
+        stage: row.stage,
+        round: row.round,
+        matchNumber: row.matchNumber,
+        roundNumber: row.roundNumber,
+        tvNumber: row.tvNumber as number,
+        player1Nickname: row.player1?.nickname ?? '',
+        player2Nickname: row.player2?.nickname ?? '',
+        scheduledStartAt: row.scheduledStartAt ? new Date(row.scheduledStartAt).toISOString() : null,
+        calledAt: row.calledAt ? new Date(row.calledAt).toISOString() : null,
+      })),
+  );
+  return { matches, playerIds };
+}
+
+/**
+ * Attach per-side report links to the qualification match now playing on
+ * each TV. Finals are reported by staff, so they get no code.
+ */
+async function attachReportUrls(
+  tvs: VenueTvQueue[],
+  tournamentId: string,
+  playerIds: QueuedMatches['playerIds'],
+  origin: string,
+): Promise<void> {
+  const exp = getMatchReportTokenExpiry(VENUE_TOKEN_TTL_SECONDS);
+  for (const match of tvs.map((tv) => tv.nowPlaying)) {
+    const ids = match?.stage === 'qualification' ? playerIds.get(match.id) : undefined;
+    if (!match || !ids) continue;
+    const [token1, token2] = await Promise.all(
+      ids.map((playerId, index) =>
+        createMatchReportToken({ tournamentId, matchId: match.id, playerId, side: index === 0 ? 1 : 2, exp }),
+      ),
+    );
+    if (!token1 || !token2) continue;
+    match.reportUrls = {
+      player1: new URL(buildMatchReportPath(tournamentId, match.mode, match.id, token1), origin).toString(),
+      player2: new URL(buildMatchReportPath(tournamentId, match.mode, match.id, token2), origin).toString(),
+    };
+  }
+}
+
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const logger = createLogger('venue-queue-api');
+  const { id } = await params;
+
+  try {
+    const tournament = await resolveTournament(id, { id: true });
+    if (!tournament) {
+      return createErrorResponse('Tournament not found', 404, 'NOT_FOUND');
+    }
+
+    const tournamentId = tournament.id as string;
+    const { matches, playerIds } = await loadQueuedMatches(tournamentId);
+    const responseBody = { tvs: buildVenueQueue(matches) };
+    if (request.nextUrl.searchParams.get('qr') === '1') {
+      const session = await auth();
+      if (session?.user?.role === 'admin') {
+        await attachReportUrls(responseBody.tvs, tournamentId, playerIds, request.nextUrl.origin);
+      }
+    }
+    const etag = generateETag([responseBody]);
+    const ifNoneMatch = request.headers.get('if-none-match');
+    if (ifNoneMatch && ifNoneMatch !== '*' && ifNoneMatch === etag) {
+      return new Response(null, {
+        status: 304,
+        headers: { ETag: etag, 'Cache-Control': 'private, max-age=0, must-revalidate' },
+      });
+    }
+
+    const response = createSuccessResponse(responseBody);
+    if (response && (response as Response).headers && typeof (response as Response).headers.set === 'function') {
+      (response as Response).headers.set('ETag', etag);
+      (response as Response).headers.set('Cache-Control', 'private, max-age=0, must-revalidate');
+    }
+    return response;
+  } catch (error) {
+    logger.error('Failed to fetch venue queue', { error, tournamentIdentifier: id });
+    return createErrorResponse('Failed to fetch venue queue', 500, 'INTERNAL_ERROR');
+  }
+}
+
+/**
+ * POST /api/tournaments/:id/venue
+ *
+ * Request body:
+ *   - mode ("bm" | "mr" | "gp", required)
+ *   - matchId (string, required)
+ *   - called (boolean, optional, default true) - false clears the call
+ */
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const logger = createLogger('venue-queue-api');
+  const session = await auth();
+  if (!session?.user || session.user.role !== 'admin') {
+    return handleAuthzError();
+  }
+
+  const { id } = await params;
+  try {
+    const body = sanitizeInput(await request.json());
+    const { mode, matchId } = body;
+    const called = body.called ?? true;
+    if (!isVenueQueueMode(mode)) {
+      return handleValidationError('mode must be one of bm, mr, gp', 'mode');
+    }
+    if (typeof matchId !== 'string' || matchId.length === 0) {
+      return handleValidationError('matchId is required', 'matchId');
+    }
+    if (typeof called !== 'boolean') {
+      return handleValidationError('called must be a boolean', 'called');
+    }
+
+    const tournament = await resolveTournament(id, { id: true });
+    if (!tournament) {
+      return createErrorResponse('Tournament not found', 404, 'NOT_FOUND');
+    }
+    const tournamentId = tournament.id as string;
+
+    const model = matchModel(mode);
+    const match = await model.findFirst({
+      where: { id: matchId, tournamentId },
+      select: { id: true, completed: true },
+    });
+    if (!match) {
+      return createErrorResponse('Match not found', 404, 'NOT_FOUND');
+    }
+    if (called && match.completed) {
+      return createErrorResponse('Completed matches cannot be called', 409, 'CONFLICT');
+    }
+
+    const calledAt = called ? new Date() : null;
+    await model.update({ where: { id: matchId }, data: { calledAt } });
+
+    createAuditLog({
+      userId: resolveAuditUserId(session),
+      ipAddress: getClientIdentifier(request),
+      userAgent: getUserAgent(request),
+      action: AUDIT_ACTIONS.CALL_MATCH,
+      targetId: matchId,
+      targetType: `${mode.toUpperCase()}Match`,
+      details: { tournamentId, mode, called },
+    }).catch((err) => logger.warn('Failed to create audit log', { error: err, matchId, action: 'call_match' }));
+
+    return createSuccessResponse({ matchId, mode, calledAt: calledAt?.toISOString() ?? null });
+  } catch (error) {
+    logger.error('Failed to call match', { error, tournamentIdentifier: id });
+    return createErrorResponse('Failed to call match', 500, 'INTERNAL_ERROR');
+  }
+}
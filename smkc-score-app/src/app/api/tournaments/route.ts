@@ -12,6 +12,7 @@
  * activated before players can submit scores.
  */
 import { NextRequest, NextResponse } from 'next/server';
+import type { InputJsonValue } from '@prisma/client/runtime/library';
 import prisma from '@/lib/prisma';
 import { auth } from '@/lib/auth';
 import { createAuditLog, AUDIT_ACTIONS, resolveAuditUserId } from '@/lib/audit-log';
@@ -23,6 +24,13 @@ import { retryDbRead } from '@/lib/db-read-retry';
 import { isValidTournamentSlug, normalizeTournamentSlug } from '@/lib/tournament-identifier';
 import { readTournamentArchiveIndex } from '@/lib/tournament-archive';
 import { hasJsmkcIdentity } from '@/lib/cdm-archive-reconciliation-policy';
+import { TournamentTemplateError } from '@/lib/tournament-template';
+import { QUALIFICATION_SCHEDULE_METHODS } from '@/lib/round-robin';
+import {
+  createTemplateTaEntries,
+  prepareTournamentTemplate,
+  type PreparedTournamentTemplate,
+} from '@/lib/tournament-template-service';
 import {
   createSuccessResponse,
   createErrorResponse,
@@ -126,12 +134,18 @@ export async function GET(request: NextRequest) {
  * Request body:
  *   - name (string, required) - Tournament name (e.g., "JSMKC #42")
  *   - date (string, required) - Tournament date in ISO format
+ *   - templateId / sourceTournamentId (string, optional, at most one) -
+ *     start from a saved template or a past tournament. Settings, overlay
+ *     layout and finals presets are copied; explicit setting fields in the
+ *     body override the template's values. Scores are never copied.
+ *   - copyRoster (boolean, optional) - also copy group assignments and TA entries
  *
  * Response (201): Created tournament object
  *
  * Error responses:
  *   400 - Missing required fields (name or date)
  *   403 - Unauthorized (not admin)
+ *   404 - Template or source tournament not found
  *   500 - Server error
  */
 export async function POST(request: NextRequest) {
@@ -155,6 +169,9 @@ export async function POST(request: NextRequest) {
       taBattleRoyaleMode,
       debugMode,
       qualificationScheduleMethod,
+      templateId,
+      sourceTournamentId,
+      copyRoster,
     } = body;
     const slug = normalizeTournamentSlug(body.slug);
 
@@ -165,9 +182,12 @@ export async function POST(request: NextRequest) {
     if (taBattleRoyaleMode !== undefined && typeof taBattleRoyaleMode !== 'boolean') {
       return handleValidationError('taBattleRoyaleMode must be a boolean', 'taBattleRoyaleMode');
     }
-    if (qualificationScheduleMethod !== undefined && !['circle', 'cdm'].includes(qualificationScheduleMethod)) {
+    if (
+      qualificationScheduleMethod !== undefined &&
+      !(QUALIFICATION_SCHEDULE_METHODS as readonly string[]).includes(qualificationScheduleMethod)
+    ) {
       return handleValidationError(
-        'qualificationScheduleMethod must be "circle" or "cdm"',
+        'qualificationScheduleMethod must be "circle", "cdm" or "swiss"',
         'qualificationScheduleMethod',
       );
     }
@@ -175,6 +195,41 @@ export async function POST(request: NextRequest) {
     if (slug !== undefined && slug !== null && !isValidTournamentSlug(slug)) {
       return handleValidationError('Slug must contain only lowercase letters, numbers, and hyphens', 'slug');
     }
+    for (const [field, value] of [
+      ['templateId', templateId],
+      ['sourceTournamentId', sourceTournamentId],
+    ] as const) {
+      if (value !== undefined && value !== null && (typeof value !== 'string' || !value)) {
+        return handleValidationError(`${field} must be a non-empty string`, field);
+      }
+    }
+    if (templateId && sourceTournamentId) {
+      return handleValidationError('Use either templateId or sourceTournamentId, not both', 'templateId');
+    }
+    if (copyRoster !== undefined && typeof copyRoster !== 'boolean') {
+      return handleValidationError('copyRoster must be a boolean', 'copyRoster');
+    }
+
+    let template: PreparedTournamentTemplate | null = null;
+    if (templateId || sourceTournamentId) {
+      try {
+        template = await prepareTournamentTemplate({
+          templateId: templateId || undefined,
+          sourceTournamentId: sourceTournamentId || undefined,
+          copyRoster: copyRoster === true,
+        });
+      } catch (error) {
+        if (error instanceof TournamentTemplateError) {
+          return createErrorResponse(error.message, error.code === 'TEMPLATE_INVALID' ? 422 : 404, error.code);
+        }
+        throw error;
+      }
+    }
+    // Explicit body values win; otherwise fall back to the template, then to defaults.
+    const templateSettings = template?.config.settings;
+    const pick = (value: unknown, fallback: boolean | undefined) => (typeof value === 'boolean' ? value : fallback);
+    const scheduleMethod = qualificationScheduleMethod ?? templateSettings?.qualificationScheduleMethod;
+    const battleRoyaleMode = pick(taBattleRoyaleMode, templateSettings?.taBattleRoyaleMode) === true;
 
     // Create the tournament with initial "draft" status and no public modes.
     // New tournaments are private by default; admin enables modes individually.
@@ -186,16 +241,29 @@ export async function POST(request: NextRequest) {
         ...(slug !== undefined && { slug }),
         date: new Date(date),
         status: 'draft',
-        dualReportEnabled: dualReportEnabled === true,
-        taPlayerSelfEdit: taPlayerSelfEdit !== false,
-        taBattleRoyaleMode: taBattleRoyaleMode === true,
-        ...(qualificationScheduleMethod !== undefined && { qualificationScheduleMethod }),
+        dualReportEnabled: pick(dualReportEnabled, templateSettings?.dualReportEnabled) === true,
+        taPlayerSelfEdit: pick(taPlayerSelfEdit, templateSettings?.taPlayerSelfEdit) !== false,
+        taBattleRoyaleMode: battleRoyaleMode,
+        ...(scheduleMethod !== undefined && { qualificationScheduleMethod: scheduleMethod }),
         ...(hasJsmkcIdentity({ name, slug }) && { cdmArchiveReconciliationExcluded: true }),
         debugMode: debugMode === true,
         publicModes: [],
+        ...(template && { overlayLayout: template.config.overlayLayout as unknown as InputJsonValue }),
+        ...(template?.setupPresets && { setupPresets: template.setupPresets as unknown as InputJsonValue }),
       },
     });
 
+    if (template && template.taEntries.length > 0) {
+      try {
+        await createTemplateTaEntries(tournament.id, template.taEntries);
+      } catch (error) {
+        // D1 has no interactive transactions: remove the half-copied draft
+        // (cascade deletes its entries) so a retry does not hit the slug.
+        await prisma.tournament.delete({ where: { id: tournament.id } }).catch(() => undefined);
+        throw error;
+      }
+    }
+
     // Create audit log for tournament creation — fire-and-forget via .catch()
     try {
       const ip = await getServerSideIdentifier();
@@ -212,7 +280,15 @@ export async function POST(request: NextRequest) {
           slug,
           date,
           debugMode: debugMode === true,
-          taBattleRoyaleMode: taBattleRoyaleMode === true,
+          taBattleRoyaleMode: battleRoyaleMode,
+          ...(template && {
+            template: {
+              templateId: templateId || null,
+              sourceTournamentId: sourceTournamentId || null,
+              copyRoster: copyRoster === true,
+              taEntries: template.taEntries.length,
+            },
+          }),
         },
       }).catch((err) =>
         logger.warn('Failed to create audit log', {
@@ -2,57 +2,63 @@
  * auth/signin/page.tsx - Sign In Page
  *
  * This page provides two authentication paths:
- * - Players log in with nickname + password
+ * - Players log in with nickname + password (new players can create an
+ *   account on /auth/signup)
  * - Administrators log in with Discord
  */
-'use client'
+'use client';
 
-import { useState } from 'react'
-import { signIn } from 'next-auth/react'
-import { useTranslations } from 'next-intl'
-import { Button } from '@/components/ui/button'
-import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
-import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
-import { Input } from '@/components/ui/input'
-import { Label } from '@/components/ui/label'
-import { useRouter } from 'next/navigation'
-import { createLogger } from '@/lib/client-logger'
+import { useState } from 'react';
+import { signIn } from 'next-auth/react';
+import { useTranslations } from 'next-intl';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { createLogger } from '@/lib/client-logger';
+import { readCallbackUrl } from '@/lib/callback-url';
 
-const logger = createLogger({ serviceName: 'auth-signin' })
+const logger = createLogger({ serviceName: 'auth-signin' });
 
 export default function SignInPage() {
-  const router = useRouter()
-  const t = useTranslations('auth')
+  const router = useRouter();
+  const t = useTranslations('auth');
 
-  const [playerForm, setPlayerForm] = useState({ nickname: '', password: '' })
-  const [playerError, setPlayerError] = useState('')
-  const [isLoading, setIsLoading] = useState(false)
+  const [playerForm, setPlayerForm] = useState({ nickname: '', password: '' });
+  const [playerError, setPlayerError] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
 
   const handlePlayerLogin = async (e: React.FormEvent) => {
-    e.preventDefault()
-    setPlayerError('')
-    setIsLoading(true)
+    e.preventDefault();
+    setPlayerError('');
+    setIsLoading(true);
 
     try {
       const result = await signIn('player-credentials', {
         nickname: playerForm.nickname,
         password: playerForm.password,
         redirect: false,
-      })
+      });
 
       if (result?.error) {
-        setPlayerError(t('invalidCredentials'))
+        /* Codes come from the CredentialsSignin subclasses in lib/auth.ts */
+        if (result.code === 'account_locked') setPlayerError(t('accountLocked'));
+        else if (result.code === 'rate_limited') setPlayerError(t('tooManyLoginAttempts'));
+        else setPlayerError(t('invalidCredentials'));
       } else if (result?.ok) {
-        router.push('/tournaments')
+        router.push(readCallbackUrl(window.location.search));
       }
     } catch (error) {
       const metadata = error instanceof Error ? { message: error.message, stack: error.stack } : { error };
-      logger.error('Player login error', metadata)
-      setPlayerError(t('loginError'))
+      logger.error('Player login error', metadata);
+      setPlayerError(t('loginError'));
     } finally {
-      setIsLoading(false)
+      setIsLoading(false);
     }
-  }
+  };
 
   return (
     <div className="min-h-[calc(100vh-12rem)] flex items-center justify-center">
@@ -92,15 +98,16 @@ export default function SignInPage() {
                     required
                   />
                 </div>
-                {playerError && (
-                  <p className="text-sm text-red-600">{playerError}</p>
-                )}
+                {playerError && <p className="text-sm text-red-600">{playerError}</p>}
                 <Button type="submit" className="w-full" size="lg" disabled={isLoading}>
                   {isLoading ? t('loggingIn') : t('loginButton')}
                 </Button>
               </form>
-              <p className="text-sm text-center text-muted-foreground">
-                {t('playerLoginHelp')}
+              <p className="text-sm text-center text-muted-foreground">{t('playerLoginHelp')}</p>
+              <p className="text-sm text-center">
+                <Link href="/auth/signup" className="underline underline-offset-4 hover:text-primary">
+                  {t('createAccountLink')}
+                </Link>
               </p>
             </TabsContent>
 
@@ -111,19 +118,22 @@ export default function SignInPage() {
                 size="lg"
               >
                 <div className="flex items-center">
-                  <svg className="mr-2 h-5 w-5" viewBox="0 0 127 96" xmlns="http://www.w3.org/2000/svg" fill="currentColor">
+                  <svg
+                    className="mr-2 h-5 w-5"
+                    viewBox="0 0 127 96"
+                    xmlns="http://www.w3.org/2000/svg"
+                    fill="currentColor"
+                  >
                     <path d="M107.7 8.07A105.15 105.15 0 0 0 81.47 0a.05.05 0 0 0-.03.02C79.6 4.39 77.4 8.78 75.87 12.5a96.51 96.51 0 0 0-24.8 0C49.53 8.78 47.33 4.39 45.47.02a.05.05 0 0 0-.03-.02A105.01 105.01 0 0 0 19.3 8.07.05.05 0 0 0 19.24 8.1c-26.9 40.5-34.33 80-30.8 119.2a.05.05 0 0 0 .02.04C7.66 128.5 35.8 135 63.8 135a.05.05 0 0 0 .04-.02l3.4-4.2a92.2 92.2 0 0 1-13.8-6.1.05.05 0 0 1 .01-.09 63.63 63.63 0 0 0 2.4-1.2.05.05 0 0 1 .05 0c26.9 12.3 56 12.3 82.9 0a.05.05 0 0 1 .05 0 62.4 62.4 0 0 0 2.4 1.2.05.05 0 0 1 0 .09 91.54 91.54 0 0 1-13.8 6.1l3.4 4.2a.05.05 0 0 0 .04.02c28-135 56.1-135 55.44-7.66a.05.05 0 0 0 .02-.04c3.54-39.2-3.9-78.7-30.8-119.2a.05.05 0 0 0-.06-.03ZM42.45 92.6c-5.8 0-10.6-5.3-10.6-11.8s4.7-11.8 10.6-11.8c5.8.1 10.6 5.3 10.6 11.8s-4.8 11.8-10.6 11.8Zm42.1 0c-5.8 0-10.6-5.3-10.6-11.8s4.7-11.8 10.6-11.8c5.8.1 10.6 5.3 10.6 11.8s-4.8 11.8-10.6 11.8Z" />
                   </svg>
                   {t('discordLogin')}
                 </div>
               </Button>
-              <p className="text-sm text-center text-muted-foreground">
-                {t('adminLoginHelp')}
-              </p>
+              <p className="text-sm text-center text-muted-foreground">{t('adminLoginHelp')}</p>
             </TabsContent>
           </Tabs>
         </CardContent>
       </Card>
     </div>
-  )
+  );
 }
@@ -0,0 +1,163 @@
+/**
+ * auth/signup/page.tsx - Player Sign-Up Page
+ *
+ * Lets a player create their own account (POST /api/players/signup) and
+ * logs them in with the same credentials straight away. A `callbackUrl`
+ * query parameter (set by the tournament sign-up page) decides where they
+ * land afterwards.
+ */
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { signIn } from 'next-auth/react';
+import { useLocale, useTranslations } from 'next-intl';
+import { useRouter } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { CountrySelect } from '@/components/ui/country-select';
+import { createLogger } from '@/lib/client-logger';
+import { readCallbackUrl } from '@/lib/callback-url';
+import { MAX_PLAYER_NAME_LENGTH, MAX_PLAYER_NICKNAME_LENGTH } from '@/lib/constants';
+
+const logger = createLogger({ serviceName: 'auth-signup' });
+
+/* Mirrors MIN_PASSWORD_LENGTH in password-utils.ts, which imports bcrypt and stays server-side. */
+const MIN_PASSWORD_LENGTH = 8;
+
+export default function SignUpPage() {
+  const router = useRouter();
+  const locale = useLocale();
+  const t = useTranslations('auth');
+
+  const [form, setForm] = useState({ name: '', nickname: '', country: '', password: '', confirmPassword: '' });
+  const [error, setError] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    if (form.password !== form.confirmPassword) {
+      setError(t('passwordMismatch'));
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const response = await fetch('/api/players/signup', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: form.name,
+          nickname: form.nickname,
+          country: form.country || null,
+          password: form.password,
+        }),
+      });
+      if (!response.ok) {
+        const json = await response.json().catch(() => ({}));
+        if (response.status === 409) setError(t('nicknameTaken'));
+        else if (response.status === 429) setError(t('tooManySignUps'));
+        else if (json?.details?.field === 'password') setError(t('passwordHint', { min: MIN_PASSWORD_LENGTH }));
+        else setError(t('signUpError'));
+        return;
+      }
+
+      const result = await signIn('player-credentials', {
+        nickname: form.nickname.trim(),
+        password: form.password,
+        redirect: false,
+      });
+      router.push(result?.ok ? readCallbackUrl(window.location.search) : '/auth/signin');
+    } catch (err) {
+      const metadata = err instanceof Error ? { message: err.message, stack: err.stack } : { error: err };
+      logger.error('Player sign-up error', metadata);
+      setError(t('signUpError'));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-[calc(100vh-12rem)] flex items-center justify-center">
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center pb-2">
+          <CardTitle className="text-2xl font-semibold">{t('signUpTitle')}</CardTitle>
+          <CardDescription>{t('signUpSubtitle')}</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="nickname">{t('nickname')}</Label>
+              <Input
+                id="nickname"
+                type="text"
+                autoComplete="username"
+                value={form.nickname}
+                onChange={(e) => setForm({ ...form, nickname: e.target.value })}
+                maxLength={MAX_PLAYER_NICKNAME_LENGTH}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="name">{t('fullName')}</Label>
+              <Input
+                id="name"
+                type="text"
+                autoComplete="name"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                maxLength={MAX_PLAYER_NAME_LENGTH}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="country">{t('country')}</Label>
+              <CountrySelect
+                id="country"
+                value={form.country}
+                onChange={(country) => setForm({ ...form, country })}
+                locale={locale}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="password">{t('password')}</Label>
+              <Input
+                id="password"
+                type="password"
+                autoComplete="new-password"
+                minLength={MIN_PASSWORD_LENGTH}
+                value={form.password}
+                onChange={(e) => setForm({ ...form, password: e.target.value })}
+                required
+              />
+              <p className="text-xs text-muted-foreground">{t('passwordHint', { min: MIN_PASSWORD_LENGTH })}</p>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="confirmPassword">{t('confirmPassword')}</Label>
+              <Input
+                id="confirmPassword"
+                type="password"
+                autoComplete="new-password"
+                value={form.confirmPassword}
+                onChange={(e) => setForm({ ...form, confirmPassword: e.target.value })}
+                required
+              />
+            </div>
+            {error && <p className="text-sm text-red-600">{error}</p>}
+            <Button type="submit" className="w-full" size="lg" disabled={isLoading}>
+              {isLoading ? t('signingUp') : t('signUpButton')}
+            </Button>
+          </form>
+          <p className="mt-4 text-sm text-center">
+            <Link href="/auth/signin" className="underline underline-offset-4 hover:text-primary">
+              {t('haveAccountLink')}
+            </Link>
+          </p>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,301 @@
+'use client';
+
+/**
+ * Player Career Profile Page
+ *
+ * Cross-tournament history for a single player, built for commentators who
+ * need a player's background before a stream:
+ * - Career summary (events played, titles, best overall rank)
+ * - Overall rank over time (oldest first)
+ * - Per-tournament placements per mode with qualification/finals points
+ * - BM/MR/GP win/loss records
+ * - Head-to-head table against every opponent
+ *
+ * Data comes from GET /api/players/:id/career, which also reads archived
+ * tournaments. Non-admin viewers only see published modes.
+ */
+
+import { useState, useEffect, useCallback, use } from 'react';
+import Link from 'next/link';
+import { useLocale, useTranslations } from 'next-intl';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { PlayerName } from '@/components/ui/player-name';
+import { CardSkeleton } from '@/components/ui/loading-skeleton';
+import { formatOrdinal } from '@/lib/points/finals-points';
+import { fetchWithRetry } from '@/lib/fetch-with-retry';
+import { createLogger } from '@/lib/client-logger';
+import type { CareerModeResult, PlayerCareer, WinLossRecord } from '@/lib/player-career';
+
+/** Client-side logger for error tracking */
+const logger = createLogger({ serviceName: 'players-career' });
+
+const MODE_LABELS = { ta: 'TA', bm: 'BM', mr: 'MR', gp: 'GP' } as const;
+const MATCH_MODES = ['bm', 'mr', 'gp'] as const;
+
+/** "5th-6th" style label for a finals placement range. */
+function formatPlacement(placement: CareerModeResult['finalsPlacement']): string | null {
+  if (!placement) return null;
+  if (placement.start === placement.end) return formatOrdinal(placement.start);
+  return `${formatOrdinal(placement.start)}-${formatOrdinal(placement.end)}`;
+}
+
+/** Compact W-L-T label; ties are omitted when there are none. */
+function formatRecord(record: WinLossRecord): string {
+  if (record.played === 0) return '-';
+  return record.ties > 0 ? `${record.wins}-${record.losses}-${record.ties}` : `${record.wins}-${record.losses}`;
+}
+
+function formatWinRate(record: WinLossRecord): string {
+  if (record.played === 0) return '-';
+  return `${Math.round((record.wins / record.played) * 100)}%`;
+}
+
+export default function PlayerCareerPage({ params }: { params: Promise<{ id: string }> }) {
+  const { id: playerId } = use(params);
+  const t = useTranslations('playerCareer');
+  const tCommon = useTranslations('common');
+  const locale = useLocale();
+
+  const [career, setCareer] = useState<PlayerCareer | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchCareer = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetchWithRetry(`/api/players/${playerId}/career`);
+      const result = await response.json().catch(() => ({}));
+      if (!response.ok || !result.success) {
+        throw new Error(response.status === 404 ? t('notFound') : result.error || t('fetchError'));
+      }
+      setCareer(result.data as PlayerCareer);
+    } catch (err) {
+      logger.error('Failed to fetch player career:', { error: err, playerId });
+      setError(err instanceof Error ? err.message : t('fetchError'));
+    } finally {
+      setLoading(false);
+    }
+  }, [playerId, t]);
+
+  useEffect(() => {
+    fetchCareer();
+  }, [fetchCareer]);
+
+  if (error && !career) {
+    return (
+      <div className="space-y-6">
+        <h1 className="font-display text-4xl tracking-wide">{t('title')}</h1>
+        <div className="border border-foreground/15 py-10 text-center space-y-4">
+          <p className="text-destructive">{error}</p>
+          <Button onClick={fetchCareer}>{tCommon('retry')}</Button>
+        </div>
+      </div>
+    );
+  }
+
+  if (loading || !career) {
+    return (
+      <div className="space-y-6">
+        <div className="space-y-3">
+          <div className="h-9 w-48 bg-muted animate-pulse rounded" />
+          <div className="h-5 w-64 bg-muted animate-pulse rounded" />
+        </div>
+        <CardSkeleton />
+      </div>
+    );
+  }
+
+  const { player, summary, tournaments, rankHistory, records, headToHead } = career;
+
+  return (
+    <div className="space-y-8">
+      <header className="flex flex-col sm:flex-row sm:justify-between sm:items-end gap-4 border-b border-foreground/15 pb-4">
+        <div>
+          <h1 className="font-display text-3xl sm:text-4xl tracking-wide leading-none">
+            <PlayerName player={player} locale={locale} />
+          </h1>
+          <p className="text-sm text-muted-foreground mt-2">{player.name}</p>
+        </div>
+        <Button variant="outline" asChild>
+          <Link href="/players">{tCommon('back')}</Link>
+        </Button>
+      </header>
+
+      {/* Career summary tiles */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <article className="border border-foreground/15 p-4">
+          <p className="text-xs text-muted-foreground">{t('tournamentsPlayed')}</p>
+          <p className="font-display text-3xl tracking-wide tabular">{summary.tournamentsPlayed}</p>
+        </article>
+        <article className="border border-foreground/15 p-4">
+          <p className="text-xs text-muted-foreground">{t('titles')}</p>
+          <p className="font-display text-3xl tracking-wide tabular">{summary.titles}</p>
+        </article>
+        <article className="border border-foreground/15 p-4">
+          <p className="text-xs text-muted-foreground">{t('bestOverallRank')}</p>
+          <p className="font-display text-3xl tracking-wide tabular">
+            {summary.bestOverallRank !== null ? formatOrdinal(summary.bestOverallRank) : '-'}
+          </p>
+        </article>
+        <article className="border border-foreground/15 p-4">
+          <p className="text-xs text-muted-foreground">{t('matchRecord')}</p>
+          <p className="font-display text-3xl tracking-wide tabular">{formatRecord(records.total)}</p>
+          <p className="text-xs text-muted-foreground font-mono tabular">
+            {MATCH_MODES.map((mode) => `${MODE_LABELS[mode]} ${formatRecord(records[mode])}`).join(' · ')}
+          </p>
+        </article>
+      </div>
+
+      {tournaments.length === 0 ? (
+        <div className="border border-foreground/15 py-10 text-center text-muted-foreground">
+          <p>{t('noHistory')}</p>
+        </div>
+      ) : (
+        <>
+          {/* Overall rank over time, oldest first */}
+          {rankHistory.length > 0 && (
+            <section className="space-y-3">
+              <h2 className="text-base font-semibold">{t('rankHistory')}</h2>
+              <div className="flex flex-wrap gap-2">
+                {rankHistory.map((point) => (
+                  <div key={point.tournamentId} className="border border-foreground/15 px-3 py-2 text-sm">
+                    <p className="text-xs text-muted-foreground">{new Date(point.date).toLocaleDateString(locale)}</p>
+                    <p className="font-medium truncate max-w-[12rem]">{point.name}</p>
+                    <Badge variant={point.overallRank === 1 ? 'flag-draft' : 'outline'}>
+                      {formatOrdinal(point.overallRank)}
+                    </Badge>
+                  </div>
+                ))}
+              </div>
+            </section>
+          )}
+
+          {/* Per-tournament placements */}
+          <section className="space-y-3">
+            <h2 className="text-base font-semibold">{t('tournamentHistory')}</h2>
+            <div className="overflow-x-auto border border-foreground/15">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>{t('tournament')}</TableHead>
+                    <TableHead className="text-right">{t('overallRank')}</TableHead>
+                    {(['ta', ...MATCH_MODES] as const).map((mode) => (
+                      <TableHead key={mode} className="text-right">
+                        {MODE_LABELS[mode]}
+                      </TableHead>
+                    ))}
+                    <TableHead className="text-right">{t('totalPoints')}</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {tournaments.map((tournament) => (
+                    <TableRow key={tournament.tournamentId}>
+                      <TableCell>
+                        <Link
+                          href={`/tournaments/${tournament.slug || tournament.tournamentId}`}
+                          className="font-medium"
+                        >
+                          {tournament.name}
+                        </Link>
+                        <div className="text-xs text-muted-foreground">
+                          {new Date(tournament.date).toLocaleDateString(locale)}
+                          {tournament.archived && ` · ${t('archived')}`}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-right font-mono">
+                        {tournament.overallRank !== null ? formatOrdinal(tournament.overallRank) : '-'}
+                      </TableCell>
+                      {(['ta', ...MATCH_MODES] as const).map((mode) => {
+                        const result = tournament.modes[mode];
+                        return (
+                          <TableCell key={mode} className="text-right">
+                            {result ? (
+                              <>
+                                <div className="font-mono">
+                                  {formatPlacement(result.finalsPlacement) ??
+                                    (mode === 'ta' && result.qualificationRank
+                                      ? t('qualificationRank', { rank: result.qualificationRank })
+                                      : '-')}
+                                </div>
+                                <div className="text-xs text-muted-foreground">
+                                  Q:{result.qualificationPoints ?? '-'} F:{result.finalsPoints ?? '-'}
+                                  {result.record && ` · ${formatRecord(result.record)}`}
+                                </div>
+                              </>
+                            ) : (
+                              '-'
+                            )}
+                          </TableCell>
+                        );
+                      })}
+                      <TableCell className="text-right font-mono">
+                        {tournament.totalPoints !== null ? tournament.totalPoints.toLocaleString() : '-'}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </section>
+
+          {/* Head-to-head against every opponent */}
+          <section className="space-y-3">
+            <header className="flex items-baseline justify-between">
+              <h2 className="text-base font-semibold">{t('headToHead')}</h2>
+              <p className="text-xs text-muted-foreground font-mono tabular">
+                {t('opponentCount', { count: headToHead.length })}
+              </p>
+            </header>
+            {headToHead.length === 0 ? (
+              <div className="border border-foreground/15 py-6 text-center text-muted-foreground">
+                <p>{t('noMatches')}</p>
+              </div>
+            ) : (
+              <div className="overflow-x-auto border border-foreground/15">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>{t('opponent')}</TableHead>
+                      <TableHead className="text-right">{t('record')}</TableHead>
+                      <TableHead className="text-right">{t('winRate')}</TableHead>
+                      {MATCH_MODES.map((mode) => (
+                        <TableHead key={mode} className="text-right">
+                          {MODE_LABELS[mode]}
+                        </TableHead>
+                      ))}
+                      <TableHead className="text-right">{t('lastMet')}</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {headToHead.map((row) => (
+                      <TableRow key={row.opponent.id}>
+                        <TableCell>
+                          <Link href={`/players/${row.opponent.id}`} className="font-medium">
+                            <PlayerName player={row.opponent} locale={locale} />
+                          </Link>
+                        </TableCell>
+                        <TableCell className="text-right font-mono">{formatRecord(row.total)}</TableCell>
+                        <TableCell className="text-right font-mono">{formatWinRate(row.total)}</TableCell>
+                        {MATCH_MODES.map((mode) => (
+                          <TableCell key={mode} className="text-right font-mono">
+                            {formatRecord(row[mode])}
+                          </TableCell>
+                        ))}
+                        <TableCell className="text-right text-xs text-muted-foreground">
+                          {new Date(row.lastMetAt).toLocaleDateString(locale)}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </section>
+        </>
+      )}
+    </div>
+  );
+}
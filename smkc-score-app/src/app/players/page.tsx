@@ -7,6 +7,8 @@
  * 3. Edit existing player details (admin only)
  * 4. Delete players with confirmation (admin only)
  * 5. Display temporary passwords for newly created players
+ * 6. Bulk import a CSV/XLSX roster with a dry-run preview (admin only)
+ * 7. Merge a duplicate player into another player (admin only)
  *
  * Role-based access:
  * - All users can view the player list (public read access)
@@ -18,6 +20,10 @@
  * - POST /api/players: Create a new player (returns temporaryPassword)
  * - PUT /api/players/:id: Update player details
  * - DELETE /api/players/:id: Delete a player
+ * - POST /api/players/import: Preview/apply a roster file import
+ * - POST /api/players/:id/merge: Preview/apply a player merge
+ *
+ * Each nickname links to the player's career profile (/players/:id).
  *
  * The API may return either legacy list payloads or the standardized
  * success wrapper, so the fetch handler normalizes both formats.
@@ -25,6 +31,7 @@
 'use client';
 
 import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
 import { useSession } from 'next-auth/react';
 import { useTranslations, useLocale } from 'next-intl';
 import { Button } from '@/components/ui/button';
@@ -51,6 +58,8 @@ import { fetchWithRetry } from '@/lib/fetch-with-retry';
 import { createPlayerWithRetry } from '@/lib/create-player-retry';
 import { PLAYER_ERROR_CODES } from '@/lib/player-error-codes';
 import { createLogger } from '@/lib/client-logger';
+import { PlayerImportDialog } from '@/components/players/player-import-dialog';
+import { PlayerMergeDialog } from '@/components/players/player-merge-dialog';
 
 /**
  * Client-side logger for the players page.
@@ -415,6 +424,31 @@ export default function PlayersPage() {
     }
   };
 
+  /**
+   * Clears a player's login lockout after repeated failed passwords.
+   */
+  const handleUnlockLogin = async (playerId: string) => {
+    if (submitting) return;
+    if (!confirm(t('confirmUnlockLogin'))) return;
+    setSubmitting(true);
+
+    try {
+      const response = await fetch(`/api/players/${playerId}/unlock-login`, { method: 'POST' });
+      const json = await response.json().catch(() => ({}));
+      if (!response.ok || !json.success) {
+        alert(json.error || t('failedToUnlockLogin'));
+        return;
+      }
+      alert(json.data.wasLocked ? t('loginUnlocked') : t('loginWasNotLocked'));
+    } catch (err) {
+      const metadata = err instanceof Error ? { message: err.message, stack: err.stack } : { error: err };
+      logger.error('Failed to unlock login:', metadata);
+      alert(t('failedToUnlockLogin'));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
   /**
    * Opens the edit dialog pre-populated with the selected player's data.
    * Resets the error state and sets the editing player ID for the
@@ -483,69 +517,72 @@ export default function PlayersPage() {
           <h1 className="font-display text-3xl sm:text-4xl tracking-wide leading-none">{t('title')}</h1>
           <p className="text-muted-foreground text-sm mt-2">{isAdmin ? t('subtitleAdmin') : t('subtitleView')}</p>
         </div>
-        {/* Add Player dialog - only rendered for admin users */}
+        {/* Import and Add Player dialogs - only rendered for admin users */}
         {isAdmin && (
-          <Dialog open={isAddDialogOpen} onOpenChange={setIsAddDialogOpen}>
-            <DialogTrigger asChild>
-              <Button onClick={() => setFormData({ name: '', nickname: '', country: '', noCamera: false })}>
-                {tc('addPlayer')}
-              </Button>
-            </DialogTrigger>
-            <DialogContent>
-              <DialogHeader>
-                <DialogTitle>{t('addNewPlayer')}</DialogTitle>
-                <DialogDescription>{t('enterPlayerInfo')}</DialogDescription>
-              </DialogHeader>
-              <form onSubmit={handleSubmit}>
-                <div className="space-y-4 py-4">
-                  {error && <div className="text-red-500 text-sm">{error}</div>}
-                  <div className="space-y-2">
-                    <Label htmlFor="name">{t('fullName')}</Label>
-                    <Input
-                      id="name"
-                      value={formData.name}
-                      onChange={(e) => setFormData({ ...formData, name: e.target.value })}
-                      placeholder={t('fullNamePlaceholder')}
-                      required
-                    />
-                  </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="nickname">{t('nickname')}</Label>
-                    <Input
-                      id="nickname"
-                      value={formData.nickname}
-                      onChange={(e) => setFormData({ ...formData, nickname: e.target.value })}
-                      placeholder={t('nicknamePlaceholder')}
-                      required
-                    />
-                  </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="country">{t('countryOptional')}</Label>
-                    <CountrySelect
-                      id="country"
-                      value={formData.country}
-                      onChange={(country) => setFormData({ ...formData, country })}
-                      locale={locale}
-                      placeholder={t('countryPlaceholder')}
-                    />
-                  </div>
-                  <div className="flex items-center gap-2">
-                    <Checkbox
-                      id="noCamera"
-                      checked={formData.noCamera}
-                      onCheckedChange={(checked) => setFormData({ ...formData, noCamera: checked === true })}
-                    />
-                    <Label htmlFor="noCamera">{t('noCamera')}</Label>
+          <div className="flex gap-2">
+            <PlayerImportDialog onImported={fetchPlayers} />
+            <Dialog open={isAddDialogOpen} onOpenChange={setIsAddDialogOpen}>
+              <DialogTrigger asChild>
+                <Button onClick={() => setFormData({ name: '', nickname: '', country: '', noCamera: false })}>
+                  {tc('addPlayer')}
+                </Button>
+              </DialogTrigger>
+              <DialogContent>
+                <DialogHeader>
+                  <DialogTitle>{t('addNewPlayer')}</DialogTitle>
+                  <DialogDescription>{t('enterPlayerInfo')}</DialogDescription>
+                </DialogHeader>
+                <form onSubmit={handleSubmit}>
+                  <div className="space-y-4 py-4">
+                    {error && <div className="text-red-500 text-sm">{error}</div>}
+                    <div className="space-y-2">
+                      <Label htmlFor="name">{t('fullName')}</Label>
+                      <Input
+                        id="name"
+                        value={formData.name}
+                        onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                        placeholder={t('fullNamePlaceholder')}
+                        required
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="nickname">{t('nickname')}</Label>
+                      <Input
+                        id="nickname"
+                        value={formData.nickname}
+                        onChange={(e) => setFormData({ ...formData, nickname: e.target.value })}
+                        placeholder={t('nicknamePlaceholder')}
+                        required
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="country">{t('countryOptional')}</Label>
+                      <CountrySelect
+                        id="country"
+                        value={formData.country}
+                        onChange={(country) => setFormData({ ...formData, country })}
+                        locale={locale}
+                        placeholder={t('countryPlaceholder')}
+                      />
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Checkbox
+                        id="noCamera"
+                        checked={formData.noCamera}
+                        onCheckedChange={(checked) => setFormData({ ...formData, noCamera: checked === true })}
+                      />
+                      <Label htmlFor="noCamera">{t('noCamera')}</Label>
+                    </div>
                   </div>
-                </div>
-                <DialogFooter>
-                  <Button type="submit" disabled={submitting}>
-                    {submitting ? tc('saving') : tc('addPlayer')}
-                  </Button>
-                </DialogFooter>
-              </form>
-            </DialogContent>
-          </Dialog>
+                  <DialogFooter>
+                    <Button type="submit" disabled={submitting}>
+                      {submitting ? tc('saving') : tc('addPlayer')}
+                    </Button>
+                  </DialogFooter>
+                </form>
+              </DialogContent>
+            </Dialog>
+          </div>
         )}
       </header>
 
@@ -592,7 +629,11 @@ export default function PlayersPage() {
                   <TableBody>
                     {players.map((player) => (
                       <TableRow key={player.id}>
-                        <TableCell className="font-medium">{player.nickname}</TableCell>
+                        <TableCell className="font-medium">
+                          <Link href={`/players/${player.id}`} className="hover:underline">
+                            {player.nickname}
+                          </Link>
+                        </TableCell>
                         <TableCell>{player.name}</TableCell>
                         <TableCell>
                           <span className="inline-flex items-center gap-1.5">
@@ -601,7 +642,7 @@ export default function PlayersPage() {
                           </span>
                         </TableCell>
                         <TableCell>{player.noCamera ? '✗' : '-'}</TableCell>
-                        {/* Admin-only action buttons: Edit and Delete */}
+                        {/* Admin-only action buttons: Edit, Reset Password, Unlock Login, Merge and Delete */}
                         {isAdmin && (
                           <TableCell className="text-right space-x-2">
                             <Button variant="outline" size="sm" onClick={() => openEditDialog(player)}>
@@ -615,6 +656,15 @@ export default function PlayersPage() {
                             >
                               {t('resetPassword')}
                             </Button>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              disabled={submitting}
+                              onClick={() => handleUnlockLogin(player.id)}
+                            >
+                              {t('unlockLogin')}
+                            </Button>
+                            <PlayerMergeDialog player={player} disabled={submitting} onMerged={fetchPlayers} />
                             <Button
                               variant="destructive"
                               size="sm"
@@ -61,6 +61,13 @@ import { PlayoffCompleteCard } from '@/components/tournament/playoff-complete-ca
 import { FinalsRoundSettings } from '@/components/tournament/finals-round-settings';
 import { FinalsScoreOverride } from '@/components/tournament/finals-score-override';
 import { FinalsPlayoffReconciliation } from '@/components/tournament/finals-playoff-reconciliation';
+import {
+  DEFAULT_FINALS_BRACKET_OPTION,
+  FINALS_FORMAT_KEYS,
+  FinalsBracketSizePicker,
+  findFinalsBracketOption,
+  type FinalsBracketOption,
+} from '@/components/tournament/finals-bracket-size-picker';
 import { POLLING_INTERVAL, TV_NUMBER_OPTIONS } from '@/lib/constants';
 import { getBmFinalsTargetWins } from '@/lib/finals-target-wins';
 import { usePolling } from '@/lib/hooks/usePolling';
@@ -71,12 +78,14 @@ import { createLogger } from '@/lib/client-logger';
 import { canResetFinalsFromQualification } from '@/lib/finals-action-availability';
 import { parseManualScore } from '@/lib/parse-manual-score';
 import { BRACKET_TABS, type BracketTab } from '@/lib/bracket-tabs';
+import { getFinalsFormatFromRound, getRoundRobinFinalsStandings } from '@/lib/finals-format';
 
 /**
  * Client-side logger for the finals page.
  * Used for tracking bracket generation and score update errors.
  * Note: Client logger is created at module level (unlike server API loggers).
  */
+import { useTournamentPermissions } from '@/lib/hooks/use-tournament-permissions';
 import type { Player } from '@/lib/types';
 import { buildMatchLabel } from '@/lib/overlay/phase';
 
@@ -108,7 +117,7 @@ interface BMMatch {
 interface BracketMatch {
   matchNumber: number;
   round: string;
-  bracket: 'winners' | 'losers' | 'grand_final';
+  bracket: 'winners' | 'losers' | 'grand_final' | 'third_place' | 'round_robin';
   player1Seed?: number;
   player2Seed?: number;
 }
@@ -137,7 +146,35 @@ function getMatchWinner(match: BMMatch): Player | null {
   return null;
 }
 
-function getCompletedChampion(matches: BMMatch[]): Player | null {
+function getCompletedChampion(matches: BMMatch[], seededPlayers: SeededPlayer[] = []): Player | null {
+  const singleFinal = matches.find((m) => m.round === 'single_final' && m.completed);
+  if (singleFinal) return getMatchWinner(singleFinal);
+
+  /* Round-robin pool: the champion tops the standings once every match is in. */
+  const pool = matches.filter((m) => getFinalsFormatFromRound(m.round) === 'round_robin');
+  if (pool.length > 0) {
+    if (!pool.every((m) => m.completed)) return null;
+    const results = pool.flatMap((match) => {
+      const winner = getMatchWinner(match);
+      return winner
+        ? [
+            {
+              player1Id: match.player1Id,
+              player2Id: match.player2Id,
+              winnerId: winner.id,
+              score1: match.score1,
+              score2: match.score2,
+            },
+          ]
+        : [];
+    });
+    const [first] = getRoundRobinFinalsStandings(
+      results,
+      [...seededPlayers].sort((a, b) => a.seed - b.seed).map((entry) => entry.playerId),
+    );
+    return pool.flatMap((m) => [m.player1, m.player2]).find((player) => player.id === first?.playerId) ?? null;
+  }
+
   const reset = matches.find((m) => m.round === 'grand_final_reset' && m.completed);
   if (reset) return getMatchWinner(reset);
 
@@ -157,6 +194,7 @@ export default function BattleModeFinals({ params }: { params: Promise<{ id: str
 
   /** Admin role check: only admins can generate/reset brackets and enter scores */
   const isAdmin = session?.user && session.user.role === 'admin';
+  const can = useTournamentPermissions(tournamentId);
 
   /**
    * i18n translation hooks for the finals page.
@@ -179,13 +217,14 @@ export default function BattleModeFinals({ params }: { params: Promise<{ id: str
   /* UI state */
   const [loading, setLoading] = useState(true);
   const [creating, setCreating] = useState(false);
-  /** Bracket size: 8 (top 8), 16 (top 16), or 24 (top 12 + playoff, §4.2 issue #454) */
-  const [bracketSize, setBracketSize] = useState<8 | 16 | 24>(8);
+  /** Bracket size option (FINALS_BRACKET_OPTIONS); Top 24 defaults to the playoff flow (§4.2 issue #454) */
+  const [bracketOption, setBracketOption] = useState<FinalsBracketOption>(DEFAULT_FINALS_BRACKET_OPTION);
   /** Apply topN from sessionStorage if set by qualification page */
   useEffect(() => {
     const stored = sessionStorage.getItem('bm_finals_topN');
-    if (stored === '24' || stored === '16') {
-      setBracketSize(parseInt(stored) as 8 | 16 | 24);
+    const option = findFinalsBracketOption(stored);
+    if (option) {
+      setBracketOption(option);
     }
     sessionStorage.removeItem('bm_finals_topN');
   }, []);
@@ -289,6 +328,7 @@ export default function BattleModeFinals({ params }: { params: Promise<{ id: str
     refetch,
   } = usePolling(fetchFinalsData, {
     interval: POLLING_INTERVAL,
+    streamUrl: `/api/tournaments/${tournamentId}/events?scope=bm`,
   });
 
   /* Update bracket state when polling data changes */
@@ -305,7 +345,7 @@ export default function BattleModeFinals({ params }: { params: Promise<{ id: str
       if (pollData.playoffComplete !== undefined) {
         setPlayoffComplete(pollData.playoffComplete);
       }
-      setChampion(getCompletedChampion(pollData.matches));
+      setChampion(getCompletedChampion(pollData.matches, pollData.seededPlayers));
     }
   }, [pollData]);
 
@@ -318,7 +358,7 @@ export default function BattleModeFinals({ params }: { params: Promise<{ id: str
 
   /**
    * Generate or regenerate the finals bracket.
-   * For Top 24 (bracketSize=24), Phase 1 creates the playoff bracket.
+   * For Top 24 with the playoff option, Phase 1 creates the playoff bracket.
    * Phase 2 is triggered by handleCreateUpperBracket after playoff completes.
    */
   const handleCreateBracket = async () => {
@@ -327,7 +367,12 @@ export default function BattleModeFinals({ params }: { params: Promise<{ id: str
       const response = await fetch(`/api/tournaments/${tournamentId}/bm/finals`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ topN: bracketSize }),
+        body: JSON.stringify({
+          topN: bracketOption.topN,
+          playoff: bracketOption.playoff,
+          format: bracketOption.format,
+          thirdPlace: bracketOption.thirdPlace,
+        }),
       });
 
       if (response.ok) {
@@ -611,7 +656,9 @@ export default function BattleModeFinals({ params }: { params: Promise<{ id: str
         <div className="flex flex-col sm:flex-row sm:justify-between sm:items-start gap-4">
           <div>
             <h1 className="text-2xl font-semibold">{tBm('finalsTitle')}</h1>
-            <p className="text-muted-foreground">{tFinals('doubleElimination')}</p>
+            <p className="text-muted-foreground">
+              {tFinals(FINALS_FORMAT_KEYS[getFinalsFormatFromRound(bracketStructure[0]?.round)].title)}
+            </p>
             <div className="mt-2">
               {lastETag && <UpdateIndicator lastUpdated={new Date(lastETag)} isPolling={!error && pollLoading} />}
             </div>
@@ -628,36 +675,17 @@ export default function BattleModeFinals({ params }: { params: Promise<{ id: str
                 <AlertDialogContent>
                   <AlertDialogHeader>
                     <AlertDialogTitle>{tFinals('generateConfirmTitle')}</AlertDialogTitle>
-                    <AlertDialogDescription>{tFinals('generateConfirmDesc')}</AlertDialogDescription>
+                    <AlertDialogDescription>
+                      {bracketOption.format === 'double_elimination'
+                        ? tFinals('generateConfirmDesc')
+                        : tFinals('generateConfirmDescFormat')}
+                    </AlertDialogDescription>
                   </AlertDialogHeader>
-                  {/* §4.2 / issue #454: Bracket size selection — 8, 16, or 24 (Top 12 + playoff) */}
-                  <div className="flex gap-2 justify-center py-2">
-                    <Button
-                      size="sm"
-                      variant={bracketSize === 8 ? 'default' : 'outline'}
-                      onClick={() => setBracketSize(8)}
-                    >
-                      {tFinals('top8')}
-                    </Button>
-                    <Button
-                      size="sm"
-                      variant={bracketSize === 16 ? 'default' : 'outline'}
-                      onClick={() => setBracketSize(16)}
-                    >
-                      {tFinals('top16')}
-                    </Button>
-                    <Button
-                      size="sm"
-                      variant={bracketSize === 24 ? 'default' : 'outline'}
-                      onClick={() => setBracketSize(24)}
-                    >
-                      {tFinals('top24')}
-                    </Button>
-                  </div>
+                  <FinalsBracketSizePicker value={bracketOption} onChange={setBracketOption} />
                   <AlertDialogFooter>
                     <AlertDialogCancel>{tCommon('cancel')}</AlertDialogCancel>
                     <AlertDialogAction onClick={handleCreateBracket}>
-                      {tFinals('generate')} ({bracketSize} players)
+                      {tFinals('generate')} ({bracketOption.topN} players)
                     </AlertDialogAction>
                   </AlertDialogFooter>
                 </AlertDialogContent>
@@ -783,6 +811,7 @@ export default function BattleModeFinals({ params }: { params: Promise<{ id: str
             </TabsList>
             <TabsContent value="finals">
               <DoubleEliminationBracket
+                projectionMode="BM"
                 matches={matches}
                 bracketStructure={bracketStructure}
                 roundNames={roundNames}
@@ -791,20 +820,21 @@ export default function BattleModeFinals({ params }: { params: Promise<{ id: str
                   match?.targetWins ??
                   getBmFinalsTargetWins({ stage: match?.stage, round: match?.round ?? bracketMatch.round })
                 }
-                onMatchClick={isAdmin ? openScoreDialog : undefined}
-                onTvNumberChange={isAdmin ? handleBracketTvNumberChange : undefined}
+                onMatchClick={can('scores') ? openScoreDialog : undefined}
+                onTvNumberChange={can('tv') ? handleBracketTvNumberChange : undefined}
                 slotEditMode={isAdmin ? slotEditMode : undefined}
                 onSlotClick={isAdmin ? handleSlotClick : undefined}
               />
             </TabsContent>
             <TabsContent value="playoff">
               <PlayoffBracket
+                projectionMode="BM"
                 playoffMatches={playoffMatches}
                 playoffStructure={playoffStructure}
                 roundNames={roundNames}
                 seededPlayers={playoffSeededPlayers}
-                onMatchClick={isAdmin ? openScoreDialog : undefined}
-                onTvNumberChange={isAdmin ? handleBracketTvNumberChange : undefined}
+                onMatchClick={can('scores') ? openScoreDialog : undefined}
+                onTvNumberChange={can('tv') ? handleBracketTvNumberChange : undefined}
                 getTargetWins={(match, bracketMatch) =>
                   match?.targetWins ??
                   getBmFinalsTargetWins({ stage: match?.stage ?? 'playoff', round: match?.round ?? bracketMatch.round })
@@ -826,12 +856,13 @@ export default function BattleModeFinals({ params }: { params: Promise<{ id: str
           /* Playoff only (Phase 1) */
           <>
             <PlayoffBracket
+              projectionMode="BM"
               playoffMatches={playoffMatches}
               playoffStructure={playoffStructure}
               roundNames={roundNames}
               seededPlayers={playoffSeededPlayers}
-              onMatchClick={isAdmin ? openScoreDialog : undefined}
-              onTvNumberChange={isAdmin ? handleBracketTvNumberChange : undefined}
+              onMatchClick={can('scores') ? openScoreDialog : undefined}
+              onTvNumberChange={can('tv') ? handleBracketTvNumberChange : undefined}
               getTargetWins={(match, bracketMatch) =>
                 match?.targetWins ??
                 getBmFinalsTargetWins({ stage: match?.stage ?? 'playoff', round: match?.round ?? bracketMatch.round })
@@ -850,6 +881,7 @@ export default function BattleModeFinals({ params }: { params: Promise<{ id: str
         ) : (
           /* Finals only */
           <DoubleEliminationBracket
+            projectionMode="BM"
             matches={matches}
             bracketStructure={bracketStructure}
             roundNames={roundNames}
@@ -858,15 +890,15 @@ export default function BattleModeFinals({ params }: { params: Promise<{ id: str
               match?.targetWins ??
               getBmFinalsTargetWins({ stage: match?.stage, round: match?.round ?? bracketMatch.round })
             }
-            onMatchClick={isAdmin ? openScoreDialog : undefined}
-            onTvNumberChange={isAdmin ? handleBracketTvNumberChange : undefined}
+            onMatchClick={can('scores') ? openScoreDialog : undefined}
+            onTvNumberChange={can('tv') ? handleBracketTvNumberChange : undefined}
             slotEditMode={isAdmin ? slotEditMode : undefined}
             onSlotClick={isAdmin ? handleSlotClick : undefined}
           />
         )}
 
-        {/* Score Entry Dialog: admin-only */}
-        {isAdmin && (
+        {/* Score Entry Dialog: admins and score-entry staff; round settings and overrides stay admin-only */}
+        {can('scores') && (
           <Dialog open={isScoreDialogOpen} onOpenChange={setIsScoreDialogOpen}>
             <DialogContent
               className="sm:max-w-2xl"
@@ -904,7 +936,7 @@ export default function BattleModeFinals({ params }: { params: Promise<{ id: str
                 </DialogDescription>
               </DialogHeader>
               <div className="space-y-4 py-4">
-                {selectedMatch && (
+                {isAdmin && selectedMatch && (
                   <FinalsRoundSettings
                     match={selectedMatch}
                     matches={selectedMatch.stage === 'playoff' ? playoffMatches : matches}
@@ -917,7 +949,7 @@ export default function BattleModeFinals({ params }: { params: Promise<{ id: str
                     }}
                   />
                 )}
-                {selectedMatch && (
+                {isAdmin && selectedMatch && (
                   <FinalsScoreOverride
                     key={`${selectedMatch.id}:${selectedMatch.version}`}
                     match={selectedMatch}
@@ -3,7 +3,9 @@
  *
  * Public-facing page for viewing individual BM match status and results.
  * Score entry has been consolidated into the participant page
- * (/tournaments/[id]/bm/participant) for a unified entry point.
+ * (/tournaments/[id]/bm/participant) for a unified entry point. The one
+ * exception is a QR deep link from a match card or the venue screen: its
+ * `?token=` lets that player report this match here without signing in.
  *
  * Features:
  * - Match info display (players, current score)
@@ -17,14 +19,17 @@ import { fetchWithRetry } from '@/lib/fetch-with-retry';
 import { useState, useEffect, useCallback, use } from 'react';
 import { useTranslations } from 'next-intl';
 import { useSession } from 'next-auth/react';
+import { useSearchParams } from 'next/navigation';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { POLLING_INTERVAL } from '@/lib/constants';
+import { POLLING_INTERVAL, TOTAL_BM_ROUNDS } from '@/lib/constants';
 import { usePolling } from '@/lib/hooks/usePolling';
 import { UpdateIndicator } from '@/components/ui/update-indicator';
 import { CardSkeleton } from '@/components/ui/loading-skeleton';
 import { getBmFinalsTargetWins } from '@/lib/finals-target-wins';
+import { useMatchReportAuth } from '@/lib/hooks/useMatchReportAuth';
+import { MATCH_REPORT_TOKEN_PARAM } from '@/lib/match-report-token';
 
 import type { Player } from '@/lib/types';
 
@@ -51,6 +56,9 @@ interface BMMatch {
   player2: Player;
 }
 
+/* Every valid qualification result from the reporter's point of view, e.g. 3-1. */
+const BM_RESULTS = Array.from({ length: TOTAL_BM_ROUNDS + 1 }, (_, wins) => TOTAL_BM_ROUNDS - wins);
+
 /** Tournament metadata for display */
 interface Tournament {
   id: string;
@@ -72,6 +80,11 @@ export default function MatchDetailPage({ params }: { params: Promise<{ id: stri
   const [tournament, setTournament] = useState<Tournament | null>(null);
   const [loading, setLoading] = useState(true);
   const { data: session, status: sessionStatus } = useSession();
+  const reportToken = useSearchParams().get(MATCH_REPORT_TOKEN_PARAM);
+  const { tokenSide, reportHeaders } = useMatchReportAuth(match, reportToken);
+  const [submitting, setSubmitting] = useState(false);
+  const [submitted, setSubmitted] = useState(false);
+  const [error, setError] = useState('');
 
   /**
    * Fetch match and tournament data in parallel.
@@ -109,6 +122,7 @@ export default function MatchDetailPage({ params }: { params: Promise<{ id: stri
     isPolling,
   } = usePolling(fetchMatchData, {
     interval: POLLING_INTERVAL,
+    streamUrl: `/api/tournaments/${tournamentId}/events?scope=bm`,
   });
 
   /* Update local state when polling returns new data */
@@ -124,6 +138,34 @@ export default function MatchDetailPage({ params }: { params: Promise<{ id: stri
     setLoading(pollLoading);
   }, [pollLoading]);
 
+  /**
+   * Report a result through the QR token. `ownWins` is the reporting side's
+   * rounds won; the score is sent as player1/player2 like the participant page.
+   */
+  const submitTokenReport = async (ownWins: number) => {
+    if (tokenSide === null) return;
+    const score1 = tokenSide === 1 ? ownWins : TOTAL_BM_ROUNDS - ownWins;
+    setSubmitting(true);
+    setError('');
+    try {
+      const response = await fetch(`/api/tournaments/${tournamentId}/bm/match/${matchId}/report`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...reportHeaders },
+        body: JSON.stringify({ reportingPlayer: tokenSide, score1, score2: TOTAL_BM_ROUNDS - score1 }),
+      });
+      if (response.ok) {
+        setSubmitted(true);
+      } else {
+        const data = await response.json().catch(() => ({}));
+        setError(data.error || 'Failed to submit result');
+      }
+    } catch {
+      setError('Failed to submit result');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
   /* Loading skeleton for initial page load */
   if (loading) {
     return (
@@ -221,8 +263,41 @@ export default function MatchDetailPage({ params }: { params: Promise<{ id: stri
           </Card>
         )}
 
+        {/* QR token score entry: one button per possible result */}
+        {!match.completed && tokenSide !== null && (
+          <Card>
+            <CardHeader>
+              <CardTitle>{submitted ? tMatch('resultSubmitted') : tMatch('enterResult')}</CardTitle>
+              <CardDescription>
+                {submitted
+                  ? tMatch('waitingConfirm')
+                  : `${(tokenSide === 1 ? match.player1 : match.player2).nickname} · ${tMatch('scoreRoundsWon')}`}
+              </CardDescription>
+            </CardHeader>
+            {!submitted && (
+              <CardContent className="space-y-3">
+                <div className="grid grid-cols-5 gap-2">
+                  {BM_RESULTS.map((ownWins) => (
+                    <Button
+                      key={ownWins}
+                      variant="outline"
+                      className="h-14 text-lg font-mono"
+                      disabled={submitting}
+                      onClick={() => void submitTokenReport(ownWins)}
+                    >
+                      {ownWins}-{TOTAL_BM_ROUNDS - ownWins}
+                    </Button>
+                  ))}
+                </div>
+                {submitting && <p className="text-sm text-muted-foreground text-center">{tMatch('submitting')}</p>}
+                {error && <p className="text-sm text-destructive text-center">{error}</p>}
+              </CardContent>
+            )}
+          </Card>
+        )}
+
         {/* In-progress state */}
-        {!match.completed && (
+        {!match.completed && tokenSide === null && (
           <Card>
             <CardContent className="py-6 text-center space-y-4">
               <p className="text-muted-foreground">{tMatch('matchInProgress')}</p>
@@ -27,6 +27,7 @@ import { fetchWithRetry } from '@/lib/fetch-with-retry';
 import { useState, useCallback, useEffect, useMemo } from 'react';
 import { useLocale, useTranslations } from 'next-intl';
 import { useSession } from 'next-auth/react';
+import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -41,7 +42,7 @@ import {
   DialogTitle,
 } from '@/components/ui/dialog';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { GroupSetupDialog } from '@/components/tournament/group-setup-dialog';
+import { GroupSetupDialog, type SetupPlayer } from '@/components/tournament/group-setup-dialog';
 import { ModePublishSwitch } from '@/components/tournament/mode-publish-switch';
 import { QualificationPlayoffManager } from '@/components/tournament/qualification-playoff-manager';
 import { RankCell } from '@/components/tournament/rank-cell';
@@ -49,6 +50,9 @@ import { TieWarningBanner } from '@/components/tournament/tie-warning-banner';
 import { CombinedStandingsTable } from '@/components/tournament/combined-standings-table';
 import { PlayerName } from '@/components/ui/player-name';
 import { DebugFillButton } from '@/components/tournament/debug-fill-button';
+import { SwissRoundControl } from '@/components/tournament/swiss-round-control';
+import { WithdrawPlayerControl } from '@/components/tournament/withdraw-player-control';
+import type { SwissProgress } from '@/lib/swiss-pairing';
 import { useTournamentDebugMode } from '@/lib/hooks/use-tournament-debug-mode';
 import {
   buildPlayoffRankAssignments,
@@ -72,6 +76,7 @@ import { createLogger } from '@/lib/client-logger';
 import { parseManualScore } from '@/lib/parse-manual-score';
 import { canCreateFinalsFromQualification, canResetFinalsFromQualification } from '@/lib/finals-action-availability';
 import { getQualificationPoints } from '@/lib/points/qualification-points';
+import { useTournamentPermissions } from '@/lib/hooks/use-tournament-permissions';
 import type { Player } from '@/lib/types';
 
 /** Client-side logger for error tracking */
@@ -93,6 +98,7 @@ interface BMQualification {
   score: number; // Match points (wins*2 + ties)
   rankOverride: number | null; // 管理者手動順位 (null = 自動計算)
   combinedRankOverride: number | null; // グループ横断の同率決着順位
+  withdrawnAt?: string | null; // 予選途中の棄権日時
   player: Player;
 }
 
@@ -133,10 +139,12 @@ export default function BattleModePageClient({
 }) {
   const t = useTranslations('bm');
   const tc = useTranslations('common');
+  const tw = useTranslations('withdrawal');
   const locale = useLocale();
   const { data: session } = useSession();
   /* Check admin role for conditional UI rendering */
   const isAdmin = session?.user && session.user.role === 'admin';
+  const can = useTournamentPermissions(tournamentId);
   const debugMode = useTournamentDebugMode(tournamentId);
 
   /* State for group setup dialog */
@@ -182,6 +190,8 @@ export default function BattleModePageClient({
       matches: bmData.matches || [],
       allPlayers,
       qualificationConfirmed: bmData.qualificationConfirmed ?? false,
+      groupPresets: bmData.groupPresets as SetupPlayer[] | undefined,
+      swiss: bmData.swiss as SwissProgress | undefined,
     };
   }, [tournamentId]);
 
@@ -199,6 +209,7 @@ export default function BattleModePageClient({
     refetch,
   } = usePolling(fetchTournamentData, {
     interval: POLLING_INTERVAL,
+    streamUrl: `/api/tournaments/${tournamentId}/events?scope=bm`,
     cacheKey: `tournament/${tournamentId}/bm`,
     initialData,
   });
@@ -443,6 +454,28 @@ export default function BattleModePageClient({
             <DebugFillButton tournamentId={tournamentId} mode="bm" onFilled={refetch} />
           )}
 
+          {/* Admin-only Swiss pairing — present only for Swiss-system tournaments */}
+          {isAdmin && pollData.swiss && (
+            <SwissRoundControl
+              tournamentId={tournamentId}
+              mode="bm"
+              progress={pollData.swiss}
+              locked={qualificationConfirmed}
+              onPaired={refetch}
+            />
+          )}
+
+          {/* Admin-only mid-qualification withdrawal */}
+          {isAdmin && qualifications.length > 0 && (
+            <WithdrawPlayerControl
+              tournamentId={tournamentId}
+              mode="bm"
+              qualifications={qualifications}
+              locked={qualificationConfirmed}
+              onWithdrawn={refetch}
+            />
+          )}
+
           {/* Admin-only bracket reset — visible only after qualification is unlocked. */}
           {isAdmin && canResetFinals && (
             <Button
@@ -530,6 +563,7 @@ export default function BattleModePageClient({
                 group: q.group,
                 seeding: q.seeding ?? undefined,
               }))}
+              presetAssignments={pollData?.groupPresets}
             />
           )}
 
@@ -637,7 +671,10 @@ export default function BattleModePageClient({
                                     />
                                   </TableCell>
                                   <TableCell className="font-medium">
-                                    <PlayerName player={q.player} locale={locale} />
+                                    <span className="inline-flex items-center gap-2">
+                                      <PlayerName player={q.player} locale={locale} />
+                                      {q.withdrawnAt && <Badge variant="secondary">{tw('badge')}</Badge>}
+                                    </span>
                                   </TableCell>
                                   <TableCell className="text-center">{q.mp}</TableCell>
                                   <TableCell className="text-center">{q.wins}</TableCell>
@@ -680,6 +717,7 @@ export default function BattleModePageClient({
                 points: t('pts'),
                 qualificationPoints: tc('qualificationPointsShort'),
                 qualificationPointsTooltip: tc('qualificationPointsTooltip'),
+                withdrawn: tw('badge'),
               }}
               rankings={combinedRankings}
               getGroupLabel={(group) => tc('groupLabel', { group })}
@@ -878,10 +916,10 @@ export default function BattleModePageClient({
                                     >
                                       {match.isBye ? tc('bye') : match.player2.nickname}
                                     </TableCell>
-                                    {/* TV# assignment: admin can select TV number, others see read-only.
+                                    {/* TV# assignment: admins and staff can select TV number, others see read-only.
                                       Optimistic update: local state is updated immediately; API fires in background. */}
                                     <TableCell className="text-center">
-                                      {isAdmin && !match.isBye ? (
+                                      {can('tv') && !match.isBye ? (
                                         <select
                                           className="w-14 h-8 text-center text-sm border rounded bg-background"
                                           value={
@@ -917,8 +955,8 @@ export default function BattleModePageClient({
                                             </a>
                                           </Button>
                                         )}
-                                        {/* 配信に反映: admin pushes this match's players to the overlay */}
-                                        {isAdmin && !match.isBye && (
+                                        {/* 配信に反映: admin or broadcast operator pushes this match's players to the overlay */}
+                                        {can('broadcast') && !match.isBye && (
                                           <Button
                                             variant="outline"
                                             size="sm"
@@ -935,8 +973,8 @@ export default function BattleModePageClient({
                                             {broadcastingMatchId === match.id ? tc('saving') : tc('broadcastReflect')}
                                           </Button>
                                         )}
-                                        {/* Admin-only score entry/edit button (not for BYE matches, locked when confirmed) */}
-                                        {isAdmin && !match.isBye && (
+                                        {/* Admin/staff score entry/edit button (not for BYE matches, locked when confirmed) */}
+                                        {can('scores') && !match.isBye && (
                                           <Button
                                             variant={match.completed ? 'outline' : 'default'}
                                             size="sm"
@@ -59,6 +59,13 @@ import { FinalsRoundSettings } from '@/components/tournament/finals-round-settin
 import { FinalsCupAssignment } from '@/components/tournament/finals-cup-assignment';
 import { FinalsScoreOverride } from '@/components/tournament/finals-score-override';
 import { FinalsPlayoffReconciliation } from '@/components/tournament/finals-playoff-reconciliation';
+import {
+  DEFAULT_FINALS_BRACKET_OPTION,
+  FINALS_FORMAT_KEYS,
+  FinalsBracketSizePicker,
+  findFinalsBracketOption,
+  type FinalsBracketOption,
+} from '@/components/tournament/finals-bracket-size-picker';
 import {
   COURSE_INFO,
   CUPS,
@@ -77,6 +84,7 @@ import { CardSkeleton } from '@/components/ui/loading-skeleton';
 import { createLogger } from '@/lib/client-logger';
 import { canResetFinalsFromQualification } from '@/lib/finals-action-availability';
 import { parseManualScore } from '@/lib/parse-manual-score';
+import { useTournamentPermissions } from '@/lib/hooks/use-tournament-permissions';
 import type { Player } from '@/lib/types';
 import { buildMatchLabel } from '@/lib/overlay/phase';
 import { getGpFinalsMaxCups, getGpFinalsTargetWins } from '@/lib/finals-target-wins';
@@ -86,6 +94,7 @@ import { getGpFinalsMatchWinner } from '@/lib/gp-finals-match-winner';
 import { isValidGpFinalsSimpleScore } from '@/lib/gp-finals-simple-score';
 import { GP_DRIVER_POINTS_INPUT_PROPS, parseGpDriverPointsInput } from '@/lib/gp-driver-points-input';
 import { BRACKET_TABS, type BracketTab } from '@/lib/bracket-tabs';
+import { getFinalsFormatFromRound, getRoundRobinFinalsStandings } from '@/lib/finals-format';
 
 /** Client-side logger for error tracking */
 const logger = createLogger({ serviceName: 'tournaments-gp-finals' });
@@ -167,7 +176,7 @@ type GPBracketMatch = GPMatch & {
 interface BracketMatch {
   matchNumber: number;
   round: string;
-  bracket: 'winners' | 'losers' | 'grand_final';
+  bracket: 'winners' | 'losers' | 'grand_final' | 'third_place' | 'round_robin';
   player1Seed?: number;
   player2Seed?: number;
 }
@@ -195,7 +204,35 @@ function getMatchWinner(match: GPMatch): Player | null {
   return getGpFinalsMatchWinner(match);
 }
 
-function getCompletedChampion(matches: GPMatch[]): Player | null {
+function getCompletedChampion(matches: GPMatch[], seededPlayers: SeededPlayer[] = []): Player | null {
+  const singleFinal = matches.find((m) => m.round === 'single_final' && m.completed);
+  if (singleFinal) return getMatchWinner(singleFinal);
+
+  /* Round-robin pool: the champion tops the standings once every match is in. */
+  const pool = matches.filter((m) => getFinalsFormatFromRound(m.round) === 'round_robin');
+  if (pool.length > 0) {
+    if (!pool.every((m) => m.completed)) return null;
+    const results = pool.flatMap((match) => {
+      const winner = getMatchWinner(match);
+      return winner
+        ? [
+            {
+              player1Id: match.player1Id,
+              player2Id: match.player2Id,
+              winnerId: winner.id,
+              score1: getGpScore(match, 1),
+              score2: getGpScore(match, 2),
+            },
+          ]
+        : [];
+    });
+    const [first] = getRoundRobinFinalsStandings(
+      results,
+      [...seededPlayers].sort((a, b) => a.seed - b.seed).map((entry) => entry.playerId),
+    );
+    return pool.flatMap((m) => [m.player1, m.player2]).find((player) => player.id === first?.playerId) ?? null;
+  }
+
   const reset = matches.find((m) => m.round === 'grand_final_reset' && m.completed);
   if (reset) return getMatchWinner(reset);
 
@@ -211,6 +248,7 @@ export default function GrandPrixFinals({ params }: { params: Promise<{ id: stri
 
   /** Admin role check: only admins can generate/reset brackets and enter scores */
   const isAdmin = session?.user && session.user.role === 'admin';
+  const can = useTournamentPermissions(tournamentId);
 
   /**
    * i18n translation hooks for Grand Prix Finals page.
@@ -232,12 +270,14 @@ export default function GrandPrixFinals({ params }: { params: Promise<{ id: stri
   const [roundNames, setRoundNames] = useState<Record<string, string>>({});
   const [loading, setLoading] = useState(true);
   const [creating, setCreating] = useState(false);
-  const [bracketSize, setBracketSize] = useState<8 | 16 | 24>(8);
+  /** Bracket size option (FINALS_BRACKET_OPTIONS); Top 24 defaults to the playoff flow (§4.2 issue #454) */
+  const [bracketOption, setBracketOption] = useState<FinalsBracketOption>(DEFAULT_FINALS_BRACKET_OPTION);
   /** Apply topN from sessionStorage if set by qualification page */
   useEffect(() => {
     const stored = sessionStorage.getItem('gp_finals_topN');
-    if (stored === '24' || stored === '16') {
-      setBracketSize(parseInt(stored) as 8 | 16 | 24);
+    const option = findFinalsBracketOption(stored);
+    if (option) {
+      setBracketOption(option);
     }
     sessionStorage.removeItem('gp_finals_topN');
   }, []);
@@ -317,6 +357,7 @@ export default function GrandPrixFinals({ params }: { params: Promise<{ id: stri
     refetch,
   } = usePolling(fetchFinalsData, {
     interval: POLLING_INTERVAL,
+    streamUrl: `/api/tournaments/${tournamentId}/events?scope=gp`,
   });
 
   useEffect(() => {
@@ -332,7 +373,7 @@ export default function GrandPrixFinals({ params }: { params: Promise<{ id: stri
       if (pollData.playoffComplete !== undefined) {
         setPlayoffComplete(pollData.playoffComplete);
       }
-      setChampion(getCompletedChampion(pollData.matches));
+      setChampion(getCompletedChampion(pollData.matches, pollData.seededPlayers));
     }
   }, [pollData]);
 
@@ -353,7 +394,12 @@ export default function GrandPrixFinals({ params }: { params: Promise<{ id: stri
       const response = await fetch(`/api/tournaments/${tournamentId}/gp/finals`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ topN: bracketSize }),
+        body: JSON.stringify({
+          topN: bracketOption.topN,
+          playoff: bracketOption.playoff,
+          format: bracketOption.format,
+          thirdPlace: bracketOption.thirdPlace,
+        }),
       });
 
       if (response.ok) {
@@ -761,7 +807,9 @@ export default function GrandPrixFinals({ params }: { params: Promise<{ id: stri
         <div>
           {/* i18n: Page title from 'gp' namespace, subtitle from 'finals' namespace */}
           <h1 className="text-3xl font-bold">{tGp('finalsTitle')}</h1>
-          <p className="text-muted-foreground">{tFinals('doubleElimination')}</p>
+          <p className="text-muted-foreground">
+            {tFinals(FINALS_FORMAT_KEYS[getFinalsFormatFromRound(bracketStructure[0]?.round)].title)}
+          </p>
           <div className="mt-2">
             <UpdateIndicator lastUpdated={lastUpdated} isPolling={isPolling} />
           </div>
@@ -776,35 +824,17 @@ export default function GrandPrixFinals({ params }: { params: Promise<{ id: stri
               <AlertDialogContent>
                 <AlertDialogHeader>
                   <AlertDialogTitle>{tFinals('generateConfirmTitle')}</AlertDialogTitle>
-                  <AlertDialogDescription>{tFinals('generateConfirmDesc')}</AlertDialogDescription>
+                  <AlertDialogDescription>
+                    {bracketOption.format === 'double_elimination'
+                      ? tFinals('generateConfirmDesc')
+                      : tFinals('generateConfirmDescFormat')}
+                  </AlertDialogDescription>
                 </AlertDialogHeader>
-                <div className="flex gap-2 justify-center py-2">
-                  <Button
-                    size="sm"
-                    variant={bracketSize === 8 ? 'default' : 'outline'}
-                    onClick={() => setBracketSize(8)}
-                  >
-                    {tFinals('top8')}
-                  </Button>
-                  <Button
-                    size="sm"
-                    variant={bracketSize === 16 ? 'default' : 'outline'}
-                    onClick={() => setBracketSize(16)}
-                  >
-                    {tFinals('top16')}
-                  </Button>
-                  <Button
-                    size="sm"
-                    variant={bracketSize === 24 ? 'default' : 'outline'}
-                    onClick={() => setBracketSize(24)}
-                  >
-                    {tFinals('top24')}
-                  </Button>
-                </div>
+                <FinalsBracketSizePicker value={bracketOption} onChange={setBracketOption} />
                 <AlertDialogFooter>
                   <AlertDialogCancel>{tCommon('cancel')}</AlertDialogCancel>
                   <AlertDialogAction onClick={handleCreateBracket}>
-                    {tFinals('generate')} ({bracketSize} players)
+                    {tFinals('generate')} ({bracketOption.topN} players)
                   </AlertDialogAction>
                 </AlertDialogFooter>
               </AlertDialogContent>
@@ -909,28 +939,30 @@ export default function GrandPrixFinals({ params }: { params: Promise<{ id: stri
           </TabsList>
           <TabsContent value={BRACKET_TABS.finals}>
             <DoubleEliminationBracket
+              projectionMode="GP"
               matches={gpBracketMatches}
               bracketStructure={bracketStructure}
               roundNames={roundNames}
               seededPlayers={seededPlayers}
               getTargetWins={(match) => getTargetWinsForMatch(match)}
               getWinnerId={getBracketWinnerId}
-              onMatchClick={isAdmin ? (openScoreDialog as unknown as (match: { id: string }) => void) : undefined}
-              onTvNumberChange={isAdmin ? handleBracketTvNumberChange : undefined}
+              onMatchClick={can('scores') ? (openScoreDialog as unknown as (match: { id: string }) => void) : undefined}
+              onTvNumberChange={can('tv') ? handleBracketTvNumberChange : undefined}
               slotEditMode={isAdmin ? slotEditMode : undefined}
               onSlotClick={isAdmin ? handleSlotClick : undefined}
             />
           </TabsContent>
           <TabsContent value={BRACKET_TABS.playoff}>
             <PlayoffBracket
+              projectionMode="GP"
               playoffMatches={gpPlayoffBracketMatches}
               playoffStructure={playoffStructure}
               roundNames={roundNames}
               seededPlayers={playoffSeededPlayers}
               getTargetWins={(match) => getTargetWinsForMatch(match)}
               getWinnerId={getBracketWinnerId}
-              onMatchClick={isAdmin ? (openScoreDialog as unknown as (match: { id: string }) => void) : undefined}
-              onTvNumberChange={isAdmin ? handleBracketTvNumberChange : undefined}
+              onMatchClick={can('scores') ? (openScoreDialog as unknown as (match: { id: string }) => void) : undefined}
+              onTvNumberChange={can('tv') ? handleBracketTvNumberChange : undefined}
               slotEditMode={isAdmin ? slotEditMode : undefined}
               onSlotClick={isAdmin ? handleSlotClick : undefined}
             />
@@ -947,14 +979,15 @@ export default function GrandPrixFinals({ params }: { params: Promise<{ id: stri
       ) : playoffMatches.length > 0 ? (
         <>
           <PlayoffBracket
+            projectionMode="GP"
             playoffMatches={gpPlayoffBracketMatches}
             playoffStructure={playoffStructure}
             roundNames={roundNames}
             seededPlayers={playoffSeededPlayers}
             getTargetWins={(match) => getTargetWinsForMatch(match)}
             getWinnerId={getBracketWinnerId}
-            onMatchClick={isAdmin ? (openScoreDialog as unknown as (match: { id: string }) => void) : undefined}
-            onTvNumberChange={isAdmin ? handleBracketTvNumberChange : undefined}
+            onMatchClick={can('scores') ? (openScoreDialog as unknown as (match: { id: string }) => void) : undefined}
+            onTvNumberChange={can('tv') ? handleBracketTvNumberChange : undefined}
             slotEditMode={isAdmin ? slotEditMode : undefined}
             onSlotClick={isAdmin ? handleSlotClick : undefined}
           />
@@ -968,14 +1001,15 @@ export default function GrandPrixFinals({ params }: { params: Promise<{ id: stri
         </>
       ) : (
         <DoubleEliminationBracket
+          projectionMode="GP"
           matches={gpBracketMatches}
           bracketStructure={bracketStructure}
           roundNames={roundNames}
           seededPlayers={seededPlayers}
           getTargetWins={(match) => getTargetWinsForMatch(match)}
           getWinnerId={getBracketWinnerId}
-          onMatchClick={isAdmin ? (openScoreDialog as unknown as (match: { id: string }) => void) : undefined}
-          onTvNumberChange={isAdmin ? handleBracketTvNumberChange : undefined}
+          onMatchClick={can('scores') ? (openScoreDialog as unknown as (match: { id: string }) => void) : undefined}
+          onTvNumberChange={can('tv') ? handleBracketTvNumberChange : undefined}
           slotEditMode={isAdmin ? slotEditMode : undefined}
           onSlotClick={isAdmin ? handleSlotClick : undefined}
         />
@@ -992,7 +1026,7 @@ export default function GrandPrixFinals({ params }: { params: Promise<{ id: stri
 
       {/* All new GP stages begin with the final cup-win score. Saved cup
            details remain available for review and correction. */}
-      {isAdmin && (
+      {can('scores') && (
         <Dialog open={isScoreDialogOpen} onOpenChange={setIsScoreDialogOpen}>
           <DialogContent className="w-[calc(100vw-2rem)] max-w-[calc(100vw-2rem)] sm:max-w-4xl max-h-[90vh] overflow-y-auto p-4 sm:p-6">
             <DialogHeader>
@@ -1012,7 +1046,7 @@ export default function GrandPrixFinals({ params }: { params: Promise<{ id: stri
               </DialogDescription>
             </DialogHeader>
             <div className="space-y-4 py-4">
-              {selectedMatch && (
+              {isAdmin && selectedMatch && (
                 <FinalsRoundSettings
                   match={selectedMatch}
                   matches={selectedMatch.stage === 'playoff' ? playoffMatches : matches}
@@ -1025,7 +1059,7 @@ export default function GrandPrixFinals({ params }: { params: Promise<{ id: stri
                   }}
                 />
               )}
-              {selectedMatch && (
+              {isAdmin && selectedMatch && (
                 <FinalsCupAssignment
                   key={`${selectedMatch.id}:${selectedMatch.version}:cup`}
                   match={selectedMatch}
@@ -1037,7 +1071,7 @@ export default function GrandPrixFinals({ params }: { params: Promise<{ id: stri
                   }}
                 />
               )}
-              {selectedMatch && (
+              {isAdmin && selectedMatch && (
                 <FinalsScoreOverride
                   key={`${selectedMatch.id}:${selectedMatch.version}`}
                   match={selectedMatch}
@@ -7,7 +7,8 @@ import { fetchWithRetry } from '@/lib/fetch-with-retry';
  * Public page for viewing and reporting GP match results.
  * Viewing is public (no auth), but score entry requires authentication
  * as a match participant or admin (enforced by useMatchReportAuth hook
- * on the UI side, and checkScoreReportAuth on the API side).
+ * on the UI side, and checkScoreReportAuth on the API side). A `?token=`
+ * from a match card or venue screen QR code stands in for signing in.
  *
  * Features:
  * - Authorization-gated score entry (participants and admins only)
@@ -22,6 +23,7 @@ import { fetchWithRetry } from '@/lib/fetch-with-retry';
 
 import { useState, useEffect, useCallback, useRef, use } from 'react';
 import { useLocale, useTranslations } from 'next-intl';
+import { useSearchParams } from 'next/navigation';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
@@ -42,6 +44,7 @@ import { UpdateIndicator } from '@/components/ui/update-indicator';
 import { CardSkeleton } from '@/components/ui/loading-skeleton';
 import { createLogger } from '@/lib/client-logger';
 import { useMatchReportAuth } from '@/lib/hooks/useMatchReportAuth';
+import { MATCH_REPORT_TOKEN_PARAM } from '@/lib/match-report-token';
 import { getSharedMatchAccessState } from '@/lib/shared-match-access-state';
 import { GP_DRIVER_POINTS_INPUT_PROPS, parseGpDriverPointsInput } from '@/lib/gp-driver-points-input';
 import { getGpFinalsTargetWins } from '@/lib/finals-target-wins';
@@ -114,7 +117,9 @@ export default function GPMatchPage({ params }: { params: Promise<{ id: string;
   const [loading, setLoading] = useState(true);
 
   /* Authorization: determines if current user can report scores */
-  const { canReport, isAdmin, isSessionLoading, selectedPlayer, setSelectedPlayer } = useMatchReportAuth(match);
+  const reportToken = useSearchParams().get(MATCH_REPORT_TOKEN_PARAM);
+  const { canReport, isAdmin, isSessionLoading, selectedPlayer, setSelectedPlayer, tokenSide, reportHeaders } =
+    useMatchReportAuth(match, reportToken);
 
   const [submitting, setSubmitting] = useState(false);
   /* GP cup has 5 races (§7.2), each with course and position selections */
@@ -168,6 +173,7 @@ export default function GPMatchPage({ params }: { params: Promise<{ id: string;
     refetch,
   } = usePolling(fetchMatchData, {
     interval: POLLING_INTERVAL,
+    streamUrl: `/api/tournaments/${tournamentId}/events?scope=gp`,
   });
 
   useEffect(() => {
@@ -289,7 +295,7 @@ export default function GPMatchPage({ params }: { params: Promise<{ id: string;
     try {
       const response = await fetch(`/api/tournaments/${tournamentId}/gp/match/${matchId}/report`, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...reportHeaders },
         body: JSON.stringify({
           reportingPlayer: selectedPlayer,
           ...(entryMode === 'manual' ? { points1, points2 } : { races }),
@@ -465,6 +471,7 @@ export default function GPMatchPage({ params }: { params: Promise<{ id: string;
                     <Button
                       variant={selectedPlayer === 1 ? 'default' : 'outline'}
                       className="h-16 text-lg"
+                      disabled={tokenSide === 2}
                       onClick={() => selectReportingPlayer(1)}
                     >
                       {match.player1.nickname}
@@ -472,6 +479,7 @@ export default function GPMatchPage({ params }: { params: Promise<{ id: string;
                     <Button
                       variant={selectedPlayer === 2 ? 'default' : 'outline'}
                       className="h-16 text-lg"
+                      disabled={tokenSide === 1}
                       onClick={() => selectReportingPlayer(2)}
                     >
                       {match.player2.nickname}
@@ -22,6 +22,7 @@ import { fetchWithRetry } from '@/lib/fetch-with-retry';
 import { useState, useCallback, useEffect, useMemo } from 'react';
 import { useSession } from 'next-auth/react';
 import { useLocale, useTranslations } from 'next-intl';
+import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Input } from '@/components/ui/input';
@@ -37,13 +38,16 @@ import {
   DialogTitle,
 } from '@/components/ui/dialog';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { GroupSetupDialog } from '@/components/tournament/group-setup-dialog';
+import { GroupSetupDialog, type SetupPlayer } from '@/components/tournament/group-setup-dialog';
 import { ModePublishSwitch } from '@/components/tournament/mode-publish-switch';
 import { QualificationPlayoffManager } from '@/components/tournament/qualification-playoff-manager';
 import { RankCell } from '@/components/tournament/rank-cell';
 import { TieWarningBanner } from '@/components/tournament/tie-warning-banner';
 import { CombinedTieResolution } from '@/components/tournament/combined-tie-resolution';
 import { DebugFillButton } from '@/components/tournament/debug-fill-button';
+import { SwissRoundControl } from '@/components/tournament/swiss-round-control';
+import { WithdrawPlayerControl } from '@/components/tournament/withdraw-player-control';
+import type { SwissProgress } from '@/lib/swiss-pairing';
 import { useTournamentDebugMode } from '@/lib/hooks/use-tournament-debug-mode';
 import {
   buildPlayoffRankAssignments,
@@ -81,6 +85,7 @@ import { canCreateFinalsFromQualification, canResetFinalsFromQualification } fro
 import { getQualificationPoints } from '@/lib/points/qualification-points';
 import { GP_DRIVER_POINTS_INPUT_PROPS, parseGpDriverPointsInput } from '@/lib/gp-driver-points-input';
 
+import { useTournamentPermissions } from '@/lib/hooks/use-tournament-permissions';
 import type { Player } from '@/lib/types';
 
 const logger = createLogger({ serviceName: 'tournaments-gp' });
@@ -99,6 +104,7 @@ interface GPQualification {
   score: number;
   rankOverride: number | null; // 管理者手動順位 (null = 自動計算)
   combinedRankOverride: number | null; // グループ横断の同率決着順位
+  withdrawnAt?: string | null; // 予選途中の棄権日時
   player: Player;
 }
 
@@ -154,10 +160,12 @@ export default function GrandPrixPageClient({
   const { data: session } = useSession();
   const t = useTranslations('gp');
   const tc = useTranslations('common');
+  const tw = useTranslations('withdrawal');
   const locale = useLocale();
 
   /** Admin role check: only admins can setup groups, enter results, and reset */
   const isAdmin = session?.user && session.user.role === 'admin';
+  const can = useTournamentPermissions(tournamentId);
   const debugMode = useTournamentDebugMode(tournamentId);
   const [isSetupDialogOpen, setIsSetupDialogOpen] = useState(false);
   const [isMatchDialogOpen, setIsMatchDialogOpen] = useState(false);
@@ -212,6 +220,8 @@ export default function GrandPrixPageClient({
       matches: gpData.matches || [],
       allPlayers,
       qualificationConfirmed: gpData.qualificationConfirmed ?? false,
+      groupPresets: gpData.groupPresets as SetupPlayer[] | undefined,
+      swiss: gpData.swiss as SwissProgress | undefined,
     };
   }, [tournamentId]);
 
@@ -227,6 +237,7 @@ export default function GrandPrixPageClient({
     refetch,
   } = usePolling(fetchTournamentData, {
     interval: POLLING_INTERVAL,
+    streamUrl: `/api/tournaments/${tournamentId}/events?scope=gp`,
     cacheKey: `tournament/${tournamentId}/gp`,
     initialData,
   });
@@ -629,6 +640,28 @@ export default function GrandPrixPageClient({
             <DebugFillButton tournamentId={tournamentId} mode="gp" onFilled={refetch} />
           )}
 
+          {/* Admin-only Swiss pairing — present only for Swiss-system tournaments */}
+          {isAdmin && pollData.swiss && (
+            <SwissRoundControl
+              tournamentId={tournamentId}
+              mode="gp"
+              progress={pollData.swiss}
+              locked={qualificationConfirmed}
+              onPaired={refetch}
+            />
+          )}
+
+          {/* Admin-only mid-qualification withdrawal */}
+          {isAdmin && qualifications.length > 0 && (
+            <WithdrawPlayerControl
+              tournamentId={tournamentId}
+              mode="gp"
+              qualifications={qualifications}
+              locked={qualificationConfirmed}
+              onWithdrawn={refetch}
+            />
+          )}
+
           {/* Admin-only bracket reset — visible only after qualification is unlocked. */}
           {isAdmin && canResetFinals && (
             <Button
@@ -715,6 +748,7 @@ export default function GrandPrixPageClient({
                 group: q.group,
                 seeding: q.seeding ?? undefined,
               }))}
+              presetAssignments={pollData?.groupPresets}
             />
           )}
 
@@ -819,7 +853,10 @@ export default function GrandPrixPageClient({
                                     />
                                   </TableCell>
                                   <TableCell className="font-medium">
-                                    <PlayerName player={q.player} locale={locale} />
+                                    <span className="inline-flex items-center gap-2">
+                                      <PlayerName player={q.player} locale={locale} />
+                                      {q.withdrawnAt && <Badge variant="secondary">{tw('badge')}</Badge>}
+                                    </span>
                                   </TableCell>
                                   <TableCell className="text-center">{q.mp}</TableCell>
                                   <TableCell className="text-center">{q.wins}</TableCell>
@@ -890,7 +927,10 @@ export default function GrandPrixPageClient({
                         </TableCell>
                         <TableCell>{tc('groupLabel', { group: q.group })}</TableCell>
                         <TableCell className="font-medium">
-                          <PlayerName player={q.player} locale={locale} />
+                          <span className="inline-flex items-center gap-2">
+                            <PlayerName player={q.player} locale={locale} />
+                            {q.withdrawnAt && <Badge variant="secondary">{tw('badge')}</Badge>}
+                          </span>
                         </TableCell>
                         <TableCell className="text-center">{q.mp}</TableCell>
                         <TableCell className="text-center">{q.wins}</TableCell>
@@ -1055,7 +1095,7 @@ export default function GrandPrixPageClient({
                                       {match.isBye ? tc('bye') : match.player2.nickname}
                                     </TableCell>
                                     <TableCell className="text-center">
-                                      {isAdmin && !match.isBye ? (
+                                      {can('tv') && !match.isBye ? (
                                         <select
                                           className="w-14 h-8 text-center text-sm border rounded bg-background"
                                           value={
@@ -1105,7 +1145,7 @@ export default function GrandPrixPageClient({
                                     )}
                                     <TableCell className="text-right">
                                       <div className="flex flex-col sm:flex-row sm:justify-end sm:items-center gap-1">
-                                        {isAdmin && !match.isBye && (
+                                        {can('broadcast') && !match.isBye && (
                                           <Button
                                             variant="outline"
                                             size="sm"
@@ -1122,7 +1162,7 @@ export default function GrandPrixPageClient({
                                             {broadcastingMatchId === match.id ? tc('saving') : tc('broadcastReflect')}
                                           </Button>
                                         )}
-                                        {isAdmin && !match.isBye && (
+                                        {can('scores') && !match.isBye && (
                                           <Button
                                             variant={match.completed ? 'outline' : 'default'}
                                             size="sm"
@@ -19,12 +19,14 @@ import { useTranslations } from 'next-intl';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { ExportButton } from '@/components/tournament/export-button';
+import { PrintSheetsButton } from '@/components/tournament/print-sheets-button';
 import { ErrorBoundary } from '@/components/ErrorBoundary';
 import { createLogger } from '@/lib/client-logger';
 import { cn } from '@/lib/utils';
 import { getTabHydrationGuardProps } from '@/lib/tournament-tab-hydration';
 import { TaModeBadge } from '@/components/tournament/ta-mode-badge';
 import { canUpdateTournamentStatus, parseTournamentStatusUpdateResponse } from '@/lib/tournament-status-update';
+import { useTournamentPermissions } from '@/lib/hooks/use-tournament-permissions';
 
 const logger = createLogger({ serviceName: 'tournaments-layout' });
 
@@ -35,6 +37,7 @@ interface Tournament {
   status: string;
   publicModes: string[];
   taBattleRoyaleMode: boolean;
+  registrationSettings?: { open?: boolean } | null;
   archived?: boolean;
 }
 
@@ -44,9 +47,17 @@ const TABS = [
   { href: 'mr', labelKey: 'matchRace' },
   { href: 'gp', labelKey: 'grandPrix' },
   { href: 'overall-ranking', labelKey: 'overall', publicMode: 'overall' },
+  { href: 'team-ranking', labelKey: 'teams', publicMode: 'overall' },
 ] as const;
 
-const ADMIN_TABS = [{ href: 'broadcast', label: '配信管理' }] as const;
+/* Operator tabs. A tab with a `permission` is also shown to tournament staff holding it. */
+const ADMIN_TABS = [
+  { href: 'broadcast', label: '配信管理', permission: 'broadcast' },
+  { href: 'schedule', label: 'スケジュール' },
+  { href: 'venue', label: '会場表示' },
+  { href: 'staff', label: 'スタッフ' },
+  { href: 'registrations', label: 'エントリー受付' },
+] as const;
 
 function isMinimalPage(pathname: string): boolean {
   return pathname.includes('/participant') || pathname.includes('/match/') || pathname.includes('/overlay');
@@ -54,7 +65,12 @@ function isMinimalPage(pathname: string): boolean {
 
 function getActiveTab(pathname: string): string {
   if (pathname.includes('/overall-ranking')) return 'overall-ranking';
+  if (pathname.includes('/team-ranking')) return 'team-ranking';
   if (pathname.includes('/broadcast')) return 'broadcast';
+  if (pathname.includes('/schedule')) return 'schedule';
+  if (pathname.includes('/venue')) return 'venue';
+  if (pathname.includes('/staff')) return 'staff';
+  if (pathname.includes('/registrations')) return 'registrations';
   for (const tab of TABS) {
     if (tab.href !== 'overall-ranking' && pathname.includes(`/${tab.href}`)) {
       return tab.href;
@@ -76,6 +92,7 @@ export default function TournamentLayout({
   const t = useTranslations('tournaments');
   const tc = useTranslations('common');
   const isAdmin = session?.user && session.user.role === 'admin';
+  const can = useTournamentPermissions(id);
 
   const [tournament, setTournament] = useState<Tournament | null>(null);
   const [loading, setLoading] = useState(true);
@@ -234,12 +251,20 @@ export default function TournamentLayout({
                     {t('reopenTournament')}
                   </Button>
                 )}
+                {tournament.registrationSettings?.open && tournament.status !== 'completed' && (
+                  <Button variant="outline" asChild>
+                    <Link href={`/tournaments/${id}/register`} prefetch={false}>
+                      {t('signUpForTournament')}
+                    </Link>
+                  </Button>
+                )}
                 {isAdmin && <ExportButton tournamentId={id} tournamentName={tournament.name} />}
                 {isAdmin && (
                   <ExportButton tournamentId={id} tournamentName={tournament.name} format="cdm">
                     CDM Export
                   </ExportButton>
                 )}
+                {isAdmin && <PrintSheetsButton tournamentId={id} />}
                 <Button variant="outline" asChild>
                   <Link href="/tournaments" prefetch={false}>
                     ← {t('backToList')}
@@ -293,29 +318,28 @@ export default function TournamentLayout({
                 </li>
               );
             })}
-            {isAdmin &&
-              ADMIN_TABS.map((tab) => {
-                const isActive = activeTab === tab.href;
-                return (
-                  <li key={tab.href}>
-                    <Link
-                      href={`/tournaments/${id}/${tab.href}`}
-                      prefetch={false}
-                      {...tabHydrationGuardProps}
-                      aria-current={isActive ? 'page' : undefined}
-                      className={cn(
-                        'inline-flex items-center px-4 py-3 text-sm transition-colors focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-1 focus-visible:ring-offset-background',
-                        isActive
-                          ? 'pit-active text-foreground font-semibold'
-                          : 'text-muted-foreground hover:text-foreground',
-                        guardClassName,
-                      )}
-                    >
-                      {tab.label}
-                    </Link>
-                  </li>
-                );
-              })}
+            {ADMIN_TABS.filter((tab) => isAdmin || ('permission' in tab && can(tab.permission))).map((tab) => {
+              const isActive = activeTab === tab.href;
+              return (
+                <li key={tab.href}>
+                  <Link
+                    href={`/tournaments/${id}/${tab.href}`}
+                    prefetch={false}
+                    {...tabHydrationGuardProps}
+                    aria-current={isActive ? 'page' : undefined}
+                    className={cn(
+                      'inline-flex items-center px-4 py-3 text-sm transition-colors focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-1 focus-visible:ring-offset-background',
+                      isActive
+                        ? 'pit-active text-foreground font-semibold'
+                        : 'text-muted-foreground hover:text-foreground',
+                      guardClassName,
+                    )}
+                  >
+                    {tab.label}
+                  </Link>
+                </li>
+              );
+            })}
           </ul>
         </nav>
 
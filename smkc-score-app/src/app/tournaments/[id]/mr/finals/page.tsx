@@ -59,6 +59,13 @@ import { FinalsRoundSettings } from '@/components/tournament/finals-round-settin
 import { FinalsRoundCoursesSettings } from '@/components/tournament/finals-round-courses-settings';
 import { FinalsScoreOverride } from '@/components/tournament/finals-score-override';
 import { FinalsPlayoffReconciliation } from '@/components/tournament/finals-playoff-reconciliation';
+import {
+  DEFAULT_FINALS_BRACKET_OPTION,
+  FINALS_FORMAT_KEYS,
+  FinalsBracketSizePicker,
+  findFinalsBracketOption,
+  type FinalsBracketOption,
+} from '@/components/tournament/finals-bracket-size-picker';
 import { COURSE_INFO, POLLING_INTERVAL, TV_NUMBER_OPTIONS, type CourseAbbr } from '@/lib/constants';
 import { getMrFinalsMaxRounds, getMrFinalsTargetWins } from '@/lib/finals-target-wins';
 import { usePolling } from '@/lib/hooks/usePolling';
@@ -67,9 +74,11 @@ import { CardSkeleton } from '@/components/ui/loading-skeleton';
 import { createLogger } from '@/lib/client-logger';
 import { canResetFinalsFromQualification } from '@/lib/finals-action-availability';
 import { parseManualScore } from '@/lib/parse-manual-score';
+import { useTournamentPermissions } from '@/lib/hooks/use-tournament-permissions';
 import type { Player } from '@/lib/types';
 import { buildMatchLabel } from '@/lib/overlay/phase';
 import { BRACKET_TABS, type BracketTab } from '@/lib/bracket-tabs';
+import { getFinalsFormatFromRound, getRoundRobinFinalsStandings } from '@/lib/finals-format';
 
 /** Client-side logger for error tracking */
 const logger = createLogger({ serviceName: 'tournaments-mr-finals' });
@@ -101,7 +110,7 @@ interface MRMatch {
 interface BracketMatch {
   matchNumber: number;
   round: string;
-  bracket: 'winners' | 'losers' | 'grand_final';
+  bracket: 'winners' | 'losers' | 'grand_final' | 'third_place' | 'round_robin';
   player1Seed?: number;
   player2Seed?: number;
 }
@@ -130,7 +139,35 @@ function getMatchWinner(match: MRMatch): Player | null {
   return null;
 }
 
-function getCompletedChampion(matches: MRMatch[]): Player | null {
+function getCompletedChampion(matches: MRMatch[], seededPlayers: SeededPlayer[] = []): Player | null {
+  const singleFinal = matches.find((m) => m.round === 'single_final' && m.completed);
+  if (singleFinal) return getMatchWinner(singleFinal);
+
+  /* Round-robin pool: the champion tops the standings once every match is in. */
+  const pool = matches.filter((m) => getFinalsFormatFromRound(m.round) === 'round_robin');
+  if (pool.length > 0) {
+    if (!pool.every((m) => m.completed)) return null;
+    const results = pool.flatMap((match) => {
+      const winner = getMatchWinner(match);
+      return winner
+        ? [
+            {
+              player1Id: match.player1Id,
+              player2Id: match.player2Id,
+              winnerId: winner.id,
+              score1: match.score1,
+              score2: match.score2,
+            },
+          ]
+        : [];
+    });
+    const [first] = getRoundRobinFinalsStandings(
+      results,
+      [...seededPlayers].sort((a, b) => a.seed - b.seed).map((entry) => entry.playerId),
+    );
+    return pool.flatMap((m) => [m.player1, m.player2]).find((player) => player.id === first?.playerId) ?? null;
+  }
+
   const reset = matches.find((m) => m.round === 'grand_final_reset' && m.completed);
   if (reset) return getMatchWinner(reset);
 
@@ -184,6 +221,7 @@ export default function MatchRaceFinals({ params }: { params: Promise<{ id: stri
 
   /** Admin role check: only admins can generate/reset brackets and enter scores */
   const isAdmin = session?.user && session.user.role === 'admin';
+  const can = useTournamentPermissions(tournamentId);
 
   /**
    * i18n translation hooks for Match Race Finals page.
@@ -202,12 +240,14 @@ export default function MatchRaceFinals({ params }: { params: Promise<{ id: stri
   const [roundNames, setRoundNames] = useState<Record<string, string>>({});
   const [loading, setLoading] = useState(true);
   const [creating, setCreating] = useState(false);
-  const [bracketSize, setBracketSize] = useState<8 | 16 | 24>(8);
+  /** Bracket size option (FINALS_BRACKET_OPTIONS); Top 24 defaults to the playoff flow (§4.2 issue #454) */
+  const [bracketOption, setBracketOption] = useState<FinalsBracketOption>(DEFAULT_FINALS_BRACKET_OPTION);
   /** Apply topN from sessionStorage if set by qualification page */
   useEffect(() => {
     const stored = sessionStorage.getItem('mr_finals_topN');
-    if (stored === '24' || stored === '16') {
-      setBracketSize(parseInt(stored) as 8 | 16 | 24);
+    const option = findFinalsBracketOption(stored);
+    if (option) {
+      setBracketOption(option);
     }
     sessionStorage.removeItem('mr_finals_topN');
   }, []);
@@ -291,6 +331,7 @@ export default function MatchRaceFinals({ params }: { params: Promise<{ id: stri
     refetch,
   } = usePolling(fetchFinalsData, {
     interval: POLLING_INTERVAL,
+    streamUrl: `/api/tournaments/${tournamentId}/events?scope=mr`,
   });
 
   /* Update local state from polling data */
@@ -307,7 +348,7 @@ export default function MatchRaceFinals({ params }: { params: Promise<{ id: stri
       if (pollData.playoffComplete !== undefined) {
         setPlayoffComplete(pollData.playoffComplete);
       }
-      setChampion(getCompletedChampion(pollData.matches));
+      setChampion(getCompletedChampion(pollData.matches, pollData.seededPlayers));
     }
   }, [pollData]);
 
@@ -328,7 +369,12 @@ export default function MatchRaceFinals({ params }: { params: Promise<{ id: stri
       const response = await fetch(`/api/tournaments/${tournamentId}/mr/finals`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ topN: bracketSize }),
+        body: JSON.stringify({
+          topN: bracketOption.topN,
+          playoff: bracketOption.playoff,
+          format: bracketOption.format,
+          thirdPlace: bracketOption.thirdPlace,
+        }),
       });
 
       if (response.ok) {
@@ -600,7 +646,9 @@ export default function MatchRaceFinals({ params }: { params: Promise<{ id: stri
         <div>
           {/* i18n: Page title from 'mr' namespace, subtitle from 'finals' namespace */}
           <h1 className="text-3xl font-bold">{tMr('finalsTitle')}</h1>
-          <p className="text-muted-foreground">{tFinals('doubleElimination')}</p>
+          <p className="text-muted-foreground">
+            {tFinals(FINALS_FORMAT_KEYS[getFinalsFormatFromRound(bracketStructure[0]?.round)].title)}
+          </p>
           <div className="mt-2">
             <UpdateIndicator lastUpdated={lastUpdated} isPolling={isPolling} />
           </div>
@@ -617,35 +665,17 @@ export default function MatchRaceFinals({ params }: { params: Promise<{ id: stri
               <AlertDialogContent>
                 <AlertDialogHeader>
                   <AlertDialogTitle>{tFinals('generateConfirmTitle')}</AlertDialogTitle>
-                  <AlertDialogDescription>{tFinals('generateConfirmDesc')}</AlertDialogDescription>
+                  <AlertDialogDescription>
+                    {bracketOption.format === 'double_elimination'
+                      ? tFinals('generateConfirmDesc')
+                      : tFinals('generateConfirmDescFormat')}
+                  </AlertDialogDescription>
                 </AlertDialogHeader>
-                <div className="flex gap-2 justify-center py-2">
-                  <Button
-                    size="sm"
-                    variant={bracketSize === 8 ? 'default' : 'outline'}
-                    onClick={() => setBracketSize(8)}
-                  >
-                    {tFinals('top8')}
-                  </Button>
-                  <Button
-                    size="sm"
-                    variant={bracketSize === 16 ? 'default' : 'outline'}
-                    onClick={() => setBracketSize(16)}
-                  >
-                    {tFinals('top16')}
-                  </Button>
-                  <Button
-                    size="sm"
-                    variant={bracketSize === 24 ? 'default' : 'outline'}
-                    onClick={() => setBracketSize(24)}
-                  >
-                    {tFinals('top24')}
-                  </Button>
-                </div>
+                <FinalsBracketSizePicker value={bracketOption} onChange={setBracketOption} />
                 <AlertDialogFooter>
                   <AlertDialogCancel>{tCommon('cancel')}</AlertDialogCancel>
                   <AlertDialogAction onClick={handleCreateBracket}>
-                    {tFinals('generate')} ({bracketSize} players)
+                    {tFinals('generate')} ({bracketOption.topN} players)
                   </AlertDialogAction>
                 </AlertDialogFooter>
               </AlertDialogContent>
@@ -756,6 +786,7 @@ export default function MatchRaceFinals({ params }: { params: Promise<{ id: stri
           </TabsList>
           <TabsContent value="finals">
             <DoubleEliminationBracket
+              projectionMode="MR"
               matches={matches}
               bracketStructure={bracketStructure}
               roundNames={roundNames}
@@ -764,14 +795,15 @@ export default function MatchRaceFinals({ params }: { params: Promise<{ id: stri
                 match?.targetWins ??
                 getMrFinalsTargetWins({ stage: match?.stage, round: match?.round ?? bracketMatch.round })
               }
-              onMatchClick={isAdmin ? openMatchDialog : undefined}
-              onTvNumberChange={isAdmin ? handleBracketTvNumberChange : undefined}
+              onMatchClick={can('scores') ? openMatchDialog : undefined}
+              onTvNumberChange={can('tv') ? handleBracketTvNumberChange : undefined}
               slotEditMode={isAdmin ? slotEditMode : undefined}
               onSlotClick={isAdmin ? handleSlotClick : undefined}
             />
           </TabsContent>
           <TabsContent value="playoff">
             <PlayoffBracket
+              projectionMode="MR"
               playoffMatches={playoffMatches}
               playoffStructure={playoffStructure}
               roundNames={roundNames}
@@ -780,8 +812,8 @@ export default function MatchRaceFinals({ params }: { params: Promise<{ id: stri
                 match?.targetWins ??
                 getMrFinalsTargetWins({ stage: match?.stage ?? 'playoff', round: match?.round ?? bracketMatch.round })
               }
-              onMatchClick={isAdmin ? openMatchDialog : undefined}
-              onTvNumberChange={isAdmin ? handleBracketTvNumberChange : undefined}
+              onMatchClick={can('scores') ? openMatchDialog : undefined}
+              onTvNumberChange={can('tv') ? handleBracketTvNumberChange : undefined}
               slotEditMode={isAdmin ? slotEditMode : undefined}
               onSlotClick={isAdmin ? handleSlotClick : undefined}
             />
@@ -798,6 +830,7 @@ export default function MatchRaceFinals({ params }: { params: Promise<{ id: stri
       ) : playoffMatches.length > 0 ? (
         <>
           <PlayoffBracket
+            projectionMode="MR"
             playoffMatches={playoffMatches}
             playoffStructure={playoffStructure}
             roundNames={roundNames}
@@ -806,8 +839,8 @@ export default function MatchRaceFinals({ params }: { params: Promise<{ id: stri
               match?.targetWins ??
               getMrFinalsTargetWins({ stage: match?.stage ?? 'playoff', round: match?.round ?? bracketMatch.round })
             }
-            onMatchClick={isAdmin ? openMatchDialog : undefined}
-            onTvNumberChange={isAdmin ? handleBracketTvNumberChange : undefined}
+            onMatchClick={can('scores') ? openMatchDialog : undefined}
+            onTvNumberChange={can('tv') ? handleBracketTvNumberChange : undefined}
             slotEditMode={isAdmin ? slotEditMode : undefined}
             onSlotClick={isAdmin ? handleSlotClick : undefined}
           />
@@ -821,6 +854,7 @@ export default function MatchRaceFinals({ params }: { params: Promise<{ id: stri
         </>
       ) : (
         <DoubleEliminationBracket
+          projectionMode="MR"
           matches={matches}
           bracketStructure={bracketStructure}
           roundNames={roundNames}
@@ -829,8 +863,8 @@ export default function MatchRaceFinals({ params }: { params: Promise<{ id: stri
             match?.targetWins ??
             getMrFinalsTargetWins({ stage: match?.stage, round: match?.round ?? bracketMatch.round })
           }
-          onMatchClick={isAdmin ? openMatchDialog : undefined}
-          onTvNumberChange={isAdmin ? handleBracketTvNumberChange : undefined}
+          onMatchClick={can('scores') ? openMatchDialog : undefined}
+          onTvNumberChange={can('tv') ? handleBracketTvNumberChange : undefined}
           slotEditMode={isAdmin ? slotEditMode : undefined}
           onSlotClick={isAdmin ? handleSlotClick : undefined}
         />
@@ -845,8 +879,8 @@ export default function MatchRaceFinals({ params }: { params: Promise<{ id: stri
         />
       )}
 
-      {/* Match result entry dialog: admin-only */}
-      {isAdmin && (
+      {/* Match result entry dialog: admins and score-entry staff; round settings and overrides stay admin-only */}
+      {can('scores') && (
         <Dialog open={isMatchDialogOpen} onOpenChange={setIsMatchDialogOpen}>
           <DialogContent className="w-[calc(100vw-2rem)] max-w-[calc(100vw-2rem)] sm:max-w-3xl max-h-[90vh] overflow-y-auto p-4 sm:p-6">
             <DialogHeader>
@@ -867,7 +901,7 @@ export default function MatchRaceFinals({ params }: { params: Promise<{ id: stri
               </DialogDescription>
             </DialogHeader>
             <div className="space-y-4 py-4">
-              {selectedMatch && (
+              {isAdmin && selectedMatch && (
                 <FinalsRoundSettings
                   match={selectedMatch}
                   matches={selectedMatch.stage === 'playoff' ? playoffMatches : matches}
@@ -892,7 +926,7 @@ export default function MatchRaceFinals({ params }: { params: Promise<{ id: stri
                   }}
                 />
               )}
-              {selectedMatch && (
+              {isAdmin && selectedMatch && (
                 <FinalsScoreOverride
                   key={`${selectedMatch.id}:${selectedMatch.version}`}
                   match={selectedMatch}
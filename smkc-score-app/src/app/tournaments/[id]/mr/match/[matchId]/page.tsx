@@ -4,7 +4,8 @@
  * Public-facing page for individual MR match viewing and score reporting.
  * Viewing is public (no auth), but score entry requires authentication
  * as a match participant or admin (enforced by useMatchReportAuth hook
- * on the UI side, and checkScoreReportAuth on the API side).
+ * on the UI side, and checkScoreReportAuth on the API side). A `?token=`
+ * from a match card or venue screen QR code stands in for signing in.
  *
  * Features:
  * - Authorization-gated score entry (participants and admins only)
@@ -21,6 +22,7 @@ import { fetchWithRetry } from '@/lib/fetch-with-retry';
 
 import { useState, useEffect, useCallback, use } from 'react';
 import { useTranslations } from 'next-intl';
+import { useSearchParams } from 'next/navigation';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
@@ -32,6 +34,7 @@ import { CardSkeleton } from '@/components/ui/loading-skeleton';
 import { getMrFinalsTargetWins } from '@/lib/finals-target-wins';
 import { createLogger } from '@/lib/client-logger';
 import { useMatchReportAuth } from '@/lib/hooks/useMatchReportAuth';
+import { MATCH_REPORT_TOKEN_PARAM } from '@/lib/match-report-token';
 import { getSharedMatchAccessState } from '@/lib/shared-match-access-state';
 
 import type { Player } from '@/lib/types';
@@ -97,7 +100,9 @@ export default function MatchDetailPage({ params }: { params: Promise<{ id: stri
   const [loading, setLoading] = useState(true);
 
   /* Authorization: determines if current user can report scores */
-  const { canReport, isAdmin, isSessionLoading, selectedPlayer, setSelectedPlayer } = useMatchReportAuth(match);
+  const reportToken = useSearchParams().get(MATCH_REPORT_TOKEN_PARAM);
+  const { canReport, isAdmin, isSessionLoading, selectedPlayer, setSelectedPlayer, tokenSide, reportHeaders } =
+    useMatchReportAuth(match, reportToken);
 
   const [submitting, setSubmitting] = useState(false);
   /*
@@ -154,6 +159,7 @@ export default function MatchDetailPage({ params }: { params: Promise<{ id: stri
     refetch,
   } = usePolling(fetchMatchData, {
     interval: POLLING_INTERVAL,
+    streamUrl: `/api/tournaments/${tournamentId}/events?scope=mr`,
   });
 
   /* Update local state from polling data */
@@ -221,7 +227,7 @@ export default function MatchDetailPage({ params }: { params: Promise<{ id: stri
     try {
       const response = await fetch(`/api/tournaments/${tournamentId}/mr/match/${matchId}/report`, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...reportHeaders },
         body: JSON.stringify({
           reportingPlayer: selectedPlayer,
           score1: winnerCount,
@@ -350,6 +356,7 @@ export default function MatchDetailPage({ params }: { params: Promise<{ id: stri
                   <Button
                     variant={selectedPlayer === 1 ? 'default' : 'outline'}
                     className="h-16 text-lg"
+                    disabled={tokenSide === 2}
                     onClick={() => setSelectedPlayer(1)}
                   >
                     {match.player1.nickname}
@@ -357,6 +364,7 @@ export default function MatchDetailPage({ params }: { params: Promise<{ id: stri
                   <Button
                     variant={selectedPlayer === 2 ? 'default' : 'outline'}
                     className="h-16 text-lg"
+                    disabled={tokenSide === 1}
                     onClick={() => setSelectedPlayer(2)}
                   >
                     {match.player2.nickname}
@@ -22,10 +22,11 @@ import { fetchWithRetry } from '@/lib/fetch-with-retry';
 import { useState, useCallback, useEffect, useMemo } from 'react';
 import { useSession } from 'next-auth/react';
 import { useLocale, useTranslations } from 'next-intl';
+import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { GroupSetupDialog } from '@/components/tournament/group-setup-dialog';
+import { GroupSetupDialog, type SetupPlayer } from '@/components/tournament/group-setup-dialog';
 import { ModePublishSwitch } from '@/components/tournament/mode-publish-switch';
 import { QualificationPlayoffManager } from '@/components/tournament/qualification-playoff-manager';
 import { RankCell } from '@/components/tournament/rank-cell';
@@ -33,6 +34,9 @@ import { TieWarningBanner } from '@/components/tournament/tie-warning-banner';
 import { CombinedStandingsTable } from '@/components/tournament/combined-standings-table';
 import { PlayerName } from '@/components/ui/player-name';
 import { DebugFillButton } from '@/components/tournament/debug-fill-button';
+import { SwissRoundControl } from '@/components/tournament/swiss-round-control';
+import { WithdrawPlayerControl } from '@/components/tournament/withdraw-player-control';
+import type { SwissProgress } from '@/lib/swiss-pairing';
 import { useTournamentDebugMode } from '@/lib/hooks/use-tournament-debug-mode';
 import {
   buildPlayoffRankAssignments,
@@ -67,6 +71,7 @@ import { createLogger } from '@/lib/client-logger';
 import { parseManualScore } from '@/lib/parse-manual-score';
 import { canCreateFinalsFromQualification, canResetFinalsFromQualification } from '@/lib/finals-action-availability';
 import { getQualificationPoints } from '@/lib/points/qualification-points';
+import { useTournamentPermissions } from '@/lib/hooks/use-tournament-permissions';
 import type { Player } from '@/lib/types';
 
 /** Client-side logger for error tracking */
@@ -88,6 +93,7 @@ interface MRQualification {
   score: number;
   rankOverride: number | null; // 管理者手動順位 (null = 自動計算)
   combinedRankOverride: number | null; // グループ横断の同率決着順位
+  withdrawnAt?: string | null; // 予選途中の棄権日時
   player: Player;
 }
 
@@ -127,10 +133,12 @@ export default function MatchRacePageClient({
   const { data: session } = useSession();
   const t = useTranslations('mr');
   const tc = useTranslations('common');
+  const tw = useTranslations('withdrawal');
   const locale = useLocale();
 
   /** Admin role check: only admins can setup groups, enter results, and reset */
   const isAdmin = session?.user && session.user.role === 'admin';
+  const can = useTournamentPermissions(tournamentId);
   const debugMode = useTournamentDebugMode(tournamentId);
   const [isSetupDialogOpen, setIsSetupDialogOpen] = useState(false);
   const [isMatchDialogOpen, setIsMatchDialogOpen] = useState(false);
@@ -171,6 +179,8 @@ export default function MatchRacePageClient({
       matches: mrData.matches || [],
       allPlayers,
       qualificationConfirmed: mrData.qualificationConfirmed ?? false,
+      groupPresets: mrData.groupPresets as SetupPlayer[] | undefined,
+      swiss: mrData.swiss as SwissProgress | undefined,
     };
   }, [tournamentId]);
 
@@ -186,6 +196,7 @@ export default function MatchRacePageClient({
     refetch,
   } = usePolling(fetchTournamentData, {
     interval: POLLING_INTERVAL,
+    streamUrl: `/api/tournaments/${tournamentId}/events?scope=mr`,
     cacheKey: `tournament/${tournamentId}/mr`,
     initialData,
   });
@@ -459,6 +470,28 @@ export default function MatchRacePageClient({
             <DebugFillButton tournamentId={tournamentId} mode="mr" onFilled={refetch} />
           )}
 
+          {/* Admin-only Swiss pairing — present only for Swiss-system tournaments */}
+          {isAdmin && pollData.swiss && (
+            <SwissRoundControl
+              tournamentId={tournamentId}
+              mode="mr"
+              progress={pollData.swiss}
+              locked={qualificationConfirmed}
+              onPaired={refetch}
+            />
+          )}
+
+          {/* Admin-only mid-qualification withdrawal */}
+          {isAdmin && qualifications.length > 0 && (
+            <WithdrawPlayerControl
+              tournamentId={tournamentId}
+              mode="mr"
+              qualifications={qualifications}
+              locked={qualificationConfirmed}
+              onWithdrawn={refetch}
+            />
+          )}
+
           {/* Admin-only bracket reset — visible only after qualification is unlocked. */}
           {isAdmin && canResetFinals && (
             <Button
@@ -545,6 +578,7 @@ export default function MatchRacePageClient({
                 group: q.group,
                 seeding: q.seeding ?? undefined,
               }))}
+              presetAssignments={pollData?.groupPresets}
             />
           )}
 
@@ -652,7 +686,10 @@ export default function MatchRacePageClient({
                                     />
                                   </TableCell>
                                   <TableCell className="font-medium">
-                                    <PlayerName player={q.player} locale={locale} />
+                                    <span className="inline-flex items-center gap-2">
+                                      <PlayerName player={q.player} locale={locale} />
+                                      {q.withdrawnAt && <Badge variant="secondary">{tw('badge')}</Badge>}
+                                    </span>
                                   </TableCell>
                                   <TableCell className="text-center">{q.mp}</TableCell>
                                   <TableCell className="text-center">{q.wins}</TableCell>
@@ -695,6 +732,7 @@ export default function MatchRacePageClient({
                 points: t('pts'),
                 qualificationPoints: tc('qualificationPointsShort'),
                 qualificationPointsTooltip: tc('qualificationPointsTooltip'),
+                withdrawn: tw('badge'),
               }}
               rankings={combinedRankings}
               getGroupLabel={(group) => tc('groupLabel', { group })}
@@ -847,7 +885,7 @@ export default function MatchRacePageClient({
                                       {match.isBye ? '-' : match.assignedCourses?.join(' / ') || '-'}
                                     </TableCell>
                                     <TableCell className="text-center">
-                                      {isAdmin && !match.isBye ? (
+                                      {can('tv') && !match.isBye ? (
                                         <select
                                           className="w-14 h-8 text-center text-sm border rounded bg-background"
                                           value={
@@ -897,7 +935,7 @@ export default function MatchRacePageClient({
                                     )}
                                     <TableCell className="text-right">
                                       <div className="flex flex-col sm:flex-row sm:justify-end sm:items-center gap-1">
-                                        {isAdmin && !match.isBye && (
+                                        {can('broadcast') && !match.isBye && (
                                           <Button
                                             variant="outline"
                                             size="sm"
@@ -914,7 +952,7 @@ export default function MatchRacePageClient({
                                             {broadcastingMatchId === match.id ? tc('saving') : tc('broadcastReflect')}
                                           </Button>
                                         )}
-                                        {isAdmin && !match.isBye && (
+                                        {can('scores') && !match.isBye && (
                                           <Button
                                             variant={match.completed ? 'outline' : 'default'}
                                             size="sm"
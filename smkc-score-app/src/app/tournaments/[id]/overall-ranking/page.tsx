@@ -106,7 +106,11 @@ export default function OverallRankingPage({ params }: { params: Promise<{ id: s
     data: pollData,
     error: pollError,
     refetch,
-  } = usePolling(fetchRankings, { interval: POLLING_INTERVAL, cacheKey: `tournament/${tournamentId}/overall-ranking` });
+  } = usePolling(fetchRankings, {
+    interval: POLLING_INTERVAL,
+    streamUrl: `/api/tournaments/${tournamentId}/events`,
+    cacheKey: `tournament/${tournamentId}/overall-ranking`,
+  });
 
   /*
    * Derive display data directly from polling response.
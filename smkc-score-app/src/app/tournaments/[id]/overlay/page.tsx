@@ -2,8 +2,10 @@
  * OBS browser-source overlay page.
  *
  * Renders a transparent-background page that polls
- * /api/tournaments/[id]/overlay-events every 3s and shows a stack of toast
- * notifications for fresh events. Designed to be embedded as a Browser
+ * /api/tournaments/[id]/overlay-events and shows a stack of toast
+ * notifications for fresh events. It refetches as soon as the tournament
+ * event stream reports a change and polls every 3s while the stream is
+ * down (usePolling). Designed to be embedded as a Browser
  * Source in OBS Studio:
  *   URL    : https://<host>/tournaments/<id>/overlay
  *   Width  : 1920
@@ -13,12 +15,13 @@
  * No authentication is required — the URL itself is the broadcast token.
  */
 
-"use client";
+'use client';
 
-import { use, useCallback, useEffect, useRef, useState } from "react";
-import { OverlayToastStack } from "@/components/overlay/overlay-toast-stack";
-import type { OverlayEvent, OverlayEventsResponse } from "@/lib/overlay/types";
-import { POLLING_INTERVAL } from "@/lib/constants";
+import { use, useCallback, useEffect, useRef, useState } from 'react';
+import { OverlayToastStack } from '@/components/overlay/overlay-toast-stack';
+import type { OverlayEvent, OverlayEventsResponse } from '@/lib/overlay/types';
+import { POLLING_INTERVAL } from '@/lib/constants';
+import { usePolling } from '@/lib/hooks/usePolling';
 
 /** How long a toast stays fully opaque before starting its fade-out. */
 const VISIBLE_DURATION_MS = 6_000;
@@ -32,11 +35,7 @@ interface ApiEnvelope<T> {
   data?: T;
 }
 
-export default function OverlayPage({
-  params,
-}: {
-  params: Promise<{ id: string }>;
-}) {
+export default function OverlayPage({ params }: { params: Promise<{ id: string }> }) {
   const { id } = use(params);
 
   const [events, setEvents] = useState<OverlayEvent[]>([]);
@@ -97,63 +96,62 @@ export default function OverlayPage({
     };
   }, []);
 
-  useEffect(() => {
-    let cancelled = false;
-
-    const poll = async () => {
-      try {
-        const url = new URL(
-          `/api/tournaments/${encodeURIComponent(id)}/overlay-events`,
-          window.location.origin,
-        );
-        if (sinceRef.current) url.searchParams.set("since", sinceRef.current);
-        const res = await fetch(url.toString(), {
-          cache: "no-store",
-          headers: { Accept: "application/json" },
-        });
-        if (!res.ok) return;
-        const json = (await res.json()) as ApiEnvelope<OverlayEventsResponse>;
-        const payload = json.data ?? (json as unknown as OverlayEventsResponse);
-        if (!payload || cancelled) return;
-
-        sinceRef.current = payload.serverTime;
-        const fresh = payload.events.filter((e) => {
-          if (seenRef.current.has(e.id)) return false;
-          seenRef.current.add(e.id);
-          return true;
-        });
-        if (fresh.length === 0) return;
+  const fetchEvents = useCallback(async () => {
+    const url = new URL(`/api/tournaments/${encodeURIComponent(id)}/overlay-events`, window.location.origin);
+    if (sinceRef.current) url.searchParams.set('since', sinceRef.current);
+    const res = await fetch(url.toString(), {
+      cache: 'no-store',
+      headers: { Accept: 'application/json' },
+    });
+    if (!res.ok) throw new Error(`Failed to fetch overlay events: ${res.status}`);
+    const json = (await res.json()) as ApiEnvelope<OverlayEventsResponse>;
+    return json.data ?? (json as unknown as OverlayEventsResponse);
+  }, [id]);
+
+  const showEvents = useCallback(
+    (data: unknown) => {
+      const payload = data as OverlayEventsResponse | null;
+      if (!payload) return;
+
+      sinceRef.current = payload.serverTime;
+      const fresh = payload.events.filter((e) => {
+        if (seenRef.current.has(e.id)) return false;
+        seenRef.current.add(e.id);
+        return true;
+      });
+      if (fresh.length === 0) return;
+
+      setEvents((prev) => {
+        /* Merge then cap from the bottom — older entries fall off first. */
+        const merged = [...prev, ...fresh];
+        return merged.slice(-MAX_VISIBLE);
+      });
+      for (const e of fresh) queueDismiss(e.id);
+    },
+    [queueDismiss],
+  );
 
-        setEvents((prev) => {
-          /* Merge then cap from the bottom — older entries fall off first. */
-          const merged = [...prev, ...fresh];
-          return merged.slice(-MAX_VISIBLE);
-        });
-        for (const e of fresh) queueDismiss(e.id);
-      } catch {
-        // Swallow transient errors; the next tick retries.
-      }
-    };
+  /* Transient errors are left to the next poll. OBS may report the source
+     as hidden while it is off-scene, so polling never pauses. */
+  usePolling(fetchEvents, {
+    interval: POLLING_INTERVAL,
+    streamUrl: `/api/tournaments/${id}/events`,
+    onSuccess: showEvents,
+    pauseWhenHidden: false,
+  });
 
-    void poll();
-    const interval = setInterval(poll, POLLING_INTERVAL);
+  useEffect(() => {
     /* Capture the timer set into a local so React doesn't warn about
        stale ref access during cleanup. */
     const pendingTimers = timers.current;
     return () => {
-      cancelled = true;
-      clearInterval(interval);
       for (const t of pendingTimers) clearTimeout(t);
       pendingTimers.clear();
     };
-  }, [id, queueDismiss]);
+  }, []);
 
   return (
-    <div
-      className="min-h-screen w-full"
-      style={{ background: "transparent" }}
-      data-testid="overlay-root"
-    >
+    <div className="min-h-screen w-full" style={{ background: 'transparent' }} data-testid="overlay-root">
       <OverlayToastStack events={events} leaving={leaving} />
     </div>
   );
@@ -0,0 +1,16 @@
+'use client';
+
+/**
+ * Tournament Sign-Up Page
+ *
+ * Public page where players sign up for the tournament and follow their
+ * entry's status (tournament-registration.ts).
+ */
+
+import { use } from 'react';
+import { RegistrationPanel } from '@/components/tournament/registration-panel';
+
+export default function TournamentRegisterPage({ params }: { params: Promise<{ id: string }> }) {
+  const { id: tournamentId } = use(params);
+  return <RegistrationPanel tournamentId={tournamentId} />;
+}
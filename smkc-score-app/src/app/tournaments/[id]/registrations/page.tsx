@@ -0,0 +1,26 @@
+'use client';
+
+/**
+ * Tournament Registrations Page (admin only)
+ *
+ * Opens self-registration for the tournament and reviews the pending list
+ * (tournament-registration.ts).
+ */
+
+import { use } from 'react';
+import { useSession } from 'next-auth/react';
+import { useTranslations } from 'next-intl';
+import { RegistrationReview } from '@/components/tournament/registration-review';
+
+export default function TournamentRegistrationsPage({ params }: { params: Promise<{ id: string }> }) {
+  const { id: tournamentId } = use(params);
+  const { data: session } = useSession();
+  const isAdmin = session?.user && session.user.role === 'admin';
+  const tc = useTranslations('common');
+
+  if (!isAdmin) {
+    return <p className="text-center py-8 text-muted-foreground">{tc('noPermission')}</p>;
+  }
+
+  return <RegistrationReview tournamentId={tournamentId} />;
+}
@@ -0,0 +1,361 @@
+'use client';
+
+/**
+ * Match Schedule (スケジュール) Page - admin only
+ *
+ * Plans wall-clock start times and TVs for the BM/MR/GP qualification
+ * matches so the venue can run all modes in parallel without calling a player
+ * to two TVs at once. The admin sets the start time, TV count and estimated
+ * match durations, previews the plan on a per-TV timeline, then applies it.
+ *
+ * Data comes from GET/POST /api/tournaments/:id/schedule (match-schedule.ts).
+ */
+
+import { useState, useEffect, useCallback, use } from 'react';
+import { useSession } from 'next-auth/react';
+import { useTranslations } from 'next-intl';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { CardSkeleton } from '@/components/ui/loading-skeleton';
+import { TV_NUMBER_OPTIONS } from '@/lib/constants';
+import { fetchWithRetry } from '@/lib/fetch-with-retry';
+import { createLogger } from '@/lib/client-logger';
+import { cn } from '@/lib/utils';
+import {
+  SCHEDULE_MODES,
+  type ScheduleConflict,
+  type ScheduleMode,
+  type SchedulePlannerSettings,
+} from '@/lib/match-schedule';
+import type { ScheduleTimelineMatch } from '@/lib/match-schedule-service';
+
+const logger = createLogger({ serviceName: 'match-schedule' });
+
+const MODE_LABELS: Record<ScheduleMode, string> = { bm: 'BM', mr: 'MR', gp: 'GP' };
+const MODE_CLASSES: Record<ScheduleMode, string> = {
+  bm: 'border-l-red-500 bg-red-500/10',
+  mr: 'border-l-blue-500 bg-blue-500/10',
+  gp: 'border-l-amber-500 bg-amber-500/10',
+};
+/** Vertical scale of the timeline. */
+const PX_PER_MINUTE = 4;
+const GRID_STEP_MINUTES = 30;
+const MINUTE_MS = 60_000;
+
+type TimelineSlot = ScheduleTimelineMatch & {
+  tvNumber: number | null;
+  startAt: string;
+  endAt: string;
+  completed?: boolean;
+};
+
+/** ISO timestamp → value for <input type="datetime-local"> in the browser's time zone. */
+function toLocalInputValue(iso: string): string {
+  const date = new Date(iso);
+  const offset = date.getTimezoneOffset() * MINUTE_MS;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16);
+}
+
+function formatTime(iso: string): string {
+  return new Date(iso).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+}
+
+export default function MatchSchedulePage({ params }: { params: Promise<{ id: string }> }) {
+  const { id: tournamentId } = use(params);
+  const { data: session } = useSession();
+  const isAdmin = session?.user && session.user.role === 'admin';
+  const t = useTranslations('schedule');
+  const tc = useTranslations('common');
+
+  const [settings, setSettings] = useState<SchedulePlannerSettings | null>(null);
+  const [slots, setSlots] = useState<TimelineSlot[]>([]);
+  const [conflicts, setConflicts] = useState<ScheduleConflict[]>([]);
+  const [isPreview, setIsPreview] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchSchedule = useCallback(async () => {
+    setError(null);
+    try {
+      const response = await fetchWithRetry(`/api/tournaments/${tournamentId}/schedule`);
+      const result = await response.json().catch(() => ({}));
+      if (!response.ok || !result.success) throw new Error(result.error || t('fetchError'));
+      setSettings(result.data.settings);
+      setSlots(result.data.slots);
+      setConflicts(result.data.conflicts);
+      setIsPreview(false);
+    } catch (err) {
+      logger.error('Failed to fetch match schedule:', { error: err, tournamentId });
+      setError(err instanceof Error ? err.message : t('fetchError'));
+    } finally {
+      setLoading(false);
+    }
+  }, [tournamentId, t]);
+
+  useEffect(() => {
+    if (isAdmin) fetchSchedule();
+  }, [isAdmin, fetchSchedule]);
+
+  const submit = async (action: 'preview' | 'apply') => {
+    if (!settings) return;
+    if (action === 'apply' && !confirm(t('confirmApply'))) return;
+    setSubmitting(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/tournaments/${tournamentId}/schedule`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action, ...settings }),
+      });
+      const result = await response.json().catch(() => ({}));
+      if (!response.ok || !result.success) throw new Error(result.error || t('planError'));
+      if (action === 'apply') {
+        await fetchSchedule();
+      } else {
+        setSlots(result.data.slots);
+        setConflicts([]);
+        setIsPreview(true);
+      }
+    } catch (err) {
+      logger.error('Failed to plan match schedule:', { error: err, tournamentId, action });
+      setError(err instanceof Error ? err.message : t('planError'));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (!isAdmin) {
+    return <p className="text-center py-8 text-muted-foreground">{tc('noPermission')}</p>;
+  }
+
+  if (loading || !settings) {
+    return error ? (
+      <div className="border border-foreground/15 py-10 text-center space-y-4">
+        <p className="text-destructive">{error}</p>
+        <Button onClick={fetchSchedule}>{tc('retry')}</Button>
+      </div>
+    ) : (
+      <CardSkeleton />
+    );
+  }
+
+  const updateSettings = (patch: Partial<SchedulePlannerSettings>) =>
+    setSettings((current) => (current ? { ...current, ...patch } : current));
+  const toggleMode = (mode: ScheduleMode, checked: boolean) =>
+    updateSettings({
+      modes: SCHEDULE_MODES.filter((m) => (m === mode ? checked : settings.modes.includes(m))),
+    });
+
+  const conflictMatchIds = new Set(conflicts.flatMap((conflict) => conflict.matchIds));
+  const slotById = new Map(slots.map((slot) => [slot.id, slot]));
+  const origin = slots.length > 0 ? Math.min(...slots.map((slot) => Date.parse(slot.startAt))) : 0;
+  const end = slots.length > 0 ? Math.max(...slots.map((slot) => Date.parse(slot.endAt))) : 0;
+  const totalMinutes = Math.ceil((end - origin) / MINUTE_MS);
+  const tvColumns = Math.max(settings.tvCount, ...slots.map((slot) => slot.tvNumber ?? 0));
+  const gridLines = Array.from(
+    { length: Math.floor(totalMinutes / GRID_STEP_MINUTES) + 1 },
+    (_, i) => i * GRID_STEP_MINUTES,
+  );
+  const describeMatch = (matchId: string) => {
+    const slot = slotById.get(matchId);
+    return slot ? `${MODE_LABELS[slot.mode]} #${slot.matchNumber}` : matchId;
+  };
+
+  return (
+    <div className="space-y-6">
+      <header className="space-y-1">
+        <h2 className="font-display text-2xl tracking-wide">{t('title')}</h2>
+        <p className="text-sm text-muted-foreground">{t('description')}</p>
+      </header>
+
+      <section className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4 border border-foreground/15 p-4">
+        <div className="space-y-2">
+          <Label htmlFor="schedule-start">{t('startAt')}</Label>
+          <Input
+            id="schedule-start"
+            type="datetime-local"
+            value={toLocalInputValue(settings.startAt)}
+            onChange={(e) => {
+              const value = new Date(e.target.value);
+              if (!Number.isNaN(value.getTime())) updateSettings({ startAt: value.toISOString() });
+            }}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="schedule-tv-count">{t('tvCount')}</Label>
+          <select
+            id="schedule-tv-count"
+            value={settings.tvCount}
+            onChange={(e) => updateSettings({ tvCount: Number(e.target.value) })}
+            className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+          >
+            {TV_NUMBER_OPTIONS.map((n) => (
+              <option key={n} value={n}>
+                {n}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="schedule-changeover">{t('changeoverMinutes')}</Label>
+          <Input
+            id="schedule-changeover"
+            type="number"
+            min={0}
+            value={settings.changeoverMinutes}
+            onChange={(e) => updateSettings({ changeoverMinutes: Number(e.target.value) })}
+          />
+        </div>
+        <div className="space-y-2">
+          <span className="text-sm font-medium">{t('modes')}</span>
+          <div className="flex gap-4 pt-2">
+            {SCHEDULE_MODES.map((mode) => (
+              <label key={mode} className="flex items-center gap-2 text-sm cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={settings.modes.includes(mode)}
+                  onChange={(e) => toggleMode(mode, e.target.checked)}
+                  className="h-4 w-4 rounded border-gray-300"
+                />
+                {MODE_LABELS[mode]}
+              </label>
+            ))}
+          </div>
+        </div>
+        {SCHEDULE_MODES.map((mode) => (
+          <div key={mode} className="space-y-2">
+            <Label htmlFor={`schedule-duration-${mode}`}>{t('durationMinutes', { mode: MODE_LABELS[mode] })}</Label>
+            <Input
+              id={`schedule-duration-${mode}`}
+              type="number"
+              min={1}
+              value={settings.durations[mode]}
+              onChange={(e) => updateSettings({ durations: { ...settings.durations, [mode]: Number(e.target.value) } })}
+            />
+          </div>
+        ))}
+        <div className="flex items-end gap-2">
+          <Button variant="outline" disabled={submitting} onClick={() => void submit('preview')}>
+            {t('preview')}
+          </Button>
+          <Button disabled={submitting} onClick={() => void submit('apply')}>
+            {submitting ? tc('saving') : t('apply')}
+          </Button>
+        </div>
+      </section>
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      <div className="flex flex-wrap items-center gap-3 text-sm">
+        {isPreview ? (
+          <Badge variant="flag-draft">{t('previewBadge')}</Badge>
+        ) : (
+          <Badge variant="secondary">{t('storedBadge')}</Badge>
+        )}
+        {slots.length > 0 && (
+          <span className="text-muted-foreground">
+            {t('summary', {
+              count: slots.length,
+              start: formatTime(new Date(origin).toISOString()),
+              end: formatTime(new Date(end).toISOString()),
+            })}
+          </span>
+        )}
+      </div>
+
+      {conflicts.length > 0 && (
+        <ul role="alert" className="border border-destructive/40 bg-destructive/5 p-3 text-sm space-y-1">
+          {conflicts.map((conflict, index) => (
+            <li key={index}>
+              {conflict.type === 'tv'
+                ? t('tvConflict', {
+                    tv: conflict.tvNumber,
+                    first: describeMatch(conflict.matchIds[0]),
+                    second: describeMatch(conflict.matchIds[1]),
+                  })
+                : t('playerConflict', {
+                    first: describeMatch(conflict.matchIds[0]),
+                    second: describeMatch(conflict.matchIds[1]),
+                  })}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {slots.length === 0 ? (
+        <p className="text-center py-8 text-muted-foreground">{isPreview ? t('nothingToPlan') : t('noSchedule')}</p>
+      ) : (
+        <div className="overflow-x-auto border border-foreground/15">
+          <div className="flex min-w-max">
+            <div className="w-16 shrink-0 border-r border-foreground/15">
+              <div className="h-8 border-b border-foreground/15" />
+              <div className="relative" style={{ height: totalMinutes * PX_PER_MINUTE }}>
+                {gridLines.map((minute) => (
+                  <span
+                    key={minute}
+                    className="absolute right-2 -translate-y-1/2 text-xs font-mono tabular text-muted-foreground"
+                    style={{ top: minute * PX_PER_MINUTE }}
+                  >
+                    {formatTime(new Date(origin + minute * MINUTE_MS).toISOString())}
+                  </span>
+                ))}
+              </div>
+            </div>
+            {Array.from({ length: tvColumns }, (_, i) => i + 1).map((tv) => (
+              <div key={tv} className="w-48 shrink-0 border-r border-foreground/15 last:border-r-0">
+                <div className="h-8 border-b border-foreground/15 flex items-center justify-center text-sm font-semibold">
+                  TV{tv}
+                </div>
+                <div className="relative" style={{ height: totalMinutes * PX_PER_MINUTE }}>
+                  {gridLines.map((minute) => (
+                    <div
+                      key={minute}
+                      className="absolute inset-x-0 border-t border-dashed border-foreground/10"
+                      style={{ top: minute * PX_PER_MINUTE }}
+                    />
+                  ))}
+                  {slots
+                    .filter((slot) => slot.tvNumber === tv)
+                    .map((slot) => {
+                      const top = ((Date.parse(slot.startAt) - origin) / MINUTE_MS) * PX_PER_MINUTE;
+                      const height = ((Date.parse(slot.endAt) - Date.parse(slot.startAt)) / MINUTE_MS) * PX_PER_MINUTE;
+                      return (
+                        <div
+                          key={slot.id}
+                          className={cn(
+                            'absolute inset-x-1 overflow-hidden border-l-4 px-2 py-1 text-xs leading-tight',
+                            MODE_CLASSES[slot.mode],
+                            slot.completed && 'opacity-50',
+                            conflictMatchIds.has(slot.id) && 'ring-2 ring-destructive',
+                          )}
+                          style={{ top, height }}
+                          title={`${slot.player1Nickname} vs ${slot.player2Nickname}`}
+                        >
+                          <div className="font-semibold">
+                            {MODE_LABELS[slot.mode]} #{slot.matchNumber}
+                            {slot.roundNumber !== null && (
+                              <span className="font-normal text-muted-foreground">
+                                {' '}
+                                · {tc('dayLabel', { day: slot.roundNumber })}
+                              </span>
+                            )}
+                          </div>
+                          <div className="font-mono tabular">{formatTime(slot.startAt)}</div>
+                          <div className="truncate">
+                            {slot.player1Nickname} vs {slot.player2Nickname}
+                          </div>
+                        </div>
+                      );
+                    })}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,27 @@
+'use client';
+
+/**
+ * Tournament Staff Page (admin only)
+ *
+ * Grants and revokes per-tournament staff roles (tournament-staff.ts) so
+ * event-day volunteers can enter scores, run TA finals or drive the
+ * broadcast overlay without full admin access.
+ */
+
+import { use } from 'react';
+import { useSession } from 'next-auth/react';
+import { useTranslations } from 'next-intl';
+import { StaffEditor } from '@/components/tournament/staff-editor';
+
+export default function TournamentStaffPage({ params }: { params: Promise<{ id: string }> }) {
+  const { id: tournamentId } = use(params);
+  const { data: session } = useSession();
+  const isAdmin = session?.user && session.user.role === 'admin';
+  const tc = useTranslations('common');
+
+  if (!isAdmin) {
+    return <p className="text-center py-8 text-muted-foreground">{tc('noPermission')}</p>;
+  }
+
+  return <StaffEditor tournamentId={tournamentId} />;
+}
@@ -0,0 +1,158 @@
+'use client';
+
+/**
+ * TA Course Records Page - public, read-only
+ *
+ * One row per course with the all-time app record, this tournament's event
+ * record and, for the picked player, their personal best across every
+ * tournament. Records span archived tournaments too, so the data is fetched
+ * once per player pick instead of polled.
+ *
+ * Data comes from GET /api/tournaments/:id/ta/course-records (course-records.ts).
+ */
+
+import { useCallback, useEffect, useState, use } from 'react';
+import { useTranslations } from 'next-intl';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { CardSkeleton } from '@/components/ui/loading-skeleton';
+import { fetchWithRetry } from '@/lib/fetch-with-retry';
+import { createLogger } from '@/lib/client-logger';
+import { msToDisplayTime } from '@/lib/ta/time-utils';
+import type { CourseRecordHolder, CourseRecordRow } from '@/lib/ta/course-records';
+
+const logger = createLogger({ serviceName: 'ta-course-records' });
+
+type CourseRecordsResponse = {
+  tournament: { id: string; name: string };
+  players: { playerId: string; nickname: string }[];
+  courses: CourseRecordRow[];
+};
+
+const STAGES = ['qualification', 'phase1', 'phase2', 'phase3'] as const;
+
+function RecordCell({ holder, showTournament }: { holder: CourseRecordHolder | null; showTournament: boolean }) {
+  const t = useTranslations('taCourseRecords');
+  if (!holder) return <span className="text-muted-foreground">-</span>;
+  const stage = STAGES.find((value) => value === holder.stage);
+  return (
+    <div>
+      <span className="font-mono">{msToDisplayTime(holder.timeMs)}</span>
+      <div className="text-xs text-muted-foreground">
+        {holder.nickname}
+        {stage && ` · ${t(`stage_${stage}`)}`}
+        {showTournament && holder.tournamentName && ` · ${holder.tournamentName}`}
+      </div>
+    </div>
+  );
+}
+
+export default function TaCourseRecordsPage({ params }: { params: Promise<{ id: string }> }) {
+  const { id: tournamentId } = use(params);
+  const t = useTranslations('taCourseRecords');
+  const tc = useTranslations('common');
+  const [playerId, setPlayerId] = useState('');
+  const [data, setData] = useState<CourseRecordsResponse | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState(false);
+
+  const fetchRecords = useCallback(async () => {
+    setLoading(true);
+    setError(false);
+    try {
+      const query = playerId ? `?playerId=${encodeURIComponent(playerId)}` : '';
+      const response = await fetchWithRetry(`/api/tournaments/${tournamentId}/ta/course-records${query}`);
+      if (!response.ok) {
+        throw new Error(`Failed to fetch TA course records: ${response.status}`);
+      }
+      const json = await response.json();
+      setData((json.data ?? json) as CourseRecordsResponse);
+    } catch (err) {
+      logger.error('Failed to fetch TA course records:', { error: err, tournamentId });
+      setError(true);
+    } finally {
+      setLoading(false);
+    }
+  }, [tournamentId, playerId]);
+
+  useEffect(() => {
+    fetchRecords();
+  }, [fetchRecords]);
+
+  if (!data) {
+    return error ? (
+      <div className="border border-foreground/15 py-10 text-center space-y-4">
+        <p className="text-destructive">{t('fetchError')}</p>
+        <Button onClick={fetchRecords}>{tc('retry')}</Button>
+      </div>
+    ) : (
+      <CardSkeleton />
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <header className="flex flex-col gap-2 sm:flex-row sm:items-start sm:justify-between">
+        <div className="space-y-1">
+          <h2 className="font-display text-2xl tracking-wide">{t('title')}</h2>
+          <p className="text-sm text-muted-foreground">{t('description')}</p>
+        </div>
+        <Button variant="outline" size="sm" asChild>
+          <a href={`/tournaments/${tournamentId}/ta`}>{t('backToTa')}</a>
+        </Button>
+      </header>
+
+      <div className="space-y-1">
+        <Label htmlFor="ta-course-records-player">{t('player')}</Label>
+        <select
+          id="ta-course-records-player"
+          className="h-9 w-full rounded border bg-background px-2 text-sm sm:w-64"
+          value={playerId}
+          disabled={loading}
+          onChange={(event) => setPlayerId(event.target.value)}
+        >
+          <option value="">{t('noPlayer')}</option>
+          {data.players.map((player) => (
+            <option key={player.playerId} value={player.playerId}>
+              {player.nickname}
+            </option>
+          ))}
+        </select>
+      </div>
+      {error && <p className="text-sm text-destructive">{t('fetchError')}</p>}
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>{t('course')}</TableHead>
+            <TableHead>{t('appRecord')}</TableHead>
+            <TableHead>{t('eventRecord')}</TableHead>
+            {playerId && <TableHead>{t('personalBest')}</TableHead>}
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {data.courses.map((row) => (
+            <TableRow key={row.course}>
+              <TableCell>
+                <div>{row.courseName}</div>
+                <div className="text-xs text-muted-foreground">{t('cup', { cup: row.cup })}</div>
+              </TableCell>
+              <TableCell>
+                <RecordCell holder={row.appRecord} showTournament />
+              </TableCell>
+              <TableCell>
+                <RecordCell holder={row.eventRecord} showTournament={false} />
+              </TableCell>
+              {playerId && (
+                <TableCell>
+                  <RecordCell holder={row.personalBest} showTournament />
+                </TableCell>
+              )}
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
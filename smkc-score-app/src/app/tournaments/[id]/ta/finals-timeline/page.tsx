@@ -0,0 +1,242 @@
+'use client';
+
+/**
+ * TA Finals Timeline Page - public, read-only
+ *
+ * Time-travel view of the TA finals: scrub to any submitted round and see
+ * the state right after it — who was alive, each player's lives, the course
+ * pool and the sudden-death chain — so a disputed life deduction can be
+ * checked without digging through the database. The whole sequence can be
+ * downloaded as JSON or CSV.
+ *
+ * Data comes from GET /api/tournaments/:id/ta/finals-timeline (finals-timeline.ts).
+ */
+
+import { useCallback, useState, use } from 'react';
+import { useTranslations } from 'next-intl';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { CardSkeleton } from '@/components/ui/loading-skeleton';
+import { usePolling } from '@/lib/hooks/usePolling';
+import { POLLING_INTERVAL } from '@/lib/constants';
+import { fetchWithRetry } from '@/lib/fetch-with-retry';
+import { msToDisplayTime } from '@/lib/ta/time-utils';
+import { cn } from '@/lib/utils';
+import type { TaFinalsTimeline } from '@/lib/ta/finals-timeline';
+
+export default function TaFinalsTimelinePage({ params }: { params: Promise<{ id: string }> }) {
+  const { id: tournamentId } = use(params);
+  const t = useTranslations('taFinalsTimeline');
+  const tc = useTranslations('common');
+  /* null follows the latest round as new ones are submitted. */
+  const [selectedStep, setSelectedStep] = useState<number | null>(null);
+
+  const fetchTimeline = useCallback(async () => {
+    const response = await fetchWithRetry(`/api/tournaments/${tournamentId}/ta/finals-timeline`);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch TA finals timeline: ${response.status}`);
+    }
+    const json = await response.json();
+    return (json.data ?? json) as TaFinalsTimeline;
+  }, [tournamentId]);
+
+  const { data, error, refetch } = usePolling(fetchTimeline, {
+    interval: POLLING_INTERVAL,
+    streamUrl: `/api/tournaments/${tournamentId}/events?scope=ta`,
+    cacheKey: `tournament/${tournamentId}/ta/finals-timeline`,
+  });
+
+  if (!data) {
+    return error ? (
+      <div className="border border-foreground/15 py-10 text-center space-y-4">
+        <p className="text-destructive">{t('fetchError')}</p>
+        <Button onClick={() => void refetch()}>{tc('retry')}</Button>
+      </div>
+    ) : (
+      <CardSkeleton />
+    );
+  }
+
+  const stepCount = data.steps.length;
+  const stepNumber = Math.min(selectedStep ?? stepCount, stepCount);
+  const step = data.steps[stepNumber - 1];
+  const nicknames = new Map(step?.players.map((player) => [player.playerId, player.nickname]));
+  const exportUrl = (format: 'json' | 'csv') => `/api/tournaments/${tournamentId}/ta/finals-timeline?format=${format}`;
+
+  return (
+    <div className="space-y-6">
+      <header className="flex flex-col gap-2 sm:flex-row sm:items-start sm:justify-between">
+        <div className="space-y-1">
+          <h2 className="font-display text-2xl tracking-wide">{t('title')}</h2>
+          <p className="text-sm text-muted-foreground">{t('description')}</p>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" size="sm" asChild>
+            <a href={exportUrl('json')}>{t('exportJson')}</a>
+          </Button>
+          <Button variant="outline" size="sm" asChild>
+            <a href={exportUrl('csv')}>{t('exportCsv')}</a>
+          </Button>
+          <Button variant="outline" size="sm" asChild>
+            <a href={`/tournaments/${tournamentId}/ta`}>{t('backToTa')}</a>
+          </Button>
+        </div>
+      </header>
+
+      {!step ? (
+        <p className="text-center py-8 text-muted-foreground">{t('noRounds')}</p>
+      ) : (
+        <>
+          <Card>
+            <CardHeader>
+              <CardTitle>
+                {t('stepTitle', { phase: t(step.phase), round: step.roundNumber, course: step.course })}
+              </CardTitle>
+              <CardDescription>{t('stepPosition', { step: stepNumber, total: stepCount })}</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <div className="flex items-center gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={stepNumber <= 1}
+                  onClick={() => setSelectedStep(stepNumber - 1)}
+                >
+                  {t('previous')}
+                </Button>
+                <input
+                  type="range"
+                  className="flex-1"
+                  min={1}
+                  max={stepCount}
+                  value={stepNumber}
+                  onChange={(event) => setSelectedStep(Number(event.target.value))}
+                  aria-label={t('scrub')}
+                />
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={stepNumber >= stepCount}
+                  onClick={() => setSelectedStep(stepNumber + 1 >= stepCount ? null : stepNumber + 1)}
+                >
+                  {t('next')}
+                </Button>
+              </div>
+              <div className="flex flex-wrap gap-2 text-sm">
+                <Badge variant="outline">
+                  {t('coursePool', {
+                    cycle: step.courses.cycleNumber,
+                    played: step.courses.playedInCycle,
+                    total: step.courses.totalCourses,
+                  })}
+                </Badge>
+                {step.phase === 'phase3' && <Badge variant="outline">{t('lifeLoss', { count: step.lifeLoss })}</Badge>}
+                {step.livesReset && <Badge variant="flag-active">{t('livesReset')}</Badge>}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {t('remainingCourses')}: {step.courses.available.join(', ') || '-'}
+              </p>
+            </CardContent>
+          </Card>
+
+          <div className="grid gap-6 lg:grid-cols-2">
+            <Card>
+              <CardHeader>
+                <CardTitle>{t('players')}</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>{tc('player')}</TableHead>
+                      {step.phase === 'phase3' && <TableHead className="text-right">{t('lives')}</TableHead>}
+                      <TableHead>{t('status')}</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {step.players.map((player) => (
+                      <TableRow key={player.playerId} className={cn(!player.alive && 'text-muted-foreground')}>
+                        <TableCell className="font-medium">{player.nickname}</TableCell>
+                        {step.phase === 'phase3' && (
+                          <TableCell className="text-right font-mono">{player.lives}</TableCell>
+                        )}
+                        <TableCell>
+                          {player.eliminatedThisRound
+                            ? t('eliminatedThisRound')
+                            : !player.alive
+                              ? tc('eliminated')
+                              : player.lifeLost
+                                ? t('lostLife')
+                                : tc('active')}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>{t('results')}</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>{tc('player')}</TableHead>
+                      <TableHead className="text-right">{t('time')}</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {[...step.results]
+                      .sort((a, b) => a.timeMs - b.timeMs)
+                      .map((result) => (
+                        <TableRow key={result.playerId}>
+                          <TableCell>{nicknames.get(result.playerId) ?? result.playerId}</TableCell>
+                          <TableCell className="text-right font-mono">
+                            {msToDisplayTime(result.timeMs)}
+                            {result.isRetry && <span className="ml-1 text-xs">{t('retry')}</span>}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                  </TableBody>
+                </Table>
+                {step.suddenDeaths.length > 0 && (
+                  <div className="space-y-2">
+                    <h4 className="font-semibold text-sm">{t('suddenDeath')}</h4>
+                    <ol className="space-y-1 text-sm">
+                      {step.suddenDeaths.map((suddenDeath) => (
+                        <li key={suddenDeath.sequence}>
+                          <span className="font-mono">
+                            #{suddenDeath.sequence} {suddenDeath.course}
+                          </span>{' '}
+                          <span className="text-muted-foreground">{t(`suddenDeathKind_${suddenDeath.kind}`)}</span>
+                          {': '}
+                          {suddenDeath.results
+                            ? [...suddenDeath.results]
+                                .sort((a, b) => a.timeMs - b.timeMs)
+                                .map(
+                                  (result) =>
+                                    `${nicknames.get(result.playerId) ?? result.playerId} ${msToDisplayTime(result.timeMs)}`,
+                                )
+                                .join(' / ')
+                            : suddenDeath.targetPlayerIds
+                                .map((playerId) => nicknames.get(playerId) ?? playerId)
+                                .join(' / ')}
+                          {!suddenDeath.resolved && ` (${t('suddenDeathPending')})`}
+                        </li>
+                      ))}
+                    </ol>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -54,7 +54,8 @@ import {
 } from '@/components/ui/dialog';
 import { Badge } from '@/components/ui/badge';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { COURSE_INFO, RETRY_PENALTY_DISPLAY, RETRY_PENALTY_MS } from '@/lib/constants';
+import { COURSE_INFO, POLLING_INTERVAL, RETRY_PENALTY_DISPLAY, RETRY_PENALTY_MS } from '@/lib/constants';
+import { usePolling } from '@/lib/hooks/usePolling';
 import {
   autoFormatTime,
   generateRandomTimeString,
@@ -64,10 +65,13 @@ import {
 } from '@/lib/ta/time-utils';
 import { TA_TIME_INPUT_HELP_CLASS, getTaTimeInputProps } from '@/lib/ta/time-entry-layout';
 import { TaTimeEntryRow } from '@/components/tournament/ta-time-entry-row';
+import { TaBulkTimePaste } from '@/components/tournament/ta-bulk-time-paste';
+import type { BulkTimePasteRow } from '@/lib/ta/bulk-time-paste';
 import { getCourseCycleStatus } from '@/lib/ta/course-cycle-status';
 import { CardSkeleton } from '@/components/ui/loading-skeleton';
 import { Dice5 } from 'lucide-react';
 import { createLogger } from '@/lib/client-logger';
+import { useTournamentPermissions } from '@/lib/hooks/use-tournament-permissions';
 import type { Player } from '@/lib/types';
 import { useTournamentDebugMode } from '@/lib/hooks/use-tournament-debug-mode';
 import { useBroadcastReflect } from '@/lib/hooks/use-broadcast-reflect';
@@ -164,6 +168,7 @@ export default function TimeAttackFinals({ params }: { params: Promise<{ id: str
    * standings, history, and champion banner.
    */
   const isAdmin = session?.user?.role === 'admin';
+  const canOperateTa = useTournamentPermissions(tournamentId)('ta');
 
   // === State Management ===
   const [entries, setEntries] = useState<TTEntry[]>([]);
@@ -322,16 +327,15 @@ export default function TimeAttackFinals({ params }: { params: Promise<{ id: str
     retryFlagsRef.current = retryFlags;
   }, [retryFlags]);
 
-  // Auto-refresh every 3 seconds, but pause when user is editing to prevent
-  // resetting their input. This ensures a smooth data entry experience.
-  useEffect(() => {
-    const interval = setInterval(() => {
-      if (!isEditing) {
-        fetchData();
-      }
-    }, 3000);
-    return () => clearInterval(interval);
-  }, [fetchData, isEditing]);
+  // Auto-refresh every 3 seconds and on TA change events, but pause when user
+  // is editing to prevent resetting their input. This ensures a smooth data
+  // entry experience.
+  usePolling(fetchData, {
+    interval: POLLING_INTERVAL,
+    immediate: false,
+    enabled: !isEditing,
+    streamUrl: `/api/tournaments/${tournamentId}/events?scope=ta`,
+  });
 
   // === Event Handlers ===
 
@@ -529,6 +533,16 @@ export default function TimeAttackFinals({ params }: { params: Promise<{ id: str
     setIsEditing(true);
   };
 
+  /**
+   * Fill the time inputs from the bulk paste panel. Players the paste did not
+   * cover keep whatever was already typed; the usual submit preview follows.
+   */
+  const handleBulkPasteApply = useCallback((rows: BulkTimePasteRow[]) => {
+    setIsEditing(true);
+    setCourseTimes((prev) => ({ ...prev, ...Object.fromEntries(rows.map((row) => [row.playerId!, row.time!])) }));
+    setRetryFlags((prev) => ({ ...prev, ...Object.fromEntries(rows.map((row) => [row.playerId!, row.isRetry])) }));
+  }, []);
+
   /** Handle time input change for a specific player */
   const handleTimeChange = useCallback((playerId: string, value: string) => {
     setIsEditing(true);
@@ -877,6 +891,8 @@ export default function TimeAttackFinals({ params }: { params: Promise<{ id: str
   // the final round without a full phase reset. Buttons render only when at
   // least one round has been submitted; dialogs are rendered once at top level.
   const canManage = Boolean(isAdmin) && !archived;
+  // TA operators run rounds; manual eliminations, life edits and debug fill stay admin-only.
+  const canOperate = canOperateTa && !archived;
 
   const roundCorrectionControls =
     completedRoundsCount > 0 ? (
@@ -960,7 +976,7 @@ export default function TimeAttackFinals({ params }: { params: Promise<{ id: str
 
       {/* Sudden-death panel (admin-only) */}
       <TASuddenDeathSection
-        isAdmin={canManage}
+        isAdmin={canOperate}
         isComplete={isComplete}
         pendingSuddenDeath={pendingSuddenDeath}
         pendingSuddenDeathEntries={pendingSuddenDeathEntries}
@@ -979,7 +995,7 @@ export default function TimeAttackFinals({ params }: { params: Promise<{ id: str
         onSubmit={handleSubmitSuddenDeath}
       />
 
-      {canManage &&
+      {canOperate &&
         !isComplete &&
         !pendingSuddenDeath &&
         (currentRound ? (
@@ -1006,6 +1022,14 @@ export default function TimeAttackFinals({ params }: { params: Promise<{ id: str
               )}
               <div className="space-y-3">
                 <p className={TA_TIME_INPUT_HELP_CLASS}>{tTaFinals('timeInputHelp')}</p>
+                <TaBulkTimePaste
+                  candidates={activeEntries.map((entry) => ({
+                    playerId: entry.playerId,
+                    nickname: entry.player.nickname,
+                  }))}
+                  disabled={submitting}
+                  onApply={handleBulkPasteApply}
+                />
                 {activeEntries.map((entry) => (
                   <TaTimeEntryRow
                     key={entry.id}
@@ -1226,7 +1250,7 @@ export default function TimeAttackFinals({ params }: { params: Promise<{ id: str
           round must still be fixable without resetting the whole phase
           (reported issue). Undoing restores the eliminated player, reopening
           the phase and bringing back the normal controls. */}
-      {canManage && isComplete && !pendingSuddenDeath && completedRoundsCount > 0 && (
+      {canOperate && isComplete && !pendingSuddenDeath && completedRoundsCount > 0 && (
         <Card className="border-amber-400">
           <CardHeader>
             <CardTitle>{tTaFinals('correctFinalRoundTitle')}</CardTitle>
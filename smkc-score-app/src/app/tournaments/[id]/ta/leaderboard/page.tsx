@@ -0,0 +1,185 @@
+'use client';
+
+/**
+ * TA Qualification Live Leaderboard Page - public
+ *
+ * Follows the qualification while times are still coming in: provisional
+ * points and rank, the final-points range each player can still reach, the
+ * finishing ranks that range allows, and who is on the bubble of the
+ * finals cut lines. A course picker shows that course's ranking so
+ * far.
+ *
+ * Data comes from GET /api/tournaments/:id/ta/leaderboard (live-leaderboard.ts).
+ */
+
+import { useCallback, useState, use } from 'react';
+import { useTranslations } from 'next-intl';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { CardSkeleton } from '@/components/ui/loading-skeleton';
+import { usePolling } from '@/lib/hooks/usePolling';
+import { COURSE_INFO, POLLING_INTERVAL } from '@/lib/constants';
+import { fetchWithRetry } from '@/lib/fetch-with-retry';
+import { cn } from '@/lib/utils';
+import type { TaLiveLeaderboard } from '@/lib/ta/live-leaderboard';
+
+export default function TaLeaderboardPage({ params }: { params: Promise<{ id: string }> }) {
+  const { id: tournamentId } = use(params);
+  const t = useTranslations('taLeaderboard');
+  const tc = useTranslations('common');
+  const [course, setCourse] = useState<string>(COURSE_INFO[0].abbr);
+
+  const fetchLeaderboard = useCallback(async () => {
+    const response = await fetchWithRetry(`/api/tournaments/${tournamentId}/ta/leaderboard`);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch TA leaderboard: ${response.status}`);
+    }
+    const json = await response.json();
+    return (json.data ?? json) as TaLiveLeaderboard;
+  }, [tournamentId]);
+
+  const { data, error, refetch } = usePolling(fetchLeaderboard, {
+    interval: POLLING_INTERVAL,
+    streamUrl: `/api/tournaments/${tournamentId}/events?scope=ta`,
+    cacheKey: `tournament/${tournamentId}/ta/leaderboard`,
+  });
+
+  if (!data) {
+    return error ? (
+      <div className="border border-foreground/15 py-10 text-center space-y-4">
+        <p className="text-destructive">{t('fetchError')}</p>
+        <Button onClick={() => void refetch()}>{tc('retry')}</Button>
+      </div>
+    ) : (
+      <CardSkeleton />
+    );
+  }
+
+  const nicknames = new Map(data.players.map((player) => [player.entryId, player.nickname]));
+  const courseResults = data.courses.find((entry) => entry.course === course)?.results ?? [];
+
+  return (
+    <div className="space-y-6">
+      <header className="flex flex-col gap-2 sm:flex-row sm:items-start sm:justify-between">
+        <div className="space-y-1">
+          <h2 className="font-display text-2xl tracking-wide">{t('title')}</h2>
+          <p className="text-sm text-muted-foreground">{t('description')}</p>
+        </div>
+        <Button variant="outline" size="sm" asChild>
+          <a href={`/tournaments/${tournamentId}/ta`}>{t('backToTa')}</a>
+        </Button>
+      </header>
+
+      {data.players.length === 0 ? (
+        <p className="text-center py-8 text-muted-foreground">{t('noEntries')}</p>
+      ) : (
+        <>
+          <Card>
+            <CardHeader>
+              <CardTitle>{t('standings')}</CardTitle>
+              <CardDescription>{t('projectionNote')}</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-16">{t('rank')}</TableHead>
+                    <TableHead>{tc('player')}</TableHead>
+                    <TableHead className="text-center">{t('coursesRun')}</TableHead>
+                    <TableHead className="text-right">{t('points')}</TableHead>
+                    <TableHead className="text-right">{t('projected')}</TableHead>
+                    <TableHead className="text-right">{t('finish')}</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {data.players.map((player) => (
+                    <TableRow
+                      key={player.entryId}
+                      className={cn(
+                        data.cutLines.includes(player.provisionalRank) && 'border-b-2 border-b-primary',
+                        player.bubbleCutLines.length > 0 && 'bg-primary/5',
+                      )}
+                    >
+                      <TableCell className="font-mono">{player.provisionalRank}</TableCell>
+                      <TableCell className="font-medium">{player.nickname}</TableCell>
+                      <TableCell className="text-center font-mono">
+                        {player.coursesRun}/{COURSE_INFO.length}
+                      </TableCell>
+                      <TableCell className="text-right font-mono">{player.provisionalPoints}</TableCell>
+                      <TableCell className="text-right font-mono">
+                        {player.minPoints === player.maxPoints
+                          ? player.maxPoints
+                          : `${player.minPoints} - ${player.maxPoints}`}
+                      </TableCell>
+                      <TableCell className="text-right font-mono">
+                        {player.bestRank === player.worstRank
+                          ? player.bestRank
+                          : `${player.bestRank} - ${player.worstRank}`}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap gap-1">
+                          {player.bubbleCutLines.map((line) => (
+                            <Badge key={line} variant="flag-active">
+                              {t('bubble', { line })}
+                            </Badge>
+                          ))}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
+              <CardTitle>{t('courseRanking')}</CardTitle>
+              <select
+                className="border rounded px-2 py-1 text-sm bg-background sm:w-64"
+                value={course}
+                onChange={(e) => setCourse(e.target.value)}
+                aria-label={t('course')}
+              >
+                {COURSE_INFO.map((info) => (
+                  <option key={info.abbr} value={info.abbr}>
+                    {info.abbr} {info.name}
+                  </option>
+                ))}
+              </select>
+            </CardHeader>
+            <CardContent>
+              {courseResults.length === 0 ? (
+                <p className="text-sm text-muted-foreground">{t('noTimes')}</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-16">{t('rank')}</TableHead>
+                      <TableHead>{tc('player')}</TableHead>
+                      <TableHead className="text-right">{t('time')}</TableHead>
+                      <TableHead className="text-right">{t('points')}</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {courseResults.map((result) => (
+                      <TableRow key={result.entryId}>
+                        <TableCell className="font-mono">{result.rank}</TableCell>
+                        <TableCell>{nicknames.get(result.entryId)}</TableCell>
+                        <TableCell className="text-right font-mono">{result.time}</TableCell>
+                        <TableCell className="text-right font-mono">{result.points.toFixed(1)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
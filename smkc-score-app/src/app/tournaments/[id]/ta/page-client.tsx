@@ -49,6 +49,7 @@ import { Checkbox } from '@/components/ui/checkbox';
 import { ModePublishSwitch } from '@/components/tournament/mode-publish-switch';
 import { DebugFillButton } from '@/components/tournament/debug-fill-button';
 import { useTournamentDebugMode } from '@/lib/hooks/use-tournament-debug-mode';
+import { useTournamentPermissions } from '@/lib/hooks/use-tournament-permissions';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { COURSE_INFO, POLLING_INTERVAL, TOTAL_COURSES, TV_NUMBER_OPTIONS } from '@/lib/constants';
 import { applyAutoPairsToSetup } from '@/lib/ta/pair-utils';
@@ -80,6 +81,10 @@ import { TaHandicapSelect } from '@/components/tournament/ta-handicap-select';
 import { TaHandicapBadge } from '@/components/tournament/ta-handicap-badge';
 import { TaHandicapLegend } from '@/components/tournament/ta-handicap-legend';
 import { TaModeBadge } from '@/components/tournament/ta-mode-badge';
+import { TaFinalsRulesEditor } from '@/components/tournament/ta-finals-rules-editor';
+import { TaBulkTimePaste } from '@/components/tournament/ta-bulk-time-paste';
+import type { BulkTimePasteRow } from '@/lib/ta/bulk-time-paste';
+import { DEFAULT_TA_FINALS_RULES, getTaFinalsStartingPlayers, type TaFinalsRules } from '@/lib/ta/finals-rules';
 import type { TaHandicapSeconds } from '@/lib/ta/battle-royale';
 
 const logger = createLogger({ serviceName: 'tournaments-ta' });
@@ -144,6 +149,10 @@ export default function TimeAttackPageClient({
   const { data: session } = useSession();
   const t = useTranslations('ta');
   const tc = useTranslations('common');
+  const tLeaderboard = useTranslations('taLeaderboard');
+  const tTimeline = useTranslations('taFinalsTimeline');
+  const tCourseRecords = useTranslations('taCourseRecords');
+  const tBulkPaste = useTranslations('taBulkPaste');
   const locale = useLocale();
   // Input is a native element, so this does not skip rendering by reference equality.
   // The memo keeps TA pages consistent and avoids rebuilding identical spread props during polling refreshes.
@@ -155,6 +164,12 @@ export default function TimeAttackPageClient({
    */
   const isAdmin = Boolean(session?.user && session.user.role === 'admin');
 
+  /**
+   * TA operators of this tournament can also promote to finals and edit any
+   * player's times; adding/removing players and phase resets stay admin-only.
+   */
+  const canOperateTa = useTournamentPermissions(tournamentId)('ta');
+
   /**
    * Player self-edit check: logged-in players can edit their own times.
    * Uses session.user.playerId (set during player-credential login) to
@@ -205,6 +220,9 @@ export default function TimeAttackPageClient({
   // the selected TV slots are immediately reflected to the broadcast endpoint.
   const [qualificationTvAssignments, setQualificationTvAssignments] = useState<Record<string, number | null>>({});
 
+  // Course the bulk paste panel saves pasted qualification times to
+  const [bulkPasteCourse, setBulkPasteCourse] = useState<string>(COURSE_INFO[0].abbr);
+
   // Search query used inside the unified setup dialog
   const [playerSearchQuery, setPlayerSearchQuery] = useState('');
 
@@ -226,6 +244,7 @@ export default function TimeAttackPageClient({
   // Phase promotion states
   const [phaseStatus, setPhaseStatus] = useState<TaPhaseStatus>(null);
   const [phaseStatusLoaded, setPhaseStatusLoaded] = useState(false);
+  const [finalsRules, setFinalsRules] = useState<TaFinalsRules>(DEFAULT_TA_FINALS_RULES);
   const [promotingPhase, setPromotingPhase] = useState<string | null>(null);
   const [battleRoyalePromotionConfirmOpen, setBattleRoyalePromotionConfirmOpen] = useState(false);
   // Phase reset (undo promotion) state — tracks which stage is currently being reset
@@ -271,6 +290,7 @@ export default function TimeAttackPageClient({
       frozenStages: taData.frozenStages || [],
       taPlayerSelfEdit: taData.taPlayerSelfEdit ?? true,
       taBattleRoyaleMode: taData.taBattleRoyaleMode ?? false,
+      registrationPlayerIds: (taData.registrationPlayerIds as string[] | undefined) ?? [],
     };
   }, [tournamentId]);
 
@@ -284,6 +304,7 @@ export default function TimeAttackPageClient({
     refetch,
   } = usePolling(fetchTournamentData, {
     interval: POLLING_INTERVAL,
+    streamUrl: `/api/tournaments/${tournamentId}/events?scope=ta`,
     cacheKey: `tournament/${tournamentId}/ta`,
     initialData,
   });
@@ -299,6 +320,10 @@ export default function TimeAttackPageClient({
   const frozenStages: string[] = pollData?.frozenStages ?? [];
   const taPlayerSelfEdit: boolean = pollData?.taPlayerSelfEdit ?? true;
   const taBattleRoyaleMode: boolean = pollData?.taBattleRoyaleMode ?? false;
+  const registrationPlayerIds: string[] = useMemo(
+    () => pollData?.registrationPlayerIds ?? [],
+    [pollData?.registrationPlayerIds],
+  );
   /**
    * Whether the current user can edit a specific entry's times.
    * Returns false if the entry's stage is frozen (applies to both admins and players).
@@ -307,7 +332,7 @@ export default function TimeAttackPageClient({
    */
   const canEditEntry = (entry: TTEntry): boolean => {
     return canEditTaEntry(entry, {
-      isAdmin,
+      isAdmin: canOperateTa,
       currentPlayerId,
       frozenStages,
       taPlayerSelfEdit,
@@ -330,19 +355,22 @@ export default function TimeAttackPageClient({
   const openSetupDialog = useCallback(() => {
     const qualEntries = entries.filter((e) => e.stage === 'qualification');
     setSetupEntries(
-      qualEntries
-        .map((e) => ({
-          playerId: e.playerId,
-          seeding: e.seeding ?? undefined,
-          partnerId: e.partnerId ?? null,
-          taHandicapSeconds: e.taHandicapSeconds ?? 0,
-        }))
-        .sort((a, b) => (a.seeding ?? Infinity) - (b.seeding ?? Infinity)),
+      qualEntries.length > 0
+        ? qualEntries
+            .map((e) => ({
+              playerId: e.playerId,
+              seeding: e.seeding ?? undefined,
+              partnerId: e.partnerId ?? null,
+              taHandicapSeconds: e.taHandicapSeconds ?? 0,
+            }))
+            .sort((a, b) => (a.seeding ?? Infinity) - (b.seeding ?? Infinity))
+        : /* Empty roster: start from the approved self-registrations. */
+          registrationPlayerIds.map((playerId) => ({ playerId, partnerId: null, taHandicapSeconds: 0 })),
     );
     setSaveError(null);
     setPlayerSearchQuery('');
     setIsSetupDialogOpen(true);
-  }, [entries]);
+  }, [entries, registrationPlayerIds]);
 
   /**
    * Compute snake pairs from the current setupEntries (local dialog state)
@@ -488,8 +516,27 @@ export default function TimeAttackPageClient({
   // Check if qualification entries exist in each phase's rank range.
   // This directly mirrors the backend's getQualificationPlayersByRank checks.
   // If no players are ranked in a phase's range, that phase can be skipped.
-  const phase1HasPlayers = entries.some((e) => e.rank !== null && e.rank >= 17 && e.rank <= 24);
-  const phase2HasPlayers = entries.some((e) => e.rank !== null && e.rank >= 13 && e.rank <= 16);
+  const hasPlayersInBand = ({ qualRankStart, qualRankEnd }: { qualRankStart: number; qualRankEnd: number }) =>
+    entries.some((e) => e.rank !== null && e.rank >= qualRankStart && e.rank <= qualRankEnd);
+  const phase1HasPlayers = hasPlayersInBand(finalsRules.phase1);
+  const phase2HasPlayers = hasPlayersInBand(finalsRules.phase2);
+  const startingPlayers = getTaFinalsStartingPlayers(finalsRules);
+  /* ICU params for the phase descriptions, so custom rule sets read correctly. */
+  const phaseRuleParams = {
+    p1Start: finalsRules.phase1.qualRankStart,
+    p1End: finalsRules.phase1.qualRankEnd,
+    p1Field: startingPlayers.phase1,
+    p1Survivors: finalsRules.phase1.survivorsNeeded,
+    p2Start: finalsRules.phase2.qualRankStart,
+    p2End: finalsRules.phase2.qualRankEnd,
+    p2Field: startingPlayers.phase2,
+    p2Survivors: finalsRules.phase2.survivorsNeeded,
+    p3Start: finalsRules.phase3.qualRankStart,
+    p3End: finalsRules.phase3.qualRankEnd,
+    p3Field: startingPlayers.phase3,
+    lives: finalsRules.phase3.initialLives,
+    resets: finalsRules.phase3.lifeResetThresholds.join('/') || '-',
+  };
   const showFinalsPhaseManagement = shouldShowTaFinalsPhaseManagement({
     entriesCount: entries.length,
     frozenStages,
@@ -525,6 +572,7 @@ export default function TimeAttackPageClient({
         // Unwrap createSuccessResponse wrapper: { success, data: { phaseStatus } }
         const data = json.data ?? json;
         setPhaseStatus(data.phaseStatus);
+        if (data.taFinalsRules) setFinalsRules(data.taFinalsRules);
       }
     } catch {
       // Phase status fetch is non-critical; silently ignore errors
@@ -723,6 +771,37 @@ export default function TimeAttackPageClient({
     }
   };
 
+  /**
+   * Save the bulk-pasted times for one course. The TA PUT takes one entry at
+   * a time, so the rows go out in order and the first failure stops the
+   * batch; rows before it stay saved and re-saving them is harmless.
+   */
+  const handleBulkPasteSave = async (rows: BulkTimePasteRow[]) => {
+    const course = bulkPasteCourse;
+    try {
+      for (const row of rows) {
+        const entry = entries.find((e) => e.playerId === row.playerId && e.stage === 'qualification');
+        if (!entry) continue;
+        const response = await fetch(`/api/tournaments/${tournamentId}/ta`, {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ entryId: entry.id, course, time: row.time }),
+        });
+        if (!response.ok) {
+          const errorData = await response.json().catch(() => ({}));
+          toast.error(errorData.error || tBulkPaste('saveFailed', { nickname: row.nickname ?? row.name }));
+          throw new Error(`Failed to save bulk-pasted time: ${response.status}`);
+        }
+      }
+      toast.success(tBulkPaste('saved', { count: rows.length, course }));
+    } catch (err) {
+      logger.error('Failed to save bulk-pasted times:', { error: err, tournamentId, course });
+      throw err;
+    } finally {
+      refetch();
+    }
+  };
+
   // === Helper Functions ===
 
   /** Count how many course times have been entered for an entry */
@@ -802,6 +881,21 @@ export default function TimeAttackPageClient({
           <p className="text-muted-foreground text-sm sm:text-base">{t('qualificationDesc')}</p>
         </div>
         <div className="flex gap-2 flex-wrap">
+          {entries.length > 0 && (
+            <Button variant="outline" size="sm" asChild>
+              <a href={`/tournaments/${tournamentId}/ta/leaderboard`}>{tLeaderboard('link')}</a>
+            </Button>
+          )}
+          {(phaseStatus?.phase1 || phaseStatus?.phase2 || phaseStatus?.phase3) && (
+            <Button variant="outline" size="sm" asChild>
+              <a href={`/tournaments/${tournamentId}/ta/finals-timeline`}>{tTimeline('link')}</a>
+            </Button>
+          )}
+          {entries.length > 0 && (
+            <Button variant="outline" size="sm" asChild>
+              <a href={`/tournaments/${tournamentId}/ta/course-records`}>{tCourseRecords('link')}</a>
+            </Button>
+          )}
           {/* Freeze/Unfreeze qualification stage (admin only) */}
           {isAdmin && (
             <Button
@@ -1124,13 +1218,13 @@ export default function TimeAttackPageClient({
         <Card>
           <CardHeader>
             <CardTitle>{t('finalsPhases')}</CardTitle>
-            <CardDescription>{t('finalsPhaseDesc')}</CardDescription>
+            <CardDescription>{t('finalsPhaseDesc', phaseRuleParams)}</CardDescription>
           </CardHeader>
           <CardContent className="space-y-4">
             <div className="flex flex-wrap items-center gap-2 rounded-md border bg-muted/30 p-3">
               <TaModeBadge mode={taBattleRoyaleMode ? 'battle_royale' : 'standard'} />
               <span className="text-sm text-muted-foreground">
-                {taBattleRoyaleMode ? t('battleRoyalePhaseSummary') : t('standardPhaseSummary')}
+                {taBattleRoyaleMode ? t('battleRoyalePhaseSummary') : t('standardPhaseSummary', phaseRuleParams)}
                 {taBattleRoyaleMode && entries.length > 0 && (
                   <span className="ml-2 font-mono text-xs">
                     {[-5, -3, -1, 0]
@@ -1145,14 +1239,25 @@ export default function TimeAttackPageClient({
                 )}
               </span>
             </div>
+            {isAdmin && !taBattleRoyaleMode && phaseStatusLoaded && (
+              <TaFinalsRulesEditor
+                tournamentId={tournamentId}
+                rules={finalsRules}
+                locked={Boolean(phaseStatus?.phase1 || phaseStatus?.phase2 || phaseStatus?.phase3)}
+                onSaved={(rules) => {
+                  setFinalsRules(rules);
+                  toast.success(t('finalsRulesSaved'));
+                }}
+              />
+            )}
             <div className={taBattleRoyaleMode ? 'grid grid-cols-1 gap-4' : 'grid grid-cols-1 sm:grid-cols-3 gap-4'}>
-              {/* Phase 1: Only relevant when there are ≥17 qualified players (ranks 17-24) */}
+              {/* Phase 1: Only relevant when players are ranked in the Phase 1 band (17-24 by default) */}
               {!taBattleRoyaleMode && (
                 <div className="border rounded-lg p-4 space-y-2">
                   <div className="flex items-center gap-2">
                     <h4 className="font-semibold">{t('phase1')}</h4>
                   </div>
-                  <p className="text-sm text-muted-foreground">{t('phase1Desc')}</p>
+                  <p className="text-sm text-muted-foreground">{t('phase1Desc', phaseRuleParams)}</p>
                   {phaseStatus?.phase1 ? (
                     <div className="text-sm">
                       <span className="text-green-600">
@@ -1164,13 +1269,13 @@ export default function TimeAttackPageClient({
                       </span>
                     </div>
                   ) : !phase1HasPlayers ? (
-                    <p className="text-sm text-muted-foreground">{t('phase1Skipped')}</p>
+                    <p className="text-sm text-muted-foreground">{t('phase1Skipped', phaseRuleParams)}</p>
                   ) : (
                     <p className="text-sm text-muted-foreground">{tc('notStarted')}</p>
                   )}
                   <div className="flex gap-2 flex-wrap">
-                    {/* Promotion button: admin-only */}
-                    {isAdmin && showPhasePromotionButtons && !phaseStatus?.phase1 && phase1HasPlayers && (
+                    {/* Promotion button: admin / TA operator */}
+                    {canOperateTa && showPhasePromotionButtons && !phaseStatus?.phase1 && phase1HasPlayers && (
                       <Button
                         size="sm"
                         onClick={() => handlePromoteToPhase('promote_phase1')}
@@ -1208,7 +1313,7 @@ export default function TimeAttackPageClient({
                   <div className="flex items-center gap-2">
                     <h4 className="font-semibold">{t('phase2')}</h4>
                   </div>
-                  <p className="text-sm text-muted-foreground">{t('phase2Desc')}</p>
+                  <p className="text-sm text-muted-foreground">{t('phase2Desc', phaseRuleParams)}</p>
                   {phaseStatus?.phase2 ? (
                     <div className="text-sm">
                       <span className="text-green-600">
@@ -1220,13 +1325,13 @@ export default function TimeAttackPageClient({
                       </span>
                     </div>
                   ) : !phase2HasPlayers ? (
-                    <p className="text-sm text-muted-foreground">{t('phase2Skipped')}</p>
+                    <p className="text-sm text-muted-foreground">{t('phase2Skipped', phaseRuleParams)}</p>
                   ) : (
                     <p className="text-sm text-muted-foreground">{tc('notStarted')}</p>
                   )}
                   <div className="flex gap-2 flex-wrap">
-                    {/* Promotion button: admin-only */}
-                    {isAdmin &&
+                    {/* Promotion button: admin / TA operator */}
+                    {canOperateTa &&
                       showPhasePromotionButtons &&
                       !phaseStatus?.phase2 &&
                       (phaseStatus?.phase1 || !phase1HasPlayers) &&
@@ -1279,7 +1384,7 @@ export default function TimeAttackPageClient({
                     {taBattleRoyaleMode && <TaModeBadge mode="battle_royale" />}
                   </div>
                   <p className="text-sm text-muted-foreground">
-                    {taBattleRoyaleMode ? t('battleRoyalePhase3Desc') : t('phase3Desc')}
+                    {taBattleRoyaleMode ? t('battleRoyalePhase3Desc') : t('phase3Desc', phaseRuleParams)}
                   </p>
                   {phaseStatus?.phase3 ? (
                     <div className="text-sm">
@@ -1300,8 +1405,8 @@ export default function TimeAttackPageClient({
                     <p className="text-sm text-muted-foreground">{tc('notStarted')}</p>
                   )}
                   <div className="flex gap-2 flex-wrap">
-                    {/* Promotion button: admin-only */}
-                    {isAdmin &&
+                    {/* Promotion button: admin / TA operator */}
+                    {canOperateTa &&
                       showPhasePromotionButtons &&
                       !phaseStatus?.phase3 &&
                       (taBattleRoyaleMode || phaseStatus?.phase2 || !phase2HasPlayers) && (
@@ -1474,6 +1579,34 @@ export default function TimeAttackPageClient({
                 </div>
               </CardHeader>
               <CardContent>
+                {canOperateTa && !frozenStages.includes('qualification') && (
+                  <div className="mb-4">
+                    <TaBulkTimePaste
+                      candidates={entries
+                        .filter((entry) => entry.stage === 'qualification' && canEditEntry(entry))
+                        .map((entry) => ({ playerId: entry.playerId, nickname: entry.player.nickname }))}
+                      allowRetry={false}
+                      applyLabel={tBulkPaste('saveCourse')}
+                      onApply={handleBulkPasteSave}
+                    >
+                      <div className="space-y-1">
+                        <Label htmlFor="ta-bulk-paste-course">{tBulkPaste('course')}</Label>
+                        <select
+                          id="ta-bulk-paste-course"
+                          className="h-9 w-full rounded border bg-background px-2 text-sm sm:w-64"
+                          value={bulkPasteCourse}
+                          onChange={(event) => setBulkPasteCourse(event.target.value)}
+                        >
+                          {COURSE_INFO.map((course) => (
+                            <option key={course.abbr} value={course.abbr}>
+                              {course.name}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                    </TaBulkTimePaste>
+                  </div>
+                )}
                 <Table>
                   <TableHeader>
                     <TableRow>
@@ -37,11 +37,16 @@ import { AlertTriangle, Trophy, Users, Timer, LogIn, Dice5, Lock } from 'lucide-
 import Link from 'next/link';
 import { COURSE_INFO, POLLING_INTERVAL, TOTAL_COURSES } from '@/lib/constants';
 import { autoFormatTime, generateRandomTimeString, msToDisplayTime } from '@/lib/ta/time-utils';
-import { TA_TIME_ENTRY_CUP_GRID_CLASS, TA_TIME_INPUT_HELP_CLASS, type TaTimeInputProps, getTaTimeInputProps } from '@/lib/ta/time-entry-layout';
+import {
+  TA_TIME_ENTRY_CUP_GRID_CLASS,
+  TA_TIME_INPUT_HELP_CLASS,
+  type TaTimeInputProps,
+  getTaTimeInputProps,
+} from '@/lib/ta/time-entry-layout';
 import { toast } from 'sonner';
 import { createLogger } from '@/lib/client-logger';
-import { fetchWithRetry } from "@/lib/fetch-with-retry";
-import type { Player } from "@/lib/types";
+import { fetchWithRetry } from '@/lib/fetch-with-retry';
+import type { Player } from '@/lib/types';
 
 /** Client-side logger for error tracking */
 const logger = createLogger({ serviceName: 'tournaments-ta-participant' });
@@ -77,7 +82,6 @@ interface TAApiData {
   taPlayerSelfEdit?: boolean;
 }
 
-
 /**
  * Convert display time string to milliseconds for preview calculation.
  * Handles the M:SS.mm display format used in input fields.
@@ -95,11 +99,7 @@ function displayTimeToMs(timeStr: string): number {
   return minutes * 60 * 1000 + seconds * 1000 + milliseconds;
 }
 
-export default function TimeAttackParticipantPage({
-  params,
-}: {
-  params: Promise<{ id: string }>;
-}) {
+export default function TimeAttackParticipantPage({ params }: { params: Promise<{ id: string }> }) {
   const { id: tournamentId } = use(params);
 
   /** i18n: Translation hooks placed before any state/effect hooks per Rules of Hooks */
@@ -139,16 +139,16 @@ export default function TimeAttackParticipantPage({
    */
   const handleFillRandomTimes = () => {
     const randomTimes: Record<string, string> = {};
-    
+
     COURSE_INFO.forEach((course) => {
       // Generate random time between 45 seconds and 3 minutes 30 seconds
       const minMs = 45000; // 45 seconds
       const maxMs = 210000; // 3:30
       const randomMs = Math.floor(Math.random() * (maxMs - minMs + 1)) + minMs;
-      
+
       randomTimes[course.abbr] = generateRandomTimeString(randomMs, randomMs);
     });
-    
+
     setTimeInputs(randomTimes);
     toast.success('Random times filled for all courses');
   };
@@ -156,7 +156,10 @@ export default function TimeAttackParticipantPage({
   /** Fetch initial data on mount */
   useEffect(() => {
     if (sessionStatus === 'loading') return;
-    if (!hasAccess) { setLoading(false); return; }
+    if (!hasAccess) {
+      setLoading(false);
+      return;
+    }
 
     const fetchData = async () => {
       try {
@@ -197,16 +200,20 @@ export default function TimeAttackParticipantPage({
     return response.json();
   }, [tournamentId, hasAccess]);
 
-  const { data: pollingData, error: pollingError } = usePolling(
-    fetchEntriesPoll, { interval: POLLING_INTERVAL, enabled: hasAccess && !loading }
-  );
+  const { data: pollingData, error: pollingError } = usePolling(fetchEntriesPoll, {
+    interval: POLLING_INTERVAL,
+    streamUrl: `/api/tournaments/${tournamentId}/events?scope=ta`,
+    enabled: hasAccess && !loading,
+  });
 
   useEffect(() => {
     if (pollingData && typeof pollingData === 'object') {
       // Unwrap createSuccessResponse wrapper: { success, data: { entries, ... } }
-      const unwrapped = (('data' in pollingData && pollingData.data && typeof pollingData.data === 'object')
-        ? pollingData.data
-        : pollingData) as TAApiData;
+      const unwrapped = (
+        'data' in pollingData && pollingData.data && typeof pollingData.data === 'object'
+          ? pollingData.data
+          : pollingData
+      ) as TAApiData;
       if ('entries' in unwrapped) {
         setEntries(unwrapped.entries as TTEntry[]);
       }
@@ -229,7 +236,7 @@ export default function TimeAttackParticipantPage({
   /** Sync own entry and partner entry from the entries list */
   useEffect(() => {
     if (playerId && entries.length > 0) {
-      const entry = entries.find(e => e.playerId === playerId && e.stage === 'qualification');
+      const entry = entries.find((e) => e.playerId === playerId && e.stage === 'qualification');
       setMyEntry(entry || null);
       /* Pre-fill time inputs from existing entry data */
       if (entry && entry.times) {
@@ -237,7 +244,7 @@ export default function TimeAttackParticipantPage({
       }
       /* Find partner's entry: if my entry has a partnerId, find that player's entry */
       if (entry?.partnerId) {
-        const pEntry = entries.find(e => e.playerId === entry.partnerId && e.stage === 'qualification');
+        const pEntry = entries.find((e) => e.playerId === entry.partnerId && e.stage === 'qualification');
         setPartnerEntry(pEntry || null);
         if (pEntry?.times) {
           setPartnerTimeInputs(pEntry.times);
@@ -250,14 +257,14 @@ export default function TimeAttackParticipantPage({
 
   /** Handle individual course time input change */
   const handleTimeChange = useCallback((course: string, value: string) => {
-    setTimeInputs(prev => ({ ...prev, [course]: value }));
+    setTimeInputs((prev) => ({ ...prev, [course]: value }));
   }, []);
 
   /** Auto-format time on blur — normalizes input to M:SS.mm */
   const handleTimeBlur = useCallback((course: string) => {
     setTimeInputs((prev) => {
       const raw = prev[course];
-      if (!raw || raw.trim() === "") return prev;
+      if (!raw || raw.trim() === '') return prev;
       const formatted = autoFormatTime(raw);
       if (formatted !== null && formatted !== raw) {
         return { ...prev, [course]: formatted };
@@ -268,14 +275,14 @@ export default function TimeAttackParticipantPage({
 
   /** Handle partner course time input change */
   const handlePartnerTimeChange = useCallback((course: string, value: string) => {
-    setPartnerTimeInputs(prev => ({ ...prev, [course]: value }));
+    setPartnerTimeInputs((prev) => ({ ...prev, [course]: value }));
   }, []);
 
   /** Auto-format partner time on blur */
   const handlePartnerTimeBlur = useCallback((course: string) => {
     setPartnerTimeInputs((prev) => {
       const raw = prev[course];
-      if (!raw || raw.trim() === "") return prev;
+      if (!raw || raw.trim() === '') return prev;
       const formatted = autoFormatTime(raw);
       if (formatted !== null && formatted !== raw) {
         return { ...prev, [course]: formatted };
@@ -332,7 +339,7 @@ export default function TimeAttackParticipantPage({
       const json = await response.json();
       // Unwrap createSuccessResponse wrapper: { success, data: { entry } }
       const data = json.data ?? json;
-      setEntries(prev => prev.map(e => e.id === myEntry.id ? { ...e, ...data.entry } : e));
+      setEntries((prev) => prev.map((e) => (e.id === myEntry.id ? { ...e, ...data.entry } : e)));
       setMyEntry({ ...myEntry, ...data.entry });
       /** i18n: Success alert after times are submitted */
       alert(tPart('timesSubmittedSuccess'));
@@ -382,7 +389,7 @@ export default function TimeAttackParticipantPage({
       }
       const json = await response.json();
       const data = json.data ?? json;
-      setEntries(prev => prev.map(e => e.id === partnerEntry.id ? { ...e, ...data.entry } : e));
+      setEntries((prev) => prev.map((e) => (e.id === partnerEntry.id ? { ...e, ...data.entry } : e)));
       setPartnerEntry({ ...partnerEntry, ...data.entry });
       alert(tPart('partnerTimesSubmittedSuccess'));
     } catch (err) {
@@ -412,7 +419,7 @@ export default function TimeAttackParticipantPage({
       const json = await response.json();
       /* Unwrap createSuccessResponse wrapper: { success, data: { entries } } */
       const data = json.data ?? json;
-      setEntries(prev => [...prev, ...data.entries]);
+      setEntries((prev) => [...prev, ...data.entries]);
       /** i18n: Success alert after adding self to time attack */
       alert(tPart('addedToTASuccess'));
     } catch (err) {
@@ -424,13 +431,13 @@ export default function TimeAttackParticipantPage({
 
   /** Count the number of course times entered in the input fields */
   const getEnteredTimesCount = (): number => {
-    return Object.values(timeInputs).filter((t) => t && t !== "").length;
+    return Object.values(timeInputs).filter((t) => t && t !== '').length;
   };
 
   /** Calculate preview total time from current input values */
   const getTotalTime = (): number => {
     return Object.entries(timeInputs)
-      .filter(([, timeStr]) => timeStr && timeStr !== "")
+      .filter(([, timeStr]) => timeStr && timeStr !== '')
       .reduce((total, [, timeStr]) => total + displayTimeToMs(timeStr), 0);
   };
 
@@ -457,10 +464,10 @@ export default function TimeAttackParticipantPage({
             <CardDescription>{tPart('loginToEnterTimes')}</CardDescription>
           </CardHeader>
           <CardContent className="space-y-4">
-            <Button asChild className="w-full"><Link href="/auth/signin">{tPart('logIn')}</Link></Button>
-            <p className="text-sm text-muted-foreground text-center">
-              {tPart('loginHelp')}
-            </p>
+            <Button asChild className="w-full">
+              <Link href="/auth/signin">{tPart('logIn')}</Link>
+            </Button>
+            <p className="text-sm text-muted-foreground text-center">{tPart('loginHelp')}</p>
           </CardContent>
         </Card>
       </div>
@@ -519,12 +526,10 @@ export default function TimeAttackParticipantPage({
           )}
 
           {/* Frozen stage warning: shown when qualification is locked by admin */}
-          {frozenStages.includes("qualification") && (
+          {frozenStages.includes('qualification') && (
             <Alert className="mb-6 border-destructive/50 bg-destructive/5">
               <Lock className="h-4 w-4 text-destructive" />
-              <AlertDescription className="text-destructive">
-                {tTa('stageFrozen')}
-              </AlertDescription>
+              <AlertDescription className="text-destructive">{tTa('stageFrozen')}</AlertDescription>
             </Alert>
           )}
 
@@ -553,10 +558,12 @@ export default function TimeAttackParticipantPage({
                         <CardDescription>{tPart('partnerTimesDesc')}</CardDescription>
                       </div>
                       <div className="text-right">
-                        <div className="font-mono">{tPart('taProgress', {
-                          count: Object.values(partnerTimeInputs).filter(t => t && t !== "").length,
-                          total: TOTAL_COURSES,
-                        })}</div>
+                        <div className="font-mono">
+                          {tPart('taProgress', {
+                            count: Object.values(partnerTimeInputs).filter((t) => t && t !== '').length,
+                            total: TOTAL_COURSES,
+                          })}
+                        </div>
                       </div>
                     </div>
                   </CardHeader>
@@ -565,7 +572,9 @@ export default function TimeAttackParticipantPage({
                       {/* Partner Stats */}
                       <div className="grid grid-cols-2 gap-4 p-4 bg-gray-50 rounded-lg">
                         <div className="text-center">
-                          <div className="text-2xl font-bold font-mono">{partnerEntry.rank ? `#${partnerEntry.rank}` : '-'}</div>
+                          <div className="text-2xl font-bold font-mono">
+                            {partnerEntry.rank ? `#${partnerEntry.rank}` : '-'}
+                          </div>
                           <div className="text-sm text-muted-foreground">{tPart('currentRank')}</div>
                         </div>
                         <div className="text-center">
@@ -575,11 +584,9 @@ export default function TimeAttackParticipantPage({
                       </div>
 
                       {/* Partner Time Input Grid */}
-                      <p className={TA_TIME_INPUT_HELP_CLASS}>
-                        {tTa('timeInputHelp')}
-                      </p>
+                      <p className={TA_TIME_INPUT_HELP_CLASS}>{tTa('timeInputHelp')}</p>
                       <div className={TA_TIME_ENTRY_CUP_GRID_CLASS}>
-                        {["Mushroom", "Flower", "Star", "Special"].map((cup) => (
+                        {['Mushroom', 'Flower', 'Star', 'Special'].map((cup) => (
                           <Card key={cup}>
                             <CardHeader className="py-3">
                               <CardTitle className="text-sm">{tTa('cup', { cup })}</CardTitle>
@@ -593,7 +600,7 @@ export default function TimeAttackParticipantPage({
                                   placeholder={tTa('timePlaceholder')}
                                   onChange={handlePartnerTimeChange}
                                   onBlur={handlePartnerTimeBlur}
-                                  disabled={frozenStages.includes("qualification") || qualificationEditingLocked}
+                                  disabled={frozenStages.includes('qualification') || qualificationEditingLocked}
                                   inputClassName="font-mono text-sm"
                                   timeInputProps={taTimeInputProps}
                                 />
@@ -606,17 +613,23 @@ export default function TimeAttackParticipantPage({
                       {/* Partner Preview Total Time */}
                       <div className="p-4 bg-blue-50 rounded-lg">
                         <div className="font-medium text-center mb-2">{tPart('previewTotalTime')}</div>
-                        <div className="text-2xl font-bold font-mono text-center">{msToDisplayTime(
-                          Object.entries(partnerTimeInputs)
-                            .filter(([, t]) => t && t !== "")
-                            .reduce((sum, [, t]) => sum + displayTimeToMs(t), 0)
-                        )}</div>
+                        <div className="text-2xl font-bold font-mono text-center">
+                          {msToDisplayTime(
+                            Object.entries(partnerTimeInputs)
+                              .filter(([, t]) => t && t !== '')
+                              .reduce((sum, [, t]) => sum + displayTimeToMs(t), 0),
+                          )}
+                        </div>
                       </div>
 
                       <Button
                         onClick={handleSubmitPartnerTimes}
-                        disabled={submitting || Object.values(partnerTimeInputs).filter(t => t && t !== "").length === 0
-                          || frozenStages.includes("qualification") || qualificationEditingLocked}
+                        disabled={
+                          submitting ||
+                          Object.values(partnerTimeInputs).filter((t) => t && t !== '').length === 0 ||
+                          frozenStages.includes('qualification') ||
+                          qualificationEditingLocked
+                        }
                         className="w-full"
                       >
                         {submitting ? tCommon('saving') : tPart('submitTimes')}
@@ -630,9 +643,7 @@ export default function TimeAttackParticipantPage({
               {!taPlayerSelfEdit && partnerEntry && (
                 <Alert className="border-amber-500/50 bg-amber-50">
                   <Lock className="h-4 w-4 text-amber-600" />
-                  <AlertDescription className="text-amber-700">
-                    {tPart('selfEditDisabled')}
-                  </AlertDescription>
+                  <AlertDescription className="text-amber-700">{tPart('selfEditDisabled')}</AlertDescription>
                 </Alert>
               )}
 
@@ -646,12 +657,12 @@ export default function TimeAttackParticipantPage({
                           <Timer className="h-5 w-5" />
                           {partnerEntry ? tPart('myTimesTitle') : tTa('title')}
                         </CardTitle>
-                        <CardDescription>
-                          {tTa('enterTimeCourseDesc')}
-                        </CardDescription>
+                        <CardDescription>{tTa('enterTimeCourseDesc')}</CardDescription>
                       </div>
                       <div className="text-right">
-                        <div className="font-mono">{tPart('taProgress', { count: getEnteredTimesCount(), total: TOTAL_COURSES })}</div>
+                        <div className="font-mono">
+                          {tPart('taProgress', { count: getEnteredTimesCount(), total: TOTAL_COURSES })}
+                        </div>
                       </div>
                     </div>
                   </CardHeader>
@@ -670,11 +681,9 @@ export default function TimeAttackParticipantPage({
                       </div>
 
                       {/* Time Input Grid */}
-                      <p className={TA_TIME_INPUT_HELP_CLASS}>
-                        {tTa('timeInputHelp')}
-                      </p>
+                      <p className={TA_TIME_INPUT_HELP_CLASS}>{tTa('timeInputHelp')}</p>
                       <div className={TA_TIME_ENTRY_CUP_GRID_CLASS}>
-                        {["Mushroom", "Flower", "Star", "Special"].map((cup) => (
+                        {['Mushroom', 'Flower', 'Star', 'Special'].map((cup) => (
                           <Card key={cup}>
                             <CardHeader className="py-3">
                               <CardTitle className="text-sm">{tTa('cup', { cup })}</CardTitle>
@@ -688,7 +697,7 @@ export default function TimeAttackParticipantPage({
                                   placeholder={tTa('timePlaceholder')}
                                   onChange={handleTimeChange}
                                   onBlur={handleTimeBlur}
-                                  disabled={frozenStages.includes("qualification") || qualificationEditingLocked}
+                                  disabled={frozenStages.includes('qualification') || qualificationEditingLocked}
                                   inputClassName="font-mono text-sm"
                                   timeInputProps={taTimeInputProps}
                                 />
@@ -701,7 +710,9 @@ export default function TimeAttackParticipantPage({
                       {/* Preview Total Time */}
                       <div className="p-4 bg-blue-50 rounded-lg">
                         <div className="font-medium text-center mb-2">{tPart('previewTotalTime')}</div>
-                        <div className="text-2xl font-bold font-mono text-center">{msToDisplayTime(getTotalTime())}</div>
+                        <div className="text-2xl font-bold font-mono text-center">
+                          {msToDisplayTime(getTotalTime())}
+                        </div>
                       </div>
 
                       {/* Admin-only: Fill random times button */}
@@ -719,7 +730,12 @@ export default function TimeAttackParticipantPage({
 
                       <Button
                         onClick={handleSubmitTimes}
-                        disabled={submitting || getEnteredTimesCount() === 0 || frozenStages.includes("qualification") || qualificationEditingLocked}
+                        disabled={
+                          submitting ||
+                          getEnteredTimesCount() === 0 ||
+                          frozenStages.includes('qualification') ||
+                          qualificationEditingLocked
+                        }
                         className="w-full"
                       >
                         {submitting ? tCommon('saving') : tPart('submitTimes')}
@@ -768,9 +784,7 @@ export default function TimeAttackParticipantPage({
                 <Timer className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
                 {/** i18n: Not registered title and description */}
                 <h3 className="text-lg font-semibold mb-2">{tPart('notRegisteredTA')}</h3>
-                <p className="text-muted-foreground mb-4">
-                  {tPart('notRegisteredTADesc')}
-                </p>
+                <p className="text-muted-foreground mb-4">{tPart('notRegisteredTADesc')}</p>
                 {/** i18n: Add to TA button toggles between "Adding..." and "Add to Time Attack" */}
                 <Button
                   onClick={() => {
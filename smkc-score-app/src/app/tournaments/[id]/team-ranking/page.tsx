@@ -0,0 +1,329 @@
+'use client';
+
+/**
+ * Team Ranking Page
+ *
+ * Team competition standings (e.g. a nations cup) derived from the overall
+ * ranking: each team scores the best N members' points, either on their
+ * overall totals or mode by mode (team-ranking.ts). Members whose points
+ * count are shown in bold.
+ *
+ * Admins can enable team standings, pick country or explicit teams and the
+ * scoring rule, and edit explicit teams. Team points follow the stored
+ * overall ranking, so recalculating the overall ranking updates them.
+ *
+ * Visibility follows the `overall` public mode.
+ */
+
+import { useState, useEffect, useCallback, use } from 'react';
+import { useSession } from 'next-auth/react';
+import { useLocale, useTranslations } from 'next-intl';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { CountryFlag } from '@/components/ui/country-flag';
+import { CardSkeleton } from '@/components/ui/loading-skeleton';
+import { TeamEditor } from '@/components/tournament/team-editor';
+import { usePolling } from '@/lib/hooks/usePolling';
+import { POLLING_INTERVAL } from '@/lib/constants';
+import { getCountryName } from '@/lib/countries';
+import { createLogger } from '@/lib/client-logger';
+import { fetchWithRetry } from '@/lib/fetch-with-retry';
+import type {
+  TeamGrouping,
+  TeamMode,
+  TeamRankingEntry,
+  TeamScoringRule,
+  TeamSettings,
+} from '@/lib/points/team-ranking';
+
+const logger = createLogger({ serviceName: 'tournaments-team-ranking' });
+
+const GROUPING_OPTIONS: { value: TeamGrouping; labelKey: 'groupingCountry' | 'groupingExplicit' }[] = [
+  { value: 'country', labelKey: 'groupingCountry' },
+  { value: 'explicit', labelKey: 'groupingExplicit' },
+];
+const RULE_OPTIONS: { value: TeamScoringRule; labelKey: 'ruleBestNTotal' | 'ruleBestNPerMode' }[] = [
+  { value: 'best_n_total', labelKey: 'ruleBestNTotal' },
+  { value: 'best_n_per_mode', labelKey: 'ruleBestNPerMode' },
+];
+const MODES: { value: TeamMode; label: string }[] = [
+  { value: 'ta', label: 'TA' },
+  { value: 'bm', label: 'BM' },
+  { value: 'mr', label: 'MR' },
+  { value: 'gp', label: 'GP' },
+];
+const DEFAULT_SETTINGS: TeamSettings = { grouping: 'country', rule: 'best_n_total', bestN: 3 };
+
+/** API response structure for the team ranking endpoint */
+interface TeamRankingData {
+  tournamentId: string;
+  tournamentName: string;
+  settings: TeamSettings | null;
+  lastUpdated: string | null;
+  rankings: TeamRankingEntry[];
+}
+
+export default function TeamRankingPage({ params }: { params: Promise<{ id: string }> }) {
+  const { id: tournamentId } = use(params);
+  const tTeams = useTranslations('teams');
+  const tCommon = useTranslations('common');
+  const locale = useLocale();
+  const { data: session } = useSession();
+  const isAdmin = session?.user?.role === 'admin';
+  const [error, setError] = useState<string | null>(null);
+  const [draft, setDraft] = useState<TeamSettings | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const fetchRankings = useCallback(async () => {
+    const response = await fetchWithRetry(`/api/tournaments/${tournamentId}/team-ranking`);
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || `Failed to fetch team rankings: ${response.status}`);
+    }
+
+    const data = await response.json();
+    if (data.success && data.data) {
+      return data.data as TeamRankingData;
+    }
+    throw new Error(data.error || 'Invalid response format');
+  }, [tournamentId]);
+
+  const {
+    data: pollData,
+    error: pollError,
+    refetch,
+  } = usePolling(fetchRankings, {
+    interval: POLLING_INTERVAL,
+    streamUrl: `/api/tournaments/${tournamentId}/events`,
+    cacheKey: `tournament/${tournamentId}/team-ranking`,
+  });
+
+  const settings = pollData?.settings ?? null;
+  const rankings = pollData?.rankings ?? [];
+  const lastUpdated = pollData?.lastUpdated ?? null;
+  /* The form edits a local copy so polling does not overwrite unsaved changes. */
+  const form = draft ?? settings ?? DEFAULT_SETTINGS;
+
+  useEffect(() => {
+    if (pollError) {
+      setError(typeof pollError === 'string' ? pollError : (pollError as Error)?.message || 'Unknown error');
+    }
+  }, [pollError]);
+
+  /** Save settings, or turn team standings off with `{ enabled: false }`. */
+  const saveSettings = async (body: TeamSettings | { enabled: false }) => {
+    setSaving(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/tournaments/${tournamentId}/team-ranking`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      const json = await response.json().catch(() => ({}));
+      if (!response.ok || !json.success) {
+        throw new Error(typeof json.error === 'string' ? json.error : tTeams('failedToSaveSettings'));
+      }
+      setDraft(null);
+      refetch();
+    } catch (err) {
+      logger.error('Failed to save team settings', { error: err, tournamentId });
+      setError(err instanceof Error ? err.message : tTeams('failedToSaveSettings'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const teamLabel = (entry: TeamRankingEntry) =>
+    settings?.grouping === 'country' ? (getCountryName(entry.country, locale) ?? entry.name) : entry.name;
+
+  if (error && !pollData) {
+    return (
+      <div className="space-y-6">
+        <h1 className="font-display text-4xl tracking-wide">{tTeams('title')}</h1>
+        <div className="border border-foreground/15 py-10 text-center space-y-4">
+          <p className="text-destructive">{error}</p>
+          <Button onClick={refetch}>{tCommon('retry')}</Button>
+        </div>
+      </div>
+    );
+  }
+
+  if (!pollData) {
+    return (
+      <div className="space-y-6">
+        <div className="space-y-3">
+          <div className="h-9 w-48 bg-muted animate-pulse rounded" />
+          <div className="h-5 w-64 bg-muted animate-pulse rounded" />
+        </div>
+        <CardSkeleton />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      <header className="border-b border-foreground/15 pb-4">
+        <h1 className="font-display text-3xl sm:text-4xl tracking-wide leading-none">{tTeams('title')}</h1>
+        {settings && (
+          <p className="text-sm text-muted-foreground mt-2">
+            {tTeams(settings.rule === 'best_n_total' ? 'ruleDescriptionTotal' : 'ruleDescriptionPerMode', {
+              count: settings.bestN,
+            })}
+          </p>
+        )}
+        {lastUpdated && (
+          <p className="text-xs text-muted-foreground font-mono tabular mt-1">
+            {tTeams('lastUpdated', { date: new Date(lastUpdated).toLocaleString() })}
+          </p>
+        )}
+      </header>
+
+      {error && (
+        <div className="border-l-[3px] border-destructive bg-destructive/5 py-3 px-4">
+          <p className="text-destructive text-sm">{error}</p>
+        </div>
+      )}
+
+      {isAdmin && (
+        <section className="border border-foreground/15 p-6 space-y-4">
+          <h2 className="text-base font-semibold">{tTeams('settings')}</h2>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label>{tTeams('grouping')}</Label>
+              <div className="flex flex-wrap gap-2" role="group" aria-label={tTeams('grouping')}>
+                {GROUPING_OPTIONS.map((option) => (
+                  <Button
+                    key={option.value}
+                    size="sm"
+                    variant={form.grouping === option.value ? 'default' : 'outline'}
+                    onClick={() => setDraft({ ...form, grouping: option.value })}
+                  >
+                    {tTeams(option.labelKey)}
+                  </Button>
+                ))}
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>{tTeams('rule')}</Label>
+              <div className="flex flex-wrap gap-2" role="group" aria-label={tTeams('rule')}>
+                {RULE_OPTIONS.map((option) => (
+                  <Button
+                    key={option.value}
+                    size="sm"
+                    variant={form.rule === option.value ? 'default' : 'outline'}
+                    onClick={() => setDraft({ ...form, rule: option.value })}
+                  >
+                    {tTeams(option.labelKey)}
+                  </Button>
+                ))}
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="team-best-n">{tTeams('bestN')}</Label>
+              <Input
+                id="team-best-n"
+                type="number"
+                min={1}
+                max={10}
+                className="w-24"
+                value={form.bestN}
+                onChange={(e) => setDraft({ ...form, bestN: Number(e.target.value) })}
+              />
+            </div>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <Button onClick={() => saveSettings(form)} disabled={saving}>
+              {saving ? tTeams('saving') : settings ? tTeams('saveSettings') : tTeams('enable')}
+            </Button>
+            {settings && (
+              <Button variant="outline" onClick={() => saveSettings({ enabled: false })} disabled={saving}>
+                {tTeams('disable')}
+              </Button>
+            )}
+          </div>
+          <p className="text-xs text-muted-foreground">{tTeams('recalculateHint')}</p>
+        </section>
+      )}
+
+      {isAdmin && settings?.grouping === 'explicit' && <TeamEditor tournamentId={tournamentId} onChanged={refetch} />}
+
+      {!settings ? (
+        <div className="border border-foreground/15 py-10 text-center text-muted-foreground">
+          <p>{tTeams('disabled')}</p>
+        </div>
+      ) : rankings.length === 0 ? (
+        <div className="border border-foreground/15 py-10 text-center text-muted-foreground">
+          <p>{tTeams('noTeams')}</p>
+        </div>
+      ) : (
+        <section className="space-y-3">
+          <p className="text-xs text-muted-foreground">{tTeams('countedHint')}</p>
+          <div className="overflow-x-auto border border-foreground/15">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-16">{tTeams('rank')}</TableHead>
+                  <TableHead>{tTeams('team')}</TableHead>
+                  <TableHead>{tTeams('members')}</TableHead>
+                  {MODES.map((mode) => (
+                    <TableHead key={mode.value} className="text-right">
+                      {mode.label}
+                    </TableHead>
+                  ))}
+                  <TableHead className="text-right font-bold">{tTeams('total')}</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rankings.map((entry) => (
+                  <TableRow key={entry.teamId}>
+                    <TableCell>
+                      <Badge variant={entry.rank === 1 ? 'flag-draft' : entry.rank <= 3 ? 'default' : 'outline'}>
+                        {entry.rank}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>
+                      <span className="inline-flex items-center gap-1.5 font-medium">
+                        <CountryFlag country={entry.country} locale={locale} />
+                        {teamLabel(entry)}
+                      </span>
+                    </TableCell>
+                    <TableCell>
+                      <ul className="text-sm space-y-0.5">
+                        {entry.members.map((member) => (
+                          <li
+                            key={member.playerId}
+                            className={member.countedModes.length > 0 ? 'font-semibold' : 'text-muted-foreground'}
+                          >
+                            {member.nickname}
+                            <span className="ml-2 font-mono text-xs text-muted-foreground">
+                              {member.totalPoints.toLocaleString()}
+                            </span>
+                          </li>
+                        ))}
+                      </ul>
+                    </TableCell>
+                    {MODES.map((mode) => (
+                      <TableCell key={mode.value} className="text-right font-mono">
+                        {entry.modePoints[mode.value].toLocaleString()}
+                      </TableCell>
+                    ))}
+                    <TableCell className="text-right">
+                      <div className="font-display text-xl tracking-wider tabular">
+                        {entry.totalPoints.toLocaleString()}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </section>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,168 @@
+'use client';
+
+/**
+ * Venue Screen (会場表示) Page - public
+ *
+ * Shows, for each TV, the match being played and the next two in line across
+ * BM/MR/GP, so participants can see when they are up without asking staff.
+ * Meant to run unattended on a venue monitor, so it polls like the mode
+ * pages. Admins additionally get a "call" action per match, which pins the
+ * match to the head of its TV and announces it on the OBS overlay, and QR
+ * codes under each qualification match now playing that let either player
+ * open its report page already signed in for that match (match-report-token.ts).
+ *
+ * Data comes from GET/POST /api/tournaments/:id/venue (venue-queue.ts).
+ */
+
+import { useState, useCallback, use } from 'react';
+import { useSession } from 'next-auth/react';
+import { useTranslations } from 'next-intl';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { CardSkeleton } from '@/components/ui/loading-skeleton';
+import { usePolling } from '@/lib/hooks/usePolling';
+import { POLLING_INTERVAL } from '@/lib/constants';
+import { fetchWithRetry } from '@/lib/fetch-with-retry';
+import { createLogger } from '@/lib/client-logger';
+import { cn } from '@/lib/utils';
+import { MatchReportQr } from '@/components/tournament/match-report-qr';
+import type { VenueQueueMatch, VenueQueueMode, VenueTvQueue } from '@/lib/venue-queue';
+
+const logger = createLogger({ serviceName: 'venue-screen' });
+
+const MODE_LABELS: Record<VenueQueueMode, string> = { bm: 'BM', mr: 'MR', gp: 'GP' };
+const MODE_CLASSES: Record<VenueQueueMode, string> = {
+  bm: 'border-l-red-500',
+  mr: 'border-l-blue-500',
+  gp: 'border-l-amber-500',
+};
+const STAGE_KEYS = { qualification: 'qualification', playoff: 'playoff', finals: 'finals' } as const;
+
+export default function VenueScreenPage({ params }: { params: Promise<{ id: string }> }) {
+  const { id: tournamentId } = use(params);
+  const { data: session } = useSession();
+  const isAdmin = session?.user && session.user.role === 'admin';
+  const t = useTranslations('venue');
+  const tc = useTranslations('common');
+  const [callingId, setCallingId] = useState<string | null>(null);
+  const [callError, setCallError] = useState<string | null>(null);
+
+  const fetchQueue = useCallback(async () => {
+    const response = await fetchWithRetry(`/api/tournaments/${tournamentId}/venue${isAdmin ? '?qr=1' : ''}`);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch venue queue: ${response.status}`);
+    }
+    const json = await response.json();
+    return (json.data ?? json) as { tvs: VenueTvQueue[] };
+  }, [tournamentId, isAdmin]);
+
+  const { data, error, refetch } = usePolling(fetchQueue, {
+    interval: POLLING_INTERVAL,
+    streamUrl: `/api/tournaments/${tournamentId}/events`,
+    cacheKey: `tournament/${tournamentId}/venue`,
+  });
+
+  const callMatch = async (match: VenueQueueMatch, called: boolean) => {
+    setCallingId(match.id);
+    setCallError(null);
+    try {
+      const response = await fetch(`/api/tournaments/${tournamentId}/venue`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ mode: match.mode, matchId: match.id, called }),
+      });
+      const result = await response.json().catch(() => ({}));
+      if (!response.ok || !result.success) throw new Error(result.error || t('callError'));
+      await refetch();
+    } catch (err) {
+      logger.error('Failed to call match:', { error: err, tournamentId, matchId: match.id });
+      setCallError(err instanceof Error ? err.message : t('callError'));
+    } finally {
+      setCallingId(null);
+    }
+  };
+
+  if (!data) {
+    return error ? (
+      <div className="border border-foreground/15 py-10 text-center space-y-4">
+        <p className="text-destructive">{t('fetchError')}</p>
+        <Button onClick={() => void refetch()}>{tc('retry')}</Button>
+      </div>
+    ) : (
+      <CardSkeleton />
+    );
+  }
+
+  const renderMatch = (match: VenueQueueMatch, prominent: boolean) => (
+    <div className={cn('border-l-4 px-3 py-2 space-y-1', MODE_CLASSES[match.mode], match.calledAt && 'bg-primary/10')}>
+      <div className="flex items-center gap-2 text-xs text-muted-foreground">
+        <span className="font-semibold">{MODE_LABELS[match.mode]}</span>
+        <span>
+          {t('matchLabel', {
+            stage: t(STAGE_KEYS[match.stage as keyof typeof STAGE_KEYS] ?? 'qualification'),
+            number: match.matchNumber,
+          })}
+        </span>
+        {match.calledAt && <Badge variant="flag-active">{t('called')}</Badge>}
+      </div>
+      <p className={cn('font-semibold', prominent ? 'text-2xl' : 'text-base')}>
+        {match.player1Nickname} <span className="text-muted-foreground font-normal">vs</span> {match.player2Nickname}
+      </p>
+      {prominent && match.reportUrls && (
+        <div className="flex gap-4 py-1">
+          <MatchReportQr url={match.reportUrls.player1} label={t('scanToReport', { player: match.player1Nickname })} />
+          <MatchReportQr url={match.reportUrls.player2} label={t('scanToReport', { player: match.player2Nickname })} />
+        </div>
+      )}
+      {isAdmin && (
+        <Button
+          size="sm"
+          variant={match.calledAt ? 'outline' : 'default'}
+          disabled={callingId === match.id}
+          onClick={() => void callMatch(match, !match.calledAt)}
+        >
+          {match.calledAt ? t('cancelCall') : t('callMatch')}
+        </Button>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      <header className="space-y-1">
+        <h2 className="font-display text-2xl tracking-wide">{t('title')}</h2>
+        <p className="text-sm text-muted-foreground">{t('description')}</p>
+      </header>
+
+      {callError && <p className="text-sm text-destructive">{callError}</p>}
+
+      {data.tvs.length === 0 ? (
+        <p className="text-center py-8 text-muted-foreground">{t('noQueue')}</p>
+      ) : (
+        <div className="grid gap-4 md:grid-cols-2">
+          {data.tvs.map((tv) => (
+            <section key={tv.tvNumber} className="border border-foreground/15">
+              <h3 className="border-b border-foreground/15 px-4 py-2 font-display text-xl tracking-wide">
+                {t('tv', { number: tv.tvNumber })}
+              </h3>
+              <div className="p-4 space-y-4">
+                <div className="space-y-2">
+                  <p className="text-xs uppercase tracking-wider text-muted-foreground">{t('nowPlaying')}</p>
+                  {tv.nowPlaying ? renderMatch(tv.nowPlaying, true) : null}
+                </div>
+                <div className="space-y-2">
+                  <p className="text-xs uppercase tracking-wider text-muted-foreground">{t('upNext')}</p>
+                  {tv.upNext.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">{t('nothingQueued')}</p>
+                  ) : (
+                    tv.upNext.map((match) => <div key={match.id}>{renderMatch(match, false)}</div>)
+                  )}
+                </div>
+              </div>
+            </section>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -3,9 +3,11 @@
  *
  * This page provides tournament management functionality:
  * 1. View all tournaments in a table with name, date, and status
- * 2. Create new tournaments (admin only) with name and date
+ * 2. Create new tournaments (admin only) with name and date, optionally
+ *    starting from a saved template or a past tournament
  * 3. Delete tournaments with confirmation (admin only)
- * 4. Navigate to individual tournament detail pages
+ * 4. Save a tournament as a named template (admin only)
+ * 5. Navigate to individual tournament detail pages
  *
  * Role-based access:
  * - All users can view the tournament list and open individual tournaments
@@ -21,6 +23,7 @@
  * - GET /api/tournaments: Fetch paginated tournament list
  * - POST /api/tournaments: Create a new tournament
  * - DELETE /api/tournaments/:id: Delete a tournament
+ * - GET/POST /api/tournament-templates, DELETE /api/tournament-templates/:id
  *
  * The API may return either legacy list payloads or the standardized
  * success wrapper, so the fetch handler normalizes both formats.
@@ -51,6 +54,9 @@ import { fetchWithRetry } from '@/lib/fetch-with-retry';
 import { getTournamentUrlIdentifier } from '@/lib/tournament-identifier';
 import { TaModeSelector } from '@/components/tournament/ta-mode-selector';
 import { TaModeBadge } from '@/components/tournament/ta-mode-badge';
+import { SaveTournamentTemplateDialog } from '@/components/tournament/save-tournament-template-dialog';
+import type { TournamentTemplateSettings } from '@/lib/tournament-template';
+import type { QualificationScheduleMethod } from '@/lib/round-robin';
 
 /** Client-side logger for error tracking */
 const logger = createLogger({ serviceName: 'tournaments-list' });
@@ -70,9 +76,22 @@ interface Tournament {
   publicModes: string[];
   taBattleRoyaleMode?: boolean;
   taMode?: 'standard' | 'battle_royale';
+  dualReportEnabled?: boolean;
+  taPlayerSelfEdit?: boolean;
+  qualificationScheduleMethod?: QualificationScheduleMethod;
   createdAt: string;
 }
 
+/** Saved template as listed by GET /api/tournament-templates. */
+interface TournamentTemplateSummary {
+  id: string;
+  name: string;
+  settings: TournamentTemplateSettings;
+  hasRoster: boolean;
+  finalsRounds: number;
+  rosterPlayers: number;
+}
+
 /**
  * TournamentsPage - Main component for tournament list and creation.
  *
@@ -106,12 +125,16 @@ export default function TournamentsPage() {
     dualReportEnabled: false,
     taPlayerSelfEdit: true,
     taBattleRoyaleMode: false,
-    qualificationScheduleMethod: 'circle' as 'circle' | 'cdm',
+    qualificationScheduleMethod: 'circle' as QualificationScheduleMethod,
     debugMode: false,
   });
   const [error, setError] = useState('');
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [isBattleRoyaleConfirmOpen, setIsBattleRoyaleConfirmOpen] = useState(false);
+  /* "Start from" source: '' (blank), 'template:<id>' or 'tournament:<id>' */
+  const [templates, setTemplates] = useState<TournamentTemplateSummary[]>([]);
+  const [templateSource, setTemplateSource] = useState('');
+  const [copyRoster, setCopyRoster] = useState(false);
   // Ref guards against two rapid form-submits racing before the first re-render.
   const isSubmittingRef = useRef(false);
 
@@ -156,6 +179,65 @@ export default function TournamentsPage() {
     fetchTournaments();
   }, [fetchTournaments]);
 
+  /** Loads saved templates for the "Start from" select (admin only). */
+  const fetchTemplates = useCallback(async () => {
+    try {
+      const response = await fetch('/api/tournament-templates');
+      if (!response.ok) return;
+      setTemplates(extractArrayData<TournamentTemplateSummary>(await response.json()));
+    } catch (err) {
+      logger.error('Failed to fetch tournament templates:', { error: err });
+    }
+  }, []);
+
+  /**
+   * Selecting a source pre-fills the settings it would copy so the admin sees
+   * (and can still change) them; explicit form values win on the server.
+   */
+  const selectTemplateSource = (value: string) => {
+    setTemplateSource(value);
+    const [kind, id] = value.split(':');
+    const settings: Partial<TournamentTemplateSettings> | undefined =
+      kind === 'template'
+        ? templates.find((template) => template.id === id)?.settings
+        : kind === 'tournament'
+          ? tournaments.find((tournament) => tournament.id === id)
+          : undefined;
+    if (!settings) {
+      setCopyRoster(false);
+      return;
+    }
+    setFormData((current) => ({
+      ...current,
+      dualReportEnabled: settings.dualReportEnabled ?? current.dualReportEnabled,
+      taPlayerSelfEdit: settings.taPlayerSelfEdit ?? current.taPlayerSelfEdit,
+      taBattleRoyaleMode: settings.taBattleRoyaleMode ?? current.taBattleRoyaleMode,
+      qualificationScheduleMethod: settings.qualificationScheduleMethod ?? current.qualificationScheduleMethod,
+    }));
+  };
+
+  const deleteSelectedTemplate = async () => {
+    const [kind, id] = templateSource.split(':');
+    if (kind !== 'template' || !confirm(t('confirmDeleteTemplate'))) return;
+    try {
+      const response = await fetch(`/api/tournament-templates/${id}`, { method: 'DELETE' });
+      if (!response.ok) {
+        alert(t('failedToDeleteTemplate'));
+        return;
+      }
+      setTemplateSource('');
+      setCopyRoster(false);
+      fetchTemplates();
+    } catch (err) {
+      logger.error('Failed to delete tournament template:', { error: err, templateId: id });
+      alert(t('failedToDeleteTemplate'));
+    }
+  };
+
+  const [sourceKind, sourceId] = templateSource.split(':');
+  const selectedTemplate = sourceKind === 'template' ? templates.find((template) => template.id === sourceId) : null;
+  const canCopyRoster = sourceKind === 'tournament' || Boolean(selectedTemplate?.hasRoster);
+
   /**
    * Handles new tournament creation form submission.
    * On success, resets the form, closes the dialog, and refreshes the list.
@@ -170,7 +252,12 @@ export default function TournamentsPage() {
       const response = await fetch('/api/tournaments', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(formData),
+        body: JSON.stringify({
+          ...formData,
+          ...(sourceKind === 'template' && { templateId: sourceId }),
+          ...(sourceKind === 'tournament' && { sourceTournamentId: sourceId }),
+          ...(templateSource && { copyRoster: canCopyRoster && copyRoster }),
+        }),
       });
 
       if (response.ok) {
@@ -184,6 +271,8 @@ export default function TournamentsPage() {
           qualificationScheduleMethod: 'circle',
           debugMode: false,
         });
+        setTemplateSource('');
+        setCopyRoster(false);
         setIsBattleRoyaleConfirmOpen(false);
         setIsAddDialogOpen(false);
         if (currentPage === 1) {
@@ -311,7 +400,7 @@ export default function TournamentsPage() {
           >
             <DialogTrigger asChild>
               <Button
-                onClick={() =>
+                onClick={() => {
                   setFormData({
                     name: '',
                     slug: '',
@@ -321,8 +410,11 @@ export default function TournamentsPage() {
                     taBattleRoyaleMode: false,
                     qualificationScheduleMethod: 'circle',
                     debugMode: false,
-                  })
-                }
+                  });
+                  setTemplateSource('');
+                  setCopyRoster(false);
+                  void fetchTemplates();
+                }}
               >
                 {t('createTournament')}
               </Button>
@@ -335,6 +427,57 @@ export default function TournamentsPage() {
               <form onSubmit={handleSubmit}>
                 <div className="space-y-4 py-4">
                   {error && <div className="text-red-500 text-sm">{error}</div>}
+                  <div className="space-y-2">
+                    <Label htmlFor="templateSource">{t('startFrom')}</Label>
+                    <div className="flex gap-2">
+                      <select
+                        id="templateSource"
+                        value={templateSource}
+                        onChange={(event) => selectTemplateSource(event.target.value)}
+                        className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+                      >
+                        <option value="">{t('startFromBlank')}</option>
+                        {templates.length > 0 && (
+                          <optgroup label={t('startFromTemplates')}>
+                            {templates.map((template) => (
+                              <option key={template.id} value={`template:${template.id}`}>
+                                {template.name}
+                              </option>
+                            ))}
+                          </optgroup>
+                        )}
+                        {tournaments.length > 0 && (
+                          <optgroup label={t('startFromTournaments')}>
+                            {tournaments.map((tournament) => (
+                              <option key={tournament.id} value={`tournament:${tournament.id}`}>
+                                {tournament.name}
+                              </option>
+                            ))}
+                          </optgroup>
+                        )}
+                      </select>
+                      {selectedTemplate && (
+                        <Button type="button" variant="outline" onClick={() => void deleteSelectedTemplate()}>
+                          {t('deleteTemplate')}
+                        </Button>
+                      )}
+                    </div>
+                    {templateSource && <p className="text-xs text-muted-foreground">{t('templateCopiesHelp')}</p>}
+                    {canCopyRoster && (
+                      <div className="flex items-center gap-3 pt-1">
+                        <input
+                          id="copyRoster"
+                          type="checkbox"
+                          checked={copyRoster}
+                          onChange={(e) => setCopyRoster(e.target.checked)}
+                          className="h-4 w-4 rounded border-gray-300"
+                        />
+                        <Label htmlFor="copyRoster" className="text-sm font-normal cursor-pointer">
+                          {t('copyRoster')}
+                        </Label>
+                      </div>
+                    )}
+                  </div>
                   <div className="space-y-2">
                     <Label htmlFor="name">{t('tournamentName')}</Label>
                     <Input
@@ -406,13 +549,14 @@ export default function TournamentsPage() {
                       onChange={(event) =>
                         setFormData({
                           ...formData,
-                          qualificationScheduleMethod: event.target.value as 'circle' | 'cdm',
+                          qualificationScheduleMethod: event.target.value as QualificationScheduleMethod,
                         })
                       }
                       className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
                     >
                       <option value="circle">{t('qualificationScheduleCircle')}</option>
                       <option value="cdm">{t('qualificationScheduleCdm')}</option>
+                      <option value="swiss">{t('qualificationScheduleSwiss')}</option>
                     </select>
                     <p className="text-xs text-muted-foreground">{t('qualificationScheduleMethodHelp')}</p>
                   </div>
@@ -535,6 +679,7 @@ export default function TournamentsPage() {
                         <Button variant="outline" size="sm" asChild>
                           <Link href={`/tournaments/${getTournamentUrlIdentifier(tournament)}`}>{tc('open')}</Link>
                         </Button>
+                        {isAdmin && <SaveTournamentTemplateDialog tournament={tournament} onSaved={fetchTemplates} />}
                         {isAdmin && (
                           <Button
                             variant="destructive"
@@ -16,7 +16,7 @@
 
 'use client';
 
-import type { OverlayEvent } from '@/lib/overlay/types';
+import type { OverlayEvent, OverlayTaRecordKind } from '@/lib/overlay/types';
 
 /** Inline relative-time formatter — same pattern as `update-indicator`. */
 function formatTimeAgo(now: number, iso: string): string {
@@ -167,6 +167,11 @@ function MatchScoreboardCard({ event, now }: { event: OverlayEvent; now: number
   );
 }
 
+const TA_RECORD_LABEL: Record<OverlayTaRecordKind, string> = {
+  event_record: 'Event Record',
+  personal_best: 'Personal Best',
+};
+
 /**
  * Rich card for a TA event. Two flavors:
  *
@@ -193,9 +198,15 @@ function TaTimeCard({ event, now }: { event: OverlayEvent; now: number }) {
   // formatted string can't accidentally route to the qualification branch.
   const isQualificationTotal =
     typeof t.totalTimeMs === 'number' && typeof t.totalTimeFormatted === 'string' && t.totalTimeFormatted.length > 0;
-  const heading = isQualificationTotal
-    ? `${t.phaseLabel ? `[${t.phaseLabel}] ` : ''}Time Attack Qualification Complete`
-    : `${t.phaseLabel ? `[${t.phaseLabel}] ` : ''}Time Attack Time Updated`;
+  // Course-record call-outs carry the beaten bests; the first is the most
+  // prominent (event record before personal best) and names the card.
+  const records = !isQualificationTotal && t.records && t.records.length > 0 ? t.records : null;
+  const headingLabel = isQualificationTotal
+    ? 'Time Attack Qualification Complete'
+    : records
+      ? `New ${TA_RECORD_LABEL[records[0].kind]}!`
+      : 'Time Attack Time Updated';
+  const heading = `${t.phaseLabel ? `[${t.phaseLabel}] ` : ''}${headingLabel}`;
 
   return (
     <div
@@ -251,6 +262,19 @@ function TaTimeCard({ event, now }: { event: OverlayEvent; now: number }) {
           <span className="text-3xl font-bold tabular-nums text-yellow-400">{t.time}</span>
         </div>
       )}
+      {records && (
+        <ul className="mt-2 space-y-0.5 text-sm text-white/70" data-testid="dashboard-timeline-ta-records">
+          {records.map((record) => (
+            <li key={record.kind} className="flex items-baseline justify-between gap-2">
+              <span className="truncate">
+                Previous {TA_RECORD_LABEL[record.kind]}
+                {record.kind === 'event_record' && ` (${record.previousHolder})`}
+              </span>
+              <span className="shrink-0 tabular-nums">{record.previousTimeFormatted}</span>
+            </li>
+          ))}
+        </ul>
+      )}
     </div>
   );
 }
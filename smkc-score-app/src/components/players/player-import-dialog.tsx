@@ -0,0 +1,281 @@
+'use client';
+
+/**
+ * Player Roster Import Dialog (admin only)
+ *
+ * Two-step bulk import from a CSV/XLSX export (e.g. Google Forms):
+ * 1. Preview: upload the file, show the per-row diff against registered
+ *    players (create / update / unchanged / conflict / invalid country).
+ * 2. Apply: re-upload the same file with the preview digest. Disabled while
+ *    any row blocks the import.
+ *
+ * Temporary passwords for created players are shown once after apply,
+ * the same way the single "Add Player" flow does.
+ */
+
+import { useState } from 'react';
+import { useTranslations } from 'next-intl';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { createLogger } from '@/lib/client-logger';
+import type { RosterImportPlanRow, RosterImportRowStatus } from '@/lib/player-roster-import';
+
+const logger = createLogger({ serviceName: 'player-import-dialog' });
+
+type PreviewRow = Omit<RosterImportPlanRow, 'playerVersion'>;
+
+type Preview = {
+  digest: string;
+  blocking: boolean;
+  summary: Record<RosterImportRowStatus, number>;
+  rows: PreviewRow[];
+};
+
+type ImportResult = {
+  created: Array<{ id: string; nickname: string; temporaryPassword: string }>;
+  updated: Array<{ id: string; nickname: string }>;
+};
+
+const STATUS_ORDER: RosterImportRowStatus[] = [
+  'create',
+  'update',
+  'unchanged',
+  'conflict',
+  'invalid_country',
+  'invalid',
+];
+
+const STATUS_VARIANT: Record<
+  RosterImportRowStatus,
+  'default' | 'secondary' | 'destructive' | 'outline' | 'flag-active'
+> = {
+  create: 'flag-active',
+  update: 'default',
+  unchanged: 'outline',
+  conflict: 'destructive',
+  invalid_country: 'destructive',
+  invalid: 'destructive',
+};
+
+function describeChanges(row: PreviewRow): string {
+  if (!row.changes) return '';
+  return Object.entries(row.changes)
+    .map(([field, change]) => `${field}: ${String(change?.from ?? '-')} → ${String(change?.to ?? '-')}`)
+    .join(', ');
+}
+
+export function PlayerImportDialog({ onImported }: { onImported: () => void }) {
+  const t = useTranslations('players');
+  const tc = useTranslations('common');
+  const [open, setOpen] = useState(false);
+  const [file, setFile] = useState<File | null>(null);
+  const [preview, setPreview] = useState<Preview | null>(null);
+  const [result, setResult] = useState<ImportResult | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const reset = () => {
+    setFile(null);
+    setPreview(null);
+    setResult(null);
+    setError(null);
+  };
+
+  const post = async (action: 'preview' | 'apply', digest?: string) => {
+    if (!file) return null;
+    const body = new FormData();
+    body.append('file', file);
+    body.append('action', action);
+    if (digest) body.append('digest', digest);
+    const response = await fetch('/api/players/import', { method: 'POST', body });
+    const json = await response.json().catch(() => ({}));
+    if (!response.ok || !json.success) {
+      throw new Error(typeof json.error === 'string' ? json.error : t('importFailed'));
+    }
+    return json.data;
+  };
+
+  const handlePreview = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      setPreview((await post('preview')) as Preview);
+    } catch (err) {
+      logger.error('Failed to preview roster import', { error: err });
+      setPreview(null);
+      setError(err instanceof Error ? err.message : t('importFailed'));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleApply = async () => {
+    if (!preview) return;
+    setBusy(true);
+    setError(null);
+    try {
+      setResult((await post('apply', preview.digest)) as ImportResult);
+      onImported();
+    } catch (err) {
+      logger.error('Failed to apply roster import', { error: err });
+      setError(err instanceof Error ? err.message : t('importFailed'));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        setOpen(next);
+        if (!next) reset();
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="outline">{t('importPlayers')}</Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>{t('importPlayers')}</DialogTitle>
+          <DialogDescription>{t('importDescription')}</DialogDescription>
+        </DialogHeader>
+
+        {result ? (
+          <div className="space-y-4 py-2">
+            <p className="text-sm">
+              {t('importResult', { created: result.created.length, updated: result.updated.length })}
+            </p>
+            {result.created.length > 0 && (
+              <>
+                <p className="text-sm text-muted-foreground">{t('savePasswordWarning')}</p>
+                <div className="max-h-80 overflow-y-auto border border-foreground/15">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>{t('nickname')}</TableHead>
+                        <TableHead>{t('temporaryPassword')}</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {result.created.map((player) => (
+                        <TableRow key={player.id}>
+                          <TableCell>{player.nickname}</TableCell>
+                          <TableCell className="font-mono">{player.temporaryPassword}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => {
+                    navigator.clipboard.writeText(
+                      result.created.map((player) => `${player.nickname}\t${player.temporaryPassword}`).join('\n'),
+                    );
+                  }}
+                >
+                  {t('copyPasswords')}
+                </Button>
+              </>
+            )}
+            <DialogFooter>
+              <Button
+                onClick={() => {
+                  setOpen(false);
+                  reset();
+                }}
+              >
+                {t('savedIt')}
+              </Button>
+            </DialogFooter>
+          </div>
+        ) : (
+          <div className="space-y-4 py-2">
+            {error && <div className="text-red-500 text-sm">{error}</div>}
+            <Input
+              type="file"
+              accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+              onChange={(e) => {
+                setFile(e.target.files?.[0] ?? null);
+                setPreview(null);
+                setError(null);
+              }}
+            />
+
+            {preview && (
+              <>
+                <div className="flex flex-wrap gap-2">
+                  {STATUS_ORDER.filter((status) => preview.summary[status] > 0).map((status) => (
+                    <Badge key={status} variant={STATUS_VARIANT[status]}>
+                      {t(`importStatus.${status}`)}: {preview.summary[status]}
+                    </Badge>
+                  ))}
+                </div>
+                {preview.blocking && <p className="text-sm text-destructive">{t('importBlocked')}</p>}
+                <div className="max-h-80 overflow-y-auto border border-foreground/15">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="w-12">{t('importRow')}</TableHead>
+                        <TableHead>{t('nickname')}</TableHead>
+                        <TableHead>{t('fullName')}</TableHead>
+                        <TableHead>{t('country')}</TableHead>
+                        <TableHead>{t('importStatusHeader')}</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {preview.rows.map((row) => (
+                        <TableRow key={row.rowNumber}>
+                          <TableCell className="font-mono text-xs">{row.rowNumber}</TableCell>
+                          <TableCell>{row.nickname || '-'}</TableCell>
+                          <TableCell>{row.name ?? '-'}</TableCell>
+                          <TableCell>{row.country ?? row.rawCountry ?? '-'}</TableCell>
+                          <TableCell>
+                            <Badge variant={STATUS_VARIANT[row.status]}>{t(`importStatus.${row.status}`)}</Badge>
+                            {row.reason && (
+                              <div className="text-xs text-muted-foreground mt-1">
+                                {t(`importReason.${row.reason}`)}
+                              </div>
+                            )}
+                            {row.status === 'update' && (
+                              <div className="text-xs text-muted-foreground mt-1">{describeChanges(row)}</div>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              </>
+            )}
+
+            <DialogFooter>
+              <Button variant="outline" disabled={!file || busy} onClick={() => void handlePreview()}>
+                {busy && !preview ? tc('loading') : t('importPreview')}
+              </Button>
+              <Button
+                disabled={!preview || preview.blocking || busy || preview.summary.create + preview.summary.update === 0}
+                onClick={() => void handleApply()}
+              >
+                {busy && preview ? tc('saving') : t('importApply')}
+              </Button>
+            </DialogFooter>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
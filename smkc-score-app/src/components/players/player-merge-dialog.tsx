@@ -0,0 +1,196 @@
+'use client';
+
+/**
+ * Player Merge Dialog (admin only)
+ *
+ * Merges a duplicate player (the row the dialog was opened from) into the
+ * player whose nickname the admin enters. The preview lists how many rows
+ * move and any collisions that block the merge; confirming sends the
+ * preview digest so a merge never applies to data the admin has not seen.
+ */
+
+import { useState } from 'react';
+import { useTranslations } from 'next-intl';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { createLogger } from '@/lib/client-logger';
+import type { PlayerMergeCollision, PlayerMergeCounts } from '@/lib/player-merge';
+
+const logger = createLogger({ serviceName: 'player-merge-dialog' });
+
+type Preview = {
+  digest: string;
+  source: { id: string; nickname: string };
+  target: { id: string; nickname: string };
+  counts: PlayerMergeCounts;
+  collisions: PlayerMergeCollision[];
+  transferUserLink: boolean;
+  tournamentCount: number;
+  blocking: boolean;
+};
+
+function describeCollision(collision: PlayerMergeCollision): string {
+  return [
+    collision.type,
+    collision.tournamentId,
+    collision.stage,
+    collision.role,
+    collision.matchType,
+    collision.matchId,
+  ]
+    .filter(Boolean)
+    .join(' · ');
+}
+
+export function PlayerMergeDialog({
+  player,
+  disabled,
+  onMerged,
+}: {
+  player: { id: string; nickname: string };
+  disabled?: boolean;
+  onMerged: () => void;
+}) {
+  const t = useTranslations('players');
+  const tc = useTranslations('common');
+  const [open, setOpen] = useState(false);
+  const [targetNickname, setTargetNickname] = useState('');
+  const [preview, setPreview] = useState<Preview | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const reset = () => {
+    setTargetNickname('');
+    setPreview(null);
+    setError(null);
+  };
+
+  const post = async (body: Record<string, unknown>) => {
+    const response = await fetch(`/api/players/${player.id}/merge`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ targetNickname, ...body }),
+    });
+    const json = await response.json().catch(() => ({}));
+    if (!response.ok || !json.success) {
+      throw new Error(typeof json.error === 'string' ? json.error : t('mergeFailed'));
+    }
+    return json.data;
+  };
+
+  const handlePreview = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      setPreview((await post({ action: 'preview' })) as Preview);
+    } catch (err) {
+      logger.error('Failed to preview player merge', { error: err, playerId: player.id });
+      setPreview(null);
+      setError(err instanceof Error ? err.message : t('mergeFailed'));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleApply = async () => {
+    if (!preview) return;
+    setBusy(true);
+    setError(null);
+    try {
+      await post({ action: 'apply', digest: preview.digest });
+      setOpen(false);
+      reset();
+      onMerged();
+    } catch (err) {
+      logger.error('Failed to merge players', { error: err, playerId: player.id });
+      setError(err instanceof Error ? err.message : t('mergeFailed'));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const movedRows = preview ? Object.values(preview.counts).reduce((sum, count) => sum + count, 0) : 0;
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        setOpen(next);
+        if (!next) reset();
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" disabled={disabled}>
+          {t('merge')}
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{t('mergePlayer', { nickname: player.nickname })}</DialogTitle>
+          <DialogDescription>{t('mergeDescription')}</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 py-2">
+          {error && <div className="text-red-500 text-sm">{error}</div>}
+          <div className="space-y-2">
+            <Label htmlFor={`merge-target-${player.id}`}>{t('mergeTarget')}</Label>
+            <Input
+              id={`merge-target-${player.id}`}
+              value={targetNickname}
+              onChange={(e) => {
+                setTargetNickname(e.target.value);
+                setPreview(null);
+              }}
+              placeholder={t('nicknamePlaceholder')}
+            />
+          </div>
+
+          {preview && (
+            <div className="space-y-2 text-sm">
+              <p>
+                {t('mergeSummary', {
+                  source: preview.source.nickname,
+                  target: preview.target.nickname,
+                  rows: movedRows,
+                  tournaments: preview.tournamentCount,
+                })}
+              </p>
+              {preview.transferUserLink && <p className="text-muted-foreground">{t('mergeTransfersUserLink')}</p>}
+              {preview.blocking && (
+                <div className="space-y-1">
+                  <p className="text-destructive">{t('mergeBlocked')}</p>
+                  <ul className="list-disc pl-5 font-mono text-xs">
+                    {preview.collisions.map((collision, index) => (
+                      <li key={index}>{describeCollision(collision)}</li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" disabled={!targetNickname.trim() || busy} onClick={() => void handlePreview()}>
+            {busy && !preview ? tc('loading') : t('mergePreview')}
+          </Button>
+          <Button
+            variant="destructive"
+            disabled={!preview || preview.blocking || busy}
+            onClick={() => void handleApply()}
+          >
+            {busy && preview ? tc('saving') : t('mergeApply')}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
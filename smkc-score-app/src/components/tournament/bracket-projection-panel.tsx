@@ -0,0 +1,124 @@
+'use client';
+
+/**
+ * Per-player path projection for a BM/MR/GP finals or playoff bracket.
+ *
+ * Pick a player to see where winning or losing their next match takes them,
+ * which matches have to finish before it can start, and the placement and
+ * finals points they are guaranteed (bracket-projection.ts). The bracket
+ * renders the same paths on its match cards with PROJECTION_HIGHLIGHT_CLASSES.
+ */
+
+import { useTranslations } from 'next-intl';
+import { cn } from '@/lib/utils';
+import { formatPositionRange } from '@/lib/points/finals-points';
+import type { BracketProjection, ProjectedPlacement, ProjectionHighlight } from '@/lib/bracket-projection';
+import type { SeededPlayer } from '@/types/bracket';
+
+/** Match card decoration for each projection role. */
+export const PROJECTION_HIGHLIGHT_CLASSES: Record<ProjectionHighlight, string> = {
+  current: 'ring-2 ring-primary ring-offset-1',
+  win: 'ring-2 ring-green-500/70',
+  loss: 'ring-2 ring-orange-500/70',
+  waiting: 'outline-dashed outline-2 outline-offset-2 outline-muted-foreground/60',
+  possible: 'ring-1 ring-primary/30',
+};
+
+const LEGEND_KEYS = {
+  current: 'legendCurrent',
+  win: 'legendWin',
+  loss: 'legendLoss',
+  waiting: 'legendWaiting',
+  possible: 'legendPossible',
+} as const satisfies Record<ProjectionHighlight, string>;
+
+interface BracketProjectionPanelProps {
+  mode: 'BM' | 'MR' | 'GP';
+  players: SeededPlayer[];
+  selectedPlayerId: string;
+  onSelectPlayer: (playerId: string) => void;
+  /** Projection for selectedPlayerId; null when they have no match here. */
+  projection: BracketProjection | null;
+  /** Label for a match in this bracket, e.g. "M12 Round Three". */
+  getMatchLabel: (matchNumber: number) => string;
+}
+
+export function BracketProjectionPanel({
+  mode,
+  players,
+  selectedPlayerId,
+  onSelectPlayer,
+  projection,
+  getMatchLabel,
+}: BracketProjectionPanelProps) {
+  const t = useTranslations('bracketProjection');
+  const sortedPlayers = [...players].sort((a, b) => a.seed - b.seed);
+
+  const formatPlacement = (placement: ProjectedPlacement) =>
+    t('placement', { placement: formatPositionRange(mode, placement.position), points: placement.points });
+  const formatPath = (matchNumbers: number[], emptyLabel: string) =>
+    matchNumbers.length > 0 ? matchNumbers.map(getMatchLabel).join(' → ') : emptyLabel;
+
+  return (
+    <div className="border rounded-lg p-3 space-y-3" data-testid="bracket-projection">
+      <div className="flex flex-col gap-2 sm:flex-row sm:items-center">
+        <h4 className="text-sm font-medium">{t('title')}</h4>
+        <select
+          className="border rounded px-2 py-1 text-sm bg-background sm:w-64"
+          value={selectedPlayerId}
+          onChange={(e) => onSelectPlayer(e.target.value)}
+          aria-label={t('player')}
+        >
+          <option value="">{t('selectPlayer')}</option>
+          {sortedPlayers.map((entry) => (
+            <option key={entry.playerId} value={entry.playerId}>
+              [{entry.originalSeed ?? entry.seed}] {entry.player.nickname || entry.player.name}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {selectedPlayerId && !projection && <p className="text-sm text-muted-foreground">{t('notInBracket')}</p>}
+
+      {projection?.status === 'advanced' && <p className="text-sm">{t('advanced')}</p>}
+
+      {projection?.status === 'finished' && projection.worst && (
+        <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-sm">
+          <dt className="text-muted-foreground">{t('finalPlacement')}</dt>
+          <dd className="font-medium">{formatPlacement(projection.worst)}</dd>
+        </dl>
+      )}
+
+      {projection?.status === 'active' && projection.currentMatch != null && (
+        <>
+          <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-sm">
+            <dt className="text-muted-foreground">{t('nextMatch')}</dt>
+            <dd className="font-medium">{getMatchLabel(projection.currentMatch)}</dd>
+            <dt className="text-muted-foreground">{t('waitingOn')}</dt>
+            <dd>
+              {projection.waitingOn.length > 0 ? projection.waitingOn.map(getMatchLabel).join(', ') : t('readyToPlay')}
+            </dd>
+            <dt className="text-muted-foreground">{t('ifWin')}</dt>
+            <dd>{formatPath(projection.winPath, t('noFurtherMatches'))}</dd>
+            <dt className="text-muted-foreground">{t('ifLose')}</dt>
+            <dd>{formatPath(projection.lossPath, t('eliminated'))}</dd>
+            <dt className="text-muted-foreground">{t('guaranteed')}</dt>
+            <dd className="font-medium">{projection.worst ? formatPlacement(projection.worst) : '-'}</dd>
+            <dt className="text-muted-foreground">{t('best')}</dt>
+            <dd>{projection.best ? formatPlacement(projection.best) : t('advancesToUpper')}</dd>
+          </dl>
+          <ul className="flex flex-wrap gap-3 text-xs text-muted-foreground">
+            {(Object.keys(LEGEND_KEYS) as ProjectionHighlight[]).map((highlight) => (
+              <li key={highlight} className="flex items-center gap-1">
+                <span
+                  className={cn('inline-block h-3 w-3 rounded-sm bg-card', PROJECTION_HIGHLIGHT_CLASSES[highlight])}
+                />
+                {t(LEGEND_KEYS[highlight])}
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,105 @@
+'use client';
+
+/**
+ * Check-In Card (players)
+ *
+ * Shown on the participant hub while the tournament runs day-of check-in.
+ * A player with an approved entry confirms they are at the venue here;
+ * until they do, BM/MR/GP group setup will not draw them. Renders nothing
+ * for players without an approved entry or when check-in is off.
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { useTranslations } from 'next-intl';
+import { CheckCircle, UserCheck } from 'lucide-react';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { createLogger } from '@/lib/client-logger';
+import { fetchWithRetry } from '@/lib/fetch-with-retry';
+import type { RegistrationSettings, RegistrationStatus } from '@/lib/tournament-registration';
+
+const logger = createLogger({ serviceName: 'check-in-card' });
+
+interface OwnCheckIn {
+  settings: RegistrationSettings | null;
+  registration: {
+    id: string;
+    status: RegistrationStatus;
+    checkedInAt: string | null;
+    noShowAt: string | null;
+  } | null;
+}
+
+export function CheckInCard({ tournamentId }: { tournamentId: string }) {
+  const t = useTranslations('registration');
+  const [data, setData] = useState<OwnCheckIn | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      const response = await fetchWithRetry(`/api/tournaments/${tournamentId}/registrations/me`, {
+        cache: 'no-store',
+      });
+      const json = await response.json();
+      if (!json.success) throw new Error(json.error);
+      setData(json.data as OwnCheckIn);
+    } catch (err) {
+      logger.error('Failed to load check-in state', { error: err, tournamentId });
+    }
+  }, [tournamentId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const handleCheckIn = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/tournaments/${tournamentId}/registrations/check-in`, { method: 'POST' });
+      if (!response.ok) throw new Error(t('failedToCheckIn'));
+      await load();
+    } catch (err) {
+      logger.error('Failed to check in', { error: err, tournamentId });
+      setError(t('failedToCheckIn'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const registration = data?.registration;
+  if (!data?.settings?.checkIn || registration?.status !== 'approved') return null;
+
+  return (
+    <Card className="max-w-2xl mx-auto mb-8">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <UserCheck className="h-5 w-5" />
+          {t('checkInTitle')}
+        </CardTitle>
+        <CardDescription>{t('checkInDescription')}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+        {registration.noShowAt ? (
+          <p className="text-sm text-muted-foreground">{t('noShowHelp')}</p>
+        ) : registration.checkedInAt ? (
+          <p className="flex items-center gap-2 text-sm">
+            <CheckCircle className="h-4 w-4 text-green-600" />
+            {t('checkedInAt', { time: new Date(registration.checkedInAt).toLocaleTimeString() })}
+          </p>
+        ) : (
+          <Button onClick={handleCheckIn} disabled={saving}>
+            {saving ? t('checkingIn') : t('checkIn')}
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,4 +1,5 @@
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { PlayerName } from '@/components/ui/player-name';
 import { RankCell } from '@/components/tournament/rank-cell';
@@ -18,6 +19,8 @@ export interface CombinedStandingsEntry {
   losses: number;
   points: number;
   score: number;
+  /** Set when the player withdrew mid-qualification; they are listed last. */
+  withdrawnAt?: string | null;
   player: {
     nickname: string;
     /** Stored country value (ISO code or legacy name); optional. */
@@ -39,6 +42,7 @@ export interface CombinedStandingsTableLabels {
   points: string;
   qualificationPoints: string;
   qualificationPointsTooltip: string;
+  withdrawn: string;
 }
 
 interface CombinedStandingsTableProps<T extends CombinedStandingsEntry> {
@@ -129,7 +133,10 @@ export function CombinedStandingsTable<T extends CombinedStandingsEntry>({
                 </TableCell>
                 <TableCell>{getGroupLabel(entry.group)}</TableCell>
                 <TableCell className="font-medium">
-                  <PlayerName player={entry.player} locale={locale} />
+                  <span className="inline-flex items-center gap-2">
+                    <PlayerName player={entry.player} locale={locale} />
+                    {entry.withdrawnAt && <Badge variant="secondary">{labels.withdrawn}</Badge>}
+                  </span>
                 </TableCell>
                 <TableCell className="text-center">{entry.mp}</TableCell>
                 <TableCell className="text-center">{entry.wins}</TableCell>
@@ -2,12 +2,17 @@
  * Double Elimination Bracket Component
  *
  * Renders a complete double-elimination tournament bracket for BM/MR/GP finals.
- * Supports both 8-player (17 matches) and 16-player (31 matches) brackets.
- * The bracket displays three sections:
- * 1. Winners Bracket (R1* -> QF -> SF -> Final) *R1 only in 16-player
- * 2. Losers Bracket (R1 -> R2 -> R3 -> R4* -> SF -> Final) *R4 only in 16-player
+ * Supports every size from generateBracketStructure (4, 8, 12, 16, 24, 32).
+ * The bracket displays three sections, with round columns taken from the
+ * structure in order:
+ * 1. Winners Bracket (R1.. -> QF -> SF -> Final; early rounds only in 16+)
+ * 2. Losers Bracket (R1.. -> SF -> Final; 12/24-player brackets start at R2)
  * 3. Grand Final (Grand Final + optional Reset match)
  *
+ * The other finals formats (finals-format.ts) reuse the same match cards:
+ * single elimination shows one bracket plus the optional Third Place Match,
+ * and a round-robin pool shows its rounds next to the pool standings.
+ *
  * Each match is displayed as a clickable card showing:
  * - Match number and seed numbers
  * - Player nicknames with "TBD" for undetermined matchups
@@ -23,13 +28,27 @@
 
 'use client';
 
+import { useState } from 'react';
 import { useLocale, useTranslations } from 'next-intl';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { PlayerName } from '@/components/ui/player-name';
 import { cn } from '@/lib/utils';
 import { TV_NUMBER_OPTIONS } from '@/lib/constants';
 import { resolveBracketWinnerFlags, type BracketWinnerResolver } from '@/lib/bracket-winner-flags';
+import {
+  getFinalsFormatFromRound,
+  getRoundRobinFinalsStandings,
+  type RoundRobinFinalsResult,
+} from '@/lib/finals-format';
+import {
+  getProjectionHighlight,
+  projectBracketPath,
+  toProjectionMatches,
+  type ProjectionHighlight,
+} from '@/lib/bracket-projection';
+import { BracketProjectionPanel, PROJECTION_HIGHLIGHT_CLASSES } from '@/components/tournament/bracket-projection-panel';
 
 import type { Player } from '@/lib/types';
 import type { BracketMatch, SeededPlayer } from '@/types/bracket';
@@ -85,6 +104,12 @@ interface DoubleEliminationBracketProps<TMatch extends BMMatch = BMMatch> {
   slotEditMode?: boolean;
   /** Fired when a slot is clicked in `slotEditMode`. `slot` is 1 or 2. */
   onSlotClick?: (match: TMatch, slot: 1 | 2) => void;
+  /**
+   * Finals points table for the per-player path projection. When set, a
+   * player picker above the bracket highlights the chosen player's possible
+   * paths on the match cards.
+   */
+  projectionMode?: 'BM' | 'MR' | 'GP';
 }
 
 /**
@@ -97,6 +122,7 @@ interface DoubleEliminationBracketProps<TMatch extends BMMatch = BMMatch> {
  * @param seededPlayers - Seeded player data for name and qualification-label display
  * @param onClick - Click handler for score entry
  * @param isTBD - Per-slot TBD flags: whether player1/player2 slots are undetermined
+ * @param highlight - Role of this match in the selected player's projection
  */
 function MatchCard<TMatch extends BMMatch>({
   match,
@@ -109,6 +135,7 @@ function MatchCard<TMatch extends BMMatch>({
   onTvNumberChange,
   slotEditMode,
   onSlotClick,
+  highlight,
 }: {
   match?: TMatch;
   bracketMatch: BracketMatch;
@@ -120,6 +147,7 @@ function MatchCard<TMatch extends BMMatch>({
   onTvNumberChange?: (match: TMatch, tvNumber: number | null) => void;
   slotEditMode?: boolean;
   onSlotClick?: (match: TMatch, slot: 1 | 2) => void;
+  highlight?: ProjectionHighlight | null;
 }) {
   const tc = useTranslations('common');
   const tf = useTranslations('finals');
@@ -172,11 +200,13 @@ function MatchCard<TMatch extends BMMatch>({
         !canOpenScore && 'cursor-not-allowed opacity-80',
         match?.completed && 'border-green-500/50',
         isTV1 && 'bg-amber-50 border-amber-300 dark:bg-amber-950/30 dark:border-amber-700',
+        highlight && PROJECTION_HIGHLIGHT_CLASSES[highlight],
       )}
       onClick={canOpenScore ? onClick : undefined}
       role="button"
       tabIndex={canOpenScore ? 0 : -1}
       data-testid="bracket-match-card"
+      data-projection={highlight ?? undefined}
       aria-label={`Match ${bracketMatch.matchNumber}: ${showTBD1 ? tc('tbd') : player1?.nickname || tc('tbd')} vs ${showTBD2 ? tc('tbd') : player2?.nickname || tc('tbd')}${showTBD1 || showTBD2 ? ' (Pending)' : ''}`}
       onKeyDown={(e) => {
         /* Support keyboard activation for accessibility */
@@ -356,6 +386,66 @@ function BracketSection({
   );
 }
 
+/** `finals` i18n keys for numbered rounds, indexed by round number - 1. */
+const ROUND_NUMBER_KEYS = ['roundOne', 'roundTwo', 'roundThree', 'roundFour', 'roundFive', 'roundSix'] as const;
+
+/**
+ * Round-robin pool standings, ordered as getRoundRobinFinalsStandings ranks
+ * them for finals points (wins, then score difference, then seed).
+ */
+function RoundRobinStandingsTable({
+  results,
+  seededPlayers,
+  players,
+}: {
+  results: RoundRobinFinalsResult[];
+  seededPlayers?: SeededPlayer[];
+  players: Map<string, Player>;
+}) {
+  const tf = useTranslations('finals');
+  const locale = useLocale();
+  const seeded = [...(seededPlayers ?? [])].sort((a, b) => a.seed - b.seed);
+  const standings = getRoundRobinFinalsStandings(
+    results,
+    seeded.map((entry) => entry.playerId),
+  );
+
+  return (
+    <div className="space-y-2">
+      <h4 className="text-sm font-medium text-muted-foreground">{tf('roundRobinStandings')}</h4>
+      <Table data-testid="round-robin-standings">
+        <TableHeader>
+          <TableRow>
+            <TableHead className="w-12">{tf('standingsRank')}</TableHead>
+            <TableHead>{tf('standingsPlayer')}</TableHead>
+            <TableHead className="text-right">{tf('standingsWins')}</TableHead>
+            <TableHead className="text-right">{tf('standingsLosses')}</TableHead>
+            <TableHead className="text-right">{tf('standingsDiff')}</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {standings.map((row) => {
+            const player = players.get(row.playerId) ?? seeded.find((entry) => entry.playerId === row.playerId)?.player;
+            return (
+              <TableRow key={row.playerId}>
+                <TableCell className="font-medium">{row.position}</TableCell>
+                <TableCell>
+                  <PlayerName player={player} locale={locale} fallback={row.playerId} />
+                </TableCell>
+                <TableCell className="text-right">{row.wins}</TableCell>
+                <TableCell className="text-right">{row.losses}</TableCell>
+                <TableCell className="text-right">
+                  {row.scoreDifference > 0 ? `+${row.scoreDifference}` : row.scoreDifference}
+                </TableCell>
+              </TableRow>
+            );
+          })}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
+
 /** Displays a round name with its assigned Battle course or MR track list. */
 function RoundHeader({ label, course }: { label: string; course: number | string[] | null }) {
   const tf = useTranslations('finals');
@@ -393,8 +483,10 @@ export function DoubleEliminationBracket<TMatch extends BMMatch = BMMatch>({
   onTvNumberChange,
   slotEditMode,
   onSlotClick,
+  projectionMode,
 }: DoubleEliminationBracketProps<TMatch>) {
   const tf = useTranslations('finals');
+  const [projectedPlayerId, setProjectedPlayerId] = useState('');
   /** Look up a match by its bracket match number */
   const getMatch = (matchNumber: number) => matches.find((m) => m.matchNumber === matchNumber);
 
@@ -473,40 +565,189 @@ export function DoubleEliminationBracket<TMatch extends BMMatch = BMMatch>({
       : null;
   };
 
-  /* Group bracket positions by round for organized display */
-  const winnersR1 = bracketStructure.filter((b) => b.round === 'winners_r1');
-  const winnersQF = bracketStructure.filter((b) => b.round === 'winners_qf');
-  const winnersSF = bracketStructure.filter((b) => b.round === 'winners_sf');
-  const winnersFinal = bracketStructure.filter((b) => b.round === 'winners_final');
-
-  const losersR1 = bracketStructure.filter((b) => b.round === 'losers_r1');
-  const losersR2 = bracketStructure.filter((b) => b.round === 'losers_r2');
-  const losersR3 = bracketStructure.filter((b) => b.round === 'losers_r3');
-  const losersR4 = bracketStructure.filter((b) => b.round === 'losers_r4');
-  const losersSF = bracketStructure.filter((b) => b.round === 'losers_sf');
-  const losersFinal = bracketStructure.filter((b) => b.round === 'losers_final');
+  /* Group bracket positions by round in structure order. Columns are
+   * derived from the structure so every supported bracket size (4-32)
+   * renders without per-size branches; 12/24-player brackets simply have
+   * fewer opening matches. */
+  const groupRounds = (bracket: BracketMatch['bracket']): [string, BracketMatch[]][] => {
+    const rounds = new Map<string, BracketMatch[]>();
+    for (const b of bracketStructure) {
+      if (b.bracket !== bracket) continue;
+      rounds.set(b.round, [...(rounds.get(b.round) ?? []), b]);
+    }
+    return [...rounds];
+  };
+  const finalsFormat = getFinalsFormatFromRound(bracketStructure[0]?.round);
+  const winnersRounds = groupRounds('winners');
+  const losersRounds = groupRounds('losers');
+  const thirdPlaceRounds = groupRounds('third_place');
+  const roundRobinRounds = groupRounds('round_robin');
+
+  /* Round-robin pools have no routing, so projection stays null for them. */
+  const projection =
+    projectionMode && projectedPlayerId
+      ? projectBracketPath(
+          bracketStructure,
+          toProjectionMatches(matches, bracketStructure, getTargetWins, getWinnerId),
+          projectedPlayerId,
+          projectionMode,
+        )
+      : null;
 
   const grandFinal = bracketStructure.filter((b) => b.round === 'grand_final');
   const grandFinalReset = bracketStructure.filter((b) => b.round === 'grand_final_reset');
 
-  /* Detect bracket size: 16-player has winners_r1, 8-player doesn't */
-  const is16Player = winnersR1.length > 0;
+  /* Column heading for a round key such as "losers_r3" or "round_robin_r2". */
+  const getRoundLabel = (round: string): string => {
+    const roundRobinRound = round.match(/^round_robin_r(\d+)$/)?.[1];
+    if (roundRobinRound) return tf('roundRobinRound', { number: Number(roundRobinRound) });
+    if (round === 'single_third_place') return tf('thirdPlaceMatch');
+    if (round.endsWith('_qf')) return tf('quarterFinals');
+    if (round.endsWith('_sf')) return tf('semiFinals');
+    if (round.endsWith('_final')) return tf('bracketFinalRound');
+    const roundNumber = Number(round.match(/_r(\d+)$/)?.[1]);
+    return ROUND_NUMBER_KEYS[roundNumber - 1] ? tf(ROUND_NUMBER_KEYS[roundNumber - 1]) : round;
+  };
+
+  /* Projection panel label: match number plus the localized round. */
+  const getMatchLabel = (matchNumber: number): string => {
+    const bracketMatch = getBracketMatch(matchNumber);
+    if (!bracketMatch) return `M${matchNumber}`;
+    if (bracketMatch.round === 'grand_final') return `M${matchNumber} ${tf('grandFinalMatch')}`;
+    if (bracketMatch.round === 'grand_final_reset') return `M${matchNumber} ${tf('resetMatchLabel')}`;
+    const roundLabel = getRoundLabel(bracketMatch.round);
+    return bracketMatch.bracket === 'losers'
+      ? `M${matchNumber} ${tf('losersSection')} ${roundLabel}`
+      : `M${matchNumber} ${roundLabel}`;
+  };
+
+  /* One round column. Winners SF/Final stay vertically centred against the
+   * taller earlier rounds, matching the original fixed layout. */
+  const renderRoundColumn = ([round, roundMatches]: [string, BracketMatch[]], centered: boolean) => (
+    <div key={round} className="space-y-2">
+      <RoundHeader label={getRoundLabel(round)} course={getCourseForRound(round)} />
+      <div className={cn('flex flex-col gap-2', centered && 'justify-center h-full')}>
+        {roundMatches.map((b) => (
+          <MatchCard
+            key={b.matchNumber}
+            match={getMatch(b.matchNumber)}
+            bracketMatch={b}
+            seededPlayers={seededPlayers}
+            onClick={() => {
+              const match = getMatch(b.matchNumber);
+              if (match && onMatchClick) onMatchClick(match);
+            }}
+            isTBD={isTBD(b.matchNumber)}
+            getTargetWins={getTargetWins}
+            getWinnerId={getWinnerId}
+            onTvNumberChange={onTvNumberChange}
+            slotEditMode={slotEditMode}
+            onSlotClick={onSlotClick}
+            highlight={getProjectionHighlight(projection, b.matchNumber)}
+          />
+        ))}
+      </div>
+    </div>
+  );
+
+  /* Completed pool matches with a resolved winner feed the standings table. */
+  const roundRobinResults = (): RoundRobinFinalsResult[] =>
+    bracketStructure.flatMap((b) => {
+      if (b.bracket !== 'round_robin') return [];
+      const match = getMatch(b.matchNumber);
+      if (!match?.completed || !match.player1Id || !match.player2Id) return [];
+      const targetWins = getTargetWins?.(match, b) ?? 3;
+      const { isWinner1, isWinner2 } = resolveBracketWinnerFlags(match, b, targetWins, getWinnerId);
+      if (!isWinner1 && !isWinner2) return [];
+      return [
+        {
+          player1Id: match.player1Id,
+          player2Id: match.player2Id,
+          winnerId: isWinner1 ? match.player1Id : match.player2Id,
+          score1: match.score1,
+          score2: match.score2,
+        },
+      ];
+    });
+
+  if (finalsFormat === 'round_robin') {
+    const players = new Map<string, Player>();
+    for (const match of matches) {
+      if (match.player1) players.set(match.player1.id, match.player1);
+      if (match.player2) players.set(match.player2.id, match.player2);
+    }
+    return (
+      <div className="space-y-6" role="region" aria-live="polite" aria-atomic="false">
+        <BracketSection title={tf('roundRobinSection')}>
+          <div className="space-y-6">
+            <RoundRobinStandingsTable results={roundRobinResults()} seededPlayers={seededPlayers} players={players} />
+            {/* Same horizontal scrolling as the bracket sections: an 8-player
+             * pool has seven round columns. */}
+            <div className="flex flex-col gap-6 md:flex-row md:items-start md:gap-8 overflow-x-auto pb-4">
+              {roundRobinRounds.map((entry) => renderRoundColumn(entry, false))}
+            </div>
+          </div>
+        </BracketSection>
+      </div>
+    );
+  }
+
+  const isSingleElimination = finalsFormat === 'single_elimination';
 
   return (
     <div className="space-y-6" role="region" aria-live="polite" aria-atomic="false">
+      {projectionMode && seededPlayers && seededPlayers.length > 0 && (
+        <BracketProjectionPanel
+          mode={projectionMode}
+          players={seededPlayers}
+          selectedPlayerId={projectedPlayerId}
+          onSelectPlayer={setProjectedPlayerId}
+          projection={projection}
+          getMatchLabel={getMatchLabel}
+        />
+      )}
+
       {/* Winners Bracket - Players with no losses */}
-      <BracketSection title={tf('winnersSection')}>
-        {/* overflow-x-auto stays on at every breakpoint: 16-player brackets have
-         * five round columns (R1 → QF → SF → Final + gaps) that routinely exceed
-         * the container width on desktop. Without horizontal scrolling here the
+      <BracketSection title={isSingleElimination ? tf('singleEliminationSection') : tf('winnersSection')}>
+        {/* overflow-x-auto stays on at every breakpoint: 16-player and larger
+         * brackets have five or more round columns that routinely exceed the
+         * container width on desktop. Without horizontal scrolling here the
          * rightmost matches were breaking out of the page pane (issue #424). */}
         <div className="flex flex-col gap-6 md:flex-row md:items-start md:gap-8 overflow-x-auto pb-4">
-          {/* Round 1 - Only in 16-player brackets */}
-          {is16Player && (
-            <div className="space-y-2">
-              <RoundHeader label={tf('roundOne')} course={getCourseForRound('winners_r1')} />
-              <div className="flex flex-col gap-2">
-                {winnersR1.map((b) => (
+          {winnersRounds.map((entry) => renderRoundColumn(entry, /_(sf|final)$/.test(entry[0])))}
+        </div>
+      </BracketSection>
+
+      {/* Third Place Match - optional single-elimination bronze match */}
+      {thirdPlaceRounds.length > 0 && (
+        <BracketSection title={tf('thirdPlaceMatch')}>
+          <div className="flex flex-col gap-6 md:flex-row md:items-start md:gap-8 overflow-x-auto pb-4">
+            {thirdPlaceRounds.map((entry) => renderRoundColumn(entry, false))}
+          </div>
+        </BracketSection>
+      )}
+
+      {isSingleElimination ? null : (
+        <>
+          {/* Losers Bracket - Players with one loss get a second chance */}
+          <BracketSection title={tf('losersSection')} variant="losers">
+            {/* See Winners Bracket above: horizontal scrolling must stay enabled on
+             * desktop so wide losers brackets (up to 8 round columns at 32 players)
+             * can scroll instead of overflowing the containing pane (issue #424). */}
+            <div className="flex flex-col gap-6 md:flex-row md:items-start md:gap-8 overflow-x-auto pb-4">
+              {losersRounds.map((entry) => renderRoundColumn(entry, false))}
+            </div>
+          </BracketSection>
+
+          {/* Grand Final - Winners champion vs Losers champion */}
+          <BracketSection title={tf('grandFinalSection')} variant="final">
+            {/* Kept consistent with Winners/Losers sections for predictable layout
+             * behaviour across all bracket sections (issue #424). */}
+            <div className="flex flex-col gap-4 md:flex-row md:items-start md:gap-8 overflow-x-auto pb-4">
+              {/* Grand Final match */}
+              <div className="space-y-2">
+                <RoundHeader label={tf('grandFinalMatch')} course={getCourseForRound('grand_final')} />
+                {grandFinal.map((b) => (
                   <MatchCard
                     key={b.matchNumber}
                     match={getMatch(b.matchNumber)}
@@ -522,176 +763,19 @@ export function DoubleEliminationBracket<TMatch extends BMMatch = BMMatch>({
                     onTvNumberChange={onTvNumberChange}
                     slotEditMode={slotEditMode}
                     onSlotClick={onSlotClick}
+                    highlight={getProjectionHighlight(projection, b.matchNumber)}
                   />
                 ))}
               </div>
-            </div>
-          )}
-
-          {/* Quarter Finals */}
-          <div className="space-y-2">
-            <RoundHeader label={tf('quarterFinals')} course={getCourseForRound('winners_qf')} />
-            <div className="flex flex-col gap-2">
-              {winnersQF.map((b) => (
-                <MatchCard
-                  key={b.matchNumber}
-                  match={getMatch(b.matchNumber)}
-                  bracketMatch={b}
-                  seededPlayers={seededPlayers}
-                  onClick={() => {
-                    const match = getMatch(b.matchNumber);
-                    if (match && onMatchClick) onMatchClick(match);
-                  }}
-                  isTBD={isTBD(b.matchNumber)}
-                  getTargetWins={getTargetWins}
-                  getWinnerId={getWinnerId}
-                  onTvNumberChange={onTvNumberChange}
-                  slotEditMode={slotEditMode}
-                  onSlotClick={onSlotClick}
-                />
-              ))}
-            </div>
-          </div>
-
-          {/* Semi Finals - Winners of QF matches */}
-          <div className="space-y-2">
-            <RoundHeader label={tf('semiFinals')} course={getCourseForRound('winners_sf')} />
-            <div className="flex flex-col gap-2 justify-center h-full">
-              {winnersSF.map((b) => (
-                <MatchCard
-                  key={b.matchNumber}
-                  match={getMatch(b.matchNumber)}
-                  bracketMatch={b}
-                  seededPlayers={seededPlayers}
-                  onClick={() => {
-                    const match = getMatch(b.matchNumber);
-                    if (match && onMatchClick) onMatchClick(match);
-                  }}
-                  isTBD={isTBD(b.matchNumber)}
-                  getTargetWins={getTargetWins}
-                  getWinnerId={getWinnerId}
-                  onTvNumberChange={onTvNumberChange}
-                  slotEditMode={slotEditMode}
-                  onSlotClick={onSlotClick}
-                />
-              ))}
-            </div>
-          </div>
-
-          {/* Winners Final - Winner proceeds to Grand Final undefeated */}
-          <div className="space-y-2">
-            <RoundHeader label={tf('bracketFinalRound')} course={getCourseForRound('winners_final')} />
-            <div className="flex flex-col gap-2 justify-center h-full">
-              {winnersFinal.map((b) => (
-                <MatchCard
-                  key={b.matchNumber}
-                  match={getMatch(b.matchNumber)}
-                  bracketMatch={b}
-                  seededPlayers={seededPlayers}
-                  onClick={() => {
-                    const match = getMatch(b.matchNumber);
-                    if (match && onMatchClick) onMatchClick(match);
-                  }}
-                  isTBD={isTBD(b.matchNumber)}
-                  getTargetWins={getTargetWins}
-                  getWinnerId={getWinnerId}
-                  onTvNumberChange={onTvNumberChange}
-                  slotEditMode={slotEditMode}
-                  onSlotClick={onSlotClick}
-                />
-              ))}
-            </div>
-          </div>
-        </div>
-      </BracketSection>
-
-      {/* Losers Bracket - Players with one loss get a second chance */}
-      <BracketSection title={tf('losersSection')} variant="losers">
-        {/* See Winners Bracket above: horizontal scrolling must stay enabled on
-         * desktop so wide 16-player losers brackets (up to 6 round columns) can
-         * scroll instead of overflowing the containing pane (issue #424). */}
-        <div className="flex flex-col gap-6 md:flex-row md:items-start md:gap-8 overflow-x-auto pb-4">
-          {/* Losers Round 1 - First matchups of eliminated players */}
-          <div className="space-y-2">
-            <RoundHeader label={tf('roundOne')} course={getCourseForRound('losers_r1')} />
-            <div className="flex flex-col gap-2">
-              {losersR1.map((b) => (
-                <MatchCard
-                  key={b.matchNumber}
-                  match={getMatch(b.matchNumber)}
-                  bracketMatch={b}
-                  seededPlayers={seededPlayers}
-                  onClick={() => {
-                    const match = getMatch(b.matchNumber);
-                    if (match && onMatchClick) onMatchClick(match);
-                  }}
-                  isTBD={isTBD(b.matchNumber)}
-                  getTargetWins={getTargetWins}
-                  getWinnerId={getWinnerId}
-                  onTvNumberChange={onTvNumberChange}
-                  slotEditMode={slotEditMode}
-                  onSlotClick={onSlotClick}
-                />
-              ))}
-            </div>
-          </div>
-
-          {/* Losers Round 2 */}
-          <div className="space-y-2">
-            <RoundHeader label={tf('roundTwo')} course={getCourseForRound('losers_r2')} />
-            <div className="flex flex-col gap-2">
-              {losersR2.map((b) => (
-                <MatchCard
-                  key={b.matchNumber}
-                  match={getMatch(b.matchNumber)}
-                  bracketMatch={b}
-                  seededPlayers={seededPlayers}
-                  onClick={() => {
-                    const match = getMatch(b.matchNumber);
-                    if (match && onMatchClick) onMatchClick(match);
-                  }}
-                  isTBD={isTBD(b.matchNumber)}
-                  getTargetWins={getTargetWins}
-                  getWinnerId={getWinnerId}
-                  onTvNumberChange={onTvNumberChange}
-                  slotEditMode={slotEditMode}
-                  onSlotClick={onSlotClick}
-                />
-              ))}
-            </div>
-          </div>
-
-          {/* Losers Round 3 */}
-          <div className="space-y-2">
-            <RoundHeader label={tf('roundThree')} course={getCourseForRound('losers_r3')} />
-            <div className="flex flex-col gap-2">
-              {losersR3.map((b) => (
-                <MatchCard
-                  key={b.matchNumber}
-                  match={getMatch(b.matchNumber)}
-                  bracketMatch={b}
-                  seededPlayers={seededPlayers}
-                  onClick={() => {
-                    const match = getMatch(b.matchNumber);
-                    if (match && onMatchClick) onMatchClick(match);
-                  }}
-                  isTBD={isTBD(b.matchNumber)}
-                  getTargetWins={getTargetWins}
-                  getWinnerId={getWinnerId}
-                  onTvNumberChange={onTvNumberChange}
-                  slotEditMode={slotEditMode}
-                  onSlotClick={onSlotClick}
-                />
-              ))}
-            </div>
-          </div>
 
-          {/* Losers Round 4 - Only in 16-player brackets */}
-          {losersR4.length > 0 && (
-            <div className="space-y-2">
-              <RoundHeader label={tf('roundFour')} course={getCourseForRound('losers_r4')} />
-              <div className="flex flex-col gap-2">
-                {losersR4.map((b) => (
+              {/*
+               * Reset match - only played if the losers bracket champion wins
+               * the Grand Final, since the winners bracket champion hasn't lost yet.
+               * In true double elimination, both players must lose to be eliminated.
+               */}
+              <div className="space-y-2">
+                <RoundHeader label={tf('resetMatchLabel')} course={getCourseForRound('grand_final_reset')} />
+                {grandFinalReset.map((b) => (
                   <MatchCard
                     key={b.matchNumber}
                     match={getMatch(b.matchNumber)}
@@ -707,120 +791,14 @@ export function DoubleEliminationBracket<TMatch extends BMMatch = BMMatch>({
                     onTvNumberChange={onTvNumberChange}
                     slotEditMode={slotEditMode}
                     onSlotClick={onSlotClick}
+                    highlight={getProjectionHighlight(projection, b.matchNumber)}
                   />
                 ))}
               </div>
             </div>
-          )}
-
-          {/* Losers Semi Final */}
-          <div className="space-y-2">
-            <RoundHeader label={tf('semiFinals')} course={getCourseForRound('losers_sf')} />
-            <div className="flex flex-col gap-2">
-              {losersSF.map((b) => (
-                <MatchCard
-                  key={b.matchNumber}
-                  match={getMatch(b.matchNumber)}
-                  bracketMatch={b}
-                  seededPlayers={seededPlayers}
-                  onClick={() => {
-                    const match = getMatch(b.matchNumber);
-                    if (match && onMatchClick) onMatchClick(match);
-                  }}
-                  isTBD={isTBD(b.matchNumber)}
-                  getTargetWins={getTargetWins}
-                  getWinnerId={getWinnerId}
-                  onTvNumberChange={onTvNumberChange}
-                  slotEditMode={slotEditMode}
-                  onSlotClick={onSlotClick}
-                />
-              ))}
-            </div>
-          </div>
-
-          {/* Losers Final - Winner advances to Grand Final */}
-          <div className="space-y-2">
-            <RoundHeader label={tf('bracketFinalRound')} course={getCourseForRound('losers_final')} />
-            <div className="flex flex-col gap-2">
-              {losersFinal.map((b) => (
-                <MatchCard
-                  key={b.matchNumber}
-                  match={getMatch(b.matchNumber)}
-                  bracketMatch={b}
-                  seededPlayers={seededPlayers}
-                  onClick={() => {
-                    const match = getMatch(b.matchNumber);
-                    if (match && onMatchClick) onMatchClick(match);
-                  }}
-                  isTBD={isTBD(b.matchNumber)}
-                  getTargetWins={getTargetWins}
-                  getWinnerId={getWinnerId}
-                  onTvNumberChange={onTvNumberChange}
-                  slotEditMode={slotEditMode}
-                  onSlotClick={onSlotClick}
-                />
-              ))}
-            </div>
-          </div>
-        </div>
-      </BracketSection>
-
-      {/* Grand Final - Winners champion vs Losers champion */}
-      <BracketSection title={tf('grandFinalSection')} variant="final">
-        {/* Kept consistent with Winners/Losers sections for predictable layout
-         * behaviour across all bracket sections (issue #424). */}
-        <div className="flex flex-col gap-4 md:flex-row md:items-start md:gap-8 overflow-x-auto pb-4">
-          {/* Grand Final match */}
-          <div className="space-y-2">
-            <RoundHeader label={tf('grandFinalMatch')} course={getCourseForRound('grand_final')} />
-            {grandFinal.map((b) => (
-              <MatchCard
-                key={b.matchNumber}
-                match={getMatch(b.matchNumber)}
-                bracketMatch={b}
-                seededPlayers={seededPlayers}
-                onClick={() => {
-                  const match = getMatch(b.matchNumber);
-                  if (match && onMatchClick) onMatchClick(match);
-                }}
-                isTBD={isTBD(b.matchNumber)}
-                getTargetWins={getTargetWins}
-                getWinnerId={getWinnerId}
-                onTvNumberChange={onTvNumberChange}
-                slotEditMode={slotEditMode}
-                onSlotClick={onSlotClick}
-              />
-            ))}
-          </div>
-
-          {/*
-           * Reset match - only played if the losers bracket champion wins
-           * the Grand Final, since the winners bracket champion hasn't lost yet.
-           * In true double elimination, both players must lose to be eliminated.
-           */}
-          <div className="space-y-2">
-            <RoundHeader label={tf('resetMatchLabel')} course={getCourseForRound('grand_final_reset')} />
-            {grandFinalReset.map((b) => (
-              <MatchCard
-                key={b.matchNumber}
-                match={getMatch(b.matchNumber)}
-                bracketMatch={b}
-                seededPlayers={seededPlayers}
-                onClick={() => {
-                  const match = getMatch(b.matchNumber);
-                  if (match && onMatchClick) onMatchClick(match);
-                }}
-                isTBD={isTBD(b.matchNumber)}
-                getTargetWins={getTargetWins}
-                getWinnerId={getWinnerId}
-                onTvNumberChange={onTvNumberChange}
-                slotEditMode={slotEditMode}
-                onSlotClick={onSlotClick}
-              />
-            ))}
-          </div>
-        </div>
-      </BracketSection>
+          </BracketSection>
+        </>
+      )}
     </div>
   );
 }
@@ -0,0 +1,117 @@
+'use client';
+
+/**
+ * Finals format and bracket size selector shown in the BM/MR/GP
+ * "Generate bracket" dialog.
+ *
+ * Each option maps to the finals POST body: `topN` is the number of
+ * qualifiers entering finals and `playoff` selects the Top-24 barrage flow
+ * (§4.2, issue #454) instead of a direct 24-player bracket with Round-1 byes.
+ * `playoff` is ignored by the API for every other size. `format` picks double
+ * elimination, single elimination or a round-robin pool (finals-format.ts);
+ * `thirdPlace` only applies to single elimination.
+ */
+
+import { useTranslations } from 'next-intl';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { FINALS_FORMATS, getFinalsFormatSizes, type FinalsFormat } from '@/lib/finals-format';
+
+export interface FinalsBracketOption {
+  /** i18n key in the `finals` namespace; other formats are labelled by size */
+  key?: 'top4' | 'top8' | 'top12' | 'top16' | 'top24' | 'top24Direct' | 'top32';
+  topN: number;
+  playoff: boolean;
+  format: FinalsFormat;
+  thirdPlace: boolean;
+}
+
+export const FINALS_BRACKET_OPTIONS: readonly FinalsBracketOption[] = [
+  { key: 'top4', topN: 4, playoff: false, format: 'double_elimination', thirdPlace: false },
+  { key: 'top8', topN: 8, playoff: false, format: 'double_elimination', thirdPlace: false },
+  { key: 'top12', topN: 12, playoff: false, format: 'double_elimination', thirdPlace: false },
+  { key: 'top16', topN: 16, playoff: false, format: 'double_elimination', thirdPlace: false },
+  { key: 'top24', topN: 24, playoff: true, format: 'double_elimination', thirdPlace: false },
+  { key: 'top24Direct', topN: 24, playoff: false, format: 'double_elimination', thirdPlace: false },
+  { key: 'top32', topN: 32, playoff: false, format: 'double_elimination', thirdPlace: false },
+];
+
+export const DEFAULT_FINALS_BRACKET_OPTION = FINALS_BRACKET_OPTIONS[1];
+
+/** `finals` i18n keys for the format buttons and the finals page subtitle. */
+export const FINALS_FORMAT_KEYS = {
+  double_elimination: { button: 'formatDoubleElimination', title: 'doubleElimination' },
+  single_elimination: { button: 'formatSingleElimination', title: 'singleEliminationTitle' },
+  round_robin: { button: 'formatRoundRobin', title: 'roundRobinTitle' },
+} as const;
+
+/** Option for a legacy `{mode}_finals_topN` sessionStorage hint ('16' or '24'). */
+export function findFinalsBracketOption(topN: string | null): FinalsBracketOption | undefined {
+  return FINALS_BRACKET_OPTIONS.find((option) => String(option.topN) === topN);
+}
+
+/** Size options for a format; double elimination keeps its fixed Top-N list. */
+function getFormatOptions(format: FinalsFormat, thirdPlace: boolean): readonly FinalsBracketOption[] {
+  if (format === 'double_elimination') return FINALS_BRACKET_OPTIONS;
+  return getFinalsFormatSizes(format).map((topN) => ({ topN, playoff: false, format, thirdPlace }));
+}
+
+interface FinalsBracketSizePickerProps {
+  value: FinalsBracketOption;
+  onChange: (option: FinalsBracketOption) => void;
+}
+
+export function FinalsBracketSizePicker({ value, onChange }: FinalsBracketSizePickerProps) {
+  const t = useTranslations('finals');
+  const options = getFormatOptions(value.format, value.thirdPlace);
+
+  /* Switching format keeps the current size when the new format offers it. */
+  const selectFormat = (format: FinalsFormat) => {
+    if (format === value.format) return;
+    const formatOptions = getFormatOptions(format, false);
+    onChange(
+      formatOptions.find((option) => option.topN === value.topN && !option.playoff) ??
+        (format === 'double_elimination' ? DEFAULT_FINALS_BRACKET_OPTION : formatOptions[0]),
+    );
+  };
+
+  return (
+    <div className="space-y-3 py-2">
+      <div className="flex flex-wrap gap-2 justify-center" role="group" aria-label={t('finalsFormat')}>
+        {FINALS_FORMATS.map((format) => (
+          <Button
+            key={format}
+            size="sm"
+            variant={format === value.format ? 'secondary' : 'ghost'}
+            onClick={() => selectFormat(format)}
+          >
+            {t(FINALS_FORMAT_KEYS[format].button)}
+          </Button>
+        ))}
+      </div>
+      <div className="flex flex-wrap gap-2 justify-center">
+        {options.map((option) => (
+          <Button
+            key={option.key ?? `${option.format}-${option.topN}`}
+            size="sm"
+            variant={option.topN === value.topN && option.playoff === value.playoff ? 'default' : 'outline'}
+            onClick={() => onChange(option)}
+          >
+            {option.key ? t(option.key) : t('topCount', { count: option.topN })}
+          </Button>
+        ))}
+      </div>
+      {value.format === 'single_elimination' && (
+        <div className="flex items-center justify-center gap-2">
+          <Checkbox
+            id="finals-third-place-match"
+            checked={value.thirdPlace}
+            onCheckedChange={(checked) => onChange({ ...value, thirdPlace: checked === true })}
+          />
+          <Label htmlFor="finals-third-place-match">{t('thirdPlaceMatchOption')}</Label>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -114,6 +114,12 @@ interface GroupSetupDialogProps {
    * Pass an empty array when no qualifications exist yet.
    */
   existingAssignments: SetupPlayer[];
+  /**
+   * Group assignments copied from a tournament template. Loaded on open
+   * only while there are no existing assignments; the dialog stays in
+   * setup (not edit) mode.
+   */
+  presetAssignments?: SetupPlayer[];
 }
 
 export function GroupSetupDialog({
@@ -128,6 +134,7 @@ export function GroupSetupDialog({
   error = null,
   onClearError,
   existingAssignments,
+  presetAssignments = [],
 }: GroupSetupDialogProps) {
   /* Resolve translations internally using mode prop - avoids props drilling */
   const t = useTranslations(mode);
@@ -146,21 +153,23 @@ export function GroupSetupDialog({
 
   /**
    * Handle dialog open/close with automatic state management.
-   * On open: pre-populates with existing assignments if in edit mode.
+   * On open: pre-populates with existing assignments if in edit mode, or
+   * with template presets for a first setup.
    * On close: resets the setup state and search query.
    */
   const handleOpenChange = (open: boolean) => {
     if (!open && saving) return;
-    if (open && hasExistingQualifications) {
+    const initialAssignments = hasExistingQualifications ? existingAssignments : presetAssignments;
+    if (open && initialAssignments.length > 0) {
       /* Edit mode: infer the group count already in use from the existing
        * assignments (rather than resetting to the default), so editing a
        * 3-group tournament re-opens showing 3 groups selected. */
-      const distinctGroupCount = new Set(existingAssignments.map((a) => a.group)).size;
+      const distinctGroupCount = new Set(initialAssignments.map((a) => a.group)).size;
       const inferredGroupCount =
         GROUP_COUNT_OPTIONS.find((n) => n >= distinctGroupCount) ?? GROUP_COUNT_OPTIONS[GROUP_COUNT_OPTIONS.length - 1];
       const inferredGroups = GROUPS.slice(0, inferredGroupCount) as readonly string[];
       setGroupCount(inferredGroupCount);
-      setSetupPlayers(remapToAvailableGroups(existingAssignments, inferredGroups));
+      setSetupPlayers(remapToAvailableGroups(initialAssignments, inferredGroups));
     } else if (!open) {
       /* Close: reset all form state */
       setSetupPlayers([]);
@@ -0,0 +1,27 @@
+'use client';
+
+/**
+ * QR code for a match report deep link (match-report-token.ts), shown on the
+ * venue screen so a player can scan it and report without signing in.
+ */
+
+import { useMemo } from 'react';
+import { renderQrSvg } from '@/lib/qr-code';
+
+interface MatchReportQrProps {
+  url: string;
+  /** Caption under the code, e.g. the player the link is for. */
+  label: string;
+}
+
+export function MatchReportQr({ url, label }: MatchReportQrProps) {
+  const svg = useMemo(() => renderQrSvg(url), [url]);
+
+  return (
+    <figure className="flex flex-col items-center gap-1">
+      {/* renderQrSvg output is generated markup with no user-supplied text. */}
+      <div className="h-28 w-28 bg-white p-1" role="img" aria-label={label} dangerouslySetInnerHTML={{ __html: svg }} />
+      <figcaption className="text-xs text-muted-foreground">{label}</figcaption>
+    </figure>
+  );
+}
@@ -21,6 +21,7 @@
 
 'use client';
 
+import { useState } from 'react';
 import { useLocale, useTranslations } from 'next-intl';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
@@ -29,6 +30,13 @@ import { cn } from '@/lib/utils';
 import { TV_NUMBER_OPTIONS } from '@/lib/constants';
 import { resolveBracketWinnerFlags, type BracketWinnerResolver } from '@/lib/bracket-winner-flags';
 import { getFinalsSlotStatus } from '@/lib/finals-slot-status';
+import {
+  getProjectionHighlight,
+  projectBracketPath,
+  toProjectionMatches,
+  type ProjectionHighlight,
+} from '@/lib/bracket-projection';
+import { BracketProjectionPanel, PROJECTION_HIGHLIGHT_CLASSES } from '@/components/tournament/bracket-projection-panel';
 
 import type { Player } from '@/lib/types';
 import type { BracketMatch, SeededPlayer } from '@/types/bracket';
@@ -76,6 +84,8 @@ interface PlayoffBracketProps<TMatch extends BMMatch = BMMatch> {
   slotEditMode?: boolean;
   /** Fired when a slot is clicked in `slotEditMode`. `slot` is 1 or 2. */
   onSlotClick?: (match: TMatch, slot: 1 | 2) => void;
+  /** See `DoubleEliminationBracket.projectionMode`. */
+  projectionMode?: 'BM' | 'MR' | 'GP';
 }
 
 /**
@@ -95,6 +105,7 @@ function PlayoffMatchCard<TMatch extends BMMatch>({
   onTvNumberChange,
   slotEditMode,
   onSlotClick,
+  highlight,
 }: {
   match?: TMatch;
   bracketMatch: BracketMatch;
@@ -107,6 +118,7 @@ function PlayoffMatchCard<TMatch extends BMMatch>({
   onTvNumberChange?: (match: TMatch, tvNumber: number | null) => void;
   slotEditMode?: boolean;
   onSlotClick?: (match: TMatch, slot: 1 | 2) => void;
+  highlight?: ProjectionHighlight | null;
 }) {
   const tc = useTranslations('common');
   const tf = useTranslations('finals');
@@ -148,10 +160,12 @@ function PlayoffMatchCard<TMatch extends BMMatch>({
         !canOpenScore && 'cursor-not-allowed opacity-70',
         match?.completed && 'border-green-500/50',
         isTV1 && 'bg-amber-50 border-amber-300 dark:bg-amber-950/30 dark:border-amber-700',
+        highlight && PROJECTION_HIGHLIGHT_CLASSES[highlight],
       )}
       onClick={canOpenScore ? onClick : undefined}
       role="button"
       tabIndex={canOpenScore ? 0 : -1}
+      data-projection={highlight ?? undefined}
       aria-label={`Match ${bracketMatch.matchNumber}: ${player1?.nickname || 'TBD'} vs ${player2?.nickname || 'TBD'}`}
       onKeyDown={(e) => {
         if (e.key === 'Enter' || e.key === ' ') {
@@ -298,8 +312,10 @@ export function PlayoffBracket<TMatch extends BMMatch = BMMatch>({
   onTvNumberChange,
   slotEditMode,
   onSlotClick,
+  projectionMode,
 }: PlayoffBracketProps<TMatch>) {
   const tf = useTranslations('finals');
+  const [projectedPlayerId, setProjectedPlayerId] = useState('');
   const getMatch = (matchNumber: number) => playoffMatches.find((m) => m.matchNumber === matchNumber);
 
   const getBracketMatch = (matchNumber: number) => playoffStructure.find((b) => b.matchNumber === matchNumber);
@@ -334,6 +350,20 @@ export function PlayoffBracket<TMatch extends BMMatch = BMMatch>({
   const courseR1 = getRoundAssignment('playoff_r1');
   const courseR2 = getRoundAssignment('playoff_r2');
 
+  const projection =
+    projectionMode && projectedPlayerId
+      ? projectBracketPath(
+          playoffStructure,
+          toProjectionMatches(playoffMatches, playoffStructure, getTargetWins, getWinnerId),
+          projectedPlayerId,
+          projectionMode,
+        )
+      : null;
+  const getMatchLabel = (matchNumber: number): string => {
+    const round = getBracketMatch(matchNumber)?.round;
+    return `M${matchNumber} ${round === 'playoff_r1' ? r1RoundName : round === 'playoff_r2' ? r2RoundName : ''}`.trim();
+  };
+
   return (
     <Card className="border-blue-500/30">
       <CardHeader className="py-3">
@@ -346,6 +376,18 @@ export function PlayoffBracket<TMatch extends BMMatch = BMMatch>({
       </CardHeader>
       <CardContent>
         <p className="text-sm text-muted-foreground mb-4">{tf('playoffAdvanceDesc', { round: r2RoundName })}</p>
+        {projectionMode && seededPlayers && seededPlayers.length > 0 && (
+          <div className="mb-4">
+            <BracketProjectionPanel
+              mode={projectionMode}
+              players={seededPlayers}
+              selectedPlayerId={projectedPlayerId}
+              onSelectPlayer={setProjectedPlayerId}
+              projection={projection}
+              getMatchLabel={getMatchLabel}
+            />
+          </div>
+        )}
         <div className="flex flex-col gap-6 md:flex-row md:items-start md:gap-8 overflow-x-auto pb-4">
           {/* Playoff Round 1 */}
           <div className="space-y-2">
@@ -378,6 +420,7 @@ export function PlayoffBracket<TMatch extends BMMatch = BMMatch>({
                   onTvNumberChange={onTvNumberChange}
                   slotEditMode={slotEditMode}
                   onSlotClick={onSlotClick}
+                  highlight={getProjectionHighlight(projection, b.matchNumber)}
                 />
               ))}
             </div>
@@ -414,6 +457,7 @@ export function PlayoffBracket<TMatch extends BMMatch = BMMatch>({
                   onTvNumberChange={onTvNumberChange}
                   slotEditMode={slotEditMode}
                   onSlotClick={onSlotClick}
+                  highlight={getProjectionHighlight(projection, b.matchNumber)}
                 />
               ))}
             </div>
@@ -0,0 +1,100 @@
+'use client';
+
+/**
+ * Admin button that opens the printable match cards, bracket sheets and TA
+ * pair sheet (GET /api/tournaments/:id/export?format=print, print-sheets.ts)
+ * in a new tab, where the browser can print them or save them as PDF.
+ */
+
+import { useState } from 'react';
+import { useLocale, useTranslations } from 'next-intl';
+import { Printer } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import type { PrintDocument, PrintMode } from '@/lib/print-sheets';
+
+const DOCUMENT_KEYS = {
+  'match-cards': 'docMatchCards',
+  bracket: 'docBracket',
+  'ta-pairs': 'docTaPairs',
+} as const satisfies Record<PrintDocument, string>;
+
+const MODES: PrintMode[] = ['bm', 'mr', 'gp'];
+
+interface PrintSheetsButtonProps {
+  tournamentId: string;
+}
+
+export function PrintSheetsButton({ tournamentId }: PrintSheetsButtonProps) {
+  const t = useTranslations('printSheets');
+  const locale = useLocale();
+  const [open, setOpen] = useState(false);
+  const [doc, setDoc] = useState<PrintDocument>('match-cards');
+  const [mode, setMode] = useState<PrintMode>('bm');
+
+  const params = new URLSearchParams({ format: 'print', doc, lang: locale === 'en' ? 'en' : 'ja' });
+  if (doc !== 'ta-pairs') params.set('mode', mode);
+  const href = `/api/tournaments/${tournamentId}/export?${params.toString()}`;
+
+  return (
+    <>
+      <Button variant="outline" size="sm" onClick={() => setOpen(true)}>
+        <Printer className="h-4 w-4 mr-2" />
+        {t('button')}
+      </Button>
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{t('title')}</DialogTitle>
+            <DialogDescription>{t('description')}</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-3 py-2">
+            <select
+              className="w-full border rounded px-2 py-1 text-sm bg-background"
+              value={doc}
+              onChange={(e) => setDoc(e.target.value as PrintDocument)}
+              aria-label={t('document')}
+            >
+              {(Object.keys(DOCUMENT_KEYS) as PrintDocument[]).map((value) => (
+                <option key={value} value={value}>
+                  {t(DOCUMENT_KEYS[value])}
+                </option>
+              ))}
+            </select>
+            {doc !== 'ta-pairs' && (
+              <select
+                className="w-full border rounded px-2 py-1 text-sm bg-background"
+                value={mode}
+                onChange={(e) => setMode(e.target.value as PrintMode)}
+                aria-label={t('mode')}
+              >
+                {MODES.map((value) => (
+                  <option key={value} value={value}>
+                    {value.toUpperCase()}
+                  </option>
+                ))}
+              </select>
+            )}
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => setOpen(false)}>
+              {t('cancel')}
+            </Button>
+            <Button asChild>
+              <a href={href} target="_blank" rel="noopener noreferrer" onClick={() => setOpen(false)}>
+                {t('open')}
+              </a>
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
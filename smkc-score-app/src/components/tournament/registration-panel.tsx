@@ -0,0 +1,191 @@
+'use client';
+
+/**
+ * Tournament Sign-Up Panel (players)
+ *
+ * Shows whether a tournament accepts self-registration and the signed-in
+ * player's entry. Players pick the modes they will enter; the entry then
+ * waits for admin approval, or on the waitlist when the cap is full.
+ * Visitors without a player session are pointed at sign-in / sign-up with
+ * a callback to this page.
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useSession } from 'next-auth/react';
+import { useTranslations } from 'next-intl';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { createLogger } from '@/lib/client-logger';
+import { fetchWithRetry } from '@/lib/fetch-with-retry';
+import type { RegistrationMode, RegistrationSettings, RegistrationStatus } from '@/lib/tournament-registration';
+
+const logger = createLogger({ serviceName: 'registration-panel' });
+
+interface OwnRegistration {
+  id: string;
+  status: RegistrationStatus;
+  modes: RegistrationMode[];
+}
+
+interface OwnRegistrationData {
+  settings: RegistrationSettings | null;
+  registration: OwnRegistration | null;
+  waitlistPosition: number | null;
+}
+
+const STATUS_BADGES: Record<RegistrationStatus, 'flag-draft' | 'flag-active' | 'secondary' | 'destructive'> = {
+  pending: 'flag-draft',
+  approved: 'flag-active',
+  waitlisted: 'secondary',
+  rejected: 'destructive',
+};
+
+export function RegistrationPanel({ tournamentId }: { tournamentId: string }) {
+  const t = useTranslations('registration');
+  const { data: session, status: sessionStatus } = useSession();
+  const isPlayer = session?.user?.userType === 'player';
+  const [data, setData] = useState<OwnRegistrationData | null>(null);
+  const [modes, setModes] = useState<RegistrationMode[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      const response = await fetchWithRetry(`/api/tournaments/${tournamentId}/registrations/me`, {
+        cache: 'no-store',
+      });
+      const json = await response.json();
+      if (!json.success) throw new Error(json.error);
+      setData(json.data as OwnRegistrationData);
+    } catch (err) {
+      logger.error('Failed to load registration', { error: err, tournamentId });
+      setError(t('failedToLoad'));
+    }
+  }, [tournamentId, t]);
+
+  useEffect(() => {
+    /* Re-load once the session resolves so a player sees their own entry. */
+    if (sessionStatus !== 'loading') load();
+  }, [load, sessionStatus]);
+
+  const toggleMode = (mode: RegistrationMode, checked: boolean) => {
+    setModes((prev) => (checked ? [...prev, mode] : prev.filter((value) => value !== mode)));
+  };
+
+  const handleRegister = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/tournaments/${tournamentId}/registrations`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ modes }),
+      });
+      if (!response.ok) {
+        throw new Error(response.status === 409 ? t('registrationClosedOrDuplicate') : t('failedToRegister'));
+      }
+      await load();
+    } catch (err) {
+      logger.error('Failed to register', { error: err, tournamentId, modes });
+      setError(err instanceof Error ? err.message : t('failedToRegister'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleWithdraw = async () => {
+    if (!confirm(t('withdrawConfirm'))) return;
+    setSaving(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/tournaments/${tournamentId}/registrations/me`, { method: 'DELETE' });
+      if (!response.ok) throw new Error(t('failedToWithdraw'));
+      setModes([]);
+      await load();
+    } catch (err) {
+      logger.error('Failed to withdraw registration', { error: err, tournamentId });
+      setError(t('failedToWithdraw'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!data) {
+    return error ? (
+      <p className="text-destructive text-sm">{error}</p>
+    ) : (
+      <div className="h-40 bg-muted animate-pulse" />
+    );
+  }
+
+  const { settings, registration, waitlistPosition } = data;
+  const callbackUrl = encodeURIComponent(`/tournaments/${tournamentId}/register`);
+
+  return (
+    <section className="border border-foreground/15 p-6 space-y-4 max-w-xl">
+      <div className="space-y-1">
+        <h2 className="text-base font-semibold">{t('title')}</h2>
+        {settings?.cap != null && (
+          <p className="text-xs text-muted-foreground">{t('capNote', { cap: settings.cap })}</p>
+        )}
+      </div>
+
+      {error && <p className="text-destructive text-sm">{error}</p>}
+
+      {registration ? (
+        <div className="space-y-3">
+          <div className="flex items-center gap-2">
+            <Badge variant={STATUS_BADGES[registration.status]}>{t(`statuses.${registration.status}`)}</Badge>
+            <span className="text-sm">{registration.modes.map((mode) => t(`modes.${mode}`)).join(' / ')}</span>
+          </div>
+          <p className="text-sm text-muted-foreground">
+            {registration.status === 'waitlisted'
+              ? t('waitlistedHelp', { position: waitlistPosition ?? 0 })
+              : t(`statusHelp.${registration.status}`)}
+          </p>
+          {registration.status !== 'rejected' && (
+            <Button variant="outline" onClick={handleWithdraw} disabled={saving}>
+              {t('withdraw')}
+            </Button>
+          )}
+        </div>
+      ) : !settings?.open ? (
+        <p className="text-sm text-muted-foreground">{t('closed')}</p>
+      ) : !isPlayer ? (
+        <div className="space-y-3">
+          <p className="text-sm text-muted-foreground">{t('signInRequired')}</p>
+          <div className="flex flex-wrap gap-2">
+            <Button asChild>
+              <Link href={`/auth/signin?callbackUrl=${callbackUrl}`}>{t('signIn')}</Link>
+            </Button>
+            <Button variant="outline" asChild>
+              <Link href={`/auth/signup?callbackUrl=${callbackUrl}`}>{t('createAccount')}</Link>
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          <p className="text-sm">{t('chooseModes')}</p>
+          <div className="flex flex-wrap gap-4">
+            {settings.modes.map((mode) => (
+              <div key={mode} className="flex items-center gap-2">
+                <Checkbox
+                  id={`registration-mode-${mode}`}
+                  checked={modes.includes(mode)}
+                  onCheckedChange={(value) => toggleMode(mode, value === true)}
+                />
+                <Label htmlFor={`registration-mode-${mode}`}>{t(`modes.${mode}`)}</Label>
+              </div>
+            ))}
+          </div>
+          <Button onClick={handleRegister} disabled={saving || modes.length === 0}>
+            {saving ? t('registering') : t('register')}
+          </Button>
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,303 @@
+'use client';
+
+/**
+ * Tournament Registration Review (admin only)
+ *
+ * Opens and configures self-registration (cap and offered modes) and lists
+ * the entries grouped by status so the admin can approve or reject them.
+ * Approved entries pre-fill the qualification setup dialogs of the modes
+ * each player chose. With check-in on, approved entries can be checked in
+ * or out in bulk at the venue desk, and a player who does not show after
+ * the schedule exists can be marked as a no-show.
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { useTranslations } from 'next-intl';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { CountryFlag } from '@/components/ui/country-flag';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { createLogger } from '@/lib/client-logger';
+import { fetchWithRetry } from '@/lib/fetch-with-retry';
+import type { RegistrationMode, RegistrationSettings, RegistrationStatus } from '@/lib/tournament-registration';
+
+const logger = createLogger({ serviceName: 'registration-review' });
+
+/* tournament-registration.ts imports Prisma, so the lists are not imported at runtime. */
+const MODES: RegistrationMode[] = ['ta', 'bm', 'mr', 'gp'];
+const STATUS_ORDER: RegistrationStatus[] = ['pending', 'waitlisted', 'approved', 'rejected'];
+
+interface RegistrationEntry {
+  id: string;
+  status: RegistrationStatus;
+  modes: RegistrationMode[];
+  createdAt: string;
+  checkedInAt: string | null;
+  noShowAt: string | null;
+  player: { id: string; nickname: string; country: string | null };
+}
+
+interface SettingsForm {
+  open: boolean;
+  cap: string;
+  modes: RegistrationMode[];
+  checkIn: boolean;
+}
+
+function toForm(settings: RegistrationSettings | null): SettingsForm {
+  return {
+    open: settings?.open ?? false,
+    cap: settings?.cap != null ? String(settings.cap) : '',
+    modes: settings?.modes ?? MODES,
+    checkIn: settings?.checkIn ?? false,
+  };
+}
+
+export function RegistrationReview({ tournamentId }: { tournamentId: string }) {
+  const t = useTranslations('registration');
+  const [entries, setEntries] = useState<RegistrationEntry[]>([]);
+  const [form, setForm] = useState<SettingsForm>(toForm(null));
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [selected, setSelected] = useState<string[]>([]);
+
+  const load = useCallback(async () => {
+    try {
+      const response = await fetchWithRetry(`/api/tournaments/${tournamentId}/registrations`, { cache: 'no-store' });
+      const json = await response.json();
+      if (!json.success) throw new Error(json.error);
+      setEntries(json.data.registrations as RegistrationEntry[]);
+      setForm(toForm(json.data.settings as RegistrationSettings | null));
+    } catch (err) {
+      logger.error('Failed to load registrations', { error: err, tournamentId });
+      setError(t('failedToLoad'));
+    }
+  }, [tournamentId, t]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const handleSaveSettings = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/tournaments/${tournamentId}/registrations`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          open: form.open,
+          cap: form.cap.trim() === '' ? null : Number(form.cap),
+          modes: form.modes,
+          checkIn: form.checkIn,
+        }),
+      });
+      if (!response.ok) throw new Error(t('failedToSaveSettings'));
+      await load();
+    } catch (err) {
+      logger.error('Failed to save registration settings', { error: err, tournamentId });
+      setError(t('failedToSaveSettings'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleReview = async (entry: RegistrationEntry, status: 'approved' | 'rejected') => {
+    setError(null);
+    try {
+      const response = await fetch(`/api/tournaments/${tournamentId}/registrations/${entry.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ status }),
+      });
+      if (!response.ok) throw new Error(t('failedToReview'));
+      await load();
+    } catch (err) {
+      logger.error('Failed to review registration', { error: err, tournamentId, registrationId: entry.id });
+      setError(t('failedToReview'));
+    }
+  };
+
+  const handleBulkCheckIn = async (checkedIn: boolean) => {
+    setError(null);
+    try {
+      const response = await fetch(`/api/tournaments/${tournamentId}/registrations/check-in`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ registrationIds: selected, checkedIn }),
+      });
+      if (!response.ok) throw new Error(t('failedToCheckIn'));
+      setSelected([]);
+      await load();
+    } catch (err) {
+      logger.error('Failed to update check-in', { error: err, tournamentId, registrationIds: selected });
+      setError(t('failedToCheckIn'));
+    }
+  };
+
+  const handleNoShow = async (entry: RegistrationEntry) => {
+    if (!confirm(t('noShowConfirm', { nickname: entry.player.nickname }))) return;
+    setError(null);
+    try {
+      const response = await fetch(`/api/tournaments/${tournamentId}/registrations/${entry.id}/no-show`, {
+        method: 'POST',
+      });
+      if (!response.ok) throw new Error(t('failedToMarkNoShow'));
+      await load();
+    } catch (err) {
+      logger.error('Failed to mark no-show', { error: err, tournamentId, registrationId: entry.id });
+      setError(t('failedToMarkNoShow'));
+    }
+  };
+
+  const toggleSelected = (entryId: string, checked: boolean) => {
+    setSelected((prev) => (checked ? [...prev, entryId] : prev.filter((value) => value !== entryId)));
+  };
+
+  const toggleMode = (mode: RegistrationMode, checked: boolean) => {
+    setForm((prev) => ({
+      ...prev,
+      modes: checked
+        ? MODES.filter((value) => value === mode || prev.modes.includes(value))
+        : prev.modes.filter((value) => value !== mode),
+    }));
+  };
+
+  return (
+    <div className="space-y-6">
+      <section className="border border-foreground/15 p-6 space-y-4">
+        <div className="space-y-1">
+          <h2 className="text-base font-semibold">{t('settingsTitle')}</h2>
+          <p className="text-xs text-muted-foreground">{t('settingsDescription')}</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Checkbox
+            id="registration-open"
+            checked={form.open}
+            onCheckedChange={(value) => setForm((prev) => ({ ...prev, open: value === true }))}
+          />
+          <Label htmlFor="registration-open">{t('open')}</Label>
+        </div>
+        <div className="flex items-center gap-2">
+          <Checkbox
+            id="registration-check-in"
+            checked={form.checkIn}
+            onCheckedChange={(value) => setForm((prev) => ({ ...prev, checkIn: value === true }))}
+          />
+          <Label htmlFor="registration-check-in">{t('requireCheckIn')}</Label>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="registration-cap">{t('cap')}</Label>
+          <Input
+            id="registration-cap"
+            type="number"
+            min={1}
+            className="w-32"
+            placeholder={t('noCap')}
+            value={form.cap}
+            onChange={(e) => setForm((prev) => ({ ...prev, cap: e.target.value }))}
+          />
+        </div>
+        <div className="flex flex-wrap gap-4">
+          {MODES.map((mode) => (
+            <div key={mode} className="flex items-center gap-2">
+              <Checkbox
+                id={`registration-offer-${mode}`}
+                checked={form.modes.includes(mode)}
+                onCheckedChange={(value) => toggleMode(mode, value === true)}
+              />
+              <Label htmlFor={`registration-offer-${mode}`}>{t(`modes.${mode}`)}</Label>
+            </div>
+          ))}
+        </div>
+        <Button onClick={handleSaveSettings} disabled={saving || form.modes.length === 0}>
+          {saving ? t('saving') : t('saveSettings')}
+        </Button>
+      </section>
+
+      {error && <p className="text-destructive text-sm">{error}</p>}
+
+      {STATUS_ORDER.map((status) => {
+        const group = entries.filter((entry) => entry.status === status);
+        return (
+          <section key={status} className="space-y-2">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <h3 className="text-sm font-semibold">
+                {t(`statuses.${status}`)} ({group.length})
+              </h3>
+              {status === 'approved' && group.length > 0 && (
+                <div className="flex gap-2">
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={selected.length === 0}
+                    onClick={() => handleBulkCheckIn(true)}
+                  >
+                    {t('checkInSelected')}
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    disabled={selected.length === 0}
+                    onClick={() => handleBulkCheckIn(false)}
+                  >
+                    {t('checkOutSelected')}
+                  </Button>
+                </div>
+              )}
+            </div>
+            {group.length === 0 ? (
+              <p className="text-sm text-muted-foreground">{t('noEntries')}</p>
+            ) : (
+              <ul className="divide-y divide-foreground/10 border border-foreground/10">
+                {group.map((entry) => (
+                  <li key={entry.id} className="flex items-center justify-between gap-3 px-3 py-2">
+                    <div className="min-w-0 flex items-center gap-2">
+                      {status === 'approved' && (
+                        <Checkbox
+                          aria-label={entry.player.nickname}
+                          checked={selected.includes(entry.id)}
+                          disabled={Boolean(entry.noShowAt)}
+                          onCheckedChange={(value) => toggleSelected(entry.id, value === true)}
+                        />
+                      )}
+                      <CountryFlag country={entry.player.country} />
+                      <span className="font-medium">{entry.player.nickname}</span>
+                      <span className="text-xs text-muted-foreground">
+                        {entry.modes.map((mode) => t(`modes.${mode}`)).join(' / ')}
+                      </span>
+                      {entry.noShowAt ? (
+                        <Badge variant="destructive">{t('noShow')}</Badge>
+                      ) : (
+                        entry.checkedInAt && <Badge variant="flag-active">{t('checkedIn')}</Badge>
+                      )}
+                    </div>
+                    <div className="flex gap-2">
+                      {status !== 'approved' && (
+                        <Button size="sm" onClick={() => handleReview(entry, 'approved')}>
+                          {t('approve')}
+                        </Button>
+                      )}
+                      {status === 'approved' && !entry.noShowAt && (
+                        <Button size="sm" variant="ghost" onClick={() => handleNoShow(entry)}>
+                          {t('markNoShow')}
+                        </Button>
+                      )}
+                      {status !== 'rejected' && (
+                        <Button size="sm" variant="ghost" onClick={() => handleReview(entry, 'rejected')}>
+                          {t('reject')}
+                        </Button>
+                      )}
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,127 @@
+'use client';
+
+/**
+ * Save Tournament Template Dialog (admin only)
+ *
+ * Saves a tournament's settings, overlay layout and finals presets as a
+ * named template, optionally with its roster (group assignments and TA
+ * entries). New tournaments can then start from the template in the
+ * create dialog. Scores are never stored in a template.
+ */
+
+import { useState } from 'react';
+import { useTranslations } from 'next-intl';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { createLogger } from '@/lib/client-logger';
+
+const logger = createLogger({ serviceName: 'save-tournament-template-dialog' });
+
+export function SaveTournamentTemplateDialog({
+  tournament,
+  onSaved,
+}: {
+  tournament: { id: string; name: string };
+  onSaved?: () => void;
+}) {
+  const t = useTranslations('tournaments');
+  const tc = useTranslations('common');
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [includeRoster, setIncludeRoster] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const reset = () => {
+    setName('');
+    setIncludeRoster(false);
+    setError(null);
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/tournament-templates', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: name.trim(), sourceTournamentId: tournament.id, includeRoster }),
+      });
+      const json = await response.json().catch(() => ({}));
+      if (!response.ok || !json.success) {
+        throw new Error(typeof json.error === 'string' ? json.error : t('failedToSaveTemplate'));
+      }
+      setOpen(false);
+      reset();
+      onSaved?.();
+    } catch (err) {
+      logger.error('Failed to save tournament template', { error: err, tournamentId: tournament.id });
+      setError(err instanceof Error ? err.message : t('failedToSaveTemplate'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        if (!next && saving) return;
+        setOpen(next);
+        if (next) setName(tournament.name);
+        else reset();
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          {t('saveAsTemplate')}
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{t('saveTemplateTitle')}</DialogTitle>
+          <DialogDescription>{t('saveTemplateDescription')}</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 py-2">
+          {error && <div className="text-red-500 text-sm">{error}</div>}
+          <div className="space-y-2">
+            <Label htmlFor={`template-name-${tournament.id}`}>{t('templateName')}</Label>
+            <Input
+              id={`template-name-${tournament.id}`}
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder={t('templateNamePlaceholder')}
+            />
+          </div>
+          <div className="flex items-center gap-3">
+            <input
+              id={`template-roster-${tournament.id}`}
+              type="checkbox"
+              checked={includeRoster}
+              onChange={(e) => setIncludeRoster(e.target.checked)}
+              className="h-4 w-4 rounded border-gray-300"
+            />
+            <Label htmlFor={`template-roster-${tournament.id}`} className="text-sm font-normal cursor-pointer">
+              {t('includeRoster')}
+            </Label>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button disabled={!name.trim() || saving} onClick={() => void handleSave()}>
+            {saving ? tc('saving') : t('saveAsTemplate')}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,167 @@
+'use client';
+
+/**
+ * Tournament Staff Editor (admin only)
+ *
+ * Lists the staff roles granted in a tournament and lets the admin grant
+ * and revoke them. Staff are player accounts: the volunteer signs in with
+ * the player credentials and sees only the controls their role allows.
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { useTranslations } from 'next-intl';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { createLogger } from '@/lib/client-logger';
+import { fetchWithRetry } from '@/lib/fetch-with-retry';
+import { fetchAllPlayersForSetup } from '@/lib/qualification-page-data';
+import type { TournamentStaffRole } from '@/lib/tournament-staff';
+
+const logger = createLogger({ serviceName: 'staff-editor' });
+
+/* tournament-staff.ts imports Prisma, so the role list is not imported at runtime. */
+const ROLES: TournamentStaffRole[] = ['STAFF', 'TA_OPERATOR', 'BROADCAST_OPERATOR'];
+
+interface StaffPlayer {
+  id: string;
+  nickname: string;
+}
+
+interface StaffGrant {
+  id: string;
+  role: TournamentStaffRole;
+  player: StaffPlayer;
+}
+
+export function StaffEditor({ tournamentId }: { tournamentId: string }) {
+  const t = useTranslations('staff');
+  const [grants, setGrants] = useState<StaffGrant[]>([]);
+  const [players, setPlayers] = useState<StaffPlayer[]>([]);
+  const [playerId, setPlayerId] = useState('');
+  const [role, setRole] = useState<TournamentStaffRole>('STAFF');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      const [staffResponse, allPlayers] = await Promise.all([
+        fetchWithRetry(`/api/tournaments/${tournamentId}/staff`),
+        fetchAllPlayersForSetup<StaffPlayer>(),
+      ]);
+      const staffJson = await staffResponse.json();
+      if (staffJson.success) setGrants(staffJson.data as StaffGrant[]);
+      if (allPlayers) setPlayers(allPlayers);
+    } catch (err) {
+      logger.error('Failed to load staff', { error: err, tournamentId });
+      setError(t('failedToLoad'));
+    }
+  }, [tournamentId, t]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const handleGrant = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/tournaments/${tournamentId}/staff`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ playerId, role }),
+      });
+      const json = await response.json().catch(() => ({}));
+      if (!response.ok || !json.success) {
+        throw new Error(response.status === 409 ? t('alreadyGranted') : t('failedToGrant'));
+      }
+      setPlayerId('');
+      await load();
+    } catch (err) {
+      logger.error('Failed to grant staff role', { error: err, tournamentId, playerId, role });
+      setError(err instanceof Error ? err.message : t('failedToGrant'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRevoke = async (grant: StaffGrant) => {
+    if (!confirm(t('revokeConfirm', { nickname: grant.player.nickname, role: t(`roles.${grant.role}`) }))) return;
+    setError(null);
+    try {
+      const response = await fetch(`/api/tournaments/${tournamentId}/staff/${grant.id}`, { method: 'DELETE' });
+      if (!response.ok) throw new Error(t('failedToRevoke'));
+      await load();
+    } catch (err) {
+      logger.error('Failed to revoke staff role', { error: err, tournamentId, staffId: grant.id });
+      setError(t('failedToRevoke'));
+    }
+  };
+
+  return (
+    <section className="border border-foreground/15 p-6 space-y-4">
+      <div className="space-y-1">
+        <h2 className="text-base font-semibold">{t('title')}</h2>
+        <p className="text-xs text-muted-foreground">{t('description')}</p>
+      </div>
+
+      {error && <p className="text-destructive text-sm">{error}</p>}
+
+      {grants.length === 0 ? (
+        <p className="text-sm text-muted-foreground">{t('noStaff')}</p>
+      ) : (
+        <ul className="divide-y divide-foreground/10 border border-foreground/10">
+          {grants.map((grant) => (
+            <li key={grant.id} className="flex items-center justify-between gap-3 px-3 py-2">
+              <div className="min-w-0">
+                <span className="font-medium">{grant.player.nickname}</span>
+                <p className="text-xs text-muted-foreground">
+                  {t(`roles.${grant.role}`)} — {t(`roleDescriptions.${grant.role}`)}
+                </p>
+              </div>
+              <Button size="sm" variant="ghost" onClick={() => handleRevoke(grant)}>
+                {t('revoke')}
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex flex-wrap items-end gap-3 border-t border-foreground/10 pt-4">
+        <div className="space-y-1">
+          <Label>{t('player')}</Label>
+          <Select value={playerId} onValueChange={setPlayerId}>
+            <SelectTrigger aria-label={t('player')} className="w-56">
+              <SelectValue placeholder={t('selectPlayer')} />
+            </SelectTrigger>
+            <SelectContent>
+              {players.map((player) => (
+                <SelectItem key={player.id} value={player.id}>
+                  {player.nickname}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label>{t('role')}</Label>
+          <Select value={role} onValueChange={(value) => setRole(value as TournamentStaffRole)}>
+            <SelectTrigger aria-label={t('role')} className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {ROLES.map((value) => (
+                <SelectItem key={value} value={value}>
+                  {t(`roles.${value}`)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <Button onClick={handleGrant} disabled={saving || !playerId}>
+          {saving ? t('granting') : t('grant')}
+        </Button>
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,77 @@
+'use client';
+
+/**
+ * Admin control for Swiss-system qualification (BM/MR/GP).
+ *
+ * Shows the current round against the recommended round count and pairs the
+ * next round via POST /api/tournaments/:id/{mode}/swiss-round once every
+ * match of the current round is reported. Rendered only when the
+ * qualification GET payload carries `swiss` progress.
+ */
+
+import { useState } from 'react';
+import { useTranslations } from 'next-intl';
+import { Button } from '@/components/ui/button';
+import type { SwissProgress } from '@/lib/swiss-pairing';
+
+interface SwissRoundControlProps {
+  tournamentId: string;
+  mode: 'bm' | 'mr' | 'gp';
+  progress: SwissProgress;
+  /** Qualification confirmed: pairing is locked like score edits. */
+  locked: boolean;
+  /** Called after a successful pairing so the parent can refetch. */
+  onPaired?: () => void;
+}
+
+export function SwissRoundControl({ tournamentId, mode, progress, locked, onPaired }: SwissRoundControlProps) {
+  const t = useTranslations('swiss');
+  const [pairing, setPairing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const nextRound = progress.round + 1;
+  const exhausted = progress.round >= progress.maxRounds;
+  const hint = exhausted
+    ? t('allRoundsPlayed')
+    : !progress.roundComplete
+      ? t('roundInProgress', { round: progress.round })
+      : null;
+
+  async function handlePair() {
+    if (!confirm(t('pairConfirm', { round: nextRound }))) return;
+    setPairing(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/tournaments/${tournamentId}/${mode}/swiss-round`, {
+        method: 'POST',
+      });
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        setError(json.error || t('pairError'));
+        return;
+      }
+      onPaired?.();
+    } finally {
+      setPairing(false);
+    }
+  }
+
+  return (
+    <div className="flex flex-col gap-1">
+      <div className="flex items-center gap-2">
+        <span className="text-sm text-muted-foreground">
+          {t('roundStatus', { round: progress.round, recommended: progress.recommendedRounds })}
+        </span>
+        <Button
+          variant="outline"
+          disabled={locked || pairing || exhausted || !progress.roundComplete}
+          onClick={handlePair}
+        >
+          {pairing ? t('pairing') : t('pairNextRound', { round: nextRound })}
+        </Button>
+      </div>
+      {hint && <p className="text-xs text-muted-foreground">{hint}</p>}
+      {error && <p className="text-xs text-destructive">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,158 @@
+'use client';
+
+/**
+ * Bulk paste panel for TA time entry.
+ *
+ * The operator pastes "nickname time" lines (or cells copied from a
+ * spreadsheet); every line is previewed with the player it resolved to and
+ * any validation error (bulk-time-paste.ts). Apply stays disabled while a
+ * row has an error and hands only the resolved rows to the page, which
+ * decides what applying means: filling the round's time inputs in the
+ * finals, saving one course for everyone in qualification.
+ */
+
+import { useState, type ReactNode } from 'react';
+import { useTranslations } from 'next-intl';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { RETRY_PENALTY_DISPLAY } from '@/lib/constants';
+import { parseBulkTimePaste, type BulkTimePasteCandidate, type BulkTimePasteRow } from '@/lib/ta/bulk-time-paste';
+import { cn } from '@/lib/utils';
+
+export function TaBulkTimePaste({
+  candidates,
+  allowRetry = true,
+  disabled = false,
+  applyLabel,
+  onApply,
+  children,
+}: {
+  candidates: readonly BulkTimePasteCandidate[];
+  allowRetry?: boolean;
+  disabled?: boolean;
+  /** Defaults to filling the time inputs, the finals behaviour. */
+  applyLabel?: string;
+  /** Receives the resolved rows; a rejected promise keeps the pasted text for another try. */
+  onApply: (rows: BulkTimePasteRow[]) => void | Promise<void>;
+  /** Extra controls shown above the text area (e.g. the course to save in qualification). */
+  children?: ReactNode;
+}) {
+  const t = useTranslations('taBulkPaste');
+  const [open, setOpen] = useState(false);
+  const [text, setText] = useState('');
+  const [applying, setApplying] = useState(false);
+
+  const result = parseBulkTimePaste(text, candidates, { allowRetry });
+  const missing = candidates.filter(({ playerId }) => result.missingPlayerIds.includes(playerId));
+
+  const apply = async () => {
+    setApplying(true);
+    try {
+      await onApply(result.rows);
+      setText('');
+      setOpen(false);
+    } catch {
+      /* The page reports the failure; keep the text so nothing has to be pasted again. */
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  if (!open) {
+    return (
+      <Button variant="outline" size="sm" disabled={disabled} onClick={() => setOpen(true)}>
+        {t('open')}
+      </Button>
+    );
+  }
+
+  return (
+    <div className="space-y-3 rounded-md border p-3">
+      <div>
+        <h4 className="font-semibold">{t('title')}</h4>
+        <p className="text-sm text-muted-foreground">
+          {allowRetry ? t('descriptionWithRetry', { retry: RETRY_PENALTY_DISPLAY }) : t('description')}
+        </p>
+      </div>
+      {children}
+      <div className="space-y-1">
+        <Label htmlFor="ta-bulk-time-paste">{t('inputLabel')}</Label>
+        <textarea
+          id="ta-bulk-time-paste"
+          rows={8}
+          value={text}
+          disabled={disabled || applying}
+          placeholder={t('placeholder')}
+          onChange={(event) => setText(event.target.value)}
+          className="w-full rounded-sm border border-foreground/25 bg-transparent px-3 py-2 font-mono text-sm outline-none focus-visible:border-primary focus-visible:ring-2 focus-visible:ring-primary/40 disabled:opacity-50"
+        />
+      </div>
+
+      {result.rows.length > 0 && (
+        <>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-12">{t('line')}</TableHead>
+                <TableHead>{t('pasted')}</TableHead>
+                <TableHead>{t('player')}</TableHead>
+                <TableHead className="text-right">{t('time')}</TableHead>
+                <TableHead>{t('status')}</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {result.rows.map((row) => (
+                <TableRow key={row.line} className={cn(row.error && 'bg-destructive/10')}>
+                  <TableCell className="font-mono text-xs">{row.line}</TableCell>
+                  <TableCell className="font-mono text-xs">
+                    {row.name} {row.timeText}
+                  </TableCell>
+                  <TableCell>
+                    {row.nickname ?? '-'}
+                    {row.matchedBy && row.matchedBy !== 'exact' && (
+                      <Badge variant="outline" className="ml-2 text-xs">
+                        {t(`matchedBy_${row.matchedBy}`)}
+                      </Badge>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right font-mono">
+                    {row.time ?? '-'}
+                    {row.isRetry && <span className="ml-1 text-xs">{t('retry')}</span>}
+                  </TableCell>
+                  <TableCell className={cn('text-sm', row.error && 'text-destructive')}>
+                    {row.error ? t(`error_${row.error}`) : t('ok')}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+          {missing.length > 0 && (
+            <p className="text-sm text-amber-600">
+              {t('missing', { names: missing.map(({ nickname }) => nickname).join(', ') })}
+            </p>
+          )}
+          {result.hasErrors && (
+            <p role="alert" className="text-sm text-destructive">
+              {t('fixErrors')}
+            </p>
+          )}
+        </>
+      )}
+
+      <div className="flex flex-wrap justify-end gap-2">
+        <Button variant="outline" size="sm" disabled={applying} onClick={() => setOpen(false)}>
+          {t('close')}
+        </Button>
+        <Button
+          size="sm"
+          disabled={disabled || applying || result.rows.length === 0 || result.hasErrors}
+          onClick={() => void apply()}
+        >
+          {applying ? t('applying') : (applyLabel ?? t('applyToForm'))}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -38,7 +38,8 @@ import {
 import { Badge } from '@/components/ui/badge';
 import { PlayerName } from '@/components/ui/player-name';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { COURSE_INFO, RETRY_PENALTY_DISPLAY, RETRY_PENALTY_MS } from '@/lib/constants';
+import { COURSE_INFO, POLLING_INTERVAL, RETRY_PENALTY_DISPLAY, RETRY_PENALTY_MS } from '@/lib/constants';
+import { usePolling } from '@/lib/hooks/usePolling';
 import {
   autoFormatTime,
   generateRandomTimeString,
@@ -48,6 +49,8 @@ import {
 } from '@/lib/ta/time-utils';
 import { TA_TIME_INPUT_HELP_CLASS, getTaTimeInputProps } from '@/lib/ta/time-entry-layout';
 import { TaTimeEntryRow } from '@/components/tournament/ta-time-entry-row';
+import { TaBulkTimePaste } from '@/components/tournament/ta-bulk-time-paste';
+import type { BulkTimePasteRow } from '@/lib/ta/bulk-time-paste';
 import { getCourseCycleStatus } from '@/lib/ta/course-cycle-status';
 import { CardSkeleton } from '@/components/ui/loading-skeleton';
 import { Dice5 } from 'lucide-react';
@@ -55,6 +58,7 @@ import type { Player } from '@/lib/types';
 import { createLogger } from '@/lib/client-logger';
 import { useTournamentDebugMode } from '@/lib/hooks/use-tournament-debug-mode';
 import { useBroadcastReflect } from '@/lib/hooks/use-broadcast-reflect';
+import { useTournamentPermissions } from '@/lib/hooks/use-tournament-permissions';
 import { CourseCycleStatusPanel } from '@/components/tournament/course-cycle-status-panel';
 import { RoundCorrectionControls } from '@/components/tournament/round-correction-controls';
 import { TASuddenDeathSection, useTaSuddenDeath } from '@/components/tournament/ta-sudden-death-panel';
@@ -125,10 +129,12 @@ export default function TAEliminationPhase({
   const taTimeInputProps = useMemo(() => getTaTimeInputProps(tElim('timeInputTitle')), [tElim]);
 
   /**
-   * Admin role check: only admin users can start rounds, enter times,
-   * and submit results. Non-admin users see read-only standings and history.
+   * Only admins and the tournament's TA operators can start rounds, enter
+   * times and submit results; everyone else sees read-only standings and
+   * history. Debug fill stays admin-only.
    */
   const isAdmin = session?.user?.role === 'admin';
+  const canOperate = useTournamentPermissions(tournamentId)('ta');
 
   // === State Management ===
   const [entries, setEntries] = useState<TTEntry[]>([]);
@@ -268,16 +274,15 @@ export default function TAEliminationPhase({
     fetchData();
   }, [fetchData]);
 
-  // Auto-refresh every 3 seconds, but pause when user is editing to prevent
-  // resetting their input. This matches the guard used in finals/page.tsx.
-  useEffect(() => {
-    const interval = setInterval(() => {
-      if (!isEditing) {
-        fetchData();
-      }
-    }, 3000);
-    return () => clearInterval(interval);
-  }, [fetchData, isEditing]);
+  // Auto-refresh every 3 seconds and on TA change events, but pause when user
+  // is editing to prevent resetting their input. This matches the guard used
+  // in finals/page.tsx.
+  usePolling(fetchData, {
+    interval: POLLING_INTERVAL,
+    immediate: false,
+    enabled: !isEditing,
+    streamUrl: `/api/tournaments/${tournamentId}/events?scope=ta`,
+  });
 
   // === Event Handlers ===
 
@@ -470,6 +475,16 @@ export default function TAEliminationPhase({
     setRetryFlags(clearedRetry);
   };
 
+  /**
+   * Fill the time inputs from the bulk paste panel. Players the paste did not
+   * cover keep whatever was already typed; the usual submit preview follows.
+   */
+  const handleBulkPasteApply = useCallback((rows: BulkTimePasteRow[]) => {
+    setIsEditing(true);
+    setCourseTimes((prev) => ({ ...prev, ...Object.fromEntries(rows.map((row) => [row.playerId!, row.time!])) }));
+    setRetryFlags((prev) => ({ ...prev, ...Object.fromEntries(rows.map((row) => [row.playerId!, row.isRetry])) }));
+  }, []);
+
   /** Handle time input change for a specific player */
   const handleTvChange = useCallback(
     (playerId: string, value: number | null) => {
@@ -761,9 +776,9 @@ export default function TAEliminationPhase({
         </Card>
       )}
 
-      {/* Sudden-death panel (admin-only) */}
+      {/* Sudden-death panel (admin / TA operator only) */}
       <TASuddenDeathSection
-        isAdmin={Boolean(isAdmin)}
+        isAdmin={canOperate}
         isComplete={isComplete}
         pendingSuddenDeath={pendingSuddenDeath}
         pendingSuddenDeathEntries={pendingSuddenDeathEntries}
@@ -782,7 +797,7 @@ export default function TAEliminationPhase({
         onSubmit={handleSubmitSuddenDeath}
       />
 
-      {isAdmin &&
+      {canOperate &&
         !isComplete &&
         !pendingSuddenDeath &&
         (currentRound ? (
@@ -804,6 +819,14 @@ export default function TAEliminationPhase({
               )}
               <div className="space-y-3">
                 <p className={TA_TIME_INPUT_HELP_CLASS}>{tElim('timeInputHelp')}</p>
+                <TaBulkTimePaste
+                  candidates={activeEntries.map((entry) => ({
+                    playerId: entry.playerId,
+                    nickname: entry.player.nickname,
+                  }))}
+                  disabled={submitting}
+                  onApply={handleBulkPasteApply}
+                />
                 {activeEntries.map((entry) => (
                   <TaTimeEntryRow
                     key={entry.id}
@@ -996,7 +1019,7 @@ export default function TAEliminationPhase({
           FINAL round must still be fixable without resetting the whole phase
           (reported issue). Undoing restores the eliminated player, which makes
           the phase incomplete again and brings back the normal controls. */}
-      {isAdmin && isComplete && !pendingSuddenDeath && completedRoundsCount > 0 && !laterPhaseStarted && (
+      {canOperate && isComplete && !pendingSuddenDeath && completedRoundsCount > 0 && !laterPhaseStarted && (
         <Card className="border-amber-400">
           <CardHeader>
             <CardTitle>{tElim('correctFinalRoundTitle')}</CardTitle>
@@ -0,0 +1,148 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useTranslations } from 'next-intl';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import type { TaFinalsRules } from '@/lib/ta/finals-rules';
+
+type FormState = {
+  phase3End: string;
+  phase2End: string;
+  phase1End: string;
+  phase2Survivors: string;
+  phase1Survivors: string;
+  initialLives: string;
+  lifeLoss: string;
+  resets: string;
+};
+
+function toForm(rules: TaFinalsRules): FormState {
+  return {
+    phase3End: String(rules.phase3.qualRankEnd),
+    phase2End: String(rules.phase2.qualRankEnd),
+    phase1End: String(rules.phase1.qualRankEnd),
+    phase2Survivors: String(rules.phase2.survivorsNeeded),
+    phase1Survivors: String(rules.phase1.survivorsNeeded),
+    initialLives: String(rules.phase3.initialLives),
+    lifeLoss: String(rules.phase3.lifeLoss),
+    resets: rules.phase3.lifeResetThresholds.join(', '),
+  };
+}
+
+/* Bands are contiguous, so the form only asks for each phase's last rank; the server validates the rest. */
+function toRules(form: FormState): TaFinalsRules {
+  const phase3End = Number(form.phase3End);
+  const phase2End = Number(form.phase2End);
+  return {
+    phase3: {
+      qualRankStart: 1,
+      qualRankEnd: phase3End,
+      initialLives: Number(form.initialLives),
+      lifeLoss: Number(form.lifeLoss),
+      lifeResetThresholds: form.resets
+        .split(/[\s,/]+/)
+        .filter(Boolean)
+        .map(Number),
+    },
+    phase2: { qualRankStart: phase3End + 1, qualRankEnd: phase2End, survivorsNeeded: Number(form.phase2Survivors) },
+    phase1: {
+      qualRankStart: phase2End + 1,
+      qualRankEnd: Number(form.phase1End),
+      survivorsNeeded: Number(form.phase1Survivors),
+    },
+  };
+}
+
+/**
+ * Admin editor for the tournament's TA finals rule set (finals-rules.ts).
+ * Read-only once a finals phase has been promoted, matching the API lock.
+ */
+export function TaFinalsRulesEditor({
+  tournamentId,
+  rules,
+  locked,
+  onSaved,
+}: {
+  tournamentId: string;
+  rules: TaFinalsRules;
+  locked: boolean;
+  onSaved: (rules: TaFinalsRules) => void;
+}) {
+  const t = useTranslations('ta');
+  const [form, setForm] = useState<FormState>(() => toForm(rules));
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => setForm(toForm(rules)), [rules]);
+
+  const save = async (body: { rules: TaFinalsRules | null }) => {
+    setSaving(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/tournaments/${tournamentId}/ta/finals-rules`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      const payload = await response.json().catch(() => null);
+      if (!response.ok) {
+        setError(payload?.error || t('finalsRulesSaveFailed'));
+        return;
+      }
+      onSaved((payload?.data ?? payload).rules);
+    } catch {
+      setError(t('finalsRulesSaveFailed'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const field = (key: keyof FormState, label: string, inputMode: 'numeric' | 'text' = 'numeric') => (
+    <div className="space-y-1">
+      <Label htmlFor={`ta-finals-rules-${key}`}>{label}</Label>
+      <Input
+        id={`ta-finals-rules-${key}`}
+        inputMode={inputMode}
+        value={form[key]}
+        disabled={locked || saving}
+        onChange={(event) => setForm((current) => ({ ...current, [key]: event.target.value }))}
+      />
+    </div>
+  );
+
+  return (
+    <div className="space-y-3 rounded-md border p-3">
+      <div>
+        <h4 className="font-semibold">{t('finalsRules')}</h4>
+        <p className="text-sm text-muted-foreground">{locked ? t('finalsRulesLocked') : t('finalsRulesDesc')}</p>
+      </div>
+      <div className="grid grid-cols-2 gap-3 sm:grid-cols-4">
+        {field('phase3End', t('finalsRulesPhase3End'))}
+        {field('phase2End', t('finalsRulesPhase2End'))}
+        {field('phase1End', t('finalsRulesPhase1End'))}
+        {field('phase2Survivors', t('finalsRulesPhase2Survivors'))}
+        {field('phase1Survivors', t('finalsRulesPhase1Survivors'))}
+        {field('initialLives', t('finalsRulesInitialLives'))}
+        {field('lifeLoss', t('finalsRulesLifeLoss'))}
+        {field('resets', t('finalsRulesResets'), 'text')}
+      </div>
+      {error && (
+        <p role="alert" className="text-sm text-destructive">
+          {error}
+        </p>
+      )}
+      {!locked && (
+        <div className="flex flex-wrap gap-2">
+          <Button size="sm" disabled={saving} onClick={() => void save({ rules: toRules(form) })}>
+            {t('finalsRulesSave')}
+          </Button>
+          <Button size="sm" variant="outline" disabled={saving} onClick={() => void save({ rules: null })}>
+            {t('finalsRulesResetDefaults')}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,251 @@
+'use client';
+
+/**
+ * Explicit Team Editor (admin only)
+ *
+ * Lists a tournament's explicit teams and lets the admin create, edit and
+ * delete them. Candidate members are the players in the stored overall
+ * ranking, since only they can contribute team points. A player can be on
+ * one team per tournament; the API answers 409 otherwise.
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { useLocale, useTranslations } from 'next-intl';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { CountryFlag } from '@/components/ui/country-flag';
+import { CountrySelect } from '@/components/ui/country-select';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { createLogger } from '@/lib/client-logger';
+import { fetchWithRetry } from '@/lib/fetch-with-retry';
+
+const logger = createLogger({ serviceName: 'team-editor' });
+
+interface TeamPlayer {
+  id: string;
+  nickname: string;
+  country?: string | null;
+}
+
+interface StoredTeam {
+  id: string;
+  name: string;
+  country: string | null;
+  members: { player: TeamPlayer }[];
+}
+
+interface TeamForm {
+  /** Team being edited; null while creating a new team. */
+  id: string | null;
+  name: string;
+  country: string;
+  playerIds: string[];
+}
+
+const EMPTY_FORM: TeamForm = { id: null, name: '', country: '', playerIds: [] };
+
+export function TeamEditor({ tournamentId, onChanged }: { tournamentId: string; onChanged: () => void }) {
+  const t = useTranslations('teams');
+  const locale = useLocale();
+  const [teams, setTeams] = useState<StoredTeam[]>([]);
+  const [candidates, setCandidates] = useState<TeamPlayer[]>([]);
+  const [form, setForm] = useState<TeamForm>(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      const [teamsResponse, rankingResponse] = await Promise.all([
+        fetchWithRetry(`/api/tournaments/${tournamentId}/teams`),
+        fetchWithRetry(`/api/tournaments/${tournamentId}/overall-ranking`),
+      ]);
+      const teamsJson = await teamsResponse.json();
+      const rankingJson = await rankingResponse.json();
+      if (teamsJson.success) setTeams(teamsJson.data as StoredTeam[]);
+      if (rankingJson.success) {
+        setCandidates(
+          (
+            rankingJson.data.rankings as { playerId: string; playerNickname: string; playerCountry?: string | null }[]
+          ).map((ranking) => ({
+            id: ranking.playerId,
+            nickname: ranking.playerNickname,
+            country: ranking.playerCountry,
+          })),
+        );
+      }
+    } catch (err) {
+      logger.error('Failed to load teams', { error: err, tournamentId });
+      setError(t('failedToLoadTeams'));
+    }
+  }, [tournamentId, t]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  /* Players already on another team cannot be picked for this one. */
+  const takenBy = new Map<string, string>();
+  for (const team of teams) {
+    if (team.id === form.id) continue;
+    for (const member of team.members) takenBy.set(member.player.id, team.name);
+  }
+
+  const togglePlayer = (playerId: string, checked: boolean) =>
+    setForm((current) => ({
+      ...current,
+      playerIds: checked
+        ? [...current.playerIds, playerId]
+        : current.playerIds.filter((candidate) => candidate !== playerId),
+    }));
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      const url = form.id
+        ? `/api/tournaments/${tournamentId}/teams/${form.id}`
+        : `/api/tournaments/${tournamentId}/teams`;
+      const response = await fetch(url, {
+        method: form.id ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: form.name.trim(), country: form.country || null, playerIds: form.playerIds }),
+      });
+      const json = await response.json().catch(() => ({}));
+      if (!response.ok || !json.success) {
+        throw new Error(typeof json.error === 'string' ? json.error : t('failedToSaveTeam'));
+      }
+      setForm(EMPTY_FORM);
+      await load();
+      onChanged();
+    } catch (err) {
+      logger.error('Failed to save team', { error: err, tournamentId, teamId: form.id });
+      setError(err instanceof Error ? err.message : t('failedToSaveTeam'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (team: StoredTeam) => {
+    if (!confirm(t('deleteConfirm', { name: team.name }))) return;
+    setError(null);
+    try {
+      const response = await fetch(`/api/tournaments/${tournamentId}/teams/${team.id}`, { method: 'DELETE' });
+      if (!response.ok) throw new Error(t('failedToDeleteTeam'));
+      if (form.id === team.id) setForm(EMPTY_FORM);
+      await load();
+      onChanged();
+    } catch (err) {
+      logger.error('Failed to delete team', { error: err, tournamentId, teamId: team.id });
+      setError(t('failedToDeleteTeam'));
+    }
+  };
+
+  return (
+    <section className="border border-foreground/15 p-6 space-y-4">
+      <h2 className="text-base font-semibold">{t('explicitTeams')}</h2>
+
+      {error && <p className="text-destructive text-sm">{error}</p>}
+
+      {teams.length > 0 && (
+        <ul className="divide-y divide-foreground/10 border border-foreground/10">
+          {teams.map((team) => (
+            <li key={team.id} className="flex items-center justify-between gap-3 px-3 py-2">
+              <div className="min-w-0">
+                <span className="inline-flex items-center gap-1.5 font-medium">
+                  <CountryFlag country={team.country} locale={locale} />
+                  {team.name}
+                </span>
+                <p className="text-xs text-muted-foreground truncate">
+                  {team.members.map((member) => member.player.nickname).join(' / ') || t('noMembers')}
+                </p>
+              </div>
+              <div className="flex gap-2 shrink-0">
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() =>
+                    setForm({
+                      id: team.id,
+                      name: team.name,
+                      country: team.country ?? '',
+                      playerIds: team.members.map((member) => member.player.id),
+                    })
+                  }
+                >
+                  {t('edit')}
+                </Button>
+                <Button size="sm" variant="ghost" onClick={() => handleDelete(team)}>
+                  {t('delete')}
+                </Button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="space-y-3 border-t border-foreground/10 pt-4">
+        <h3 className="text-sm font-semibold">{form.id ? t('editTeam') : t('addTeam')}</h3>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="team-name">{t('teamName')}</Label>
+            <Input
+              id="team-name"
+              value={form.name}
+              maxLength={50}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="team-country">{t('country')}</Label>
+            <CountrySelect
+              id="team-country"
+              value={form.country}
+              locale={locale}
+              onChange={(country) => setForm({ ...form, country })}
+            />
+          </div>
+        </div>
+        <div className="space-y-2">
+          <Label>{t('players')}</Label>
+          {candidates.length === 0 ? (
+            <p className="text-xs text-muted-foreground">{t('noCandidates')}</p>
+          ) : (
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+              {candidates.map((player) => {
+                const otherTeam = takenBy.get(player.id);
+                return (
+                  <div key={player.id} className="flex items-center gap-2">
+                    <Checkbox
+                      id={`team-player-${player.id}`}
+                      checked={form.playerIds.includes(player.id)}
+                      disabled={otherTeam !== undefined}
+                      onCheckedChange={(checked) => togglePlayer(player.id, checked === true)}
+                    />
+                    <Label
+                      htmlFor={`team-player-${player.id}`}
+                      className={otherTeam ? 'text-muted-foreground' : undefined}
+                      title={otherTeam}
+                    >
+                      {player.nickname}
+                    </Label>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+        <div className="flex gap-2">
+          <Button onClick={handleSave} disabled={saving || !form.name.trim()}>
+            {saving ? t('saving') : t('saveTeam')}
+          </Button>
+          {form.id && (
+            <Button variant="outline" onClick={() => setForm(EMPTY_FORM)} disabled={saving}>
+              {t('cancel')}
+            </Button>
+          )}
+        </div>
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,139 @@
+'use client';
+
+/**
+ * Admin control for withdrawing a player mid-qualification (BM/MR/GP).
+ *
+ * Opens a dialog to pick an active player and the result policy, then calls
+ * POST /api/tournaments/:id/{mode}/withdraw. See qualification-withdrawal.ts
+ * for what 'void' and 'walkover' do to the player's matches.
+ */
+
+import { useState } from 'react';
+import { useTranslations } from 'next-intl';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import type { Player } from '@/lib/types';
+import type { WithdrawalPolicy } from '@/lib/qualification-withdrawal';
+
+const POLICIES: WithdrawalPolicy[] = ['walkover', 'void'];
+
+interface WithdrawPlayerControlProps {
+  tournamentId: string;
+  mode: 'bm' | 'mr' | 'gp';
+  qualifications: Array<{ playerId: string; player: Player; withdrawnAt?: string | null }>;
+  /** Qualification confirmed: withdrawal is locked like score edits. */
+  locked: boolean;
+  /** Called after a successful withdrawal so the parent can refetch. */
+  onWithdrawn?: () => void;
+}
+
+export function WithdrawPlayerControl({
+  tournamentId,
+  mode,
+  qualifications,
+  locked,
+  onWithdrawn,
+}: WithdrawPlayerControlProps) {
+  const t = useTranslations('withdrawal');
+  const [open, setOpen] = useState(false);
+  const [playerId, setPlayerId] = useState('');
+  const [policy, setPolicy] = useState<WithdrawalPolicy>('walkover');
+  const [saving, setSaving] = useState(false);
+
+  const activePlayers = qualifications.filter((q) => !q.withdrawnAt);
+
+  const handleOpenChange = (next: boolean) => {
+    setOpen(next);
+    if (next) {
+      setPlayerId('');
+      setPolicy('walkover');
+    }
+  };
+
+  async function handleWithdraw() {
+    setSaving(true);
+    try {
+      const res = await fetch(`/api/tournaments/${tournamentId}/${mode}/withdraw`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ playerId, policy }),
+      });
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        toast.error(json.error || t('failed'));
+        return;
+      }
+      toast.success(t('success'));
+      setOpen(false);
+      onWithdrawn?.();
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <>
+      <Button variant="outline" disabled={locked || activePlayers.length === 0} onClick={() => handleOpenChange(true)}>
+        {t('button')}
+      </Button>
+      <Dialog open={open} onOpenChange={handleOpenChange}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{t('title')}</DialogTitle>
+            <DialogDescription>{t('description')}</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-2">
+            <select
+              className="w-full border rounded px-2 py-1 text-sm bg-background"
+              value={playerId}
+              onChange={(e) => setPlayerId(e.target.value)}
+              aria-label={t('player')}
+            >
+              <option value="">{t('selectPlayer')}</option>
+              {activePlayers.map((q) => (
+                <option key={q.playerId} value={q.playerId}>
+                  {q.player.nickname || q.player.name}
+                </option>
+              ))}
+            </select>
+            <fieldset className="space-y-2">
+              <legend className="text-sm font-medium">{t('policy')}</legend>
+              {POLICIES.map((value) => (
+                <label key={value} className="flex items-start gap-2 text-sm">
+                  <input
+                    type="radio"
+                    name="withdrawal-policy"
+                    value={value}
+                    checked={policy === value}
+                    onChange={() => setPolicy(value)}
+                    className="mt-1"
+                  />
+                  <span>
+                    <span className="font-medium">{t(`policies.${value}.label`)}</span>
+                    <span className="block text-muted-foreground">{t(`policies.${value}.help`)}</span>
+                  </span>
+                </label>
+              ))}
+            </fieldset>
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => setOpen(false)} disabled={saving}>
+              {t('cancel')}
+            </Button>
+            <Button type="button" variant="destructive" onClick={handleWithdraw} disabled={saving || !playerId}>
+              {saving ? t('withdrawing') : t('confirm')}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
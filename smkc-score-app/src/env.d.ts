@@ -7,12 +7,16 @@
  * rather than adding it to tsconfig types[], which would globally override
  * DOM types (Response, Request, etc.) and break existing API route code.
  */
-import type { D1Database, R2Bucket } from '@cloudflare/workers-types';
+import type { D1Database, KVNamespace, R2Bucket } from '@cloudflare/workers-types';
 
 declare global {
   interface CloudflareEnv {
     DB: D1Database;
     ARCHIVE_BUCKET?: R2Bucket;
+    /** Cache namespace used when CACHE_BACKEND=kv (cache-backend.ts). */
+    CACHE_KV?: KVNamespace;
+    /** Counter namespace used when RATE_LIMIT_BACKEND=kv (rate-limit-store.ts). */
+    RATE_LIMIT_KV?: KVNamespace;
   }
 }
 
@@ -15,6 +15,8 @@ import type { User } from 'next-auth';
 import { auth } from '@/lib/auth';
 // handleAuthzError() === createErrorResponse('Forbidden', 403, 'FORBIDDEN') — same body/headers (#2510)
 import { handleAuthzError } from '@/lib/error-handling';
+import { resolveTournamentId } from '@/lib/tournament-identifier';
+import { hasTournamentPermission, type TournamentPermission } from '@/lib/tournament-staff';
 
 // session is never null on success: helpers return { error } on failure, { session } on success (#2511)
 export type AuthSessionResult = { error?: NextResponse; session?: { user: User } };
@@ -47,3 +49,25 @@ export async function requireAdminOrPlayerSession(): Promise<AuthSessionResult>
   if (session?.user?.userType === 'player') return { session: session as { user: User } };
   return { error: handleAuthzError() };
 }
+
+/**
+ * Requires an admin session or a player session whose tournament staff role
+ * carries `permission` in this tournament (tournament-staff.ts).
+ * `tournamentIdentifier` may be an id or a slug; it is only resolved for
+ * non-admin sessions, so the admin path costs no extra query.
+ * Returns { error: 403 } otherwise.
+ */
+export async function requireTournamentPermission(
+  tournamentIdentifier: string,
+  permission: TournamentPermission,
+): Promise<AuthSessionResult> {
+  const session = await auth();
+  if (!session?.user) return { error: handleAuthzError() };
+  if (session.user.role === 'admin') return { session: session as { user: User } };
+
+  const tournamentId = await resolveTournamentId(tournamentIdentifier);
+  if (!(await hasTournamentPermission(session, tournamentId, permission))) {
+    return { error: handleAuthzError() };
+  }
+  return { session: session as { user: User } };
+}
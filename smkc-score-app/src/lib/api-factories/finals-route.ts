@@ -20,7 +20,25 @@ import { Prisma } from '@prisma/client';
 import { PLAYER_PUBLIC_SELECT } from '@/lib/prisma-selects';
 import prisma from '@/lib/prisma';
 import { auth } from '@/lib/auth';
-import { generateBracketStructure, generatePlayoffStructure, roundNames } from '@/lib/double-elimination';
+import { requireTournamentPermission } from '@/lib/api-auth';
+import { hasTournamentPermission } from '@/lib/tournament-staff';
+import {
+  generateBracketStructure,
+  generatePlayoffStructure,
+  getFinalsBracketSizeForMatchCount,
+  inferFinalsBracketSize,
+  isFinalsBracketSize,
+  roundNames,
+} from '@/lib/double-elimination';
+import {
+  generateFinalsStructure,
+  getFinalsEntrantCount,
+  getFinalsFormatFromRound,
+  getRoundRobinFinalsStandings,
+  inferFinalsStructure,
+  isFinalsFormat,
+  isSupportedFinalsSize,
+} from '@/lib/finals-format';
 import { selectFinalsEntrantsByGroup } from '@/lib/finals-group-selection';
 import type { ScorePointsEntry } from '@/lib/ranking-utils';
 import { getGpFinalsMaxCups, getMrFinalsMaxRounds } from '@/lib/finals-target-wins';
@@ -37,9 +55,11 @@ import {
 import { checkRateLimit } from '@/lib/rate-limit';
 import { getClientIdentifier } from '@/lib/request-utils';
 import { resolveTournament, resolveTournamentId } from '@/lib/tournament-identifier';
-import { computeQualificationRanks } from '@/lib/server-ranking';
+import { computeQualificationRanks, qualificationTiebreakFor } from '@/lib/server-ranking';
 import { invalidateOverallRankingsCache } from '@/lib/points/overall-ranking';
+import { publishTournamentChange } from '@/lib/tournament-events';
 import { COURSES, CUPS, MAX_TV_NUMBER } from '@/lib/constants';
+import { getFinalsRoundPresets, type FinalsPresetStage, type FinalsRoundPreset } from '@/lib/tournament-template';
 import { getArchivedFinalsPayload, readTournamentArchive } from '@/lib/tournament-archive';
 import { executeD1Batch } from '@/lib/d1-batch';
 import { buildAuditLogData, createAuditLog, resolveAuditUserId, AUDIT_ACTIONS } from '@/lib/audit-log';
@@ -58,13 +78,6 @@ import {
   type FinalsSeedSnapshotEntry,
 } from '@/lib/finals-seed-snapshot';
 
-/**
- * Bracket size inference thresholds.
- * 8-player bracket = 17 matches, 16-player bracket = 31 matches.
- * Threshold of 20 distinguishes between the two (>20 means 16-player).
- */
-const BRACKET_SIZE_THRESHOLD = 20;
-
 /**
  * Pre-Bracket Playoff ("barrage") entrant count. Supports issue #454:
  * Top 24 qualifiers → Top 16 Upper Bracket, with 12 entrants from qualification
@@ -219,6 +232,7 @@ function createMrRoundAssignments(
   bracketStructure: Array<{ round: string }>,
   stage: 'playoff' | 'finals',
   targetWinsByRound?: Map<string, number | null | undefined>,
+  presets?: Map<string, FinalsRoundPreset>,
 ): Map<string, string[]> {
   const shuffledCourses = fisherYatesShuffle(COURSES);
   const assignments = new Map<string, string[]>();
@@ -226,6 +240,12 @@ function createMrRoundAssignments(
 
   for (const round of getOrderedRounds(bracketStructure)) {
     const roundsNeeded = getMrFinalsMaxRounds({ round, stage, targetWins: targetWinsByRound?.get(round) });
+    // A template preset only applies when it still fits the round's FT.
+    const preset = presets?.get(round)?.assignedCourses;
+    if (preset && preset.length === roundsNeeded) {
+      assignments.set(round, [...preset]);
+      continue;
+    }
     const assignedCourses = Array.from(
       { length: roundsNeeded },
       (_, index) => shuffledCourses[(cursor + index) % shuffledCourses.length],
@@ -258,11 +278,18 @@ function createGpCupSequence(maxCups: number, preferredFirstCup?: string | null)
 function createGpRoundAssignments(
   bracketStructure: Array<{ matchNumber: number; round: string }>,
   stage: 'playoff' | 'finals',
+  presets?: Map<string, FinalsRoundPreset>,
 ): Map<string, string[]> {
   const assignments = new Map<string, string[]>();
   for (const round of getOrderedRounds(bracketStructure)) {
-    const maxCups = getGpFinalsMaxCups({ round, stage });
-    assignments.set(round, createGpCupSequence(maxCups));
+    const preset = presets?.get(round);
+    const maxCups = getGpFinalsMaxCups({ round, stage, targetWins: preset?.targetWins });
+    assignments.set(
+      round,
+      preset?.assignedCups && isValidGpCupSequence(preset.assignedCups, maxCups)
+        ? [...preset.assignedCups]
+        : createGpCupSequence(maxCups),
+    );
   }
   return assignments;
 }
@@ -272,12 +299,56 @@ function createGpRoundAssignments(
  * bracket. All matches in the same round share the same starting course,
  * satisfying issue #671: "そのラウンドで使用される開始コースはどの試合も同じにしたい".
  */
-function createBmRoundStartingCourses(bracketStructure: Array<{ round: string }>): Map<string, number> {
+function createBmRoundStartingCourses(
+  bracketStructure: Array<{ round: string }>,
+  presets?: Map<string, FinalsRoundPreset>,
+): Map<string, number> {
   const rounds = getOrderedRounds(bracketStructure);
   // Fisher-Yates over [1,2,3,4] then repeat cyclically across rounds so each
   // starting course appears roughly equally across the bracket.
   const base = fisherYatesShuffle([1, 2, 3, 4]);
-  return new Map(rounds.map((round, index) => [round, base[index % 4]]));
+  return new Map(rounds.map((round, index) => [round, presets?.get(round)?.startingCourseNumber ?? base[index % 4]]));
+}
+
+/**
+ * Finals presets copied from a tournament template (Tournament.setupPresets),
+ * keyed by round. Brackets of tournaments without a template get an empty map
+ * and keep the random assignment and default FT values.
+ */
+async function loadFinalsRoundPresets(
+  tournamentId: string,
+  mode: 'bm' | 'mr' | 'gp',
+  stage: FinalsPresetStage,
+): Promise<Map<string, FinalsRoundPreset>> {
+  const tournament = await prisma.tournament.findUnique({
+    where: { id: tournamentId },
+    select: { setupPresets: true },
+  });
+  return getFinalsRoundPresets(tournament?.setupPresets, mode, stage);
+}
+
+function getPresetTargetWinsByRound(presets: Map<string, FinalsRoundPreset>): Map<string, number | undefined> {
+  return new Map([...presets].map(([round, preset]) => [round, preset.targetWins]));
+}
+
+/**
+ * Record preset FT values as FinalsRoundSetting rows, exactly as if the admin
+ * had changed each round's FT after the bracket was created.
+ */
+async function persistPresetRoundSettings(
+  tournamentId: string,
+  mode: 'bm' | 'mr' | 'gp',
+  stage: FinalsPresetStage,
+  bracketStructure: Array<{ round: string }>,
+  presets: Map<string, FinalsRoundPreset>,
+): Promise<void> {
+  const data = getOrderedRounds(bracketStructure).flatMap((round) => {
+    const targetWins = presets.get(round)?.targetWins;
+    return targetWins === undefined ? [] : [{ tournamentId, mode, stage, round, targetWins }];
+  });
+  if (data.length > 0) {
+    await prisma.finalsRoundSetting.createMany({ data });
+  }
 }
 
 /**
@@ -1992,9 +2063,17 @@ export function createFinalsHandlers(config: FinalsConfig) {
           },
         })
       : [];
+    /* Swiss tournaments separate ties by Buchholz, which only matters when ties exist. */
+    const tournament = needsH2h
+      ? await prisma.tournament.findUnique({
+          where: { id: tournamentId },
+          select: { qualificationScheduleMethod: true },
+        })
+      : null;
 
     return computeQualificationRanks(qualifications, config.qualificationOrderBy, matches, {
       matchScoreFields: scoreFields,
+      tiebreak: qualificationTiebreakFor(tournament?.qualificationScheduleMethod),
     });
   }
 
@@ -2447,17 +2526,15 @@ export function createFinalsHandlers(config: FinalsConfig) {
           },
         );
 
-        /* Infer bracket size from total match count:
-         * 8-player bracket = 17 matches, 16-player bracket = 31 matches.
-         * Use count > 20 as threshold to distinguish.
-         * Use result.meta.total from paginate() to avoid an extra count query. */
-        const bracketSize = (result.meta.total ?? 0) > BRACKET_SIZE_THRESHOLD ? 16 : top24FinalsPreview ? 16 : 8;
+        /* Infer format from any round name and bracket size from total match
+         * count. Use result.meta.total from paginate() to avoid an extra count query. */
+        const firstRound = (result.data[0] as { round?: string | null } | undefined)?.round;
+        const finalsFormat = getFinalsFormatFromRound(firstRound);
+        const bracketSize = top24FinalsPreview ? 16 : inferFinalsBracketSize(result.meta.total ?? 0);
 
         const bracketStructure =
           result.data.length > 0
-            ? bracketSize === 16
-              ? generateBracketStructure(bracketSize, top24GroupCount)
-              : generateBracketStructure(bracketSize)
+            ? inferFinalsStructure(firstRound, result.meta.total ?? 0, bracketSize === 16 ? top24GroupCount : undefined)
             : (top24FinalsPreview?.bracketStructure ?? []);
         /* Pagination must not change routing status: an upstream completed
          * match can be on a different page from the receiving slot. */
@@ -2474,7 +2551,7 @@ export function createFinalsHandlers(config: FinalsConfig) {
           (storedSeededPlayers.length > 0
             ? storedSeededPlayers
             : result.data.length > 0
-              ? await buildStandardSeededPlayers(tournamentId, bracketSize, logger)
+              ? await buildStandardSeededPlayers(tournamentId, getFinalsEntrantCount(bracketStructure), logger)
               : []);
         const upperReconciliation =
           result.data.length > 0
@@ -2494,6 +2571,7 @@ export function createFinalsHandlers(config: FinalsConfig) {
           ),
           bracketStructure,
           bracketSize,
+          finalsFormat,
           roundNames,
           qualificationConfirmed: ((tournament as Record<string, unknown>)[modeField] as boolean) ?? false,
           phase,
@@ -2513,20 +2591,19 @@ export function createFinalsHandlers(config: FinalsConfig) {
         orderBy: { matchNumber: 'asc' },
       });
 
-      const bracketSize = matches.length > BRACKET_SIZE_THRESHOLD ? 16 : top24FinalsPreview ? 16 : 8;
+      const finalsFormat = getFinalsFormatFromRound(matches[0]?.round);
+      const bracketSize = top24FinalsPreview ? 16 : inferFinalsBracketSize(matches.length);
 
       const bracketStructure =
         matches.length > 0
-          ? bracketSize === 16
-            ? generateBracketStructure(bracketSize, top24GroupCount)
-            : generateBracketStructure(bracketSize)
+          ? inferFinalsStructure(matches[0].round, matches.length, bracketSize === 16 ? top24GroupCount : undefined)
           : (top24FinalsPreview?.bracketStructure ?? []);
       const seededPlayers =
         top24FinalsPreview?.seededPlayers ??
         (storedSeededPlayers.length > 0
           ? storedSeededPlayers
           : matches.length > 0
-            ? await buildStandardSeededPlayers(tournamentId, bracketSize, logger)
+            ? await buildStandardSeededPlayers(tournamentId, getFinalsEntrantCount(bracketStructure), logger)
             : []);
       const serializedMatches = serializeFinalsSlots(matches as unknown as SlotStatusMatch[], bracketStructure);
       const upperReconciliation = buildUpperReconciliationPreview(
@@ -2548,6 +2625,7 @@ export function createFinalsHandlers(config: FinalsConfig) {
           playoffMatches: serializedPlayoffMatches,
           bracketStructure,
           bracketSize,
+          finalsFormat,
           roundNames,
           qualificationConfirmed: ((tournament as Record<string, unknown>)[modeField] as boolean) ?? false,
           playoffStructure,
@@ -2564,6 +2642,7 @@ export function createFinalsHandlers(config: FinalsConfig) {
         matches: serializedMatches,
         bracketStructure,
         bracketSize,
+        finalsFormat,
         roundNames,
         qualificationConfirmed: ((tournament as Record<string, unknown>)[modeField] as boolean) ?? false,
         phase,
@@ -2585,8 +2664,9 @@ export function createFinalsHandlers(config: FinalsConfig) {
   }
 
   /**
-   * POST handler: Create a double-elimination finals bracket from qualification standings.
-   * Takes the top N players (default 8) and seeds them into the bracket.
+   * POST handler: Create the finals stage from qualification standings.
+   * Takes the top N players (default 8) and seeds them into a double-elimination
+   * bracket, or into the single-elimination / round-robin format in `format`.
    */
   async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
     const logger = createLogger(config.loggerName);
@@ -2612,7 +2692,7 @@ export function createFinalsHandlers(config: FinalsConfig) {
     try {
       /* Defense-in-depth: always sanitize user input */
       const body = sanitizeInput(await request.json());
-      const { topN = 8, reset = false } = body;
+      const { topN = 8, reset = false, playoff = true, format = 'double_elimination', thirdPlace = false } = body;
 
       /* Hard reset: delete both playoff and finals rows so the admin can
        * start over from qualification. Triggered by a dedicated reset button
@@ -2654,21 +2734,31 @@ export function createFinalsHandlers(config: FinalsConfig) {
         );
       }
 
-      /* Supported bracket sizes:
-       *   8  → 8-player double elimination
-       *  16  → 16-player double elimination (§4.2)
-       *  24  → 16-player Upper Bracket + 12-player Pre-Bracket Playoff (§4.2, issue #454).
-       *        Two-phase: first POST call creates the playoff stage; a second
-       *        call (once all playoff_r2 matches are complete) builds the
-       *        Upper Bracket with the 4 playoff winners filling barrage slots. */
-      if (topN !== 8 && topN !== 16 && topN !== 24) {
-        return handleValidationError(
-          'Only 8-player, 16-player, or 24-player (Top-16 + playoff) brackets are supported',
-          'topN',
-        );
+      /* Supported bracket sizes (FINALS_BRACKET_SIZES):
+       *   4 / 8 / 16 / 32 → full double elimination (16 per §4.2)
+       *   12              → double elimination on the 16 bracket; seeds 1-4 get a Round-1 bye
+       *   24              → 16-player Upper Bracket + 12-player Pre-Bracket Playoff (§4.2, issue #454).
+       *                     Two-phase: first POST call creates the playoff stage; a second
+       *                     call (once all playoff_r2 matches are complete) builds the
+       *                     Upper Bracket with the 4 playoff winners filling barrage slots.
+       *                     With `playoff: false`, a direct double elimination on the
+       *                     32 bracket where seeds 1-8 get a Round-1 bye instead. */
+      if (!isFinalsFormat(format)) {
+        return handleValidationError('format must be double_elimination, single_elimination or round_robin', 'format');
+      }
+      /* Side-event formats (finals-format.ts): single elimination on 4/8/16/32
+       * with an optional third-place match, or a 3-8 player round-robin pool. */
+      if (format === 'single_elimination' && !isSupportedFinalsSize(format, topN)) {
+        return handleValidationError('Single elimination supports 4, 8, 16 or 32 players', 'topN');
+      }
+      if (format === 'round_robin' && !isSupportedFinalsSize(format, topN)) {
+        return handleValidationError('Round-robin finals support 3 to 8 players', 'topN');
+      }
+      if (format === 'double_elimination' && !isFinalsBracketSize(topN)) {
+        return handleValidationError('Only 4, 8, 12, 16, 24 or 32-player brackets are supported', 'topN');
       }
 
-      if (topN === 24) {
+      if (format === 'double_elimination' && topN === 24 && playoff !== false) {
         return handleTop24Post(model, qualModel, tournamentId, config);
       }
 
@@ -2690,7 +2780,7 @@ export function createFinalsHandlers(config: FinalsConfig) {
         );
       }
 
-      const bracketStructure = generateBracketStructure(topN);
+      const bracketStructure = generateFinalsStructure(format, topN, { thirdPlace: thirdPlace === true });
 
       /* Delete existing finals matches first to avoid unique-constraint violations
        * when recreating a bracket (e.g., "reset" scenario in TC-504).
@@ -2724,14 +2814,15 @@ export function createFinalsHandlers(config: FinalsConfig) {
        * inserted rows, so we re-fetch with includes after insertion to
        * preserve the existing response shape (player1/player2 relations).
        */
+      const roundPresets = await loadFinalsRoundPresets(tournamentId, config.eventTypeCode, 'finals');
       const mrAssignments = config.assignMrCoursesByRound
-        ? createMrRoundAssignments(bracketStructure, 'finals')
+        ? createMrRoundAssignments(bracketStructure, 'finals', getPresetTargetWinsByRound(roundPresets), roundPresets)
         : undefined;
       const gpAssignments = config.assignGpCupByRound
-        ? createGpRoundAssignments(bracketStructure, 'finals')
+        ? createGpRoundAssignments(bracketStructure, 'finals', roundPresets)
         : undefined;
       const bmStartingCourses = config.assignBmStartingCourseByRound
-        ? createBmRoundStartingCourses(bracketStructure)
+        ? createBmRoundStartingCourses(bracketStructure, roundPresets)
         : undefined;
 
       const matchPlans = bracketStructure.map((bracketMatch) => {
@@ -2753,13 +2844,18 @@ export function createFinalsHandlers(config: FinalsConfig) {
             player1Id: player1?.playerId ?? null,
             player2Id: player2?.playerId ?? null,
             completed: false,
-            targetWins: getMatchTargetWins({ stage: 'finals', round: bracketMatch.round }),
+            targetWins: getMatchTargetWins({
+              stage: 'finals',
+              round: bracketMatch.round,
+              targetWins: roundPresets.get(bracketMatch.round)?.targetWins,
+            }),
             ...getRoundAssignmentData(bracketMatch.round, mrAssignments, gpAssignments, bmStartingCourses),
           },
         };
       });
 
       await model(prisma).createMany({ data: matchPlans.map((p) => p.data) });
+      await persistPresetRoundSettings(tournamentId, config.eventTypeCode, 'finals', bracketStructure, roundPresets);
 
       const insertedMatches = await model(prisma).findMany({
         where: { tournamentId, stage: 'finals' },
@@ -2934,14 +3030,20 @@ export function createFinalsHandlers(config: FinalsConfig) {
           });
         }
         const playoffStructure = generatePlayoffStructure(PLAYOFF_ENTRANT_COUNT, selection.groupCount);
+        const playoffPresets = await loadFinalsRoundPresets(tournamentId, config.eventTypeCode, 'playoff');
         const playoffMrAssignments = config.assignMrCoursesByRound
-          ? createMrRoundAssignments(playoffStructure, 'playoff')
+          ? createMrRoundAssignments(
+              playoffStructure,
+              'playoff',
+              getPresetTargetWinsByRound(playoffPresets),
+              playoffPresets,
+            )
           : undefined;
         const playoffGpAssignments = config.assignGpCupByRound
-          ? createGpRoundAssignments(playoffStructure, 'playoff')
+          ? createGpRoundAssignments(playoffStructure, 'playoff', playoffPresets)
           : undefined;
         const playoffBmStartingCourses = config.assignBmStartingCourseByRound
-          ? createBmRoundStartingCourses(playoffStructure)
+          ? createBmRoundStartingCourses(playoffStructure, playoffPresets)
           : undefined;
 
         /* selection.barrageSeeds carries displayed slots 13-24 in the active
@@ -2990,7 +3092,11 @@ export function createFinalsHandlers(config: FinalsConfig) {
               player1Id: player1?.playerId ?? null,
               player2Id: player2?.playerId ?? null,
               completed: false,
-              targetWins: getMatchTargetWins({ stage: 'playoff', round: bracketMatch.round }),
+              targetWins: getMatchTargetWins({
+                stage: 'playoff',
+                round: bracketMatch.round,
+                targetWins: playoffPresets.get(bracketMatch.round)?.targetWins,
+              }),
               ...getRoundAssignmentData(
                 bracketMatch.round,
                 playoffMrAssignments,
@@ -3002,6 +3108,13 @@ export function createFinalsHandlers(config: FinalsConfig) {
         });
 
         await matchModel(prisma).createMany({ data: playoffMatchPlans.map((p) => p.data) });
+        await persistPresetRoundSettings(
+          tournamentId,
+          config.eventTypeCode,
+          'playoff',
+          playoffStructure,
+          playoffPresets,
+        );
 
         const insertedPlayoffMatches = await matchModel(prisma).findMany({
           where: { tournamentId, stage: 'playoff' },
@@ -3111,14 +3224,15 @@ export function createFinalsHandlers(config: FinalsConfig) {
       const seededPlayers = [...directPlayers, ...playoffWinnerSeeds];
 
       const bracketStructure = generateBracketStructure(16, selection.groupCount);
+      const finalsPresets = await loadFinalsRoundPresets(tournamentId, config.eventTypeCode, 'finals');
       const finalsMrAssignments = config.assignMrCoursesByRound
-        ? createMrRoundAssignments(bracketStructure, 'finals')
+        ? createMrRoundAssignments(bracketStructure, 'finals', getPresetTargetWinsByRound(finalsPresets), finalsPresets)
         : undefined;
       const finalsGpAssignments = config.assignGpCupByRound
-        ? createGpRoundAssignments(bracketStructure, 'finals')
+        ? createGpRoundAssignments(bracketStructure, 'finals', finalsPresets)
         : undefined;
       const finalsBmStartingCourses = config.assignBmStartingCourseByRound
-        ? createBmRoundStartingCourses(bracketStructure)
+        ? createBmRoundStartingCourses(bracketStructure, finalsPresets)
         : undefined;
 
       /* Clean slate on any previous finals for reset scenarios.
@@ -3157,7 +3271,11 @@ export function createFinalsHandlers(config: FinalsConfig) {
             player1Id: player1?.playerId ?? null,
             player2Id: player2?.playerId ?? null,
             completed: false,
-            targetWins: getMatchTargetWins({ stage: 'finals', round: bracketMatch.round }),
+            targetWins: getMatchTargetWins({
+              stage: 'finals',
+              round: bracketMatch.round,
+              targetWins: finalsPresets.get(bracketMatch.round)?.targetWins,
+            }),
             ...getRoundAssignmentData(
               bracketMatch.round,
               finalsMrAssignments,
@@ -3169,6 +3287,7 @@ export function createFinalsHandlers(config: FinalsConfig) {
       });
 
       await matchModel(prisma).createMany({ data: finalsMatchPlans.map((p) => p.data) });
+      await persistPresetRoundSettings(tournamentId, config.eventTypeCode, 'finals', bracketStructure, finalsPresets);
 
       const insertedFinalsMatches = await matchModel(prisma).findMany({
         where: { tournamentId, stage: 'finals' },
@@ -3216,14 +3335,13 @@ export function createFinalsHandlers(config: FinalsConfig) {
   async function PUT(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
     const logger = createLogger(config.loggerName);
     let authenticatedSession: Awaited<ReturnType<typeof auth>> | null = null;
+    const { id } = await params;
 
-    /* Auth check for PUT endpoint */
+    /* Auth check for PUT endpoint: admins, or tournament staff with score entry rights */
     if (config.putRequiresAuth) {
-      const session = await auth();
-      if (!session?.user || session.user.role !== 'admin') {
-        return handleAuthzError();
-      }
-      authenticatedSession = session;
+      const { error: authError, session } = await requireTournamentPermission(id, 'scores');
+      if (authError) return authError;
+      authenticatedSession = session!;
     }
 
     /* Rate limit: prevent abuse on finals score update */
@@ -3233,7 +3351,6 @@ export function createFinalsHandlers(config: FinalsConfig) {
       return handleRateLimitError(putRateResult.retryAfter);
     }
 
-    const { id } = await params;
     const tournamentId = await resolveTournamentId(id);
 
     try {
@@ -3277,6 +3394,10 @@ export function createFinalsHandlers(config: FinalsConfig) {
       let matchCompleted = true;
       let resolvedUpdateData: Record<string, unknown> = {};
       const isAdminOverride = body.override === true;
+      /* Corrections rewrite completed results: score-entry staff may not send them */
+      if (isAdminOverride && authenticatedSession && authenticatedSession.user?.role !== 'admin') {
+        return handleAuthzError();
+      }
       /* Existing automation and integrations can continue normal first-to
        * submissions without a version. The admin UI always supplies one for
        * newly snapshotted matches, and corrected results require it. */
@@ -3442,8 +3563,7 @@ export function createFinalsHandlers(config: FinalsConfig) {
           }
         } else {
           const totalFinalsMatches = await model(prisma).count({ where: { tournamentId, stage: 'finals' } });
-          const bracketSize = totalFinalsMatches > BRACKET_SIZE_THRESHOLD ? 16 : 8;
-          const currentBracket = generateBracketStructure(bracketSize).find(
+          const currentBracket = inferFinalsStructure(match.round, totalFinalsMatches).find(
             (entry) => entry.matchNumber === Number(match.matchNumber),
           );
           if (currentBracket?.winnerGoesTo) {
@@ -3729,38 +3849,28 @@ export function createFinalsHandlers(config: FinalsConfig) {
         });
       }
 
-      /* Infer bracket size from total finals match count:
-       * 8-player bracket = 17 matches, 16-player bracket = 31 matches.
-       * Threshold of 20 distinguishes between the two (>20 means 16-player).
-       * This ensures correct bracket routing for both sizes in PUT handler. */
+      /* Infer bracket size from total finals match count so the PUT handler
+       * routes with the same structure the bracket was created from. */
       const totalFinalsMatches = await model(prisma).count({
         where: { tournamentId, stage: 'finals' },
       });
-      const bracketSize = totalFinalsMatches > BRACKET_SIZE_THRESHOLD ? 16 : 8;
-
-      /* Warn when match count is in the ambiguous zone (17-20) where playoff
-       * stage may have added extra matches that make inference unreliable.
-       * This helps admins identify bracket routing anomalies. */
-      const EIGHT_PLAYER_EXPECTED = 17;
-      const SIXTEEN_PLAYER_EXPECTED = 31;
-      const isAmbiguousCount =
-        totalFinalsMatches > EIGHT_PLAYER_EXPECTED && totalFinalsMatches <= BRACKET_SIZE_THRESHOLD;
-      const isUnexpectedCount =
-        totalFinalsMatches !== EIGHT_PLAYER_EXPECTED && totalFinalsMatches !== SIXTEEN_PLAYER_EXPECTED;
-      if (isAmbiguousCount || isUnexpectedCount) {
+      const finalsFormat = getFinalsFormatFromRound(match.round);
+      const bracketSize = inferFinalsBracketSize(totalFinalsMatches);
+
+      /* Warn when the count fits no supported structure: the legacy threshold
+       * fallback may then route with the wrong bracket. This helps admins
+       * identify bracket routing anomalies. */
+      if (finalsFormat === 'double_elimination' && getFinalsBracketSizeForMatchCount(totalFinalsMatches) === null) {
         logger.warn('Bracket size inference may be unreliable', {
           tournamentId,
           totalFinalsMatches,
           inferredBracketSize: bracketSize,
-          expectedFor8Player: EIGHT_PLAYER_EXPECTED,
-          expectedFor16Player: SIXTEEN_PLAYER_EXPECTED,
-          isAmbiguous: isAmbiguousCount,
-          isUnexpected: isUnexpectedCount,
         });
       }
 
-      /* Bracket progression: advance winner and loser to next matches */
-      const bracketStructure = generateBracketStructure(bracketSize);
+      /* Bracket progression: advance winner and loser to next matches.
+       * Round-robin structures carry no routing, so only completion applies. */
+      const bracketStructure = inferFinalsStructure(match.round, totalFinalsMatches);
       const matchNumber = Number(match.matchNumber ?? updatedMatch.matchNumber);
       const currentBracketMatch = bracketStructure.find((b) => b.matchNumber === matchNumber);
 
@@ -3947,9 +4057,38 @@ export function createFinalsHandlers(config: FinalsConfig) {
           isComplete = true;
           champion = winnerId;
         }
-      } else if (currentBracketMatch.round === 'grand_final_reset') {
+      } else if (currentBracketMatch.round === 'grand_final_reset' || currentBracketMatch.round === 'single_final') {
         isComplete = true;
         champion = winnerId;
+      } else if (finalsFormat === 'round_robin') {
+        /* A round-robin pool is decided by its standings once every match is in;
+         * ties fall back to the qualification seed order. */
+        const poolMatches = await model(prisma).findMany({
+          where: { tournamentId, stage: 'finals' },
+          include: { player1: { select: PLAYER_PUBLIC_SELECT }, player2: { select: PLAYER_PUBLIC_SELECT } },
+        });
+        if (poolMatches.length > 0 && poolMatches.every((poolMatch: { completed: boolean }) => poolMatch.completed)) {
+          const seedResolution = await resolveFinalsSeedSnapshot(tournamentId, config.eventTypeCode);
+          const standings = getRoundRobinFinalsStandings(
+            poolMatches.flatMap((poolMatch: Record<string, unknown>) => {
+              const winner = getCompletedMatchWinner(poolMatch);
+              return winner
+                ? [
+                    {
+                      player1Id: poolMatch.player1Id as string,
+                      player2Id: poolMatch.player2Id as string,
+                      winnerId: winner.winnerId,
+                      score1: Number(poolMatch[config.putScoreFields.dbField1]),
+                      score2: Number(poolMatch[config.putScoreFields.dbField2]),
+                    },
+                  ]
+                : [];
+            }),
+            seedResolution.snapshot.map((entry) => entry.playerId),
+          );
+          isComplete = true;
+          champion = standings[0]?.playerId ?? null;
+        }
       }
 
       return createSuccessResponse({
@@ -4022,18 +4161,15 @@ export function createFinalsHandlers(config: FinalsConfig) {
     }
 
     /* Bracket structure for the TBD guard: finals infers bracket size the
-     * same way PUT does (17 vs 31 total finals matches); playoff always
+     * same way PUT does (from the total finals match count); playoff always
      * uses the fixed 12-entrant structure (matches PUT's playoff branch).
      * Both branches must pass the same top24GroupCount the GET response used
      * to render the bracket, or the TBD guard here can disagree with what
      * the admin sees as "confirmed" on screen (playoff support, issue #3017). */
     const stage: 'finals' | 'playoff' = existing.stage;
-    const finalsBracketSize =
-      stage === 'finals'
-        ? (await model(prisma).count({ where: { tournamentId, stage: 'finals' } })) > BRACKET_SIZE_THRESHOLD
-          ? 16
-          : 8
-        : null;
+    const finalsMatchCount =
+      stage === 'finals' ? await model(prisma).count({ where: { tournamentId, stage: 'finals' } }) : 0;
+    const finalsBracketSize = stage === 'finals' ? inferFinalsBracketSize(finalsMatchCount) : null;
     /* Only detect the Top24 group count when it can actually change the
      * seed→slot map: every playoff-stage match came from the Top24 flow,
      * and generateBracketStructure() only branches on groupCount for the
@@ -4045,7 +4181,7 @@ export function createFinalsHandlers(config: FinalsConfig) {
     const bracketStructure =
       stage === 'playoff'
         ? generatePlayoffStructure(PLAYOFF_ENTRANT_COUNT, top24GroupCount)
-        : generateBracketStructure(finalsBracketSize as 8 | 16, top24GroupCount);
+        : inferFinalsStructure(existing.round, finalsMatchCount, top24GroupCount);
 
     const stageMatches: SlotEditMatch[] = await model(prisma).findMany({
       where: { tournamentId, stage },
@@ -4365,12 +4501,17 @@ export function createFinalsHandlers(config: FinalsConfig) {
    * Score updates and winner advancement remain on PUT — splitting the
    * concern keeps PUT's much heavier validation/advancement out of the path
    * for this lightweight admin tweak.
+   *
+   * Tournament staff with the `tv` permission may assign TVs; the other
+   * PATCH operations (slot edits, round settings, cups) are admin-only.
    */
   async function PATCH(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
     const logger = createLogger(config.loggerName);
 
+    /* Admins may use every operation; tournament staff only TV assignment,
+       which is checked once the body shows which operation this is. */
     const session = await auth();
-    if (!session?.user || session.user.role !== 'admin') {
+    if (!session?.user) {
       return handleAuthzError();
     }
 
@@ -4396,6 +4537,21 @@ export function createFinalsHandlers(config: FinalsConfig) {
         upperReconciliation,
       } = body;
 
+      const isTvAssignment = [
+        startingCourseNumber,
+        slotEdit,
+        roundSettings,
+        roundCourses,
+        cupAssignment,
+        upperReconciliation,
+      ].every((field) => field === undefined || field === null);
+      if (
+        session.user.role !== 'admin' &&
+        !(isTvAssignment && (await hasTournamentPermission(session, tournamentId, 'tv')))
+      ) {
+        return handleAuthzError();
+      }
+
       /* #3040: Recalculate only the Upper opening slots fed by completed
        * barrage R2 winners. The browser supplies versions, never player IDs or
        * slot coordinates; server structures remain the single source of truth. */
@@ -5178,6 +5334,8 @@ export function createFinalsHandlers(config: FinalsConfig) {
    * themselves have many success branches (8+ across POST/PUT/PATCH), so
    * wrapping them centrally avoids the maintenance hazard of remembering
    * to call `invalidateOverallRankingsCache(...)` at every return statement.
+   * The same hook publishes a change notification so open bracket views
+   * refetch without waiting for their next poll.
    *
    * The wrapper deliberately swallows errors from `resolveTournamentId`:
    * if the lookup fails on a 2xx response (vanishingly unlikely — the
@@ -5193,7 +5351,8 @@ export function createFinalsHandlers(config: FinalsConfig) {
         try {
           const { id } = await ctx.params;
           const tournamentId = await resolveTournamentId(id);
-          invalidateOverallRankingsCache(tournamentId);
+          await invalidateOverallRankingsCache(tournamentId);
+          await publishTournamentChange(tournamentId, config.eventTypeCode);
         } catch {
           /* best effort — cache bust failure must not break the response */
         }
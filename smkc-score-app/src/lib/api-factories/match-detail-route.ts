@@ -13,6 +13,7 @@ import { NextRequest } from 'next/server';
 import { PLAYER_PUBLIC_SELECT } from '@/lib/prisma-selects';
 import prisma from '@/lib/prisma';
 import { auth } from '@/lib/auth';
+import { requireTournamentPermission } from '@/lib/api-auth';
 import { OptimisticLockError } from '@/lib/optimistic-locking';
 import { sanitizeInput } from '@/lib/sanitize';
 import {
@@ -21,7 +22,6 @@ import {
   handleValidationError,
   handleDatabaseError,
   handleRateLimitError,
-  handleAuthzError,
 } from '@/lib/error-handling';
 import { createLogger } from '@/lib/logger';
 import { checkRateLimit } from '@/lib/rate-limit';
@@ -30,6 +30,7 @@ import { checkQualificationConfirmed } from '@/lib/qualification-confirmed-check
 import { resolveTournamentId } from '@/lib/tournament-identifier';
 import { invalidate as invalidateStandingsCache } from '@/lib/standings-cache';
 import { invalidateOverallRankingsCache } from '@/lib/points/overall-ranking';
+import { publishTournamentChange } from '@/lib/tournament-events';
 import { retryDbRead } from '@/lib/db-read-retry';
 import { recalculatePlayersStats, type RecalculateStatsConfig } from './score-report-helpers';
 import { resolveFinalsSeedSnapshot } from '@/lib/finals-seed-snapshot';
@@ -179,18 +180,19 @@ export function createMatchDetailHandlers(config: MatchDetailConfig) {
    * PUT handler: Update match score with optimistic locking.
    * Requires version number for conflict detection.
    *
-   * Authentication: admin only. Players should use the score report endpoint
-   * to submit their own match results.
+   * Authentication: admins and tournament staff with score entry rights.
+   * Players should use the score report endpoint to submit their own match
+   * results.
    */
   async function PUT(request: NextRequest, { params }: { params: Promise<{ id: string; matchId: string }> }) {
     const logger = createLogger(config.loggerName);
 
-    /* Auth check for PUT endpoint */
+    const { id: identifier, matchId } = await params;
+
+    /* Auth check for PUT endpoint: admins, or tournament staff with score entry rights */
     if (config.putRequiresAuth) {
-      const session = await auth();
-      if (!session?.user || session.user.role !== 'admin') {
-        return handleAuthzError();
-      }
+      const { error: authError } = await requireTournamentPermission(identifier, 'scores');
+      if (authError) return authError;
     }
 
     /* Rate limit: prevent abuse on match score update */
@@ -200,8 +202,6 @@ export function createMatchDetailHandlers(config: MatchDetailConfig) {
       return handleRateLimitError(rateResult.retryAfter);
     }
 
-    const { id: identifier, matchId } = await params;
-
     try {
       const tournamentId = await resolveTournamentId(identifier);
       let body = await request.json();
@@ -336,7 +336,8 @@ export function createMatchDetailHandlers(config: MatchDetailConfig) {
             tournamentId: matchMeta.tournamentId,
           });
         }
-        invalidateOverallRankingsCache(matchMeta.tournamentId);
+        await invalidateOverallRankingsCache(matchMeta.tournamentId);
+        await publishTournamentChange(matchMeta.tournamentId);
       }
 
       return createSuccessResponse({
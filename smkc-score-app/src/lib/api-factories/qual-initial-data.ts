@@ -13,9 +13,17 @@
 import prisma from '@/lib/prisma';
 import { PLAYER_PUBLIC_SELECT } from '@/lib/prisma-selects';
 import { resolveTournament } from '@/lib/tournament-identifier';
-import { computeQualificationRanks, type RankableMatch, type RankableQualification } from '@/lib/server-ranking';
+import {
+  computeQualificationRanks,
+  qualificationTiebreakFor,
+  type RankableMatch,
+  type RankableQualification,
+} from '@/lib/server-ranking';
+import { summarizeSwissProgress, type SwissProgress } from '@/lib/swiss-pairing';
 import type { EventTypeConfig } from '@/lib/event-types/types';
 import type { Player } from '@/lib/types';
+import { getGroupPresets, type GroupPreset } from '@/lib/tournament-template';
+import { getRegistrationGroupPresets } from '@/lib/tournament-registration';
 
 /**
  * Combined initial data shape that usePolling seeds from.
@@ -30,6 +38,10 @@ export interface QualInitialData {
   matches: unknown[];
   allPlayers: Player[];
   qualificationConfirmed: boolean;
+  /** Template (or approved registration) group assignments, present only while the mode has no qualification rows. */
+  groupPresets?: GroupPreset[];
+  /** Swiss round progress, present only for Swiss-system tournaments. */
+  swiss?: SwissProgress;
 }
 
 type ModeQualField = 'bmQualificationConfirmed' | 'mrQualificationConfirmed' | 'gpQualificationConfirmed';
@@ -45,10 +57,7 @@ type ModeQualField = 'bmQualificationConfirmed' | 'mrQualificationConfirmed' | '
  * @returns Initial data ready to pass as `initialData` to usePolling,
  *          or null on any error (client falls back to its own first poll).
  */
-export async function fetchQualInitialData(
-  config: EventTypeConfig,
-  id: string,
-): Promise<QualInitialData | null> {
+export async function fetchQualInitialData(config: EventTypeConfig, id: string): Promise<QualInitialData | null> {
   try {
     const modeField = `${config.eventTypeCode}QualificationConfirmed` as ModeQualField;
     const tournament = await resolveTournament(id, {
@@ -56,6 +65,8 @@ export async function fetchQualInitialData(
       bmQualificationConfirmed: true,
       mrQualificationConfirmed: true,
       gpQualificationConfirmed: true,
+      setupPresets: true,
+      qualificationScheduleMethod: true,
     });
     if (!tournament) return null;
 
@@ -90,18 +101,26 @@ export async function fetchQualInitialData(
       }),
     ]);
 
-    const rankedQualifications = computeQualificationRanks(
-      qualifications,
-      config.qualificationOrderBy ?? [],
-      matches,
-      { matchScoreFields: config.matchScoreFields },
-    );
+    const rankedQualifications = computeQualificationRanks(qualifications, config.qualificationOrderBy ?? [], matches, {
+      matchScoreFields: config.matchScoreFields,
+      tiebreak: qualificationTiebreakFor(tournament.qualificationScheduleMethod),
+    });
+
+    let groupPresets =
+      qualifications.length === 0 ? getGroupPresets(tournament.setupPresets, config.eventTypeCode) : [];
+    if (qualifications.length === 0 && groupPresets.length === 0) {
+      groupPresets = await getRegistrationGroupPresets(tournamentId, config.eventTypeCode);
+    }
 
     return {
       qualifications: rankedQualifications,
       matches,
       allPlayers,
-      qualificationConfirmed: (tournament as Record<string, unknown>)[modeField] as boolean ?? false,
+      qualificationConfirmed: ((tournament as Record<string, unknown>)[modeField] as boolean) ?? false,
+      ...(groupPresets.length > 0 && { groupPresets }),
+      ...(tournament.qualificationScheduleMethod === 'swiss' && {
+        swiss: summarizeSwissProgress(qualifications, matches),
+      }),
     };
   } catch {
     // Swallowed intentionally: client falls back to its own first poll.
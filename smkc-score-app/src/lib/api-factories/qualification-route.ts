@@ -13,6 +13,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import { PLAYER_PUBLIC_SELECT } from '@/lib/prisma-selects';
 import prisma from '@/lib/prisma';
 import { auth } from '@/lib/auth';
+import { requireTournamentPermission } from '@/lib/api-auth';
+import { hasTournamentPermission } from '@/lib/tournament-staff';
 import { AUDIT_ACTIONS, buildAuditLogData, createAuditLog, resolveAuditUserId } from '@/lib/audit-log';
 import { executeD1Batch } from '@/lib/d1-batch';
 import { checkRateLimit } from '@/lib/rate-limit';
@@ -32,28 +34,41 @@ import { resolveTournament, resolveTournamentId } from '@/lib/tournament-identif
 import { checkQualificationConfirmed } from '@/lib/qualification-confirmed-check';
 import { generateETag, invalidate } from '@/lib/standings-cache';
 import { invalidateOverallRankingsCache } from '@/lib/points/overall-ranking';
-import { computeQualificationRanks, type RankableMatch, type RankableQualification } from '@/lib/server-ranking';
+import { publishTournamentChange } from '@/lib/tournament-events';
+import {
+  computeQualificationRanks,
+  qualificationTiebreakFor,
+  type RankableMatch,
+  type RankableQualification,
+} from '@/lib/server-ranking';
 import { getArchivedModePayload, readTournamentArchive } from '@/lib/tournament-archive';
-import { bulkUpdateQualificationStats } from '@/lib/api-factories/score-report-helpers';
+import {
+  bulkUpdateQualificationStats,
+  countsByesAsWins,
+  repairQualificationStats,
+} from '@/lib/api-factories/score-report-helpers';
 import {
   generateRoundRobinSchedule,
   getByeMatchData,
   getScheduleOnlyBreakData,
   BREAK_PLAYER_ID,
+  normalizeQualificationScheduleMethod,
   UnsupportedRoundRobinPlayerCountError,
-  type QualificationScheduleMethod,
+  type RoundRobinMatch,
 } from '@/lib/round-robin';
-import { COURSES, MAX_TV_NUMBER, TOTAL_MR_RACES } from '@/lib/constants';
+import { countSwissByes, pairSwissRound, summarizeSwissProgress } from '@/lib/swiss-pairing';
+import { COURSES, MAX_TV_NUMBER, SUPPORTED_QUALIFICATION_GROUPS, TOTAL_MR_RACES } from '@/lib/constants';
 import { getCdmQualificationRoundFixture } from '@/lib/cdm-qualification-round-fixtures';
+import { getGroupPresets } from '@/lib/tournament-template';
+import {
+  getNotCheckedInPlayerIds,
+  getRegistrationGroupPresets,
+  readStoredRegistrationSettings,
+} from '@/lib/tournament-registration';
 
 export const MR_QUALIFICATION_COURSE_DECK_REPEATS = 4;
 const GP_QUALIFICATION_CUP_DECK_REPEATS = 5;
 
-/* 2 or 3 groups only (docs/qualification-combined-ranking.md §7: 4+ groups
- * are out of scope for now). Group setup UI is likewise limited to 2/3
- * (group-setup-dialog.tsx). */
-const SUPPORTED_QUALIFICATION_GROUPS = ['A', 'B', 'C'] as const;
-
 /**
  * Shuffle an array using the Fisher-Yates algorithm.
  * Returns a new array (does not mutate the original).
@@ -98,7 +113,7 @@ export function generateShuffledCourseList(): string[] {
  * round's cup, swap in a random non-repeating cup so rounds never use the
  * same cup consecutively without always rotating the same boundary shape.
  */
-function generateShuffledCupList(
+export function generateShuffledCupList(
   cupList: readonly string[],
   logger?: Pick<ReturnType<typeof createLogger>, 'warn'>,
 ): string[] {
@@ -246,6 +261,32 @@ const QUALIFICATION_MATCH_INSERT_SQL = {
   `,
 } as const;
 
+/* D1's bound-parameter limit previously forced createMany into 8-row
+ * chunks. A 28-player E2E seed then spent dozens of sequential round-trips
+ * creating matches and could trip production request limits. For large
+ * inserts, pass one JSON payload to SQLite's JSON1 table function and insert
+ * every qualification match in one query. Small inserts stay on Prisma
+ * createMany so unit tests and ordinary admin edits keep their narrower,
+ * familiar path. */
+const RAW_INSERT_THRESHOLD = 8;
+
+/**
+ * Persist generated qualification match payloads (setup and Swiss rounds).
+ */
+export async function createQualificationMatchRows(
+  config: EventTypeConfig,
+  matchData: Array<Record<string, unknown>>,
+): Promise<void> {
+  if (matchData.length === 0) return;
+  if (matchData.length > RAW_INSERT_THRESHOLD) {
+    await insertQualificationMatches(config.eventTypeCode, matchData);
+  } else {
+    await (
+      prisma[config.matchModel] as unknown as { createMany: (args: Record<string, unknown>) => Promise<unknown> }
+    ).createMany({ data: matchData });
+  }
+}
+
 async function insertQualificationMatches(
   eventTypeCode: EventTypeConfig['eventTypeCode'],
   matchData: Array<Record<string, unknown>>,
@@ -331,6 +372,8 @@ export function createQualificationHandlers(config: EventTypeConfig) {
         bmQualificationConfirmed: true,
         mrQualificationConfirmed: true,
         gpQualificationConfirmed: true,
+        setupPresets: true,
+        qualificationScheduleMethod: true,
       });
       if (!tournament) {
         const archived = await readTournamentArchive(id);
@@ -354,14 +397,24 @@ export function createQualificationHandlers(config: EventTypeConfig) {
         }),
       ]);
 
-      /* Compute server-side _rank (1224 + H2H + rankOverride) for client consistency */
+      /* Compute server-side _rank (1224 + H2H/Buchholz + rankOverride) for client consistency */
+      const scheduleMethod = normalizeQualificationScheduleMethod(tournament.qualificationScheduleMethod);
       const rankedQualifications = computeQualificationRanks(
         qualifications,
         config.qualificationOrderBy ?? [],
         matches,
-        { matchScoreFields: config.matchScoreFields },
+        { matchScoreFields: config.matchScoreFields, tiebreak: qualificationTiebreakFor(scheduleMethod) },
       );
 
+      /* Group assignments copied from a tournament template pre-fill the
+       * setup dialog until the admin saves the first group setup; without a
+       * template, approved self-registrations for this mode do. */
+      let groupPresets =
+        qualifications.length === 0 ? getGroupPresets(tournament.setupPresets, config.eventTypeCode) : [];
+      if (qualifications.length === 0 && groupPresets.length === 0) {
+        groupPresets = await getRegistrationGroupPresets(tournamentId, config.eventTypeCode);
+      }
+
       /* Conditional GET: hash the response body and short-circuit to 304
        * when the client's If-None-Match matches. We cannot avoid the D1
        * reads above (no upstream cache layer yet), but skipping the JSON
@@ -373,6 +426,9 @@ export function createQualificationHandlers(config: EventTypeConfig) {
         // Return the mode-specific flag under the generic key so the frontend
         // polling hook (useParticipantMatches / page state) needs no changes.
         qualificationConfirmed: ((tournament as Record<string, unknown>)[modeField] as boolean) ?? false,
+        ...(groupPresets.length > 0 && { groupPresets }),
+        /* Swiss rounds are paired on demand; expose progress for the admin control. */
+        ...(scheduleMethod === 'swiss' && { swiss: summarizeSwissProgress(qualifications, matches) }),
       };
       const etag = generateETag([responseBody]);
       const ifNoneMatch = request.headers.get('if-none-match');
@@ -412,6 +468,9 @@ export function createQualificationHandlers(config: EventTypeConfig) {
    * - 1P/2P sides are balanced within ±1 for each player
    * - Odd-numbered groups get BREAK/BYE matches auto-completed with fixed scores
    *
+   * Swiss tournaments only get round 1 here (split by seed); later rounds are
+   * paired from standings by the swiss-round route.
+   *
    * Auth is always checked when postRequiresAuth is true.
    * Audit logging is performed when auditAction is configured.
    */
@@ -461,14 +520,35 @@ export function createQualificationHandlers(config: EventTypeConfig) {
       /* Read and validate every generated schedule before destructive writes.
        * Existing tournaments default to circle; CDM is an explicit, persisted
        * opt-in so a legacy re-setup can never silently change its draw. */
-      const tournament = await resolveTournament(id, { id: true, qualificationScheduleMethod: true });
+      const tournament = await resolveTournament(id, {
+        id: true,
+        qualificationScheduleMethod: true,
+        registrationSettings: true,
+      });
       if (!tournament) return createErrorResponse('Tournament not found', 404);
-      const scheduleMethod: QualificationScheduleMethod =
-        tournament.qualificationScheduleMethod === 'cdm' ? 'cdm' : 'circle';
+
+      /* With check-in on, approved self-registrations must have checked in
+       * before they can be drawn into a group. */
+      if (readStoredRegistrationSettings(tournament.registrationSettings)?.checkIn) {
+        const notCheckedIn = await getNotCheckedInPlayerIds(
+          tournamentId,
+          config.eventTypeCode,
+          players.map((p: { playerId: string }) => p.playerId),
+        );
+        if (notCheckedIn.length > 0) {
+          return createErrorResponse(
+            `${notCheckedIn.length} player(s) have not checked in`,
+            409,
+            'PLAYERS_NOT_CHECKED_IN',
+            { playerIds: notCheckedIn },
+          );
+        }
+      }
+      const scheduleMethod = normalizeQualificationScheduleMethod(tournament.qualificationScheduleMethod);
       // Preserve the submitted group order for legacy circle tournaments.
       // CDM fixtures are deterministic inside each group from its seed order.
       const groups = [...new Set(players.map((p: { group: string }) => p.group))];
-      const schedules = new Map<string, ReturnType<typeof generateRoundRobinSchedule>>();
+      const schedules = new Map<string, RoundRobinMatch[]>();
 
       for (const group of groups) {
         const groupPlayers = players
@@ -491,12 +571,12 @@ export function createQualificationHandlers(config: EventTypeConfig) {
           }
         }
 
+        const groupPlayerIds = groupPlayers.map((p: { playerId: string }) => p.playerId);
         schedules.set(
           group,
-          generateRoundRobinSchedule(
-            groupPlayers.map((p: { playerId: string }) => p.playerId),
-            { method: scheduleMethod },
-          ),
+          scheduleMethod === 'swiss'
+            ? pairSwissRound(groupPlayerIds, [], 1)
+            : generateRoundRobinSchedule(groupPlayerIds, { method: scheduleMethod }).matches,
         );
       }
 
@@ -505,7 +585,7 @@ export function createQualificationHandlers(config: EventTypeConfig) {
        * leave the tournament without qualification rows. */
       if (scheduleMethod === 'cdm' && (config.assignCoursesRandomly || config.assignCupRandomly)) {
         for (const schedule of schedules.values()) {
-          for (const match of schedule.matches) {
+          for (const match of schedule) {
             if (!match.isBye) getCdmQualificationRoundFixture(match.day);
           }
         }
@@ -579,7 +659,7 @@ export function createQualificationHandlers(config: EventTypeConfig) {
        * Only applies when config.assignCoursesRandomly is true (MR only).
        */
       const shuffledCourses =
-        config.assignCoursesRandomly && scheduleMethod === 'circle' ? generateShuffledCourseList() : null;
+        config.assignCoursesRandomly && scheduleMethod !== 'cdm' ? generateShuffledCourseList() : null;
       /*
        * §5.4 fixed course assignment: BM always uses the same 4 battle courses
        * in order for every qualification match. `fixedCourseList` stores these
@@ -596,7 +676,7 @@ export function createQualificationHandlers(config: EventTypeConfig) {
        * Only applies when config.assignCupRandomly is true (GP only).
        */
       const shuffledCups =
-        config.assignCupRandomly && config.cupList && scheduleMethod === 'circle'
+        config.assignCupRandomly && config.cupList && scheduleMethod !== 'cdm'
           ? generateShuffledCupList(config.cupList, logger)
           : null;
       // matchSequenceIndex tracks the overall real-match number across all groups
@@ -618,7 +698,7 @@ export function createQualificationHandlers(config: EventTypeConfig) {
          */
         const schedule = schedules.get(group)!;
 
-        for (const m of schedule.matches) {
+        for (const m of schedule) {
           /*
            * For BYE matches, ensure real player is player1 and BREAK is player2.
            * The round-robin module already guarantees this, but we enforce it
@@ -683,22 +763,10 @@ export function createQualificationHandlers(config: EventTypeConfig) {
         }
       }
 
-      if (matchData.length > 0) {
-        /*
-         * D1's bound-parameter limit previously forced createMany into 8-row
-         * chunks. A 28-player E2E seed then spent dozens of sequential
-         * round-trips creating matches and could trip production request
-         * limits. For large inserts, pass one JSON payload to SQLite's JSON1
-         * table function and insert every qualification match in one query.
-         * Small inserts stay on Prisma createMany so unit tests and ordinary
-         * admin edits keep their narrower, familiar path.
-         */
-        const RAW_INSERT_THRESHOLD = 8;
-        if (matchData.length > RAW_INSERT_THRESHOLD) {
-          await insertQualificationMatches(config.eventTypeCode, matchData);
-        } else {
-          await matchModel(prisma).createMany({ data: matchData });
-        }
+      await createQualificationMatchRows(config, matchData);
+      /* A round-1 Swiss bye is already a win for its receiver. */
+      if (scheduleMethod === 'swiss' && matchData.some((match) => match.isBye)) {
+        await repairQualificationStats(config, tournamentId);
       }
 
       /* Audit logging if configured.
@@ -744,7 +812,8 @@ export function createQualificationHandlers(config: EventTypeConfig) {
           tournamentId,
         });
       }
-      invalidateOverallRankingsCache(tournamentId);
+      await invalidateOverallRankingsCache(tournamentId);
+      await publishTournamentChange(tournamentId, config.eventTypeCode);
 
       return createSuccessResponse(
         { message: config.setupCompleteMessage, qualifications },
@@ -766,12 +835,12 @@ export function createQualificationHandlers(config: EventTypeConfig) {
   async function PUT(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
     const logger = createLogger(config.loggerName);
 
-    /* Auth check for PUT endpoint */
+    const { id } = await params;
+
+    /* Auth check for PUT endpoint: admins, or tournament staff with score entry rights */
     if (config.putRequiresAuth) {
-      const session = await auth();
-      if (!session?.user || session.user.role !== 'admin') {
-        return handleAuthzError();
-      }
+      const { error: authError } = await requireTournamentPermission(id, 'scores');
+      if (authError) return authError;
     }
 
     /* Rate limit: prevent abuse on score update endpoint */
@@ -781,7 +850,6 @@ export function createQualificationHandlers(config: EventTypeConfig) {
       return handleRateLimitError(putRateResult.retryAfter);
     }
 
-    const { id } = await params;
     const tournamentId = await resolveTournamentId(id);
 
     try {
@@ -811,8 +879,10 @@ export function createQualificationHandlers(config: EventTypeConfig) {
       const { result1, result2 } = config.calculateMatchResult(score1OrPoints1, score2OrPoints2);
 
       /* Fetch all completed matches for both players in one parallel round-trip.
-       * For BYE matches player2 has no qualification record, so skip its fetch. */
-      const [player1Matches, player2Matches] = await Promise.all([
+       * For BYE matches player2 has no qualification record, so skip its fetch.
+       * A Swiss bye scores as a win, so those rows are counted as matches. */
+      const [countByes, player1Matches, player2Matches] = await Promise.all([
+        countsByesAsWins(tournamentId),
         matchModel(prisma).findMany({
           where: {
             tournamentId,
@@ -833,9 +903,12 @@ export function createQualificationHandlers(config: EventTypeConfig) {
             }),
       ]);
 
-      const p1 = config.aggregatePlayerStats(player1Matches, match.player1Id, config.calculateMatchResult);
+      const scored = <T extends { isBye?: boolean | null }>(matches: T[]) =>
+        countByes ? countSwissByes(matches) : matches;
+      const p1 = config.aggregatePlayerStats(scored(player1Matches), match.player1Id, config.calculateMatchResult);
       const p2 =
-        player2Matches && config.aggregatePlayerStats(player2Matches, match.player2Id, config.calculateMatchResult);
+        player2Matches &&
+        config.aggregatePlayerStats(scored(player2Matches), match.player2Id, config.calculateMatchResult);
 
       /* Update both players' qualification records with one D1 round-trip. */
       const updates = [{ playerId: match.player1Id, ...p1.qualificationData }];
@@ -855,7 +928,8 @@ export function createQualificationHandlers(config: EventTypeConfig) {
           tournamentId,
         });
       }
-      invalidateOverallRankingsCache(tournamentId);
+      await invalidateOverallRankingsCache(tournamentId);
+      await publishTournamentChange(tournamentId, config.eventTypeCode);
 
       return createSuccessResponse({ match, result1, result2 });
     } catch (error) {
@@ -880,12 +954,17 @@ export function createQualificationHandlers(config: EventTypeConfig) {
    *    Used for emergency adjustments (player withdrawal, equipment failure).
    *    Stores audit trail (rankOverrideBy, rankOverrideAt) for accountability.
    *    Passing rankOverride=null clears a previously set override.
+   *
+   * Tournament staff with the `tv` permission may assign TVs; every other
+   * operation is admin-only.
    */
   async function PATCH(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
     const logger = createLogger(config.loggerName);
 
+    /* Admins may use every operation; tournament staff only TV assignment,
+       which is checked once the body shows which operation this is. */
     const session = await auth();
-    if (!session?.user || session.user.role !== 'admin') {
+    if (!session?.user) {
       return handleAuthzError();
     }
 
@@ -903,6 +982,14 @@ export function createQualificationHandlers(config: EventTypeConfig) {
       const body = sanitizeInput(await request.json());
       const { matchId, tvNumber, qualificationId, rankOverride, combinedRankOverride, cupAssignment } = body;
 
+      const isTvAssignment = qualificationId === undefined && (cupAssignment === undefined || cupAssignment === null);
+      if (
+        session.user.role !== 'admin' &&
+        !(isTvAssignment && (await hasTournamentPermission(session, tournamentId, 'tv')))
+      ) {
+        return handleAuthzError();
+      }
+
       /*
        * Reject ambiguous requests that supply both qualificationId and matchId.
        * The two operations are mutually exclusive; accepting both silently would
@@ -956,7 +1043,8 @@ export function createQualificationHandlers(config: EventTypeConfig) {
         // Invalidate standings cache + overall-rankings cache so the rank
         // change takes effect immediately on both per-mode and cross-mode views.
         await invalidate(tournamentId, 'qualification');
-        invalidateOverallRankingsCache(tournamentId);
+        await invalidateOverallRankingsCache(tournamentId);
+        await publishTournamentChange(tournamentId, config.eventTypeCode);
 
         logger.info('Rank override updated', {
           tournamentId,
@@ -1126,7 +1214,9 @@ export function createQualificationHandlers(config: EventTypeConfig) {
 
       /* Uniqueness guard: prevent the same TV number in the same round (issue #668).
        * Scope to `stage` so a finals match in a same-named round cannot create
-       * a false conflict with a qualification match (issue #673). */
+       * a false conflict with a qualification match (issue #673). A match placed
+       * by the schedule planner shares its TV with other time slots, so only
+       * the same planned start time conflicts (match-schedule.ts). */
       if (tvNumber !== null && tvNumber !== undefined) {
         const tvConflict = await matchModel(prisma).findFirst({
           where: {
@@ -1135,6 +1225,7 @@ export function createQualificationHandlers(config: EventTypeConfig) {
             round: existingMatch.round,
             tvNumber,
             id: { not: matchId },
+            ...(existingMatch.scheduledStartAt ? { scheduledStartAt: existingMatch.scheduledStartAt } : {}),
           },
         });
         if (tvConflict) {
@@ -5,7 +5,7 @@
  * score report API routes. These helpers encapsulate the common sub-patterns
  * shared across the dual-report confirmation system:
  *
- * - Session-based authorization (admin + player)
+ * - Session-based authorization (admin + player), or a QR match report token
  * - Score entry audit logging
  * - Character usage tracking
  * - Character validation
@@ -13,9 +13,9 @@
  * Each score report route (BM/MR/GP) imports only the helpers it needs
  * and retains its own event-type-specific orchestration logic.
  *
- * Note: Rate limiting has been removed from this project as it is an
- * internal tournament tool with few concurrent users. The rate-limiting
- * functions are no longer used and have been removed.
+ * Rate limiting is applied by each route with the shared `scoreInput` rule
+ * (rate-limit.ts), which counts in the RATE_LIMIT_BACKEND store so the
+ * limit holds across Worker isolates.
  */
 
 import { NextRequest } from 'next/server';
@@ -23,6 +23,9 @@ import prisma from '@/lib/prisma';
 import { auth } from '@/lib/auth';
 import { SMK_CHARACTERS } from '@/lib/constants';
 import { createLogger } from '@/lib/logger';
+import { MATCH_REPORT_TOKEN_HEADER, verifyMatchReportToken } from '@/lib/match-report-token';
+import { getMatchReportTokenSide } from '@/lib/participant-score-entry-access';
+import { countSwissByes } from '@/lib/swiss-pairing';
 import type { EventTypeConfig } from '@/lib/event-types/types';
 
 // ============================================================
@@ -34,6 +37,7 @@ import type { EventTypeConfig } from '@/lib/event-types/types';
  * Includes userId for player-to-user linkage verification.
  */
 export interface AuthCheckMatch {
+  id: string;
   player1Id: string | null;
   player2Id: string | null;
   player1: { userId: string | null } | null;
@@ -71,14 +75,16 @@ export interface CharacterUsageLogData {
 /**
  * Session-based authorization check for score report endpoints.
  *
- * Supports two authorization paths:
+ * Supports three authorization paths:
  * 1. Admin session - full admin override capability
  * 2. Player session - players can only report their own matches
+ * 3. QR match report token (MATCH_REPORT_TOKEN_HEADER) - no session needed;
+ *    valid only for the tournament, match and side it was signed for
  *
  * Used by BM, MR, and GP report routes.
  *
- * @param request - The incoming NextRequest (used for future extensions)
- * @param tournamentId - Tournament ID (used for future extensions)
+ * @param request - The incoming NextRequest (carries the QR token header)
+ * @param tournamentId - Tournament ID the token must have been issued for
  * @param reportingPlayer - Which player position is reporting (1 or 2)
  * @param match - Match record with player IDs
  * @returns True if the request is authorized
@@ -130,6 +136,11 @@ export async function checkScoreReportAuth(
     }
   }
 
+  if (!isAuthorized) {
+    const claims = await verifyMatchReportToken(request.headers.get(MATCH_REPORT_TOKEN_HEADER));
+    isAuthorized = claims?.tournamentId === tournamentId && getMatchReportTokenSide(claims, match) === reportingPlayer;
+  }
+
   return isAuthorized;
 }
 
@@ -416,6 +427,36 @@ function calculateStatsForPlayer(
     : { playerId, mp, wins, ties, losses, points: totalPoints, score };
 }
 
+/**
+ * True when the tournament pairs qualification Swiss-style, where a bye
+ * scores as a win (countSwissByes); in a round-robin BREAK never scores.
+ */
+export async function countsByesAsWins(tournamentId: string): Promise<boolean> {
+  const tournament = await prisma.tournament.findUnique({
+    where: { id: tournamentId },
+    select: { qualificationScheduleMethod: true },
+  });
+  return tournament?.qualificationScheduleMethod === 'swiss';
+}
+
+/** Completed qualification matches of a tournament as its standings count them. */
+async function findScoredMatches(
+  matchModel: string,
+  tournamentId: string,
+  where: Record<string, unknown> = {},
+): Promise<Array<Record<string, unknown>>> {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const matchDelegate = (prisma as any)[matchModel];
+  if (await countsByesAsWins(tournamentId)) {
+    return countSwissByes(
+      await matchDelegate.findMany({ where: { tournamentId, stage: 'qualification', completed: true, ...where } }),
+    );
+  }
+  return matchDelegate.findMany({
+    where: { tournamentId, stage: 'qualification', completed: true, isBye: false, ...where },
+  });
+}
+
 /**
  * Recalculate qualification stats for a player from all completed matches.
  *
@@ -452,17 +493,8 @@ export async function recalculatePlayersStats(
   const uniquePlayerIds = [...new Set(playerIds.filter(Boolean))];
   if (uniquePlayerIds.length === 0) return;
 
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  const matchDelegate = (prisma as any)[config.matchModel];
-
-  const matches = await matchDelegate.findMany({
-    where: {
-      tournamentId,
-      stage: 'qualification',
-      completed: true,
-      isBye: false,
-      OR: [{ player1Id: { in: uniquePlayerIds } }, { player2Id: { in: uniquePlayerIds } }],
-    },
+  const matches = await findScoredMatches(config.matchModel, tournamentId, {
+    OR: [{ player1Id: { in: uniquePlayerIds } }, { player2Id: { in: uniquePlayerIds } }],
   });
 
   const updates = uniquePlayerIds.map((id) => calculateStatsForPlayer(config, matches, id));
@@ -476,7 +508,8 @@ export async function recalculatePlayersStats(
  * values were persisted before BREAK became non-competitive.
  *
  * The read is idempotent and writes only rows whose stored values differ from
- * the result calculated with `isBye: false`.
+ * the result calculated with `isBye: false`, or with byes counted as wins in
+ * a Swiss tournament.
  */
 export async function repairQualificationStats(
   config: Pick<
@@ -487,13 +520,9 @@ export async function repairQualificationStats(
 ): Promise<number> {
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   const qualificationDelegate = (prisma as any)[config.qualificationModel];
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  const matchDelegate = (prisma as any)[config.matchModel];
   const [qualifications, matches] = await Promise.all([
     qualificationDelegate.findMany({ where: { tournamentId } }),
-    matchDelegate.findMany({
-      where: { tournamentId, stage: 'qualification', completed: true, isBye: false },
-    }),
+    findScoredMatches(config.matchModel, tournamentId),
   ]);
 
   const statsConfig: RecalculateStatsConfig = {
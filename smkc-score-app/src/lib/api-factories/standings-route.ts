@@ -22,7 +22,7 @@ import { paginate } from '@/lib/pagination';
 import { createLogger } from '@/lib/logger';
 import { createErrorResponse, createSuccessResponse, handleAuthzError } from '@/lib/error-handling';
 import { resolveTournamentId } from '@/lib/tournament-identifier';
-import { computeQualificationRanks } from '@/lib/server-ranking';
+import { computeQualificationRanks, qualificationTiebreakFor, type QualificationTiebreak } from '@/lib/server-ranking';
 
 /**
  * Configuration for a standings route handler.
@@ -79,10 +79,7 @@ export function createStandingsHandlers(config: StandingsConfig) {
    * Caching: In-memory cache with 5-minute TTL, ETag support
    * Bypass: Send If-None-Match: * to force fresh data
    */
-  async function GET(
-    request: NextRequest,
-    { params }: { params: Promise<{ id: string }> },
-  ) {
+  async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
     const logger = createLogger(config.loggerName);
 
     /* Admin-only access. Mirrors the explicit gate in the TA standings route
@@ -135,7 +132,7 @@ export function createStandingsHandlers(config: StandingsConfig) {
          */
         const orderByForPaginate = (config.orderBy ?? []).reduce<Record<string, unknown>>(
           (acc, ob) => ({ ...acc, ...ob }),
-          {}
+          {},
         );
 
         const result = await paginate(
@@ -179,6 +176,7 @@ export function createStandingsHandlers(config: StandingsConfig) {
          */
         // eslint-disable-next-line @typescript-eslint/no-explicit-any
         let allH2hMatches: any[] = [];
+        let tiebreak: QualificationTiebreak = 'h2h';
         if (config.matchModel) {
           const scoreFields = config.matchScoreFields ?? { p1: 'score1', p2: 'score2' };
           // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -207,14 +205,23 @@ export function createStandingsHandlers(config: StandingsConfig) {
             .map((e: { playerId: string }) => e.playerId);
 
           if (tiedPlayerIds.length >= 2) {
+            /* Swiss ties use Buchholz, which needs every opponent's result,
+             * so the tied-player filter only applies to plain H2H. */
+            const tournament = await prisma.tournament.findUnique({
+              where: { id: tournamentId },
+              select: { qualificationScheduleMethod: true },
+            });
+            tiebreak = qualificationTiebreakFor(tournament?.qualificationScheduleMethod);
             allH2hMatches = await mModel(prisma).findMany({
               where: {
                 tournamentId,
                 stage: 'qualification',
                 completed: true,
                 isBye: false, // Exclude BYE matches from H2H calculation
-                player1Id: { in: tiedPlayerIds },
-                player2Id: { in: tiedPlayerIds },
+                ...(tiebreak === 'h2h' && {
+                  player1Id: { in: tiedPlayerIds },
+                  player2Id: { in: tiedPlayerIds },
+                }),
               },
               select: {
                 player1Id: true,
@@ -226,12 +233,10 @@ export function createStandingsHandlers(config: StandingsConfig) {
           }
         }
 
-        const withOverrides = computeQualificationRanks(
-          qualifications,
-          config.orderBy ?? [],
-          allH2hMatches,
-          { matchScoreFields: config.matchScoreFields },
-        );
+        const withOverrides = computeQualificationRanks(qualifications, config.orderBy ?? [], allH2hMatches, {
+          matchScoreFields: config.matchScoreFields,
+          tiebreak,
+        });
 
         const transformed = config.transformQualification
           ? withOverrides.map(config.transformQualification)
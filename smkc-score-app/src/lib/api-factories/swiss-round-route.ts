@@ -0,0 +1,221 @@
+/**
+ * Swiss Round Route Factory
+ *
+ * Generates the POST handler that pairs the next Swiss-system qualification
+ * round for BM, MR or GP (POST /api/tournaments/:id/{mode}/swiss-round).
+ *
+ * Group setup (qualification-route POST) creates round 1 from seeds; every
+ * later round is paired here from the live standings once the previous round
+ * is fully reported. Standings use the Buchholz tiebreak, the same ranking
+ * the qualification GET shows, so the pairing always matches the table.
+ *
+ * Course/cup assignment mirrors setup: BM uses its fixed battle courses, MR
+ * draws a fresh four-course card for the round, GP draws a cup that differs
+ * from the previous round's cup. Players who withdrew are left out of the
+ * pairing. A round that already has rows is never paired twice (409).
+ */
+
+import { NextRequest } from 'next/server';
+import prisma from '@/lib/prisma';
+import { auth } from '@/lib/auth';
+import { AUDIT_ACTIONS, createAuditLog, resolveAuditUserId } from '@/lib/audit-log';
+import { getClientIdentifier, getUserAgent } from '@/lib/request-utils';
+import { createLogger } from '@/lib/logger';
+import { createErrorResponse, createSuccessResponse, handleAuthzError } from '@/lib/error-handling';
+import { EventTypeConfig } from '@/lib/event-types/types';
+import { resolveTournament } from '@/lib/tournament-identifier';
+import { checkQualificationConfirmed } from '@/lib/qualification-confirmed-check';
+import { invalidate } from '@/lib/standings-cache';
+import { invalidateOverallRankingsCache } from '@/lib/points/overall-ranking';
+import { publishTournamentChange } from '@/lib/tournament-events';
+import { computeQualificationRanks, type RankableMatch, type RankableQualification } from '@/lib/server-ranking';
+import { getByeMatchData } from '@/lib/round-robin';
+import { repairQualificationStats } from '@/lib/api-factories/score-report-helpers';
+import { maxSwissRounds, pairSwissRound } from '@/lib/swiss-pairing';
+import {
+  createQualificationMatchRows,
+  generateShuffledCourseList,
+  generateShuffledCupList,
+  getAssignedCoursesForRound,
+} from '@/lib/api-factories/qualification-route';
+
+type SwissMatchRow = RankableMatch & {
+  matchNumber: number;
+  roundNumber: number | null;
+  cup?: string | null;
+};
+
+function roundAlreadyPairedResponse(round?: number) {
+  return createErrorResponse(
+    round ? `Swiss round ${round} has already been paired` : 'This Swiss round has already been paired',
+    409,
+    'ROUND_ALREADY_PAIRED',
+  );
+}
+
+export function createSwissRoundHandlers(config: EventTypeConfig) {
+  type FindManyDelegate<T> = {
+    findMany: (args: Record<string, unknown>) => Promise<T[]>;
+    findFirst: (args: Record<string, unknown>) => Promise<unknown>;
+  };
+  const qualModel = () => prisma[config.qualificationModel] as unknown as FindManyDelegate<RankableQualification>;
+  const matchModel = () => prisma[config.matchModel] as unknown as FindManyDelegate<SwissMatchRow>;
+
+  async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+    const logger = createLogger(config.loggerName);
+    const session = await auth();
+    if (!session?.user || session.user.role !== 'admin') {
+      return handleAuthzError();
+    }
+
+    const { id } = await params;
+    let tournamentId = id;
+
+    try {
+      const tournament = await resolveTournament(id, { id: true, qualificationScheduleMethod: true });
+      if (!tournament) {
+        return createErrorResponse('Tournament not found', 404, 'NOT_FOUND');
+      }
+      tournamentId = tournament.id as string;
+      if (tournament.qualificationScheduleMethod !== 'swiss') {
+        return createErrorResponse(
+          'This tournament does not use Swiss qualification pairing',
+          409,
+          'NOT_SWISS_TOURNAMENT',
+        );
+      }
+
+      const lockError = await checkQualificationConfirmed(prisma, tournamentId, config.eventTypeCode);
+      if (lockError) return lockError;
+
+      const [qualifications, matches] = await Promise.all([
+        qualModel().findMany({ where: { tournamentId }, orderBy: config.qualificationOrderBy }),
+        matchModel().findMany({ where: { tournamentId, stage: 'qualification' }, orderBy: { matchNumber: 'asc' } }),
+      ]);
+      if (qualifications.length === 0) {
+        return createErrorResponse(`${config.eventDisplayName} groups are not set up yet`, 409, 'NOT_SET_UP');
+      }
+      if (matches.some((match) => !match.completed)) {
+        return createErrorResponse(
+          'Every match of the current round must be reported before pairing the next round',
+          409,
+          'ROUND_IN_PROGRESS',
+        );
+      }
+
+      const round = Math.max(0, ...matches.map((match) => match.roundNumber ?? 0)) + 1;
+      /* Withdrawn players (qualification-withdrawal.ts) are not paired again. */
+      const activeQualifications = qualifications.filter((qualification) => qualification.withdrawnAt == null);
+      const ranked = computeQualificationRanks(activeQualifications, config.qualificationOrderBy ?? [], matches, {
+        matchScoreFields: config.matchScoreFields,
+        tiebreak: 'buchholz',
+      });
+
+      /* computeQualificationRanks keeps each group contiguous and rank-ordered. */
+      const standingsByGroup = new Map<string, string[]>();
+      for (const entry of ranked) {
+        const group = entry.group ?? '';
+        standingsByGroup.set(group, [...(standingsByGroup.get(group) ?? []), entry.playerId]);
+      }
+
+      const roundMatches = [...standingsByGroup.values()]
+        .filter((standings) => round <= maxSwissRounds(standings.length))
+        .flatMap((standings) => {
+          const groupPlayers = new Set(standings);
+          const played = matches.filter(
+            (match) => groupPlayers.has(match.player1Id) || groupPlayers.has(match.player2Id),
+          );
+          return pairSwissRound(standings, played, round);
+        });
+      if (roundMatches.length === 0) {
+        return createErrorResponse(
+          'Every group has already played all of its possible rounds',
+          409,
+          'SWISS_ROUNDS_EXHAUSTED',
+        );
+      }
+
+      const assignedCourses = config.fixedCourseList
+        ? [...config.fixedCourseList]
+        : config.assignCoursesRandomly
+          ? getAssignedCoursesForRound(generateShuffledCourseList(), 1)
+          : undefined;
+      const previousCup = matches.filter((match) => match.roundNumber === round - 1).find((match) => match.cup)?.cup;
+      const assignedCup =
+        config.assignCupRandomly && config.cupList
+          ? generateShuffledCupList(config.cupList, logger).find((cup) => cup !== previousCup)
+          : undefined;
+      const byeData = getByeMatchData(config.eventTypeCode);
+
+      /* Two admins pairing at once both compute the same round; whichever
+       * inserts second must not add a duplicate round. The
+       * (tournamentId, matchNumber, stage) unique key catches an insert that
+       * still races past this check (P2002 below). */
+      const existingRoundMatch = await matchModel().findFirst({
+        where: { tournamentId, stage: 'qualification', roundNumber: round },
+        select: { id: true },
+      });
+      if (existingRoundMatch) {
+        return roundAlreadyPairedResponse(round);
+      }
+
+      let matchNumber = Math.max(0, ...matches.map((match) => match.matchNumber));
+      const matchData: Array<Record<string, unknown>> = roundMatches.map((m) => ({
+        tournamentId,
+        matchNumber: ++matchNumber,
+        stage: 'qualification',
+        player1Id: m.player1Id,
+        player2Id: m.player2Id,
+        player1Side: 1,
+        player2Side: 2,
+        roundNumber: m.day,
+        isBye: m.isBye,
+        ...(!m.isBye && assignedCourses ? { assignedCourses } : {}),
+        ...(!m.isBye && assignedCup ? { cup: assignedCup } : {}),
+        /* A Swiss bye scores as a win (countSwissByes), so its receiver's stats are refreshed below. */
+        ...(m.isBye ? { completed: true, ...byeData } : {}),
+      }));
+      await createQualificationMatchRows(config, matchData);
+      if (roundMatches.some((m) => m.isBye)) {
+        await repairQualificationStats(config, tournamentId);
+      }
+
+      createAuditLog({
+        userId: resolveAuditUserId(session),
+        ipAddress: getClientIdentifier(request),
+        userAgent: getUserAgent(request),
+        action: AUDIT_ACTIONS.PAIR_SWISS_ROUND,
+        targetId: tournamentId,
+        targetType: 'Tournament',
+        details: { mode: config.eventTypeCode, round, matchCount: matchData.length },
+      }).catch((err) =>
+        logger.warn('Failed to create audit log', { error: err, tournamentId, action: 'pair_swiss_round' }),
+      );
+
+      try {
+        await invalidate(tournamentId);
+      } catch (invalidateErr) {
+        logger.warn('Failed to invalidate standings cache after Swiss pairing', { error: invalidateErr, tournamentId });
+      }
+      await invalidateOverallRankingsCache(tournamentId);
+      await publishTournamentChange(tournamentId, config.eventTypeCode);
+
+      return createSuccessResponse(
+        {
+          round,
+          matches: roundMatches.map(({ player1Id, player2Id, isBye }) => ({ player1Id, player2Id, isBye })),
+        },
+        `Swiss round ${round} paired`,
+        { status: 201 },
+      );
+    } catch (error) {
+      if (error && typeof error === 'object' && 'code' in error && error.code === 'P2002') {
+        return roundAlreadyPairedResponse();
+      }
+      logger.error(`Failed to pair ${config.eventDisplayName} Swiss round`, { error, tournamentId });
+      return createErrorResponse(`Failed to pair ${config.eventDisplayName} Swiss round`, 500, 'INTERNAL_ERROR');
+    }
+  }
+
+  return { POST };
+}
@@ -0,0 +1,135 @@
+/**
+ * Withdrawal Route Factory
+ *
+ * Generates the POST handler that withdraws a player from the BM, MR or GP
+ * qualification (POST /api/tournaments/:id/{mode}/withdraw).
+ *
+ * Request body: { playerId: string, policy: 'void' | 'walkover' }
+ *
+ * See qualification-withdrawal.ts for what each policy does to the matches.
+ * Withdrawing rewrites results of other players too, so it is refused once
+ * the qualification is confirmed and the audit record, including the
+ * affected match rows as they were, is written before any match changes.
+ *
+ * Response (200): { playerId, policy, changedMatchIds: string[] }
+ */
+
+import { NextRequest } from 'next/server';
+import prisma from '@/lib/prisma';
+import { auth } from '@/lib/auth';
+import { AUDIT_ACTIONS, createRequiredAuditLog, resolveAuditUserId } from '@/lib/audit-log';
+import { checkRateLimit } from '@/lib/rate-limit';
+import { getClientIdentifier, getUserAgent } from '@/lib/request-utils';
+import { sanitizeInput } from '@/lib/sanitize';
+import { createLogger } from '@/lib/logger';
+import {
+  createErrorResponse,
+  createSuccessResponse,
+  handleAuthzError,
+  handleRateLimitError,
+  handleValidationError,
+} from '@/lib/error-handling';
+import { EventTypeConfig } from '@/lib/event-types/types';
+import { resolveTournament } from '@/lib/tournament-identifier';
+import { checkQualificationConfirmed } from '@/lib/qualification-confirmed-check';
+import { invalidate } from '@/lib/standings-cache';
+import { invalidateOverallRankingsCache } from '@/lib/points/overall-ranking';
+import { publishTournamentChange } from '@/lib/tournament-events';
+import {
+  findWithdrawalMatches,
+  isWithdrawalPolicy,
+  WITHDRAWAL_POLICIES,
+  withdrawQualificationPlayer,
+} from '@/lib/qualification-withdrawal';
+
+export function createWithdrawalHandlers(config: EventTypeConfig) {
+  type FindFirstDelegate = {
+    findFirst: (args: Record<string, unknown>) => Promise<{ id: string; withdrawnAt: Date | null } | null>;
+  };
+  const qualModel = () => prisma[config.qualificationModel] as unknown as FindFirstDelegate;
+
+  async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+    const logger = createLogger(config.loggerName);
+    const session = await auth();
+    if (!session?.user || session.user.role !== 'admin') {
+      return handleAuthzError();
+    }
+
+    const clientIp = getClientIdentifier(request);
+    const rateResult = await checkRateLimit('general', clientIp);
+    if (!rateResult.success) {
+      return handleRateLimitError(rateResult.retryAfter);
+    }
+
+    const { id } = await params;
+    let tournamentId = id;
+
+    try {
+      const body = sanitizeInput(await request.json());
+      const { playerId, policy } = body;
+      if (typeof playerId !== 'string' || !playerId) {
+        return handleValidationError('playerId is required', 'playerId');
+      }
+      if (!isWithdrawalPolicy(policy)) {
+        return handleValidationError(`policy must be one of: ${WITHDRAWAL_POLICIES.join(', ')}`, 'policy');
+      }
+
+      const tournament = await resolveTournament(id, { id: true });
+      if (!tournament) {
+        return createErrorResponse('Tournament not found', 404, 'NOT_FOUND');
+      }
+      tournamentId = tournament.id as string;
+
+      const lockError = await checkQualificationConfirmed(prisma, tournamentId, config.eventTypeCode);
+      if (lockError) return lockError;
+
+      const qualification = await qualModel().findFirst({
+        where: { tournamentId, playerId },
+        select: { id: true, withdrawnAt: true },
+      });
+      if (!qualification) {
+        return createErrorResponse(`Player is not in the ${config.eventDisplayName} qualification`, 404, 'NOT_FOUND');
+      }
+      if (qualification.withdrawnAt) {
+        return createErrorResponse('Player has already withdrawn', 409, 'ALREADY_WITHDRAWN');
+      }
+
+      const matches = await findWithdrawalMatches(config, tournamentId, playerId, policy);
+      await createRequiredAuditLog({
+        userId: resolveAuditUserId(session),
+        ipAddress: clientIp,
+        userAgent: getUserAgent(request),
+        action: AUDIT_ACTIONS.WITHDRAW_QUALIFICATION_PLAYER,
+        targetId: qualification.id,
+        targetType: config.qualificationModel,
+        details: { tournamentId, mode: config.eventTypeCode, playerId, policy, matches },
+      });
+
+      const changedMatchIds = await withdrawQualificationPlayer(config, tournamentId, playerId, policy, matches);
+
+      try {
+        await invalidate(tournamentId);
+      } catch (invalidateErr) {
+        logger.warn('Failed to invalidate standings cache after withdrawal', { error: invalidateErr, tournamentId });
+      }
+      await invalidateOverallRankingsCache(tournamentId);
+      await publishTournamentChange(tournamentId, config.eventTypeCode);
+
+      logger.info('Player withdrawn from qualification', {
+        tournamentId,
+        playerId,
+        policy,
+        changed: changedMatchIds.length,
+      });
+      return createSuccessResponse({ playerId, policy, changedMatchIds }, 'Player withdrawn');
+    } catch (error) {
+      logger.error(`Failed to withdraw player from ${config.eventDisplayName} qualification`, {
+        error,
+        tournamentId,
+      });
+      return createErrorResponse('Failed to withdraw player', 500, 'INTERNAL_ERROR');
+    }
+  }
+
+  return { POST };
+}
@@ -313,16 +313,56 @@ export const AUDIT_ACTIONS = {
   UPDATE_TOURNAMENT: 'UPDATE_TOURNAMENT',
   /** A tournament was deleted by an admin */
   DELETE_TOURNAMENT: 'DELETE_TOURNAMENT',
+  /** A named tournament template was saved from a tournament */
+  CREATE_TOURNAMENT_TEMPLATE: 'CREATE_TOURNAMENT_TEMPLATE',
+  /** A named tournament template was deleted */
+  DELETE_TOURNAMENT_TEMPLATE: 'DELETE_TOURNAMENT_TEMPLATE',
+
+  // Team competition actions
+  /** Team standings were enabled or their grouping / scoring rule changed */
+  UPDATE_TEAM_SETTINGS: 'UPDATE_TEAM_SETTINGS',
+  /** An explicit team was created */
+  CREATE_TEAM: 'CREATE_TEAM',
+  /** An explicit team's name, country or members were changed */
+  UPDATE_TEAM: 'UPDATE_TEAM',
+  /** An explicit team was deleted */
+  DELETE_TEAM: 'DELETE_TEAM',
+
+  // Tournament staff actions
+  /** A player was granted a staff role in a tournament */
+  GRANT_TOURNAMENT_STAFF: 'GRANT_TOURNAMENT_STAFF',
+  /** A player's staff role in a tournament was revoked */
+  REVOKE_TOURNAMENT_STAFF: 'REVOKE_TOURNAMENT_STAFF',
+
+  // Tournament registration actions
+  /** Self-registration settings (open, cap, modes) were changed */
+  UPDATE_REGISTRATION_SETTINGS: 'UPDATE_REGISTRATION_SETTINGS',
+  /** A player signed up for a tournament */
+  CREATE_TOURNAMENT_REGISTRATION: 'CREATE_TOURNAMENT_REGISTRATION',
+  /** An admin approved or rejected a tournament sign-up */
+  REVIEW_TOURNAMENT_REGISTRATION: 'REVIEW_TOURNAMENT_REGISTRATION',
+  /** A player withdrew a tournament sign-up */
+  WITHDRAW_TOURNAMENT_REGISTRATION: 'WITHDRAW_TOURNAMENT_REGISTRATION',
+  /** A player checked in, or an admin checked players in or out */
+  CHECK_IN_TOURNAMENT_REGISTRATION: 'CHECK_IN_TOURNAMENT_REGISTRATION',
+  /** A no-show player's remaining qualification matches became BREAK walkovers */
+  MARK_REGISTRATION_NO_SHOW: 'MARK_REGISTRATION_NO_SHOW',
 
   // Player management actions
   /** A new player was registered in the system */
   CREATE_PLAYER: 'CREATE_PLAYER',
+  /** A player created their own account from the sign-up page */
+  SIGN_UP_PLAYER: 'SIGN_UP_PLAYER',
   /** Player details (name, nickname, country) were updated */
   UPDATE_PLAYER: 'UPDATE_PLAYER',
   /** A player was deleted from the system */
   DELETE_PLAYER: 'DELETE_PLAYER',
   /** A player's password was regenerated by admin */
   RESET_PLAYER_PASSWORD: 'RESET_PLAYER_PASSWORD',
+  /** Players were created/updated in bulk from a roster file */
+  IMPORT_PLAYERS: 'IMPORT_PLAYERS',
+  /** A duplicate player was merged into another and soft-deleted */
+  MERGE_PLAYERS: 'MERGE_PLAYERS',
 
   // Time Attack (TA) actions
   /** A TA time entry was created or initial times submitted */
@@ -331,6 +371,8 @@ export const AUDIT_ACTIONS = {
   UPDATE_TA_ENTRY: 'UPDATE_TA_ENTRY',
   /** A TA entry was deleted */
   DELETE_TA_ENTRY: 'DELETE_TA_ENTRY',
+  /** The TA finals rule set (rank bands, lives, resets) was changed or cleared */
+  UPDATE_TA_FINALS_RULES: 'UPDATE_TA_FINALS_RULES',
 
   // Battle Mode (BM) actions
   /** A BM match was created (qualification or finals) */
@@ -373,6 +415,14 @@ export const AUDIT_ACTIONS = {
   UPDATE_QUALIFICATION_MATCH_CUP: 'UPDATE_QUALIFICATION_MATCH_CUP',
   /** An admin reconciled Top-24 barrage winners into pending Upper slots. */
   RECONCILE_PLAYOFF_UPPER_SLOTS: 'RECONCILE_PLAYOFF_UPPER_SLOTS',
+  /** An admin applied a planned schedule (start times and TVs) to qualification matches. */
+  APPLY_MATCH_SCHEDULE: 'APPLY_MATCH_SCHEDULE',
+  /** An admin called (or un-called) a match to its TV on the venue screen. */
+  CALL_MATCH: 'CALL_MATCH',
+  /** An admin paired the next Swiss-system qualification round. */
+  PAIR_SWISS_ROUND: 'PAIR_SWISS_ROUND',
+  /** An admin withdrew a player mid-qualification (matches voided or awarded as walkovers). */
+  WITHDRAW_QUALIFICATION_PLAYER: 'WITHDRAW_QUALIFICATION_PLAYER',
   /** Automatic bracket advancement overwrote a slot that had a manual override */
   AUTO_ADVANCE_OVERRODE_MANUAL_SLOT: 'AUTO_ADVANCE_OVERRODE_MANUAL_SLOT',
 
@@ -385,6 +435,8 @@ export const AUDIT_ACTIONS = {
   LOGIN_SUCCESS: 'LOGIN_SUCCESS',
   /** An authentication attempt failed (wrong credentials, etc.) */
   LOGIN_FAILURE: 'LOGIN_FAILURE',
+  /** An admin cleared a player's login lockout */
+  UNLOCK_PLAYER_LOGIN: 'UNLOCK_PLAYER_LOGIN',
 
   // Authorization events
   /** An authenticated user attempted an action they don't have permission for */
@@ -2,19 +2,21 @@
  * NextAuth v5 configuration
  *
  * Authentication supports two paths:
- * - Players sign in with nickname + password
+ * - Players sign in with nickname + password, rate limited per client IP
+ *   and nickname and locked per account after repeated failures (login-lockout.ts)
  * - Administrators sign in with Discord OAuth
  *
  * Discord access is restricted to users listed in ADMIN_DISCORD_IDS.
  */
 
-import NextAuth from 'next-auth';
+import NextAuth, { CredentialsSignin } from 'next-auth';
 import type { User } from 'next-auth';
+import type { NextRequest } from 'next/server';
 import Discord from 'next-auth/providers/discord';
 import Credentials from 'next-auth/providers/credentials';
 import bcrypt from 'bcryptjs';
 import { createLogger } from '@/lib/logger';
-import { REFRESH_TOKEN_EXPIRY } from '@/lib/constants';
+import { MAX_PLAYER_NICKNAME_LENGTH, REFRESH_TOKEN_EXPIRY } from '@/lib/constants';
 
 /**
  * Lazily import Prisma to avoid pulling the database client into the
@@ -29,6 +31,19 @@ async function getPrisma() {
 
 const logger = createLogger('auth');
 
+/**
+ * Credential sign-in rejections the sign-in page reports specifically.
+ * NextAuth forwards `code` to the client as `result.code`; a plain wrong
+ * password stays the generic `credentials` code so it reveals nothing.
+ */
+class LoginRateLimitedError extends CredentialsSignin {
+  code = 'rate_limited';
+}
+
+class AccountLockedError extends CredentialsSignin {
+  code = 'account_locked';
+}
+
 export function getAdminDiscordIds(): string[] {
   const ids = process.env.ADMIN_DISCORD_IDS || '';
   return ids
@@ -67,9 +82,7 @@ async function handleDiscordAdminSignIn(user: any, account: any, profile: any):
     },
   });
 
-  let dbUser = existingAccount
-    ? await prisma.user.findUnique({ where: { id: existingAccount.userId } })
-    : null;
+  let dbUser = existingAccount ? await prisma.user.findUnique({ where: { id: existingAccount.userId } }) : null;
 
   if (!dbUser) {
     dbUser = await prisma.user.findUnique({
@@ -152,15 +165,49 @@ export const authConfig = {
           placeholder: 'Enter your password',
         },
       },
-      async authorize(credentials) {
+      async authorize(credentials, request) {
         if (!credentials?.nickname || !credentials?.password) {
           logger.warn('Player login attempt with missing credentials');
           return null;
         }
 
-        const prisma = await getPrisma();
+        /* Loaded lazily for the same reason as Prisma: keep the edge
+           middleware bundle free of database code. */
+        const [prisma, { checkRateLimit }, { getClientIdentifier, getUserAgent }, audit, { getLoginLockout }] =
+          await Promise.all([
+            getPrisma(),
+            import('@/lib/rate-limit'),
+            import('@/lib/request-utils'),
+            import('@/lib/audit-log'),
+            import('@/lib/login-lockout'),
+          ]);
         const nickname = credentials.nickname as string;
         const password = credentials.password as string;
+        const ipAddress = request ? getClientIdentifier(request as NextRequest) : 'unknown';
+        const userAgent = request ? getUserAgent(request as NextRequest) : 'unknown';
+
+        /* Keyed by nickname too, so players signing in over a shared venue
+           network do not use up each other's attempts. */
+        const rateResult = await checkRateLimit(
+          'login',
+          `${ipAddress}:${nickname.slice(0, MAX_PLAYER_NICKNAME_LENGTH)}`,
+        );
+        if (!rateResult.success) {
+          logger.warn('Player login rate limited', { nickname, ipAddress });
+          throw new LoginRateLimitedError();
+        }
+
+        /* Awaited (createAuditLog never throws) so the next attempt's
+           lockout check already sees this one. */
+        const recordFailure = (reason: string, playerId?: string) =>
+          audit.createAuditLog({
+            ipAddress,
+            userAgent,
+            action: audit.AUDIT_ACTIONS.LOGIN_FAILURE,
+            targetId: playerId,
+            targetType: playerId ? 'Player' : undefined,
+            details: { nickname, reason },
+          });
 
         try {
           const player = await prisma.player.findUnique({
@@ -172,12 +219,25 @@ export const authConfig = {
             logger.warn('Player login failed: player not found or no password', {
               nickname,
             });
+            await recordFailure('unknown_player');
             return null;
           }
 
+          const lockout = await getLoginLockout(player.id, prisma);
+          if (lockout.locked) {
+            logger.warn('Player login rejected: account locked', {
+              nickname,
+              lockedUntil: lockout.lockedUntil,
+            });
+            /* No player target: attempts during a lock must not extend it. */
+            await recordFailure('account_locked');
+            throw new AccountLockedError();
+          }
+
           const isValid = await bcrypt.compare(password, player.password);
           if (!isValid) {
             logger.warn('Player login failed: invalid password', { nickname });
+            await recordFailure('invalid_password', player.id);
             return null;
           }
 
@@ -185,6 +245,14 @@ export const authConfig = {
             nickname,
             playerId: player.id,
           });
+          await audit.createAuditLog({
+            ipAddress,
+            userAgent,
+            action: audit.AUDIT_ACTIONS.LOGIN_SUCCESS,
+            targetId: player.id,
+            targetType: 'Player',
+            details: { nickname },
+          });
 
           return {
             id: player.id,
@@ -197,6 +265,7 @@ export const authConfig = {
             nickname: player.nickname,
           };
         } catch (error) {
+          if (error instanceof CredentialsSignin) throw error;
           logger.error('Player login error', {
             error: error instanceof Error ? error.message : String(error),
           });
@@ -256,10 +325,8 @@ export const authConfig = {
         session.user.playerId = token.playerId as string | undefined;
         session.user.nickname = token.nickname as string | undefined;
 
-        (session as Record<string, unknown>).accessTokenExpires =
-          token.accessTokenExpires;
-        (session as Record<string, unknown>).refreshTokenExpires =
-          token.refreshTokenExpires;
+        (session as Record<string, unknown>).accessTokenExpires = token.accessTokenExpires;
+        (session as Record<string, unknown>).refreshTokenExpires = token.refreshTokenExpires;
       }
 
       return session;
@@ -292,10 +359,7 @@ export const authConfig = {
         });
       }
 
-      if (
-        token.accessTokenExpires &&
-        typeof token.accessTokenExpires === 'number'
-      ) {
+      if (token.accessTokenExpires && typeof token.accessTokenExpires === 'number') {
         const now = Date.now();
         if (now > token.accessTokenExpires) {
           if (
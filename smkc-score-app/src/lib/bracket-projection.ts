@@ -0,0 +1,292 @@
+/**
+ * Finals bracket path projection.
+ *
+ * Answers a player's "if I lose, where do I go?" for one BM/MR/GP finals or
+ * playoff bracket: the matches they play by winning out, the matches they
+ * drop into by losing their next one, and every match they can still reach.
+ * Paths follow the `winnerGoesTo`/`loserGoesTo` routing of the bracket
+ * structure; the Grand Final is the only special case, as its reset is
+ * populated outside the structure (finals-route.ts).
+ *
+ * The guaranteed placement assumes the player loses every remaining match and
+ * uses the same round → position rules as getMatchFinalsPositions
+ * (overall-ranking.ts), so the projected finals points are the points the
+ * player would actually receive.
+ *
+ * Round-robin finals have no routing and are not projected.
+ */
+import type { BracketMatch } from '@/types/bracket';
+import {
+  resolveBracketWinnerFlags,
+  type BracketWinnerMatch,
+  type BracketWinnerResolver,
+} from '@/lib/bracket-winner-flags';
+import { getLosersRoundPlacements, isFinalsBracketSize } from '@/lib/double-elimination';
+import {
+  getFinalsEntrantCount,
+  getFinalsFormatFromRound,
+  getSingleEliminationPlacements,
+  isSupportedFinalsSize,
+  SINGLE_ELIMINATION_THIRD_PLACE_ROUND,
+} from '@/lib/finals-format';
+import { buildSlotSourceMap, getFinalsSlotStatus, type SlotStatusMatch } from '@/lib/finals-slot-status';
+import { getFinalsPoints, type FinalsMode } from '@/lib/points/finals-points';
+
+/** Playoff (barrage) losers, placed as in getMatchFinalsPositions. */
+const PLAYOFF_LOSER_PLACEMENTS: Record<string, number> = { playoff_r1: 21, playoff_r2: 17 };
+
+export interface ProjectionMatch extends SlotStatusMatch {
+  /** Resolved winner of a completed match; null while undecided. */
+  winnerId: string | null;
+}
+
+export interface ProjectedPlacement {
+  position: number;
+  points: number;
+}
+
+/**
+ * - active:   the player still has a match to play
+ * - finished: the player's placement is final
+ * - advanced: the player won the playoff and continues in the Upper Bracket
+ */
+export type BracketProjectionStatus = 'active' | 'finished' | 'advanced';
+
+export interface BracketProjection {
+  status: BracketProjectionStatus;
+  /** Next match the player is confirmed in; null unless active. */
+  currentMatch: number | null;
+  /** Matches after currentMatch when the player wins every one. */
+  winPath: number[];
+  /** Matches after currentMatch when the player loses it, then wins out. */
+  lossPath: number[];
+  /** Every match after currentMatch the player can still appear in. */
+  reachable: number[];
+  /** Unfinished matches that must complete before currentMatch can start. */
+  waitingOn: number[];
+  /** Guaranteed placement: the player loses every remaining match. */
+  worst: ProjectedPlacement | null;
+  /** Best possible placement: the player wins every remaining match. */
+  best: ProjectedPlacement | null;
+}
+
+export type ProjectionHighlight = 'current' | 'win' | 'loss' | 'waiting' | 'possible';
+
+type Slot = 1 | 2;
+
+interface Step {
+  matchNumber: number;
+  slot: Slot;
+}
+
+/** Where the player in `slot` of `from` goes after winning or losing it. */
+function nextStep(structure: BracketMatch[], from: BracketMatch, slot: Slot, won: boolean): Step | null {
+  /* The Grand Final goes to the reset when the Losers Bracket champion
+   * (slot 2) wins it; the reset puts that winner in slot 1. */
+  if (from.round === 'grand_final' && (slot === 1) !== won) {
+    const reset = structure.find((b) => b.round === 'grand_final_reset');
+    return reset ? { matchNumber: reset.matchNumber, slot: won ? 1 : 2 } : null;
+  }
+  const target = won ? from.winnerGoesTo : from.loserGoesTo;
+  if (!target) return null;
+  return { matchNumber: target, slot: (won ? from.position : from.loserPosition) ?? 1 };
+}
+
+/** Steps after `start` when the player keeps winning (or keeps losing). */
+function walk(structure: BracketMatch[], start: Step, won: boolean): Step[] {
+  const path: Step[] = [];
+  let step: Step | null = start;
+  while (step) {
+    const bracketMatch = structure.find((b) => b.matchNumber === step?.matchNumber);
+    step = bracketMatch ? nextStep(structure, bracketMatch, step.slot, won) : null;
+    if (step) path.push(step);
+  }
+  return path;
+}
+
+/** Finishing position of a player knocked out in `round`. */
+function getLoserPlacement(structure: BracketMatch[], round: string): number | null {
+  if (round === 'grand_final' || round === 'grand_final_reset') return 2;
+  if (round === SINGLE_ELIMINATION_THIRD_PLACE_ROUND) return 4;
+  if (PLAYOFF_LOSER_PLACEMENTS[round]) return PLAYOFF_LOSER_PLACEMENTS[round];
+  const size = getFinalsEntrantCount(structure);
+  if (getFinalsFormatFromRound(round) === 'single_elimination') {
+    return isSupportedFinalsSize('single_elimination', size)
+      ? (getSingleEliminationPlacements(size).get(round) ?? null)
+      : null;
+  }
+  return isFinalsBracketSize(size) ? (getLosersRoundPlacements(size).get(round) ?? null) : null;
+}
+
+/** Finishing position of a player who wins `round` and has nowhere to go; null for playoff winners. */
+function getWinnerPlacement(round: string): number | null {
+  if (round === SINGLE_ELIMINATION_THIRD_PLACE_ROUND) return 3;
+  return round.startsWith('playoff_') ? null : 1;
+}
+
+function toPlacement(mode: Exclude<FinalsMode, 'TA'>, position: number | null): ProjectedPlacement | null {
+  return position == null ? null : { position, points: getFinalsPoints(mode, position) };
+}
+
+/** Unfinished matches feeding the TBD slots of `matchNumber`, recursively. */
+function collectWaitingOn(
+  matchNumber: number,
+  structure: BracketMatch[],
+  matches: ProjectionMatch[],
+  sources: Map<string, number>,
+  found: Set<number>,
+): void {
+  const status = getFinalsSlotStatus(matchNumber, matches, structure);
+  const isReset = structure.some((b) => b.matchNumber === matchNumber && b.round === 'grand_final_reset');
+  const grandFinal = structure.find((b) => b.round === 'grand_final')?.matchNumber;
+  for (const slot of [1, 2] as const) {
+    if (!(slot === 1 ? status.player1 : status.player2)) continue;
+    const source = sources.get(`${matchNumber}-${slot}`) ?? (isReset ? grandFinal : undefined);
+    if (source == null || found.has(source)) continue;
+    if (matches.find((m) => m.matchNumber === source)?.completed) continue;
+    found.add(source);
+    collectWaitingOn(source, structure, matches, sources, found);
+  }
+}
+
+/**
+ * Project `playerId`'s remaining path through a finals or playoff bracket.
+ *
+ * @param structure - Routing structure of the bracket (finals or playoff)
+ * @param matches   - Persisted matches of that bracket with resolved winners
+ * @returns null when the player has no match in this bracket, or the
+ *   bracket is a round-robin pool
+ */
+export function projectBracketPath(
+  structure: BracketMatch[],
+  matches: ProjectionMatch[],
+  playerId: string,
+  mode: Exclude<FinalsMode, 'TA'>,
+): BracketProjection | null {
+  if (structure.length === 0 || getFinalsFormatFromRound(structure[0].round) === 'round_robin') return null;
+
+  const ordered = matches
+    .filter((m) => structure.some((b) => b.matchNumber === m.matchNumber))
+    .sort((a, b) => a.matchNumber - b.matchNumber);
+  const slotOf = (m: ProjectionMatch): Slot | null =>
+    m.player1Id === playerId ? 1 : m.player2Id === playerId ? 2 : null;
+  const bracketMatchOf = (matchNumber: number) => structure.find((b) => b.matchNumber === matchNumber);
+
+  /* The player's next match is the first undecided one they are routed into.
+   * Slots still waiting on their source hold no real player (or a legacy
+   * placeholder) and are skipped. */
+  let start: Step | null = null;
+  for (const m of ordered) {
+    const slot = slotOf(m);
+    if (!slot || (m.completed && m.winnerId)) continue;
+    const status = getFinalsSlotStatus(m.matchNumber, matches, structure);
+    if (!(slot === 1 ? status.player1 : status.player2)) {
+      start = { matchNumber: m.matchNumber, slot };
+      break;
+    }
+  }
+
+  if (!start) {
+    const last = ordered.filter((m) => slotOf(m) && m.completed).at(-1);
+    const bracketMatch = last && bracketMatchOf(last.matchNumber);
+    if (!last || !bracketMatch) return null;
+    const won = last.winnerId === playerId;
+    /* A completed match whose routing has not been written yet still sends
+     * the player on; only a terminal result fixes the placement. */
+    start = nextStep(structure, bracketMatch, slotOf(last) as Slot, won);
+    if (!start) {
+      const position = won ? getWinnerPlacement(bracketMatch.round) : getLoserPlacement(structure, bracketMatch.round);
+      const placement = toPlacement(mode, position);
+      return {
+        status: won && position == null ? 'advanced' : 'finished',
+        currentMatch: null,
+        winPath: [],
+        lossPath: [],
+        reachable: [],
+        waitingOn: [],
+        worst: placement,
+        best: placement,
+      };
+    }
+  }
+
+  const current = bracketMatchOf(start.matchNumber);
+  const winPath = walk(structure, start, true);
+  const afterLoss = current ? nextStep(structure, current, start.slot, false) : null;
+  const lossPath = afterLoss ? [afterLoss, ...walk(structure, afterLoss, true)] : [];
+  const lastLoss = [start, ...walk(structure, start, false)].at(-1) as Step;
+  const lastWin = [start, ...winPath].at(-1) as Step;
+
+  const reachable = new Set<number>();
+  const queue: Step[] = [start];
+  const seen = new Set<string>();
+  while (queue.length > 0) {
+    const step = queue.pop() as Step;
+    const bracketMatch = bracketMatchOf(step.matchNumber);
+    if (!bracketMatch || seen.has(`${step.matchNumber}-${step.slot}`)) continue;
+    seen.add(`${step.matchNumber}-${step.slot}`);
+    for (const won of [true, false]) {
+      const next = nextStep(structure, bracketMatch, step.slot, won);
+      if (next) {
+        reachable.add(next.matchNumber);
+        queue.push(next);
+      }
+    }
+  }
+
+  const waitingOn = new Set<number>();
+  collectWaitingOn(start.matchNumber, structure, matches, buildSlotSourceMap(structure), waitingOn);
+
+  return {
+    status: 'active',
+    currentMatch: start.matchNumber,
+    winPath: winPath.map((step) => step.matchNumber),
+    lossPath: lossPath.map((step) => step.matchNumber),
+    reachable: [...reachable].sort((a, b) => a - b),
+    waitingOn: [...waitingOn].sort((a, b) => a - b),
+    worst: toPlacement(mode, getLoserPlacement(structure, bracketMatchOf(lastLoss.matchNumber)?.round ?? '')),
+    best: toPlacement(mode, getWinnerPlacement(bracketMatchOf(lastWin.matchNumber)?.round ?? '')),
+  };
+}
+
+/** How a bracket card relates to a projection; the first matching role wins. */
+export function getProjectionHighlight(
+  projection: BracketProjection | null,
+  matchNumber: number,
+): ProjectionHighlight | null {
+  if (!projection) return null;
+  if (projection.currentMatch === matchNumber) return 'current';
+  if (projection.winPath.includes(matchNumber)) return 'win';
+  if (projection.lossPath.includes(matchNumber)) return 'loss';
+  if (projection.waitingOn.includes(matchNumber)) return 'waiting';
+  if (projection.reachable.includes(matchNumber)) return 'possible';
+  return null;
+}
+
+/**
+ * Normalise bracket rows for projectBracketPath, resolving each winner the
+ * same way the bracket cards do (resolveBracketWinnerFlags).
+ */
+export function toProjectionMatches<TMatch extends BracketWinnerMatch & { matchNumber: number; round?: string | null }>(
+  matches: TMatch[],
+  structure: BracketMatch[],
+  getTargetWins?: (match: TMatch | undefined, bracketMatch: BracketMatch) => number,
+  getWinnerId?: BracketWinnerResolver<TMatch>,
+): ProjectionMatch[] {
+  return matches.flatMap((match) => {
+    const bracketMatch = structure.find((b) => b.matchNumber === match.matchNumber);
+    if (!bracketMatch) return [];
+    const targetWins = getTargetWins?.(match, bracketMatch) ?? 3;
+    const { isWinner1, isWinner2 } = resolveBracketWinnerFlags(match, bracketMatch, targetWins, getWinnerId);
+    return [
+      {
+        matchNumber: match.matchNumber,
+        round: match.round,
+        completed: match.completed,
+        player1Id: match.player1Id,
+        player2Id: match.player2Id,
+        winnerId: isWinner1 ? match.player1Id : isWinner2 ? match.player2Id : null,
+      },
+    ];
+  });
+}
@@ -0,0 +1,273 @@
+/**
+ * Cache Backend Module
+ *
+ * Storage layer shared by the standings cache and the overall-ranking cache.
+ * On Workers each isolate has its own module scope, so a per-isolate Map
+ * cannot see invalidations made by another isolate. This module puts the
+ * cache behind a small backend interface with three implementations:
+ *
+ * - memory: per-isolate LRU Map. Used in tests, local development and
+ *   whenever no shared backend is configured.
+ * - kv:     Workers KV namespace bound as `CACHE_KV`. Cheapest reads, but
+ *   writes take up to ~60s to reach other locations.
+ * - d1:     the `CacheEntry` table in the app database. Consistent across
+ *   isolates at the cost of a D1 round-trip per lookup.
+ *
+ * The backend is chosen with the `CACHE_BACKEND` variable ("memory", "kv"
+ * or "d1"); a misconfigured choice falls back to memory with a warning.
+ * Shared backends fail soft: a storage error is logged and treated as a
+ * miss (or a skipped write), so a cache outage only costs extra queries.
+ *
+ * Versioned keys: every key built by `tournamentCacheKey()` embeds the
+ * tournament's current cache generation. `bumpTournamentCacheGeneration()`
+ * moves the tournament to a new generation, which orphans every entry
+ * written under the old one at once; orphaned entries simply expire. A
+ * missing generation is initialised to a fresh value rather than 0, so
+ * an evicted or expired counter can never resurrect entries from before
+ * the last bump.
+ */
+
+import type { KVNamespace } from '@cloudflare/workers-types';
+import { getCloudflareContext } from '@opennextjs/cloudflare';
+import prisma from '@/lib/prisma';
+import { createLogger } from './logger';
+
+export type CacheBackendName = 'memory' | 'kv' | 'd1';
+
+/**
+ * Minimal key/value contract every backend implements. Values must be
+ * JSON-serialisable: shared backends round-trip them through JSON.
+ */
+export interface CacheBackend {
+  readonly name: CacheBackendName;
+  get<T>(key: string): Promise<T | null>;
+  set(key: string, value: unknown, ttlMs: number): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+/** Memory backend with a `clear()` for tests and manual resets. */
+export interface MemoryCacheBackend extends CacheBackend {
+  clear(): void;
+  readonly size: number;
+}
+
+const log = createLogger('cache-backend');
+
+/** Default capacity of the in-memory backend. */
+const MEMORY_CACHE_MAX_ENTRIES = 200;
+
+/** KV rejects expirationTtl values below 60 seconds. */
+const KV_MIN_TTL_SECONDS = 60;
+
+/**
+ * Lifetime of a generation counter. Must outlive every cached entry so an
+ * expired counter cannot be re-created while entries under it still live.
+ */
+const GENERATION_TTL_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Per-isolate LRU backend. Map preserves insertion order, so reads and
+ * writes re-insert the key to mark it most recently used and eviction
+ * drops from the front.
+ */
+export function createMemoryCacheBackend(maxEntries = MEMORY_CACHE_MAX_ENTRIES): MemoryCacheBackend {
+  const entries = new Map<string, { value: unknown; expiresAt: number }>();
+
+  return {
+    name: 'memory',
+    async get<T>(key: string) {
+      const entry = entries.get(key);
+      if (!entry) return null;
+      entries.delete(key);
+      if (entry.expiresAt <= Date.now()) return null;
+      entries.set(key, entry);
+      return entry.value as T;
+    },
+    async set(key, value, ttlMs) {
+      entries.delete(key);
+      entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+      while (entries.size > maxEntries) {
+        const oldest = entries.keys().next().value;
+        if (oldest === undefined) break;
+        entries.delete(oldest);
+      }
+    },
+    async delete(key) {
+      entries.delete(key);
+    },
+    clear() {
+      entries.clear();
+    },
+    get size() {
+      return entries.size;
+    },
+  };
+}
+
+/** Workers KV backend. KV expires entries itself. */
+export function createKvCacheBackend(kv: KVNamespace): CacheBackend {
+  return {
+    name: 'kv',
+    async get<T>(key: string) {
+      return (await kv.get<T>(key, 'json')) ?? null;
+    },
+    async set(key, value, ttlMs) {
+      await kv.put(key, JSON.stringify(value), {
+        expirationTtl: Math.max(KV_MIN_TTL_SECONDS, Math.ceil(ttlMs / 1000)),
+      });
+    },
+    async delete(key) {
+      await kv.delete(key);
+    },
+  };
+}
+
+/**
+ * D1 backend on the `CacheEntry` table. Expired rows are ignored on read;
+ * each write also purges rows that have expired so the table stays small.
+ */
+export function createD1CacheBackend(client: typeof prisma = prisma): CacheBackend {
+  return {
+    name: 'd1',
+    async get<T>(key: string) {
+      const row = await client.cacheEntry.findUnique({ where: { key } });
+      if (!row || row.expiresAt.getTime() <= Date.now()) return null;
+      return JSON.parse(row.value) as T;
+    },
+    async set(key, value, ttlMs) {
+      const now = new Date();
+      const data = { value: JSON.stringify(value), expiresAt: new Date(now.getTime() + ttlMs) };
+      await client.cacheEntry.upsert({ where: { key }, create: { key, ...data }, update: data });
+      await client.cacheEntry.deleteMany({ where: { expiresAt: { lte: now } } });
+    },
+    async delete(key) {
+      await client.cacheEntry.deleteMany({ where: { key } });
+    },
+  };
+}
+
+/**
+ * Wrap a shared backend so storage errors degrade to cache misses instead
+ * of failing the request that happened to touch the cache.
+ */
+function failSoft(backend: CacheBackend): CacheBackend {
+  const warn = (operation: string, key: string, error: unknown) =>
+    log.warn(`Cache ${operation} failed`, { error, backend: backend.name, key });
+  return {
+    name: backend.name,
+    async get<T>(key: string) {
+      try {
+        return await backend.get<T>(key);
+      } catch (error) {
+        warn('get', key, error);
+        return null;
+      }
+    },
+    async set(key, value, ttlMs) {
+      try {
+        await backend.set(key, value, ttlMs);
+      } catch (error) {
+        warn('set', key, error);
+      }
+    },
+    async delete(key) {
+      try {
+        await backend.delete(key);
+      } catch (error) {
+        warn('delete', key, error);
+      }
+    },
+  };
+}
+
+/** Shared memory backend; also the fallback when a shared backend is unavailable. */
+const memoryBackend = createMemoryCacheBackend();
+
+/** Explicit override installed by tests via `setCacheBackend()`. */
+let overrideBackend: CacheBackend | null = null;
+
+/**
+ * Resolve the backend for the current request. KV and D1 bindings are
+ * per-invocation on Workers, so the shared backends are built per call;
+ * they are thin wrappers with no state of their own.
+ */
+export function getCacheBackend(): CacheBackend {
+  if (overrideBackend) return overrideBackend;
+
+  const configured = process.env.CACHE_BACKEND;
+  if (configured === 'd1') return failSoft(createD1CacheBackend());
+  if (configured === 'kv') {
+    let kv: KVNamespace | undefined;
+    try {
+      kv = getCloudflareContext().env.CACHE_KV;
+    } catch {
+      kv = undefined;
+    }
+    if (kv) return failSoft(createKvCacheBackend(kv));
+    log.warn('CACHE_BACKEND=kv but no CACHE_KV binding is available; using memory cache');
+  }
+  return memoryBackend;
+}
+
+/**
+ * Replace the backend for every cache consumer. Pass null to return to the
+ * configured backend. Exported for tests.
+ */
+export function setCacheBackend(backend: CacheBackend | null): void {
+  overrideBackend = backend;
+}
+
+/** Drop every entry from the in-memory backend. */
+export function clearMemoryCache(): void {
+  memoryBackend.clear();
+}
+
+function generationKey(tournamentId: string): string {
+  return `generation:${tournamentId}`;
+}
+
+/** Timestamp plus a random suffix, so two bumps in the same millisecond still differ. */
+function newGeneration(): string {
+  return `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+}
+
+/**
+ * Current cache generation for a tournament, initialising it on first use.
+ */
+export async function getTournamentCacheGeneration(
+  tournamentId: string,
+  backend: CacheBackend = getCacheBackend(),
+): Promise<string> {
+  const key = generationKey(tournamentId);
+  const current = await backend.get<string>(key);
+  if (current) return current;
+
+  const generation = newGeneration();
+  await backend.set(key, generation, GENERATION_TTL_MS);
+  return generation;
+}
+
+/**
+ * Move a tournament to a new generation, invalidating every cached entry
+ * for it (all standings stages and the overall ranking) in one write.
+ */
+export async function bumpTournamentCacheGeneration(
+  tournamentId: string,
+  backend: CacheBackend = getCacheBackend(),
+): Promise<void> {
+  await backend.set(generationKey(tournamentId), newGeneration(), GENERATION_TTL_MS);
+  log.debug(`Bumped cache generation for tournament ${tournamentId}`);
+}
+
+/**
+ * Build a versioned cache key: `<namespace>:<tournamentId>:g<generation>:<parts>`.
+ */
+export async function tournamentCacheKey(
+  namespace: string,
+  tournamentId: string,
+  parts: string[] = [],
+  backend: CacheBackend = getCacheBackend(),
+): Promise<string> {
+  const generation = await getTournamentCacheGeneration(tournamentId, backend);
+  return [namespace, tournamentId, `g${generation}`, ...parts].join(':');
+}
@@ -0,0 +1,19 @@
+/**
+ * Post-login redirect target.
+ *
+ * The middleware and the tournament sign-up page send visitors to the
+ * sign-in / sign-up pages with a `callbackUrl` query parameter. Only
+ * same-origin paths are honoured so the parameter cannot be used as an
+ * open redirect.
+ */
+
+export const DEFAULT_CALLBACK_URL = '/tournaments';
+
+/** The `callbackUrl` of a query string when it is a same-origin path, otherwise the fallback. */
+export function readCallbackUrl(search: string, fallback: string = DEFAULT_CALLBACK_URL): string {
+  const value = new URLSearchParams(search).get('callbackUrl');
+  if (!value || !value.startsWith('/') || value.startsWith('//') || value.startsWith('/\\')) {
+    return fallback;
+  }
+  return value;
+}
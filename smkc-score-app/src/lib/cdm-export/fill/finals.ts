@@ -976,8 +976,9 @@ function buildFaithfulOr16(
 /**
  * Playoff-only partial state (entrants seeded, winners_r1 not yet generated).
  * B-positions 13..24 come from the playoff; 1..12 fall back to qualification rank
- * (rankOverride asc nulls-last -> score desc -> points desc -> seeding asc ->
- * nickname asc) so the direct qualifiers still appear in the seed list.
+ * (withdrawn last -> rankOverride asc nulls-last -> score desc -> points desc ->
+ * seeding asc -> nickname asc) so the direct qualifiers still appear in the
+ * seed list.
  */
 function reconstructPlayoffOnly(
   byRound: Map<string, CdmMatch[]>,
@@ -1003,11 +1004,13 @@ function reconstructPlayoffOnly(
 
 /**
  * Order qualifiers by the documented qualification-rank tiebreak:
- *   rankOverride ascending (nulls last) -> score desc -> points desc ->
- *   seeding asc (nulls last) -> nickname asc.
+ *   withdrawn players last -> rankOverride ascending (nulls last) ->
+ *   score desc -> points desc -> seeding asc (nulls last) -> nickname asc.
  */
 function rankQualifiers(quals: CdmModeQualification[]): CdmModeQualification[] {
   return [...quals].sort((a, b) => {
+    const withdrawnDiff = Number(a.withdrawnAt != null) - Number(b.withdrawnAt != null);
+    if (withdrawnDiff !== 0) return withdrawnDiff;
     const ra = a.rankOverride ?? null;
     const rb = b.rankOverride ?? null;
     if (ra !== rb) {
@@ -31,7 +31,12 @@
  *   there is exactly what produced the old exporter's #SPILL! corruption.
  *
  * Incomplete matches clear the score cell(s) (never write a bogus 0); the
- * template formulas treat blank scores as "not played yet". Unused rows within
+ * template formulas treat blank scores as "not played yet".
+ *
+ * A withdrawn player needs no special case: under the 'void' policy their
+ * matches became BREAK rows and drop out of every block like any BYE, so the
+ * sheet's W/T/L formulas agree with the app; under 'walkover' the awarded
+ * matches are ordinary completed matches and are written with their scores. Unused rows within
  * an owned block and every cell of an unused block are cleared so a re-used
  * template never keeps stale data.
  */
@@ -41,6 +41,9 @@
  *     round's loss, so display Left must equal 3. With display = inputLeft +
  *     Gain - Lost we need Gain = initialLives - inputLeft + Lost for survivors.
  *
+ * The "3" above is the rulebook value; a tournament's finals rule set can
+ * change both the starting lives and the lives each phase-3 round costs.
+ *
  * Universe: the 24 round-1 rows are qualification ranks 1..24 (the sheet's
  * B3 = OFFSET('TT Qualifications'!CN2,0,0,'Main Hub'!O3) spills the qualifying
  * order). Every finalist therefore owns a row from round 1; players who have
@@ -55,11 +58,14 @@ import { compareQualificationRankOrder, type EntryWithTotal } from '@/lib/ta/ran
 import { type CourseResult } from '@/lib/ta/finals-phase-manager';
 import { orderResultsWithSuddenDeathChain } from '@/lib/ta/sudden-death-order';
 import { createLogger } from '@/lib/logger';
+import { DEFAULT_TA_FINALS_RULES } from '@/lib/ta/finals-rules';
 import { TT_FINALS_MAX_ROUNDS, TT_FINALS_MAX_FINALISTS } from '../cdm-constants';
 
-/** Mirrors PHASE_CONFIG.phase3.initialLives (finals-phase-manager.ts:70). */
-const PHASE3_INITIAL_LIVES = 3;
-// Note: the reset thresholds [8,4,2] (PHASE_CONFIG.phase3.lifeResetThresholds)
+// Phase-3 starting lives and per-round life loss come from the tournament's
+// finals rule set (data.taFinalsRules, finals-rules.ts; rulebook defaults 3
+// and 1 when absent). A round's stored lifeLoss wins over the rule set's.
+//
+// Note: the reset thresholds (rulebook [8,4,2], phase3.lifeResetThresholds)
 // are intentionally NOT recomputed here. processPhase3Result already collapses
 // "did a reset happen this round" into the persisted round.livesReset flag
 // (finals-phase-manager.ts:786-803), so detectLivesReset reads that flag rather
@@ -116,6 +122,8 @@ interface ResultRow {
  */
 export function replayTTFinals(data: CdmTournamentData): TTFinalsReplayRound[] {
   const logger = createLogger('cdm-tt-finals-replay');
+  const finalsRules = data.taFinalsRules ?? DEFAULT_TA_FINALS_RULES;
+  const initialLives = finalsRules.phase3.initialLives;
 
   // ---- 1. Build the 24-player universe from the qualification ranking. ----
   // The sheet's round-1 rows are qualification ranks 1..24 in finishing order.
@@ -173,7 +181,7 @@ export function replayTTFinals(data: CdmTournamentData): TTFinalsReplayRound[] {
         if (!phase3Entered.has(id)) {
           phase3Entered.add(id);
           const carried = livesCarried.get(id) ?? 1;
-          const grant = PHASE3_INITIAL_LIVES - carried;
+          const grant = initialLives - carried;
           if (grant !== 0) gains.set(id, grant);
           // Effective lives going into the loss step is the topped-up value.
           livesCarried.set(id, carried + grant);
@@ -205,10 +213,14 @@ export function replayTTFinals(data: CdmTournamentData): TTFinalsReplayRound[] {
     const isResetRound = phase === 'phase3' && detectLivesReset(round);
 
     // --- Apply per-row life arithmetic to obtain display "Left". ---
+    // The sheet's Lost column is a 0/1 flag, so a phase-3 round costing more
+    // than one life books the extra lives as negative Gain.
+    const roundLifeLoss = phase === 'phase3' ? (round.lifeLoss ?? finalsRules.phase3.lifeLoss) : 1;
     const livesAfter = new Map<string, number>();
     for (const id of universeIds) {
       const before = livesCarried.get(id) ?? 0;
-      const lost = lostLife.has(id) ? 1 : 0;
+      const lost = lostLife.has(id) ? Math.min(before, roundLifeLoss) : 0;
+      if (lost > 1) gains.set(id, (gains.get(id) ?? 0) - (lost - 1));
       let after = before - lost;
       // The engine resets ONLY surviving phase-3 participants
       // (processPhase3Result, finals-phase-manager.ts:793-802 —
@@ -220,12 +232,12 @@ export function replayTTFinals(data: CdmTournamentData): TTFinalsReplayRound[] {
       // entry") and `after > 0` (== not eliminated this round).
       if (isResetRound && phase3Entered.has(id) && after > 0) {
         // Surviving players are reset to the initial lives; encode the delta as
-        // additional Gain so display Left (= before + Gain - lost) equals 3.
-        const extra = PHASE3_INITIAL_LIVES - after;
+        // additional Gain so display Left (= before + Gain - lost) equals initialLives.
+        const extra = initialLives - after;
         if (extra !== 0) {
           gains.set(id, (gains.get(id) ?? 0) + extra);
         }
-        after = PHASE3_INITIAL_LIVES;
+        after = initialLives;
       }
       livesAfter.set(id, after);
       livesCarried.set(id, after);
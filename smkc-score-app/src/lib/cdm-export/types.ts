@@ -9,6 +9,8 @@
  * cell contract; coordinates live in cdm-constants.ts.
  */
 
+import type { TaFinalsRules } from '@/lib/ta/finals-rules';
+
 /** Worksheet names of the CDM template (must match xl/workbook.xml exactly). */
 export type CdmSheetName =
   | 'Main Hub'
@@ -69,6 +71,8 @@ export interface CdmModeQualification {
   seeding: number | null;
   group: string;
   rankOverride?: number | null;
+  /** Set when the player withdrew mid-qualification; they rank after every active player. */
+  withdrawnAt?: Date | string | null;
   points: number;
   score: number;
 }
@@ -132,6 +136,8 @@ export interface CdmTTPhaseRound {
   results: unknown; // [{playerId, timeMs, isRetry}]
   eliminatedIds?: unknown; // playerId[]
   livesReset: boolean;
+  /** Lives the phase-3 bottom half lost this round; absent on rows stored before the column existed. */
+  lifeLoss?: number;
   /**
    * Resolved sudden-death rounds tied to this base round, oldest first
    * (TTPhaseSuddenDeathRound.sequence ascending). A base round can accumulate
@@ -171,6 +177,8 @@ export interface CdmTournamentData {
   mrFinalsSeedSnapshot?: CdmFinalsSeedSnapshotEntry[];
   gpFinalsSeedSnapshot?: CdmFinalsSeedSnapshotEntry[];
   finalsRoundSettings?: CdmFinalsRoundSetting[];
+  /** TA finals rule set (readStoredTaFinalsRules); rulebook defaults when absent. */
+  taFinalsRules?: TaFinalsRules;
 }
 
 export type CdmVersusMode = 'bm' | 'mr' | 'gp';
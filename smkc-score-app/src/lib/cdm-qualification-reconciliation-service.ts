@@ -678,7 +678,7 @@ export async function applyCdmQualificationReconciliation(params: {
 
   await executeAtomicStatements(statements);
 
-  invalidateOverallRankingsCache(params.tournamentId);
+  await invalidateOverallRankingsCache(params.tournamentId);
   try {
     await invalidate(params.tournamentId);
   } catch (error) {
@@ -9,6 +9,7 @@ import {
   getScheduleOnlyBreakData,
   UnsupportedRoundRobinPlayerCountError,
 } from '@/lib/round-robin';
+import { digestJson } from '@/lib/digest';
 
 export type CdmReconciliationMode = 'bm' | 'mr' | 'gp';
 
@@ -677,32 +678,8 @@ export function buildCdmQualificationReconciliationPlan(
   return { modes, totalChanges, digestPayload };
 }
 
-const FNV_32_PRIME = 0x01000193;
-const FALLBACK_HASH_SEEDS = [
-  0x811c9dc5, 0x9e3779b9, 0x85ebca6b, 0xc2b2ae35, 0x27d4eb2f, 0x165667b1, 0xd3a2646c, 0xfd7046c5,
-] as const;
-
-function fallbackDigest(serialized: string): string {
-  return FALLBACK_HASH_SEEDS.map((seed) => {
-    let hash = seed >>> 0;
-    for (let index = 0; index < serialized.length; index++) {
-      const codeUnit = serialized.charCodeAt(index);
-      hash = Math.imul(hash ^ (codeUnit & 0xff), FNV_32_PRIME) >>> 0;
-      hash = Math.imul(hash ^ (codeUnit >>> 8), FNV_32_PRIME) >>> 0;
-    }
-    return hash.toString(16).padStart(8, '0');
-  }).join('');
-}
-
-export async function digestCdmPayload(value: unknown): Promise<string> {
-  const serialized = JSON.stringify(value);
-  const subtle = globalThis.crypto?.subtle;
-  if (!subtle) return fallbackDigest(serialized);
-
-  const encoded = new TextEncoder().encode(serialized);
-  const digest = await subtle.digest('SHA-256', encoded);
-  return [...new Uint8Array(digest)].map((byte) => byte.toString(16).padStart(2, '0')).join('');
-}
+/** Kept under its original name for the CDM reconciliation service. */
+export const digestCdmPayload = digestJson;
 
 export async function digestCdmQualificationReconciliationPlan(
   plan: CdmQualificationReconciliationPlan,
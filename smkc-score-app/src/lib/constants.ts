@@ -32,13 +32,29 @@
  * times JSON key, a migration (renaming "KD" → "KB2" in TTEntry.times) is needed.
  */
 export const COURSES = [
-  "MC1", "DP1", "GV1", "BC1", "MC2",
-  "CI1", "GV2", "DP2", "BC2", "MC3",
-  "KB1", "CI2", "VL1", "BC3", "MC4",
-  "DP3", "KB2", "GV3", "VL2", "RR"
+  'MC1',
+  'DP1',
+  'GV1',
+  'BC1',
+  'MC2',
+  'CI1',
+  'GV2',
+  'DP2',
+  'BC2',
+  'MC3',
+  'KB1',
+  'CI2',
+  'VL1',
+  'BC3',
+  'MC4',
+  'DP3',
+  'KB2',
+  'GV3',
+  'VL2',
+  'RR',
 ] as const;
 
-export type CourseAbbr = typeof COURSES[number];
+export type CourseAbbr = (typeof COURSES)[number];
 
 /**
  * Course metadata with full English names and cup assignment.
@@ -56,29 +72,29 @@ export type CourseAbbr = typeof COURSES[number];
  */
 export const COURSE_INFO: { abbr: CourseAbbr; name: string; cup: string }[] = [
   // Mushroom Cup
-  { abbr: "MC1", name: "Mario Circuit 1", cup: "Mushroom" },
-  { abbr: "DP1", name: "Donut Plains 1", cup: "Mushroom" },
-  { abbr: "GV1", name: "Ghost Valley 1", cup: "Mushroom" },
-  { abbr: "BC1", name: "Bowser Castle 1", cup: "Mushroom" },
-  { abbr: "MC2", name: "Mario Circuit 2", cup: "Mushroom" },
+  { abbr: 'MC1', name: 'Mario Circuit 1', cup: 'Mushroom' },
+  { abbr: 'DP1', name: 'Donut Plains 1', cup: 'Mushroom' },
+  { abbr: 'GV1', name: 'Ghost Valley 1', cup: 'Mushroom' },
+  { abbr: 'BC1', name: 'Bowser Castle 1', cup: 'Mushroom' },
+  { abbr: 'MC2', name: 'Mario Circuit 2', cup: 'Mushroom' },
   // Flower Cup
-  { abbr: "CI1", name: "Choco Island 1", cup: "Flower" },
-  { abbr: "GV2", name: "Ghost Valley 2", cup: "Flower" },
-  { abbr: "DP2", name: "Donut Plains 2", cup: "Flower" },
-  { abbr: "BC2", name: "Bowser Castle 2", cup: "Flower" },
-  { abbr: "MC3", name: "Mario Circuit 3", cup: "Flower" },
+  { abbr: 'CI1', name: 'Choco Island 1', cup: 'Flower' },
+  { abbr: 'GV2', name: 'Ghost Valley 2', cup: 'Flower' },
+  { abbr: 'DP2', name: 'Donut Plains 2', cup: 'Flower' },
+  { abbr: 'BC2', name: 'Bowser Castle 2', cup: 'Flower' },
+  { abbr: 'MC3', name: 'Mario Circuit 3', cup: 'Flower' },
   // Star Cup
-  { abbr: "KB1", name: "Koopa Beach 1", cup: "Star" },
-  { abbr: "CI2", name: "Choco Island 2", cup: "Star" },
-  { abbr: "VL1", name: "Vanilla Lake 1", cup: "Star" },
-  { abbr: "BC3", name: "Bowser Castle 3", cup: "Star" },
-  { abbr: "MC4", name: "Mario Circuit 4", cup: "Star" },
+  { abbr: 'KB1', name: 'Koopa Beach 1', cup: 'Star' },
+  { abbr: 'CI2', name: 'Choco Island 2', cup: 'Star' },
+  { abbr: 'VL1', name: 'Vanilla Lake 1', cup: 'Star' },
+  { abbr: 'BC3', name: 'Bowser Castle 3', cup: 'Star' },
+  { abbr: 'MC4', name: 'Mario Circuit 4', cup: 'Star' },
   // Special Cup
-  { abbr: "DP3", name: "Donut Plains 3", cup: "Special" },
-  { abbr: "KB2", name: "Koopa Beach 2", cup: "Special" },
-  { abbr: "GV3", name: "Ghost Valley 3", cup: "Special" },
-  { abbr: "VL2", name: "Vanilla Lake 2", cup: "Special" },
-  { abbr: "RR", name: "Rainbow Road", cup: "Special" },
+  { abbr: 'DP3', name: 'Donut Plains 3', cup: 'Special' },
+  { abbr: 'KB2', name: 'Koopa Beach 2', cup: 'Special' },
+  { abbr: 'GV3', name: 'Ghost Valley 3', cup: 'Special' },
+  { abbr: 'VL2', name: 'Vanilla Lake 2', cup: 'Special' },
+  { abbr: 'RR', name: 'Rainbow Road', cup: 'Special' },
 ];
 
 // Total number of courses in time attack
@@ -89,9 +105,9 @@ export const TOTAL_COURSES = COURSES.length;
  * Used for GP cup pre-assignment at qualification setup time (§7.4).
  * Each cup contains 5 courses (see COURSE_INFO for course-cup mapping).
  */
-export const CUPS = ["Mushroom", "Flower", "Star", "Special"] as const;
+export const CUPS = ['Mushroom', 'Flower', 'Star', 'Special'] as const;
 
-export type CupName = typeof CUPS[number];
+export type CupName = (typeof CUPS)[number];
 
 /**
  * Allowed cup substitutions per §7.1.
@@ -106,18 +122,9 @@ export const CUP_SUBSTITUTIONS: Record<string, string> = {
 };
 
 // SMK playable characters (8 total)
-export const SMK_CHARACTERS = [
-  'Mario',
-  'Luigi',
-  'Peach',
-  'Toad',
-  'Yoshi',
-  'DK Jr.',
-  'Bowser',
-  'Koopa',
-] as const;
+export const SMK_CHARACTERS = ['Mario', 'Luigi', 'Peach', 'Toad', 'Yoshi', 'DK Jr.', 'Bowser', 'Koopa'] as const;
 
-export type SMKCharacter = typeof SMK_CHARACTERS[number];
+export type SMKCharacter = (typeof SMK_CHARACTERS)[number];
 
 // Token and authentication constants
 export const ACCESS_TOKEN_EXPIRY = 24 * 60 * 60 * 1000; // 24 hours in milliseconds
@@ -131,6 +138,16 @@ export const RATE_LIMIT_POLLING = 120; // requests per minute for polling
 export const RATE_LIMIT_POLLING_DURATION = 60 * 1000; // 1 minute window
 export const RATE_LIMIT_SESSION_STATUS = 60; // requests per minute for session status checks
 
+// Player account lockout: this many LOGIN_FAILURE audit events within the
+// duration lock the account until the window passes or an admin unlocks it.
+export const LOGIN_LOCKOUT_THRESHOLD = 5;
+export const LOGIN_LOCKOUT_DURATION = 15 * 60 * 1000; // 15 minutes
+
+// Player name limits, applied alike when an admin creates a player and when
+// a player signs up. Both are checked after trimming.
+export const MAX_PLAYER_NAME_LENGTH = 100;
+export const MAX_PLAYER_NICKNAME_LENGTH = 50;
+
 // GP qualification matches use 1 cup = 5 races (§7.2, §7.4).
 // Each cup contains 5 courses (see COURSE_INFO).
 export const TOTAL_GP_RACES = 5;
@@ -156,6 +173,8 @@ export const RETRY_BASE_DELAY = 100; // milliseconds, exponentially increases
 // Per ta-user-manual.md: pages auto-refresh at 3-second intervals
 export const POLLING_INTERVAL = 3000; // 3 seconds between polls
 export const POLLING_MIN_REQUEST_INTERVAL = 500; // minimum 500ms between requests
+// While a tournament event stream is connected, polling is only a safety net
+export const STREAM_POLLING_INTERVAL = 30000; // 30 seconds between polls
 
 // Audit log retention period
 export const AUDIT_LOG_RETENTION_DAYS = 90;
@@ -164,7 +183,7 @@ export const AUDIT_LOG_RETENTION_DAYS = 90;
 // their time is set to 9:59.990 (the maximum representable time).
 // This ensures the retrying player receives the worst possible time for that round.
 export const RETRY_PENALTY_MS = 599990; // 9 min 59 sec 990 ms
-export const RETRY_PENALTY_DISPLAY = "9:59.990";
+export const RETRY_PENALTY_DISPLAY = '9:59.990';
 
 // HTTP status codes for special responses
 export const RATE_LIMIT_STATUS_CODE = 429;
@@ -190,6 +209,11 @@ export const GP_POSITION_OPTIONS = [1, 2, 3, 4, 5, 6, 7, 8] as const;
 export const TV_NUMBER_OPTIONS = [1, 2, 3, 4] as const;
 export const MAX_TV_NUMBER = TV_NUMBER_OPTIONS[TV_NUMBER_OPTIONS.length - 1];
 
+/* 2 or 3 groups only (docs/qualification-combined-ranking.md §7: 4+ groups
+ * are out of scope for now). Group setup UI is likewise limited to 2/3
+ * (group-setup-dialog.tsx), and tournament templates only store these. */
+export const SUPPORTED_QUALIFICATION_GROUPS = ['A', 'B', 'C'] as const;
+
 /**
  * Convert a finishing position (1-8) to driver points.
  * Returns 0 for legacy position 0 and any invalid/out-of-range values.
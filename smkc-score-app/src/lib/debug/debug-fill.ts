@@ -22,12 +22,7 @@ import { getServerSideIdentifier } from '@/lib/request-utils';
 import { createLogger } from '@/lib/logger';
 import { bmConfig, mrConfig, gpConfig } from '@/lib/event-types';
 import type { EventTypeConfig } from '@/lib/event-types/types';
-import {
-  generateBMScore,
-  generateMRScore,
-  generateGPRaces,
-  generateTATimes,
-} from './score-generators';
+import { generateBMScore, generateMRScore, generateGPRaces, generateTATimes } from './score-generators';
 import { COURSES } from '@/lib/constants';
 
 export type DebugMode = 'bm' | 'mr' | 'gp' | 'ta';
@@ -85,11 +80,7 @@ export async function debugFillGuards(rawId: string): Promise<GuardSuccess | Gua
   if (!tournament.debugMode) {
     return {
       ok: false,
-      response: createErrorResponse(
-        'Debug mode is not enabled for this tournament',
-        403,
-        'DEBUG_MODE_DISABLED',
-      ),
+      response: createErrorResponse('Debug mode is not enabled for this tournament', 403, 'DEBUG_MODE_DISABLED'),
     };
   }
   return { ok: true, tournamentId, userId: session.user.id ?? null };
@@ -121,10 +112,7 @@ interface TwoPMatchRow {
   [key: string]: unknown;
 }
 
-async function recalc2PStandings(
-  config: EventTypeConfig,
-  tournamentId: string,
-): Promise<void> {
+async function recalc2PStandings(config: EventTypeConfig, tournamentId: string): Promise<void> {
   // Prisma's per-model accessors are dynamically named (bMMatch / mRMatch / gPMatch).
   // The factory pattern in qualification-route.ts uses the same `any` cast.
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -144,14 +132,8 @@ async function recalc2PStandings(
   }
 
   for (const playerId of playerIds) {
-    const playerMatches = matches.filter(
-      (m) => m.player1Id === playerId || m.player2Id === playerId,
-    );
-    const agg = config.aggregatePlayerStats(
-      playerMatches,
-      playerId,
-      config.calculateMatchResult,
-    );
+    const playerMatches = matches.filter((m) => m.player1Id === playerId || m.player2Id === playerId);
+    const agg = config.aggregatePlayerStats(playerMatches, playerId, config.calculateMatchResult);
     await qualModel.updateMany({
       where: { tournamentId, playerId },
       data: agg.qualificationData,
@@ -260,9 +242,7 @@ export async function fillGPScores(tournamentId: string): Promise<FillResult> {
     // corrupted; refuse to silently substitute a default — that would
     // mask the underlying bug.
     if (!m.cup) {
-      throw new DebugFillLockedError(
-        `GP match ${m.id} has no assigned cup. Run qualification setup first.`,
-      );
+      throw new DebugFillLockedError(`GP match ${m.id} has no assigned cup. Run qualification setup first.`);
     }
     const races = generateGPRaces(m.cup);
     const points1 = races.reduce((s, r) => s + r.points1, 0);
@@ -290,9 +270,7 @@ export async function fillTATimes(tournamentId: string): Promise<FillResult> {
     where: { id: tournamentId },
     select: { frozenStages: true },
   });
-  const frozen = Array.isArray(tournament?.frozenStages)
-    ? (tournament!.frozenStages as string[])
-    : [];
+  const frozen = Array.isArray(tournament?.frozenStages) ? (tournament!.frozenStages as string[]) : [];
   if (frozen.includes('qualification')) {
     throw new DebugFillLockedError('TA qualification is frozen');
   }
@@ -366,7 +344,7 @@ export async function handleDebugFillRequest(
     } catch (err) {
       logger.warn('Failed to invalidate standings cache', { error: err, tournamentId });
     }
-    invalidateOverallRankingsCache(tournamentId);
+    await invalidateOverallRankingsCache(tournamentId);
 
     /* Audit log: best-effort, fire-and-forget via .catch() */
     try {
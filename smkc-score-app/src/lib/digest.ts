@@ -0,0 +1,39 @@
+/**
+ * Digest Helper
+ *
+ * Stable content digests for previews that must match on apply (CDM
+ * reconciliation, roster import, player merge) and for cache keys derived
+ * from a set of inputs. Values are hashed in their JSON.stringify form, so
+ * callers pass arrays or objects with a fixed key order.
+ */
+
+const FNV_32_PRIME = 0x01000193;
+const FALLBACK_HASH_SEEDS = [
+  0x811c9dc5, 0x9e3779b9, 0x85ebca6b, 0xc2b2ae35, 0x27d4eb2f, 0x165667b1, 0xd3a2646c, 0xfd7046c5,
+] as const;
+
+function fallbackDigest(serialized: string): string {
+  return FALLBACK_HASH_SEEDS.map((seed) => {
+    let hash = seed >>> 0;
+    for (let index = 0; index < serialized.length; index++) {
+      const codeUnit = serialized.charCodeAt(index);
+      hash = Math.imul(hash ^ (codeUnit & 0xff), FNV_32_PRIME) >>> 0;
+      hash = Math.imul(hash ^ (codeUnit >>> 8), FNV_32_PRIME) >>> 0;
+    }
+    return hash.toString(16).padStart(8, '0');
+  }).join('');
+}
+
+/**
+ * SHA-256 (hex) of a JSON-serialisable value. Where Web Crypto is missing the
+ * fallback is eight seeded FNV-1a hashes; it is not cryptographic.
+ */
+export async function digestJson(value: unknown): Promise<string> {
+  const serialized = JSON.stringify(value);
+  const subtle = globalThis.crypto?.subtle;
+  if (!subtle) return fallbackDigest(serialized);
+
+  const encoded = new TextEncoder().encode(serialized);
+  const digest = await subtle.digest('SHA-256', encoded);
+  return [...new Uint8Array(digest)].map((byte) => byte.toString(16).padStart(2, '0')).join('');
+}
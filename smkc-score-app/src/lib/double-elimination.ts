@@ -11,7 +11,11 @@
  * - A Grand Final Reset occurs only if the Losers Bracket champion wins the first Grand Final,
  *   because the Winners Bracket champion would then have only one loss.
  *
- * Supports 8-player brackets (17 matches) and 16-player brackets (31 matches).
+ * Supports 4, 8, 12, 16, 24 and 32-player brackets (see FINALS_BRACKET_SIZES).
+ * 8 and 16 keep their verified CDM layouts below; 4 and 32 use the same
+ * standard layout as 16, generated for any power of two. 12 and 24 run on the
+ * 16/32 bracket with the top seeds receiving a Round-1 bye: bye matches are
+ * removed from the structure, so every persisted match is a real match.
  *
  * Bracket structure for 8 players (17 total matches):
  *   Winners: QF(4) -> SF(2) -> Final(1)
@@ -23,12 +27,25 @@
  *   Losers:  L_R1(4) -> L_R2(4) -> L_R3(2) -> L_R4(2) -> SF(1) -> Final(1)
  *   Grand Final(1) + Reset(1)
  *
- * Match numbering is sequential (1-17) for consistent reference across
- * the UI and API layers.
+ * Match numbering is sequential (1-17, 1-31, ...) for consistent reference
+ * across the UI and API layers.
  */
 
 import { BracketMatch } from '@/types/bracket';
 
+/**
+ * Finals double-elimination sizes an admin can choose when creating finals.
+ * Every size has a distinct match count (7, 17, 23, 31, 47, 63), which is how
+ * persisted brackets are recognised again without storing the size.
+ */
+export const FINALS_BRACKET_SIZES = [4, 8, 12, 16, 24, 32] as const;
+
+export type FinalsBracketSize = (typeof FINALS_BRACKET_SIZES)[number];
+
+export function isFinalsBracketSize(value: unknown): value is FinalsBracketSize {
+  return FINALS_BRACKET_SIZES.includes(value as FinalsBracketSize);
+}
+
 /**
  * Generate the complete bracket structure for an 8-player double elimination tournament.
  *
@@ -37,16 +54,25 @@ import { BracketMatch } from '@/types/bracket';
  * The `position` field indicates whether a player enters as player 1 or player 2
  * in the next match, which is important for consistent bracket display.
  *
- * @param playerCount - Number of players (must be 8 or 16)
+ * @param playerCount - Number of players (one of FINALS_BRACKET_SIZES)
  * @returns Array of BracketMatch objects defining the full bracket
- * @throws Error if playerCount is not 8 or 16
+ * @throws Error if playerCount is not a supported bracket size
  */
 export function generateBracketStructure(playerCount: number, groupCount: 2 | 3 | 4 = 3): BracketMatch[] {
   if (playerCount === 16) {
     return generate16PlayerBracket(groupCount);
   }
+  if (playerCount === 4 || playerCount === 32) {
+    return generatePowerOfTwoBracket(playerCount);
+  }
+  if (playerCount === 12) {
+    return removeOpeningByes(generate16PlayerBracket(groupCount), playerCount);
+  }
+  if (playerCount === 24) {
+    return removeOpeningByes(generatePowerOfTwoBracket(32), playerCount);
+  }
   if (playerCount !== 8) {
-    throw new Error('Only 8-player and 16-player brackets are supported');
+    throw new Error(`Unsupported bracket size ${playerCount} (supported: ${FINALS_BRACKET_SIZES.join(', ')})`);
   }
 
   const matches: BracketMatch[] = [];
@@ -392,6 +418,229 @@ function generate16PlayerBracket(_groupCount: 2 | 3 | 4): BracketMatch[] {
   return matches;
 }
 
+/**
+ * Standard seed order for a power-of-two bracket: adjacent entries meet in
+ * Round 1 and seeds 1/2 can only meet in the final ([1,16],[8,9],[4,13],...
+ * for 16, identical to the verified 16-player pairs above).
+ */
+export function standardSeedOrder(size: number): number[] {
+  let order = [1, 2];
+  while (order.length < size) {
+    const next = order.length * 2 + 1;
+    order = order.flatMap((seed) => [seed, next - seed]);
+  }
+  return order;
+}
+
+/**
+ * Generate a full double-elimination bracket for any power of two >= 4.
+ *
+ * Uses the 16-player layout's routing rules at every size:
+ *   - Winners round r losers drop into Losers round 2(r-1) as player 1
+ *     (Round-1 losers pair up in Losers R1 instead), in reverse visual order
+ *     for even r so rematches are pushed as late as possible.
+ *   - Odd Losers rounds feed the next round's player 2 one-to-one; even
+ *     Losers rounds pair up into the next round.
+ *   - Winners Final → Grand Final player 1, Losers Final → player 2.
+ */
+function generatePowerOfTwoBracket(size: number): BracketMatch[] {
+  const winnersRounds = Math.log2(size);
+  const losersRounds = 2 * (winnersRounds - 1);
+  const winnersCount = (r: number) => size / 2 ** r;
+  const losersCount = (j: number) => size / 2 ** (Math.floor((j + 1) / 2) + 1);
+
+  const winnersStart: number[] = [];
+  const losersStart: number[] = [];
+  let next = 1;
+  for (let r = 1; r <= winnersRounds; r++) {
+    winnersStart[r] = next;
+    next += winnersCount(r);
+  }
+  for (let j = 1; j <= losersRounds; j++) {
+    losersStart[j] = next;
+    next += losersCount(j);
+  }
+  const grandFinal = next;
+
+  const winnersRoundName = (r: number) =>
+    r === winnersRounds
+      ? 'winners_final'
+      : r === winnersRounds - 1
+        ? 'winners_sf'
+        : r === winnersRounds - 2
+          ? 'winners_qf'
+          : `winners_r${r}`;
+  const losersRoundName = (j: number) =>
+    j === losersRounds ? 'losers_final' : j === losersRounds - 1 ? 'losers_sf' : `losers_r${j}`;
+
+  const seedOrder = standardSeedOrder(size);
+  const matches: BracketMatch[] = [];
+
+  for (let r = 1; r <= winnersRounds; r++) {
+    for (let i = 0; i < winnersCount(r); i++) {
+      const dropRound = r === 1 ? 1 : 2 * (r - 1);
+      const dropIndex = r === 1 ? Math.floor(i / 2) : r % 2 === 0 ? winnersCount(r) - 1 - i : i;
+      matches.push({
+        matchNumber: winnersStart[r] + i,
+        round: winnersRoundName(r),
+        bracket: 'winners',
+        ...(r === 1 ? { player1Seed: seedOrder[2 * i], player2Seed: seedOrder[2 * i + 1] } : {}),
+        winnerGoesTo: r === winnersRounds ? grandFinal : winnersStart[r + 1] + Math.floor(i / 2),
+        loserGoesTo: losersStart[dropRound] + dropIndex,
+        position: r === winnersRounds ? 1 : (((i % 2) + 1) as 1 | 2),
+        loserPosition: r === 1 ? (((i % 2) + 1) as 1 | 2) : 1,
+      });
+    }
+  }
+
+  for (let j = 1; j <= losersRounds; j++) {
+    for (let i = 0; i < losersCount(j); i++) {
+      matches.push({
+        matchNumber: losersStart[j] + i,
+        round: losersRoundName(j),
+        bracket: 'losers',
+        winnerGoesTo:
+          j === losersRounds
+            ? grandFinal
+            : j % 2 === 1
+              ? losersStart[j + 1] + i
+              : losersStart[j + 1] + Math.floor(i / 2),
+        position: j === losersRounds || j % 2 === 1 ? 2 : (((i % 2) + 1) as 1 | 2),
+      });
+    }
+  }
+
+  matches.push({ matchNumber: grandFinal, round: 'grand_final', bracket: 'grand_final' });
+  matches.push({ matchNumber: grandFinal + 1, round: 'grand_final_reset', bracket: 'grand_final' });
+  return matches;
+}
+
+/**
+ * Turn a full power-of-two bracket into one for fewer entrants by giving the
+ * top seeds a Round-1 bye.
+ *
+ * Seeds above `entrantCount` do not exist, so each Round-1 match against one
+ * is dropped and the real seed is placed directly into the match it would
+ * have advanced to. A bye match sends nobody to the Losers Bracket, so the
+ * Losers match it fed is dropped too and its remaining feeder is routed
+ * straight to that match's destination. Matches are then renumbered
+ * sequentially.
+ *
+ * Requires entrantCount > size / 2 so no Round-1 match pairs two byes.
+ */
+function removeOpeningByes(structure: BracketMatch[], entrantCount: number): BracketMatch[] {
+  const matches = structure.map((match) => ({ ...match }));
+  const byNumber = new Map(matches.map((match) => [match.matchNumber, match]));
+  const removed = new Set<number>();
+  const isBye = (seed?: number) => seed != null && seed > entrantCount;
+
+  const orphanedLosersMatches = new Set<number>();
+  for (const match of matches) {
+    if (!isBye(match.player1Seed) && !isBye(match.player2Seed)) continue;
+    const seed = isBye(match.player1Seed) ? match.player2Seed : match.player1Seed;
+    const target = byNumber.get(match.winnerGoesTo ?? -1);
+    if (isBye(seed) || !target) {
+      throw new Error(`Cannot seat ${entrantCount} players in a ${structure.length}-match bracket`);
+    }
+    if (match.position === 2) target.player2Seed = seed;
+    else target.player1Seed = seed;
+    removed.add(match.matchNumber);
+    if (match.loserGoesTo) orphanedLosersMatches.add(match.loserGoesTo);
+  }
+
+  for (const orphanNumber of orphanedLosersMatches) {
+    const orphan = byNumber.get(orphanNumber) as BracketMatch;
+    const feeders = matches.filter(
+      (match) =>
+        !removed.has(match.matchNumber) && (match.winnerGoesTo === orphanNumber || match.loserGoesTo === orphanNumber),
+    );
+    if (feeders.length !== 1) {
+      throw new Error(`Cannot seat ${entrantCount} players in a ${structure.length}-match bracket`);
+    }
+    const [feeder] = feeders;
+    if (feeder.loserGoesTo === orphanNumber) {
+      feeder.loserGoesTo = orphan.winnerGoesTo;
+      feeder.loserPosition = orphan.position;
+    } else {
+      feeder.winnerGoesTo = orphan.winnerGoesTo;
+      feeder.position = orphan.position;
+    }
+    removed.add(orphanNumber);
+  }
+
+  const kept = matches.filter((match) => !removed.has(match.matchNumber));
+  const renumber = new Map(kept.map((match, index) => [match.matchNumber, index + 1]));
+  return kept.map((match) => ({
+    ...match,
+    matchNumber: renumber.get(match.matchNumber) as number,
+    ...(match.winnerGoesTo ? { winnerGoesTo: renumber.get(match.winnerGoesTo) } : {}),
+    ...(match.loserGoesTo ? { loserGoesTo: renumber.get(match.loserGoesTo) } : {}),
+  }));
+}
+
+const bracketSizeByMatchCount = new Map<number, FinalsBracketSize>(
+  FINALS_BRACKET_SIZES.map((size) => [generateBracketStructure(size).length, size]),
+);
+
+/**
+ * Recognise a persisted finals bracket from its match count.
+ *
+ * @returns The bracket size, or null when the count matches no supported
+ *   structure (no finals yet, or a partially created bracket)
+ */
+export function getFinalsBracketSizeForMatchCount(matchCount: number): FinalsBracketSize | null {
+  return bracketSizeByMatchCount.get(matchCount) ?? null;
+}
+
+/**
+ * Like getFinalsBracketSizeForMatchCount, but counts that fit no supported
+ * structure fall back to the legacy rule from before configurable sizes:
+ * more than 20 matches is a 16-player bracket, anything else 8.
+ */
+export function inferFinalsBracketSize(matchCount: number): FinalsBracketSize {
+  return getFinalsBracketSizeForMatchCount(matchCount) ?? (matchCount > 20 ? 16 : 8);
+}
+
+/**
+ * Recognise a finals bracket from a subset of its rows (e.g. only completed
+ * matches): the size whose structure has every row's match number in the
+ * same round. Sizes are tried legacy-first (8, 16) so a row set that fits
+ * several structures keeps the historical interpretation.
+ */
+export function inferFinalsBracketSizeFromRows(
+  rows: ReadonlyArray<{ matchNumber: number; round?: string | null }>,
+): FinalsBracketSize | null {
+  if (rows.length === 0) return null;
+  const candidates: FinalsBracketSize[] = [8, 16, 4, 12, 24, 32];
+  return (
+    candidates.find((size) => {
+      const roundByNumber = new Map(generateBracketStructure(size).map((match) => [match.matchNumber, match.round]));
+      return rows.every((row) => roundByNumber.get(row.matchNumber) === row.round);
+    }) ?? null
+  );
+}
+
+/**
+ * Finishing position of a player eliminated in each Losers round: 3rd for the
+ * Losers Final, 4th for the Losers Semi Final, and below that one place per
+ * player already eliminated later (5th for Losers R4 of a 16-player bracket,
+ * 7th for R3, 9th for R2, 13th for R1).
+ */
+export function getLosersRoundPlacements(bracketSize: FinalsBracketSize): Map<string, number> {
+  const countByRound = new Map<string, number>();
+  for (const match of generateBracketStructure(bracketSize)) {
+    if (match.bracket !== 'losers') continue;
+    countByRound.set(match.round, (countByRound.get(match.round) ?? 0) + 1);
+  }
+  const placements = new Map<string, number>();
+  let eliminatedLater = 0;
+  for (const [round, count] of [...countByRound].reverse()) {
+    placements.set(round, 3 + eliminatedLater);
+    eliminatedLater += count;
+  }
+  return placements;
+}
+
 /**
  * Generate the Pre-Bracket Playoff ("barrage") structure for 12 entrants.
  *
@@ -519,6 +768,7 @@ export const roundNames: Record<string, string> = {
   playoff_r1: 'Playoff Round 1',
   playoff_r2: 'Playoff Round 2',
   winners_r1: 'Winners Round 1',
+  winners_r2: 'Winners Round 2',
   winners_qf: 'Winners Quarter Final',
   winners_sf: 'Winners Semi Final',
   winners_final: 'Winners Final',
@@ -526,8 +776,24 @@ export const roundNames: Record<string, string> = {
   losers_r2: 'Losers Round 2',
   losers_r3: 'Losers Round 3',
   losers_r4: 'Losers Round 4',
+  losers_r5: 'Losers Round 5',
+  losers_r6: 'Losers Round 6',
   losers_sf: 'Losers Semi Final',
   losers_final: 'Losers Final',
   grand_final: 'Grand Final',
   grand_final_reset: 'Grand Final Reset',
+  /* Single-elimination and round-robin finals (finals-format.ts) */
+  single_r1: 'Round 1',
+  single_r2: 'Round 2',
+  single_qf: 'Quarter Final',
+  single_sf: 'Semi Final',
+  single_third_place: 'Third Place Match',
+  single_final: 'Final',
+  round_robin_r1: 'Round Robin Round 1',
+  round_robin_r2: 'Round Robin Round 2',
+  round_robin_r3: 'Round Robin Round 3',
+  round_robin_r4: 'Round Robin Round 4',
+  round_robin_r5: 'Round Robin Round 5',
+  round_robin_r6: 'Round Robin Round 6',
+  round_robin_r7: 'Round Robin Round 7',
 };
@@ -0,0 +1,273 @@
+/**
+ * Finals Formats
+ *
+ * BM/MR/GP finals default to double elimination (see double-elimination.ts).
+ * For side events and small-attendance modes an admin can instead create:
+ *
+ * - Single elimination: one loss eliminates. An optional third-place match
+ *   is played by the two Semi Final losers.
+ * - Round robin: a final pool where every entrant plays every other entrant
+ *   once; placements come from the pool standings.
+ *
+ * The format is not stored separately. Like the bracket size (recognised
+ * from the match count), it is recognised from the persisted round names:
+ *   double_elimination → winners_* / losers_* / grand_final*
+ *   single_elimination → single_r{n} / single_qf / single_sf / single_final,
+ *                        plus single_third_place
+ *   round_robin        → round_robin_r{n}
+ */
+
+import {
+  FINALS_BRACKET_SIZES,
+  generateBracketStructure,
+  inferFinalsBracketSize,
+  standardSeedOrder,
+} from '@/lib/double-elimination';
+import { BREAK_PLAYER_ID, generateRoundRobinSchedule } from '@/lib/round-robin';
+import type { BracketMatch } from '@/types/bracket';
+
+export const FINALS_FORMATS = ['double_elimination', 'single_elimination', 'round_robin'] as const;
+
+export type FinalsFormat = (typeof FINALS_FORMATS)[number];
+
+export function isFinalsFormat(value: unknown): value is FinalsFormat {
+  return FINALS_FORMATS.includes(value as FinalsFormat);
+}
+
+/** Single elimination has no byes, so only powers of two are offered. */
+export const SINGLE_ELIMINATION_SIZES = [4, 8, 16, 32] as const;
+
+/** A final pool beyond 8 entrants needs more rounds than a finals day allows. */
+export const ROUND_ROBIN_FINALS_SIZES = [3, 4, 5, 6, 7, 8] as const;
+
+export const SINGLE_ELIMINATION_THIRD_PLACE_ROUND = 'single_third_place';
+
+/** Entrant counts an admin can pick for each format. */
+export function getFinalsFormatSizes(format: FinalsFormat): readonly number[] {
+  if (format === 'single_elimination') return SINGLE_ELIMINATION_SIZES;
+  if (format === 'round_robin') return ROUND_ROBIN_FINALS_SIZES;
+  return FINALS_BRACKET_SIZES;
+}
+
+export function isSupportedFinalsSize(format: FinalsFormat, size: unknown): size is number {
+  return getFinalsFormatSizes(format).includes(size as number);
+}
+
+/** Recognise the format of a persisted finals stage from any of its round names. */
+export function getFinalsFormatFromRound(round: string | null | undefined): FinalsFormat {
+  if (round?.startsWith('single_')) return 'single_elimination';
+  if (round?.startsWith('round_robin_')) return 'round_robin';
+  return 'double_elimination';
+}
+
+/**
+ * Generate a single-elimination bracket. Opening-round pairs follow the
+ * standard seed order, so seeds 1 and 2 can only meet in the final. The
+ * third-place match is numbered just before the final, matching the usual
+ * play order.
+ *
+ * @throws Error if size is not one of SINGLE_ELIMINATION_SIZES
+ */
+export function generateSingleEliminationStructure(
+  size: number,
+  { thirdPlace = false }: { thirdPlace?: boolean } = {},
+): BracketMatch[] {
+  if (!isSupportedFinalsSize('single_elimination', size)) {
+    throw new Error(`Unsupported single elimination size ${size} (supported: 4, 8, 16, 32)`);
+  }
+
+  const roundCount = Math.log2(size);
+  const roundName = (round: number) => {
+    const fromFinal = roundCount - round;
+    if (fromFinal === 0) return 'single_final';
+    if (fromFinal === 1) return 'single_sf';
+    if (fromFinal === 2) return 'single_qf';
+    return `single_r${round}`;
+  };
+
+  /* Number every round first so routing can reference later matches. */
+  const numbersByRound: number[][] = [];
+  let nextNumber = 1;
+  for (let round = 1; round <= roundCount; round++) {
+    if (round === roundCount && thirdPlace) nextNumber++;
+    numbersByRound.push(Array.from({ length: size / 2 ** round }, () => nextNumber++));
+  }
+  const thirdPlaceNumber = thirdPlace ? numbersByRound[roundCount - 1][0] - 1 : undefined;
+
+  const seedOrder = standardSeedOrder(size);
+  const matches: BracketMatch[] = [];
+  numbersByRound.forEach((numbers, roundIndex) => {
+    const round = roundIndex + 1;
+    numbers.forEach((matchNumber, index) => {
+      const match: BracketMatch = { matchNumber, round: roundName(round), bracket: 'winners' };
+      if (round === 1) {
+        match.player1Seed = seedOrder[index * 2];
+        match.player2Seed = seedOrder[index * 2 + 1];
+      }
+      if (round < roundCount) {
+        match.winnerGoesTo = numbersByRound[round][Math.floor(index / 2)];
+        match.position = index % 2 === 0 ? 1 : 2;
+      }
+      if (round === roundCount - 1 && thirdPlaceNumber !== undefined) {
+        match.loserGoesTo = thirdPlaceNumber;
+        match.loserPosition = index === 0 ? 1 : 2;
+      }
+      matches.push(match);
+    });
+  });
+
+  if (thirdPlaceNumber !== undefined) {
+    matches.push({
+      matchNumber: thirdPlaceNumber,
+      round: SINGLE_ELIMINATION_THIRD_PLACE_ROUND,
+      bracket: 'third_place',
+    });
+  }
+
+  return matches.sort((a, b) => a.matchNumber - b.matchNumber);
+}
+
+/**
+ * Generate a round-robin final pool with the circle method used for
+ * qualification (round-robin.ts). Every match is seeded from the start; an
+ * odd pool sits one entrant out per round instead of scheduling a BREAK row.
+ *
+ * @throws Error if size is not one of ROUND_ROBIN_FINALS_SIZES
+ */
+export function generateRoundRobinFinalsStructure(size: number): BracketMatch[] {
+  if (!isSupportedFinalsSize('round_robin', size)) {
+    throw new Error(`Unsupported round-robin finals size ${size} (supported: 3-8)`);
+  }
+
+  const seeds = Array.from({ length: size }, (_, index) => String(index + 1));
+  const { matches } = generateRoundRobinSchedule(seeds);
+  return matches
+    .filter((match) => match.player1Id !== BREAK_PLAYER_ID && match.player2Id !== BREAK_PLAYER_ID)
+    .map((match, index) => ({
+      matchNumber: index + 1,
+      round: `round_robin_r${match.day}`,
+      bracket: 'round_robin' as const,
+      player1Seed: Number(match.player1Id),
+      player2Seed: Number(match.player2Id),
+    }));
+}
+
+/**
+ * Structure for a new finals stage.
+ *
+ * @param groupCount - Qualification group count; only affects 16-player
+ *   double-elimination seeding
+ */
+export function generateFinalsStructure(
+  format: FinalsFormat,
+  size: number,
+  { thirdPlace = false, groupCount }: { thirdPlace?: boolean; groupCount?: 2 | 3 | 4 } = {},
+): BracketMatch[] {
+  if (format === 'single_elimination') return generateSingleEliminationStructure(size, { thirdPlace });
+  if (format === 'round_robin') return generateRoundRobinFinalsStructure(size);
+  return groupCount ? generateBracketStructure(size, groupCount) : generateBracketStructure(size);
+}
+
+/** Number of seeded entrants in a finals structure (its highest seed). */
+export function getFinalsEntrantCount(structure: BracketMatch[]): number {
+  return structure.reduce((max, match) => Math.max(max, match.player1Seed ?? 0, match.player2Seed ?? 0), 0);
+}
+
+/**
+ * Structure a persisted finals stage was generated from, recognised from one
+ * of its round names and its total match count:
+ *   single elimination: size - 1 matches, or size with a third-place match
+ *   round robin:        size * (size - 1) / 2 matches
+ */
+export function inferFinalsStructure(
+  round: string | null | undefined,
+  matchCount: number,
+  groupCount?: 2 | 3 | 4,
+): BracketMatch[] {
+  const format = getFinalsFormatFromRound(round);
+  if (format === 'single_elimination') {
+    const thirdPlace = matchCount % 2 === 0;
+    const size = thirdPlace ? matchCount : matchCount + 1;
+    return isSupportedFinalsSize(format, size) ? generateSingleEliminationStructure(size, { thirdPlace }) : [];
+  }
+  if (format === 'round_robin') {
+    const size = Math.round((1 + Math.sqrt(1 + 8 * matchCount)) / 2);
+    return isSupportedFinalsSize(format, size) ? generateRoundRobinFinalsStructure(size) : [];
+  }
+  return generateFinalsStructure(format, inferFinalsBracketSize(matchCount), { groupCount });
+}
+
+/**
+ * Finishing position of the loser of each single-elimination round: one
+ * place below everyone still in the bracket (2nd for the final, 5th for the
+ * Quarter Finals, 9th for the round before). Semi Final losers tie for 3rd
+ * unless a third-place match decides 3rd and 4th (handled by the caller).
+ */
+export function getSingleEliminationPlacements(size: number): Map<string, number> {
+  const placements = new Map<string, number>();
+  for (const match of generateSingleEliminationStructure(size)) {
+    placements.set(match.round, (placements.get(match.round) ?? 1) + 1);
+  }
+  return placements;
+}
+
+/** A completed round-robin finals match, normalised across modes. */
+export interface RoundRobinFinalsResult {
+  player1Id: string;
+  player2Id: string;
+  winnerId: string;
+  score1: number;
+  score2: number;
+}
+
+export interface RoundRobinFinalsStanding {
+  playerId: string;
+  wins: number;
+  losses: number;
+  /** Own score minus opponents' score (wins for BM/MR, driver points for GP) */
+  scoreDifference: number;
+  position: number;
+}
+
+/**
+ * Rank a round-robin final pool: most wins, then best score difference, then
+ * the better qualification seed. Every position is distinct, so finals
+ * points can be assigned by placement exactly as for the brackets.
+ *
+ * @param seedOrder - Entrant player IDs, best seed first
+ */
+export function getRoundRobinFinalsStandings(
+  results: RoundRobinFinalsResult[],
+  seedOrder: string[],
+): RoundRobinFinalsStanding[] {
+  const rows = new Map(seedOrder.map((playerId) => [playerId, { playerId, wins: 0, losses: 0, scoreDifference: 0 }]));
+  const rowFor = (playerId: string) => {
+    let row = rows.get(playerId);
+    if (!row) {
+      row = { playerId, wins: 0, losses: 0, scoreDifference: 0 };
+      rows.set(playerId, row);
+    }
+    return row;
+  };
+  for (const result of results) {
+    const player1 = rowFor(result.player1Id);
+    const player2 = rowFor(result.player2Id);
+    const winner = result.winnerId === result.player1Id ? player1 : player2;
+    const loser = winner === player1 ? player2 : player1;
+    winner.wins++;
+    loser.losses++;
+    player1.scoreDifference += result.score1 - result.score2;
+    player2.scoreDifference += result.score2 - result.score1;
+  }
+
+  const seedIndex = (playerId: string) => {
+    const index = seedOrder.indexOf(playerId);
+    return index < 0 ? seedOrder.length : index;
+  };
+  return [...rows.values()]
+    .sort(
+      (a, b) =>
+        b.wins - a.wins || b.scoreDifference - a.scoreDifference || seedIndex(a.playerId) - seedIndex(b.playerId),
+    )
+    .map((row, index) => ({ ...row, position: index + 1 }));
+}
@@ -1,6 +1,12 @@
 import prisma from '@/lib/prisma';
 import { PLAYER_PUBLIC_SELECT } from '@/lib/prisma-selects';
 import { generateBracketStructure, generatePlayoffStructure } from '@/lib/double-elimination';
+import {
+  FINALS_FORMATS,
+  getFinalsEntrantCount,
+  inferFinalsStructure,
+  isSupportedFinalsSize,
+} from '@/lib/finals-format';
 
 export type FinalsSeedMode = 'bm' | 'mr' | 'gp';
 export type FinalsSeedSnapshotField = 'bmFinalsSeedSnapshot' | 'mrFinalsSeedSnapshot' | 'gpFinalsSeedSnapshot';
@@ -63,12 +69,13 @@ export function parseFinalsSeedSnapshot(value: unknown): FinalsSeedSnapshotEntry
 }
 
 /** A snapshot is authoritative only when it contains every entrant exactly
- * once. In particular, 12 rows are never a valid Top-24 contract: they are
- * a legacy Phase-1-only artifact lacking the direct qualifiers. */
+ * once. In particular, seeds 13-24 alone are never a valid contract: they
+ * are a legacy Top-24 Phase-1-only artifact lacking the direct qualifiers
+ * (rejected by the contiguous 1..N seed check even though 12 is a size). */
 export function isCompleteFinalsSeedSnapshot(value: unknown): value is FinalsSeedSnapshotEntry[] {
   const entries = parseFinalsSeedSnapshot(value);
   const entrantCount = entries.length;
-  if (entrantCount !== 8 && entrantCount !== 16 && entrantCount !== 24) return false;
+  if (!FINALS_FORMATS.some((format) => isSupportedFinalsSize(format, entrantCount))) return false;
 
   const playerIds = new Set(entries.map((entry) => entry.playerId));
   const originalSeeds = new Set(entries.map((entry) => entry.originalSeed));
@@ -126,8 +133,8 @@ async function resolveFinalsSeedSnapshotInner(
   });
   const existing = parseFinalsSeedSnapshot(tournament?.[field]);
   const isInProgress = isInProgressTournamentStatus(tournament?.status);
-  /* A 12-row snapshot is an old, partial Top-24 Phase-1 artifact. It is not
-   * a complete seed contract and must not suppress a later full snapshot. */
+  /* A seeds-13-24 snapshot is an old, partial Top-24 Phase-1 artifact. It is
+   * not a complete seed contract and must not suppress a later full snapshot. */
   if (isCompleteFinalsSeedSnapshot(existing)) return { status: 'complete', snapshot: existing };
 
   const model = prisma[modelByMode[mode]] as unknown as {
@@ -180,10 +187,12 @@ async function resolveFinalsSeedSnapshotInner(
     }
   } else {
     const finals = matches.filter((match) => match.stage === 'finals');
-    const bracketSize = finals.length > 20 ? 16 : 8;
-    const openingRound = bracketSize === 16 ? 'winners_r1' : 'winners_qf';
-    const openingStructure = generateBracketStructure(bracketSize).filter((match) => match.round === openingRound);
-    for (const structure of openingStructure) {
+    /* Seeded slots sit in Round 1, plus the Round-2 slots of bye seeds in
+     * 12/24-player brackets; every round-robin match is seeded. */
+    const seededStructure = inferFinalsStructure(finals[0]?.round, finals.length).filter(
+      (match) => match.player1Seed != null || match.player2Seed != null,
+    );
+    for (const structure of seededStructure) {
       const match = finals.find((row) => row.matchNumber === structure.matchNumber);
       if (!match) continue;
       add(structure.player1Seed, match.player1Id, match.player1);
@@ -191,8 +200,9 @@ async function resolveFinalsSeedSnapshotInner(
     }
   }
   const snapshot = [...entries.values()].sort((a, b) => a.originalSeed - b.originalSeed);
+  const finals = matches.filter((match) => match.stage === 'finals');
   const expectedEntrantCount =
-    playoffMatches.length > 0 ? 24 : matches.filter((match) => match.stage === 'finals').length > 20 ? 16 : 8;
+    playoffMatches.length > 0 ? 24 : getFinalsEntrantCount(inferFinalsStructure(finals[0]?.round, finals.length));
   if (snapshot.length === expectedEntrantCount) {
     await (prisma.tournament as unknown as { update: (args: unknown) => Promise<unknown> }).update({
       where: { id: tournamentId },
@@ -43,7 +43,7 @@ export type SerializedFinalsSlot<T extends SlotStatusMatch> = T & {
  * Builds a reverse lookup from `${receivingMatchNumber}-${slot}` to the
  * match number that routes into it via `winnerGoesTo`/`loserGoesTo`.
  */
-function buildSlotSourceMap(bracketStructure: BracketMatch[]): Map<string, number> {
+export function buildSlotSourceMap(bracketStructure: BracketMatch[]): Map<string, number> {
   const map = new Map<string, number>();
   for (const bm of bracketStructure) {
     if (bm.winnerGoesTo) {
@@ -12,7 +12,17 @@ function storedTargetWins(context?: FinalsTargetContext): number | null {
 }
 
 function isEarlyUpperRound(round?: string | null): boolean {
-  return round === 'winners_r1' || round === 'winners_qf';
+  return (
+    round === 'winners_r1' ||
+    round === 'winners_r2' ||
+    round === 'winners_qf' ||
+    /^single_r\d+$/.test(round ?? '') ||
+    round === 'single_qf'
+  );
+}
+
+function isUpperSemiFinal(round?: string | null): boolean {
+  return round === 'winners_sf' || round === 'single_sf';
 }
 
 function isEarlyLowerRound(round?: string | null): boolean {
@@ -20,7 +30,7 @@ function isEarlyLowerRound(round?: string | null): boolean {
 }
 
 function isMidLowerRound(round?: string | null): boolean {
-  return round === 'losers_r3' || round === 'losers_r4';
+  return round === 'losers_r3' || round === 'losers_r4' || round === 'losers_r5' || round === 'losers_r6';
 }
 
 function isTopFourTargetRound(round?: string | null): boolean {
@@ -29,7 +39,9 @@ function isTopFourTargetRound(round?: string | null): boolean {
     round === 'losers_sf' ||
     round === 'losers_final' ||
     round === 'grand_final' ||
-    round === 'grand_final_reset'
+    round === 'grand_final_reset' ||
+    round === 'single_final' ||
+    round === 'single_third_place'
   );
 }
 
@@ -42,7 +54,7 @@ export function getBmFinalsTargetWins(context?: FinalsTargetContext): number {
   if (isEarlyUpperRound(context?.round) || isEarlyLowerRound(context?.round)) {
     return 5;
   }
-  if (context?.round === 'winners_sf' || isMidLowerRound(context?.round) || isTopFourTargetRound(context?.round)) {
+  if (isUpperSemiFinal(context?.round) || isMidLowerRound(context?.round) || isTopFourTargetRound(context?.round)) {
     return 7;
   }
   return 5;
@@ -57,7 +69,7 @@ export function getMrFinalsTargetWins(context?: FinalsTargetContext): number {
   if (isEarlyUpperRound(context?.round) || isEarlyLowerRound(context?.round)) {
     return 5;
   }
-  if (context?.round === 'winners_sf' || isMidLowerRound(context?.round)) {
+  if (isUpperSemiFinal(context?.round) || isMidLowerRound(context?.round)) {
     return 7;
   }
   if (isTopFourTargetRound(context?.round)) {
@@ -0,0 +1,46 @@
+/**
+ * Hook to resolve which operator controls the current user may see in a
+ * tournament (tournament-staff.ts).
+ *
+ * Returns a `can(permission)` predicate. Admins hold every permission and
+ * skip the request; signed-in players fetch their staff permissions once
+ * per tournament from `/api/tournaments/:id/staff/me`. Anonymous visitors
+ * hold none. The API enforces the same rules, so a stale answer here only
+ * shows or hides a control.
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { useSession } from 'next-auth/react';
+import { fetchWithRetry } from '@/lib/fetch-with-retry';
+import type { TournamentPermission } from '@/lib/tournament-staff';
+
+export function useTournamentPermissions(tournamentId: string): (permission: TournamentPermission) => boolean {
+  const { data: session } = useSession();
+  const isAdmin = session?.user?.role === 'admin';
+  const isPlayer = session?.user?.userType === 'player';
+  const [permissions, setPermissions] = useState<TournamentPermission[]>([]);
+
+  useEffect(() => {
+    if (!isPlayer) return;
+    let cancelled = false;
+    (async () => {
+      try {
+        const res = await fetchWithRetry(`/api/tournaments/${tournamentId}/staff/me`, { cache: 'no-store' });
+        if (!res.ok) return;
+        const json = await res.json();
+        const data = json.data ?? json;
+        if (!cancelled) setPermissions(Array.isArray(data?.permissions) ? data.permissions : []);
+      } catch {
+        // Best-effort: a fetch failure leaves the staff controls hidden.
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [tournamentId, isPlayer]);
+
+  return useCallback(
+    (permission: TournamentPermission) => isAdmin || (isPlayer && permissions.includes(permission)),
+    [isAdmin, isPlayer, permissions],
+  );
+}
@@ -8,17 +8,23 @@
  * Authorization rules:
  * - Admins can report for any match
  * - Players can only report for matches where they are player1 or player2
+ * - Anyone holding a QR match report token (match-report-token.ts) can report
+ *   for the one side of the one match it was issued for, signed in or not;
+ *   the side is preselected and the token is sent along with the report
  * - Unauthenticated users or non-participants see a read-only view
  *
  * Used by BM, MR, and GP match entry pages.
  */
 
-"use client";
+'use client';
 
-import { useState } from "react";
-import { useSession } from "next-auth/react";
+import { useState } from 'react';
+import { useSession } from 'next-auth/react';
+import { decodeMatchReportToken, MATCH_REPORT_TOKEN_HEADER } from '@/lib/match-report-token';
+import { getMatchReportTokenSide } from '@/lib/participant-score-entry-access';
 
 interface MatchForAuth {
+  id: string;
   player1Id: string;
   player2Id: string;
 }
@@ -34,26 +40,31 @@ interface UseMatchReportAuthResult {
   selectedPlayer: 1 | 2 | null;
   /** Setter to allow manual player selection (e.g., admin choosing a side) */
   setSelectedPlayer: (player: 1 | 2 | null) => void;
+  /** Side granted by the QR token, or null without a usable token */
+  tokenSide: 1 | 2 | null;
+  /** Extra headers for the report request (the QR token, when one applies) */
+  reportHeaders: Record<string, string>;
 }
 
-export function useMatchReportAuth(
-  match: MatchForAuth | null
-): UseMatchReportAuthResult {
+export function useMatchReportAuth(match: MatchForAuth | null, reportToken?: string | null): UseMatchReportAuthResult {
   const { data: session, status } = useSession();
   const [selectedPlayer, setSelectedPlayer] = useState<1 | 2 | null>(null);
 
-  const isAdmin = session?.user?.role === "admin";
+  const isAdmin = session?.user?.role === 'admin';
   const currentPlayerId = session?.user?.playerId;
   const isPlayer1 = !!(currentPlayerId && match && currentPlayerId === match.player1Id);
   const isPlayer2 = !!(currentPlayerId && match && currentPlayerId === match.player2Id);
-  const canReport = isAdmin || isPlayer1 || isPlayer2;
-  const autoSelectedPlayer = isPlayer1 ? 1 : isPlayer2 ? 2 : null;
+  const tokenSide = match ? getMatchReportTokenSide(decodeMatchReportToken(reportToken), match) : null;
+  const canReport = isAdmin || isPlayer1 || isPlayer2 || tokenSide !== null;
+  const autoSelectedPlayer = tokenSide ?? (isPlayer1 ? 1 : isPlayer2 ? 2 : null);
 
   return {
     canReport,
     isAdmin,
-    isSessionLoading: status === "loading",
+    isSessionLoading: status === 'loading',
     selectedPlayer: selectedPlayer ?? autoSelectedPlayer,
     setSelectedPlayer,
+    tokenSide,
+    reportHeaders: tokenSide !== null && reportToken ? { [MATCH_REPORT_TOKEN_HEADER]: reportToken } : {},
   };
 }
@@ -21,6 +21,12 @@
  * - Cross-mount cache: when a `cacheKey` is provided, data persists across
  *   component unmount/remount cycles, eliminating the loading skeleton flash
  *   when navigating between tabs.
+ * - Push subscription: with a `streamUrl`, the hook listens to the
+ *   tournament's server-sent event stream and refetches on every `change`
+ *   event. While the stream is connected, polling backs off to
+ *   STREAM_POLLING_INTERVAL as a safety net; when the stream errors it
+ *   returns to the regular `interval` until the stream reconnects, and the
+ *   reconnect itself polls once to catch changes made while it was down.
  * - Manual refetch capability for user-initiated refreshes.
  * - Error handling with callback support.
  * - Enable/disable toggle for conditional polling.
@@ -35,7 +41,7 @@
  */
 
 import { useEffect, useRef, useState, useCallback } from 'react';
-import { POLLING_INTERVAL } from '@/lib/constants';
+import { POLLING_INTERVAL, STREAM_POLLING_INTERVAL } from '@/lib/constants';
 
 /** TTL for cached polling entries: 30 minutes */
 const POLLING_CACHE_TTL_MS = 30 * 60 * 1000;
@@ -149,6 +155,11 @@ export function clearPollingCache(): void {
  *                       the loading skeleton never flashes on first paint. Cache takes
  *                       precedence when warm (returning visitor), since it is at least as
  *                       fresh as the server render.
+ * @property streamUrl - Server-sent events endpoint to subscribe to, e.g.
+ *                       "/api/tournaments/abc123/events?scope=bm". Each `change` event
+ *                       triggers an immediate poll, and polling slows to
+ *                       STREAM_POLLING_INTERVAL while the stream is connected. Ignored
+ *                       where EventSource is unavailable.
  */
 export interface UsePollingOptions {
   enabled?: boolean;
@@ -159,6 +170,7 @@ export interface UsePollingOptions {
   cacheKey?: string;
   pauseWhenHidden?: boolean;
   initialData?: unknown;
+  streamUrl?: string;
 }
 
 /**
@@ -170,10 +182,7 @@ export interface UsePollingOptions {
  * @param options - Polling configuration (see UsePollingOptions)
  * @returns Object with data, loading state, error, and control functions
  */
-export function usePolling<T>(
-  fetchFn: () => Promise<T>,
-  options: UsePollingOptions = {}
-) {
+export function usePolling<T>(fetchFn: () => Promise<T>, options: UsePollingOptions = {}) {
   const {
     enabled = true,
     interval = POLLING_INTERVAL,
@@ -183,6 +192,7 @@ export function usePolling<T>(
     cacheKey,
     pauseWhenHidden = true,
     initialData,
+    streamUrl,
   } = options;
 
   // Public state for the fetched data and last error.
@@ -228,6 +238,9 @@ export function usePolling<T>(
   // and refetch handlers can re-arm the timer without depending on the
   // effect closure.
   const schedulerRef = useRef<(() => void) | null>(null);
+  // True while the `streamUrl` event stream is connected; the scheduler
+  // then uses the slower STREAM_POLLING_INTERVAL.
+  const streamOpenRef = useRef(false);
 
   /**
    * Core polling function. Executes the fetch, handles ETag comparison,
@@ -350,28 +363,27 @@ export function usePolling<T>(
      */
     const scheduleNext = () => {
       if (!isMountedRef.current) return;
-      if (
-        pauseWhenHidden &&
-        typeof document !== 'undefined' &&
-        document.hidden
-      ) {
+      if (pauseWhenHidden && typeof document !== 'undefined' && document.hidden) {
         // Hidden tab: do not schedule. visibilitychange handler resumes.
         return;
       }
       if (pollingRef.current) {
         clearTimeout(pollingRef.current);
       }
-      pollingRef.current = setTimeout(() => {
-        if (!isMountedRef.current) return;
-        const fn = pollRef.current;
-        if (!fn) return;
-        // Run the poll, then chain the next schedule. Errors inside the
-        // poll are caught by `poll` itself (it never rejects), so we don't
-        // need a try/catch here.
-        void fn().then(() => {
-          scheduleNext();
-        });
-      }, interval);
+      pollingRef.current = setTimeout(
+        () => {
+          if (!isMountedRef.current) return;
+          const fn = pollRef.current;
+          if (!fn) return;
+          // Run the poll, then chain the next schedule. Errors inside the
+          // poll are caught by `poll` itself (it never rejects), so we don't
+          // need a try/catch here.
+          void fn().then(() => {
+            scheduleNext();
+          });
+        },
+        streamOpenRef.current ? Math.max(interval, STREAM_POLLING_INTERVAL) : interval,
+      );
     };
     schedulerRef.current = scheduleNext;
 
@@ -426,17 +438,48 @@ export function usePolling<T>(
       document.addEventListener('visibilitychange', onVisibilityChange);
     }
 
+    /**
+     * Event stream subscription: `change` polls right away. `open` and
+     * `error` switch the timer between the backed-off and the regular
+     * interval; only the transitions re-arm it, because EventSource fires
+     * `error` on every failed reconnect attempt. A reconnect polls at once,
+     * since changes made while the stream was down were never pushed.
+     */
+    let eventSource: EventSource | null = null;
+    if (streamUrl && typeof EventSource !== 'undefined') {
+      let streamFailed = false;
+      eventSource = new EventSource(streamUrl);
+      eventSource.addEventListener('open', () => {
+        if (streamOpenRef.current) return;
+        streamOpenRef.current = true;
+        if (streamFailed) runNow();
+        else scheduleNext();
+      });
+      eventSource.addEventListener('error', () => {
+        if (!streamOpenRef.current) return;
+        streamOpenRef.current = false;
+        streamFailed = true;
+        scheduleNext();
+      });
+      eventSource.addEventListener('change', () => {
+        if (pauseWhenHidden && typeof document !== 'undefined' && document.hidden) return;
+        runNow();
+      });
+    }
+
     // Cleanup function: cancel timer, drop listeners, and reset state on unmount
     return () => {
       if (pauseWhenHidden && typeof document !== 'undefined') {
         document.removeEventListener('visibilitychange', onVisibilityChange);
       }
+      eventSource?.close();
+      streamOpenRef.current = false;
       schedulerRef.current = null;
       clearPolling();
     };
     // `poll` is intentionally omitted from deps; we invoke it via pollRef
     // so the effect stays mounted across fetches. See the comment on `poll`.
-  }, [enabled, interval, immediate, pauseWhenHidden, clearPolling]);
+  }, [enabled, interval, immediate, pauseWhenHidden, streamUrl, clearPolling]);
 
   /**
    * Manually trigger a refetch outside the regular polling cycle.
@@ -0,0 +1,71 @@
+/**
+ * Player Login Lockout
+ *
+ * Locks a player account after repeated failed password attempts. The
+ * audit log is the source of truth: every wrong password is recorded as a
+ * `LOGIN_FAILURE` event targeting the player, and the account is locked
+ * while LOGIN_LOCKOUT_THRESHOLD of them fall inside LOGIN_LOCKOUT_DURATION.
+ * A `LOGIN_SUCCESS` or `UNLOCK_PLAYER_LOGIN` event for the player starts a
+ * fresh count, which is how an admin unlock takes effect.
+ *
+ * Because the state lives in D1 rather than isolate memory, the lockout
+ * holds across Worker isolates. The per-IP `login` rate-limit rule covers
+ * guessing across many accounts; this covers one account from many IPs.
+ *
+ * Attempts made while locked are not counted (the caller logs them without
+ * a player target), so an attacker cannot extend a lock indefinitely.
+ */
+
+import prisma from '@/lib/prisma';
+import { AUDIT_ACTIONS } from '@/lib/audit-log';
+import { LOGIN_LOCKOUT_DURATION, LOGIN_LOCKOUT_THRESHOLD } from '@/lib/constants';
+
+export interface LoginLockoutStatus {
+  locked: boolean;
+  /** Counted failures since the window start or the last reset (at most the threshold). */
+  failures: number;
+  /** When the lock lifts on its own; only set while locked. */
+  lockedUntil?: Date;
+}
+
+/**
+ * Current lockout status of a player account.
+ */
+export async function getLoginLockout(playerId: string, client: typeof prisma = prisma): Promise<LoginLockoutStatus> {
+  const now = Date.now();
+  let since = new Date(now - LOGIN_LOCKOUT_DURATION);
+
+  const lastReset = await client.auditLog.findFirst({
+    where: {
+      targetType: 'Player',
+      targetId: playerId,
+      action: { in: [AUDIT_ACTIONS.LOGIN_SUCCESS, AUDIT_ACTIONS.UNLOCK_PLAYER_LOGIN] },
+    },
+    orderBy: { timestamp: 'desc' },
+    select: { timestamp: true },
+  });
+  if (lastReset && lastReset.timestamp > since) since = lastReset.timestamp;
+
+  /* Newest first: the threshold-th entry is the oldest failure that keeps
+     the account locked, so the lock lifts once it leaves the window. */
+  const failures = await client.auditLog.findMany({
+    where: {
+      targetType: 'Player',
+      targetId: playerId,
+      action: AUDIT_ACTIONS.LOGIN_FAILURE,
+      timestamp: { gt: since },
+    },
+    orderBy: { timestamp: 'desc' },
+    take: LOGIN_LOCKOUT_THRESHOLD,
+    select: { timestamp: true },
+  });
+
+  if (failures.length < LOGIN_LOCKOUT_THRESHOLD) {
+    return { locked: false, failures: failures.length };
+  }
+  return {
+    locked: true,
+    failures: failures.length,
+    lockedUntil: new Date(failures[LOGIN_LOCKOUT_THRESHOLD - 1].timestamp.getTime() + LOGIN_LOCKOUT_DURATION),
+  };
+}
@@ -0,0 +1,139 @@
+/**
+ * Signed match report tokens for QR deep links.
+ *
+ * A token lets one player report the score of one BM/MR/GP qualification
+ * match without signing in: the QR code on their printed match card or on
+ * the venue screen opens /tournaments/:id/{mode}/match/:matchId?token=...,
+ * the match page sends the token back in MATCH_REPORT_TOKEN_HEADER, and
+ * checkScoreReportAuth accepts it in place of a session for that match and
+ * side only (getMatchReportTokenSide in participant-score-entry-access.ts).
+ *
+ * Format: base64url(JSON claims) "." base64url(HMAC-SHA256). The claims are
+ * readable by the browser, which only uses them to preselect the player;
+ * the signature is checked on the server with AUTH_SECRET. Web Crypto keeps
+ * this usable in the Workers runtime, Node and the browser alike.
+ */
+
+export const MATCH_REPORT_TOKEN_HEADER = 'x-match-report-token';
+
+/** Search parameter carrying the token on the match page URL. */
+export const MATCH_REPORT_TOKEN_PARAM = 'token';
+
+/** Printed match cards are handed out in the morning and used all day. */
+export const MATCH_CARD_TOKEN_TTL_SECONDS = 12 * 60 * 60;
+
+/** The venue screen re-issues its codes on every poll, so they can be short. */
+export const VENUE_TOKEN_TTL_SECONDS = 15 * 60;
+
+/* Domain separation: the same AUTH_SECRET also signs the session JWTs. */
+const SIGNATURE_CONTEXT = 'smkc-match-report:';
+
+export interface MatchReportTokenClaims {
+  tournamentId: string;
+  matchId: string;
+  playerId: string;
+  side: 1 | 2;
+  /** Expiry, seconds since the epoch. */
+  exp: number;
+}
+
+type EncodedClaims = { t: string; m: string; p: string; s: 1 | 2; e: number };
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(value: string): Uint8Array {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
+
+async function sign(payload: string, secret: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, [
+    'sign',
+  ]);
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(SIGNATURE_CONTEXT + payload));
+  return toBase64Url(new Uint8Array(signature));
+}
+
+/**
+ * Expiry for a token issued now: `ttlSeconds` rounded up to the next window
+ * boundary, so every token issued within one window is identical (the venue
+ * route's ETag stays stable between polls). Tokens therefore live between
+ * one and two TTLs.
+ */
+export function getMatchReportTokenExpiry(ttlSeconds: number, now: number = Date.now()): number {
+  return (Math.floor(now / 1000 / ttlSeconds) + 2) * ttlSeconds;
+}
+
+/** Read the claims without checking the signature (browser-side preselection). */
+export function decodeMatchReportToken(token: string | null | undefined): MatchReportTokenClaims | null {
+  if (!token) return null;
+  const [payload, signature] = token.split('.');
+  if (!payload || !signature) return null;
+  try {
+    const claims = JSON.parse(new TextDecoder().decode(fromBase64Url(payload))) as Partial<EncodedClaims>;
+    if (
+      typeof claims.t !== 'string' ||
+      typeof claims.m !== 'string' ||
+      typeof claims.p !== 'string' ||
+      (claims.s !== 1 && claims.s !== 2) ||
+      typeof claims.e !== 'number'
+    ) {
+      return null;
+    }
+    return { tournamentId: claims.t, matchId: claims.m, playerId: claims.p, side: claims.s, exp: claims.e };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Sign a token for `claims`. Returns null when AUTH_SECRET is not configured,
+ * in which case callers simply leave the QR code out.
+ */
+export async function createMatchReportToken(
+  claims: MatchReportTokenClaims,
+  secret: string | undefined = process.env.AUTH_SECRET,
+): Promise<string | null> {
+  if (!secret) return null;
+  const encoded: EncodedClaims = {
+    t: claims.tournamentId,
+    m: claims.matchId,
+    p: claims.playerId,
+    s: claims.side,
+    e: claims.exp,
+  };
+  const payload = toBase64Url(new TextEncoder().encode(JSON.stringify(encoded)));
+  return `${payload}.${await sign(payload, secret)}`;
+}
+
+/**
+ * Claims of a correctly signed token, or null. Expiry and the match the
+ * token is for are checked by getMatchReportTokenSide.
+ */
+export async function verifyMatchReportToken(
+  token: string | null | undefined,
+  secret: string | undefined = process.env.AUTH_SECRET,
+): Promise<MatchReportTokenClaims | null> {
+  if (!token || !secret) return null;
+  const claims = decodeMatchReportToken(token);
+  if (!claims) return null;
+  const [payload, signature] = token.split('.');
+  const expected = await sign(payload, secret);
+  /* Constant-time comparison; both are base64url of a 32-byte HMAC. */
+  if (expected.length !== signature.length) return null;
+  let diff = 0;
+  for (let i = 0; i < expected.length; i++) diff |= expected.charCodeAt(i) ^ signature.charCodeAt(i);
+  return diff === 0 ? claims : null;
+}
+
+/** Site-relative deep link to the match report page carrying `token`. */
+export function buildMatchReportPath(tournamentId: string, mode: 'bm' | 'mr' | 'gp', matchId: string, token: string) {
+  const params = new URLSearchParams({ [MATCH_REPORT_TOKEN_PARAM]: token });
+  return `/tournaments/${tournamentId}/${mode}/match/${matchId}?${params.toString()}`;
+}
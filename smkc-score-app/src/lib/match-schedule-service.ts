@@ -0,0 +1,251 @@
+import prisma from '@/lib/prisma';
+import { executeD1Batch } from '@/lib/d1-batch';
+import { AUDIT_ACTIONS, buildAuditLogData } from '@/lib/audit-log';
+import { BREAK_PLAYER_ID } from '@/lib/round-robin';
+import {
+  findScheduleConflicts,
+  planMatchSchedule,
+  SCHEDULE_MODES,
+  type ScheduleConflict,
+  type ScheduleMatchInput,
+  type ReservedScheduleSlot,
+  type ScheduleMode,
+  type SchedulePlan,
+  type SchedulePlannerSettings,
+} from '@/lib/match-schedule';
+
+const MATCH_MODELS = {
+  bm: 'bMMatch',
+  mr: 'mRMatch',
+  gp: 'gPMatch',
+} as const;
+
+const MATCH_TABLES: Record<ScheduleMode, string> = {
+  bm: '"BMMatch"',
+  mr: '"MRMatch"',
+  gp: '"GPMatch"',
+};
+
+const MINUTE_MS = 60_000;
+
+export type ScheduleTimelineMatch = ScheduleMatchInput & {
+  player1Nickname: string;
+  player2Nickname: string;
+};
+
+export type StoredScheduleSlot = ScheduleTimelineMatch & {
+  tvNumber: number | null;
+  startAt: string;
+  endAt: string;
+  completed: boolean;
+};
+
+type MatchRow = {
+  id: string;
+  matchNumber: number;
+  roundNumber: number | null;
+  player1Id: string;
+  player2Id: string;
+  tvNumber: number | null;
+  completed: boolean;
+  scheduledStartAt: Date | null;
+  player1: { nickname: string } | null;
+  player2: { nickname: string } | null;
+};
+
+type FindManyDelegate = { findMany: (args: Record<string, unknown>) => Promise<MatchRow[]> };
+
+function delegate(mode: ScheduleMode): FindManyDelegate {
+  return (prisma as unknown as Record<string, FindManyDelegate>)[MATCH_MODELS[mode]];
+}
+
+function createId(): string {
+  if (typeof globalThis.crypto?.randomUUID === 'function') return globalThis.crypto.randomUUID();
+  return `schedule-${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+}
+
+/* BREAK matches have no second player on a TV and are never scheduled. */
+async function loadQualificationMatches(
+  tournamentId: string,
+  modes: readonly ScheduleMode[],
+  where: Record<string, unknown>,
+): Promise<Array<ScheduleTimelineMatch & Pick<MatchRow, 'tvNumber' | 'completed' | 'scheduledStartAt'>>> {
+  const matches = [];
+  for (const mode of modes) {
+    const rows = await delegate(mode).findMany({
+      where: {
+        tournamentId,
+        stage: 'qualification',
+        isBye: false,
+        player1Id: { not: BREAK_PLAYER_ID },
+        player2Id: { not: BREAK_PLAYER_ID },
+        ...where,
+      },
+      select: {
+        id: true,
+        matchNumber: true,
+        roundNumber: true,
+        player1Id: true,
+        player2Id: true,
+        tvNumber: true,
+        completed: true,
+        scheduledStartAt: true,
+        player1: { select: { nickname: true } },
+        player2: { select: { nickname: true } },
+      },
+      orderBy: { matchNumber: 'asc' },
+    });
+    matches.push(
+      ...rows
+        .filter((row) => row.player1Id && row.player2Id)
+        .map((row) => ({
+          id: row.id,
+          mode,
+          matchNumber: row.matchNumber,
+          roundNumber: row.roundNumber,
+          player1Id: row.player1Id,
+          player2Id: row.player2Id,
+          player1Nickname: row.player1?.nickname ?? '',
+          player2Nickname: row.player2?.nickname ?? '',
+          tvNumber: row.tvNumber,
+          completed: row.completed,
+          scheduledStartAt: row.scheduledStartAt,
+        })),
+    );
+  }
+  return matches;
+}
+
+/**
+ * The schedule currently stored on the matches, for the admin timeline.
+ * End times use the saved per-mode durations; conflicts flag hand edits made
+ * after the plan was applied.
+ */
+export async function getStoredMatchSchedule(
+  tournamentId: string,
+  settings: SchedulePlannerSettings,
+): Promise<{
+  settings: SchedulePlannerSettings;
+  slots: StoredScheduleSlot[];
+  conflicts: ScheduleConflict[];
+}> {
+  const matches = await loadQualificationMatches(tournamentId, SCHEDULE_MODES, { scheduledStartAt: { not: null } });
+  const slots = matches
+    .map(({ scheduledStartAt, ...match }) => {
+      const start = new Date(scheduledStartAt as Date).getTime();
+      return {
+        ...match,
+        startAt: new Date(start).toISOString(),
+        endAt: new Date(start + settings.durations[match.mode] * MINUTE_MS).toISOString(),
+      };
+    })
+    .sort((a, b) => a.startAt.localeCompare(b.startAt) || (a.tvNumber ?? 0) - (b.tvNumber ?? 0));
+  return { settings, slots, conflicts: findScheduleConflicts(slots) };
+}
+
+/**
+ * Plan every incomplete qualification match of the selected modes. Completed
+ * matches are left as they are; the stored slots of the other modes are kept
+ * and reserved so the plan does not double-book their players or TVs.
+ */
+export async function previewMatchSchedule(
+  tournamentId: string,
+  settings: SchedulePlannerSettings,
+): Promise<SchedulePlan<ScheduleTimelineMatch>> {
+  const matches = await loadQualificationMatches(tournamentId, settings.modes, { completed: false });
+  const otherModes = SCHEDULE_MODES.filter((mode) => !settings.modes.includes(mode));
+  const stored = await loadQualificationMatches(tournamentId, otherModes, { scheduledStartAt: { not: null } });
+  const reserved: ReservedScheduleSlot[] = stored.map((match) => ({
+    player1Id: match.player1Id,
+    player2Id: match.player2Id,
+    tvNumber: match.tvNumber,
+    endAt: new Date(
+      new Date(match.scheduledStartAt as Date).getTime() + settings.durations[match.mode] * MINUTE_MS,
+    ).toISOString(),
+  }));
+  return planMatchSchedule(
+    matches.map((match) => ({
+      id: match.id,
+      mode: match.mode,
+      matchNumber: match.matchNumber,
+      roundNumber: match.roundNumber,
+      player1Id: match.player1Id,
+      player2Id: match.player2Id,
+      player1Nickname: match.player1Nickname,
+      player2Nickname: match.player2Nickname,
+    })),
+    settings,
+    reserved,
+  );
+}
+
+/**
+ * Plan and store start times and TVs, the settings used and the audit row in
+ * one D1 batch. The plan is recomputed from the current matches, so a match
+ * completed since the preview is simply left out.
+ */
+export async function applyMatchSchedule(params: {
+  tournamentId: string;
+  settings: SchedulePlannerSettings;
+  audit: { userId?: string; ipAddress: string; userAgent: string };
+}): Promise<SchedulePlan<ScheduleTimelineMatch>> {
+  const plan = await previewMatchSchedule(params.tournamentId, params.settings);
+  const updatedAt = new Date().toISOString();
+
+  /* D1 allows at most 100 bound values per statement, so each mode's plan is
+   * passed as one JSON value and expanded with json_each(). */
+  const statements = params.settings.modes.map((mode) => {
+    const table = MATCH_TABLES[mode];
+    const slots = plan.slots
+      .filter((slot) => slot.mode === mode)
+      .map((slot) => ({ id: slot.id, tvNumber: slot.tvNumber, startAt: slot.startAt }));
+    return {
+      sql: `WITH plan AS (
+          SELECT json_extract(value, '$.id') AS "id",
+            CAST(json_extract(value, '$.tvNumber') AS INTEGER) AS "tvNumber",
+            json_extract(value, '$.startAt') AS "startAt"
+          FROM json_each(?)
+        )
+        UPDATE ${table}
+        SET "tvNumber" = (SELECT "tvNumber" FROM plan WHERE plan."id" = ${table}."id"),
+            "scheduledStartAt" = (SELECT "startAt" FROM plan WHERE plan."id" = ${table}."id"),
+            "updatedAt" = ?
+        WHERE "tournamentId" = ? AND "stage" = 'qualification' AND "id" IN (SELECT "id" FROM plan)`,
+      values: [JSON.stringify(slots), updatedAt, params.tournamentId],
+    };
+  });
+
+  const audit = buildAuditLogData({
+    ...params.audit,
+    action: AUDIT_ACTIONS.APPLY_MATCH_SCHEDULE,
+    targetId: params.tournamentId,
+    targetType: 'Tournament',
+    details: {
+      settings: params.settings,
+      matches: plan.slots.length,
+      endAt: plan.endAt,
+    },
+  });
+
+  await executeD1Batch([
+    ...statements,
+    {
+      sql: `UPDATE "Tournament" SET "scheduleSettings" = json(?), "updatedAt" = ? WHERE "id" = ?`,
+      values: [JSON.stringify(params.settings), updatedAt, params.tournamentId],
+    },
+    {
+      sql: `INSERT INTO "AuditLog" ("id", "userId", "ipAddress", "userAgent", "action", "targetId", "targetType", "timestamp", "details") VALUES (?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP, json(?))`,
+      values: [
+        createId(),
+        audit.userId,
+        audit.ipAddress,
+        audit.userAgent,
+        audit.action,
+        audit.targetId ?? null,
+        audit.targetType,
+        JSON.stringify(audit.details ?? {}),
+      ],
+    },
+  ]);
+  return plan;
+}
@@ -0,0 +1,283 @@
+/**
+ * Match Schedule Planner
+ *
+ * Turns the round-robin qualification schedule (generateRoundRobinSchedule,
+ * stored as BM/MR/GP matches with a roundNumber) into wall-clock start times
+ * and TV assignments so the venue can run BM, MR and GP in parallel.
+ *
+ * Constraints:
+ *   - a TV shows one match at a time
+ *   - a player is in at most one match at a time, across all modes
+ *   - within a mode, each player's matches keep their round-robin Day order
+ *
+ * The planner is a list scheduler: it repeatedly takes, among the matches
+ * whose earlier Days are already placed for both players, the one that can
+ * start soonest (ties: lower Day, then match number, then BM → MR → GP) and
+ * puts it on the TV that frees up first. Each match occupies its mode's
+ * estimated duration plus a changeover for the TV and both players.
+ *
+ * Matches of modes left out of the plan keep their stored slots; those are
+ * passed in as reserved so the new plan starts each TV and player only once
+ * they are free.
+ *
+ * This module is pure; match-schedule-service.ts loads matches and writes
+ * the plan.
+ */
+import { TV_NUMBER_OPTIONS } from '@/lib/constants';
+
+export const SCHEDULE_MODES = ['bm', 'mr', 'gp'] as const;
+export type ScheduleMode = (typeof SCHEDULE_MODES)[number];
+
+/** Estimated minutes per qualification match (BM first-to-4 battles, MR 4 races, GP one cup). */
+export const DEFAULT_MATCH_DURATION_MINUTES: Record<ScheduleMode, number> = { bm: 8, mr: 12, gp: 15 };
+export const DEFAULT_CHANGEOVER_MINUTES = 2;
+export const MAX_MATCH_DURATION_MINUTES = 120;
+export const MAX_CHANGEOVER_MINUTES = 30;
+
+const MINUTE_MS = 60_000;
+
+export type SchedulePlannerSettings = {
+  /** ISO timestamp of the first slot. */
+  startAt: string;
+  /** TVs 1..tvCount are used. */
+  tvCount: number;
+  durations: Record<ScheduleMode, number>;
+  changeoverMinutes: number;
+  /** Modes included in the plan; the others keep their stored schedule. */
+  modes: ScheduleMode[];
+};
+
+export type ScheduleMatchInput = {
+  id: string;
+  mode: ScheduleMode;
+  matchNumber: number;
+  roundNumber: number | null;
+  player1Id: string;
+  player2Id: string;
+};
+
+export type ScheduledMatch<T extends ScheduleMatchInput = ScheduleMatchInput> = T & {
+  tvNumber: number;
+  startAt: string;
+  endAt: string;
+};
+
+export type SchedulePlan<T extends ScheduleMatchInput = ScheduleMatchInput> = {
+  settings: SchedulePlannerSettings;
+  slots: ScheduledMatch<T>[];
+  /** End of the last match, or startAt for an empty plan. */
+  endAt: string;
+};
+
+/** A stored slot the plan must not overlap (a match of a mode outside settings.modes). */
+export type ReservedScheduleSlot = Pick<ScheduledMatch, 'player1Id' | 'player2Id' | 'endAt'> & {
+  tvNumber: number | null;
+};
+
+export type ScheduleConflict =
+  | { type: 'player'; playerId: string; matchIds: [string, string] }
+  | { type: 'tv'; tvNumber: number; matchIds: [string, string] };
+
+export class SchedulePlannerError extends Error {
+  constructor(
+    message: string,
+    readonly field: string,
+  ) {
+    super(message);
+    this.name = 'SchedulePlannerError';
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+}
+
+function minutes(value: unknown, field: string, { min, max }: { min: number; max: number }): number {
+  if (!Number.isInteger(value) || (value as number) < min || (value as number) > max) {
+    throw new SchedulePlannerError(`${field} must be an integer between ${min} and ${max}`, field);
+  }
+  return value as number;
+}
+
+export function defaultSchedulePlannerSettings(now = new Date()): SchedulePlannerSettings {
+  return {
+    startAt: now.toISOString(),
+    tvCount: TV_NUMBER_OPTIONS.length,
+    durations: { ...DEFAULT_MATCH_DURATION_MINUTES },
+    changeoverMinutes: DEFAULT_CHANGEOVER_MINUTES,
+    modes: [...SCHEDULE_MODES],
+  };
+}
+
+/** Settings saved on Tournament.scheduleSettings, or the defaults when none (or unreadable) are stored. */
+export function readStoredSchedulePlannerSettings(value: unknown): SchedulePlannerSettings {
+  if (!isRecord(value)) return defaultSchedulePlannerSettings();
+  try {
+    return parseSchedulePlannerSettings(value);
+  } catch {
+    return defaultSchedulePlannerSettings();
+  }
+}
+
+/**
+ * Validate planner settings from a request body. Omitted fields fall back to
+ * `defaults` (the tournament's saved settings or the built-in defaults).
+ */
+export function parseSchedulePlannerSettings(
+  value: unknown,
+  defaults: SchedulePlannerSettings = defaultSchedulePlannerSettings(),
+): SchedulePlannerSettings {
+  const input = isRecord(value) ? value : {};
+
+  const startAt = input.startAt ?? defaults.startAt;
+  if (typeof startAt !== 'string' || Number.isNaN(Date.parse(startAt))) {
+    throw new SchedulePlannerError('startAt must be an ISO date-time', 'startAt');
+  }
+
+  const tvCount = input.tvCount ?? defaults.tvCount;
+  if (!TV_NUMBER_OPTIONS.includes(tvCount as (typeof TV_NUMBER_OPTIONS)[number])) {
+    throw new SchedulePlannerError(`tvCount must be one of ${TV_NUMBER_OPTIONS.join(', ')}`, 'tvCount');
+  }
+
+  const durationsInput = isRecord(input.durations) ? input.durations : {};
+  const durations = Object.fromEntries(
+    SCHEDULE_MODES.map((mode) => [
+      mode,
+      minutes(durationsInput[mode] ?? defaults.durations[mode], `durations.${mode}`, {
+        min: 1,
+        max: MAX_MATCH_DURATION_MINUTES,
+      }),
+    ]),
+  ) as Record<ScheduleMode, number>;
+
+  const changeoverMinutes = minutes(input.changeoverMinutes ?? defaults.changeoverMinutes, 'changeoverMinutes', {
+    min: 0,
+    max: MAX_CHANGEOVER_MINUTES,
+  });
+
+  const modesInput = input.modes ?? defaults.modes;
+  if (
+    !Array.isArray(modesInput) ||
+    modesInput.length === 0 ||
+    modesInput.some((mode) => !SCHEDULE_MODES.includes(mode as ScheduleMode))
+  ) {
+    throw new SchedulePlannerError(`modes must be a non-empty subset of ${SCHEDULE_MODES.join(', ')}`, 'modes');
+  }
+  const modes = SCHEDULE_MODES.filter((mode) => modesInput.includes(mode));
+
+  return { startAt: new Date(startAt).toISOString(), tvCount: tvCount as number, durations, changeoverMinutes, modes };
+}
+
+function compareMatches(a: ScheduleMatchInput, b: ScheduleMatchInput): number {
+  return (
+    (a.roundNumber ?? Number.MAX_SAFE_INTEGER) - (b.roundNumber ?? Number.MAX_SAFE_INTEGER) ||
+    a.matchNumber - b.matchNumber ||
+    SCHEDULE_MODES.indexOf(a.mode) - SCHEDULE_MODES.indexOf(b.mode)
+  );
+}
+
+/** Assign start times and TVs to every match of the selected modes. */
+export function planMatchSchedule<T extends ScheduleMatchInput>(
+  matches: T[],
+  settings: SchedulePlannerSettings,
+  reserved: ReservedScheduleSlot[] = [],
+): SchedulePlan<T> {
+  const origin = Date.parse(settings.startAt);
+  const changeover = settings.changeoverMinutes * MINUTE_MS;
+  const pending = matches.filter((match) => settings.modes.includes(match.mode)).sort(compareMatches);
+
+  /* Per mode and player, the matches still to place in Day order. */
+  const queues = new Map<string, T[]>();
+  const queueKey = (mode: ScheduleMode, playerId: string) => `${mode}:${playerId}`;
+  for (const match of pending) {
+    for (const playerId of [match.player1Id, match.player2Id]) {
+      const key = queueKey(match.mode, playerId);
+      queues.set(key, [...(queues.get(key) ?? []), match]);
+    }
+  }
+
+  const playerFreeAt = new Map<string, number>();
+  const tvFreeAt = Array.from({ length: settings.tvCount }, () => origin);
+  for (const slot of reserved) {
+    const freeAt = Date.parse(slot.endAt) + changeover;
+    for (const playerId of [slot.player1Id, slot.player2Id]) {
+      playerFreeAt.set(playerId, Math.max(playerFreeAt.get(playerId) ?? origin, freeAt));
+    }
+    /* A stored TV beyond tvCount is not used by this plan. */
+    const tvIndex = (slot.tvNumber ?? 0) - 1;
+    if (tvIndex >= 0 && tvIndex < tvFreeAt.length) tvFreeAt[tvIndex] = Math.max(tvFreeAt[tvIndex], freeAt);
+  }
+  const slots: ScheduledMatch<T>[] = [];
+  const remaining = new Set(pending);
+
+  while (remaining.size > 0) {
+    let best: { match: T; start: number; tvIndex: number } | null = null;
+    for (const match of remaining) {
+      const ready = [match.player1Id, match.player2Id].every(
+        (playerId) => queues.get(queueKey(match.mode, playerId))?.[0] === match,
+      );
+      if (!ready) continue;
+      const playersReady = Math.max(
+        playerFreeAt.get(match.player1Id) ?? origin,
+        playerFreeAt.get(match.player2Id) ?? origin,
+      );
+      let tvIndex = 0;
+      for (let i = 1; i < tvFreeAt.length; i++) {
+        if (Math.max(tvFreeAt[i], playersReady) < Math.max(tvFreeAt[tvIndex], playersReady)) tvIndex = i;
+      }
+      const start = Math.max(tvFreeAt[tvIndex], playersReady);
+      /* `remaining` iterates in compareMatches order, so strict < keeps the tie-break. */
+      if (!best || start < best.start) best = { match, start, tvIndex };
+    }
+    if (!best) {
+      // Unreachable for round-robin input: the lowest pending match is always at the head of its queues.
+      throw new Error('Schedule planner could not place the remaining matches');
+    }
+
+    const { match, start, tvIndex } = best;
+    const end = start + settings.durations[match.mode] * MINUTE_MS;
+    tvFreeAt[tvIndex] = end + changeover;
+    for (const playerId of [match.player1Id, match.player2Id]) {
+      playerFreeAt.set(playerId, end + changeover);
+      queues.get(queueKey(match.mode, playerId))?.shift();
+    }
+    remaining.delete(match);
+    slots.push({
+      ...match,
+      tvNumber: tvIndex + 1,
+      startAt: new Date(start).toISOString(),
+      endAt: new Date(end).toISOString(),
+    });
+  }
+
+  slots.sort((a, b) => a.startAt.localeCompare(b.startAt) || a.tvNumber - b.tvNumber);
+  const endAt = slots.reduce((latest, slot) => (slot.endAt > latest ? slot.endAt : latest), settings.startAt);
+  return { settings, slots, endAt };
+}
+
+/**
+ * Overlapping matches on the same TV or for the same player. Used to flag a
+ * stored schedule that was edited by hand (e.g. a TV changed on the match
+ * list) after the plan was applied.
+ */
+export function findScheduleConflicts(
+  slots: Array<
+    Pick<ScheduledMatch, 'id' | 'player1Id' | 'player2Id' | 'startAt' | 'endAt'> & { tvNumber: number | null }
+  >,
+): ScheduleConflict[] {
+  const sorted = [...slots].sort((a, b) => a.startAt.localeCompare(b.startAt));
+  const conflicts: ScheduleConflict[] = [];
+  for (let i = 0; i < sorted.length; i++) {
+    for (let j = i + 1; j < sorted.length && sorted[j].startAt < sorted[i].endAt; j++) {
+      const [a, b] = [sorted[i], sorted[j]];
+      if (a.tvNumber !== null && a.tvNumber === b.tvNumber)
+        conflicts.push({ type: 'tv', tvNumber: a.tvNumber, matchIds: [a.id, b.id] });
+      for (const playerId of [a.player1Id, a.player2Id]) {
+        if (playerId === b.player1Id || playerId === b.player2Id) {
+          conflicts.push({ type: 'player', playerId, matchIds: [a.id, b.id] });
+        }
+      }
+    }
+  }
+  return conflicts;
+}
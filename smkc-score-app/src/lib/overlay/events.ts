@@ -15,6 +15,7 @@ import type {
   OverlayMode,
   OverlayTaChampionStanding,
   OverlayTaPhaseResult,
+  OverlayTaRecordKind,
   OverlayTaTimeRecord,
 } from './types';
 
@@ -36,6 +37,11 @@ const TA_STAGE_LABEL: Record<string, string> = {
   phase3: 'Phase 3',
 };
 
+const TA_RECORD_LABEL: Record<OverlayTaRecordKind, string> = {
+  event_record: 'Event Record',
+  personal_best: 'Personal Best',
+};
+
 function courseName(abbr: string): string {
   return COURSE_INFO.find((course) => course.abbr === abbr)?.name ?? abbr;
 }
@@ -130,6 +136,7 @@ function modeChampionStandings(
 ): OverlayTaChampionStanding[] | null {
   const isGrandFinal = decidingMatch.round === 'grand_final';
   const isReset = decidingMatch.round === 'grand_final_reset';
+  if (decidingMatch.round === 'single_final') return singleEliminationChampionStandings(matches, decidingMatch);
   if (!isGrandFinal && !isReset) return null;
 
   const { winner, loser } = winnerLoser(decidingMatch);
@@ -154,10 +161,45 @@ function modeChampionStandings(
   return standings;
 }
 
+/** Single-elimination finals: the final decides 1st/2nd, the optional third-place match 3rd. */
+function singleEliminationChampionStandings(
+  matches: OverlayMatchInput[],
+  final: OverlayMatchInput,
+): OverlayTaChampionStanding[] | null {
+  const { winner, loser } = winnerLoser(final);
+  if (!winner || !loser) return null;
+
+  const standings: OverlayTaChampionStanding[] = [
+    { rank: 1, player: nick(winner) },
+    { rank: 2, player: nick(loser) },
+  ];
+
+  const thirdPlaceMatch = matches.find((match) => match.round === 'single_third_place' && match.completed);
+  if (thirdPlaceMatch) {
+    const third = winnerLoser(thirdPlaceMatch).winner;
+    if (third) standings.push({ rank: 3, player: nick(third) });
+  }
+
+  return standings;
+}
+
 function matchEvents(matches: OverlayMatchInput[], mode: OverlayMode, since: Date): OverlayEvent[] {
   const out: OverlayEvent[] = [];
   for (const m of matches) {
-    if (!m.completed) continue;
+    if (!m.completed) {
+      // Venue call (venue-queue.ts). Keyed on calledAt so a re-call fires again.
+      if (m.calledAt && m.calledAt.getTime() > since.getTime()) {
+        out.push({
+          id: `match_called:${mode}:${m.id}:${m.calledAt.getTime()}`,
+          type: 'match_called',
+          timestamp: m.calledAt.toISOString(),
+          mode,
+          title: m.tvNumber ? `Now Calling: TV ${m.tvNumber}` : 'Now Calling',
+          subtitle: `${nick(m.player1)} vs ${nick(m.player2)} (${modeName(mode)} ${matchStageLabel(m.stage)} Match #${m.matchNumber})`,
+        });
+      }
+      continue;
+    }
     if (m.updatedAt.getTime() <= since.getTime()) continue;
     const stageLabel = matchStageLabel(m.stage);
     const scoreLabel = `${m.score1}-${m.score2}`;
@@ -384,6 +426,40 @@ export function buildOverlayEvents(input: BuildOverlayEventsInput): OverlayEvent
     }
   }
 
+  // Course records ride on the same event type as the time itself so the
+  // dashboard's TA card renders them; the +1ms keeps the call-out after the
+  // plain time / round card. The id is content-addressed like qualification
+  // completion because rank recalculation re-bumps every entry's updatedAt.
+  for (const record of input.taCourseRecords ?? []) {
+    if (record.recordedAt.getTime() <= sinceMs || record.records.length === 0) continue;
+    const stageLabel = TA_STAGE_LABEL[record.stage] ?? '';
+    const prefix = stageLabel ? `[${stageLabel}] ` : '';
+    const playerName = nick(record.player);
+    const time = msToDisplayTime(record.timeMs);
+    events.push({
+      id: `ta_time_recorded:record:${record.sourceId}:${record.playerId}:${record.course}:${record.timeMs}`,
+      type: 'ta_time_recorded',
+      timestamp: new Date(record.recordedAt.getTime() + 1).toISOString(),
+      mode: 'ta',
+      title: `${prefix}${playerName} set a new ${TA_RECORD_LABEL[record.records[0].kind]} on ${courseName(record.course)}: ${time}`,
+      subtitle: record.records
+        .map(
+          (broken) =>
+            `Previous ${TA_RECORD_LABEL[broken.kind]}: ${broken.previousTimeFormatted}` +
+            (broken.kind === 'personal_best' ? '' : ` (${broken.previousHolder})`),
+        )
+        .join(' / '),
+      taTimeRecord: {
+        player: playerName,
+        course: record.course,
+        time,
+        phaseLabel: stageLabel || undefined,
+        rank: null,
+        records: record.records,
+      },
+    });
+  }
+
   if (tournament.qualificationConfirmedAt && tournament.qualificationConfirmedAt.getTime() > sinceMs) {
     events.push({
       id: `qualification_confirmed:${tournament.qualificationConfirmedAt.getTime()}`,
@@ -414,6 +490,19 @@ export function buildOverlayEvents(input: BuildOverlayEventsInput): OverlayEvent
     });
   }
 
+  if (tournament.latestTeamRankingUpdatedAt && tournament.latestTeamRankingUpdatedAt.getTime() > sinceMs) {
+    const standings = tournament.teamStandings ?? [];
+    const leader = standings[0];
+    events.push({
+      id: `team_ranking_updated:${tournament.latestTeamRankingUpdatedAt.getTime()}`,
+      type: 'team_ranking_updated',
+      timestamp: tournament.latestTeamRankingUpdatedAt.toISOString(),
+      title: 'Team Ranking Updated',
+      subtitle: leader ? `${leader.team} leads with ${leader.points} pts` : 'Team standings have been updated',
+      ...(standings.length > 0 ? { teamRanking: { standings } } : {}),
+    });
+  }
+
   events.sort((a, b) => Date.parse(a.timestamp) - Date.parse(b.timestamp) || a.id.localeCompare(b.id));
   return events;
 }
@@ -60,6 +60,8 @@ const FINALS_ROUND_LABEL: Record<string, string> = {
   qf: 'Quarter Final',
   playoff_r1: 'Playoff Round 1',
   playoff_r2: 'Playoff Round 2',
+  winners_r1: 'Winners Round 1',
+  winners_r2: 'Winners Round 2',
   winners_qf: 'Winners Quarter Final',
   sf: 'Semi Final',
   winners_sf: 'Winners Semi Final',
@@ -68,13 +70,21 @@ const FINALS_ROUND_LABEL: Record<string, string> = {
   losers_r2: 'Losers Round 2',
   losers_r3: 'Losers Round 3',
   losers_r4: 'Losers Round 4',
+  losers_r5: 'Losers Round 5',
+  losers_r6: 'Losers Round 6',
   losers_sf: 'Losers Semi Final',
   losers_final: 'Losers Final',
   grand_final: 'Grand Final',
   grand_final_reset: 'Grand Final Reset',
+  single_qf: 'Quarter Final',
+  single_sf: 'Semi Final',
+  single_third_place: 'Third Place Match',
+  single_final: 'Final',
 };
 
 function labelFinalsRound(round: string): string {
+  const numberedRound = round.match(/^(single|round_robin)_r(\d+)$/);
+  if (numberedRound) return `${numberedRound[1] === 'single' ? 'Round' : 'Round Robin Round'} ${numberedRound[2]}`;
   return FINALS_ROUND_LABEL[round] ?? round;
 }
 
@@ -14,6 +14,7 @@ export type OverlayMode = 'ta' | 'bm' | 'mr' | 'gp';
 
 export type OverlayEventType =
   | 'score_reported'
+  | 'match_called'
   | 'match_completed'
   | 'mode_champion_decided'
   | 'ta_time_recorded'
@@ -23,7 +24,8 @@ export type OverlayEventType =
   | 'ta_phase_completed'
   | 'ta_lives_reset'
   | 'ta_champion_decided'
-  | 'overall_ranking_updated';
+  | 'overall_ranking_updated'
+  | 'team_ranking_updated';
 
 /**
  * A single overlay event.
@@ -81,6 +83,10 @@ export interface OverlayMatchResult {
  *  - **Phase round** (phase1 / phase2 / phase3, single course per round):
  *    `course` and `time` are set per the most recently recorded course;
  *    `totalTimeMs` / `totalTimeFormatted` are absent.
+ *
+ *  - **Course record** (any stage): a course time that beat the player's
+ *    personal best or the event record. `course` and `time` are set and
+ *    `records` lists what was beaten.
  */
 export interface OverlayTaTimeRecord {
   player: string;
@@ -97,6 +103,20 @@ export interface OverlayTaTimeRecord {
   phaseLabel?: string;
   /** Current rank in the active stage, when known. */
   rank: number | null;
+  /** Records the time beat, most prominent first — set only for course-record events. */
+  records?: OverlayTaRecordBroken[];
+}
+
+/** Record kinds the overlay calls out; all-time app records stay on the records page. */
+export type OverlayTaRecordKind = 'event_record' | 'personal_best';
+
+export interface OverlayTaRecordBroken {
+  kind: OverlayTaRecordKind;
+  previousTimeMs: number;
+  /** Formatted previous best ("M:SS.cc"). */
+  previousTimeFormatted: string;
+  /** Who held the previous best (the player themself for a personal best). */
+  previousHolder: string;
 }
 
 export interface OverlayTaPhaseParticipant {
@@ -146,6 +166,19 @@ export interface OverlayModeChampion {
   standings: OverlayTaChampionStanding[];
 }
 
+export interface OverlayTeamStanding {
+  rank: number;
+  team: string;
+  /** ISO alpha-2 code for the team flag, when known. */
+  country: string | null;
+  points: number;
+}
+
+export interface OverlayTeamRanking {
+  /** Top teams only; the full table lives on the team standings page. */
+  standings: OverlayTeamStanding[];
+}
+
 export interface OverlayEvent {
   id: string;
   type: OverlayEventType;
@@ -166,6 +199,8 @@ export interface OverlayEvent {
   taChampion?: OverlayTaChampion;
   /** Populated only when `type === "mode_champion_decided"`. */
   modeChampion?: OverlayModeChampion;
+  /** Populated only when `type === "team_ranking_updated"`. */
+  teamRanking?: OverlayTeamRanking;
 }
 
 /**
@@ -201,6 +236,10 @@ export interface OverlayMatchInput {
   assignedCourses?: unknown;
   /** GP only. The `cup` column ("Mushroom" / "Flower" / "Star" / "Special"). */
   cup?: string | null;
+  /** TV the match is assigned to; shown on `match_called` events. */
+  tvNumber?: number | null;
+  /** Set when an admin called the match from the venue screen. */
+  calledAt?: Date | null;
 }
 
 export interface OverlayScoreLogInput {
@@ -240,6 +279,23 @@ export interface OverlayTtPhaseRoundInput {
   championStandings?: OverlayTaChampionStanding[];
 }
 
+/**
+ * A course time that beat a personal best or the event record, resolved by
+ * the route against the course history (lib/ta/course-records.ts).
+ */
+export interface OverlayTaCourseRecordInput {
+  /** TTEntry id (qualification) or TTPhaseRound id (finals) the time was entered on. */
+  sourceId: string;
+  playerId: string;
+  player: OverlayPlayerRef | null;
+  stage: string;
+  course: string;
+  timeMs: number;
+  /** When the time was saved: the entry's updatedAt or the round's submittedAt. */
+  recordedAt: Date;
+  records: OverlayTaRecordBroken[];
+}
+
 export interface OverlayTournamentInput {
   qualificationConfirmedAt: Date | null;
   /**
@@ -252,6 +308,14 @@ export interface OverlayTournamentInput {
    * tournament. Indicates the overall ranking was recalculated.
    */
   latestOverallRankingUpdatedAt: Date | null;
+  /**
+   * When team standings last changed: team settings / team edits, or an
+   * overall ranking recalculation while team standings are enabled. Null
+   * when team standings are off.
+   */
+  latestTeamRankingUpdatedAt?: Date | null;
+  /** Top team standings, loaded only when `latestTeamRankingUpdatedAt` is after `since`. */
+  teamStandings?: OverlayTeamStanding[];
 }
 
 export interface BuildOverlayEventsInput {
@@ -264,6 +328,8 @@ export interface BuildOverlayEventsInput {
   ttEntries: OverlayTtEntryInput[];
   ttPhaseRounds: OverlayTtPhaseRoundInput[];
   scoreLogs: OverlayScoreLogInput[];
+  /** Course times that set a personal best or event record; omitted when none. */
+  taCourseRecords?: OverlayTaCourseRecordInput[];
 }
 
 export interface OverlayEventsResponse {
@@ -1,8 +1,6 @@
-export type ParticipantScoreEntryAccessState =
-  | "loading"
-  | "player"
-  | "admin-blocked"
-  | "login-required";
+import type { MatchReportTokenClaims } from '@/lib/match-report-token';
+
+export type ParticipantScoreEntryAccessState = 'loading' | 'player' | 'admin-blocked' | 'login-required';
 
 interface ParticipantScoreEntryAccessOptions {
   sessionStatus: string;
@@ -15,17 +13,41 @@ export function getParticipantScoreEntryAccessState({
   userType,
   role,
 }: ParticipantScoreEntryAccessOptions): ParticipantScoreEntryAccessState {
-  if (sessionStatus === "loading") {
-    return "loading";
+  if (sessionStatus === 'loading') {
+    return 'loading';
   }
 
-  if (userType === "player") {
-    return "player";
+  if (userType === 'player') {
+    return 'player';
   }
 
-  if (role === "admin") {
-    return "admin-blocked";
+  if (role === 'admin') {
+    return 'admin-blocked';
   }
 
-  return "login-required";
+  return 'login-required';
+}
+
+interface MatchReportTokenTarget {
+  id: string;
+  player1Id: string | null;
+  player2Id: string | null;
+}
+
+/**
+ * Side (1 or 2) a QR match report token lets its holder report for, or null
+ * when it is expired, for another match, or the player no longer holds that
+ * side. Shared by useMatchReportAuth (decoded claims, to preselect the
+ * player) and checkScoreReportAuth (verified claims, to authorize).
+ */
+export function getMatchReportTokenSide(
+  claims: MatchReportTokenClaims | null,
+  match: MatchReportTokenTarget,
+  now: number = Date.now(),
+): 1 | 2 | null {
+  if (!claims || claims.matchId !== match.id || claims.exp * 1000 <= now) {
+    return null;
+  }
+  const sidePlayerId = claims.side === 1 ? match.player1Id : match.player2Id;
+  return sidePlayerId === claims.playerId ? claims.side : null;
 }
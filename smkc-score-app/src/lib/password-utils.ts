@@ -13,6 +13,7 @@
  * These utilities are used for:
  * - Player credential authentication (the "player-credentials" provider)
  * - Password generation for new player accounts
+ * - Hashing passwords players choose on the sign-up page
  *
  * IMPORTANT: Passwords in this system are used for both player sessions
  * and administrator sessions. Admin access is granted by allowlisting
@@ -41,6 +42,14 @@ const logger = createLogger('password-utils');
  */
 export const BCRYPT_ROUNDS = 10;
 
+/**
+ * Length bounds for passwords players choose themselves. bcrypt ignores
+ * everything after the 72nd byte, so longer input is rejected rather than
+ * silently truncated.
+ */
+export const MIN_PASSWORD_LENGTH = 8;
+export const MAX_PASSWORD_LENGTH = 72;
+
 /**
  * Human-readable character set for generated temporary passwords.
  *
@@ -51,8 +60,7 @@ export const BCRYPT_ROUNDS = 10;
  * - Lowercase: l, o
  * - Digits: 0, 1
  */
-export const READABLE_PASSWORD_CHARSET =
-  'ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnpqrstuvwxyz23456789!@#$%^&*';
+export const READABLE_PASSWORD_CHARSET = 'ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnpqrstuvwxyz23456789!@#$%^&*';
 
 /**
  * Generates a cryptographically secure random password.
@@ -122,10 +130,7 @@ export async function hashPassword(plainPassword: string): Promise<string> {
  * @param hashedPassword - The stored bcrypt hash to verify against
  * @returns true if the password matches the hash, false otherwise
  */
-export async function verifyPassword(
-  plainPassword: string,
-  hashedPassword: string
-): Promise<boolean> {
+export async function verifyPassword(plainPassword: string, hashedPassword: string): Promise<boolean> {
   try {
     // bcrypt.compare extracts the salt from the stored hash and
     // re-computes the hash with the plain password to check for a match.
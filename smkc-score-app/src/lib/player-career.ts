@@ -0,0 +1,633 @@
+/**
+ * Player Career Aggregation
+ *
+ * Builds a cross-tournament history for one player: per-mode placements,
+ * overall rank over time, win/loss records and a head-to-head table against
+ * every opponent the player has met in BM/MR/GP.
+ *
+ * Data comes from two places:
+ *   - Live D1 rows (TournamentPlayerScore, BM/MR/GPMatch, TTEntry)
+ *   - R2 archive bundles for tournaments whose D1 rows were purged after
+ *     archiving. Tournaments still present in D1 are never read from the
+ *     archive so a player is not counted twice. The rows extracted from the
+ *     archives are cached (cache-backend.ts) per player and archive set, so
+ *     a profile view reads R2 only after an archive or purge changes that set.
+ *
+ * `buildPlayerCareer` is a pure function over normalized rows so it can be
+ * unit-tested without Prisma; `loadPlayerCareer` performs the I/O.
+ *
+ * Visibility: non-admin callers only see modes listed in each tournament's
+ * `publicModes` (and overall rank only when `overall` is public), matching
+ * the gate used by the per-tournament public endpoints.
+ */
+
+import prisma from '@/lib/prisma';
+import { PLAYER_PUBLIC_SELECT } from '@/lib/prisma-selects';
+import { createLogger } from '@/lib/logger';
+import { getCacheBackend } from '@/lib/cache-backend';
+import { digestJson } from '@/lib/digest';
+import { BREAK_PLAYER_ID } from '@/lib/round-robin';
+import {
+  BM_MR_GP_FINALS_POINTS,
+  TA_FINALS_POINTS,
+  getPositionRange,
+  type FinalsMode,
+} from '@/lib/points/finals-points';
+import type { PlayerTournamentScore } from '@/lib/points/overall-ranking';
+import {
+  readTournamentArchive,
+  readTournamentArchiveIndex,
+  type TournamentArchiveBundle,
+} from '@/lib/tournament-archive';
+
+export const CAREER_MATCH_MODES = ['bm', 'mr', 'gp'] as const;
+export type CareerMatchMode = (typeof CAREER_MATCH_MODES)[number];
+export type CareerMode = 'ta' | CareerMatchMode;
+
+/**
+ * Lifetime of cached archive rows. Archives do not change under a given set
+ * key, so this only bounds how long entries for superseded sets linger.
+ */
+const ARCHIVED_CAREER_TTL_MS = 60 * 60 * 1000;
+
+/** TA stages in progression order; the furthest one reached is reported. */
+const TA_STAGE_ORDER = ['qualification', 'phase1', 'phase2', 'phase3'] as const;
+
+/** Keep `IN (...)` lists well under D1's bound-parameter limit. */
+const D1_IN_CHUNK_SIZE = 50;
+
+export type CareerPlayer = {
+  id: string;
+  name: string;
+  nickname: string;
+  country: string | null;
+};
+
+export type CareerTournament = {
+  id: string;
+  name: string;
+  slug: string | null;
+  date: string | Date;
+  archived: boolean;
+  publicModes: unknown;
+};
+
+export type CareerScoreRow = Pick<
+  PlayerTournamentScore,
+  | 'taQualificationPoints'
+  | 'bmQualificationPoints'
+  | 'mrQualificationPoints'
+  | 'gpQualificationPoints'
+  | 'taFinalsPoints'
+  | 'bmFinalsPoints'
+  | 'mrFinalsPoints'
+  | 'gpFinalsPoints'
+  | 'totalPoints'
+  | 'overallRank'
+> & { tournamentId: string };
+
+/**
+ * Normalized BM/MR/GP match. GP `points1`/`points2` are mapped onto
+ * `score1`/`score2` so winner resolution is shared across modes.
+ */
+export type CareerMatch = {
+  tournamentId: string;
+  mode: CareerMatchMode;
+  stage: string;
+  completed: boolean;
+  isBye: boolean;
+  player1Id: string | null;
+  player2Id: string | null;
+  player1: CareerPlayer | null;
+  player2: CareerPlayer | null;
+  score1: number;
+  score2: number;
+  winnerOverrideId: string | null;
+  suddenDeathWinnerId: string | null;
+};
+
+export type CareerTaEntry = {
+  tournamentId: string;
+  stage: string;
+  rank: number | null;
+};
+
+export type CareerSource = {
+  tournaments: CareerTournament[];
+  scores: CareerScoreRow[];
+  matches: CareerMatch[];
+  taEntries: CareerTaEntry[];
+};
+
+export type WinLossRecord = {
+  played: number;
+  wins: number;
+  losses: number;
+  ties: number;
+};
+
+export type CareerModeResult = {
+  qualificationPoints: number | null;
+  finalsPoints: number | null;
+  /** Finals placement range recovered from finals points (e.g. 5th-6th). */
+  finalsPlacement: { start: number; end: number } | null;
+  /** Completed match record in this mode (BM/MR/GP only). */
+  record?: WinLossRecord;
+  /** TA qualification rank from TTEntry (TA only). */
+  qualificationRank?: number | null;
+  /** Furthest TA stage the player was entered in (TA only). */
+  furthestStage?: string | null;
+};
+
+export type CareerTournamentResult = {
+  tournamentId: string;
+  name: string;
+  slug: string | null;
+  date: string;
+  archived: boolean;
+  overallRank: number | null;
+  totalPoints: number | null;
+  modes: Partial<Record<CareerMode, CareerModeResult>>;
+};
+
+export type CareerRankPoint = {
+  tournamentId: string;
+  name: string;
+  date: string;
+  overallRank: number;
+  totalPoints: number;
+};
+
+export type HeadToHeadRow = {
+  opponent: CareerPlayer;
+  total: WinLossRecord;
+  bm: WinLossRecord;
+  mr: WinLossRecord;
+  gp: WinLossRecord;
+  lastMetAt: string;
+};
+
+export type PlayerCareer = {
+  player: CareerPlayer;
+  summary: {
+    tournamentsPlayed: number;
+    titles: number;
+    bestOverallRank: number | null;
+  };
+  /** Most recent tournament first. */
+  tournaments: CareerTournamentResult[];
+  /** Oldest tournament first, only tournaments with a visible overall rank. */
+  rankHistory: CareerRankPoint[];
+  records: Record<'total' | CareerMatchMode, WinLossRecord>;
+  headToHead: HeadToHeadRow[];
+};
+
+export type CareerMatchOutcome = 'win' | 'loss' | 'tie';
+
+function emptyRecord(): WinLossRecord {
+  return { played: 0, wins: 0, losses: 0, ties: 0 };
+}
+
+function addOutcome(record: WinLossRecord, outcome: CareerMatchOutcome): void {
+  record.played += 1;
+  if (outcome === 'win') record.wins += 1;
+  else if (outcome === 'loss') record.losses += 1;
+  else record.ties += 1;
+}
+
+function toIsoDate(value: string | Date): string {
+  return new Date(value).toISOString();
+}
+
+/**
+ * Recover the finals placement range from stored finals points.
+ * TournamentPlayerScore persists points rather than positions; both tables
+ * are non-increasing, so the first position carrying the value identifies
+ * the whole tied range (e.g. 750 -> 5th-6th).
+ */
+function getPlacementFromFinalsPoints(mode: FinalsMode, points: number): { start: number; end: number } | null {
+  if (points <= 0) return null;
+  const table = mode === 'TA' ? TA_FINALS_POINTS : BM_MR_GP_FINALS_POINTS;
+  const index = table.indexOf(points);
+  return index < 0 ? null : getPositionRange(mode, index + 1);
+}
+
+/**
+ * Resolve a completed match from `playerId`'s point of view.
+ *
+ * Mirrors the winner precedence used by overall-ranking: admin override,
+ * then score ordering, then the legacy GP sudden-death winner. Qualification
+ * draws (e.g. BM 2-2) are reported as ties. Byes, BREAK pairings and
+ * unfinished matches return null because they are not real results.
+ */
+export function resolveCareerMatchOutcome(match: CareerMatch, playerId: string): CareerMatchOutcome | null {
+  if (!match.completed || match.isBye) return null;
+  if (!match.player1Id || !match.player2Id) return null;
+  if (match.player1Id === BREAK_PLAYER_ID || match.player2Id === BREAK_PLAYER_ID) return null;
+  if (match.player1Id !== playerId && match.player2Id !== playerId) return null;
+
+  let winnerId: string | null = null;
+  if (match.winnerOverrideId === match.player1Id || match.winnerOverrideId === match.player2Id) {
+    winnerId = match.winnerOverrideId;
+  } else if (match.score1 > match.score2) {
+    winnerId = match.player1Id;
+  } else if (match.score2 > match.score1) {
+    winnerId = match.player2Id;
+  } else if (match.suddenDeathWinnerId === match.player1Id || match.suddenDeathWinnerId === match.player2Id) {
+    winnerId = match.suddenDeathWinnerId;
+  }
+
+  if (winnerId === null) return 'tie';
+  return winnerId === playerId ? 'win' : 'loss';
+}
+
+/**
+ * Modes the caller may see for a tournament. Admins see everything;
+ * everyone else is limited to the tournament's published sections.
+ */
+function getVisibleSections(tournament: CareerTournament, includeHidden: boolean): Set<string> {
+  if (includeHidden) return new Set(['ta', 'bm', 'mr', 'gp', 'overall']);
+  const publicModes = Array.isArray(tournament.publicModes) ? tournament.publicModes : [];
+  return new Set(publicModes.filter((mode): mode is string => typeof mode === 'string'));
+}
+
+function getFurthestTaStage(entries: CareerTaEntry[]): string | null {
+  let furthest = -1;
+  for (const entry of entries) {
+    furthest = Math.max(furthest, TA_STAGE_ORDER.indexOf(entry.stage as (typeof TA_STAGE_ORDER)[number]));
+  }
+  return furthest >= 0 ? TA_STAGE_ORDER[furthest] : null;
+}
+
+/**
+ * Assemble a career from normalized rows. Rows belonging to tournaments not
+ * listed in `source.tournaments` are ignored, as are rows for modes the
+ * caller may not see.
+ */
+export function buildPlayerCareer(
+  player: CareerPlayer,
+  source: CareerSource,
+  options: { includeHidden: boolean },
+): PlayerCareer {
+  const tournamentsById = new Map(source.tournaments.map((tournament) => [tournament.id, tournament]));
+  const visibleById = new Map(
+    source.tournaments.map((tournament) => [tournament.id, getVisibleSections(tournament, options.includeHidden)]),
+  );
+  const scoreByTournament = new Map(source.scores.map((score) => [score.tournamentId, score]));
+
+  const taEntriesByTournament = new Map<string, CareerTaEntry[]>();
+  for (const entry of source.taEntries) {
+    if (!tournamentsById.has(entry.tournamentId)) continue;
+    const entries = taEntriesByTournament.get(entry.tournamentId) ?? [];
+    entries.push(entry);
+    taEntriesByTournament.set(entry.tournamentId, entries);
+  }
+
+  const records: PlayerCareer['records'] = {
+    total: emptyRecord(),
+    bm: emptyRecord(),
+    mr: emptyRecord(),
+    gp: emptyRecord(),
+  };
+  const perTournamentRecords = new Map<string, Partial<Record<CareerMatchMode, WinLossRecord>>>();
+  const headToHead = new Map<string, HeadToHeadRow>();
+  const matchModesByTournament = new Map<string, Set<CareerMatchMode>>();
+
+  for (const match of source.matches) {
+    const tournament = tournamentsById.get(match.tournamentId);
+    if (!tournament || !visibleById.get(match.tournamentId)?.has(match.mode)) continue;
+    if (match.player1Id !== player.id && match.player2Id !== player.id) continue;
+
+    const modes = matchModesByTournament.get(match.tournamentId) ?? new Set<CareerMatchMode>();
+    modes.add(match.mode);
+    matchModesByTournament.set(match.tournamentId, modes);
+
+    const outcome = resolveCareerMatchOutcome(match, player.id);
+    if (!outcome) continue;
+
+    addOutcome(records.total, outcome);
+    addOutcome(records[match.mode], outcome);
+
+    const tournamentRecords = perTournamentRecords.get(match.tournamentId) ?? {};
+    tournamentRecords[match.mode] ??= emptyRecord();
+    addOutcome(tournamentRecords[match.mode]!, outcome);
+    perTournamentRecords.set(match.tournamentId, tournamentRecords);
+
+    const opponent = match.player1Id === player.id ? match.player2 : match.player1;
+    if (!opponent) continue;
+    const metAt = toIsoDate(tournament.date);
+    const row = headToHead.get(opponent.id) ?? {
+      opponent,
+      total: emptyRecord(),
+      bm: emptyRecord(),
+      mr: emptyRecord(),
+      gp: emptyRecord(),
+      lastMetAt: metAt,
+    };
+    addOutcome(row.total, outcome);
+    addOutcome(row[match.mode], outcome);
+    if (metAt > row.lastMetAt) row.lastMetAt = metAt;
+    headToHead.set(opponent.id, row);
+  }
+
+  const tournaments: CareerTournamentResult[] = [];
+  for (const tournament of source.tournaments) {
+    const visible = visibleById.get(tournament.id)!;
+    const score = scoreByTournament.get(tournament.id);
+    const taEntries = taEntriesByTournament.get(tournament.id) ?? [];
+    const matchModes = matchModesByTournament.get(tournament.id);
+    const modes: CareerTournamentResult['modes'] = {};
+
+    if (
+      visible.has('ta') &&
+      (taEntries.length > 0 || (score && score.taQualificationPoints + score.taFinalsPoints > 0))
+    ) {
+      const qualificationEntry = taEntries.find((entry) => entry.stage === 'qualification');
+      modes.ta = {
+        qualificationPoints: score?.taQualificationPoints ?? null,
+        finalsPoints: score?.taFinalsPoints ?? null,
+        finalsPlacement: score ? getPlacementFromFinalsPoints('TA', score.taFinalsPoints) : null,
+        qualificationRank: qualificationEntry?.rank ?? null,
+        furthestStage: getFurthestTaStage(taEntries),
+      };
+    }
+
+    for (const mode of CAREER_MATCH_MODES) {
+      if (!visible.has(mode)) continue;
+      const qualificationPoints = score?.[`${mode}QualificationPoints`] ?? null;
+      const finalsPoints = score?.[`${mode}FinalsPoints`] ?? null;
+      if (!matchModes?.has(mode) && !qualificationPoints && !finalsPoints) continue;
+      modes[mode] = {
+        qualificationPoints,
+        finalsPoints,
+        finalsPlacement:
+          finalsPoints !== null
+            ? getPlacementFromFinalsPoints(mode.toUpperCase() as 'BM' | 'MR' | 'GP', finalsPoints)
+            : null,
+        record: perTournamentRecords.get(tournament.id)?.[mode] ?? emptyRecord(),
+      };
+    }
+
+    const showOverall = visible.has('overall') && score !== undefined;
+    if (Object.keys(modes).length === 0 && !showOverall) continue;
+
+    tournaments.push({
+      tournamentId: tournament.id,
+      name: tournament.name,
+      slug: tournament.slug,
+      date: toIsoDate(tournament.date),
+      archived: tournament.archived,
+      overallRank: showOverall ? score.overallRank : null,
+      totalPoints: showOverall ? score.totalPoints : null,
+      modes,
+    });
+  }
+
+  tournaments.sort((a, b) => b.date.localeCompare(a.date));
+
+  const rankHistory: CareerRankPoint[] = tournaments
+    .filter((tournament) => tournament.overallRank !== null)
+    .map((tournament) => ({
+      tournamentId: tournament.tournamentId,
+      name: tournament.name,
+      date: tournament.date,
+      overallRank: tournament.overallRank!,
+      totalPoints: tournament.totalPoints ?? 0,
+    }))
+    .reverse();
+
+  const ranks = rankHistory.map((point) => point.overallRank);
+
+  return {
+    player,
+    summary: {
+      tournamentsPlayed: tournaments.length,
+      titles: ranks.filter((rank) => rank === 1).length,
+      bestOverallRank: ranks.length > 0 ? Math.min(...ranks) : null,
+    },
+    tournaments,
+    rankHistory,
+    records,
+    headToHead: [...headToHead.values()].sort(
+      (a, b) => b.total.played - a.total.played || a.opponent.nickname.localeCompare(b.opponent.nickname),
+    ),
+  };
+}
+
+type RawMatchRow = {
+  tournamentId?: unknown;
+  stage?: unknown;
+  completed?: unknown;
+  isBye?: unknown;
+  player1Id: string | null;
+  player2Id: string | null;
+  player1?: CareerPlayer | null;
+  player2?: CareerPlayer | null;
+  score1?: unknown;
+  score2?: unknown;
+  points1?: unknown;
+  points2?: unknown;
+  winnerOverrideId?: unknown;
+  suddenDeathWinnerId?: unknown;
+};
+
+function toNumber(value: unknown): number {
+  return typeof value === 'number' && Number.isFinite(value) ? value : 0;
+}
+
+function toNullableString(value: unknown): string | null {
+  return typeof value === 'string' ? value : null;
+}
+
+function toCareerPlayer(player: CareerPlayer | null | undefined): CareerPlayer | null {
+  if (!player) return null;
+  return { id: player.id, name: player.name, nickname: player.nickname, country: player.country ?? null };
+}
+
+/** Normalize a live or archived match row; GP rows carry driver points. */
+export function toCareerMatch(mode: CareerMatchMode, tournamentId: string, row: RawMatchRow): CareerMatch {
+  return {
+    tournamentId,
+    mode,
+    stage: typeof row.stage === 'string' ? row.stage : 'qualification',
+    completed: row.completed === true,
+    isBye: row.isBye === true,
+    player1Id: row.player1Id,
+    player2Id: row.player2Id,
+    player1: toCareerPlayer(row.player1),
+    player2: toCareerPlayer(row.player2),
+    score1: mode === 'gp' ? toNumber(row.points1 ?? row.score1) : toNumber(row.score1),
+    score2: mode === 'gp' ? toNumber(row.points2 ?? row.score2) : toNumber(row.score2),
+    winnerOverrideId: toNullableString(row.winnerOverrideId),
+    suddenDeathWinnerId: toNullableString(row.suddenDeathWinnerId),
+  };
+}
+
+/**
+ * Extract one player's rows from an archive bundle. Returns null when the
+ * player does not appear anywhere in the bundle.
+ */
+export function extractArchivedCareerRows(bundle: TournamentArchiveBundle, playerId: string): CareerSource | null {
+  const tournamentId = bundle.tournament.id;
+  const score = bundle.overallRanking?.rankings?.find((ranking) => ranking.playerId === playerId);
+
+  const matches: CareerMatch[] = [];
+  for (const mode of CAREER_MATCH_MODES) {
+    for (const match of bundle.modes[mode].matches ?? []) {
+      if (match.player1Id !== playerId && match.player2Id !== playerId) continue;
+      matches.push(toCareerMatch(mode, tournamentId, match as RawMatchRow));
+    }
+  }
+
+  const taEntries: CareerTaEntry[] = (bundle.modes.ta.entries ?? [])
+    .filter((entry) => (entry.playerId ?? entry.player?.id) === playerId)
+    .map((entry) => ({
+      tournamentId,
+      stage: entry.stage ?? 'qualification',
+      rank: typeof entry.rank === 'number' ? entry.rank : null,
+    }));
+
+  if (!score && matches.length === 0 && taEntries.length === 0) return null;
+
+  return {
+    tournaments: [
+      {
+        id: tournamentId,
+        name: bundle.tournament.name,
+        slug: bundle.tournament.slug,
+        date: bundle.tournament.date,
+        archived: true,
+        publicModes: bundle.tournament.publicModes,
+      },
+    ],
+    scores: score ? [{ ...score, tournamentId }] : [],
+    matches,
+    taEntries,
+  };
+}
+
+function chunk<T>(values: T[], size = D1_IN_CHUNK_SIZE): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < values.length; i += size) {
+    chunks.push(values.slice(i, i + size));
+  }
+  return chunks;
+}
+
+/**
+ * Load archived tournaments that no longer exist in D1 and contain the
+ * player. Archive failures degrade to live-only history rather than failing
+ * the whole profile.
+ */
+async function loadArchivedCareerRows(playerId: string, liveTournamentIds: Set<string>): Promise<CareerSource[]> {
+  const logger = createLogger('player-career');
+  try {
+    const index = await readTournamentArchiveIndex();
+    const candidateIds = index.map((item) => item.id).filter((id) => !liveTournamentIds.has(id));
+    if (candidateIds.length === 0) return [];
+
+    // Tournaments still in D1 (including soft-deleted ones) are authoritative
+    // there; only purged tournaments are read back from R2.
+    const existingIds = new Set<string>();
+    for (const ids of chunk(candidateIds)) {
+      const rows = await prisma.tournament.findMany({ where: { id: { in: ids } }, select: { id: true } });
+      for (const row of rows) existingIds.add(row.id);
+    }
+
+    const purged = index.filter((item) => candidateIds.includes(item.id) && !existingIds.has(item.id));
+    if (purged.length === 0) return [];
+
+    /* Keyed by the purged archives and their archive times: re-archiving or
+     * purging another tournament changes the key. */
+    const backend = getCacheBackend();
+    const archiveSet = await digestJson(purged.map((item) => [item.id, item.archivedAt]));
+    const cacheKey = `player-career:${playerId}:${archiveSet}`;
+    const cached = await backend.get<CareerSource[]>(cacheKey);
+    if (cached) return cached;
+
+    const bundles = await Promise.all(purged.map((item) => readTournamentArchive(item.id)));
+    const rows = bundles.flatMap((bundle) => {
+      const extracted = bundle ? extractArchivedCareerRows(bundle, playerId) : null;
+      return extracted ? [extracted] : [];
+    });
+    // A failed archive read would otherwise pin a partial history for the TTL.
+    if (bundles.every((bundle) => bundle !== null)) {
+      await backend.set(cacheKey, rows, ARCHIVED_CAREER_TTL_MS);
+    }
+    return rows;
+  } catch (error) {
+    logger.warn('Failed to read archived tournaments for player career', { playerId, error });
+    return [];
+  }
+}
+
+/**
+ * Load and aggregate a player's career. Returns null when the player does
+ * not exist (or has been soft-deleted).
+ */
+export async function loadPlayerCareer(
+  playerId: string,
+  options: { includeHidden: boolean },
+): Promise<PlayerCareer | null> {
+  const player = await prisma.player.findFirst({
+    where: { id: playerId, deletedAt: null },
+    select: PLAYER_PUBLIC_SELECT,
+  });
+  if (!player) return null;
+
+  const matchQuery = {
+    where: { deletedAt: null, OR: [{ player1Id: playerId }, { player2Id: playerId }] },
+    include: { player1: { select: PLAYER_PUBLIC_SELECT }, player2: { select: PLAYER_PUBLIC_SELECT } },
+  };
+  const [scores, bmMatches, mrMatches, gpMatches, ttEntries] = await Promise.all([
+    prisma.tournamentPlayerScore.findMany({ where: { playerId } }),
+    prisma.bMMatch.findMany(matchQuery),
+    prisma.mRMatch.findMany(matchQuery),
+    prisma.gPMatch.findMany(matchQuery),
+    prisma.tTEntry.findMany({
+      where: { playerId, deletedAt: null },
+      select: { tournamentId: true, stage: true, rank: true },
+    }),
+  ]);
+
+  const matches = [
+    ...bmMatches.map((match) => toCareerMatch('bm', match.tournamentId, match)),
+    ...mrMatches.map((match) => toCareerMatch('mr', match.tournamentId, match)),
+    ...gpMatches.map((match) => toCareerMatch('gp', match.tournamentId, match)),
+  ];
+
+  const referencedIds = [
+    ...new Set([
+      ...scores.map((score) => score.tournamentId),
+      ...matches.map((match) => match.tournamentId),
+      ...ttEntries.map((entry) => entry.tournamentId),
+    ]),
+  ];
+  const tournaments: CareerTournament[] = [];
+  for (const ids of chunk(referencedIds)) {
+    const rows = await prisma.tournament.findMany({
+      where: { id: { in: ids }, deletedAt: null },
+      select: { id: true, name: true, slug: true, date: true, publicModes: true },
+    });
+    tournaments.push(...rows.map((row) => ({ ...row, archived: false })));
+  }
+
+  const live: CareerSource = { tournaments, scores, matches, taEntries: ttEntries };
+  const archived = await loadArchivedCareerRows(playerId, new Set(referencedIds));
+
+  const merged = [live, ...archived].reduce<CareerSource>(
+    (acc, source) => ({
+      tournaments: [...acc.tournaments, ...source.tournaments],
+      scores: [...acc.scores, ...source.scores],
+      matches: [...acc.matches, ...source.matches],
+      taEntries: [...acc.taEntries, ...source.taEntries],
+    }),
+    { tournaments: [], scores: [], matches: [], taEntries: [] },
+  );
+
+  return buildPlayerCareer(
+    { id: player.id, name: player.name, nickname: player.nickname, country: player.country ?? null },
+    merged,
+    options,
+  );
+}
@@ -0,0 +1,461 @@
+import prisma from '@/lib/prisma';
+import { AUDIT_ACTIONS, buildAuditLogData, type AuditLogParams } from '@/lib/audit-log';
+import { executeD1Batch } from '@/lib/d1-batch';
+import { createLogger } from '@/lib/logger';
+import { invalidate } from '@/lib/standings-cache';
+import { invalidateOverallRankingsCache } from '@/lib/points/overall-ranking';
+import { BREAK_PLAYER_ID } from '@/lib/round-robin';
+import {
+  buildPlayerMergePlan,
+  digestPlayerMergePlan,
+  PlayerMergeError,
+  type PlayerMergeKeys,
+  type PlayerMergeParty,
+  type PlayerMergePlan,
+} from '@/lib/player-merge';
+
+const logger = createLogger('player-merge');
+
+const STALE_GUARD_MARKER = 'PLAYER_MERGE_STALE_PREVIEW';
+const POSTCONDITION_GUARD_MARKER = 'PLAYER_MERGE_POSTCONDITION_FAILED';
+
+const PARTY_SELECT = { id: true, nickname: true, userId: true, deletedAt: true, version: true } as const;
+
+export type PlayerMergePreview = {
+  plan: PlayerMergePlan;
+  digest: string;
+};
+
+type BatchStatement = {
+  label: string;
+  expectedChanges: number | null;
+  sql: string;
+  values: unknown[];
+};
+
+type MatchRow = {
+  id: string;
+  tournamentId: string;
+  player1Id: string | null;
+  player2Id: string | null;
+  winnerOverrideId: string | null;
+  suddenDeathWinnerId?: string | null;
+};
+
+function createId(): string {
+  if (typeof globalThis.crypto?.randomUUID === 'function') return globalThis.crypto.randomUUID();
+  return `merge-${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+}
+
+function emptyKeys(): PlayerMergeKeys {
+  return {
+    bmQualifications: [],
+    mrQualifications: [],
+    gpQualifications: [],
+    tournamentScores: [],
+    teamMembers: [],
+    staffRoles: [],
+    registrations: [],
+    ttEntries: [],
+    characterUsages: [],
+  };
+}
+
+async function loadParty(playerId: string): Promise<PlayerMergeParty> {
+  const player =
+    playerId === BREAK_PLAYER_ID
+      ? null
+      : await prisma.player.findUnique({ where: { id: playerId }, select: PARTY_SELECT });
+  if (!player) {
+    throw new PlayerMergeError('Player not found', 'PLAYER_NOT_FOUND', { playerId });
+  }
+  return player;
+}
+
+/**
+ * Load every row that references either player. Reads run sequentially to
+ * avoid D1 concurrent-query failures (see GET /api/players).
+ */
+export async function previewPlayerMerge(sourceId: string, targetId: string): Promise<PlayerMergePreview> {
+  const source = await loadParty(sourceId);
+  const target = await loadParty(targetId);
+  const ids = [source.id, target.id];
+
+  const sourceKeys = emptyKeys();
+  const targetKeys = emptyKeys();
+  const keysFor = (playerId: string) => (playerId === source.id ? sourceKeys : targetKeys);
+  const tournamentIds = new Set<string>();
+
+  /* Rows keyed by (tournamentId, playerId); each also changes that tournament's standings. */
+  const qualificationSelect = { playerId: true, tournamentId: true } as const;
+  const perTournamentSources = [
+    [
+      'bmQualifications',
+      () => prisma.bMQualification.findMany({ where: { playerId: { in: ids } }, select: qualificationSelect }),
+    ],
+    [
+      'mrQualifications',
+      () => prisma.mRQualification.findMany({ where: { playerId: { in: ids } }, select: qualificationSelect }),
+    ],
+    [
+      'gpQualifications',
+      () => prisma.gPQualification.findMany({ where: { playerId: { in: ids } }, select: qualificationSelect }),
+    ],
+    [
+      'tournamentScores',
+      () => prisma.tournamentPlayerScore.findMany({ where: { playerId: { in: ids } }, select: qualificationSelect }),
+    ],
+    [
+      'teamMembers',
+      () => prisma.teamMember.findMany({ where: { playerId: { in: ids } }, select: qualificationSelect }),
+    ],
+  ] as const;
+  for (const [key, load] of perTournamentSources) {
+    for (const row of await load()) {
+      keysFor(row.playerId)[key].push(row.tournamentId);
+      if (row.playerId === source.id) tournamentIds.add(row.tournamentId);
+    }
+  }
+
+  const ttRows = await prisma.tTEntry.findMany({
+    where: { OR: [{ playerId: { in: ids } }, { partnerId: source.id }] },
+    select: { playerId: true, partnerId: true, tournamentId: true, stage: true },
+  });
+  let ttEntries = 0;
+  let ttPartners = 0;
+  for (const row of ttRows) {
+    if (row.partnerId === source.id) ttPartners += 1;
+    if (row.playerId !== source.id && row.playerId !== target.id) continue;
+    keysFor(row.playerId).ttEntries.push({ tournamentId: row.tournamentId, stage: row.stage });
+    if (row.playerId === source.id) {
+      ttEntries += 1;
+      tournamentIds.add(row.tournamentId);
+    }
+  }
+
+  const staffRoles = await prisma.tournamentStaff.findMany({
+    where: { playerId: { in: ids } },
+    select: { playerId: true, tournamentId: true, role: true },
+  });
+  for (const staff of staffRoles) {
+    keysFor(staff.playerId).staffRoles.push({ tournamentId: staff.tournamentId, role: staff.role });
+  }
+
+  const registrations = await prisma.tournamentRegistration.findMany({
+    where: { playerId: { in: ids } },
+    select: { playerId: true, tournamentId: true },
+  });
+  for (const registration of registrations) {
+    keysFor(registration.playerId).registrations.push(registration.tournamentId);
+  }
+
+  const lifeAdjustments = await prisma.tTPhaseLifeAdjustment.findMany({
+    where: { playerId: source.id },
+    select: { tournamentId: true },
+  });
+  const scoreEntryLogs = await prisma.scoreEntryLog.findMany({
+    where: { playerId: source.id },
+    select: { tournamentId: true },
+  });
+  const characterUsages = await prisma.matchCharacterUsage.findMany({
+    where: { playerId: { in: ids } },
+    select: { playerId: true, matchId: true, matchType: true },
+  });
+  for (const usage of characterUsages) {
+    keysFor(usage.playerId).characterUsages.push({ matchId: usage.matchId, matchType: usage.matchType });
+  }
+
+  const matchSelect = { id: true, tournamentId: true, player1Id: true, player2Id: true, winnerOverrideId: true };
+  const matchWhere = {
+    OR: [{ player1Id: source.id }, { player2Id: source.id }, { winnerOverrideId: source.id }],
+  };
+  const bmMatches: MatchRow[] = await prisma.bMMatch.findMany({ where: matchWhere, select: matchSelect });
+  const mrMatches: MatchRow[] = await prisma.mRMatch.findMany({ where: matchWhere, select: matchSelect });
+  const gpMatches: MatchRow[] = await prisma.gPMatch.findMany({
+    where: { OR: [...matchWhere.OR, { suddenDeathWinnerId: source.id }] },
+    select: { ...matchSelect, suddenDeathWinnerId: true },
+  });
+
+  const headToHeadMatches: Array<{ matchType: string; matchId: string; tournamentId: string }> = [];
+  const countMatches = (matchType: string, rows: MatchRow[]) => {
+    let asPlayer1 = 0;
+    let asPlayer2 = 0;
+    let winnerOverrides = 0;
+    for (const match of rows) {
+      if (match.player1Id === source.id) asPlayer1 += 1;
+      if (match.player2Id === source.id) asPlayer2 += 1;
+      if (match.winnerOverrideId === source.id) winnerOverrides += 1;
+      if (match.player1Id === source.id || match.player2Id === source.id) tournamentIds.add(match.tournamentId);
+      const players = [match.player1Id, match.player2Id];
+      if (players.includes(source.id) && players.includes(target.id)) {
+        headToHeadMatches.push({ matchType, matchId: match.id, tournamentId: match.tournamentId });
+      }
+    }
+    return { asPlayer1, asPlayer2, winnerOverrides };
+  };
+  const bm = countMatches('BM', bmMatches);
+  const mr = countMatches('MR', mrMatches);
+  const gp = countMatches('GP', gpMatches);
+
+  const plan = buildPlayerMergePlan({
+    source,
+    target,
+    sourceKeys,
+    targetKeys,
+    headToHeadMatches,
+    tournamentIds: [...tournamentIds],
+    counts: {
+      bmQualifications: sourceKeys.bmQualifications.length,
+      mrQualifications: sourceKeys.mrQualifications.length,
+      gpQualifications: sourceKeys.gpQualifications.length,
+      bmMatchesAsPlayer1: bm.asPlayer1,
+      bmMatchesAsPlayer2: bm.asPlayer2,
+      mrMatchesAsPlayer1: mr.asPlayer1,
+      mrMatchesAsPlayer2: mr.asPlayer2,
+      gpMatchesAsPlayer1: gp.asPlayer1,
+      gpMatchesAsPlayer2: gp.asPlayer2,
+      bmWinnerOverrides: bm.winnerOverrides,
+      mrWinnerOverrides: mr.winnerOverrides,
+      gpWinnerOverrides: gp.winnerOverrides,
+      gpSuddenDeathWinners: gpMatches.filter((match) => match.suddenDeathWinnerId === source.id).length,
+      ttEntries,
+      ttPartners,
+      ttLifeAdjustments: lifeAdjustments.length,
+      scoreEntryLogs: scoreEntryLogs.length,
+      characterUsages: sourceKeys.characterUsages.length,
+      tournamentScores: sourceKeys.tournamentScores.length,
+      teamMemberships: sourceKeys.teamMembers.length,
+      staffRoles: sourceKeys.staffRoles.length,
+      registrations: sourceKeys.registrations.length,
+    },
+  });
+
+  return { plan, digest: await digestPlayerMergePlan(plan) };
+}
+
+export function publicPlayerMergePreview(preview: PlayerMergePreview) {
+  const { source, target, counts, collisions, transferUserLink, tournamentIds, blocking } = preview.plan;
+  return {
+    digest: preview.digest,
+    source: { id: source.id, nickname: source.nickname },
+    target: { id: target.id, nickname: target.nickname },
+    counts,
+    collisions,
+    transferUserLink,
+    tournamentCount: tournamentIds.length,
+    blocking,
+  };
+}
+
+/** Re-point a plain foreign-key column; the previewed count is re-checked. */
+function moveColumnStatement(
+  table: string,
+  column: string,
+  expectedChanges: number,
+  sourceId: string,
+  targetId: string,
+): BatchStatement {
+  return {
+    label: `move:${table}.${column}`,
+    expectedChanges,
+    sql: `UPDATE "${table}" SET "${column}" = ? WHERE "${column}" = ?`,
+    values: [targetId, sourceId],
+  };
+}
+
+/**
+ * Player IDs embedded in JSON columns (TA phase results, sudden-death
+ * targets, finals seed snapshots) are rewritten as quoted tokens. IDs are
+ * cuid/uuid strings, so the quoted form cannot match anything but the ID.
+ * Row counts are not previewed for these, so no postcondition applies.
+ */
+function rewriteJsonStatement(table: string, column: string, sourceId: string, targetId: string): BatchStatement {
+  const from = JSON.stringify(sourceId);
+  return {
+    label: `json:${table}.${column}`,
+    expectedChanges: null,
+    sql: `UPDATE "${table}" SET "${column}" = replace("${column}", ?, ?) WHERE instr("${column}", ?) > 0`,
+    values: [from, JSON.stringify(targetId), from],
+  };
+}
+
+const MOVED_COLUMNS: Array<[table: string, column: string, count: keyof PlayerMergePlan['counts']]> = [
+  ['BMQualification', 'playerId', 'bmQualifications'],
+  ['MRQualification', 'playerId', 'mrQualifications'],
+  ['GPQualification', 'playerId', 'gpQualifications'],
+  ['BMMatch', 'player1Id', 'bmMatchesAsPlayer1'],
+  ['BMMatch', 'player2Id', 'bmMatchesAsPlayer2'],
+  ['MRMatch', 'player1Id', 'mrMatchesAsPlayer1'],
+  ['MRMatch', 'player2Id', 'mrMatchesAsPlayer2'],
+  ['GPMatch', 'player1Id', 'gpMatchesAsPlayer1'],
+  ['GPMatch', 'player2Id', 'gpMatchesAsPlayer2'],
+  ['BMMatch', 'winnerOverrideId', 'bmWinnerOverrides'],
+  ['MRMatch', 'winnerOverrideId', 'mrWinnerOverrides'],
+  ['GPMatch', 'winnerOverrideId', 'gpWinnerOverrides'],
+  ['GPMatch', 'suddenDeathWinnerId', 'gpSuddenDeathWinners'],
+  ['TTEntry', 'playerId', 'ttEntries'],
+  ['TTEntry', 'partnerId', 'ttPartners'],
+  ['TTPhaseLifeAdjustment', 'playerId', 'ttLifeAdjustments'],
+  ['ScoreEntryLog', 'playerId', 'scoreEntryLogs'],
+  ['MatchCharacterUsage', 'playerId', 'characterUsages'],
+  ['TournamentPlayerScore', 'playerId', 'tournamentScores'],
+  ['TeamMember', 'playerId', 'teamMemberships'],
+  ['TournamentStaff', 'playerId', 'staffRoles'],
+  ['TournamentRegistration', 'playerId', 'registrations'],
+];
+
+const JSON_COLUMNS: Array<[table: string, column: string]> = [
+  ['TTPhaseRound', 'results'],
+  ['TTPhaseRound', 'eliminatedIds'],
+  ['TTPhaseSuddenDeathRound', 'targetPlayerIds'],
+  ['TTPhaseSuddenDeathRound', 'results'],
+  ['Tournament', 'bmFinalsSeedSnapshot'],
+  ['Tournament', 'mrFinalsSeedSnapshot'],
+  ['Tournament', 'gpFinalsSeedSnapshot'],
+];
+
+function postconditionGuardStatement(statement: BatchStatement): BatchStatement {
+  return {
+    label: `guard:${statement.label}-changes`,
+    expectedChanges: null,
+    sql: `SELECT json_extract(
+      'null',
+      CASE WHEN changes() = ? THEN '$' ELSE '$..PLAYER_MERGE_POSTCONDITION_FAILED' END
+    )`,
+    values: [statement.expectedChanges],
+  };
+}
+
+function mappedBatchError(error: unknown): PlayerMergeError | null {
+  const message = error instanceof Error ? error.message : String(error);
+  if (
+    message.includes(STALE_GUARD_MARKER) ||
+    message.includes(POSTCONDITION_GUARD_MARKER) ||
+    message.includes('UNIQUE constraint failed')
+  ) {
+    return new PlayerMergeError(
+      'Player data changed after the preview. Generate a new preview before merging.',
+      STALE_GUARD_MARKER,
+    );
+  }
+  return null;
+}
+
+async function executeAtomicStatements(statements: BatchStatement[]): Promise<void> {
+  const expanded = statements.flatMap((statement) =>
+    statement.expectedChanges === null ? [statement] : [statement, postconditionGuardStatement(statement)],
+  );
+  try {
+    await executeD1Batch(expanded.map(({ sql, values }) => ({ sql, values })));
+  } catch (error) {
+    const mapped = mappedBatchError(error);
+    if (mapped) throw mapped;
+    throw error;
+  }
+}
+
+/**
+ * Merge a previewed source player into the target in one D1 batch:
+ * player version checks, every re-pointed row, the source soft-delete and the
+ * audit row commit together or not at all.
+ */
+export async function applyPlayerMerge(params: {
+  sourceId: string;
+  targetId: string;
+  expectedDigest: string;
+  audit: Omit<AuditLogParams, 'action' | 'targetId' | 'targetType' | 'details'>;
+}) {
+  const preview = await previewPlayerMerge(params.sourceId, params.targetId);
+  if (preview.digest !== params.expectedDigest) {
+    throw new PlayerMergeError(
+      'Player data changed after the preview. Generate a new preview before merging.',
+      STALE_GUARD_MARKER,
+    );
+  }
+  const { plan } = preview;
+  if (plan.blocking) {
+    throw new PlayerMergeError('Resolve the listed collisions before merging', 'PLAYER_MERGE_COLLISION', {
+      collisions: plan.collisions,
+    });
+  }
+
+  const { source, target } = plan;
+  const statements: BatchStatement[] = [
+    {
+      // Soft-delete first so its version check guards the whole batch. The
+      // password is cleared so the retired nickname can no longer sign in,
+      // and the user link is released before it moves to the target.
+      label: 'player:soft-delete-source',
+      expectedChanges: 1,
+      sql: `UPDATE "Player" SET "deletedAt" = CURRENT_TIMESTAMP, "password" = NULL, "userId" = NULL,
+        "version" = "version" + 1, "updatedAt" = CURRENT_TIMESTAMP
+        WHERE "id" = ? AND "version" = ? AND "deletedAt" IS NULL`,
+      values: [source.id, source.version],
+    },
+    {
+      label: 'player:update-target',
+      expectedChanges: 1,
+      sql: `UPDATE "Player" SET "userId" = COALESCE(?, "userId"), "version" = "version" + 1,
+        "updatedAt" = CURRENT_TIMESTAMP
+        WHERE "id" = ? AND "version" = ? AND "deletedAt" IS NULL`,
+      values: [plan.transferUserLink ? source.userId : null, target.id, target.version],
+    },
+  ];
+
+  for (const [table, column, count] of MOVED_COLUMNS) {
+    if (plan.counts[count] === 0) continue;
+    statements.push(moveColumnStatement(table, column, plan.counts[count], source.id, target.id));
+  }
+  for (const [table, column] of JSON_COLUMNS) {
+    statements.push(rewriteJsonStatement(table, column, source.id, target.id));
+  }
+
+  const audit = buildAuditLogData({
+    ...params.audit,
+    action: AUDIT_ACTIONS.MERGE_PLAYERS,
+    targetId: target.id,
+    targetType: 'Player',
+    details: {
+      sourcePlayerId: source.id,
+      sourceNickname: source.nickname,
+      targetPlayerId: target.id,
+      targetNickname: target.nickname,
+      counts: plan.counts,
+      transferUserLink: plan.transferUserLink,
+      tournamentIds: plan.tournamentIds,
+    },
+  });
+  statements.push({
+    label: 'audit:merge',
+    expectedChanges: 1,
+    sql: `INSERT INTO "AuditLog" ("id", "userId", "ipAddress", "userAgent", "action", "targetId", "targetType", "timestamp", "details") VALUES (?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP, json(?))`,
+    values: [
+      createId(),
+      audit.userId,
+      audit.ipAddress,
+      audit.userAgent,
+      audit.action,
+      audit.targetId ?? null,
+      audit.targetType,
+      JSON.stringify(audit.details ?? {}),
+    ],
+  });
+
+  await executeAtomicStatements(statements);
+
+  for (const tournamentId of plan.tournamentIds) {
+    await invalidateOverallRankingsCache(tournamentId);
+    try {
+      await invalidate(tournamentId);
+    } catch (error) {
+      logger.warn('Failed to invalidate standings cache after player merge', { error, tournamentId });
+    }
+  }
+
+  return {
+    sourcePlayerId: source.id,
+    targetPlayerId: target.id,
+    counts: plan.counts,
+    tournamentCount: plan.tournamentIds.length,
+  };
+}
@@ -0,0 +1,213 @@
+/**
+ * Player Merge — dry-run planning
+ *
+ * Players sometimes re-register under a slightly different nickname, which
+ * splits their history across two Player rows. A merge moves every reference
+ * from the source player to the target player and soft-deletes the source.
+ *
+ * Tables with a per-player uniqueness constraint cannot simply be
+ * re-pointed when both players already have a row for the same key:
+ *
+ *   BM/MR/GP qualification, TournamentPlayerScore,
+ *   TeamMember, TournamentRegistration             (tournamentId, playerId)
+ *   TTEntry                                        (tournamentId, playerId, stage)
+ *   TournamentStaff                                (tournamentId, playerId, role)
+ *   MatchCharacterUsage                            (matchId, matchType, playerId)
+ *
+ * Such collisions, a match where the two players met each other, or both
+ * players being linked to different user accounts stop the merge; the admin
+ * resolves them by hand first. This module is pure; the service layer
+ * (player-merge-service.ts) loads the rows and applies the plan.
+ */
+import { digestJson } from '@/lib/digest';
+
+export type PlayerMergeParty = {
+  id: string;
+  nickname: string;
+  userId: string | null;
+  deletedAt: Date | string | null;
+  version: number;
+};
+
+/** Rows the merge re-points; each count is re-checked with changes() on apply. */
+export type PlayerMergeCounts = {
+  bmQualifications: number;
+  mrQualifications: number;
+  gpQualifications: number;
+  bmMatchesAsPlayer1: number;
+  bmMatchesAsPlayer2: number;
+  mrMatchesAsPlayer1: number;
+  mrMatchesAsPlayer2: number;
+  gpMatchesAsPlayer1: number;
+  gpMatchesAsPlayer2: number;
+  bmWinnerOverrides: number;
+  mrWinnerOverrides: number;
+  gpWinnerOverrides: number;
+  gpSuddenDeathWinners: number;
+  ttEntries: number;
+  ttPartners: number;
+  ttLifeAdjustments: number;
+  scoreEntryLogs: number;
+  characterUsages: number;
+  tournamentScores: number;
+  teamMemberships: number;
+  staffRoles: number;
+  registrations: number;
+};
+
+export type PlayerMergeCollisionType =
+  | 'bm_qualification'
+  | 'mr_qualification'
+  | 'gp_qualification'
+  | 'tournament_score'
+  | 'team_member'
+  | 'staff_role'
+  | 'registration'
+  | 'ta_entry'
+  | 'character_usage'
+  | 'head_to_head_match'
+  | 'user_link';
+
+export type PlayerMergeCollision = {
+  type: PlayerMergeCollisionType;
+  tournamentId?: string;
+  stage?: string;
+  role?: string;
+  matchId?: string;
+  matchType?: string;
+};
+
+/** Keys of the rows that can collide, for source and target alike. */
+export type PlayerMergeKeys = {
+  bmQualifications: string[];
+  mrQualifications: string[];
+  gpQualifications: string[];
+  tournamentScores: string[];
+  teamMembers: string[];
+  staffRoles: Array<{ tournamentId: string; role: string }>;
+  registrations: string[];
+  ttEntries: Array<{ tournamentId: string; stage: string }>;
+  characterUsages: Array<{ matchId: string; matchType: string }>;
+};
+
+export type PlayerMergeSnapshot = {
+  source: PlayerMergeParty;
+  target: PlayerMergeParty;
+  sourceKeys: PlayerMergeKeys;
+  targetKeys: PlayerMergeKeys;
+  /** Matches where source and target played each other. */
+  headToHeadMatches: Array<{ matchType: string; matchId: string; tournamentId: string }>;
+  counts: PlayerMergeCounts;
+  /** Tournaments whose cached standings change once the merge is applied. */
+  tournamentIds: string[];
+};
+
+export type PlayerMergePlan = {
+  source: PlayerMergeParty;
+  target: PlayerMergeParty;
+  counts: PlayerMergeCounts;
+  collisions: PlayerMergeCollision[];
+  /** Move the source's user link to the target (target has none). */
+  transferUserLink: boolean;
+  tournamentIds: string[];
+  blocking: boolean;
+};
+
+export class PlayerMergeError extends Error {
+  constructor(
+    message: string,
+    readonly code: string,
+    readonly details?: Record<string, unknown>,
+  ) {
+    super(message);
+    this.name = 'PlayerMergeError';
+  }
+}
+
+function overlapping(source: string[], target: string[]): string[] {
+  const targetSet = new Set(target);
+  return [...new Set(source.filter((value) => targetSet.has(value)))].sort();
+}
+
+export function buildPlayerMergePlan(snapshot: PlayerMergeSnapshot): PlayerMergePlan {
+  const { source, target, sourceKeys, targetKeys } = snapshot;
+  if (source.id === target.id) {
+    throw new PlayerMergeError('A player cannot be merged into itself', 'PLAYER_MERGE_SAME_PLAYER');
+  }
+  if (source.deletedAt || target.deletedAt) {
+    throw new PlayerMergeError('Deleted players cannot be merged', 'PLAYER_MERGE_DELETED_PLAYER', {
+      playerId: source.deletedAt ? source.id : target.id,
+    });
+  }
+
+  const collisions: PlayerMergeCollision[] = [];
+  const tournamentCollisions = [
+    ['bm_qualification', 'bmQualifications'],
+    ['mr_qualification', 'mrQualifications'],
+    ['gp_qualification', 'gpQualifications'],
+    ['tournament_score', 'tournamentScores'],
+    ['team_member', 'teamMembers'],
+    ['registration', 'registrations'],
+  ] as const;
+  for (const [type, key] of tournamentCollisions) {
+    for (const tournamentId of overlapping(sourceKeys[key], targetKeys[key])) {
+      collisions.push({ type, tournamentId });
+    }
+  }
+
+  const staffKey = (staff: { tournamentId: string; role: string }) => `${staff.tournamentId}\u0000${staff.role}`;
+  for (const key of overlapping(sourceKeys.staffRoles.map(staffKey), targetKeys.staffRoles.map(staffKey))) {
+    const [tournamentId, role] = key.split('\u0000');
+    collisions.push({ type: 'staff_role', tournamentId, role });
+  }
+
+  const ttKey = (entry: { tournamentId: string; stage: string }) => `${entry.tournamentId}\u0000${entry.stage}`;
+  for (const key of overlapping(sourceKeys.ttEntries.map(ttKey), targetKeys.ttEntries.map(ttKey))) {
+    const [tournamentId, stage] = key.split('\u0000');
+    collisions.push({ type: 'ta_entry', tournamentId, stage });
+  }
+
+  const usageKey = (usage: { matchId: string; matchType: string }) => `${usage.matchType}\u0000${usage.matchId}`;
+  for (const key of overlapping(sourceKeys.characterUsages.map(usageKey), targetKeys.characterUsages.map(usageKey))) {
+    const [matchType, matchId] = key.split('\u0000');
+    collisions.push({ type: 'character_usage', matchType, matchId });
+  }
+
+  for (const match of snapshot.headToHeadMatches) {
+    collisions.push({
+      type: 'head_to_head_match',
+      tournamentId: match.tournamentId,
+      matchType: match.matchType,
+      matchId: match.matchId,
+    });
+  }
+
+  if (source.userId && target.userId && source.userId !== target.userId) {
+    collisions.push({ type: 'user_link' });
+  }
+
+  return {
+    source,
+    target,
+    counts: snapshot.counts,
+    collisions,
+    transferUserLink: Boolean(source.userId && !target.userId),
+    tournamentIds: [...new Set(snapshot.tournamentIds)].sort(),
+    blocking: collisions.length > 0,
+  };
+}
+
+/**
+ * Digest over everything apply relies on. Player versions are included so an
+ * edit to either player between preview and apply invalidates the preview.
+ */
+export async function digestPlayerMergePlan(plan: PlayerMergePlan): Promise<string> {
+  return digestJson([
+    [plan.source.id, plan.source.version, plan.source.userId],
+    [plan.target.id, plan.target.version, plan.target.userId],
+    plan.counts,
+    plan.collisions,
+    plan.transferUserLink,
+    plan.tournamentIds,
+  ]);
+}
@@ -0,0 +1,261 @@
+import prisma from '@/lib/prisma';
+import { AUDIT_ACTIONS, buildAuditLogData, type AuditLogParams } from '@/lib/audit-log';
+import { executeD1Batch } from '@/lib/d1-batch';
+import { generateSecurePassword, hashPassword } from '@/lib/password-utils';
+import { BREAK_PLAYER_ID } from '@/lib/round-robin';
+import {
+  buildRosterImportPlan,
+  digestRosterImportPlan,
+  parseRosterFile,
+  RosterImportError,
+  type RosterExistingPlayer,
+  type RosterImportPlan,
+  type RosterImportPlanRow,
+} from '@/lib/player-roster-import';
+
+const STALE_GUARD_MARKER = 'ROSTER_IMPORT_STALE_PREVIEW';
+const POSTCONDITION_GUARD_MARKER = 'ROSTER_IMPORT_POSTCONDITION_FAILED';
+
+export type RosterImportPreview = {
+  plan: RosterImportPlan;
+  digest: string;
+};
+
+type BatchStatement = {
+  label: string;
+  expectedChanges: number | null;
+  sql: string;
+  values: unknown[];
+};
+
+function createId(): string {
+  if (typeof globalThis.crypto?.randomUUID === 'function') return globalThis.crypto.randomUUID();
+  return `import-${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+}
+
+async function loadExistingPlayers(): Promise<RosterExistingPlayer[]> {
+  // The whole roster is small (hundreds of rows) and case-insensitive
+  // nickname matching cannot be expressed as a Prisma filter on SQLite, so
+  // load every player once instead of chunking an IN list.
+  return prisma.player.findMany({
+    where: { id: { not: BREAK_PLAYER_ID } },
+    select: { id: true, name: true, nickname: true, country: true, noCamera: true, deletedAt: true, version: true },
+  });
+}
+
+export async function previewRosterImport(fileName: string, content: ArrayBuffer): Promise<RosterImportPreview> {
+  const rows = parseRosterFile(fileName, content);
+  const plan = buildRosterImportPlan(rows, await loadExistingPlayers());
+  return { plan, digest: await digestRosterImportPlan(plan) };
+}
+
+export function publicRosterImportPreview(preview: RosterImportPreview) {
+  return {
+    digest: preview.digest,
+    blocking: preview.plan.blocking,
+    summary: preview.plan.summary,
+    rows: preview.plan.rows.map(({ playerVersion: _playerVersion, ...row }) => row),
+  };
+}
+
+/**
+ * Abort the batch if any nickname about to be created was registered after
+ * the preview. Compared case-insensitively to match the planner.
+ */
+function nicknamesFreeGuardStatement(nicknames: string[]): BatchStatement {
+  return {
+    label: 'guard:nicknames-free',
+    expectedChanges: null,
+    sql: `SELECT json_extract(
+      'null',
+      CASE WHEN NOT EXISTS (
+        SELECT 1 FROM "Player"
+        WHERE lower("nickname") IN (SELECT lower(value) FROM json_each(?))
+      ) THEN '$' ELSE '$..ROSTER_IMPORT_STALE_PREVIEW' END
+    )`,
+    values: [JSON.stringify(nicknames)],
+  };
+}
+
+function insertPlayersStatement(rows: Array<RosterImportPlanRow & { id: string; password: string }>): BatchStatement {
+  const payload = rows.map((row) => ({
+    id: row.id,
+    name: row.name,
+    nickname: row.nickname,
+    country: row.country,
+    noCamera: row.noCamera ? 1 : 0,
+    password: row.password,
+  }));
+  return {
+    label: 'player:insert',
+    expectedChanges: rows.length,
+    sql: `INSERT INTO "Player" ("id", "name", "nickname", "country", "noCamera", "password", "version", "createdAt", "updatedAt")
+      SELECT json_extract(value, '$.id'), json_extract(value, '$.name'), json_extract(value, '$.nickname'),
+        json_extract(value, '$.country'), json_extract(value, '$.noCamera'), json_extract(value, '$.password'),
+        0, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP
+      FROM json_each(?)`,
+    values: [JSON.stringify(payload)],
+  };
+}
+
+/**
+ * Update matched players under optimistic locking: a row whose version moved
+ * since the preview is skipped by the WHERE clause, which then trips the
+ * changes() postcondition and rolls back the whole import.
+ */
+function updatePlayersStatement(rows: RosterImportPlanRow[]): BatchStatement {
+  const payload = rows.map((row) => ({
+    id: row.playerId,
+    version: row.playerVersion,
+    name: row.changes?.name ? row.changes.name.to : null,
+    country: row.changes?.country ? row.changes.country.to : null,
+    noCamera: row.changes?.noCamera ? (row.changes.noCamera.to ? 1 : 0) : null,
+  }));
+  return {
+    label: 'player:update',
+    expectedChanges: rows.length,
+    sql: `WITH plan AS (
+      SELECT json_extract(value, '$.id') AS id,
+        json_extract(value, '$.version') AS version,
+        json_extract(value, '$.name') AS name,
+        json_extract(value, '$.country') AS country,
+        json_extract(value, '$.noCamera') AS noCamera
+      FROM json_each(?)
+    )
+    UPDATE "Player"
+    SET "name" = COALESCE((SELECT name FROM plan WHERE plan.id = "Player"."id"), "name"),
+      "country" = COALESCE((SELECT country FROM plan WHERE plan.id = "Player"."id"), "country"),
+      "noCamera" = COALESCE((SELECT noCamera FROM plan WHERE plan.id = "Player"."id"), "noCamera"),
+      "version" = "version" + 1,
+      "updatedAt" = CURRENT_TIMESTAMP
+    WHERE "deletedAt" IS NULL
+      AND EXISTS (SELECT 1 FROM plan WHERE plan.id = "Player"."id" AND plan.version = "Player"."version")`,
+    values: [JSON.stringify(payload)],
+  };
+}
+
+function postconditionGuardStatement(statement: BatchStatement): BatchStatement {
+  return {
+    label: `guard:${statement.label}-changes`,
+    expectedChanges: null,
+    sql: `SELECT json_extract(
+      'null',
+      CASE WHEN changes() = ? THEN '$' ELSE '$..ROSTER_IMPORT_POSTCONDITION_FAILED' END
+    )`,
+    values: [statement.expectedChanges],
+  };
+}
+
+function mappedBatchError(error: unknown): RosterImportError | null {
+  const message = error instanceof Error ? error.message : String(error);
+  if (message.includes(STALE_GUARD_MARKER) || message.includes(POSTCONDITION_GUARD_MARKER)) {
+    return new RosterImportError(
+      'Players changed after the preview. Upload the file again to refresh the preview.',
+      STALE_GUARD_MARKER,
+    );
+  }
+  if (message.includes('UNIQUE constraint failed')) {
+    return new RosterImportError(
+      'A nickname in the file was registered after the preview. Upload the file again to refresh the preview.',
+      STALE_GUARD_MARKER,
+    );
+  }
+  return null;
+}
+
+async function executeAtomicStatements(statements: BatchStatement[]): Promise<void> {
+  const expanded = statements.flatMap((statement) =>
+    statement.expectedChanges === null ? [statement] : [statement, postconditionGuardStatement(statement)],
+  );
+  try {
+    await executeD1Batch(expanded.map(({ sql, values }) => ({ sql, values })));
+  } catch (error) {
+    const mapped = mappedBatchError(error);
+    if (mapped) throw mapped;
+    throw error;
+  }
+}
+
+/**
+ * Apply a previewed import. Creates, updates and the single audit row are
+ * committed in one D1 batch, so a failure leaves the Player table untouched.
+ * Temporary passwords for created players are returned once and never
+ * logged.
+ */
+export async function applyRosterImport(params: {
+  fileName: string;
+  content: ArrayBuffer;
+  expectedDigest: string;
+  audit: Omit<AuditLogParams, 'action' | 'targetId' | 'targetType' | 'details'>;
+}) {
+  const preview = await previewRosterImport(params.fileName, params.content);
+  if (preview.digest !== params.expectedDigest) {
+    throw new RosterImportError(
+      'The file or players changed after the preview. Upload the file again to refresh the preview.',
+      STALE_GUARD_MARKER,
+    );
+  }
+  if (preview.plan.blocking) {
+    throw new RosterImportError(
+      'Resolve conflicts and invalid rows before importing',
+      'ROSTER_IMPORT_HAS_ERRORS',
+      preview.plan.summary,
+    );
+  }
+
+  const toCreate = preview.plan.rows.filter((row) => row.status === 'create');
+  const toUpdate = preview.plan.rows.filter((row) => row.status === 'update');
+
+  const created: Array<{ id: string; nickname: string; temporaryPassword: string }> = [];
+  const createRows: Array<RosterImportPlanRow & { id: string; password: string }> = [];
+  for (const row of toCreate) {
+    const temporaryPassword = generateSecurePassword(12);
+    const id = createId();
+    createRows.push({ ...row, id, password: await hashPassword(temporaryPassword) });
+    created.push({ id, nickname: row.nickname, temporaryPassword });
+  }
+
+  const statements: BatchStatement[] = [];
+  if (createRows.length > 0) {
+    statements.push(nicknamesFreeGuardStatement(createRows.map((row) => row.nickname)));
+    statements.push(insertPlayersStatement(createRows));
+  }
+  if (toUpdate.length > 0) {
+    statements.push(updatePlayersStatement(toUpdate));
+  }
+
+  const audit = buildAuditLogData({
+    ...params.audit,
+    action: AUDIT_ACTIONS.IMPORT_PLAYERS,
+    targetType: 'Player',
+    details: {
+      fileName: params.fileName,
+      summary: preview.plan.summary,
+      created: created.map(({ id, nickname }) => ({ id, nickname })),
+      updated: toUpdate.map((row) => ({ id: row.playerId, nickname: row.nickname, changes: row.changes })),
+    },
+  });
+  statements.push({
+    label: 'audit:import',
+    expectedChanges: 1,
+    sql: `INSERT INTO "AuditLog" ("id", "userId", "ipAddress", "userAgent", "action", "targetId", "targetType", "timestamp", "details") VALUES (?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP, json(?))`,
+    values: [
+      createId(),
+      audit.userId,
+      audit.ipAddress,
+      audit.userAgent,
+      audit.action,
+      audit.targetId ?? null,
+      audit.targetType,
+      JSON.stringify(audit.details ?? {}),
+    ],
+  });
+
+  await executeAtomicStatements(statements);
+
+  return {
+    summary: preview.plan.summary,
+    created,
+    updated: toUpdate.map((row) => ({ id: row.playerId!, nickname: row.nickname })),
+  };
+}
@@ -0,0 +1,322 @@
+/**
+ * Player Roster Import — parsing and dry-run planning
+ *
+ * Entrants are usually collected with a Google Form and exported as CSV or
+ * XLSX. This module turns such a file into a per-row diff against the
+ * existing Player table without touching the database:
+ *
+ *   create          - nickname not registered yet
+ *   update          - nickname matches a player and name/country/noCamera differ
+ *   unchanged       - nickname matches and nothing differs
+ *   conflict        - duplicate nickname in the file, a case-only mismatch
+ *                     with a registered nickname, or a soft-deleted player
+ *   invalid_country - country cell does not resolve via resolveCountryCode
+ *   invalid         - required cell (nickname, or name for new players) missing
+ *
+ * Conflict and invalid rows block the import; the admin fixes the file and
+ * previews again. The service layer (player-roster-import-service.ts) applies
+ * a clean plan in a single D1 batch.
+ */
+import * as XLSX from '@e965/xlsx';
+import { resolveCountryCode } from '@/lib/countries';
+import { digestJson } from '@/lib/digest';
+import { sanitizeInput } from '@/lib/sanitize';
+
+/**
+ * Upper bounds keep a single import within one Worker request budget. Every
+ * created player gets a bcrypt-hashed password (~200ms each on Workers, see
+ * BCRYPT_ROUNDS), so the row cap keeps an all-new roster at about 20s of CPU.
+ */
+export const MAX_ROSTER_IMPORT_BYTES = 1024 * 1024;
+export const MAX_ROSTER_IMPORT_ROWS = 100;
+
+export type RosterColumn = 'nickname' | 'name' | 'country' | 'noCamera';
+
+/**
+ * Accepted header spellings (compared after lower-casing and trimming).
+ * Google Form question titles often carry a suffix such as
+ * "Nickname (shown in brackets)", so a header also matches when it starts
+ * with an alias followed by a space or a (half- or full-width) bracket.
+ */
+const HEADER_ALIASES: Record<RosterColumn, readonly string[]> = {
+  nickname: ['nickname', 'nick', 'ニックネーム', 'プレイヤー名'],
+  name: ['name', 'full name', 'fullname', '名前', '氏名', 'お名前'],
+  country: ['country', 'nationality', '国', '国籍', '国・地域'],
+  noCamera: ['no camera', 'nocamera', 'no_camera', 'カメラなし'],
+};
+
+const TRUTHY_CELLS = new Set(['true', 'yes', 'y', '1', 'x', '✓', '○', 'はい']);
+
+export type RosterImportRowStatus = 'create' | 'update' | 'unchanged' | 'conflict' | 'invalid_country' | 'invalid';
+
+export type RosterImportReason =
+  | 'MISSING_NICKNAME'
+  | 'MISSING_NAME'
+  | 'INVALID_COUNTRY'
+  | 'DUPLICATE_IN_FILE'
+  | 'NICKNAME_CASE_MISMATCH'
+  | 'DELETED_PLAYER';
+
+export type RosterImportRow = {
+  /** 1-based spreadsheet row number (header is row 1). */
+  rowNumber: number;
+  nickname: string;
+  name: string;
+  country: string;
+  noCamera: boolean | null;
+};
+
+export type RosterExistingPlayer = {
+  id: string;
+  name: string;
+  nickname: string;
+  country: string | null;
+  noCamera: boolean;
+  deletedAt: Date | string | null;
+  version: number;
+};
+
+export type RosterFieldChange = { from: string | boolean | null; to: string | boolean | null };
+
+export type RosterImportPlanRow = {
+  rowNumber: number;
+  nickname: string;
+  status: RosterImportRowStatus;
+  name: string | null;
+  /** ISO alpha-2 code after resolveCountryCode, or null when blank. */
+  country: string | null;
+  /** Cell as typed, kept so invalid countries can be shown to the admin. */
+  rawCountry: string | null;
+  noCamera: boolean | null;
+  playerId?: string;
+  playerVersion?: number;
+  changes?: Partial<Record<'name' | 'country' | 'noCamera', RosterFieldChange>>;
+  reason?: RosterImportReason;
+};
+
+export type RosterImportPlan = {
+  rows: RosterImportPlanRow[];
+  summary: Record<RosterImportRowStatus, number>;
+  /** True when any row is a conflict or invalid; apply is refused. */
+  blocking: boolean;
+};
+
+export class RosterImportError extends Error {
+  constructor(
+    message: string,
+    readonly code: string,
+    readonly details?: Record<string, unknown>,
+  ) {
+    super(message);
+    this.name = 'RosterImportError';
+  }
+}
+
+function normalizeHeader(value: unknown): string {
+  return String(value ?? '')
+    .trim()
+    .toLowerCase();
+}
+
+function matchHeader(header: string): RosterColumn | null {
+  for (const [column, aliases] of Object.entries(HEADER_ALIASES) as Array<[RosterColumn, readonly string[]]>) {
+    for (const alias of aliases) {
+      if (header === alias || (header.startsWith(alias) && /^[ (（]/.test(header.slice(alias.length)))) {
+        return column;
+      }
+    }
+  }
+  return null;
+}
+
+function cellText(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  return String(value).trim();
+}
+
+function isXlsxFile(fileName: string, bytes: Uint8Array): boolean {
+  if (/\.xlsx?$/i.test(fileName)) return true;
+  // XLSX is a ZIP container ("PK\x03\x04"); CSV never starts with these bytes.
+  return bytes.length >= 4 && bytes[0] === 0x50 && bytes[1] === 0x4b && bytes[2] === 0x03 && bytes[3] === 0x04;
+}
+
+/**
+ * Parse a CSV or XLSX roster into rows. Only the first sheet is read.
+ * CSV input is decoded as UTF-8 (BOM stripped) so Japanese nicknames from
+ * Google Forms survive; XLSX is read through @e965/xlsx.
+ */
+export function parseRosterFile(fileName: string, content: ArrayBuffer): RosterImportRow[] {
+  if (content.byteLength === 0) {
+    throw new RosterImportError('The uploaded file is empty', 'ROSTER_IMPORT_EMPTY');
+  }
+  if (content.byteLength > MAX_ROSTER_IMPORT_BYTES) {
+    throw new RosterImportError('The uploaded file is too large', 'ROSTER_IMPORT_TOO_LARGE', {
+      maxBytes: MAX_ROSTER_IMPORT_BYTES,
+    });
+  }
+
+  const bytes = new Uint8Array(content);
+  let workbook: XLSX.WorkBook;
+  try {
+    workbook = isXlsxFile(fileName, bytes)
+      ? XLSX.read(bytes, { type: 'array' })
+      : XLSX.read(new TextDecoder('utf-8').decode(bytes).replace(/^\uFEFF/, ''), { type: 'string', raw: true });
+  } catch {
+    throw new RosterImportError('The uploaded file could not be read as CSV or XLSX', 'ROSTER_IMPORT_INVALID_FILE');
+  }
+
+  const sheetName = workbook.SheetNames[0];
+  const sheet = sheetName ? workbook.Sheets[sheetName] : undefined;
+  if (!sheet) {
+    throw new RosterImportError('The uploaded file has no sheets', 'ROSTER_IMPORT_INVALID_FILE');
+  }
+
+  const matrix = XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1, raw: false, defval: '', blankrows: true });
+  const [headerRow = [], ...dataRows] = matrix;
+
+  const columnIndex: Partial<Record<RosterColumn, number>> = {};
+  headerRow.forEach((header, index) => {
+    const column = matchHeader(normalizeHeader(header));
+    if (column && columnIndex[column] === undefined) columnIndex[column] = index;
+  });
+  if (columnIndex.nickname === undefined) {
+    throw new RosterImportError('A nickname column is required', 'ROSTER_IMPORT_MISSING_COLUMNS', {
+      missing: ['nickname'],
+    });
+  }
+  if (dataRows.length > MAX_ROSTER_IMPORT_ROWS) {
+    throw new RosterImportError('Too many rows in the uploaded file', 'ROSTER_IMPORT_TOO_MANY_ROWS', {
+      maxRows: MAX_ROSTER_IMPORT_ROWS,
+      rows: dataRows.length,
+    });
+  }
+
+  const read = (row: unknown[], column: RosterColumn) =>
+    columnIndex[column] === undefined ? '' : cellText(row[columnIndex[column]!]);
+
+  const rows: RosterImportRow[] = [];
+  dataRows.forEach((row, index) => {
+    if (!Array.isArray(row) || row.every((cell) => cellText(cell) === '')) return;
+    const noCamera = read(row, 'noCamera');
+    rows.push(
+      sanitizeInput({
+        rowNumber: index + 2,
+        nickname: read(row, 'nickname'),
+        name: read(row, 'name'),
+        country: read(row, 'country'),
+        noCamera: noCamera === '' ? null : TRUTHY_CELLS.has(noCamera.toLowerCase()),
+      }),
+    );
+  });
+
+  if (rows.length === 0) {
+    throw new RosterImportError('The uploaded file has no player rows', 'ROSTER_IMPORT_EMPTY');
+  }
+  return rows;
+}
+
+/**
+ * Diff parsed rows against existing players. Matching is by exact nickname;
+ * a nickname that only differs by letter case from a registered one is a
+ * conflict rather than a silent create, because the admin almost certainly
+ * meant the existing player.
+ */
+export function buildRosterImportPlan(rows: RosterImportRow[], existing: RosterExistingPlayer[]): RosterImportPlan {
+  const byNickname = new Map(existing.map((player) => [player.nickname, player]));
+  const byLowerNickname = new Map(existing.map((player) => [player.nickname.toLowerCase(), player]));
+  const seen = new Set<string>();
+
+  const planRows = rows.map((row): RosterImportPlanRow => {
+    const rawCountry = row.country === '' ? null : row.country;
+    const country = rawCountry ? (resolveCountryCode(rawCountry) ?? null) : null;
+    const base = {
+      rowNumber: row.rowNumber,
+      nickname: row.nickname,
+      name: row.name === '' ? null : row.name,
+      country,
+      rawCountry,
+      noCamera: row.noCamera,
+    };
+
+    if (row.nickname === '') {
+      return { ...base, status: 'invalid', reason: 'MISSING_NICKNAME' };
+    }
+    const lowerNickname = row.nickname.toLowerCase();
+    if (seen.has(lowerNickname)) {
+      return { ...base, status: 'conflict', reason: 'DUPLICATE_IN_FILE' };
+    }
+    seen.add(lowerNickname);
+
+    if (rawCountry && !country) {
+      return { ...base, status: 'invalid_country', reason: 'INVALID_COUNTRY' };
+    }
+
+    const player = byNickname.get(row.nickname);
+    if (!player) {
+      const caseMatch = byLowerNickname.get(lowerNickname);
+      if (caseMatch) {
+        return { ...base, status: 'conflict', reason: 'NICKNAME_CASE_MISMATCH', playerId: caseMatch.id };
+      }
+      if (!base.name) {
+        return { ...base, status: 'invalid', reason: 'MISSING_NAME' };
+      }
+      return { ...base, status: 'create' };
+    }
+
+    if (player.deletedAt) {
+      return { ...base, status: 'conflict', reason: 'DELETED_PLAYER', playerId: player.id };
+    }
+
+    // Blank cells keep the registered value so a partial form export
+    // (e.g. no country question) never wipes existing data.
+    const changes: RosterImportPlanRow['changes'] = {};
+    if (base.name && base.name !== player.name) changes.name = { from: player.name, to: base.name };
+    if (country && country !== player.country) changes.country = { from: player.country, to: country };
+    if (row.noCamera !== null && row.noCamera !== player.noCamera) {
+      changes.noCamera = { from: player.noCamera, to: row.noCamera };
+    }
+
+    return {
+      ...base,
+      status: Object.keys(changes).length > 0 ? 'update' : 'unchanged',
+      playerId: player.id,
+      playerVersion: player.version,
+      changes,
+    };
+  });
+
+  const summary: RosterImportPlan['summary'] = {
+    create: 0,
+    update: 0,
+    unchanged: 0,
+    conflict: 0,
+    invalid_country: 0,
+    invalid: 0,
+  };
+  for (const row of planRows) summary[row.status] += 1;
+
+  return {
+    rows: planRows,
+    summary,
+    blocking: summary.conflict + summary.invalid_country + summary.invalid > 0,
+  };
+}
+
+/**
+ * SHA-256 over the actionable part of a plan. Apply recomputes the plan from
+ * the re-uploaded file and current DB state; a different digest means the
+ * file or the Player table changed since the admin reviewed the preview.
+ */
+export async function digestRosterImportPlan(plan: RosterImportPlan): Promise<string> {
+  const payload = plan.rows.map((row) => [
+    row.rowNumber,
+    row.status,
+    row.nickname,
+    row.name,
+    row.country,
+    row.noCamera,
+    row.playerId ?? null,
+    row.playerVersion ?? null,
+  ]);
+  return digestJson(payload);
+}
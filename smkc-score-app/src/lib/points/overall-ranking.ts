@@ -26,6 +26,17 @@
 import { PrismaClient } from '@prisma/client';
 import { PLAYER_PUBLIC_SELECT } from '@/lib/prisma-selects';
 import { createLogger } from '@/lib/logger';
+import { clearMemoryCache, getCacheBackend, tournamentCacheKey, type CacheBackend } from '@/lib/cache-backend';
+import { getLosersRoundPlacements, inferFinalsBracketSizeFromRows } from '@/lib/double-elimination';
+import {
+  getFinalsEntrantCount,
+  getFinalsFormatFromRound,
+  getRoundRobinFinalsStandings,
+  getSingleEliminationPlacements,
+  inferFinalsStructure,
+  SINGLE_ELIMINATION_THIRD_PLACE_ROUND,
+} from '@/lib/finals-format';
+import { resolveFinalsSeedSnapshot } from '@/lib/finals-seed-snapshot';
 import { calculateAllCourseScores, type TAQualificationPointsResult } from '@/lib/ta/qualification-scoring';
 import {
   calculateQualificationPointsFromMatches,
@@ -39,7 +50,7 @@ type ExtendedPrismaClient = PrismaClient;
 const logger = createLogger('overall-ranking');
 
 /**
- * In-memory cache for `calculateOverallRankings`.
+ * Cache for `calculateOverallRankings`.
  *
  * The function pulls from every qualification + finals + match table for a
  * tournament — easily 10+ D1 round-trips per call, each scaling with player
@@ -54,39 +65,17 @@ const logger = createLogger('overall-ranking');
  *   - Even if a write somehow misses the invalidation hook, 5 minutes is
  *     short enough to bound staleness for live broadcasts.
  *
- * Workers note: this Map lives in the isolate's module scope, so it is
- * scoped to a single Worker isolate and does not span deployments. A future
- * Cache API layer will replace this with a persisted cache; for now the
- * in-memory layer is enough to take the D1 burden off polling.
- *
- * Capacity is bounded with an LRU policy so a long-running isolate that
- * sees many tournament IDs (e.g. an admin browsing through history) does
- * not grow the Map without limit.
+ * Entries live in the shared cache backend (cache-backend.ts) under the
+ * tournament's versioned key, so with the KV or D1 backend an invalidation
+ * reaches every Worker isolate, and a whole-tournament standings
+ * invalidation (generation bump) drops the overall ranking too. Capacity is
+ * bounded by the backend (LRU for the in-memory one).
  */
-interface RankingsCacheEntry {
-  data: PlayerTournamentScore[];
-  timestamp: number;
-}
 const OVERALL_RANKINGS_TTL_MS = 5 * 60 * 1000;
-const OVERALL_RANKINGS_MAX_SIZE = 50;
-const overallRankingsCache = new Map<string, RankingsCacheEntry>();
+const OVERALL_RANKINGS_CACHE_NAMESPACE = 'overall-ranking';
 
-/**
- * Insert/refresh an entry while keeping the Map at or under the size cap.
- * Map preserves insertion order, so we delete-then-set to bump a touched
- * key to the most-recently-used end, then evict from the front until we
- * are within capacity.
- */
-function setOverallRankingsCache(tournamentId: string, data: PlayerTournamentScore[]): void {
-  if (overallRankingsCache.has(tournamentId)) {
-    overallRankingsCache.delete(tournamentId);
-  }
-  overallRankingsCache.set(tournamentId, { data, timestamp: Date.now() });
-  while (overallRankingsCache.size > OVERALL_RANKINGS_MAX_SIZE) {
-    const oldest = overallRankingsCache.keys().next().value;
-    if (oldest === undefined) break;
-    overallRankingsCache.delete(oldest);
-  }
+function overallRankingsCacheKey(tournamentId: string, backend: CacheBackend): Promise<string> {
+  return tournamentCacheKey(OVERALL_RANKINGS_CACHE_NAMESPACE, tournamentId, [], backend);
 }
 
 /**
@@ -94,15 +83,16 @@ function setOverallRankingsCache(tournamentId: string, data: PlayerTournamentSco
  * that could shift player scores (qualification setup, match score update,
  * finals bracket change). No-op if nothing was cached.
  */
-export function invalidateOverallRankingsCache(tournamentId: string): void {
-  overallRankingsCache.delete(tournamentId);
+export async function invalidateOverallRankingsCache(tournamentId: string): Promise<void> {
+  const backend = getCacheBackend();
+  await backend.delete(await overallRankingsCacheKey(tournamentId, backend));
 }
 
 /**
- * Drop every entry. Used by tests and when an admin manually wipes data.
+ * Drop every in-memory entry. Used by tests and when an admin manually wipes data.
  */
 export function clearOverallRankingsCache(): void {
-  overallRankingsCache.clear();
+  clearMemoryCache();
 }
 
 /**
@@ -115,6 +105,7 @@ interface QualificationEntry {
   ties: number;
   losses: number;
   mp?: number;
+  withdrawalPolicy?: string | null;
 }
 
 type MatchQualificationModel = 'bMMatch' | 'mRMatch' | 'gPMatch';
@@ -601,6 +592,7 @@ function toMatchRecord(q: QualificationEntry): MatchRecord & { matchesPlayed: nu
     ties: q.ties,
     losses: q.losses,
     matchesPlayed: q.mp ?? q.wins + q.ties + q.losses,
+    withdrawalPolicy: q.withdrawalPolicy,
   };
 }
 
@@ -639,6 +631,71 @@ function qualificationResultsByPlayer(qualifications: QualificationEntry[]): Map
   return resultMap;
 }
 
+async function countFinalsMatches(
+  prisma: ExtendedPrismaClient,
+  tournamentId: string,
+  mode: 'BM' | 'MR' | 'GP',
+): Promise<number> {
+  const where = { tournamentId, stage: 'finals', deletedAt: null };
+  const counters: Record<'BM' | 'MR' | 'GP', () => Promise<number>> = {
+    BM: () => prisma.bMMatch.count({ where }),
+    MR: () => prisma.mRMatch.count({ where }),
+    GP: () => prisma.gPMatch.count({ where }),
+  };
+  return counters[mode]();
+}
+
+/**
+ * Single-elimination positions: Final winner 1st and loser 2nd, third-place
+ * match 3rd/4th, and every other round's losers one place below everyone
+ * still in the bracket (Semi Final losers tie for 3rd without a third-place
+ * match).
+ */
+function getSingleEliminationPositions(
+  matches: FinalsMatchRecord[],
+  structure: ReturnType<typeof inferFinalsStructure>,
+): FinalsPosition[] {
+  const placements = getSingleEliminationPlacements(getFinalsEntrantCount(structure));
+  const hasThirdPlaceMatch = structure.some((match) => match.round === SINGLE_ELIMINATION_THIRD_PLACE_ROUND);
+  const positions: FinalsPosition[] = [];
+  for (const m of matches) {
+    const { winner, loser } = resolveWinnerLoser(m);
+    if (m.round === 'single_final') {
+      positions.push({ playerId: winner, position: 1 }, { playerId: loser, position: 2 });
+    } else if (m.round === SINGLE_ELIMINATION_THIRD_PLACE_ROUND) {
+      positions.push({ playerId: winner, position: 3 }, { playerId: loser, position: 4 });
+    } else if (!(m.round === 'single_sf' && hasThirdPlaceMatch)) {
+      const position = placements.get(m.round ?? '');
+      if (position) positions.push({ playerId: loser, position });
+    }
+  }
+  return positions;
+}
+
+/**
+ * Round-robin positions come from the pool standings, and only once every
+ * pool match is complete: a partial table is not a placement.
+ */
+async function getRoundRobinPositions(
+  matches: FinalsMatchRecord[],
+  structure: ReturnType<typeof inferFinalsStructure>,
+  tournamentId: string,
+  mode: 'BM' | 'MR' | 'GP',
+): Promise<FinalsPosition[]> {
+  if (structure.length === 0 || matches.length < structure.length) return [];
+  const seedResolution = await resolveFinalsSeedSnapshot(tournamentId, mode.toLowerCase() as Lowercase<typeof mode>);
+  return getRoundRobinFinalsStandings(
+    matches.map((m) => ({
+      player1Id: m.player1Id,
+      player2Id: m.player2Id,
+      winnerId: resolveWinnerLoser(m).winner,
+      score1: m.p1Score,
+      score2: m.p2Score,
+    })),
+    seedResolution.snapshot.map((entry) => entry.playerId),
+  ).map((standing) => ({ playerId: standing.playerId, position: standing.position }));
+}
+
 /**
  * Determine the winner and loser of a completed finals match.
  * In case of a draw (shouldn't occur for completed matches), defaults to player 1 as winner.
@@ -655,6 +712,8 @@ function resolveWinnerLoser(m: FinalsMatchRecord): { winner: string; loser: stri
 
 /**
  * Determine BM/MR/GP finals positions from double-elimination bracket results.
+ * Single-elimination and round-robin finals are placed by their own rules
+ * (getSingleEliminationPositions / getRoundRobinPositions).
  *
  * Reads completed finals matches from the DB and maps bracket rounds to final
  * placements based on the JSMKC 8-player double-elimination structure:
@@ -793,6 +852,16 @@ export async function getMatchFinalsPositions(
     return [];
   }
 
+  /* Single-elimination and round-robin finals (finals-format.ts) place by
+   * their own rules; everything below is double elimination. */
+  const finalsFormat = getFinalsFormatFromRound(matches.find((m) => m.stage !== 'playoff')?.round);
+  if (finalsFormat !== 'double_elimination') {
+    const structure = inferFinalsStructure(matches[0].round, await countFinalsMatches(prisma, tournamentId, mode));
+    return finalsFormat === 'single_elimination'
+      ? getSingleEliminationPositions(matches, structure)
+      : getRoundRobinPositions(matches, structure, tournamentId, mode);
+  }
+
   const positions: FinalsPosition[] = [];
 
   /*
@@ -812,8 +881,14 @@ export async function getMatchFinalsPositions(
    *
    *   Legacy 8-player finals keep their previous mapping:
    *   losers_r3 → 5th, losers_r2 → 7th, losers_r1 → 9th.
+   *
+   *   Other bracket sizes follow the same rule (getLosersRoundPlacements):
+   *   a Losers-round loser places just below everyone eliminated later.
    */
-  const useSixteenPlayerPlacement = isSixteenPlayerOrTop24Bracket(matches);
+  const hasPlayoff = matches.some((m) => m.stage === 'playoff' || m.round?.startsWith('playoff_'));
+  const bracketSize = hasPlayoff
+    ? 16
+    : (inferFinalsBracketSizeFromRows(matches) ?? (isSixteenPlayerOrTop24Bracket(matches) ? 16 : 8));
 
   // Grand Final: use the last completed GF match (GF Reset if it was played)
   const completedReset = matches
@@ -834,33 +909,11 @@ export async function getMatchFinalsPositions(
     positions.push({ playerId: loser, position: 2 });
   }
 
-  // Losers Final loser → 3rd
-  for (const m of matches.filter((m) => m.round === 'losers_final')) {
-    positions.push({ playerId: resolveWinnerLoser(m).loser, position: 3 });
-  }
-
-  // Losers SF loser → 4th
-  for (const m of matches.filter((m) => m.round === 'losers_sf')) {
-    positions.push({ playerId: resolveWinnerLoser(m).loser, position: 4 });
-  }
-
-  for (const m of matches.filter((m) => m.round === 'losers_r4')) {
-    positions.push({ playerId: resolveWinnerLoser(m).loser, position: 5 });
-  }
-
-  // Losers R3 losers → 7th in 16-player brackets, 5th in legacy 8-player brackets.
-  for (const m of matches.filter((m) => m.round === 'losers_r3')) {
-    positions.push({ playerId: resolveWinnerLoser(m).loser, position: useSixteenPlayerPlacement ? 7 : 5 });
-  }
-
-  // Losers R2 losers → 9th in 16-player brackets, 7th in legacy 8-player brackets.
-  for (const m of matches.filter((m) => m.round === 'losers_r2')) {
-    positions.push({ playerId: resolveWinnerLoser(m).loser, position: useSixteenPlayerPlacement ? 9 : 7 });
-  }
-
-  // Losers R1 losers → 13th in 16-player brackets, 9th in legacy 8-player brackets.
-  for (const m of matches.filter((m) => m.round === 'losers_r1')) {
-    positions.push({ playerId: resolveWinnerLoser(m).loser, position: useSixteenPlayerPlacement ? 13 : 9 });
+  // Losers Final loser → 3rd, Losers SF loser → 4th, earlier Losers rounds below
+  for (const [round, position] of getLosersRoundPlacements(bracketSize)) {
+    for (const m of matches.filter((m) => m.round === round)) {
+      positions.push({ playerId: resolveWinnerLoser(m).loser, position });
+    }
   }
 
   for (const m of matches.filter((m) => m.round === 'playoff_r2')) {
@@ -895,9 +948,11 @@ export async function calculateOverallRankings(
   // Cache short-circuit: serve recent results without re-querying D1.
   // Invalidation hooks in api-factories drop this entry on every write
   // path, so a live cache hit reflects the latest committed state.
-  const cached = overallRankingsCache.get(tournamentId);
-  if (cached && Date.now() - cached.timestamp < OVERALL_RANKINGS_TTL_MS) {
-    return cached.data;
+  const cacheBackend = getCacheBackend();
+  const cacheKey = await overallRankingsCacheKey(tournamentId, cacheBackend);
+  const cached = await cacheBackend.get<PlayerTournamentScore[]>(cacheKey);
+  if (cached) {
+    return cached;
   }
 
   // Step 1: Collect all unique player IDs across all 4 modes.
@@ -1039,7 +1094,7 @@ export async function calculateOverallRankings(
     previousPoints = scores[i].totalPoints;
   }
 
-  setOverallRankingsCache(tournamentId, scores);
+  await cacheBackend.set(cacheKey, scores, OVERALL_RANKINGS_TTL_MS);
   return scores;
 }
 
@@ -27,6 +27,11 @@
  *
  * Ranking uses "standard competition ranking" (1224): ties share the same rank,
  * and the next rank skips by the number of tied players.
+ *
+ * Withdrawn players (qualification-withdrawal.ts) always rank after every
+ * active player. Under the 'void' policy their matches count for nobody, so
+ * they are not an opponent either: with one of 8 players voided, the full
+ * round-robin maximum drops from 14 to 12 match points.
  */
 
 /**
@@ -38,6 +43,8 @@ export interface MatchRecord {
   wins: number;
   ties: number;
   losses: number;
+  /** 'void' | 'walkover' when the player withdrew mid-qualification */
+  withdrawalPolicy?: string | null;
 }
 
 /**
@@ -66,11 +73,7 @@ export interface QualificationPointsResult {
  * @param _losses - Number of losses (unused in calculation, kept for API symmetry)
  * @returns Match points: 2*wins + 1*ties
  */
-export function calculateMatchPoints(
-  wins: number,
-  ties: number,
-  _losses: number
-): number {
+export function calculateMatchPoints(wins: number, ties: number, _losses: number): number {
   // Formula: 2 points per win, 1 point per tie, 0 for loss.
   // This weighting ensures a win is worth exactly two ties, creating
   // a clear incentive to play for the win.
@@ -107,10 +110,7 @@ export function calculateMaxMatchPoints(totalOpponents: number): number {
  * @param maxMatchPoints - Maximum possible match points (denominator)
  * @returns Normalized points in range [0, 1000], or 0 if maxMatchPoints <= 0
  */
-export function normalizePoints(
-  matchPoints: number,
-  maxMatchPoints: number
-): number {
+export function normalizePoints(matchPoints: number, maxMatchPoints: number): number {
   // Guard against division by zero (e.g., a group with only one player)
   if (maxMatchPoints <= 0) {
     return 0;
@@ -128,13 +128,53 @@ export function normalizePoints(
  * here prevents the three mode pages from drifting if the 0-1000 normalization
  * rule or its zero-match guard changes.
  */
-export function getQualificationPoints(
-  matchesPlayed: number,
-  score: number
-): number {
+export function getQualificationPoints(matchesPlayed: number, score: number): number {
   return normalizePoints(score, calculateMaxMatchPoints(matchesPlayed));
 }
 
+function withdrawnPlayerIds(records: MatchRecord[]): Set<string> {
+  return new Set(records.filter((record) => record.withdrawalPolicy).map((record) => record.playerId));
+}
+
+/**
+ * Sort results by normalized points descending (raw match points break ties
+ * deterministically), with withdrawn players after everyone else, then
+ * assign standard competition ranks (1224). Players with identical
+ * normalized points and the same withdrawal status share a rank.
+ */
+function rankQualificationResults(
+  results: QualificationPointsResult[],
+  withdrawn: Set<string>,
+): QualificationPointsResult[] {
+  const isWithdrawn = (result: QualificationPointsResult) => (withdrawn.has(result.playerId) ? 1 : 0);
+
+  results.sort((a, b) => {
+    if (isWithdrawn(a) !== isWithdrawn(b)) {
+      return isWithdrawn(a) - isWithdrawn(b);
+    }
+    if (b.normalizedPoints !== a.normalizedPoints) {
+      return b.normalizedPoints - a.normalizedPoints;
+    }
+    return b.matchPoints - a.matchPoints;
+  });
+
+  let currentRank = 1;
+  for (let i = 0; i < results.length; i++) {
+    const previous = results[i - 1];
+    if (
+      !previous ||
+      previous.normalizedPoints !== results[i].normalizedPoints ||
+      isWithdrawn(previous) !== isWithdrawn(results[i])
+    ) {
+      // New point value -- rank equals 1-based position
+      currentRank = i + 1;
+    }
+    results[i].rank = currentRank;
+  }
+
+  return results;
+}
+
 /**
  * Calculate qualification points for all players in a single group.
  *
@@ -148,24 +188,20 @@ export function getQualificationPoints(
  * @param records - Array of player match records from the group
  * @returns Array of QualificationPointsResult sorted by rank ascending
  */
-export function calculateQualificationPoints(
-  records: MatchRecord[]
-): QualificationPointsResult[] {
+export function calculateQualificationPoints(records: MatchRecord[]): QualificationPointsResult[] {
   if (records.length === 0) {
     return [];
   }
 
-  // In a full round-robin, opponents count is (group size - 1)
-  const totalOpponents = records.length - 1;
+  // In a full round-robin, opponents count is (group size - 1), not
+  // counting players whose matches were voided
+  const activeRecords = records.filter((record) => record.withdrawalPolicy !== 'void');
+  const totalOpponents = Math.max(activeRecords.length - 1, 0);
   const maxMatchPoints = calculateMaxMatchPoints(totalOpponents);
 
   // Step 1: Calculate raw and normalized points for each player
   const results: QualificationPointsResult[] = records.map((record) => {
-    const matchPoints = calculateMatchPoints(
-      record.wins,
-      record.ties,
-      record.losses
-    );
+    const matchPoints = calculateMatchPoints(record.wins, record.ties, record.losses);
     const normalizedPoints = normalizePoints(matchPoints, maxMatchPoints);
 
     return {
@@ -176,37 +212,8 @@ export function calculateQualificationPoints(
     };
   });
 
-  // Step 2: Sort by normalized points descending; use raw match points
-  // as secondary sort to break ties deterministically
-  results.sort((a, b) => {
-    if (b.normalizedPoints !== a.normalizedPoints) {
-      return b.normalizedPoints - a.normalizedPoints;
-    }
-    return b.matchPoints - a.matchPoints;
-  });
-
-  // Step 3: Assign ranks using standard competition ranking (1224 scheme).
-  // Players with identical normalized points share the same rank.
-  // The next distinct rank jumps to the player's 1-based position.
-  let currentRank = 1;
-  let previousPoints: number | null = null;
-
-  for (let i = 0; i < results.length; i++) {
-    if (
-      previousPoints !== null &&
-      results[i].normalizedPoints === previousPoints
-    ) {
-      // Tied with previous player -- keep same rank
-      results[i].rank = currentRank;
-    } else {
-      // New point value -- rank equals 1-based position
-      currentRank = i + 1;
-      results[i].rank = currentRank;
-    }
-    previousPoints = results[i].normalizedPoints;
-  }
-
-  return results;
+  // Step 2: Sort and assign 1224 ranks
+  return rankQualificationResults(results, withdrawnPlayerIds(records));
 }
 
 /**
@@ -221,7 +228,7 @@ export function calculateQualificationPoints(
  * @returns Array of QualificationPointsResult sorted by rank
  */
 export function calculateQualificationPointsFromMatches(
-  records: (MatchRecord & { matchesPlayed: number })[]
+  records: (MatchRecord & { matchesPlayed: number })[],
 ): QualificationPointsResult[] {
   if (records.length === 0) {
     return [];
@@ -230,11 +237,7 @@ export function calculateQualificationPointsFromMatches(
   // Calculate points based on each player's individual matches played,
   // rather than a fixed group-wide opponent count
   const results: QualificationPointsResult[] = records.map((record) => {
-    const matchPoints = calculateMatchPoints(
-      record.wins,
-      record.ties,
-      record.losses
-    );
+    const matchPoints = calculateMatchPoints(record.wins, record.ties, record.losses);
     // Use actual matches played as the normalization base
     const maxMatchPoints = calculateMaxMatchPoints(record.matchesPlayed);
     const normalizedPoints = normalizePoints(matchPoints, maxMatchPoints);
@@ -248,30 +251,7 @@ export function calculateQualificationPointsFromMatches(
   });
 
   // Sort and rank identically to the full round-robin version
-  results.sort((a, b) => {
-    if (b.normalizedPoints !== a.normalizedPoints) {
-      return b.normalizedPoints - a.normalizedPoints;
-    }
-    return b.matchPoints - a.matchPoints;
-  });
-
-  let currentRank = 1;
-  let previousPoints: number | null = null;
-
-  for (let i = 0; i < results.length; i++) {
-    if (
-      previousPoints !== null &&
-      results[i].normalizedPoints === previousPoints
-    ) {
-      results[i].rank = currentRank;
-    } else {
-      currentRank = i + 1;
-      results[i].rank = currentRank;
-    }
-    previousPoints = results[i].normalizedPoints;
-  }
-
-  return results;
+  return rankQualificationResults(results, withdrawnPlayerIds(records));
 }
 
 /**
@@ -286,7 +266,7 @@ export function calculateQualificationPointsFromMatches(
  * @returns Combined results with global ranking applied
  */
 export function aggregateGroupQualificationPoints(
-  groupResults: QualificationPointsResult[][]
+  groupResults: QualificationPointsResult[][],
 ): QualificationPointsResult[] {
   // Flatten all group results into a single array
   const allResults = groupResults.flat();
@@ -304,10 +284,7 @@ export function aggregateGroupQualificationPoints(
   let previousPoints: number | null = null;
 
   for (let i = 0; i < allResults.length; i++) {
-    if (
-      previousPoints !== null &&
-      allResults[i].normalizedPoints === previousPoints
-    ) {
+    if (previousPoints !== null && allResults[i].normalizedPoints === previousPoints) {
       allResults[i].rank = currentRank;
     } else {
       currentRank = i + 1;
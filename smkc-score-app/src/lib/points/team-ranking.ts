@@ -0,0 +1,306 @@
+/**
+ * Team Ranking Calculation
+ *
+ * Team competitions (e.g. a nations cup) are scored on top of the individual
+ * overall ranking: no extra matches are played, a team's score is derived
+ * from its members' TournamentPlayerScore rows (overall-ranking.ts).
+ *
+ * Teams are formed in one of two ways (Tournament.teamSettings.grouping):
+ *   - country:  one team per player country, built on the fly. Players
+ *               without a recognisable country are not on any team.
+ *   - explicit: Team / TeamMember rows created by an admin.
+ *
+ * Scoring rules (Tournament.teamSettings.rule):
+ *   - best_n_total:    sum of the N best members' totalPoints
+ *   - best_n_per_mode: for each mode (TA/BM/MR/GP), sum of the N best
+ *                      members' points in that mode; the four sums are added.
+ *                      Different members may count in different modes.
+ *
+ * A team with fewer than N members scores what its members have. Teams are
+ * ranked by points descending with standard competition ranking for ties,
+ * like the overall ranking.
+ */
+
+import { PrismaClient } from '@prisma/client';
+import { getCountry, resolveCountryCode } from '@/lib/countries';
+import { PLAYER_PUBLIC_SELECT } from '@/lib/prisma-selects';
+import { getOverallRankings, type PlayerTournamentScore } from './overall-ranking';
+
+type ExtendedPrismaClient = PrismaClient;
+
+export const TEAM_GROUPINGS = ['country', 'explicit'] as const;
+export type TeamGrouping = (typeof TEAM_GROUPINGS)[number];
+
+export const TEAM_SCORING_RULES = ['best_n_total', 'best_n_per_mode'] as const;
+export type TeamScoringRule = (typeof TEAM_SCORING_RULES)[number];
+
+export const TEAM_MODES = ['ta', 'bm', 'mr', 'gp'] as const;
+export type TeamMode = (typeof TEAM_MODES)[number];
+
+export const DEFAULT_TEAM_BEST_N = 3;
+export const MAX_TEAM_BEST_N = 10;
+export const MAX_TEAM_NAME_LENGTH = 50;
+
+/** Prefix of the synthetic IDs given to country teams (`country:JP`). */
+export const COUNTRY_TEAM_ID_PREFIX = 'country:';
+
+export type TeamSettings = {
+  grouping: TeamGrouping;
+  rule: TeamScoringRule;
+  /** Members counted per team (per mode for best_n_per_mode). */
+  bestN: number;
+};
+
+export type TeamDefinition = {
+  id: string;
+  name: string;
+  /** ISO alpha-2 code for country teams; optional flag for explicit teams. */
+  country: string | null;
+  playerIds: string[];
+};
+
+export type TeamRankingMember = {
+  playerId: string;
+  nickname: string;
+  country: string | null;
+  totalPoints: number;
+  /** Modes in which this member's points count toward the team score. */
+  countedModes: TeamMode[];
+};
+
+export type TeamRankingEntry = {
+  teamId: string;
+  name: string;
+  country: string | null;
+  rank: number;
+  totalPoints: number;
+  /** Counted points per mode; sums to totalPoints. */
+  modePoints: Record<TeamMode, number>;
+  /** Members by totalPoints descending. */
+  members: TeamRankingMember[];
+};
+
+export class TeamRankingError extends Error {
+  constructor(
+    message: string,
+    readonly field: string,
+  ) {
+    super(message);
+    this.name = 'TeamRankingError';
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+}
+
+export function defaultTeamSettings(): TeamSettings {
+  return { grouping: 'country', rule: 'best_n_total', bestN: DEFAULT_TEAM_BEST_N };
+}
+
+/** Settings saved on Tournament.teamSettings, or null when team standings are off (or unreadable). */
+export function readStoredTeamSettings(value: unknown): TeamSettings | null {
+  if (!isRecord(value)) return null;
+  try {
+    return parseTeamSettings(value);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Validate team settings from a request body. Omitted fields fall back to
+ * `defaults` (the tournament's saved settings or the built-in defaults).
+ */
+export function parseTeamSettings(value: unknown, defaults: TeamSettings = defaultTeamSettings()): TeamSettings {
+  const input = isRecord(value) ? value : {};
+
+  const grouping = input.grouping ?? defaults.grouping;
+  if (!TEAM_GROUPINGS.includes(grouping as TeamGrouping)) {
+    throw new TeamRankingError(`grouping must be one of ${TEAM_GROUPINGS.join(', ')}`, 'grouping');
+  }
+
+  const rule = input.rule ?? defaults.rule;
+  if (!TEAM_SCORING_RULES.includes(rule as TeamScoringRule)) {
+    throw new TeamRankingError(`rule must be one of ${TEAM_SCORING_RULES.join(', ')}`, 'rule');
+  }
+
+  const bestN = input.bestN ?? defaults.bestN;
+  if (!Number.isInteger(bestN) || (bestN as number) < 1 || (bestN as number) > MAX_TEAM_BEST_N) {
+    throw new TeamRankingError(`bestN must be an integer between 1 and ${MAX_TEAM_BEST_N}`, 'bestN');
+  }
+
+  return { grouping: grouping as TeamGrouping, rule: rule as TeamScoringRule, bestN: bestN as number };
+}
+
+/**
+ * Validate an explicit team from a request body.
+ *
+ * @throws TeamRankingError for a missing name, an unknown country code or a
+ *   malformed / duplicated player list
+ */
+export function parseTeamInput(value: unknown): { name: string; country: string | null; playerIds: string[] } {
+  const input = isRecord(value) ? value : {};
+
+  const name = typeof input.name === 'string' ? input.name.trim() : '';
+  if (!name || name.length > MAX_TEAM_NAME_LENGTH) {
+    throw new TeamRankingError(`name must be 1-${MAX_TEAM_NAME_LENGTH} characters`, 'name');
+  }
+
+  let country: string | null = null;
+  if (input.country !== undefined && input.country !== null && input.country !== '') {
+    country = typeof input.country === 'string' ? (getCountry(input.country)?.code ?? null) : null;
+    if (!country) {
+      throw new TeamRankingError('country must be an ISO 3166-1 alpha-2 code', 'country');
+    }
+  }
+
+  const playerIds = input.playerIds ?? [];
+  if (!Array.isArray(playerIds) || playerIds.some((playerId) => typeof playerId !== 'string' || !playerId)) {
+    throw new TeamRankingError('playerIds must be an array of player IDs', 'playerIds');
+  }
+  if (new Set(playerIds).size !== playerIds.length) {
+    throw new TeamRankingError('playerIds must not contain duplicates', 'playerIds');
+  }
+
+  return { name, country, playerIds: playerIds as string[] };
+}
+
+/** One team per resolved player country, named in English. */
+export function buildCountryTeams(
+  scores: Pick<PlayerTournamentScore, 'playerId' | 'playerCountry'>[],
+): TeamDefinition[] {
+  const teams = new Map<string, TeamDefinition>();
+  for (const score of scores) {
+    const code = resolveCountryCode(score.playerCountry);
+    if (!code) continue;
+    let team = teams.get(code);
+    if (!team) {
+      team = {
+        id: `${COUNTRY_TEAM_ID_PREFIX}${code}`,
+        name: getCountry(code)?.en ?? code,
+        country: code,
+        playerIds: [],
+      };
+      teams.set(code, team);
+    }
+    team.playerIds.push(score.playerId);
+  }
+  return [...teams.values()];
+}
+
+function modeTotal(score: PlayerTournamentScore, mode: TeamMode): number {
+  switch (mode) {
+    case 'ta':
+      return score.taQualificationPoints + score.taFinalsPoints;
+    case 'bm':
+      return score.bmQualificationPoints + score.bmFinalsPoints;
+    case 'mr':
+      return score.mrQualificationPoints + score.mrFinalsPoints;
+    case 'gp':
+      return score.gpQualificationPoints + score.gpFinalsPoints;
+  }
+}
+
+/**
+ * Score and rank teams from their members' overall scores. Members without
+ * a score row (not yet ranked) count as zero. Ties share a rank and are
+ * listed by name.
+ */
+export function calculateTeamRankings(
+  teams: TeamDefinition[],
+  scores: PlayerTournamentScore[],
+  settings: TeamSettings,
+): TeamRankingEntry[] {
+  const scoreByPlayer = new Map(scores.map((score) => [score.playerId, score]));
+
+  const entries = teams.map((team) => {
+    const members = team.playerIds
+      .map((playerId) => scoreByPlayer.get(playerId))
+      .filter((score): score is PlayerTournamentScore => score !== undefined)
+      .sort((a, b) => b.totalPoints - a.totalPoints || a.playerNickname.localeCompare(b.playerNickname));
+    const countedModes = new Map<string, TeamMode[]>(members.map((member) => [member.playerId, []]));
+    const modePoints = { ta: 0, bm: 0, mr: 0, gp: 0 } as Record<TeamMode, number>;
+
+    for (const mode of TEAM_MODES) {
+      /* best_n_total keeps the same N members in every mode; per-mode re-picks them. */
+      const counted =
+        settings.rule === 'best_n_total'
+          ? members.slice(0, settings.bestN)
+          : [...members].sort((a, b) => modeTotal(b, mode) - modeTotal(a, mode)).slice(0, settings.bestN);
+      for (const member of counted) {
+        modePoints[mode] += modeTotal(member, mode);
+        countedModes.get(member.playerId)!.push(mode);
+      }
+    }
+
+    return {
+      teamId: team.id,
+      name: team.name,
+      country: team.country,
+      rank: 0,
+      totalPoints: TEAM_MODES.reduce((sum, mode) => sum + modePoints[mode], 0),
+      modePoints,
+      members: members.map((member) => ({
+        playerId: member.playerId,
+        nickname: member.playerNickname,
+        country: member.playerCountry ?? null,
+        totalPoints: member.totalPoints,
+        countedModes: countedModes.get(member.playerId)!,
+      })),
+    };
+  });
+
+  entries.sort((a, b) => b.totalPoints - a.totalPoints || a.name.localeCompare(b.name));
+  entries.forEach((entry, index) => {
+    const previous = entries[index - 1];
+    entry.rank = previous && previous.totalPoints === entry.totalPoints ? previous.rank : index + 1;
+  });
+  return entries;
+}
+
+/** Team row with members as returned by the teams API. */
+export const TEAM_WITH_MEMBERS_INCLUDE = {
+  members: { select: { player: { select: PLAYER_PUBLIC_SELECT } } },
+} as const;
+
+/** Player IDs in the list that do not belong to an active player. */
+export async function findUnknownPlayerIds(prisma: ExtendedPrismaClient, playerIds: string[]): Promise<string[]> {
+  if (playerIds.length === 0) return [];
+  const players = await prisma.player.findMany({
+    where: { id: { in: playerIds }, deletedAt: null },
+    select: { id: true },
+  });
+  const known = new Set(players.map((player) => player.id));
+  return playerIds.filter((playerId) => !known.has(playerId));
+}
+
+/** Explicit teams of a tournament with their member player IDs. */
+export async function getExplicitTeams(prisma: ExtendedPrismaClient, tournamentId: string): Promise<TeamDefinition[]> {
+  const teams = await prisma.team.findMany({
+    where: { tournamentId },
+    include: { members: { select: { playerId: true } } },
+    orderBy: { name: 'asc' },
+  });
+  return teams.map((team) => ({
+    id: team.id,
+    name: team.name,
+    country: team.country,
+    playerIds: team.members.map((member) => member.playerId),
+  }));
+}
+
+/**
+ * Team standings from the stored overall ranking. Run the overall ranking
+ * POST first so TournamentPlayerScore is current.
+ */
+export async function getTeamRankings(
+  prisma: ExtendedPrismaClient,
+  tournamentId: string,
+  settings: TeamSettings,
+): Promise<TeamRankingEntry[]> {
+  const scores = await getOverallRankings(prisma, tournamentId);
+  const teams =
+    settings.grouping === 'country' ? buildCountryTeams(scores) : await getExplicitTeams(prisma, tournamentId);
+  return calculateTeamRankings(teams, scores, settings);
+}
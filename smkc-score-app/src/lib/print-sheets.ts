@@ -0,0 +1,563 @@
+/**
+ * Printable Match Cards and Bracket Sheets
+ *
+ * Print-optimized HTML documents for the venue desk (requirements §4.1):
+ *
+ * - match cards: one card per BM/MR/GP qualification player listing every
+ *   qualification match in round order with the controller side (1P/2P),
+ *   TV, assigned courses/cup and an empty score box to fill in by hand, plus
+ *   a QR code per open match when the route has minted a report link
+ * - bracket sheet: the finals (and playoff) matches of a mode grouped by
+ *   round, with seeds or "winner of / loser of" labels for open slots
+ * - TA pair sheet: the TA qualification pairs (computeAutoPairs)
+ *
+ * The export route feeds these functions the rows of its own export query
+ * (format=print), so a printed sheet always matches the CSV/CDM export.
+ * Output is a complete HTML document with a Japanese font stack and @page
+ * rules; the browser's "Save as PDF" turns it into a PDF.
+ */
+
+import { roundNames } from '@/lib/double-elimination';
+import { buildSlotSourceMap, serializeFinalsSlots, type SlotStatusMatch } from '@/lib/finals-slot-status';
+import { renderQrSvg } from '@/lib/qr-code';
+import { getBmFinalsTargetWins, getGpFinalsTargetWins, getMrFinalsTargetWins } from '@/lib/finals-target-wins';
+import { computeAutoPairs } from '@/lib/ta/pair-utils';
+import type { BracketMatch } from '@/types/bracket';
+
+export const PRINT_DOCUMENTS = ['match-cards', 'bracket', 'ta-pairs'] as const;
+
+export type PrintDocument = (typeof PRINT_DOCUMENTS)[number];
+
+export function isPrintDocument(value: unknown): value is PrintDocument {
+  return typeof value === 'string' && (PRINT_DOCUMENTS as readonly string[]).includes(value);
+}
+
+export type PrintMode = 'bm' | 'mr' | 'gp';
+
+export type PrintLocale = 'ja' | 'en';
+
+export interface PrintPlayer {
+  id: string;
+  name: string;
+  nickname: string;
+}
+
+export interface PrintQualificationRow {
+  playerId: string;
+  player: PrintPlayer | null;
+  group: string;
+  seeding: number | null;
+  withdrawnAt?: Date | null;
+}
+
+export interface PrintMatchRow {
+  id: string;
+  matchNumber: number;
+  stage: string;
+  round?: string | null;
+  roundNumber?: number | null;
+  tvNumber?: number | null;
+  isBye?: boolean;
+  player1Id: string | null;
+  player2Id: string | null;
+  player1: PrintPlayer | null;
+  player2: PrintPlayer | null;
+  player1Side?: number | null;
+  player2Side?: number | null;
+  score1?: number | null;
+  score2?: number | null;
+  points1?: number | null;
+  points2?: number | null;
+  targetWins?: number | null;
+  completed: boolean;
+  assignedCourses?: unknown;
+  startingCourseNumber?: number | null;
+  cup?: string | null;
+  assignedCups?: unknown;
+}
+
+export interface PrintTtEntryRow {
+  playerId: string;
+  stage: string;
+  seeding: number | null;
+  partnerId?: string | null;
+  player: PrintPlayer | null;
+}
+
+const LABELS = {
+  ja: {
+    matchCards: '対戦カード',
+    bracket: 'トーナメント表',
+    taPairs: 'タイムアタック予選 ペア表',
+    group: 'グループ',
+    seed: 'シード',
+    round: '回戦',
+    match: '試合',
+    side: '席',
+    opponent: '対戦相手',
+    tv: 'TV',
+    courses: 'コース / カップ',
+    score: 'スコア',
+    report: 'スコア入力',
+    signature: '確認サイン',
+    rest: 'BREAK（休み）',
+    winnerOf: 'M{n} の勝者',
+    loserOf: 'M{n} の敗者',
+    tbd: '未定',
+    firstTo: '{n}本先取',
+    battleCourse: 'バトルコース{n}',
+    pair: 'ペア',
+    player: '選手',
+    unpaired: 'ペアなし',
+    finals: '決勝トーナメント',
+    playoff: 'プレーオフ',
+    empty: '印刷する試合がありません。',
+  },
+  en: {
+    matchCards: 'Match Cards',
+    bracket: 'Bracket Sheet',
+    taPairs: 'Time Attack Qualification Pairs',
+    group: 'Group',
+    seed: 'Seed',
+    round: 'Round',
+    match: 'Match',
+    side: 'Side',
+    opponent: 'Opponent',
+    tv: 'TV',
+    courses: 'Courses / Cup',
+    score: 'Score',
+    report: 'Report',
+    signature: 'Signature',
+    rest: 'BREAK (rest)',
+    winnerOf: 'Winner of M{n}',
+    loserOf: 'Loser of M{n}',
+    tbd: 'TBD',
+    firstTo: 'First to {n}',
+    battleCourse: 'Battle Course {n}',
+    pair: 'Pair',
+    player: 'Player',
+    unpaired: 'Unpaired',
+    finals: 'Finals',
+    playoff: 'Playoff',
+    empty: 'There are no matches to print.',
+  },
+} as const;
+
+type LabelKey = keyof (typeof LABELS)['ja'];
+
+const MODE_NAMES: Record<PrintMode, string> = {
+  bm: 'Battle Mode',
+  mr: 'Match Race',
+  gp: 'Grand Prix',
+};
+
+function label(locale: PrintLocale, key: LabelKey, n?: number | string): string {
+  const text: string = LABELS[locale][key];
+  return n == null ? text : text.replace('{n}', String(n));
+}
+
+/** Escape text for HTML element content and double-quoted attributes. */
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function playerLabel(player: PrintPlayer): string {
+  return player.nickname || player.name;
+}
+
+function stringList(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+}
+
+/**
+ * Courses or cups to print for a match: MR/BM assigned course lists, the
+ * BM starting Battle Course, or the GP cup (qualification) / cup sequence
+ * (finals).
+ */
+export function getPrintCourses(match: PrintMatchRow, mode: PrintMode, locale: PrintLocale = 'ja'): string[] {
+  if (mode === 'gp') {
+    const cups = stringList(match.assignedCups);
+    if (cups.length > 0) return cups;
+    return match.cup ? [match.cup] : [];
+  }
+  const courses = stringList(match.assignedCourses);
+  if (courses.length > 0) return courses;
+  if (mode === 'bm' && match.startingCourseNumber != null) {
+    return [label(locale, 'battleCourse', match.startingCourseNumber)];
+  }
+  return [];
+}
+
+function matchScores(match: PrintMatchRow, mode: PrintMode): [number, number] | null {
+  if (!match.completed) return null;
+  return mode === 'gp' ? [match.points1 ?? 0, match.points2 ?? 0] : [match.score1 ?? 0, match.score2 ?? 0];
+}
+
+export interface MatchCardRow {
+  matchId: string;
+  roundNumber: number | null;
+  matchNumber: number;
+  /** Controller side of the card's player, 1P or 2P. */
+  side: 1 | 2;
+  /** null for a BREAK (rest) round. */
+  opponent: PrintPlayer | null;
+  tvNumber: number | null;
+  courses: string[];
+  /** [own, opponent] once the match is completed. */
+  score: [number, number] | null;
+  /** Tokenized report page link for the QR code; set by the export route. */
+  reportUrl?: string;
+}
+
+export interface MatchCard {
+  player: PrintPlayer;
+  group: string;
+  seeding: number | null;
+  rows: MatchCardRow[];
+}
+
+/**
+ * One match card per active qualification player, ordered by group and
+ * seeding. Withdrawn players get no card. Pass `playerId` to reprint a
+ * single player's card.
+ */
+export function buildMatchCards(
+  qualifications: PrintQualificationRow[],
+  matches: PrintMatchRow[],
+  mode: PrintMode,
+  { playerId, locale = 'ja' }: { playerId?: string | null; locale?: PrintLocale } = {},
+): MatchCard[] {
+  const qualificationMatches = matches
+    .filter((match) => match.stage === 'qualification')
+    .sort((a, b) => (a.roundNumber ?? 0) - (b.roundNumber ?? 0) || a.matchNumber - b.matchNumber);
+
+  return qualifications
+    .filter((q): q is PrintQualificationRow & { player: PrintPlayer } => Boolean(q.player) && !q.withdrawnAt)
+    .filter((q) => !playerId || q.playerId === playerId)
+    .sort(
+      (a, b) =>
+        a.group.localeCompare(b.group) ||
+        (a.seeding ?? Infinity) - (b.seeding ?? Infinity) ||
+        playerLabel(a.player).localeCompare(playerLabel(b.player)),
+    )
+    .map((q) => ({
+      player: q.player,
+      group: q.group,
+      seeding: q.seeding,
+      rows: qualificationMatches
+        .filter((match) => match.player1Id === q.playerId || match.player2Id === q.playerId)
+        .map((match): MatchCardRow => {
+          const isPlayer1 = match.player1Id === q.playerId;
+          const side = (isPlayer1 ? match.player1Side : match.player2Side) ?? (isPlayer1 ? 1 : 2);
+          const scores = matchScores(match, mode);
+          return {
+            matchId: match.id,
+            roundNumber: match.roundNumber ?? null,
+            matchNumber: match.matchNumber,
+            side: side === 2 ? 2 : 1,
+            opponent: match.isBye ? null : isPlayer1 ? match.player2 : match.player1,
+            tvNumber: match.isBye ? null : (match.tvNumber ?? null),
+            courses: match.isBye ? [] : getPrintCourses(match, mode, locale),
+            score: match.isBye || !scores ? null : isPlayer1 ? scores : [scores[1], scores[0]],
+          };
+        }),
+    }));
+}
+
+export interface BracketSheetSlot {
+  player: PrintPlayer | null;
+  seed: number | null;
+  /** Where an open slot's player comes from. */
+  source: { kind: 'winner' | 'loser'; matchNumber: number } | null;
+}
+
+export interface BracketSheetMatch {
+  matchNumber: number;
+  slots: [BracketSheetSlot, BracketSheetSlot];
+  tvNumber: number | null;
+  courses: string[];
+  targetWins: number;
+  score: [number, number] | null;
+}
+
+export interface BracketSheetRound {
+  round: string;
+  label: string;
+  matches: BracketSheetMatch[];
+}
+
+export interface BracketSheetStage {
+  stage: 'playoff' | 'finals';
+  rounds: BracketSheetRound[];
+}
+
+const TARGET_WINS: Record<PrintMode, typeof getBmFinalsTargetWins> = {
+  bm: getBmFinalsTargetWins,
+  mr: getMrFinalsTargetWins,
+  gp: getGpFinalsTargetWins,
+};
+
+/**
+ * Rounds of one knockout stage in structure order. Slots whose feeder has
+ * not finished are blanked like the bracket UI does (serializeFinalsSlots)
+ * and labelled with the feeding match instead.
+ */
+export function buildBracketSheetStage(
+  stage: 'playoff' | 'finals',
+  matches: PrintMatchRow[],
+  structure: BracketMatch[],
+  mode: PrintMode,
+  locale: PrintLocale = 'ja',
+): BracketSheetStage {
+  const stageMatches = matches.filter((match) => match.stage === stage);
+  const serialized = serializeFinalsSlots(stageMatches as Array<PrintMatchRow & SlotStatusMatch>, structure);
+  const byNumber = new Map(serialized.map((match) => [match.matchNumber, match]));
+  const sourceMap = buildSlotSourceMap(structure);
+  const structureByNumber = new Map(structure.map((bm) => [bm.matchNumber, bm]));
+
+  const slot = (bm: BracketMatch, match: (typeof serialized)[number] | undefined, position: 1 | 2) => {
+    const player = (position === 1 ? match?.player1 : match?.player2) ?? null;
+    const sourceNumber = sourceMap.get(`${bm.matchNumber}-${position}`);
+    const source = sourceNumber != null ? structureByNumber.get(sourceNumber) : undefined;
+    return {
+      player: player && (position === 1 ? !match?.player1Tbd : !match?.player2Tbd) ? player : null,
+      seed: (position === 1 ? bm.player1Seed : bm.player2Seed) ?? null,
+      source: source
+        ? {
+            kind: source.winnerGoesTo === bm.matchNumber && (source.position ?? 1) === position ? 'winner' : 'loser',
+            matchNumber: source.matchNumber,
+          }
+        : null,
+    } satisfies BracketSheetSlot;
+  };
+
+  const rounds: BracketSheetRound[] = [];
+  for (const bm of structure) {
+    const match = byNumber.get(bm.matchNumber);
+    if (!match) continue;
+    let round = rounds.find((entry) => entry.round === bm.round);
+    if (!round) {
+      round = { round: bm.round, label: roundNames[bm.round] ?? bm.round, matches: [] };
+      rounds.push(round);
+    }
+    round.matches.push({
+      matchNumber: bm.matchNumber,
+      slots: [slot(bm, match, 1), slot(bm, match, 2)],
+      tvNumber: match.tvNumber ?? null,
+      courses: getPrintCourses(match, mode, locale),
+      targetWins: TARGET_WINS[mode]({ stage, round: match.round, targetWins: match.targetWins }),
+      score: matchScores(match, mode),
+    });
+  }
+  return { stage, rounds };
+}
+
+export interface TaPairSheet<T extends PrintTtEntryRow> {
+  pairs: Array<[T, T]>;
+  unpaired: T[];
+}
+
+/**
+ * TA qualification pairs. Partners the admin saved on the entries are kept;
+ * everyone else is paired with computeAutoPairs, the same snake pairing the
+ * TA setup dialog applies.
+ */
+export function buildTaPairSheet<T extends PrintTtEntryRow>(entries: T[]): TaPairSheet<T> {
+  const qualification = entries.filter((entry) => entry.stage === 'qualification' && entry.player);
+  const byPlayer = new Map(qualification.map((entry) => [entry.playerId, entry]));
+  const pairs: Array<[T, T]> = [];
+  const paired = new Set<string>();
+
+  for (const entry of qualification) {
+    const partner = entry.partnerId ? byPlayer.get(entry.partnerId) : undefined;
+    if (!partner || partner.partnerId !== entry.playerId || paired.has(entry.playerId)) continue;
+    const [first, second] =
+      (entry.seeding ?? Infinity) <= (partner.seeding ?? Infinity) ? [entry, partner] : [partner, entry];
+    pairs.push([first, second]);
+    paired.add(entry.playerId).add(partner.playerId);
+  }
+
+  const rest = qualification.filter((entry) => !paired.has(entry.playerId));
+  const autoPairs = computeAutoPairs(rest.map((entry) => ({ ...entry, id: entry.playerId })));
+  for (const [a, b] of autoPairs) {
+    pairs.push([byPlayer.get(a.playerId)!, byPlayer.get(b.playerId)!]);
+    paired.add(a.playerId).add(b.playerId);
+  }
+  pairs.sort(([a], [b]) => (a.seeding ?? Infinity) - (b.seeding ?? Infinity));
+  return { pairs, unpaired: rest.filter((entry) => !paired.has(entry.playerId)) };
+}
+
+const PRINT_STYLES = `
+@page { size: A4; margin: 12mm; }
+* { box-sizing: border-box; }
+body {
+  margin: 0;
+  color: #000;
+  font-family: "Hiragino Kaku Gothic ProN", "Hiragino Sans", "Noto Sans JP", "Noto Sans CJK JP", "Yu Gothic", "YuGothic", Meiryo, sans-serif;
+  font-size: 10.5pt;
+  -webkit-print-color-adjust: exact;
+  print-color-adjust: exact;
+}
+header { display: flex; justify-content: space-between; align-items: baseline; border-bottom: 2px solid #000; margin-bottom: 4mm; }
+h1 { font-size: 14pt; margin: 0 0 1mm; }
+h2 { font-size: 12pt; margin: 4mm 0 2mm; }
+h3 { font-size: 10.5pt; margin: 3mm 0 1mm; }
+table { width: 100%; border-collapse: collapse; }
+th, td { border: 1px solid #000; padding: 1.5mm 2mm; text-align: left; vertical-align: middle; }
+th { background: #eee; font-weight: bold; }
+.card, .stage { break-inside: avoid; page-break-inside: avoid; }
+.card { border: 2px solid #000; padding: 3mm; margin-bottom: 5mm; }
+.card + .card { break-before: page; page-break-before: always; }
+.card-title { display: flex; justify-content: space-between; font-size: 13pt; font-weight: bold; margin-bottom: 2mm; }
+.score-box { width: 22mm; height: 9mm; }
+.score-box span { display: inline-block; width: 45%; text-align: center; }
+.qr { width: 18mm; padding: 0.5mm; }
+.qr svg { display: block; width: 17mm; height: 17mm; }
+.muted { color: #555; }
+.seed { color: #555; font-size: 9pt; }
+.signature { margin-top: 3mm; text-align: right; }
+.signature span { display: inline-block; width: 50mm; border-bottom: 1px solid #000; }
+`;
+
+function renderDocument(locale: PrintLocale, title: string, tournamentName: string, body: string): string {
+  return `<!DOCTYPE html>
+<html lang="${locale}">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(`${tournamentName} - ${title}`)}</title>
+<style>${PRINT_STYLES}</style>
+</head>
+<body>
+<header><h1>${escapeHtml(title)}</h1><span>${escapeHtml(tournamentName)}</span></header>
+${body}
+</body>
+</html>
+`;
+}
+
+function renderScoreBox(score: [number, number] | null): string {
+  return score
+    ? `<td class="score-box"><span>${score[0]}</span>-<span>${score[1]}</span></td>`
+    : '<td class="score-box"></td>';
+}
+
+export interface PrintDocumentContext {
+  tournamentName: string;
+  locale: PrintLocale;
+}
+
+export function renderMatchCards(
+  cards: MatchCard[],
+  mode: PrintMode,
+  { tournamentName, locale }: PrintDocumentContext,
+) {
+  const title = `${MODE_NAMES[mode]} ${label(locale, 'matchCards')}`;
+  if (cards.length === 0) return renderDocument(locale, title, tournamentName, `<p>${label(locale, 'empty')}</p>`);
+
+  /* The QR column only appears when the route could sign report links. */
+  const withQr = cards.some((card) => card.rows.some((row) => row.reportUrl));
+  const qrCell = (row: MatchCardRow) =>
+    withQr ? `<td class="qr">${row.reportUrl ? renderQrSvg(row.reportUrl) : ''}</td>` : '';
+
+  const body = cards
+    .map((card) => {
+      const rows = card.rows
+        .map((row) =>
+          row.opponent === null
+            ? `<tr><td>${row.roundNumber ?? '-'}</td><td>M${row.matchNumber}</td><td colspan="${withQr ? 6 : 5}" class="muted">${label(locale, 'rest')}</td></tr>`
+            : `<tr><td>${row.roundNumber ?? '-'}</td><td>M${row.matchNumber}</td><td>${row.side}P</td><td>${escapeHtml(playerLabel(row.opponent))}</td><td>${row.tvNumber ?? ''}</td><td>${escapeHtml(row.courses.join(' / '))}</td>${renderScoreBox(row.score)}${qrCell(row)}</tr>`,
+        )
+        .join('\n');
+      const seed = card.seeding != null ? ` / ${label(locale, 'seed')} ${card.seeding}` : '';
+      return `<section class="card">
+<div class="card-title"><span>${escapeHtml(playerLabel(card.player))} <span class="muted">(${escapeHtml(card.player.name)})</span></span><span>${label(locale, 'group')} ${escapeHtml(card.group)}${seed}</span></div>
+<table>
+<thead><tr><th>${label(locale, 'round')}</th><th>${label(locale, 'match')}</th><th>${label(locale, 'side')}</th><th>${label(locale, 'opponent')}</th><th>${label(locale, 'tv')}</th><th>${label(locale, 'courses')}</th><th>${label(locale, 'score')}</th>${withQr ? `<th>${label(locale, 'report')}</th>` : ''}</tr></thead>
+<tbody>
+${rows}
+</tbody>
+</table>
+<p class="signature">${label(locale, 'signature')}: <span></span></p>
+</section>`;
+    })
+    .join('\n');
+  return renderDocument(locale, title, tournamentName, body);
+}
+
+function renderBracketSlot(slot: BracketSheetSlot, locale: PrintLocale): string {
+  const seed = slot.seed != null ? ` <span class="seed">[${slot.seed}]</span>` : '';
+  if (slot.player) return `${escapeHtml(playerLabel(slot.player))}${seed}`;
+  if (slot.source) {
+    return `<span class="muted">${label(locale, slot.source.kind === 'winner' ? 'winnerOf' : 'loserOf', slot.source.matchNumber)}</span>`;
+  }
+  return `<span class="muted">${label(locale, 'tbd')}</span>${seed}`;
+}
+
+export function renderBracketSheet(
+  stages: BracketSheetStage[],
+  mode: PrintMode,
+  { tournamentName, locale }: PrintDocumentContext,
+) {
+  const title = `${MODE_NAMES[mode]} ${label(locale, 'bracket')}`;
+  const nonEmpty = stages.filter((stage) => stage.rounds.length > 0);
+  if (nonEmpty.length === 0) return renderDocument(locale, title, tournamentName, `<p>${label(locale, 'empty')}</p>`);
+
+  const body = nonEmpty
+    .map((stage) => {
+      const rounds = stage.rounds
+        .map((round) => {
+          const rows = round.matches
+            .map(
+              (match) =>
+                `<tr><td>M${match.matchNumber}</td><td>${renderBracketSlot(match.slots[0], locale)}</td><td>${renderBracketSlot(match.slots[1], locale)}</td><td>${match.tvNumber ?? ''}</td><td>${escapeHtml(match.courses.join(' / '))}</td><td>${label(locale, 'firstTo', match.targetWins)}</td>${renderScoreBox(match.score)}</tr>`,
+            )
+            .join('\n');
+          return `<h3>${escapeHtml(round.label)}</h3>
+<table>
+<thead><tr><th>${label(locale, 'match')}</th><th>1P</th><th>2P</th><th>${label(locale, 'tv')}</th><th>${label(locale, 'courses')}</th><th></th><th>${label(locale, 'score')}</th></tr></thead>
+<tbody>
+${rows}
+</tbody>
+</table>`;
+        })
+        .join('\n');
+      return `<section class="stage"><h2>${label(locale, stage.stage)}</h2>\n${rounds}</section>`;
+    })
+    .join('\n');
+  return renderDocument(locale, title, tournamentName, body);
+}
+
+export function renderTaPairSheet<T extends PrintTtEntryRow>(
+  sheet: TaPairSheet<T>,
+  { tournamentName, locale }: PrintDocumentContext,
+) {
+  const title = label(locale, 'taPairs');
+  if (sheet.pairs.length === 0 && sheet.unpaired.length === 0) {
+    return renderDocument(locale, title, tournamentName, `<p>${label(locale, 'empty')}</p>`);
+  }
+
+  const entryCell = (entry: T) => {
+    const seed = entry.seeding != null ? ` <span class="seed">[${entry.seeding}]</span>` : '';
+    return `${escapeHtml(playerLabel(entry.player!))}${seed}`;
+  };
+  const rows = sheet.pairs
+    .map(([a, b], index) => `<tr><td>${index + 1}</td><td>${entryCell(a)}</td><td>${entryCell(b)}</td></tr>`)
+    .concat(
+      sheet.unpaired.map(
+        (entry) => `<tr><td>${label(locale, 'unpaired')}</td><td colspan="2">${entryCell(entry)}</td></tr>`,
+      ),
+    )
+    .join('\n');
+  const body = `<table>
+<thead><tr><th>${label(locale, 'pair')}</th><th>${label(locale, 'player')} 1</th><th>${label(locale, 'player')} 2</th></tr></thead>
+<tbody>
+${rows}
+</tbody>
+</table>`;
+  return renderDocument(locale, title, tournamentName, body);
+}
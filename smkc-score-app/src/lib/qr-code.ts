@@ -0,0 +1,14 @@
+/**
+ * QR code rendering shared by the print sheets (server) and the venue screen
+ * (browser). Produces a self-contained, scalable SVG string so both can embed
+ * it without a canvas or image request.
+ */
+import qrcode from 'qrcode-generator';
+
+/** SVG markup for `text`; medium error correction survives a creased card. */
+export function renderQrSvg(text: string): string {
+  const qr = qrcode(0, 'M');
+  qr.addData(text);
+  qr.make();
+  return qr.createSvgTag({ cellSize: 2, margin: 2, scalable: true });
+}
@@ -0,0 +1,138 @@
+/**
+ * Qualification No-Show Handling
+ *
+ * A player who does not turn up after the BM/MR/GP qualification schedule
+ * exists cannot simply be removed: re-running setup would redraw every
+ * group. Instead their remaining (uncompleted) matches become BREAK
+ * walkovers, the same rows setup creates for odd-sized groups: the opponent
+ * moves to player1, BREAK_PLAYER_ID takes player2 and the match is completed
+ * with getByeMatchData() scores. Like every BREAK row it is excluded from
+ * the aggregates, so opponents are neither credited nor penalised, while the
+ * matches the no-show player already finished still stand. In a Swiss
+ * tournament the row is a bye and counts as the opponent's win
+ * (countSwissByes).
+ *
+ * The conversions of one mode run as a single D1 batch, so they apply
+ * together or not at all. Only matches that are still uncompleted are
+ * converted, so a failed run is safe to repeat. The route loads the rows
+ * with findNoShowMatches() first and keeps them in the audit details.
+ */
+
+import prisma from '@/lib/prisma';
+import { executeD1Batch } from '@/lib/d1-batch';
+import { BREAK_PLAYER_ID, getByeMatchData, getScheduleOnlyBreakData } from '@/lib/round-robin';
+import { repairQualificationStats } from '@/lib/api-factories/score-report-helpers';
+import type { EventTypeConfig } from '@/lib/event-types/types';
+
+type NoShowModeConfig = Pick<
+  EventTypeConfig,
+  'eventTypeCode' | 'matchModel' | 'qualificationModel' | 'matchScoreFields' | 'calculateMatchResult'
+>;
+
+type MatchPlayers = { id: string; player1Id: string; player2Id: string };
+
+/** A match row as it was before a no-show or withdrawal, with every field those rewrite. */
+export type QualificationMatchSnapshot = MatchPlayers & {
+  player1Side: number;
+  player2Side: number;
+  isBye: boolean;
+  completed: boolean;
+} & Record<string, unknown>;
+
+const MATCH_TABLES: Record<EventTypeConfig['eventTypeCode'], string> = {
+  bm: '"BMMatch"',
+  mr: '"MRMatch"',
+  gp: '"GPMatch"',
+};
+
+/** Prisma select for a QualificationMatchSnapshot, including the mode's score columns. */
+export function matchSnapshotSelect(config: Pick<EventTypeConfig, 'matchScoreFields'>) {
+  const { p1, p2 } = config.matchScoreFields ?? { p1: 'score1', p2: 'score2' };
+  return {
+    id: true,
+    player1Id: true,
+    player2Id: true,
+    player1Side: true,
+    player2Side: true,
+    isBye: true,
+    completed: true,
+    [p1]: true,
+    [p2]: true,
+  };
+}
+
+/**
+ * Hand each match of `playerId` to the opponent as a BREAK walkover. A match
+ * whose opponent already is BREAK (the player's own bye) becomes a
+ * schedule-only BREAK vs BREAK row, so no result is left on the player.
+ *
+ * With `onlyUncompleted`, a match whose score was confirmed in the meantime
+ * is left as it is.
+ *
+ * @returns IDs of the converted matches
+ */
+export async function convertMatchesToBreak(
+  config: Pick<EventTypeConfig, 'eventTypeCode'>,
+  matches: MatchPlayers[],
+  playerId: string,
+  { onlyUncompleted }: { onlyUncompleted: boolean },
+): Promise<string[]> {
+  if (matches.length === 0) return [];
+  const table = MATCH_TABLES[config.eventTypeCode];
+  const byeData = getByeMatchData(config.eventTypeCode);
+  const breakData = getScheduleOnlyBreakData(config.eventTypeCode);
+  const updatedAt = new Date().toISOString();
+  const changes = await executeD1Batch(
+    matches.map((match) => {
+      const opponentId = match.player1Id === playerId ? match.player2Id : match.player1Id;
+      const scores = Object.entries(opponentId === BREAK_PLAYER_ID ? breakData : byeData);
+      return {
+        sql: `UPDATE ${table}
+          SET "player1Id" = ?, "player2Id" = ?, "player1Side" = 1, "player2Side" = 2, "isBye" = 1, "completed" = 1,
+            ${scores.map(([column]) => `"${column}" = ?`).join(', ')}, "updatedAt" = ?
+          WHERE "id" = ?${onlyUncompleted ? ' AND "completed" = 0' : ''}`,
+        values: [opponentId, BREAK_PLAYER_ID, ...scores.map(([, value]) => value), updatedAt, match.id],
+      };
+    }),
+  );
+  return matches.filter((_, index) => changes[index] > 0).map((match) => match.id);
+}
+
+/** The uncompleted qualification matches of a no-show player in one mode, read before anything is written. */
+export async function findNoShowMatches(
+  config: Pick<EventTypeConfig, 'matchModel' | 'matchScoreFields'>,
+  tournamentId: string,
+  playerId: string,
+): Promise<QualificationMatchSnapshot[]> {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  return (prisma as any)[config.matchModel].findMany({
+    where: {
+      tournamentId,
+      stage: 'qualification',
+      completed: false,
+      OR: [{ player1Id: playerId }, { player2Id: playerId }],
+    },
+    select: matchSnapshotSelect(config),
+  });
+}
+
+/**
+ * Convert a no-show player's uncompleted qualification matches in one mode
+ * into BREAK walkovers for their opponents, then recompute that mode's
+ * qualification stats.
+ *
+ * @param matches - rows from findNoShowMatches() for the same player
+ * @returns IDs of the converted matches
+ */
+export async function convertNoShowMatches(
+  config: NoShowModeConfig,
+  tournamentId: string,
+  playerId: string,
+  matches: MatchPlayers[],
+): Promise<string[]> {
+  if (matches.length === 0) return [];
+
+  const converted = await convertMatchesToBreak(config, matches, playerId, { onlyUncompleted: true });
+  await repairQualificationStats(config, tournamentId);
+  return converted;
+}
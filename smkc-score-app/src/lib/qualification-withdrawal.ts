@@ -0,0 +1,136 @@
+/**
+ * Qualification Withdrawal
+ *
+ * A player who leaves the BM/MR/GP qualification part-way through keeps
+ * their qualification row (so the group draw stays intact) and is marked
+ * with withdrawnAt. What happens to their matches depends on the policy the
+ * admin picks:
+ *
+ * - `void`: every match of the player, played or not, becomes a BREAK row
+ *   (see qualification-no-show.ts). BREAK rows are excluded from the
+ *   aggregates, so the group behaves as if the player had never been drawn:
+ *   opponents lose the results against them and the maximum achievable
+ *   match points in the group drop by one match.
+ * - `walkover`: finished matches stand; unplayed matches are completed as
+ *   regular matches won by the opponent with the BYE score of the mode
+ *   (getByeMatchData), so they count as an opponent win and a loss for the
+ *   withdrawn player.
+ *
+ * Either way the withdrawn player ranks below every active player of their
+ * group (server-ranking.ts) and is skipped by Swiss pairing.
+ *
+ * In a Swiss tournament every BREAK row is a bye that scores as a win
+ * (countSwissByes), so under `void` each opponent gets the round as a win,
+ * keeping their number of rounds level with the rest of the field. Swiss
+ * Buchholz leaves the withdrawn player out under either policy.
+ *
+ * D1 has no interactive transactions: `void` converts the matches in one
+ * batch, `walkover` updates them one by one, and withdrawnAt is written
+ * last, so a failed run can simply be repeated.
+ * `void` overwrites finished results, so the route loads the affected rows
+ * with findWithdrawalMatches() first and keeps them in the audit details;
+ * that snapshot is the only record of the original scores.
+ */
+
+import prisma from '@/lib/prisma';
+import { BREAK_PLAYER_ID, getByeMatchData } from '@/lib/round-robin';
+import { repairQualificationStats } from '@/lib/api-factories/score-report-helpers';
+import {
+  convertMatchesToBreak,
+  matchSnapshotSelect,
+  type QualificationMatchSnapshot,
+} from '@/lib/qualification-no-show';
+import type { EventTypeConfig } from '@/lib/event-types/types';
+
+export const WITHDRAWAL_POLICIES = ['void', 'walkover'] as const;
+
+export type WithdrawalPolicy = (typeof WITHDRAWAL_POLICIES)[number];
+
+export function isWithdrawalPolicy(value: unknown): value is WithdrawalPolicy {
+  return typeof value === 'string' && (WITHDRAWAL_POLICIES as readonly string[]).includes(value);
+}
+
+type WithdrawalModeConfig = Pick<
+  EventTypeConfig,
+  'eventTypeCode' | 'matchModel' | 'qualificationModel' | 'matchScoreFields' | 'calculateMatchResult'
+>;
+
+/** A match row as it was before the withdrawal, with every field the policies rewrite. */
+export type WithdrawalMatchSnapshot = QualificationMatchSnapshot;
+
+/** The matches `policy` will change for `playerId`, read before anything is written. */
+export async function findWithdrawalMatches(
+  config: WithdrawalModeConfig,
+  tournamentId: string,
+  playerId: string,
+  policy: WithdrawalPolicy,
+): Promise<WithdrawalMatchSnapshot[]> {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  return (prisma as any)[config.matchModel].findMany({
+    where: {
+      tournamentId,
+      stage: 'qualification',
+      ...(policy === 'walkover' ? { completed: false, isBye: false } : {}),
+      OR: [{ player1Id: playerId }, { player2Id: playerId }],
+    },
+    select: matchSnapshotSelect(config),
+  });
+}
+
+/**
+ * Withdraw a player from one mode's qualification under `policy`, then
+ * recompute every player's stats in that mode.
+ *
+ * @param matches - rows from findWithdrawalMatches() for the same player and policy
+ * @returns IDs of the matches that were changed
+ */
+export async function withdrawQualificationPlayer(
+  config: WithdrawalModeConfig,
+  tournamentId: string,
+  playerId: string,
+  policy: WithdrawalPolicy,
+  matches: WithdrawalMatchSnapshot[],
+): Promise<string[]> {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const matchDelegate = (prisma as any)[config.matchModel];
+
+  let changed: string[];
+  if (policy === 'void') {
+    changed = await convertMatchesToBreak(config, matches, playerId, { onlyUncompleted: false });
+  } else {
+    const { p1, p2 } = config.matchScoreFields ?? { p1: 'score1', p2: 'score2' };
+    const winningScore = getByeMatchData(config.eventTypeCode)[p1];
+    changed = [];
+    for (const match of matches) {
+      if (match.player1Id === BREAK_PLAYER_ID || match.player2Id === BREAK_PLAYER_ID) continue;
+      const withdrawnIsPlayer1 = match.player1Id === playerId;
+      const result = await matchDelegate.updateMany({
+        where: { id: match.id, completed: false },
+        data: {
+          completed: true,
+          [p1]: withdrawnIsPlayer1 ? 0 : winningScore,
+          [p2]: withdrawnIsPlayer1 ? winningScore : 0,
+        },
+      });
+      if (result.count > 0) changed.push(match.id);
+    }
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  await (prisma as any)[config.qualificationModel].updateMany({
+    where: { tournamentId, playerId },
+    /* Overrides were decided against the old standings; drop them with the results. */
+    data: {
+      withdrawnAt: new Date(),
+      withdrawalPolicy: policy,
+      rankOverride: null,
+      rankOverrideBy: null,
+      rankOverrideAt: null,
+      combinedRankOverride: null,
+      combinedRankOverrideBy: null,
+      combinedRankOverrideAt: null,
+    },
+  });
+  await repairQualificationStats(config, tournamentId);
+  return changed;
+}
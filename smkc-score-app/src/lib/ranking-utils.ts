@@ -64,6 +64,8 @@ export function compareByScoreThenPointsAndCombinedOverride(
 /** Shape required by computeCombinedRanks: a group label to bucket entries by. */
 export interface GroupedRankableEntry extends RankableEntry {
   group: string;
+  /** Set when the player withdrew mid-qualification; they rank after every active player. */
+  withdrawnAt?: string | Date | null;
 }
 
 /** Groups entries by a derived key, preserving each group's relative input order. */
@@ -154,7 +156,7 @@ export function computeTieAwareRanks<T extends RankableEntry>(
  * server-computed `_rank` (H2H, sudden death) determines bucket membership,
  * per §1 ("グループ内最終順位...を入力として使う"). Groups of uneven size
  * simply have no entry in a bucket past their last player -- no special-casing
- * needed (§2.3/§2.4).
+ * needed (§2.3/§2.4). Withdrawn players come after every bucket.
  */
 export function computeCombinedRanks<T extends GroupedRankableEntry>(
   entries: T[],
@@ -171,9 +173,11 @@ export function computeCombinedRanks<T extends GroupedRankableEntry>(
   }
 
   // Single comparator shared by the sort and the tie-check below, so the two
-  // can never drift apart: bucket is the absolute primary key, compareFn only
-  // breaks ties within the same bucket.
+  // can never drift apart: withdrawal and then bucket are absolute keys,
+  // compareFn only breaks ties within the same bucket.
   const combinedCompare = (a: T, b: T) => {
+    const withdrawnDiff = Number(a.withdrawnAt != null) - Number(b.withdrawnAt != null);
+    if (withdrawnDiff !== 0) return withdrawnDiff;
     const bucketDiff = bucketById.get(a.id)! - bucketById.get(b.id)!;
     return bucketDiff !== 0 ? bucketDiff : combinedCompareFn(a, b);
   };
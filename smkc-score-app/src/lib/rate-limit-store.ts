@@ -0,0 +1,148 @@
+/**
+ * Rate Limit Store Module
+ *
+ * Shared counter storage for the rate-limit rules that must hold across
+ * Worker isolates (`shared: true` in `rateLimitConfigs`). The in-memory
+ * sliding window in rate-limit.ts only sees requests served by its own
+ * isolate, so a brute-force run spread over isolates would never trip it.
+ *
+ * Shared stores count in fixed windows: one counter per rule, client and
+ * window start. Two implementations:
+ *
+ * - d1: the `RateLimitCounter` table. Each hit is a single atomic upsert,
+ *   so concurrent requests are counted exactly.
+ * - kv: Workers KV namespace bound as `RATE_LIMIT_KV`. KV has no atomic
+ *   increment, so concurrent hits within one window may under-count a
+ *   little; acceptable for abuse limits, not for exact quotas.
+ *
+ * The store is chosen with the `RATE_LIMIT_BACKEND` variable ("d1", "kv" or
+ * "memory"). `getSharedRateLimitStore()` returns null for memory or a
+ * missing KV binding, and `checkRateLimit()` then uses the in-memory
+ * limiter.
+ */
+
+import type { KVNamespace } from '@cloudflare/workers-types';
+import { getCloudflareContext } from '@opennextjs/cloudflare';
+import prisma from '@/lib/prisma';
+import { createLogger } from './logger';
+import type { RateLimitResult } from './rate-limit';
+
+export type RateLimitStoreName = 'kv' | 'd1';
+
+/** Counter storage for one rate-limit hit. */
+export interface RateLimitStore {
+  readonly name: RateLimitStoreName;
+  /** Count one request for `key` and report whether it is within `limit`. */
+  hit(key: string, limit: number, windowMs: number): Promise<RateLimitResult>;
+}
+
+const log = createLogger('rate-limit-store');
+
+/** KV rejects expirationTtl values below 60 seconds. */
+const KV_MIN_TTL_SECONDS = 60;
+
+/** Start of the fixed window containing `now`. */
+function windowStartFor(now: number, windowMs: number): number {
+  return now - (now % windowMs);
+}
+
+/** Build the result for the `count`-th request of a fixed window. */
+function fixedWindowResult(
+  count: number,
+  limit: number,
+  windowStart: number,
+  windowMs: number,
+  now = Date.now(),
+): RateLimitResult {
+  const reset = windowStart + windowMs;
+  if (count > limit) {
+    return {
+      success: false,
+      remaining: 0,
+      limit,
+      reset,
+      retryAfter: Math.max(1, Math.ceil((reset - now) / 1000)),
+    };
+  }
+  return { success: true, remaining: limit - count, limit, reset };
+}
+
+/**
+ * D1 store on the `RateLimitCounter` table. The first hit of a window also
+ * purges counters whose window has ended, so the table only holds live rows.
+ */
+export function createD1RateLimitStore(client: typeof prisma = prisma): RateLimitStore {
+  return {
+    name: 'd1',
+    async hit(key, limit, windowMs) {
+      const now = Date.now();
+      const windowStart = windowStartFor(now, windowMs);
+      const counterKey = `${key}:${windowStart}`;
+      const row = await client.rateLimitCounter.upsert({
+        where: { key: counterKey },
+        create: { key: counterKey, count: 1, expiresAt: new Date(windowStart + windowMs) },
+        update: { count: { increment: 1 } },
+      });
+      if (row.count === 1) {
+        await client.rateLimitCounter.deleteMany({ where: { expiresAt: { lte: new Date(now) } } });
+      }
+      return fixedWindowResult(row.count, limit, windowStart, windowMs, now);
+    },
+  };
+}
+
+/**
+ * KV store. Once a client is over the limit the counter is no longer
+ * written, so a flood of rejected requests costs reads only.
+ */
+export function createKvRateLimitStore(kv: KVNamespace): RateLimitStore {
+  return {
+    name: 'kv',
+    async hit(key, limit, windowMs) {
+      const now = Date.now();
+      const windowStart = windowStartFor(now, windowMs);
+      const counterKey = `${key}:${windowStart}`;
+      const count = ((await kv.get<number>(counterKey, 'json')) ?? 0) + 1;
+      if (count <= limit + 1) {
+        await kv.put(counterKey, JSON.stringify(count), {
+          expirationTtl: Math.max(KV_MIN_TTL_SECONDS, Math.ceil((windowStart + windowMs - now) / 1000)),
+        });
+      }
+      return fixedWindowResult(count, limit, windowStart, windowMs, now);
+    },
+  };
+}
+
+/** Explicit override installed by tests via `setRateLimitStore()`. */
+let overrideStore: RateLimitStore | null | undefined;
+
+/**
+ * Resolve the shared store for the current request, or null when shared
+ * counting is not configured. Bindings are per-invocation on Workers, so
+ * the store is built per call.
+ */
+export function getSharedRateLimitStore(): RateLimitStore | null {
+  if (overrideStore !== undefined) return overrideStore;
+
+  const configured = process.env.RATE_LIMIT_BACKEND;
+  if (configured === 'd1') return createD1RateLimitStore();
+  if (configured === 'kv') {
+    let kv: KVNamespace | undefined;
+    try {
+      kv = getCloudflareContext().env.RATE_LIMIT_KV;
+    } catch {
+      kv = undefined;
+    }
+    if (kv) return createKvRateLimitStore(kv);
+    log.warn('RATE_LIMIT_BACKEND=kv but no RATE_LIMIT_KV binding is available; using in-memory limits');
+  }
+  return null;
+}
+
+/**
+ * Replace the shared store. Pass null to force in-memory limits and
+ * undefined to return to the configured store. Exported for tests.
+ */
+export function setRateLimitStore(store: RateLimitStore | null | undefined): void {
+  overrideStore = store;
+}
@@ -1,7 +1,11 @@
 /**
  * Rate Limiting Module
  *
- * Provides an in-memory sliding window rate limiter for API endpoints.
+ * Provides rate limiting for API endpoints. Most rules use an in-memory
+ * sliding window per isolate; rules marked `shared` (credential login and
+ * participant score reports) count in the store selected by
+ * RATE_LIMIT_BACKEND (rate-limit-store.ts) so the limit holds across
+ * Worker isolates. A shared-store error falls back to the in-memory window.
  *
  * Client identification strategy (in priority order):
  * 1. x-forwarded-for header (behind reverse proxy/load balancer)
@@ -18,6 +22,7 @@
  */
 
 import { createLogger } from '@/lib/logger';
+import { getSharedRateLimitStore } from '@/lib/rate-limit-store';
 
 /** Logger scoped to rate limit facade operations */
 const logger = createLogger('rate-limit');
@@ -50,6 +55,8 @@ interface RateLimitConfig {
   limit: number;
   /** Time window duration in milliseconds */
   windowMs: number;
+  /** Count in the shared store so the limit holds across isolates */
+  shared?: boolean;
 }
 
 /**
@@ -57,8 +64,14 @@ interface RateLimitConfig {
  */
 // Loose limits — this is an internal tournament tool with few concurrent users.
 // Only meant to catch runaway loops or obvious abuse, not throttle normal usage.
+// Login, sign-up and score input are shared: they are the public write paths an
+// attacker could spread across isolates. Login is keyed by client IP and nickname;
+// per-account lockout (login-lockout.ts) covers attacks from many IPs. Sign-up allows a whole
+// venue to register through one shared Wi-Fi address.
 export const rateLimitConfigs: Record<string, RateLimitConfig> = {
-  scoreInput: { limit: 120, windowMs: 60 * 1000 },
+  login: { limit: 20, windowMs: 15 * 60 * 1000, shared: true },
+  signup: { limit: 60, windowMs: 60 * 60 * 1000, shared: true },
+  scoreInput: { limit: 120, windowMs: 60 * 1000, shared: true },
   polling: { limit: 120, windowMs: 60 * 1000 },
   sessionStatus: { limit: 60, windowMs: 60 * 1000 },
   general: { limit: 60, windowMs: 60 * 1000 },
@@ -75,12 +88,22 @@ export const rateLimitConfigs: Record<string, RateLimitConfig> = {
  * @param identifier - Client identifier (usually IP address)
  * @returns RateLimitResult indicating if the request is allowed
  */
-export async function checkRateLimit(
-  type: string,
-  identifier: string
-): Promise<RateLimitResult> {
+export async function checkRateLimit(type: string, identifier: string): Promise<RateLimitResult> {
   const config = rateLimitConfigs[type] || rateLimitConfigs.general;
   const compositeIdentifier = `${identifier}:${type}`;
+
+  const store = config.shared ? getSharedRateLimitStore() : null;
+  if (store) {
+    try {
+      return await store.hit(compositeIdentifier, config.limit, config.windowMs);
+    } catch (error) {
+      logger.warn('Shared rate limit store failed; using in-memory limit', {
+        error,
+        store: store.name,
+        type,
+      });
+    }
+  }
   return rateLimitInMemory(compositeIdentifier, config.limit, config.windowMs);
 }
 
@@ -130,11 +153,7 @@ const MAX_STORE_SIZE = 10000;
  * @param windowMs - Time window in milliseconds
  * @returns RateLimitResult
  */
-export function rateLimitInMemory(
-  identifier: string,
-  limit: number,
-  windowMs: number
-): RateLimitResult {
+export function rateLimitInMemory(identifier: string, limit: number, windowMs: number): RateLimitResult {
   const now = Date.now();
   const windowStart = now - windowMs;
 
@@ -209,9 +228,7 @@ export function cleanupExpiredEntries(): void {
   // Use the longest possible window (general config) for cleanup.
   // This ensures we don't accidentally remove entries that are still
   // valid for shorter windows.
-  const maxWindowMs = Math.max(
-    ...Object.values(rateLimitConfigs).map((c) => c.windowMs)
-  );
+  const maxWindowMs = Math.max(...Object.values(rateLimitConfigs).map((c) => c.windowMs));
   const cutoff = now - maxWindowMs;
 
   for (const [key, entry] of rateLimitStore.entries()) {
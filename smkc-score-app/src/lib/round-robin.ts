@@ -44,8 +44,22 @@ export interface RoundRobinSchedule {
   hasByes: boolean;
 }
 
-/** Scheduling policy stored on a tournament. Circle remains the legacy default. */
-export type QualificationScheduleMethod = 'circle' | 'cdm';
+/**
+ * Scheduling policy stored on a tournament. Circle remains the legacy default.
+ * Swiss pairs one round at a time from live standings (swiss-pairing.ts)
+ * instead of generating a full round-robin up front.
+ */
+export const QUALIFICATION_SCHEDULE_METHODS = ['circle', 'cdm', 'swiss'] as const;
+export type QualificationScheduleMethod = (typeof QUALIFICATION_SCHEDULE_METHODS)[number];
+/** Methods that produce a complete round-robin schedule at setup time. */
+export type RoundRobinScheduleMethod = Exclude<QualificationScheduleMethod, 'swiss'>;
+
+/** Coerce a stored/imported value to a known method, defaulting to circle. */
+export function normalizeQualificationScheduleMethod(value: unknown): QualificationScheduleMethod {
+  return (QUALIFICATION_SCHEDULE_METHODS as readonly unknown[]).includes(value)
+    ? (value as QualificationScheduleMethod)
+    : 'circle';
+}
 
 export class UnsupportedRoundRobinPlayerCountError extends Error {
   readonly code = 'UNSUPPORTED_CDM_GROUP_SIZE';
@@ -90,7 +104,7 @@ interface RawPairing {
  */
 export function generateRoundRobinSchedule(
   playerIds: string[],
-  { method = 'circle' }: { method?: QualificationScheduleMethod } = {},
+  { method = 'circle' }: { method?: RoundRobinScheduleMethod } = {},
 ): RoundRobinSchedule {
   const fixtureCapacity = method === 'cdm' ? cdmFixtureCapacity(playerIds.length) : null;
   if (method === 'cdm' && !fixtureCapacity) throw new UnsupportedRoundRobinPlayerCountError(playerIds.length);
@@ -5,17 +5,49 @@
  * admin rankOverrides.  This is extracted from standings-route.ts so that
  * the qualification route can inject the same `_rank` into raw qualification
  * records, eliminating client/server rank mismatches.
+ *
+ * Swiss-system tournaments break ties by Buchholz before H2H, because tied
+ * Swiss players rarely met each other and faced opponents of different
+ * strength. Buchholz here is the average primary ranking value of the
+ * opponents a player actually met, normalised by those games rather than
+ * summed over rounds: a bye, or a game against a player who later withdrew,
+ * then counts as an average opponent instead of a zero. Withdrawn players
+ * drop out of the value like the `void` withdrawal policy
+ * (qualification-withdrawal.ts) drops their results, whichever policy the
+ * admin picked, since their own record stops growing once they leave.
+ *
+ * Players who withdrew mid-qualification (withdrawnAt set) rank after every
+ * active player of their partition, whatever their record.
  */
 
+import type { QualificationScheduleMethod } from '@/lib/round-robin';
+
+/** How tied players are separated after the primary ordering fields. */
+export type QualificationTiebreak = 'h2h' | 'buchholz';
+
 export interface ComputeRanksOptions {
   /** Fields used to decide H2H winner. Defaults to { p1: 'score1', p2: 'score2' } */
   matchScoreFields?: { p1: string; p2: string };
+  /**
+   * Tiebreak applied within tied sets. Defaults to 'h2h'. 'buchholz' needs
+   * every completed match of the partition, not just matches between tied
+   * players.
+   */
+  tiebreak?: QualificationTiebreak;
+}
+
+/** Tiebreak implied by a tournament's qualification schedule method. */
+export function qualificationTiebreakFor(
+  scheduleMethod: QualificationScheduleMethod | string | null | undefined,
+): QualificationTiebreak {
+  return scheduleMethod === 'swiss' ? 'buchholz' : 'h2h';
 }
 
 export type RankableQualification = {
   playerId: string;
   group?: string | null;
   rankOverride?: number | null;
+  withdrawnAt?: Date | string | null;
   [key: string]: unknown;
 };
 export type RankableMatch = {
@@ -28,6 +60,8 @@ export type RankableMatch = {
 export type RankedQualification<TQualification> = TQualification & {
   _rank: number;
   _rankOverridden?: boolean;
+  /** Buchholz tiebreak value, present only when ranked with tiebreak 'buchholz' */
+  _buchholz?: number;
 };
 type RankedWithOrder<TQualification> = RankedQualification<TQualification> & {
   _rankingOrder: number;
@@ -56,11 +90,23 @@ function assignRanksForPartition<TQualification extends RankableQualification, T
     }
   }
 
+  /*
+   * Buchholz: average of the opponents' primary ranking value (e.g. `score`)
+   * over completed, non-bye matches in this partition.
+   */
+  const buchholz = options.tiebreak === 'buchholz' ? computeBuchholz(qualifications, orderBy, matches) : null;
+  if (buchholz) {
+    for (let i = 0; i < ranked.length; i++) {
+      ranked[i] = { ...ranked[i], _buchholz: buchholz.get(ranked[i].playerId) ?? 0 };
+    }
+  }
+
   /*
    * 2. H2H tiebreaker: re-sort tied groups by direct match results.
    * Players tied after the primary criteria are re-sorted by how many H2H
    * matches they won within the tied group.  Players from different groups
-   * (who never played each other) stay tied.
+   * (who never played each other) stay tied. With Buchholz enabled, the
+   * Buchholz value is compared first and H2H only separates equal Buchholz.
    */
   if (matches.length > 0) {
     const scoreFields = options.matchScoreFields ?? { p1: 'score1', p2: 'score2' };
@@ -103,9 +149,7 @@ function assignRanksForPartition<TQualification extends RankableQualification, T
 
       const gPlayerIds = group.map((e: { playerId: string }) => e.playerId);
       const gPlayerIdSet = new Set(gPlayerIds);
-      const groupMatches = h2hMatches.filter(
-        (m) => gPlayerIdSet.has(m.player1Id) && gPlayerIdSet.has(m.player2Id),
-      );
+      const groupMatches = h2hMatches.filter((m) => gPlayerIdSet.has(m.player1Id) && gPlayerIdSet.has(m.player2Id));
 
       /* Tally H2H wins; draws award no win to either player */
       const h2hWins = new Map<string, number>(gPlayerIds.map((id) => [id, 0]));
@@ -116,18 +160,17 @@ function assignRanksForPartition<TQualification extends RankableQualification, T
         else if (s2 > s1) h2hWins.set(m.player2Id, (h2hWins.get(m.player2Id) ?? 0) + 1);
       }
 
-      /* Sort by H2H wins desc; preserve original order on equal wins */
-      const sortedGroup = [...group].sort(
-        (a, b) => (h2hWins.get(b.playerId) ?? 0) - (h2hWins.get(a.playerId) ?? 0),
-      );
+      /* Sort by (Buchholz,) H2H wins desc; preserve original order on equal keys */
+      const compareTiebreak = (a: { playerId: string }, b: { playerId: string }) =>
+        (buchholz ? (buchholz.get(b.playerId) ?? 0) - (buchholz.get(a.playerId) ?? 0) : 0) ||
+        (h2hWins.get(b.playerId) ?? 0) - (h2hWins.get(a.playerId) ?? 0);
+      const sortedGroup = [...group].sort(compareTiebreak);
 
       /* Re-assign _rank within the group using 1224 competition ranking */
       let subRank = rank;
       for (let i = 0; i < sortedGroup.length; i++) {
-        if (i > 0) {
-          const prevWins = h2hWins.get(sortedGroup[i - 1].playerId) ?? 0;
-          const curWins = h2hWins.get(sortedGroup[i].playerId) ?? 0;
-          if (curWins !== prevWins) subRank = rank + i;
+        if (i > 0 && compareTiebreak(sortedGroup[i - 1], sortedGroup[i]) !== 0) {
+          subRank = rank + i;
         }
         resolved.push({ ...sortedGroup[i], _rank: subRank });
       }
@@ -166,6 +209,54 @@ function assignRanksForPartition<TQualification extends RankableQualification, T
   return withOverrides.map(({ _rankingOrder, ...entry }) => entry as RankedQualification<TQualification>);
 }
 
+/** Rank active players first, then withdrawn players below them. */
+function assignRanksWithdrawnLast<TQualification extends RankableQualification, TMatch extends RankableMatch>(
+  qualifications: TQualification[],
+  orderBy: Array<Partial<Record<string, 'asc' | 'desc'>>>,
+  matches: TMatch[],
+  options: ComputeRanksOptions,
+): RankedQualification<TQualification>[] {
+  const active = qualifications.filter((q) => q.withdrawnAt == null);
+  if (active.length === qualifications.length) {
+    return assignRanksForPartition(qualifications, orderBy, matches, options);
+  }
+  const withdrawn = qualifications.filter((q) => q.withdrawnAt != null);
+  return [
+    ...assignRanksForPartition(active, orderBy, matches, options),
+    ...assignRanksForPartition(withdrawn, orderBy, matches, options).map((entry) => ({
+      ...entry,
+      _rank: entry._rank + active.length,
+    })),
+  ];
+}
+
+function computeBuchholz<TQualification extends RankableQualification, TMatch extends RankableMatch>(
+  qualifications: TQualification[],
+  orderBy: Array<Partial<Record<string, 'asc' | 'desc'>>>,
+  matches: TMatch[],
+): Map<string, number> {
+  const field = Object.keys(orderBy[0] ?? {})[0] ?? 'score';
+  const value = new Map(qualifications.map((q) => [q.playerId, Number(q[field] ?? 0)]));
+  const totals = new Map<string, number>(qualifications.map((q) => [q.playerId, 0]));
+  const games = new Map<string, number>(qualifications.map((q) => [q.playerId, 0]));
+
+  for (const m of matches) {
+    if (m.completed === false || m.isBye === true) continue;
+    /* Opponents outside the partition (BREAK, withdrawn players) are not counted. */
+    if (!value.has(m.player1Id) || !value.has(m.player2Id)) continue;
+    totals.set(m.player1Id, (totals.get(m.player1Id) ?? 0) + (value.get(m.player2Id) ?? 0));
+    totals.set(m.player2Id, (totals.get(m.player2Id) ?? 0) + (value.get(m.player1Id) ?? 0));
+    games.set(m.player1Id, (games.get(m.player1Id) ?? 0) + 1);
+    games.set(m.player2Id, (games.get(m.player2Id) ?? 0) + 1);
+  }
+  return new Map(
+    [...totals].map(([playerId, total]) => {
+      const played = games.get(playerId) ?? 0;
+      return [playerId, played === 0 ? 0 : total / played];
+    }),
+  );
+}
+
 /**
  * Assign `_rank` and `_rankOverridden` to qualification records.
  *
@@ -178,7 +269,8 @@ function assignRanksForPartition<TQualification extends RankableQualification, T
  * @param qualifications - Already sorted qualification records (player included).
  * @param orderBy        - Prisma order-by array used to determine tiedness.
  * @param matches        - Completed qualification matches (non-bye) for H2H.
- * @param options        - Optional score field mapping for H2H winner detection.
+ * @param options        - Optional score field mapping for H2H winner detection
+ *                         and the tiebreak to apply ('h2h' or 'buchholz').
  * @returns              - New array with `_rank` / `_rankOverridden` injected.
  */
 export function computeQualificationRanks<TQualification extends RankableQualification, TMatch extends RankableMatch>(
@@ -207,13 +299,11 @@ export function computeQualificationRanks<TQualification extends RankableQualifi
       const groupMatches = matches.filter(
         (match) => groupPlayerIds.has(match.player1Id) && groupPlayerIds.has(match.player2Id),
       );
-      rankedByGroup.push(
-        ...assignRanksForPartition(groupEntries, rankingOrder, groupMatches, options),
-      );
+      rankedByGroup.push(...assignRanksWithdrawnLast(groupEntries, rankingOrder, groupMatches, options));
     }
 
     return rankedByGroup;
   }
 
-  return assignRanksForPartition(qualifications, orderBy, matches, options);
+  return assignRanksWithdrawnLast(qualifications, orderBy, matches, options);
 }
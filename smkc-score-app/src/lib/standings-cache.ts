@@ -1,7 +1,9 @@
 /**
  * Standings Cache Module
  *
- * Provides in-memory caching for tournament standings data.
+ * Caches tournament standings data in the configured cache backend
+ * (cache-backend.ts): an in-memory LRU by default, or Workers KV / D1 so
+ * every isolate sees the same entries and invalidations.
  *
  * Cache entries include:
  * - `data`: The standings array (generic unknown[] to support all modes)
@@ -11,11 +13,14 @@
  * TTL: 5 minutes (CACHE_TTL_MS). After expiration, the cache entry is
  * considered stale and should be refreshed from the database.
  *
- * Cache keys are formatted as "tournamentId:stage" (e.g., "abc123:qualification").
- * Invalidation can target a specific stage or all stages for a tournament.
+ * Cache keys are versioned per tournament
+ * ("standings:abc123:g<generation>:qualification"). Invalidating one stage
+ * deletes its key; invalidating the whole tournament bumps the generation,
+ * which orphans every stage (and the overall ranking) in a single write.
  */
 
 import { createLogger } from './logger';
+import { bumpTournamentCacheGeneration, clearMemoryCache, getCacheBackend, tournamentCacheKey } from './cache-backend';
 
 /**
  * Public interface for cached standings data.
@@ -37,26 +42,24 @@ const log = createLogger('standings-cache');
  */
 const CACHE_TTL_MS = 5 * 60 * 1000;
 
-/**
- * In-memory cache store.
- * Keys are formatted as "tournamentId:stage".
- */
-const standingsCache = new Map<string, CachedStandings>();
+/** Key namespace for standings entries in the cache backend. */
+const CACHE_NAMESPACE = 'standings';
 
 /**
- * Retrieve a cached standings entry from the in-memory cache.
+ * Retrieve a cached standings entry from the cache backend.
  *
  * @param tournamentId - Tournament identifier
  * @param stage        - Competition stage (e.g., "qualification", "finals")
  * @returns Cached entry or null if not found
  */
 async function get(tournamentId: string, stage: string): Promise<CachedStandings | null> {
-  const key = `${tournamentId}:${stage}`;
-  return standingsCache.get(key) || null;
+  const backend = getCacheBackend();
+  const key = await tournamentCacheKey(CACHE_NAMESPACE, tournamentId, [stage], backend);
+  return backend.get<CachedStandings>(key);
 }
 
 /**
- * Store standings data in the in-memory cache.
+ * Store standings data in the cache backend.
  *
  * @param tournamentId - Tournament identifier
  * @param stage        - Competition stage
@@ -64,13 +67,14 @@ async function get(tournamentId: string, stage: string): Promise<CachedStandings
  * @param etag         - Pre-computed ETag for the data
  */
 async function set(tournamentId: string, stage: string, data: unknown[], etag: string): Promise<void> {
-  const key = `${tournamentId}:${stage}`;
+  const backend = getCacheBackend();
+  const key = await tournamentCacheKey(CACHE_NAMESPACE, tournamentId, [stage], backend);
   const cacheEntry: CachedStandings = {
     data,
     lastUpdated: new Date().toISOString(),
     etag,
   };
-  standingsCache.set(key, cacheEntry);
+  await backend.set(key, cacheEntry, CACHE_TTL_MS);
 }
 
 /**
@@ -93,7 +97,7 @@ function generateETag(data: unknown[]): string {
   for (let i = 0; i < str.length; i++) {
     const char = str.charCodeAt(i);
     // DJB2 hash variant: hash * 31 + char (equivalent to (hash << 5) - hash + char)
-    hash = ((hash << 5) - hash) + char;
+    hash = (hash << 5) - hash + char;
     // Convert to 32-bit integer to prevent overflow
     hash = hash & hash;
   }
@@ -116,32 +120,31 @@ function isExpired(cacheEntry: CachedStandings): boolean {
  * Invalidate cached standings for a tournament.
  *
  * Can target a specific stage or all stages for the given tournament.
+ * Clearing all stages bumps the tournament's cache generation, so the
+ * cached overall ranking is dropped along with them.
  *
  * @param tournamentId - Tournament identifier
  * @param stage        - Optional specific stage to invalidate; if omitted, all stages are cleared
  */
 async function invalidate(tournamentId: string, stage?: string): Promise<void> {
+  const backend = getCacheBackend();
   if (stage) {
-    standingsCache.delete(`${tournamentId}:${stage}`);
+    await backend.delete(await tournamentCacheKey(CACHE_NAMESPACE, tournamentId, [stage], backend));
     log.debug(`Invalidated cache for tournament ${tournamentId}, stage ${stage}`);
   } else {
-    const keys = Array.from(standingsCache.keys());
-    keys.forEach(key => {
-      if (key.startsWith(tournamentId)) {
-        standingsCache.delete(key);
-      }
-    });
+    await bumpTournamentCacheGeneration(tournamentId, backend);
     log.debug(`Invalidated all cache for tournament ${tournamentId}`);
   }
 }
 
 /**
- * Clear the entire in-memory cache.
- * Useful for testing or full cache reset scenarios.
+ * Clear the entire in-memory cache backend.
+ * Useful for testing or full cache reset scenarios; shared backends expire
+ * their entries on their own.
  */
 function clear(): void {
   log.debug('Cleared all standings cache');
-  standingsCache.clear();
+  clearMemoryCache();
 }
 
 // Export core cache operations
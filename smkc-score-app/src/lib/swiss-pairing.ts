@@ -0,0 +1,205 @@
+/**
+ * Swiss-System Qualification Pairing
+ *
+ * Alternative to the full round-robin for large groups: instead of every
+ * player meeting every other player, each round is paired from the current
+ * standings so players with similar records meet, and qualification ends
+ * after roughly log2(N) rounds instead of N-1.
+ *
+ * Pairing rules:
+ *   - Round 1 uses the seed order split in half (seed 1 vs seed N/2+1, ...).
+ *   - Later rounds pair top-down from the standings (Monrad style): the
+ *     highest unpaired player meets the next highest player they have not
+ *     played yet, backtracking when a lower board would be left with only
+ *     rematches. Rematches are allowed only when no rematch-free pairing
+ *     exists (very late rounds in small groups).
+ *   - An odd group gives the BREAK bye to the lowest-ranked player who has
+ *     not had one yet, so byes spread across the field like the circle method.
+ *     Unlike a round-robin BREAK, a Swiss bye scores as a win with the BYE
+ *     score of the mode (countSwissByes): every player then has the same
+ *     number of rounds, so the bye receiver is not a match behind the field.
+ *   - 1P/2P sides go to whichever player has had fewer 1P starts so far,
+ *     alternating on ties — the greedy half of the circle method's balancing.
+ *     The circle method's whole-schedule swap pass has no Swiss equivalent
+ *     (later rounds are unknown), so two equally unbalanced players meeting
+ *     can drift to ±2 until the next round corrects it.
+ *
+ * The output uses RoundRobinMatch so the qualification setup code can treat a
+ * Swiss round exactly like one day of a round-robin schedule.
+ */
+
+import { BREAK_PLAYER_ID, type RoundRobinMatch } from '@/lib/round-robin';
+
+/** A previously created qualification match, as far as pairing cares. */
+export interface SwissPlayedMatch {
+  player1Id: string;
+  player2Id: string;
+  isBye?: boolean;
+}
+
+/**
+ * The matches as the standings count them in a Swiss tournament: bye rows
+ * become ordinary matches, so the player1 side is credited with the BYE
+ * score (getByeMatchData) as a win. That also covers the BREAK walkovers a
+ * no-show or a withdrawal leaves behind (qualification-no-show.ts). A
+ * schedule-only BREAK vs BREAK row still scores nobody.
+ */
+export function countSwissByes<T extends { isBye?: boolean | null }>(matches: T[]): T[] {
+  return matches.map((match) => (match.isBye ? { ...match, isBye: false } : match));
+}
+
+/* Cap on backtracking steps; past this the greedy rematch fallback is used
+ * so a pathological late round cannot stall the request. */
+const MAX_PAIRING_STEPS = 20000;
+
+/** Rounds needed to separate a single undefeated leader: ceil(log2 N). */
+export function recommendedSwissRounds(playerCount: number): number {
+  return playerCount < 2 ? 0 : Math.ceil(Math.log2(playerCount));
+}
+
+/** Rounds after which a group has necessarily met every opponent (a full round-robin). */
+export function maxSwissRounds(playerCount: number): number {
+  return playerCount % 2 === 0 ? playerCount - 1 : playerCount;
+}
+
+/** Round progress shown to admins deciding whether to pair the next round. */
+export interface SwissProgress {
+  /** Highest round created so far (0 before setup) */
+  round: number;
+  /** recommendedSwissRounds of the largest group */
+  recommendedRounds: number;
+  /** maxSwissRounds of the largest group */
+  maxRounds: number;
+  /** True when every match of the current round has a result */
+  roundComplete: boolean;
+}
+
+export function summarizeSwissProgress(
+  qualifications: ReadonlyArray<{ group?: string | null }>,
+  matches: ReadonlyArray<{ roundNumber?: unknown; completed?: unknown }>,
+): SwissProgress {
+  const groupSizes = new Map<string, number>();
+  for (const q of qualifications) {
+    const group = q.group ?? '';
+    groupSizes.set(group, (groupSizes.get(group) ?? 0) + 1);
+  }
+  const largestGroup = Math.max(0, ...groupSizes.values());
+  const round = Math.max(0, ...matches.map((m) => Number(m.roundNumber ?? 0)));
+
+  return {
+    round,
+    recommendedRounds: recommendedSwissRounds(largestGroup),
+    maxRounds: maxSwissRounds(largestGroup),
+    roundComplete: matches.every((m) => m.completed === true),
+  };
+}
+
+function pairKey(a: string, b: string): string {
+  return a < b ? `${a}|${b}` : `${b}|${a}`;
+}
+
+/**
+ * Pair one Swiss round.
+ *
+ * @param standings - Player IDs of one group, best first (seed order for round 1)
+ * @param played    - Every qualification match already created for these players
+ * @param round     - One-based round number stored as `day`/`roundNumber`
+ * @returns Matches for the round, board 1 first, bye (if any) last
+ */
+export function pairSwissRound(
+  standings: readonly string[],
+  played: readonly SwissPlayedMatch[],
+  round: number,
+): RoundRobinMatch[] {
+  const opponents = new Set<string>();
+  const hadBye = new Set<string>();
+  const firstSideStarts = new Map<string, number>(standings.map((id) => [id, 0]));
+  const realMatches = new Map<string, number>(standings.map((id) => [id, 0]));
+
+  for (const match of played) {
+    if (match.isBye || match.player1Id === BREAK_PLAYER_ID || match.player2Id === BREAK_PLAYER_ID) {
+      hadBye.add(match.player1Id === BREAK_PLAYER_ID ? match.player2Id : match.player1Id);
+      continue;
+    }
+    opponents.add(pairKey(match.player1Id, match.player2Id));
+    firstSideStarts.set(match.player1Id, (firstSideStarts.get(match.player1Id) ?? 0) + 1);
+    realMatches.set(match.player1Id, (realMatches.get(match.player1Id) ?? 0) + 1);
+    realMatches.set(match.player2Id, (realMatches.get(match.player2Id) ?? 0) + 1);
+  }
+
+  const pool = [...standings];
+  let byePlayer: string | null = null;
+  if (pool.length % 2 === 1) {
+    const byeIndex = findLastIndex(pool, (id) => !hadBye.has(id));
+    byePlayer = pool.splice(byeIndex === -1 ? pool.length - 1 : byeIndex, 1)[0];
+  }
+
+  const isFirstRound = opponents.size === 0;
+  const pairs = isFirstRound
+    ? splitPairs(pool)
+    : (pairWithoutRematches(pool, opponents) ?? greedyPairs(pool, opponents));
+
+  const matches: RoundRobinMatch[] = pairs.map(([higher, lower], board) => {
+    /* Balance = 1P starts minus 2P starts; the lower balance takes 1P. */
+    const balance = (id: string) => 2 * (firstSideStarts.get(id) ?? 0) - (realMatches.get(id) ?? 0);
+    const diff = balance(higher) - balance(lower);
+    const higherTakesFirstSide = diff === 0 ? board % 2 === 0 : diff < 0;
+    return {
+      day: round,
+      player1Id: higherTakesFirstSide ? higher : lower,
+      player2Id: higherTakesFirstSide ? lower : higher,
+      isBye: false,
+    };
+  });
+
+  if (byePlayer) {
+    matches.push({ day: round, player1Id: byePlayer, player2Id: BREAK_PLAYER_ID, isBye: true });
+  }
+  return matches;
+}
+
+function findLastIndex<T>(items: readonly T[], predicate: (item: T) => boolean): number {
+  for (let i = items.length - 1; i >= 0; i--) {
+    if (predicate(items[i])) return i;
+  }
+  return -1;
+}
+
+/* Round 1: top half meets bottom half in seed order. */
+function splitPairs(pool: readonly string[]): Array<[string, string]> {
+  const half = pool.length / 2;
+  return Array.from({ length: half }, (_, i) => [pool[i], pool[i + half]] as [string, string]);
+}
+
+/* Depth-first top-down pairing that never repeats an opponent. */
+function pairWithoutRematches(pool: readonly string[], opponents: ReadonlySet<string>): Array<[string, string]> | null {
+  let steps = 0;
+
+  const search = (remaining: string[]): Array<[string, string]> | null => {
+    if (remaining.length === 0) return [];
+    if (++steps > MAX_PAIRING_STEPS) return null;
+
+    const [top, ...rest] = remaining;
+    for (let i = 0; i < rest.length; i++) {
+      if (opponents.has(pairKey(top, rest[i]))) continue;
+      const tail = search([...rest.slice(0, i), ...rest.slice(i + 1)]);
+      if (tail) return [[top, rest[i]], ...tail];
+    }
+    return null;
+  };
+
+  return search([...pool]);
+}
+
+/* Fallback: prefer a fresh opponent per board but accept rematches. */
+function greedyPairs(pool: readonly string[], opponents: ReadonlySet<string>): Array<[string, string]> {
+  const remaining = [...pool];
+  const pairs: Array<[string, string]> = [];
+  while (remaining.length > 1) {
+    const top = remaining.shift() as string;
+    const freshIndex = remaining.findIndex((id) => !opponents.has(pairKey(top, id)));
+    const [opponent] = remaining.splice(freshIndex === -1 ? 0 : freshIndex, 1);
+    pairs.push([top, opponent]);
+  }
+  return pairs;
+}
@@ -1,3 +1,5 @@
+import type { TaFinalsRules } from '@/lib/ta/finals-rules';
+
 export const TA_HANDICAP_SECONDS = [0, -1, -3, -5] as const;
 export type TaHandicapSeconds = (typeof TA_HANDICAP_SECONDS)[number];
 
@@ -21,7 +23,21 @@ export function applyTaHandicap(timeMs: number, handicapSeconds: TaHandicapSecon
   return Math.max(0, timeMs + handicapSeconds * 1000);
 }
 
-export function getTaPhase3Rules(battleRoyaleMode: boolean): Phase3Rules {
+/**
+ * Phase 3 rules for a tournament. Standard mode takes its lives and reset
+ * thresholds from the tournament's finals rule set when one is given;
+ * battle royale always plays 10 lives without resets.
+ */
+export function getTaPhase3Rules(battleRoyaleMode: boolean, finalsRules?: TaFinalsRules | null): Phase3Rules {
+  if (!battleRoyaleMode && finalsRules) {
+    return {
+      initialLives: finalsRules.phase3.initialLives,
+      lifeResetThresholds: finalsRules.phase3.lifeResetThresholds,
+      survivorsNeeded: 1,
+      handicapEnabled: false,
+      retryAppliesHandicap: false,
+    };
+  }
   return battleRoyaleMode
     ? {
         initialLives: 10,
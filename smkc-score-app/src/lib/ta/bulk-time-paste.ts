@@ -0,0 +1,216 @@
+/**
+ * TA Bulk Time Paste
+ *
+ * Parses a block of pasted "nickname time" lines — typed by hand, read off a
+ * stream capture, or copied from a spreadsheet as tab-separated cells — into
+ * per-player times for the TA time entry forms, so a 16-player Phase 3 round
+ * does not have to be typed one TaTimeEntryRow at a time.
+ *
+ * Each line is resolved against the players the form expects:
+ * - the time is the last cell (tab-separated) or last token (space-separated)
+ *   and goes through autoFormatTime, so "12345", "1:23.45" and 1'23"45 all work
+ * - the retry penalty may be pasted as RETRY_PENALTY_DISPLAY (or anything
+ *   autoFormatTime reads as the same time) or as one of RETRY_TOKENS
+ * - the nickname is matched ignoring case, width, spaces and punctuation,
+ *   then by a unique partial match, then by a unique near miss (typo);
+ *   purely numeric cells (rank or position columns) only match exactly
+ *
+ * Nothing is saved here: callers show the rows with their errors as a
+ * preview and only hand the error-free result to the existing submit path.
+ */
+
+import { RETRY_PENALTY_DISPLAY, RETRY_PENALTY_MS } from '@/lib/constants';
+import { autoFormatTime, timeToMs } from '@/lib/ta/time-utils';
+
+/** Words accepted in place of a time for a retry (already NFKC-normalized and lowercased). */
+export const RETRY_TOKENS = ['retry', 'r', 'pass', 'リトライ'] as const;
+
+export type BulkTimePasteError =
+  'unknown_player' | 'ambiguous_player' | 'invalid_time' | 'duplicate_player' | 'retry_not_allowed';
+
+export interface BulkTimePasteCandidate {
+  playerId: string;
+  nickname: string;
+}
+
+export interface BulkTimePasteRow {
+  /** 1-based line number in the pasted text. */
+  line: number;
+  name: string;
+  timeText: string;
+  playerId: string | null;
+  nickname: string | null;
+  /** How the nickname was resolved; null when it was not. */
+  matchedBy: 'exact' | 'partial' | 'fuzzy' | null;
+  /** Normalized display time (M:SS.mm), or null when the time is invalid. */
+  time: string | null;
+  timeMs: number | null;
+  isRetry: boolean;
+  error: BulkTimePasteError | null;
+}
+
+export interface BulkTimePasteResult {
+  rows: BulkTimePasteRow[];
+  /** Expected players no valid row gave a time for. */
+  missingPlayerIds: string[];
+  hasErrors: boolean;
+}
+
+/** Case, width, whitespace and punctuation-insensitive form used for nickname matching. */
+export function normalizeNickname(value: string): string {
+  return value
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(/[\s\p{P}\p{S}]/gu, '');
+}
+
+/** Partial matches on shorter names hit too many nicknames by chance. */
+const MIN_PARTIAL_MATCH_LENGTH = 3;
+
+function levenshtein(a: string, b: string): number {
+  const previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = previous[0];
+    previous[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = previous[j];
+      previous[j] = Math.min(previous[j] + 1, previous[j - 1] + 1, diagonal + (a[i - 1] === b[j - 1] ? 0 : 1));
+      diagonal = above;
+    }
+  }
+  return previous[b.length];
+}
+
+type NicknameMatch =
+  | { kind: 'match'; candidate: BulkTimePasteCandidate; matchedBy: 'exact' | 'partial' | 'fuzzy' }
+  | { kind: 'ambiguous' }
+  | { kind: 'none' };
+
+function matchNickname(name: string, candidates: readonly BulkTimePasteCandidate[]): NicknameMatch {
+  const query = normalizeNickname(name);
+  if (!query) return { kind: 'none' };
+  const normalized = candidates.map((candidate) => ({ candidate, key: normalizeNickname(candidate.nickname) }));
+
+  const pick = (matches: typeof normalized, matchedBy: 'exact' | 'partial' | 'fuzzy'): NicknameMatch | null => {
+    if (matches.length === 1) return { kind: 'match', candidate: matches[0].candidate, matchedBy };
+    return matches.length > 1 ? { kind: 'ambiguous' } : null;
+  };
+
+  const exact = pick(
+    normalized.filter(({ key }) => key === query),
+    'exact',
+  );
+  if (exact) return exact;
+  /* A rank or position cell such as "1" would otherwise partially match any nickname containing that digit. */
+  if (/^\d+$/.test(query)) return { kind: 'none' };
+
+  const partial = pick(
+    normalized.filter(
+      ({ key }) =>
+        Math.min(key.length, query.length) >= MIN_PARTIAL_MATCH_LENGTH && (key.includes(query) || query.includes(key)),
+    ),
+    'partial',
+  );
+  if (partial) return partial;
+
+  /* Short names leave little room for typos: one edit per four characters, at most two. */
+  const maxDistance = Math.min(2, Math.floor(query.length / 4));
+  if (maxDistance === 0) return { kind: 'none' };
+  const distances = normalized.map((entry) => ({ ...entry, distance: levenshtein(query, entry.key) }));
+  const best = Math.min(...distances.map(({ distance }) => distance));
+  if (best > maxDistance) return { kind: 'none' };
+  return (
+    pick(
+      distances.filter(({ distance }) => distance === best),
+      'fuzzy',
+    ) ?? { kind: 'none' }
+  );
+}
+
+/** Splits a line into the name part(s) and the time cell. */
+function splitLine(line: string): { names: string[]; timeText: string } {
+  if (line.includes('\t')) {
+    const cells = line
+      .split('\t')
+      .map((cell) => cell.trim())
+      .filter(Boolean);
+    return { names: cells.slice(0, -1), timeText: cells.at(-1) ?? '' };
+  }
+  const tokens = line.trim().split(/\s+/);
+  if (tokens.length < 2) return { names: tokens, timeText: '' };
+  return { names: [tokens.slice(0, -1).join(' ')], timeText: tokens.at(-1)! };
+}
+
+function parseTime(text: string): { time: string; timeMs: number; isRetry: boolean } | null {
+  const normalized = text.normalize('NFKC').trim();
+  if ((RETRY_TOKENS as readonly string[]).includes(normalized.toLowerCase())) {
+    return { time: RETRY_PENALTY_DISPLAY, timeMs: RETRY_PENALTY_MS, isRetry: true };
+  }
+  /* Spreadsheets often keep the SMK notation 1'23"45. */
+  const formatted = autoFormatTime(normalized.replace(/['′]/g, ':').replace(/["″]/g, '.'));
+  const timeMs = formatted ? timeToMs(formatted) : null;
+  if (!formatted || timeMs === null) return null;
+  return timeMs === RETRY_PENALTY_MS
+    ? { time: RETRY_PENALTY_DISPLAY, timeMs, isRetry: true }
+    : { time: formatted, timeMs, isRetry: false };
+}
+
+/**
+ * Parse pasted lines into one preview row per non-blank line.
+ *
+ * @param candidates - players the form expects times for (e.g. the round's active entries)
+ * @param options.allowRetry - false where the retry penalty does not exist (qualification)
+ */
+export function parseBulkTimePaste(
+  text: string,
+  candidates: readonly BulkTimePasteCandidate[],
+  options: { allowRetry?: boolean } = {},
+): BulkTimePasteResult {
+  const allowRetry = options.allowRetry ?? true;
+  const rows: BulkTimePasteRow[] = [];
+  const seen = new Set<string>();
+
+  text.split(/\r?\n/).forEach((rawLine, index) => {
+    if (!rawLine.trim()) return;
+    const { names, timeText } = splitLine(rawLine);
+
+    /* Spreadsheet rows may carry a rank or team column; use the first cell that names a player. */
+    let name = names.join(' ');
+    let match: NicknameMatch = { kind: 'none' };
+    for (const cell of names) {
+      const cellMatch = matchNickname(cell, candidates);
+      if (cellMatch.kind === 'none') continue;
+      name = cell;
+      match = cellMatch;
+      break;
+    }
+
+    const parsedTime = parseTime(timeText);
+    let error: BulkTimePasteError | null = null;
+    if (match.kind === 'ambiguous') error = 'ambiguous_player';
+    else if (match.kind === 'none') error = 'unknown_player';
+    else if (!parsedTime) error = 'invalid_time';
+    else if (parsedTime.isRetry && !allowRetry) error = 'retry_not_allowed';
+    else if (seen.has(match.candidate.playerId)) error = 'duplicate_player';
+
+    if (match.kind === 'match' && !error) seen.add(match.candidate.playerId);
+    rows.push({
+      line: index + 1,
+      name,
+      timeText,
+      playerId: match.kind === 'match' ? match.candidate.playerId : null,
+      nickname: match.kind === 'match' ? match.candidate.nickname : null,
+      matchedBy: match.kind === 'match' ? match.matchedBy : null,
+      time: parsedTime?.time ?? null,
+      timeMs: parsedTime?.timeMs ?? null,
+      isRetry: parsedTime?.isRetry ?? false,
+      error,
+    });
+  });
+
+  return {
+    rows,
+    missingPlayerIds: candidates.map(({ playerId }) => playerId).filter((playerId) => !seen.has(playerId)),
+    hasErrors: rows.some((row) => row.error !== null),
+  };
+}
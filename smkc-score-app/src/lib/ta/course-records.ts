@@ -0,0 +1,426 @@
+/**
+ * TA Course Records
+ *
+ * Per-course bests across the whole app history, derived on read from the
+ * times TA already stores — there is no separate records table to keep in
+ * sync with corrections:
+ *   - qualification times: TTEntry.times of stage=qualification entries
+ *     (finals entries carry a copy of the same times, so they are skipped)
+ *   - finals times: results of every submitted TTPhaseRound
+ *
+ * Retries (RETRY_PENALTY_MS) are never records. Finals times use the raw
+ * driven time, before any battle royale handicap.
+ *
+ * Three bests are tracked per course (COURSE_INFO): the all-time app record,
+ * the event record of one tournament and a player's personal best.
+ * findCourseRecordBreaks tells whether a freshly recorded time improves on
+ * any of them, which drives the overlay's record call-outs.
+ *
+ * Like player-career.ts, tournaments purged from D1 are read back from their
+ * R2 archive when requested (cached per archive set), and non-admin callers
+ * only see tournaments that have published TA. `buildCourseRecords` / `findCourseRecordBreaks` are pure;
+ * `loadCourseTimes` performs the I/O.
+ */
+
+import prisma from '@/lib/prisma';
+import { createLogger } from '@/lib/logger';
+import { getCacheBackend } from '@/lib/cache-backend';
+import { digestJson } from '@/lib/digest';
+import { COURSE_INFO, COURSES, RETRY_PENALTY_MS } from '@/lib/constants';
+import { normalizeTaRoundResults } from '@/lib/ta/round-result';
+import { timeToMs } from '@/lib/ta/time-utils';
+import {
+  readTournamentArchive,
+  readTournamentArchiveIndex,
+  type TournamentArchiveBundle,
+} from '@/lib/tournament-archive';
+
+/** Keep `IN (...)` lists well under D1's bound-parameter limit. */
+const D1_IN_CHUNK_SIZE = 50;
+
+/** Lifetime of cached archive times; see ARCHIVED_CAREER_TTL_MS in player-career.ts. */
+const ARCHIVED_COURSE_TIMES_TTL_MS = 60 * 60 * 1000;
+
+/** Kinds ordered from the most to the least prominent. */
+export const COURSE_RECORD_KINDS = ['app_record', 'event_record', 'personal_best'] as const;
+export type CourseRecordKind = (typeof COURSE_RECORD_KINDS)[number];
+
+export type CourseTime = {
+  playerId: string;
+  nickname: string;
+  tournamentId: string;
+  course: string;
+  timeMs: number;
+  /** qualification, phase1, phase2 or phase3. */
+  stage: string;
+  /** TTEntry id for qualification times, TTPhaseRound id for finals times. */
+  sourceId: string;
+};
+
+export type CourseRecordTournament = {
+  id: string;
+  name: string;
+  slug: string | null;
+  date: string | Date;
+  archived: boolean;
+};
+
+export type CourseRecordHolder = {
+  playerId: string;
+  nickname: string;
+  timeMs: number;
+  stage: string;
+  tournamentId: string;
+  tournamentName: string | null;
+};
+
+export type CourseRecordRow = {
+  course: string;
+  courseName: string;
+  cup: string;
+  appRecord: CourseRecordHolder | null;
+  /** Null when no tournament was asked for or it has no time on the course. */
+  eventRecord: CourseRecordHolder | null;
+  /** Null when no player was asked for or they have no time on the course. */
+  personalBest: CourseRecordHolder | null;
+};
+
+export type CourseRecordBreak = {
+  kind: CourseRecordKind;
+  /** The best the new time beat. */
+  previous: CourseTime;
+};
+
+type QualificationEntryRow = {
+  id: string;
+  tournamentId: string;
+  playerId: string;
+  times: unknown;
+  player: { nickname: string };
+};
+
+type PhaseRoundRow = {
+  id: string;
+  tournamentId: string;
+  phase: string;
+  course: string;
+  results: unknown;
+  submittedAt: Date | string | null;
+};
+
+/** Every valid, non-retry course time of one qualification entry. */
+export function qualificationCourseTimes(entry: QualificationEntryRow): CourseTime[] {
+  const times = entry.times && typeof entry.times === 'object' ? (entry.times as Record<string, unknown>) : {};
+  return COURSES.flatMap((course): CourseTime[] => {
+    const value = times[course];
+    const timeMs = typeof value === 'string' ? timeToMs(value) : null;
+    if (timeMs === null || timeMs === RETRY_PENALTY_MS) return [];
+    return [
+      {
+        playerId: entry.playerId,
+        nickname: entry.player.nickname,
+        tournamentId: entry.tournamentId,
+        course,
+        timeMs,
+        stage: 'qualification',
+        sourceId: entry.id,
+      },
+    ];
+  });
+}
+
+/** Every non-retry result of a submitted finals round. */
+export function phaseRoundCourseTimes(round: PhaseRoundRow, nicknames: ReadonlyMap<string, string>): CourseTime[] {
+  if (!round.submittedAt) return [];
+  return normalizeTaRoundResults(round.results)
+    .filter((result) => !result.isRetry && result.rawTimeMs !== RETRY_PENALTY_MS)
+    .map((result) => ({
+      playerId: result.playerId,
+      nickname: nicknames.get(result.playerId) ?? result.playerId,
+      tournamentId: round.tournamentId,
+      course: round.course,
+      timeMs: result.rawTimeMs,
+      stage: round.phase,
+      sourceId: round.id,
+    }));
+}
+
+/** Fastest time; on a tie the one listed first keeps the record. */
+function fastest(times: readonly CourseTime[]): CourseTime | null {
+  return times.reduce<CourseTime | null>((best, time) => (!best || time.timeMs < best.timeMs ? time : best), null);
+}
+
+function isSameTime(a: CourseTime, b: CourseTime): boolean {
+  return a.sourceId === b.sourceId && a.playerId === b.playerId && a.course === b.course;
+}
+
+/**
+ * Records the time improves on, most prominent first. Only strictly faster
+ * times count, and a best has to exist already: the first time ever driven
+ * on a course is not called out as a record.
+ */
+export function findCourseRecordBreaks(time: CourseTime, history: readonly CourseTime[]): CourseRecordBreak[] {
+  const others = history.filter((other) => other.course === time.course && !isSameTime(other, time));
+  const pools: Record<CourseRecordKind, CourseTime[]> = {
+    app_record: others,
+    event_record: others.filter((other) => other.tournamentId === time.tournamentId),
+    personal_best: others.filter((other) => other.playerId === time.playerId),
+  };
+  return COURSE_RECORD_KINDS.flatMap((kind): CourseRecordBreak[] => {
+    const previous = fastest(pools[kind]);
+    return previous && time.timeMs < previous.timeMs ? [{ kind, previous }] : [];
+  });
+}
+
+/** One row per course in COURSE_INFO order. */
+export function buildCourseRecords(
+  times: readonly CourseTime[],
+  tournaments: readonly CourseRecordTournament[],
+  focus: { tournamentId?: string | null; playerId?: string | null } = {},
+): CourseRecordRow[] {
+  const tournamentNames = new Map(tournaments.map((tournament) => [tournament.id, tournament.name]));
+  const holder = (time: CourseTime | null): CourseRecordHolder | null =>
+    time && {
+      playerId: time.playerId,
+      nickname: time.nickname,
+      timeMs: time.timeMs,
+      stage: time.stage,
+      tournamentId: time.tournamentId,
+      tournamentName: tournamentNames.get(time.tournamentId) ?? null,
+    };
+
+  return COURSE_INFO.map((course) => {
+    const onCourse = times.filter((time) => time.course === course.abbr);
+    return {
+      course: course.abbr,
+      courseName: course.name,
+      cup: course.cup,
+      appRecord: holder(fastest(onCourse)),
+      eventRecord: focus.tournamentId
+        ? holder(fastest(onCourse.filter((time) => time.tournamentId === focus.tournamentId)))
+        : null,
+      personalBest: focus.playerId
+        ? holder(fastest(onCourse.filter((time) => time.playerId === focus.playerId)))
+        : null,
+    };
+  });
+}
+
+/** Course times kept in an archive bundle. */
+export function extractArchivedCourseTimes(bundle: TournamentArchiveBundle): CourseTime[] {
+  const tournamentId = bundle.tournament.id;
+  const nicknames = new Map<string, string>();
+  const times: CourseTime[] = [];
+  for (const entry of bundle.modes.ta.entries ?? []) {
+    const playerId = entry.playerId ?? entry.player?.id;
+    if (!playerId) continue;
+    if (entry.player?.nickname) nicknames.set(playerId, entry.player.nickname);
+    if ((entry.stage ?? 'qualification') !== 'qualification') continue;
+    times.push(
+      ...qualificationCourseTimes({
+        id: entry.id ?? `${tournamentId}:${playerId}`,
+        tournamentId,
+        playerId,
+        times: entry.times,
+        player: { nickname: entry.player?.nickname ?? playerId },
+      }),
+    );
+  }
+  for (const round of bundle.modes.ta.phaseRounds ?? []) {
+    if (typeof round.id !== 'string' || typeof round.phase !== 'string' || typeof round.course !== 'string') continue;
+    times.push(
+      ...phaseRoundCourseTimes(
+        {
+          id: round.id,
+          tournamentId,
+          phase: round.phase,
+          course: round.course,
+          results: round.results,
+          submittedAt: (round.submittedAt as string | null | undefined) ?? null,
+        },
+        nicknames,
+      ),
+    );
+  }
+  return times;
+}
+
+function chunk<T>(values: readonly T[], size = D1_IN_CHUNK_SIZE): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < values.length; i += size) {
+    chunks.push(values.slice(i, i + size));
+  }
+  return chunks;
+}
+
+function isTaPublic(publicModes: unknown): boolean {
+  return Array.isArray(publicModes) && publicModes.includes('ta');
+}
+
+const QUALIFICATION_ENTRY_SELECT = {
+  id: true,
+  tournamentId: true,
+  playerId: true,
+  times: true,
+  player: { select: { nickname: true } },
+} as const;
+
+/**
+ * Load course times for records.
+ *
+ * @param options.includeHidden - also read tournaments that have not published TA (admins)
+ * @param options.includeArchived - read purged tournaments back from R2; too slow for the overlay poll
+ * @param options.focusTournamentId - tournament loaded in full whatever its visibility
+ * @param options.playerIds - outside the focus tournament, only these players' times
+ * @param options.courses - only times on these courses
+ */
+export async function loadCourseTimes(options: {
+  includeHidden: boolean;
+  includeArchived: boolean;
+  focusTournamentId?: string;
+  playerIds?: readonly string[];
+  courses?: readonly string[];
+}): Promise<{ tournaments: CourseRecordTournament[]; times: CourseTime[] }> {
+  const { focusTournamentId, playerIds, courses } = options;
+
+  /* Soft-deleted tournaments are read too: they still own their archive id, so they must not be re-read from R2. */
+  const liveRows = await prisma.tournament.findMany({
+    select: { id: true, name: true, slug: true, date: true, publicModes: true, deletedAt: true },
+  });
+  const tournaments: CourseRecordTournament[] = liveRows
+    .filter(
+      (row) =>
+        row.id === focusTournamentId ||
+        (row.deletedAt === null && (options.includeHidden || isTaPublic(row.publicModes))),
+    )
+    .map(({ id, name, slug, date }) => ({ id, name, slug, date, archived: false }));
+  const visibleIds = new Set(tournaments.map((tournament) => tournament.id));
+  const playerFilter = playerIds ? new Set(playerIds) : null;
+  const courseFilter = courses ? new Set(courses) : null;
+  const keep = (time: { tournamentId: string; playerId: string; course: string }) =>
+    visibleIds.has(time.tournamentId) &&
+    (!courseFilter || courseFilter.has(time.course)) &&
+    (time.tournamentId === focusTournamentId || !playerFilter || playerFilter.has(time.playerId));
+
+  const entries: QualificationEntryRow[] = [];
+  const entryQuery = { stage: 'qualification', deletedAt: null };
+  if (playerIds) {
+    /* The focus tournament is read in full for its event records; elsewhere only the players asked for. */
+    if (focusTournamentId) {
+      entries.push(
+        ...(await prisma.tTEntry.findMany({
+          where: { ...entryQuery, tournamentId: focusTournamentId },
+          select: QUALIFICATION_ENTRY_SELECT,
+        })),
+      );
+    }
+    for (const ids of chunk(playerIds)) {
+      entries.push(
+        ...(await prisma.tTEntry.findMany({
+          where: {
+            ...entryQuery,
+            playerId: { in: ids },
+            ...(focusTournamentId && { tournamentId: { not: focusTournamentId } }),
+          },
+          select: QUALIFICATION_ENTRY_SELECT,
+        })),
+      );
+    }
+  } else {
+    for (const ids of chunk([...visibleIds])) {
+      entries.push(
+        ...(await prisma.tTEntry.findMany({
+          where: { ...entryQuery, tournamentId: { in: ids } },
+          select: QUALIFICATION_ENTRY_SELECT,
+        })),
+      );
+    }
+  }
+
+  /* Finals phases are seeded from qualification, so the players asked for
+   * only have phase times in tournaments where they have a qualification entry. */
+  const roundTournamentIds = playerIds
+    ? new Set(
+        [focusTournamentId, ...entries.map((entry) => entry.tournamentId)].filter(
+          (id): id is string => !!id && visibleIds.has(id),
+        ),
+      )
+    : visibleIds;
+  const rounds: PhaseRoundRow[] = [];
+  for (const ids of chunk([...roundTournamentIds])) {
+    rounds.push(
+      ...(await prisma.tTPhaseRound.findMany({
+        where: {
+          tournamentId: { in: ids },
+          submittedAt: { not: null },
+          ...(courses && { course: { in: [...courses] } }),
+        },
+        select: { id: true, tournamentId: true, phase: true, course: true, results: true, submittedAt: true },
+      })),
+    );
+  }
+
+  const nicknames = new Map(entries.map((entry) => [entry.playerId, entry.player.nickname]));
+  const times = [
+    ...entries.flatMap(qualificationCourseTimes),
+    ...rounds.flatMap((round) => phaseRoundCourseTimes(round, nicknames)),
+  ].filter(keep);
+
+  if (options.includeArchived) {
+    const archived = await loadArchivedCourseTimes(new Set(liveRows.map((row) => row.id)), options.includeHidden);
+    tournaments.push(...archived.tournaments);
+    times.push(
+      ...archived.times.filter(
+        (time) =>
+          (!playerFilter || playerFilter.has(time.playerId)) && (!courseFilter || courseFilter.has(time.course)),
+      ),
+    );
+  }
+
+  return { tournaments, times };
+}
+
+/**
+ * Course times of tournaments that only survive as R2 archives. The result is
+ * cached under the set of archives read (id and archive time), so R2 is only
+ * read again once a tournament is archived, re-archived or purged. Archive
+ * failures degrade to live-only records rather than failing the request.
+ */
+async function loadArchivedCourseTimes(
+  liveIds: ReadonlySet<string>,
+  includeHidden: boolean,
+): Promise<{ tournaments: CourseRecordTournament[]; times: CourseTime[] }> {
+  const logger = createLogger('ta-course-records');
+  try {
+    const index = await readTournamentArchiveIndex();
+    const candidates = index.filter((item) => !liveIds.has(item.id) && (includeHidden || isTaPublic(item.publicModes)));
+    if (candidates.length === 0) return { tournaments: [], times: [] };
+
+    const backend = getCacheBackend();
+    const archiveSet = await digestJson(candidates.map((item) => [item.id, item.archivedAt]));
+    const cacheKey = `ta-course-records:${archiveSet}`;
+    const cached = await backend.get<{ tournaments: CourseRecordTournament[]; times: CourseTime[] }>(cacheKey);
+    if (cached) return cached;
+
+    const bundles = await Promise.all(candidates.map((item) => readTournamentArchive(item.id)));
+    const present = bundles.filter((bundle): bundle is TournamentArchiveBundle => bundle !== null);
+    const archived = {
+      tournaments: present.map(({ tournament }) => ({
+        id: tournament.id,
+        name: tournament.name,
+        slug: tournament.slug,
+        date: tournament.date,
+        archived: true,
+      })),
+      times: present.flatMap(extractArchivedCourseTimes),
+    };
+    // A failed archive read would otherwise pin partial records for the TTL.
+    if (present.length === bundles.length) {
+      await backend.set(cacheKey, archived, ARCHIVED_COURSE_TIMES_TTL_MS);
+    }
+    return archived;
+  } catch (error) {
+    logger.warn('Failed to read archived tournaments for TA course records', { error });
+    return { tournaments: [], times: [] };
+  }
+}
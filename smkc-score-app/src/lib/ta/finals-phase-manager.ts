@@ -24,6 +24,11 @@
  *
  * Stage values:
  * - "qualification" -> "phase1" -> "phase2" -> "phase3"
+ *
+ * The rank bands, survivor counts, lives and reset points above are the
+ * rulebook defaults. A tournament can store its own rule set
+ * (Tournament.taFinalsRules, see finals-rules.ts), which reaches these
+ * functions through PhaseContext.taFinalsRules.
  */
 
 import { Prisma, PrismaClient, type TTEntry } from '@prisma/client';
@@ -50,39 +55,14 @@ import {
 } from '@/lib/ta/battle-royale';
 import { orderResultsWithSuddenDeathChain } from '@/lib/ta/sudden-death-order';
 import { replayPhase3Lives, type Phase3LifeAdjustmentLike, type Phase3RoundLike } from '@/lib/ta/phase3-life-replay';
+import { DEFAULT_TA_FINALS_RULES, getTaPhaseConfig, type TaFinalsRules } from '@/lib/ta/finals-rules';
 
 /**
- * Phase configuration constants defining the rules for each phase.
- * These values are derived from the official SMK tournament rulebook.
+ * Phase configuration of the SMK rulebook layout (ranks 17-24, 13-16 and
+ * 1-12; 3 lives reset at 8/4/2 players). Tournaments with their own finals
+ * rule set use getTaPhaseConfig(context.taFinalsRules) instead.
  */
-export const PHASE_CONFIG = {
-  // Phase 1: Losers Round 1 - Qualification ranks 17-24
-  phase1: {
-    qualRankStart: 17,
-    qualRankEnd: 24,
-    startingPlayers: 8,
-    survivorsNeeded: 4,
-    hasLives: false,
-  },
-  // Phase 2: Losers Round 2 - Phase 1 survivors + Qualification ranks 13-16
-  phase2: {
-    qualRankStart: 13,
-    qualRankEnd: 16,
-    startingPlayers: 8, // 4 from phase1 + 4 from qualification
-    survivorsNeeded: 4,
-    hasLives: false,
-  },
-  // Phase 3: Finals - Phase 2 survivors + Qualification ranks 1-12
-  phase3: {
-    qualRankStart: 1,
-    qualRankEnd: 12,
-    startingPlayers: 16, // 4 from phase2 + 12 from qualification
-    survivorsNeeded: 1, // Last one standing wins
-    hasLives: true,
-    initialLives: 3,
-    lifeResetThresholds: [8, 4, 2], // Reset lives when this many players remain
-  },
-} as const;
+export const PHASE_CONFIG = getTaPhaseConfig(DEFAULT_TA_FINALS_RULES);
 
 export function getNextPhase3ResetThreshold(
   activeCount: number,
@@ -119,6 +99,8 @@ export interface PhaseContext {
   ipAddress: string;
   userAgent: string;
   taBattleRoyaleMode?: boolean;
+  /** Tournament.taFinalsRules as read by readStoredTaFinalsRules; omitted = rulebook defaults. */
+  taFinalsRules?: TaFinalsRules;
 }
 
 /**
@@ -244,7 +226,7 @@ export async function promoteToPhase1(prisma: PrismaClient, context: PhaseContex
   // Logger created inside function (not module level) for proper test mocking
   const logger = createLogger('ta-phase-manager');
   const { tournamentId, userId, ipAddress, userAgent } = context;
-  const config = PHASE_CONFIG.phase1;
+  const config = getTaPhaseConfig(context.taFinalsRules).phase1;
 
   // Get qualification players ranked 17-24
   const qualifiers = await getQualificationPlayersByRank(
@@ -366,7 +348,7 @@ export async function promoteToPhase2(prisma: PrismaClient, context: PhaseContex
   // Logger created inside function for proper test mocking
   const logger = createLogger('ta-phase-manager');
   const { tournamentId, userId, ipAddress, userAgent } = context;
-  const config = PHASE_CONFIG.phase2;
+  const config = getTaPhaseConfig(context.taFinalsRules).phase2;
 
   // Get Phase 1 survivors (non-eliminated players)
   const phase1Survivors = await getActivePhasePlayers(prisma, tournamentId, 'phase1');
@@ -488,8 +470,8 @@ export async function promoteToPhase3(prisma: PrismaClient, context: PhaseContex
   // Logger created inside function for proper test mocking
   const logger = createLogger('ta-phase-manager');
   const { tournamentId, userId, ipAddress, userAgent } = context;
-  const config = PHASE_CONFIG.phase3;
-  const rules = getTaPhase3Rules(context.taBattleRoyaleMode === true);
+  const config = getTaPhaseConfig(context.taFinalsRules).phase3;
+  const rules = getTaPhase3Rules(context.taBattleRoyaleMode === true, context.taFinalsRules);
 
   const phase2Survivors = context.taBattleRoyaleMode ? [] : await getActivePhasePlayers(prisma, tournamentId, 'phase2');
 
@@ -619,7 +601,7 @@ export async function processEliminationPhaseResult(
   // Logger created inside function for proper test mocking
   const logger = createLogger('ta-phase-manager');
   const { tournamentId, userId, ipAddress, userAgent } = context;
-  const config = PHASE_CONFIG[phase];
+  const config = getTaPhaseConfig(context.taFinalsRules)[phase];
 
   // Get current active (non-eliminated) players in this phase
   const activePlayers = await getActivePhasePlayers(prisma, tournamentId, phase);
@@ -709,7 +691,7 @@ export async function processPhase3Result(
   // Logger created inside function for proper test mocking
   const logger = createLogger('ta-phase-manager');
   const { tournamentId, userId, ipAddress, userAgent } = context;
-  const rules = getTaPhase3Rules(context.taBattleRoyaleMode === true);
+  const rules = getTaPhase3Rules(context.taBattleRoyaleMode === true, context.taFinalsRules);
 
   // Get current active players in phase 3. Callers that already fetched the
   // roster (sudden-death resolution needs it for the bronze check) pass it in
@@ -1042,6 +1024,7 @@ function detectPhase3BronzeTargets(
  *   battle royale may configure a value other than the default 1 — see
  *   startPhaseRound). Determines which players are "about to hit 0 lives"
  *   for the revival-overflow and bronze-race checks below.
+ * @param finalsRules - Tournament rule set; supplies the phase1/2 survivor count.
  */
 function detectTieBreakRequired(
   phase: 'phase1' | 'phase2' | 'phase3',
@@ -1049,11 +1032,12 @@ function detectTieBreakRequired(
   activePlayers: TTEntry[],
   rules: Phase3Rules,
   lifeLoss = 1,
+  finalsRules: TaFinalsRules = DEFAULT_TA_FINALS_RULES,
 ): TieBreakDecision | null {
   if (courseResults.length < 2) return null;
 
   if (phase === 'phase1' || phase === 'phase2') {
-    const config = PHASE_CONFIG[phase];
+    const config = finalsRules[phase];
     if (activePlayers.length > 0 && activePlayers.length <= config.survivorsNeeded) {
       return null;
     }
@@ -1312,12 +1296,13 @@ export async function startPhaseRound(
   phase: 'phase1' | 'phase2' | 'phase3',
   manualCourse?: string,
   tvNumber?: number | null,
-  // Lives the bottom half loses this round (phase3 only). Defaults to 1.
+  // Lives the bottom half loses this round (phase3 only). Defaults to the
+  // rule set's phase3.lifeLoss in standard mode and 1 otherwise.
   // Range (1-9) and the "TA battle royale phase3 only" restriction are
   // enforced at the API boundary (src/app/api/.../ta/phases/route.ts), not
   // here — this function trusts its caller like every other admin-only
   // phase mutation in this module, so it stores whatever value it is given.
-  lifeLoss = 1,
+  requestedLifeLoss?: number,
 ): Promise<{
   roundNumber: number;
   course: string;
@@ -1327,6 +1312,11 @@ export async function startPhaseRound(
 }> {
   const logger = createLogger('ta-phase-manager');
   const { tournamentId, userId, ipAddress, userAgent } = context;
+  const lifeLoss =
+    requestedLifeLoss ??
+    (phase === 'phase3' && context.taBattleRoyaleMode !== true
+      ? (context.taFinalsRules ?? DEFAULT_TA_FINALS_RULES).phase3.lifeLoss
+      : 1);
 
   // Verify the phase has active players (pre-transaction guard)
   const activePlayers = await getActivePhasePlayers(prisma, tournamentId, phase);
@@ -1538,7 +1528,7 @@ export async function submitRoundResults(
   // Apply retry penalty before handicap processing. The per-tournament entry
   // snapshot is authoritative; changing Player defaults must not affect an
   // in-progress tournament.
-  const phase3Rules = getTaPhase3Rules(context.taBattleRoyaleMode === true);
+  const phase3Rules = getTaPhase3Rules(context.taBattleRoyaleMode === true, context.taFinalsRules);
   // Only phase3 rounds carry a meaningful lifeLoss; phase1/2 have no life
   // system, and the column defaults to 1 for every non-battle-royale round.
   // The `?? 1` fallback also covers rows read before this column existed.
@@ -1574,7 +1564,14 @@ export async function submitRoundResults(
   let eliminatedIds: string[] = [];
   let livesReset = false;
 
-  const tieBreak = detectTieBreakRequired(phase, processedResults, activePlayers, phase3Rules, lifeLoss);
+  const tieBreak = detectTieBreakRequired(
+    phase,
+    processedResults,
+    activePlayers,
+    phase3Rules,
+    lifeLoss,
+    context.taFinalsRules,
+  );
   if (tieBreak) {
     const suddenDeathRound = await createSuddenDeathRound(
       prisma,
@@ -1843,7 +1840,7 @@ export async function submitSuddenDeathResults(
      * exact pair, it WAS the bronze race — finalize instead of looping.
      */
     const activePlayers = await getActivePhasePlayers(prisma, tournamentId, 'phase3');
-    const phase3Rules = getTaPhase3Rules(context.taBattleRoyaleMode === true);
+    const phase3Rules = getTaPhase3Rules(context.taBattleRoyaleMode === true, context.taFinalsRules);
     // The base round's configured lifeLoss carries through every sudden death
     // spawned from it (life-loss re-run and any chained bronze race).
     const lifeLoss = suddenDeathRound.phaseRound.lifeLoss ?? 1;
@@ -2048,7 +2045,7 @@ async function restorePhaseStateBeforeRound(
     createdAt?: Date | string | null;
     suddenDeathRounds?: unknown;
   }>,
-  taBattleRoyaleMode = false,
+  rules: Phase3Rules,
 ): Promise<void> {
   if (phase === 'phase1' || phase === 'phase2') {
     // Simple undo: restore eliminated players from this round
@@ -2063,7 +2060,6 @@ async function restorePhaseStateBeforeRound(
   }
 
   // Phase 3: replay all previous rounds from initial state to reconstruct lives
-  const rules = getTaPhase3Rules(taBattleRoyaleMode);
 
   const allEntries = await prisma.tTEntry.findMany({
     where: { tournamentId, stage: 'phase3' },
@@ -2181,7 +2177,7 @@ export async function undoLastPhaseRound(
     phase,
     lastRound,
     previousRounds,
-    context.taBattleRoyaleMode,
+    getTaPhase3Rules(context.taBattleRoyaleMode === true, context.taFinalsRules),
   );
 
   // Audit log for undo operation (non-critical)
@@ -2264,7 +2260,7 @@ export async function cancelLastSubmittedPhaseRound(
     phase,
     lastRound,
     previousRounds,
-    context.taBattleRoyaleMode,
+    getTaPhase3Rules(context.taBattleRoyaleMode === true, context.taFinalsRules),
   );
 
   // Dependent data first, same ordering rationale as resetPhase: D1 has no
@@ -0,0 +1,179 @@
+/**
+ * TA Finals Rule Set
+ *
+ * Per-tournament structure of the standard (non battle royale) TA finals,
+ * stored as JSON on Tournament.taFinalsRules and edited from the TA admin
+ * page. It replaces the fixed rulebook layout (ranks 17-24 → Phase 1,
+ * 13-16 → Phase 2, 1-12 → Phase 3 with 3 lives and resets at 8/4/2) so
+ * smaller or larger events can move the cut lines, change the starting
+ * lives, make each Phase 3 round cost more than one life, or choose other
+ * reset points. The bands stop at rank TT_FINALS_MAX_FINALISTS: the CDM
+ * finals sheet only has that many rows, so a larger field could not be
+ * exported.
+ *
+ * The qualification bands must be contiguous from rank 1 (Phase 3 takes the
+ * top band, Phase 2 the next, Phase 1 the last), and every phase has to
+ * leave at least one player to advance. A tournament without a stored rule
+ * set (or with one that no longer validates) plays DEFAULT_TA_FINALS_RULES.
+ *
+ * Battle royale mode keeps its own Phase 3-only rules (getTaPhase3Rules).
+ */
+
+import { z } from 'zod';
+import { TA_ROUND_LIFE_LOSS_MAX, TA_ROUND_LIFE_LOSS_MIN } from '@/lib/ta/battle-royale-constants';
+import { TT_FINALS_MAX_FINALISTS } from '@/lib/cdm-export/cdm-constants';
+
+/** Highest qualification rank a finals band may reach. */
+export const TA_FINALS_MAX_QUALIFIED_RANK = TT_FINALS_MAX_FINALISTS;
+export const TA_FINALS_MAX_INITIAL_LIVES = 10;
+
+export type TaEliminationPhaseRules = {
+  qualRankStart: number;
+  qualRankEnd: number;
+  /** Players left when the phase ends and the survivors move on. */
+  survivorsNeeded: number;
+};
+
+export type TaLifePhaseRules = {
+  qualRankStart: number;
+  qualRankEnd: number;
+  initialLives: number;
+  /** Lives the bottom half loses in each round. */
+  lifeLoss: number;
+  /** Remaining-player counts at which every survivor is reset to initialLives, highest first. */
+  lifeResetThresholds: number[];
+};
+
+export type TaFinalsRules = {
+  phase1: TaEliminationPhaseRules;
+  phase2: TaEliminationPhaseRules;
+  phase3: TaLifePhaseRules;
+};
+
+/** The SMK rulebook layout every tournament used before rule sets existed. */
+export const DEFAULT_TA_FINALS_RULES: TaFinalsRules = {
+  phase1: { qualRankStart: 17, qualRankEnd: 24, survivorsNeeded: 4 },
+  phase2: { qualRankStart: 13, qualRankEnd: 16, survivorsNeeded: 4 },
+  phase3: { qualRankStart: 1, qualRankEnd: 12, initialLives: 3, lifeLoss: 1, lifeResetThresholds: [8, 4, 2] },
+};
+
+const rank = z.number().int().min(1).max(TA_FINALS_MAX_QUALIFIED_RANK);
+
+const EliminationPhaseSchema = z.object({
+  qualRankStart: rank,
+  qualRankEnd: rank,
+  survivorsNeeded: z.number().int().min(1),
+});
+
+export const TaFinalsRulesSchema = z
+  .object({
+    phase1: EliminationPhaseSchema,
+    phase2: EliminationPhaseSchema,
+    phase3: z.object({
+      qualRankStart: rank,
+      qualRankEnd: rank,
+      initialLives: z.number().int().min(1).max(TA_FINALS_MAX_INITIAL_LIVES),
+      lifeLoss: z.number().int().min(TA_ROUND_LIFE_LOSS_MIN).max(TA_ROUND_LIFE_LOSS_MAX),
+      lifeResetThresholds: z.array(z.number().int().min(2)).max(8),
+    }),
+  })
+  .superRefine((rules, ctx) => {
+    const issue = (path: (string | number)[], message: string) => ctx.addIssue({ code: 'custom', path, message });
+    const { phase1, phase2, phase3 } = rules;
+
+    if (phase3.qualRankStart !== 1) issue(['phase3', 'qualRankStart'], 'Phase 3 must start from qualification rank 1');
+    if (phase2.qualRankStart !== phase3.qualRankEnd + 1) {
+      issue(['phase2', 'qualRankStart'], 'Phase 2 must start right after the last Phase 3 rank');
+    }
+    if (phase1.qualRankStart !== phase2.qualRankEnd + 1) {
+      issue(['phase1', 'qualRankStart'], 'Phase 1 must start right after the last Phase 2 rank');
+    }
+    for (const phase of ['phase1', 'phase2', 'phase3'] as const) {
+      if (rules[phase].qualRankEnd < rules[phase].qualRankStart) {
+        issue([phase, 'qualRankEnd'], 'qualRankEnd must not be lower than qualRankStart');
+      }
+    }
+
+    const starting = getTaFinalsStartingPlayers(rules);
+    if (phase1.survivorsNeeded >= starting.phase1) {
+      issue(['phase1', 'survivorsNeeded'], 'Phase 1 must eliminate at least one player');
+    }
+    if (phase2.survivorsNeeded >= starting.phase2) {
+      issue(['phase2', 'survivorsNeeded'], 'Phase 2 must eliminate at least one player');
+    }
+    if (starting.phase3 < 2) issue(['phase3', 'qualRankEnd'], 'Phase 3 needs at least two players');
+
+    if (phase3.lifeLoss > phase3.initialLives) {
+      issue(['phase3', 'lifeLoss'], 'lifeLoss must not exceed initialLives');
+    }
+    const thresholds = phase3.lifeResetThresholds;
+    if (new Set(thresholds).size !== thresholds.length) {
+      issue(['phase3', 'lifeResetThresholds'], 'Reset thresholds must be unique');
+    }
+    if (thresholds.some((threshold) => threshold >= starting.phase3)) {
+      issue(['phase3', 'lifeResetThresholds'], 'Reset thresholds must be below the Phase 3 starting field');
+    }
+  })
+  .transform((rules): TaFinalsRules => ({
+    ...rules,
+    phase3: { ...rules.phase3, lifeResetThresholds: [...rules.phase3.lifeResetThresholds].sort((a, b) => b - a) },
+  }));
+
+/** Field size each phase starts with: its own band plus the previous phase's survivors. */
+export function getTaFinalsStartingPlayers(rules: TaFinalsRules) {
+  const bandSize = (phase: { qualRankStart: number; qualRankEnd: number }) =>
+    phase.qualRankEnd - phase.qualRankStart + 1;
+  const phase1 = bandSize(rules.phase1);
+  const phase2 = rules.phase1.survivorsNeeded + bandSize(rules.phase2);
+  const phase3 = rules.phase2.survivorsNeeded + bandSize(rules.phase3);
+  return { phase1, phase2, phase3 };
+}
+
+/**
+ * Rule set from an admin request. Returns the normalized rules (thresholds
+ * sorted highest first) or the first validation message with its field path.
+ */
+export function parseTaFinalsRules(
+  value: unknown,
+): { success: true; rules: TaFinalsRules } | { success: false; message: string; field: string } {
+  const parsed = TaFinalsRulesSchema.safeParse(value);
+  if (parsed.success) return { success: true, rules: parsed.data };
+  const issue = parsed.error.issues[0];
+  return { success: false, message: issue.message, field: issue.path.join('.') };
+}
+
+/** Rule set saved on Tournament.taFinalsRules, or the defaults when none (or an unreadable one) is stored. */
+export function readStoredTaFinalsRules(value: unknown): TaFinalsRules {
+  const parsed = TaFinalsRulesSchema.safeParse(value);
+  return parsed.success ? parsed.data : DEFAULT_TA_FINALS_RULES;
+}
+
+/** Per-phase view of a rule set in the PHASE_CONFIG shape the phase manager works with. */
+export function getTaPhaseConfig(rules: TaFinalsRules = DEFAULT_TA_FINALS_RULES) {
+  const starting = getTaFinalsStartingPlayers(rules);
+  return {
+    phase1: {
+      qualRankStart: rules.phase1.qualRankStart,
+      qualRankEnd: rules.phase1.qualRankEnd,
+      startingPlayers: starting.phase1,
+      survivorsNeeded: rules.phase1.survivorsNeeded,
+      hasLives: false,
+    },
+    phase2: {
+      qualRankStart: rules.phase2.qualRankStart,
+      qualRankEnd: rules.phase2.qualRankEnd,
+      startingPlayers: starting.phase2,
+      survivorsNeeded: rules.phase2.survivorsNeeded,
+      hasLives: false,
+    },
+    phase3: {
+      qualRankStart: rules.phase3.qualRankStart,
+      qualRankEnd: rules.phase3.qualRankEnd,
+      startingPlayers: starting.phase3,
+      survivorsNeeded: 1,
+      hasLives: true,
+      initialLives: rules.phase3.initialLives,
+      lifeResetThresholds: rules.phase3.lifeResetThresholds,
+    },
+  };
+}
@@ -0,0 +1,271 @@
+/**
+ * TA Finals Timeline
+ *
+ * TTEntry only holds each player's current finals state (alive, lives), so
+ * answering "was that life really lost in round 7?" means replaying the
+ * stored history: every submitted TTPhaseRound in phase order, its
+ * sudden-death chain (TTPhaseSuddenDeathRound) and the manual Phase 3 life
+ * adjustments. This module rebuilds that history as one step per submitted
+ * round, each carrying the state right after the round:
+ *
+ * - who in the phase's roster is still alive: Phase 1/2 from the cumulative
+ *   eliminatedIds, Phase 3 from replayPhase3Lives, which also gives lives
+ * - the course pool: courses adopted so far across all finals phases,
+ *   counted the way getPlayedCoursesWithSuddenDeath counts them, with the
+ *   cycle progress of getCourseCycleStatus and what is left in the cycle
+ * - the round's results and its sudden-death chain as stored
+ *
+ * The same steps are flattened to one CSV row per player per round for the
+ * dispute export (taFinalsTimelineToCsv).
+ */
+
+import { createCSV, formatTime } from '@/lib/excel';
+import { getAvailableCourses } from '@/lib/ta/course-selection';
+import { getCourseCycleStatus, type CourseCycleStatus } from '@/lib/ta/course-cycle-status';
+import { normalizeTaRoundResults } from '@/lib/ta/round-result';
+import { replayPhase3Lives, type Phase3LifeAdjustmentLike, type Phase3LifeRules } from '@/lib/ta/phase3-life-replay';
+import type { TaRoundResult } from '@/lib/ta/phase-api-types';
+import type { SuddenDeathKind } from '@/lib/ta/finals-phase-manager';
+
+const FINALS_PHASES = ['phase1', 'phase2', 'phase3'] as const;
+export type TaFinalsTimelinePhase = (typeof FINALS_PHASES)[number];
+
+export interface TimelineEntryInput {
+  playerId: string;
+  stage: string;
+  player: { nickname: string };
+}
+
+export interface TimelineSuddenDeathInput {
+  sequence: number;
+  course: string;
+  kind: string;
+  targetPlayerIds: unknown;
+  results: unknown;
+  resolved: boolean;
+}
+
+export interface TimelineRoundInput {
+  id: string;
+  phase: string;
+  roundNumber: number;
+  course: string;
+  results: unknown;
+  eliminatedIds: unknown;
+  livesReset: boolean;
+  lifeLoss: number;
+  submittedAt: Date | string | null;
+  createdAt?: Date | string | null;
+  suddenDeathRounds?: TimelineSuddenDeathInput[];
+}
+
+export interface TimelineSuddenDeath {
+  sequence: number;
+  kind: SuddenDeathKind;
+  course: string;
+  targetPlayerIds: string[];
+  /** Null while the sudden death has no results yet. */
+  results: Array<{ playerId: string; timeMs: number }> | null;
+  resolved: boolean;
+}
+
+export interface TimelinePlayerState {
+  playerId: string;
+  nickname: string;
+  alive: boolean;
+  /** Phase 3 lives after the round; null in Phase 1/2, which have no lives. */
+  lives: number | null;
+  /** The round cost this player a life (Phase 3) or the race (Phase 1/2). */
+  lifeLost: boolean;
+  eliminatedThisRound: boolean;
+}
+
+export interface TaFinalsTimelineStep {
+  /** 1-based position across all finals phases. */
+  step: number;
+  phase: TaFinalsTimelinePhase;
+  roundNumber: number;
+  course: string;
+  lifeLoss: number;
+  livesReset: boolean;
+  submittedAt: string | null;
+  results: TaRoundResult[];
+  eliminatedIds: string[];
+  suddenDeaths: TimelineSuddenDeath[];
+  /** The phase roster, alive players first, as it stood after this round. */
+  players: TimelinePlayerState[];
+  courses: CourseCycleStatus & { played: string[]; available: string[] };
+}
+
+export interface TaFinalsTimeline {
+  steps: TaFinalsTimelineStep[];
+}
+
+function toIsoString(value: Date | string | null | undefined): string | null {
+  if (!value) return null;
+  return value instanceof Date ? value.toISOString() : value;
+}
+
+function stringIds(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((id): id is string => typeof id === 'string') : [];
+}
+
+function normalizeSuddenDeath(round: TimelineSuddenDeathInput): TimelineSuddenDeath {
+  return {
+    sequence: round.sequence,
+    kind: round.kind as SuddenDeathKind,
+    course: round.course,
+    targetPlayerIds: stringIds(round.targetPlayerIds),
+    results: Array.isArray(round.results)
+      ? normalizeTaRoundResults(round.results).map(({ playerId, timeMs }) => ({ playerId, timeMs }))
+      : null,
+    resolved: round.resolved,
+  };
+}
+
+export function buildTaFinalsTimeline(input: {
+  entries: TimelineEntryInput[];
+  rounds: TimelineRoundInput[];
+  phase3Rules: Phase3LifeRules;
+  lifeAdjustments?: readonly Phase3LifeAdjustmentLike[];
+}): TaFinalsTimeline {
+  const nicknames = new Map(input.entries.map((entry) => [entry.playerId, entry.player.nickname]));
+  const rosters = new Map(
+    FINALS_PHASES.map((phase) => [
+      phase,
+      input.entries.filter((entry) => entry.stage === phase).map((entry) => entry.playerId),
+    ]),
+  );
+
+  const submitted = input.rounds
+    .filter((round) => round.submittedAt != null && FINALS_PHASES.includes(round.phase as TaFinalsTimelinePhase))
+    .map((round) => ({
+      ...round,
+      phase: round.phase as TaFinalsTimelinePhase,
+      results: normalizeTaRoundResults(round.results),
+      eliminatedIds: stringIds(round.eliminatedIds),
+      suddenDeathRounds: [...(round.suddenDeathRounds ?? [])]
+        .sort((a, b) => a.sequence - b.sequence)
+        .map(normalizeSuddenDeath),
+    }))
+    .sort((a, b) => FINALS_PHASES.indexOf(a.phase) - FINALS_PHASES.indexOf(b.phase) || a.roundNumber - b.roundNumber);
+
+  const phase3Replay = replayPhase3Lives(
+    submitted.filter((round) => round.phase === 'phase3'),
+    rosters.get('phase3') ?? [],
+    input.phase3Rules,
+    input.lifeAdjustments,
+  );
+
+  const played: string[] = [];
+  const eliminatedByPhase = new Map(FINALS_PHASES.map((phase) => [phase, new Set<string>()]));
+
+  const steps = submitted.map((round, index): TaFinalsTimelineStep => {
+    played.push(round.course);
+    for (const suddenDeath of round.suddenDeathRounds) {
+      /* A life-loss tiebreak re-runs the base course, which is already counted. */
+      if (suddenDeath.kind === 'life_loss' && suddenDeath.course === round.course) continue;
+      played.push(suddenDeath.course);
+    }
+
+    const eliminatedThisRound = new Set(round.eliminatedIds);
+    const eliminated = eliminatedByPhase.get(round.phase)!;
+    round.eliminatedIds.forEach((playerId) => eliminated.add(playerId));
+    const livesAfter = phase3Replay.roundLivesByPlayer.get(round.roundNumber);
+    const lostLife = phase3Replay.lifeLostByPlayer.get(round.roundNumber);
+
+    const players = (rosters.get(round.phase) ?? [])
+      .map((playerId): TimelinePlayerState => {
+        if (round.phase === 'phase3') {
+          const lives = livesAfter?.get(playerId) ?? input.phase3Rules.initialLives;
+          return {
+            playerId,
+            nickname: nicknames.get(playerId) ?? playerId,
+            /* A manual life adjustment can bring back a player an earlier round eliminated. */
+            alive: lives > 0,
+            lives,
+            lifeLost: lostLife?.has(playerId) ?? false,
+            eliminatedThisRound: eliminatedThisRound.has(playerId),
+          };
+        }
+        return {
+          playerId,
+          nickname: nicknames.get(playerId) ?? playerId,
+          alive: !eliminated.has(playerId),
+          lives: null,
+          lifeLost: eliminatedThisRound.has(playerId),
+          eliminatedThisRound: eliminatedThisRound.has(playerId),
+        };
+      })
+      .sort((a, b) => Number(b.alive) - Number(a.alive) || (b.lives ?? 0) - (a.lives ?? 0));
+
+    return {
+      step: index + 1,
+      phase: round.phase,
+      roundNumber: round.roundNumber,
+      course: round.course,
+      lifeLoss: round.lifeLoss,
+      livesReset: round.livesReset,
+      submittedAt: toIsoString(round.submittedAt),
+      results: round.results,
+      eliminatedIds: round.eliminatedIds,
+      suddenDeaths: round.suddenDeathRounds,
+      players,
+      courses: {
+        ...getCourseCycleStatus(played),
+        played: [...played],
+        available: getAvailableCourses(played),
+      },
+    };
+  });
+
+  return { steps };
+}
+
+/** One row per player per round, for settling disputes in a spreadsheet. */
+export function taFinalsTimelineToCsv(timeline: TaFinalsTimeline): string {
+  const headers = [
+    'Step',
+    'Phase',
+    'Round',
+    'Course',
+    'Player',
+    'Time',
+    'Retry',
+    'Life Lost',
+    'Lives After',
+    'Alive',
+    'Eliminated',
+    'Lives Reset',
+    'Sudden Death',
+  ];
+  const rows = timeline.steps.flatMap((step) => {
+    const resultByPlayer = new Map(step.results.map((result) => [result.playerId, result]));
+    return step.players.map((player) => {
+      const result = resultByPlayer.get(player.playerId);
+      const suddenDeath = step.suddenDeaths
+        .filter((round) => round.targetPlayerIds.includes(player.playerId))
+        .map((round) => {
+          const time = round.results?.find((entry) => entry.playerId === player.playerId)?.timeMs;
+          return `#${round.sequence} ${round.kind} ${round.course} ${time === undefined ? '-' : formatTime(time)}`;
+        })
+        .join(' / ');
+      return [
+        step.step,
+        step.phase,
+        step.roundNumber,
+        step.course,
+        player.nickname,
+        result ? formatTime(result.timeMs) : '',
+        result?.isRetry ? 'yes' : '',
+        player.lifeLost ? 'yes' : '',
+        player.lives ?? '',
+        player.alive ? 'yes' : 'no',
+        player.eliminatedThisRound ? 'yes' : '',
+        step.livesReset ? 'yes' : '',
+        suddenDeath,
+      ];
+    });
+  });
+  return createCSV(headers, rows);
+}
@@ -13,6 +13,7 @@
 import prisma from '@/lib/prisma';
 import { PLAYER_PUBLIC_SELECT } from '@/lib/prisma-selects';
 import { resolveTournament } from '@/lib/tournament-identifier';
+import { getApprovedRegistrationPlayerIds } from '@/lib/tournament-registration';
 
 /** Player fields exposed to the TA qualification UI. */
 export interface TaPlayer {
@@ -34,6 +35,8 @@ export interface TaInitialData {
   frozenStages: string[];
   taPlayerSelfEdit: boolean;
   taBattleRoyaleMode: boolean;
+  /** Approved self-registrations for TA, present only while the qualification roster is empty. */
+  registrationPlayerIds?: string[];
 }
 
 const KNOCKOUT_STAGES = ['phase1', 'phase2', 'phase3'] as const;
@@ -84,6 +87,8 @@ export async function fetchTaInitialData(id: string): Promise<TaInitialData | nu
         select: PLAYER_PUBLIC_SELECT,
       }),
     ]);
+    const registrationPlayerIds =
+      entries.length === 0 ? await getApprovedRegistrationPlayerIds(tournamentId, 'ta') : [];
 
     return {
       entries,
@@ -92,6 +97,7 @@ export async function fetchTaInitialData(id: string): Promise<TaInitialData | nu
       frozenStages: (tournament.frozenStages as string[]) ?? [],
       taPlayerSelfEdit: tournament.taPlayerSelfEdit ?? true,
       taBattleRoyaleMode: tournament.taBattleRoyaleMode ?? false,
+      ...(registrationPlayerIds.length > 0 && { registrationPlayerIds }),
     };
   } catch {
     // Intentionally swallowed: the client component handles data === null
@@ -0,0 +1,174 @@
+/**
+ * TA Qualification Live Leaderboard
+ *
+ * Qualification points only settle once every player has run every course:
+ * each course is scored by rank among everyone with a time on it
+ * (qualification-scoring.ts), so a time entered later can move points that
+ * were already shown. This module reads the partial `times` as they stand and
+ * reports, per player:
+ *
+ * - provisional points and rank: calculateAllCourseScores over the current
+ *   data, ordered like the stored qualification rank
+ * - a projected final-points range: on courses not yet run, anything from
+ *   last (0) to first (50); on courses already run, the current rank can only
+ *   stay or drop by the number of players still to run it
+ * - the best and worst final rank those ranges allow, and which finals cut
+ *   lines (the last rank of each finals band: 12th, 16th and 24th under the
+ *   rulebook, finals-rules.ts otherwise) the player is on the bubble of
+ *
+ * Ranges are bounded per player, treating everyone else's remaining runs
+ * independently, so they are safe but not tight: a player marked as clinched
+ * is certain, a player on the bubble might already be decided.
+ */
+
+import { COURSES } from '@/lib/constants';
+import { timeToMs } from '@/lib/ta/time-utils';
+import { calculateAllCourseScores } from '@/lib/ta/qualification-scoring';
+import { calculateEntryTotal, compareQualificationRankOrder } from '@/lib/ta/rank-calculation';
+import { DEFAULT_TA_FINALS_RULES, type TaFinalsRules } from '@/lib/ta/finals-rules';
+
+/** Qualification ranks that decide who goes where after qualification. */
+export function getTaQualificationCutLines(rules: TaFinalsRules = DEFAULT_TA_FINALS_RULES): number[] {
+  return [rules.phase3.qualRankEnd, rules.phase2.qualRankEnd, rules.phase1.qualRankEnd];
+}
+
+const MAX_COURSE_POINTS = 50;
+
+export interface LeaderboardEntryInput {
+  id: string;
+  playerId: string;
+  times: Record<string, string> | null;
+  player: { name: string; nickname: string };
+}
+
+export interface LeaderboardCourseResult {
+  entryId: string;
+  /** Competition rank among the players who have run the course. */
+  rank: number;
+  time: string;
+  /** Provisional course points at the current field size. */
+  points: number;
+}
+
+export interface LeaderboardCourse {
+  course: string;
+  results: LeaderboardCourseResult[];
+}
+
+export interface LeaderboardPlayer {
+  entryId: string;
+  playerId: string;
+  name: string;
+  nickname: string;
+  coursesRun: number;
+  provisionalRank: number;
+  provisionalPoints: number;
+  /** Projected final qualification points, worst and best case. */
+  minPoints: number;
+  maxPoints: number;
+  bestRank: number;
+  worstRank: number;
+  /** Cut lines the player can still finish on either side of. */
+  bubbleCutLines: number[];
+}
+
+export interface TaLiveLeaderboard {
+  cutLines: number[];
+  players: LeaderboardPlayer[];
+  courses: LeaderboardCourse[];
+}
+
+function coursePoints(rank: number, fieldSize: number): number {
+  if (fieldSize <= 1) return MAX_COURSE_POINTS;
+  return (MAX_COURSE_POINTS * (fieldSize - rank)) / (fieldSize - 1);
+}
+
+/** Run times of one course, fastest first, with competition ranks. */
+function rankCourse(entries: LeaderboardEntryInput[], course: string) {
+  const runs = entries
+    .map((entry) => ({ entry, time: entry.times?.[course] ?? '', timeMs: timeToMs(entry.times?.[course] ?? '') }))
+    .filter((run): run is typeof run & { timeMs: number } => run.timeMs !== null)
+    .sort((a, b) => a.timeMs - b.timeMs);
+  return runs.map((run) => ({
+    ...run,
+    rank: runs.findIndex((other) => other.timeMs === run.timeMs) + 1,
+  }));
+}
+
+export function buildTaLiveLeaderboard(
+  entries: LeaderboardEntryInput[],
+  finalsRules: TaFinalsRules = DEFAULT_TA_FINALS_RULES,
+): TaLiveLeaderboard {
+  const fieldSize = entries.length;
+  const scores = calculateAllCourseScores(entries);
+  const bounds = new Map(entries.map((entry) => [entry.id, { min: 0, max: 0, coursesRun: 0 }]));
+
+  const courses = COURSES.map((course) => {
+    const ranked = rankCourse(entries, course);
+    const stillToRun = fieldSize - ranked.length;
+    const rankByEntry = new Map(ranked.map((run) => [run.entry.id, run.rank]));
+    for (const entry of entries) {
+      const bound = bounds.get(entry.id)!;
+      const rank = rankByEntry.get(entry.id);
+      if (rank === undefined) {
+        bound.max += MAX_COURSE_POINTS;
+      } else {
+        bound.coursesRun += 1;
+        bound.max += coursePoints(rank, fieldSize);
+        bound.min += coursePoints(rank + stillToRun, fieldSize);
+      }
+    }
+    return {
+      course,
+      results: ranked.map((run) => ({
+        entryId: run.entry.id,
+        rank: run.rank,
+        time: run.time,
+        points: scores.get(run.entry.id)?.courseScores[course] ?? 0,
+      })),
+    };
+  });
+
+  const provisionalOrder = entries
+    .map((entry) => ({
+      ...calculateEntryTotal({ ...entry, lives: 0, eliminated: false }),
+      qualificationPoints: scores.get(entry.id)?.qualificationPoints ?? 0,
+    }))
+    .sort(compareQualificationRankOrder);
+  const provisionalRank = new Map(provisionalOrder.map((entry, index) => [entry.id, index + 1]));
+
+  /* Totals are rounded like the stored qualification points. */
+  const ranges = new Map(
+    entries.map((entry) => {
+      const bound = bounds.get(entry.id)!;
+      return [entry.id, { min: Math.round(bound.min), max: Math.round(bound.max) }];
+    }),
+  );
+  const cutLines = getTaQualificationCutLines(finalsRules).filter((line) => line < fieldSize);
+
+  const players = entries
+    .map((entry): LeaderboardPlayer => {
+      const own = ranges.get(entry.id)!;
+      const others = [...ranges].filter(([id]) => id !== entry.id).map(([, range]) => range);
+      /* Ties on points fall to total time, which is unknown until the end: count them against the player. */
+      const bestRank = 1 + others.filter((range) => range.min > own.max).length;
+      const worstRank = 1 + others.filter((range) => range.max >= own.min).length;
+      return {
+        entryId: entry.id,
+        playerId: entry.playerId,
+        name: entry.player.name,
+        nickname: entry.player.nickname,
+        coursesRun: bounds.get(entry.id)!.coursesRun,
+        provisionalRank: provisionalRank.get(entry.id)!,
+        provisionalPoints: scores.get(entry.id)?.qualificationPoints ?? 0,
+        minPoints: own.min,
+        maxPoints: own.max,
+        bestRank,
+        worstRank,
+        bubbleCutLines: cutLines.filter((line) => bestRank <= line && worstRank > line),
+      };
+    })
+    .sort((a, b) => a.provisionalRank - b.provisionalRank);
+
+  return { cutLines, players, courses };
+}
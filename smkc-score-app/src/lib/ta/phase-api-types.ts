@@ -1,4 +1,5 @@
 import type { TaHandicapSeconds } from '@/lib/ta/battle-royale';
+import type { TaFinalsRules } from '@/lib/ta/finals-rules';
 
 export type TaMode = 'standard' | 'battle_royale';
 
@@ -75,6 +76,8 @@ export interface TaPhaseResponse {
   taMode: TaMode;
   taBattleRoyaleMode: boolean;
   phase3Rules: Phase3RulesDto;
+  /** Standard-mode finals structure; absent in archived responses. */
+  taFinalsRules?: TaFinalsRules;
   entries?: TaPhaseEntry[];
   rounds?: TaPhaseRound[];
   lifeAdjustments?: TaPhaseLifeAdjustment[];
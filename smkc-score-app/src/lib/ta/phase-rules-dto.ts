@@ -1,12 +1,16 @@
 import { getTaPhase3Rules } from '@/lib/ta/battle-royale';
+import type { TaFinalsRules } from '@/lib/ta/finals-rules';
 import type { Phase3RulesDto, TaMode } from '@/lib/ta/phase-api-types';
 
-export function buildPhase3RulesDto(battleRoyaleMode: boolean): {
+export function buildPhase3RulesDto(
+  battleRoyaleMode: boolean,
+  finalsRules?: TaFinalsRules | null,
+): {
   taMode: TaMode;
   taBattleRoyaleMode: boolean;
   phase3Rules: Phase3RulesDto;
 } {
-  const rules = getTaPhase3Rules(battleRoyaleMode);
+  const rules = getTaPhase3Rules(battleRoyaleMode, finalsRules);
   return {
     taMode: battleRoyaleMode ? 'battle_royale' : 'standard',
     taBattleRoyaleMode: battleRoyaleMode,
@@ -2,6 +2,7 @@ import { Prisma } from '@prisma/client';
 import prisma from '@/lib/prisma';
 import type { TournamentArchiveBundle } from '@/lib/tournament-archive';
 import { retryDbRead } from '@/lib/db-read-retry';
+import { normalizeQualificationScheduleMethod } from '@/lib/round-robin';
 
 const DATE_FIELDS = new Set([
   'rankOverrideAt',
@@ -390,7 +391,9 @@ export async function restoreTournamentArchiveForReopen(bundle: TournamentArchiv
           bmFinalsSeedSnapshot: remapFinalsSeedSnapshot(bundle.tournament.bmFinalsSeedSnapshot, playerIds),
           mrFinalsSeedSnapshot: remapFinalsSeedSnapshot(bundle.tournament.mrFinalsSeedSnapshot, playerIds),
           gpFinalsSeedSnapshot: remapFinalsSeedSnapshot(bundle.tournament.gpFinalsSeedSnapshot, playerIds),
-          qualificationScheduleMethod: bundle.tournament.qualificationScheduleMethod === 'cdm' ? 'cdm' : 'circle',
+          qualificationScheduleMethod: normalizeQualificationScheduleMethod(
+            bundle.tournament.qualificationScheduleMethod,
+          ),
           publicModes: [],
           createdAt: asDate(bundle.tournament.createdAt),
           updatedAt: new Date(),
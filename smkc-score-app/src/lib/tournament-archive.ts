@@ -2,13 +2,16 @@ import { getCloudflareContext } from '@opennextjs/cloudflare';
 import type { R2Bucket } from '@cloudflare/workers-types';
 import prisma from '@/lib/prisma';
 import { PLAYER_PUBLIC_SELECT } from '@/lib/prisma-selects';
-import { computeQualificationRanks, type RankedQualification } from '@/lib/server-ranking';
+import { computeQualificationRanks, qualificationTiebreakFor, type RankedQualification } from '@/lib/server-ranking';
 import { getOverallRankings, type PlayerTournamentScore } from '@/lib/points/overall-ranking';
 import { COURSES } from '@/lib/constants';
-import { generateBracketStructure, generatePlayoffStructure, roundNames } from '@/lib/double-elimination';
+import { generatePlayoffStructure, inferFinalsBracketSize, roundNames } from '@/lib/double-elimination';
+import { getFinalsFormatFromRound, inferFinalsStructure } from '@/lib/finals-format';
 import { serializeFinalsSlots, type SlotStatusMatch } from '@/lib/finals-slot-status';
 import { TA_HANDICAP_SECONDS, getTaPhase3Rules, normalizeTaHandicapSeconds } from '@/lib/ta/battle-royale';
+import { readStoredTaFinalsRules } from '@/lib/ta/finals-rules';
 import { normalizeTaRoundResults } from '@/lib/ta/round-result';
+import { normalizeQualificationScheduleMethod } from '@/lib/round-robin';
 
 export const TOURNAMENT_ARCHIVE_SCHEMA_VERSION = 2;
 const twoPlayerQualificationOrder = () => [{ group: 'asc' }, { score: 'desc' }, { points: 'desc' }] as const;
@@ -276,7 +279,7 @@ export function normalizeTournamentArchiveBundle(value: unknown): TournamentArch
     tournament: {
       ...rawTournament,
       taBattleRoyaleMode: battleRoyale,
-      qualificationScheduleMethod: rawTournament.qualificationScheduleMethod === 'cdm' ? 'cdm' : 'circle',
+      qualificationScheduleMethod: normalizeQualificationScheduleMethod(rawTournament.qualificationScheduleMethod),
       finalsRoundSettings: Array.isArray(rawTournament.finalsRoundSettings)
         ? rawTournament.finalsRoundSettings.flatMap((value) => {
             const setting = asRecord(value);
@@ -418,13 +421,9 @@ export function getArchivedFinalsPayload(
       .filter(Boolean),
   );
   const groupCount: 2 | 3 = qualificationGroups.size === 2 ? 2 : 3;
-  const bracketSize = matches.length > 20 ? 16 : 8;
+  const bracketSize = inferFinalsBracketSize(matches.length);
   const bracketStructure =
-    matches.length > 0
-      ? bracketSize === 16
-        ? generateBracketStructure(bracketSize, groupCount)
-        : generateBracketStructure(bracketSize)
-      : [];
+    matches.length > 0 ? inferFinalsStructure(matches[0].round as string | null, matches.length, groupCount) : [];
   const playoffStructure = playoffMatches.length > 0 ? generatePlayoffStructure(12, groupCount) : [];
   const serializedMatches = serializeFinalsSlots(matches as unknown as SlotStatusMatch[], bracketStructure);
   const serializedPlayoffMatches = serializeFinalsSlots(
@@ -439,13 +438,18 @@ export function getArchivedFinalsPayload(
   const common = {
     bracketStructure,
     bracketSize,
+    finalsFormat: getFinalsFormatFromRound(matches[0]?.round as string | null | undefined),
     roundNames,
     qualificationConfirmed,
     phase,
     playoffMatches: serializedPlayoffMatches,
     playoffStructure,
     seededPlayers,
-    playoffSeededPlayers: seededPlayers.filter((entry) => entry.originalSeed >= 13 && entry.originalSeed <= 24),
+    /* Direct 24-player brackets have seeds 13-24 too, but no barrage. */
+    playoffSeededPlayers:
+      playoffMatches.length > 0
+        ? seededPlayers.filter((entry) => entry.originalSeed >= 13 && entry.originalSeed <= 24)
+        : [],
     playoffComplete,
     archived: true,
   };
@@ -569,6 +573,7 @@ export async function buildTournamentArchiveBundle(tournamentId: string): Promis
       frozenStages: true,
       taPlayerSelfEdit: true,
       taBattleRoyaleMode: true,
+      taFinalsRules: true,
       bmQualificationConfirmed: true,
       mrQualificationConfirmed: true,
       gpQualificationConfirmed: true,
@@ -651,6 +656,7 @@ export async function buildTournamentArchiveBundle(tournamentId: string): Promis
     PlayerTournamentScore[],
   ];
 
+  const tiebreak = qualificationTiebreakFor(tournament.qualificationScheduleMethod);
   const modes = {
     ta: {
       entries: ttEntries,
@@ -661,7 +667,10 @@ export async function buildTournamentArchiveBundle(tournamentId: string): Promis
       frozenStages: tournament.frozenStages,
       taPlayerSelfEdit: tournament.taPlayerSelfEdit,
       rules: (() => {
-        const rules = getTaPhase3Rules(tournament.taBattleRoyaleMode);
+        const rules = getTaPhase3Rules(
+          tournament.taBattleRoyaleMode,
+          readStoredTaFinalsRules(tournament.taFinalsRules),
+        );
         return {
           mode: (tournament.taBattleRoyaleMode ? 'battle_royale' : 'standard') as ArchivedTaRules['mode'],
           initialLives: rules.initialLives,
@@ -678,7 +687,7 @@ export async function buildTournamentArchiveBundle(tournamentId: string): Promis
         bmQualifications,
         [...twoPlayerQualificationOrder()],
         bmMatches.filter(isRankableQualificationMatch),
-        { matchScoreFields: { p1: 'score1', p2: 'score2' } },
+        { matchScoreFields: { p1: 'score1', p2: 'score2' }, tiebreak },
       ),
       matches: bmMatches,
       qualificationConfirmed: tournament.bmQualificationConfirmed,
@@ -688,7 +697,7 @@ export async function buildTournamentArchiveBundle(tournamentId: string): Promis
         mrQualifications,
         [...twoPlayerQualificationOrder()],
         mrMatches.filter(isRankableQualificationMatch),
-        { matchScoreFields: { p1: 'score1', p2: 'score2' } },
+        { matchScoreFields: { p1: 'score1', p2: 'score2' }, tiebreak },
       ),
       matches: mrMatches,
       qualificationConfirmed: tournament.mrQualificationConfirmed,
@@ -698,7 +707,7 @@ export async function buildTournamentArchiveBundle(tournamentId: string): Promis
         gpQualifications,
         [...twoPlayerQualificationOrder()],
         gpMatches.filter(isRankableQualificationMatch),
-        { matchScoreFields: GP_MATCH_SCORE_FIELDS },
+        { matchScoreFields: GP_MATCH_SCORE_FIELDS, tiebreak },
       ),
       matches: gpMatches,
       qualificationConfirmed: tournament.gpQualificationConfirmed,
@@ -0,0 +1,207 @@
+/**
+ * Tournament Event Hub
+ *
+ * Per-tournament publish/subscribe channel behind the server-sent events
+ * endpoint (`/api/tournaments/[id]/events`). Write routes publish a change
+ * notification after a successful mutation; live views that pass
+ * `streamUrl` to `usePolling` refetch as soon as one arrives instead of
+ * waiting for the next poll.
+ *
+ * Notifications carry no data, only the mode that changed, so subscribers
+ * always re-read through the regular (cached, visibility-checked) GET
+ * endpoints.
+ *
+ * Subscribers live in module memory, so direct delivery only reaches streams
+ * served by the same isolate. On Workers a write and a stream rarely share
+ * one, so every publish also records the event as a change cursor in the
+ * shared cache backend (cache-backend.ts: the D1 `CacheEntry` table or KV),
+ * and `watchTournamentChanges()` polls those cursors every CURSOR_POLL_MS
+ * to pick up writes made by other isolates. Event ids keep an event that
+ * arrives both ways from being delivered twice. With the KV backend a
+ * cursor can take up to a minute to reach other locations; clients keep a
+ * slow fallback poll for that (usePolling).
+ */
+
+import { getCacheBackend } from './cache-backend';
+import { createLogger } from './logger';
+import { resolveTournamentId } from './tournament-identifier';
+
+/** Mode whose data changed. Mode-agnostic writes publish without a scope. */
+export type TournamentChangeScope = 'ta' | 'bm' | 'mr' | 'gp';
+
+export const TOURNAMENT_CHANGE_SCOPES: readonly TournamentChangeScope[] = ['ta', 'bm', 'mr', 'gp'];
+
+/** Payload of an SSE `change` event. */
+export interface TournamentChangeEvent {
+  /** Unique per publish, so a watcher can drop an event it already delivered. */
+  id: string;
+  scope: TournamentChangeScope | null;
+  /** ISO timestamp of the publish. */
+  at: string;
+}
+
+export type TournamentChangeListener = (event: TournamentChangeEvent) => void;
+
+/** How often a watcher reads the shared change cursors. */
+export const CURSOR_POLL_MS = 5_000;
+
+/** Lifetime of a change cursor; a watcher only compares it within one stream. */
+const CURSOR_TTL_MS = 60 * 60_000;
+
+/**
+ * Cursor channels: one per mode, `global` for mode-agnostic changes and
+ * `any` for the latest change of any kind, so a scoped stream reads two
+ * cursors and an unscoped one reads one.
+ */
+type CursorChannel = TournamentChangeScope | 'global' | 'any';
+
+const log = createLogger('tournament-events');
+
+/** Listeners keyed by canonical tournament id (never the slug). */
+const listeners = new Map<string, Set<TournamentChangeListener>>();
+
+/**
+ * Subscribe to change notifications for one tournament.
+ * Returns the unsubscribe function; the tournament's entry is dropped with
+ * its last listener so idle tournaments hold no memory.
+ */
+export function subscribeTournamentChanges(tournamentId: string, listener: TournamentChangeListener): () => void {
+  let set = listeners.get(tournamentId);
+  if (!set) {
+    set = new Set();
+    listeners.set(tournamentId, set);
+  }
+  set.add(listener);
+
+  return () => {
+    const current = listeners.get(tournamentId);
+    if (!current) return;
+    current.delete(listener);
+    if (current.size === 0) listeners.delete(tournamentId);
+  };
+}
+
+function cursorKey(tournamentId: string, channel: CursorChannel): string {
+  return `events:${tournamentId}:${channel}`;
+}
+
+/**
+ * Notify every subscriber of a tournament that its data changed, then
+ * record the change cursors other isolates read. Subscribers in this
+ * isolate are called before the first await.
+ * A throwing listener (e.g. a stream that closed mid-write) is logged and
+ * does not stop delivery to the others. The cache backend fails soft, so a
+ * cursor write never fails the calling write route.
+ */
+export async function publishTournamentChange(
+  tournamentId: string,
+  scope: TournamentChangeScope | null = null,
+): Promise<void> {
+  const event: TournamentChangeEvent = {
+    id: `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`,
+    scope,
+    at: new Date().toISOString(),
+  };
+  for (const listener of [...(listeners.get(tournamentId) ?? [])]) {
+    try {
+      listener(event);
+    } catch (error) {
+      log.warn('Tournament change listener failed', { error, tournamentId, scope });
+    }
+  }
+
+  const backend = getCacheBackend();
+  await Promise.all(
+    [scope ?? 'global', 'any'].map((channel) =>
+      backend.set(cursorKey(tournamentId, channel as CursorChannel), event, CURSOR_TTL_MS),
+    ),
+  );
+}
+
+/**
+ * Follow one tournament's changes from every isolate: direct deliveries
+ * from this isolate plus the shared cursors, read every CURSOR_POLL_MS.
+ * With a scope, changes to other modes are skipped; mode-agnostic changes
+ * always pass. Cursors present when watching starts are treated as already
+ * seen. Returns the function that stops watching.
+ */
+export function watchTournamentChanges(
+  tournamentId: string,
+  scope: TournamentChangeScope | null,
+  listener: TournamentChangeListener,
+): () => void {
+  const channels: CursorChannel[] = scope ? [scope, 'global'] : ['any'];
+  const delivered = new Set<string>();
+  const lastCursor = new Map<CursorChannel, string>();
+  let stopped = false;
+
+  const deliver = (event: TournamentChangeEvent) => {
+    if (stopped || delivered.has(event.id)) return;
+    if (scope && event.scope && event.scope !== scope) return;
+    delivered.add(event.id);
+    listener(event);
+  };
+
+  const readCursors = async (initial: boolean) => {
+    const backend = getCacheBackend();
+    const cursors = await Promise.all(
+      channels.map((channel) => backend.get<TournamentChangeEvent>(cursorKey(tournamentId, channel))),
+    );
+    cursors.forEach((cursor, index) => {
+      if (!cursor || lastCursor.get(channels[index]) === cursor.id) return;
+      lastCursor.set(channels[index], cursor.id);
+      if (initial) delivered.add(cursor.id);
+      else deliver(cursor);
+    });
+  };
+  const poll = (initial: boolean) =>
+    readCursors(initial).catch((error) =>
+      log.warn('Failed to read tournament change cursors', { error, tournamentId }),
+    );
+
+  const unsubscribe = subscribeTournamentChanges(tournamentId, deliver);
+  void poll(true);
+  const timer = setInterval(() => void poll(false), CURSOR_POLL_MS);
+
+  return () => {
+    stopped = true;
+    unsubscribe();
+    clearInterval(timer);
+  };
+}
+
+/** Number of open subscriptions for a tournament. */
+export function countTournamentSubscribers(tournamentId: string): number {
+  return listeners.get(tournamentId)?.size ?? 0;
+}
+
+/** Drop every subscription. Exported for tests. */
+export function clearTournamentSubscribers(): void {
+  listeners.clear();
+}
+
+/**
+ * Wrap a write handler so every 2xx response publishes a change for the
+ * tournament in the URL. Routes with many success branches use this rather
+ * than calling `publishTournamentChange` before each return.
+ *
+ * Publishing is best effort: a failed id lookup skips the notification
+ * rather than turning a successful write into an error.
+ */
+export function withTournamentChangePublish<R extends Request, C extends { params: Promise<{ id: string }> }>(
+  scope: TournamentChangeScope | null,
+  handler: (request: R, ctx: C) => Promise<Response>,
+): (request: R, ctx: C) => Promise<Response> {
+  return async (request, ctx) => {
+    const response = await handler(request, ctx);
+    if (response && response.status >= 200 && response.status < 300) {
+      try {
+        const { id } = await ctx.params;
+        await publishTournamentChange(await resolveTournamentId(id), scope);
+      } catch {
+        /* best effort — a missed notification is covered by the fallback poll */
+      }
+    }
+    return response;
+  };
+}
@@ -0,0 +1,285 @@
+/**
+ * Tournament Self-Registration
+ *
+ * Players with an account sign up for a tournament themselves instead of
+ * the admin adding them to every mode. Sign-ups are controlled by
+ * Tournament.registrationSettings:
+ *
+ *   - open:  whether new sign-ups are accepted
+ *   - cap:   maximum number of pending + approved entries (null = no cap)
+ *   - modes: the modes a player may choose from
+ *   - checkIn: whether approved players must check in on the day before
+ *              BM/MR/GP qualification setup may include them
+ *
+ * Each sign-up is a TournamentRegistration row. It starts as `pending` for
+ * the admin to approve or reject, or as `waitlisted` when the cap is full.
+ * When an active entry is rejected or withdrawn (or the cap is raised), the
+ * oldest waitlisted entries move up to `pending`.
+ *
+ * D1 has no interactive transactions, so two simultaneous sign-ups for the
+ * last spot can both count it as free and land as pending. Each sign-up
+ * therefore re-checks its place once stored (reconcileRegistrationCap); the
+ * later of the two moves to the waitlist.
+ *
+ * Approved entries pre-fill the BM/MR/GP group setup dialog and the TA
+ * setup dialog for the modes the player chose, in sign-up order. With
+ * check-in on, only checked-in entries do, and group setup refuses approved
+ * players who have not checked in. A player who fails to show after the
+ * schedule exists is handled by qualification-no-show.ts.
+ */
+
+import prisma from '@/lib/prisma';
+import { assignGroupsBySeeding, recommendGroupCount } from '@/lib/group-utils';
+import type { GroupPreset } from '@/lib/tournament-template';
+
+type ExtendedPrismaClient = typeof prisma;
+
+export const REGISTRATION_MODES = ['ta', 'bm', 'mr', 'gp'] as const;
+export type RegistrationMode = (typeof REGISTRATION_MODES)[number];
+
+export const REGISTRATION_STATUSES = ['pending', 'approved', 'waitlisted', 'rejected'] as const;
+export type RegistrationStatus = (typeof REGISTRATION_STATUSES)[number];
+
+/** Statuses that occupy a spot under the cap. */
+const ACTIVE_STATUSES: RegistrationStatus[] = ['pending', 'approved'];
+
+export const MAX_REGISTRATION_CAP = 256;
+
+/** The group setup dialog offers two or three groups. */
+const MAX_PRESET_GROUPS = 3;
+
+export type RegistrationSettings = {
+  open: boolean;
+  /** Pending + approved entries allowed before new sign-ups are waitlisted. */
+  cap: number | null;
+  modes: RegistrationMode[];
+  checkIn: boolean;
+};
+
+export class RegistrationError extends Error {
+  constructor(
+    message: string,
+    readonly field: string,
+  ) {
+    super(message);
+    this.name = 'RegistrationError';
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+}
+
+export function isRegistrationStatus(value: unknown): value is RegistrationStatus {
+  return typeof value === 'string' && (REGISTRATION_STATUSES as readonly string[]).includes(value);
+}
+
+export function defaultRegistrationSettings(): RegistrationSettings {
+  return { open: false, cap: null, modes: [...REGISTRATION_MODES], checkIn: false };
+}
+
+/** Settings saved on Tournament.registrationSettings, or null when sign-ups were never configured (or are unreadable). */
+export function readStoredRegistrationSettings(value: unknown): RegistrationSettings | null {
+  if (!isRecord(value)) return null;
+  try {
+    return parseRegistrationSettings(value);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Validate a mode selection against the modes on offer. Duplicates are
+ * dropped and the result follows REGISTRATION_MODES order.
+ *
+ * @throws RegistrationError when the list is empty or names a mode not on offer
+ */
+export function parseRegistrationModes(
+  value: unknown,
+  allowed: readonly RegistrationMode[] = REGISTRATION_MODES,
+): RegistrationMode[] {
+  if (!Array.isArray(value) || value.length === 0) {
+    throw new RegistrationError('modes must be a non-empty array', 'modes');
+  }
+  const invalid = value.find((mode) => !allowed.includes(mode as RegistrationMode));
+  if (invalid !== undefined) {
+    throw new RegistrationError(`modes must be chosen from ${allowed.join(', ')}`, 'modes');
+  }
+  return REGISTRATION_MODES.filter((mode) => value.includes(mode));
+}
+
+/**
+ * Validate registration settings from a request body. Omitted fields fall
+ * back to `defaults` (the tournament's saved settings or the built-in ones).
+ */
+export function parseRegistrationSettings(
+  value: unknown,
+  defaults: RegistrationSettings = defaultRegistrationSettings(),
+): RegistrationSettings {
+  const input = isRecord(value) ? value : {};
+
+  const open = input.open ?? defaults.open;
+  if (typeof open !== 'boolean') {
+    throw new RegistrationError('open must be a boolean', 'open');
+  }
+
+  const cap = input.cap === undefined ? defaults.cap : input.cap;
+  if (cap !== null && (!Number.isInteger(cap) || (cap as number) < 1 || (cap as number) > MAX_REGISTRATION_CAP)) {
+    throw new RegistrationError(`cap must be null or an integer between 1 and ${MAX_REGISTRATION_CAP}`, 'cap');
+  }
+
+  const modes = parseRegistrationModes(input.modes ?? defaults.modes);
+
+  const checkIn = input.checkIn ?? defaults.checkIn;
+  if (typeof checkIn !== 'boolean') {
+    throw new RegistrationError('checkIn must be a boolean', 'checkIn');
+  }
+
+  return { open, cap: cap as number | null, modes, checkIn };
+}
+
+/** Modes stored on a registration row; unknown values are ignored. */
+export function readRegistrationModes(value: unknown): RegistrationMode[] {
+  return Array.isArray(value) ? REGISTRATION_MODES.filter((mode) => value.includes(mode)) : [];
+}
+
+async function countActiveRegistrations(tournamentId: string, client: ExtendedPrismaClient): Promise<number> {
+  return client.tournamentRegistration.count({
+    where: { tournamentId, status: { in: ACTIVE_STATUSES } },
+  });
+}
+
+/** Status a new sign-up starts with: waitlisted once the cap is full. */
+export async function initialRegistrationStatus(
+  tournamentId: string,
+  settings: RegistrationSettings,
+  client: ExtendedPrismaClient = prisma,
+): Promise<RegistrationStatus> {
+  if (settings.cap === null) return 'pending';
+  const active = await countActiveRegistrations(tournamentId, client);
+  return active < settings.cap ? 'pending' : 'waitlisted';
+}
+
+/**
+ * Re-check a freshly stored pending sign-up against the cap. Active entries
+ * are ordered by sign-up time (then id, so racing requests agree), and the
+ * entry moves to the waitlist when it falls beyond the cap.
+ *
+ * @returns the entry's status afterwards
+ */
+export async function reconcileRegistrationCap(
+  tournamentId: string,
+  registrationId: string,
+  settings: RegistrationSettings,
+  client: ExtendedPrismaClient = prisma,
+): Promise<RegistrationStatus> {
+  if (settings.cap === null) return 'pending';
+  const active = await client.tournamentRegistration.findMany({
+    where: { tournamentId, status: { in: ACTIVE_STATUSES } },
+    orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+    select: { id: true },
+  });
+  if (active.findIndex((registration) => registration.id === registrationId) < settings.cap) return 'pending';
+  await client.tournamentRegistration.updateMany({
+    where: { id: registrationId, status: 'pending' },
+    data: { status: 'waitlisted' },
+  });
+  return 'waitlisted';
+}
+
+/**
+ * Move the oldest waitlisted entries up to pending while spots are free.
+ * Called after an entry leaves the active set or the cap changes.
+ *
+ * @returns IDs of the promoted registrations
+ */
+export async function promoteWaitlistedRegistrations(
+  tournamentId: string,
+  settings: RegistrationSettings,
+  client: ExtendedPrismaClient = prisma,
+): Promise<string[]> {
+  const where = { tournamentId, status: 'waitlisted' };
+  let take: number | undefined;
+  if (settings.cap !== null) {
+    take = settings.cap - (await countActiveRegistrations(tournamentId, client));
+    if (take <= 0) return [];
+  }
+  const waitlisted = await client.tournamentRegistration.findMany({
+    where,
+    orderBy: { createdAt: 'asc' },
+    select: { id: true },
+    ...(take !== undefined && { take }),
+  });
+  if (waitlisted.length === 0) return [];
+  const ids = waitlisted.map((registration) => registration.id);
+  await client.tournamentRegistration.updateMany({
+    where: { id: { in: ids }, status: 'waitlisted' },
+    data: { status: 'pending' },
+  });
+  return ids;
+}
+
+/**
+ * Players approved for a mode, in sign-up order. While check-in is on, only
+ * players who have checked in are returned.
+ */
+export async function getApprovedRegistrationPlayerIds(
+  tournamentId: string,
+  mode: RegistrationMode,
+  client: ExtendedPrismaClient = prisma,
+): Promise<string[]> {
+  const [tournament, registrations] = await Promise.all([
+    client.tournament.findUnique({ where: { id: tournamentId }, select: { registrationSettings: true } }),
+    client.tournamentRegistration.findMany({
+      where: { tournamentId, status: 'approved', player: { deletedAt: null } },
+      orderBy: { createdAt: 'asc' },
+      select: { playerId: true, modes: true, checkedInAt: true },
+    }),
+  ]);
+  const checkIn = readStoredRegistrationSettings(tournament?.registrationSettings)?.checkIn ?? false;
+  return (registrations ?? [])
+    .filter((registration) => readRegistrationModes(registration.modes).includes(mode))
+    .filter((registration) => !checkIn || registration.checkedInAt)
+    .map((registration) => registration.playerId);
+}
+
+/**
+ * Of `playerIds`, the ones approved for `mode` who have not checked in.
+ * Players added by the admin without a registration are never reported.
+ */
+export async function getNotCheckedInPlayerIds(
+  tournamentId: string,
+  mode: RegistrationMode,
+  playerIds: string[],
+  client: ExtendedPrismaClient = prisma,
+): Promise<string[]> {
+  if (playerIds.length === 0) return [];
+  const registrations = await client.tournamentRegistration.findMany({
+    where: { tournamentId, status: 'approved', checkedInAt: null, playerId: { in: playerIds } },
+    select: { playerId: true, modes: true },
+  });
+  return (registrations ?? [])
+    .filter((registration) => readRegistrationModes(registration.modes).includes(mode))
+    .map((registration) => registration.playerId);
+}
+
+/**
+ * Spread approved players over the recommended number of groups (capped at
+ * what the setup dialog offers) in the serpentine order used for seeding.
+ * Sign-up order only decides the spread; no seeding is stored.
+ */
+export function registrationGroupPresets(playerIds: string[]): GroupPreset[] {
+  if (playerIds.length === 0) return [];
+  const groupCount = Math.min(recommendGroupCount(playerIds.length), MAX_PRESET_GROUPS);
+  const ordered = playerIds.map((playerId, index) => ({ playerId, group: 'A', seeding: index + 1 }));
+  return assignGroupsBySeeding(ordered, groupCount).map(({ playerId, group }) => ({ playerId, group }));
+}
+
+/** Group setup pre-fill for a BM/MR/GP mode from its approved registrations. */
+export async function getRegistrationGroupPresets(
+  tournamentId: string,
+  mode: RegistrationMode,
+  client: ExtendedPrismaClient = prisma,
+): Promise<GroupPreset[]> {
+  return registrationGroupPresets(await getApprovedRegistrationPlayerIds(tournamentId, mode, client));
+}
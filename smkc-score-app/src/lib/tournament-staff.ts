@@ -0,0 +1,95 @@
+/**
+ * Tournament Staff Roles
+ *
+ * Scoped operator access for event-day volunteers. Super-admins (the
+ * Discord accounts in ADMIN_DISCORD_IDS) keep full access everywhere; a
+ * `TournamentStaff` row grants one player account a role in one tournament,
+ * and the role maps to a fixed set of permissions:
+ *
+ * - STAFF:              enter and edit BM/MR/GP match scores, assign TVs
+ * - TA_OPERATOR:        run TA finals phases and edit any TA time
+ * - BROADCAST_OPERATOR: drive the broadcast overlay, assign TVs
+ *
+ * Destructive or structural actions (creating brackets, resetting phases,
+ * result overrides, tournament and player management) stay admin-only.
+ * Staff sign in with their player credentials; the grant is looked up per
+ * request, so a revoke takes effect immediately without a new login.
+ */
+
+import type { User } from 'next-auth';
+import prisma from '@/lib/prisma';
+
+export const TOURNAMENT_STAFF_ROLES = ['STAFF', 'TA_OPERATOR', 'BROADCAST_OPERATOR'] as const;
+
+export type TournamentStaffRole = (typeof TOURNAMENT_STAFF_ROLES)[number];
+
+export const TOURNAMENT_PERMISSIONS = ['scores', 'tv', 'ta', 'broadcast'] as const;
+
+export type TournamentPermission = (typeof TOURNAMENT_PERMISSIONS)[number];
+
+const ROLE_PERMISSIONS: Record<TournamentStaffRole, readonly TournamentPermission[]> = {
+  STAFF: ['scores', 'tv'],
+  TA_OPERATOR: ['ta'],
+  BROADCAST_OPERATOR: ['broadcast', 'tv'],
+};
+
+export function isTournamentStaffRole(value: unknown): value is TournamentStaffRole {
+  return typeof value === 'string' && (TOURNAMENT_STAFF_ROLES as readonly string[]).includes(value);
+}
+
+/** Permissions carried by a set of roles, without duplicates. */
+export function permissionsForRoles(roles: readonly string[]): TournamentPermission[] {
+  const granted = new Set<TournamentPermission>();
+  for (const role of roles) {
+    if (isTournamentStaffRole(role)) ROLE_PERMISSIONS[role].forEach((permission) => granted.add(permission));
+  }
+  return TOURNAMENT_PERMISSIONS.filter((permission) => granted.has(permission));
+}
+
+/** Roles that carry a permission. */
+function rolesGranting(permission: TournamentPermission): TournamentStaffRole[] {
+  return TOURNAMENT_STAFF_ROLES.filter((role) => ROLE_PERMISSIONS[role].includes(permission));
+}
+
+type SessionLike = { user?: User | null } | null | undefined;
+
+/**
+ * Every permission the session holds in a tournament. Admins hold all of
+ * them; player sessions hold those of their staff roles; anyone else none.
+ */
+export async function getTournamentPermissions(
+  session: SessionLike,
+  tournamentId: string,
+  client: typeof prisma = prisma,
+): Promise<TournamentPermission[]> {
+  if (session?.user?.role === 'admin') return [...TOURNAMENT_PERMISSIONS];
+  const playerId = session?.user?.userType === 'player' ? session.user.playerId : undefined;
+  if (!playerId) return [];
+
+  const grants = await client.tournamentStaff.findMany({
+    where: { tournamentId, playerId },
+    select: { role: true },
+  });
+  return permissionsForRoles((grants ?? []).map((grant) => grant.role));
+}
+
+/**
+ * Whether the session may perform `permission` in a tournament. Admins
+ * short-circuit without a query.
+ */
+export async function hasTournamentPermission(
+  session: SessionLike,
+  tournamentId: string,
+  permission: TournamentPermission,
+  client: typeof prisma = prisma,
+): Promise<boolean> {
+  if (session?.user?.role === 'admin') return true;
+  const playerId = session?.user?.userType === 'player' ? session.user.playerId : undefined;
+  if (!playerId) return false;
+
+  const grant = await client.tournamentStaff.findFirst({
+    where: { tournamentId, playerId, role: { in: rolesGranting(permission) } },
+    select: { id: true },
+  });
+  return Boolean(grant);
+}
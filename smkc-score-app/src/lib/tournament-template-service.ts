@@ -0,0 +1,206 @@
+import prisma from '@/lib/prisma';
+import { BREAK_PLAYER_ID } from '@/lib/round-robin';
+import { resolveTournament } from '@/lib/tournament-identifier';
+import {
+  buildTournamentSetupPresets,
+  buildTournamentTemplateConfig,
+  filterTemplateRoster,
+  getTemplateRosterPlayerIds,
+  parseTournamentTemplateConfig,
+  TEMPLATE_MODES,
+  TournamentTemplateError,
+  type TaEntryPreset,
+  type TemplateMode,
+  type TournamentSetupPresets,
+  type TournamentTemplateConfig,
+} from '@/lib/tournament-template';
+
+/* D1 bound-parameter limit is ~100 per statement (#736); TTEntry rows bind 7 values. */
+const TA_ENTRY_CHUNK = 14;
+
+const QUALIFICATION_MODELS = {
+  bm: 'bMQualification',
+  mr: 'mRQualification',
+  gp: 'gPQualification',
+} as const;
+
+const MATCH_MODELS = {
+  bm: 'bMMatch',
+  mr: 'mRMatch',
+  gp: 'gPMatch',
+} as const;
+
+/* Only the columns each mode stores a preset in; scores are never selected. */
+const PRESET_MATCH_SELECT: Record<TemplateMode, Record<string, boolean>> = {
+  bm: { stage: true, round: true, matchNumber: true, startingCourseNumber: true },
+  mr: { stage: true, round: true, matchNumber: true, assignedCourses: true },
+  gp: { stage: true, round: true, matchNumber: true, assignedCups: true },
+};
+
+type FindManyDelegate = { findMany: (args: Record<string, unknown>) => Promise<Array<Record<string, unknown>>> };
+
+function delegate(name: string): FindManyDelegate {
+  return (prisma as unknown as Record<string, FindManyDelegate>)[name];
+}
+
+/**
+ * Build a template from a past tournament (id or slug). Reads configuration
+ * and, when requested, the roster; score columns are never loaded.
+ */
+export async function buildTemplateFromTournament(
+  identifier: string,
+  options: { includeRoster: boolean },
+): Promise<TournamentTemplateConfig> {
+  const tournament = await resolveTournament(identifier, {
+    id: true,
+    dualReportEnabled: true,
+    taPlayerSelfEdit: true,
+    taBattleRoyaleMode: true,
+    qualificationScheduleMethod: true,
+    overlayLayout: true,
+  });
+  if (!tournament) {
+    throw new TournamentTemplateError('Source tournament not found', 'TEMPLATE_SOURCE_NOT_FOUND');
+  }
+  const tournamentId = tournament.id as string;
+
+  const finalsRoundSettings = await prisma.finalsRoundSetting.findMany({
+    where: { tournamentId },
+    select: { mode: true, stage: true, round: true, targetWins: true },
+  });
+
+  const finalsMatches = [];
+  for (const mode of TEMPLATE_MODES) {
+    const rows = await delegate(MATCH_MODELS[mode]).findMany({
+      where: { tournamentId, stage: { in: ['finals', 'playoff'] } },
+      select: PRESET_MATCH_SELECT[mode],
+    });
+    finalsMatches.push(
+      ...rows.map((row) => ({
+        mode,
+        stage: row.stage as string,
+        round: (row.round as string | null) ?? null,
+        matchNumber: row.matchNumber as number,
+        assignedCourses: row.assignedCourses,
+        assignedCups: row.assignedCups,
+        startingCourseNumber: (row.startingCourseNumber as number | null | undefined) ?? null,
+      })),
+    );
+  }
+
+  const qualifications = [];
+  let taEntries: Array<{
+    playerId: string;
+    seeding: number | null;
+    partnerId: string | null;
+    taHandicapSeconds: number;
+  }> = [];
+  if (options.includeRoster) {
+    for (const mode of TEMPLATE_MODES) {
+      const rows = await delegate(QUALIFICATION_MODELS[mode]).findMany({
+        where: { tournamentId, deletedAt: null, playerId: { not: BREAK_PLAYER_ID } },
+        select: { playerId: true, group: true, seeding: true },
+      });
+      qualifications.push(
+        ...rows.map((row) => ({
+          mode,
+          playerId: row.playerId as string,
+          group: row.group as string,
+          seeding: (row.seeding as number | null) ?? null,
+        })),
+      );
+    }
+    taEntries = await prisma.tTEntry.findMany({
+      where: { tournamentId, stage: 'qualification', deletedAt: null },
+      select: { playerId: true, seeding: true, partnerId: true, taHandicapSeconds: true },
+    });
+  }
+
+  return buildTournamentTemplateConfig(
+    {
+      tournament: {
+        dualReportEnabled: tournament.dualReportEnabled,
+        taPlayerSelfEdit: tournament.taPlayerSelfEdit,
+        taBattleRoyaleMode: tournament.taBattleRoyaleMode,
+        qualificationScheduleMethod: tournament.qualificationScheduleMethod,
+        overlayLayout: tournament.overlayLayout,
+      },
+      finalsRoundSettings,
+      finalsMatches,
+      qualifications,
+      taEntries,
+    },
+    options,
+  );
+}
+
+export type PreparedTournamentTemplate = {
+  config: TournamentTemplateConfig;
+  setupPresets: TournamentSetupPresets | null;
+  /** TA entries to create once the tournament exists (empty unless copying the roster). */
+  taEntries: TaEntryPreset[];
+};
+
+/**
+ * Resolve the template a new tournament starts from. Roster players that no
+ * longer exist are dropped; without copyRoster the roster is ignored.
+ */
+export async function prepareTournamentTemplate(params: {
+  templateId?: string;
+  sourceTournamentId?: string;
+  copyRoster: boolean;
+}): Promise<PreparedTournamentTemplate> {
+  let config: TournamentTemplateConfig;
+  if (params.templateId) {
+    const template = await prisma.tournamentTemplate.findUnique({
+      where: { id: params.templateId },
+      select: { config: true },
+    });
+    if (!template) throw new TournamentTemplateError('Tournament template not found', 'TEMPLATE_NOT_FOUND');
+    config = parseTournamentTemplateConfig(template.config);
+  } else if (params.sourceTournamentId) {
+    config = await buildTemplateFromTournament(params.sourceTournamentId, { includeRoster: params.copyRoster });
+  } else {
+    throw new TournamentTemplateError('templateId or sourceTournamentId is required', 'TEMPLATE_SOURCE_REQUIRED');
+  }
+
+  if (!params.copyRoster || !config.roster) {
+    return { config, setupPresets: buildTournamentSetupPresets(config, { copyRoster: false }), taEntries: [] };
+  }
+
+  const rosterPlayerIds = getTemplateRosterPlayerIds(config);
+  const existing =
+    rosterPlayerIds.length > 0
+      ? await prisma.player.findMany({
+          where: { id: { in: rosterPlayerIds }, deletedAt: null },
+          select: { id: true },
+        })
+      : [];
+  const roster = filterTemplateRoster(config.roster, new Set(existing.map((player) => player.id)));
+  const filtered = { ...config, roster };
+  return {
+    config: filtered,
+    setupPresets: buildTournamentSetupPresets(filtered, { copyRoster: true }),
+    taEntries: roster.taEntries,
+  };
+}
+
+/**
+ * Register the copied TA roster in the new tournament the same way the TA
+ * "add players" flow does: qualification entries with empty times.
+ */
+export async function createTemplateTaEntries(tournamentId: string, entries: TaEntryPreset[]): Promise<number> {
+  const data = entries.map((entry) => ({
+    tournamentId,
+    playerId: entry.playerId,
+    stage: 'qualification',
+    times: {},
+    seeding: entry.seeding,
+    partnerId: entry.partnerId,
+    taHandicapSeconds: entry.taHandicapSeconds,
+  }));
+  for (let i = 0; i < data.length; i += TA_ENTRY_CHUNK) {
+    await prisma.tTEntry.createMany({ data: data.slice(i, i + TA_ENTRY_CHUNK) });
+  }
+  return data.length;
+}
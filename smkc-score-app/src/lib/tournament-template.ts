@@ -0,0 +1,376 @@
+/**
+ * Tournament Templates
+ *
+ * Monthly events are set up almost identically, so a new tournament can start
+ * from a past tournament or from a saved named template instead of defaults.
+ * A template captures:
+ *
+ *   - tournament settings (dual report, TA self edit, TA mode, schedule method)
+ *   - the overlay layout
+ *   - per-round finals presets: First-To values (FinalsRoundSetting), MR
+ *     course lists, GP cup sequences and BM starting courses
+ *   - optionally the roster: BM/MR/GP group assignments and TA entries
+ *
+ * Scores, times and match results are never part of a template.
+ *
+ * Finals presets and group assignments cannot be written as rows up front:
+ * bracket creation replaces FinalsRoundSetting rows, and qualification setup
+ * generates the round-robin schedule from the group form. They are stored on
+ * Tournament.setupPresets instead; bracket creation applies the finals presets
+ * and the group setup dialog opens pre-filled with the group presets.
+ *
+ * This module is pure; tournament-template-service.ts loads and writes rows.
+ */
+import { COURSES, CUPS, SUPPORTED_QUALIFICATION_GROUPS } from '@/lib/constants';
+import { normalizeOverlayBroadcastLayout, type OverlayBroadcastLayout } from '@/lib/overlay/layout';
+import { normalizeTaHandicapSeconds, type TaHandicapSeconds } from '@/lib/ta/battle-royale';
+import { normalizeQualificationScheduleMethod, type QualificationScheduleMethod } from '@/lib/round-robin';
+
+export const TOURNAMENT_TEMPLATE_VERSION = 1;
+export const TOURNAMENT_TEMPLATE_NAME_MAX_LENGTH = 100;
+
+export const TEMPLATE_MODES = ['bm', 'mr', 'gp'] as const;
+export type TemplateMode = (typeof TEMPLATE_MODES)[number];
+
+const PRESET_STAGES = ['finals', 'playoff'] as const;
+export type FinalsPresetStage = (typeof PRESET_STAGES)[number];
+
+const MAX_PRESET_TARGET_WINS = 99;
+
+export type FinalsRoundPreset = {
+  mode: TemplateMode;
+  stage: FinalsPresetStage;
+  round: string;
+  targetWins?: number;
+  /** MR: course list shared by every match in the round. */
+  assignedCourses?: string[];
+  /** GP: cup sequence of the first match in the round. */
+  assignedCups?: string[];
+  /** BM: starting Battle Course (1-4) shared by the round. */
+  startingCourseNumber?: number;
+};
+
+export type GroupPreset = {
+  playerId: string;
+  group: string;
+  seeding?: number;
+};
+
+export type TaEntryPreset = {
+  playerId: string;
+  seeding: number | null;
+  partnerId: string | null;
+  taHandicapSeconds: TaHandicapSeconds;
+};
+
+export type TournamentTemplateSettings = {
+  dualReportEnabled: boolean;
+  taPlayerSelfEdit: boolean;
+  taBattleRoyaleMode: boolean;
+  qualificationScheduleMethod: QualificationScheduleMethod;
+};
+
+export type TournamentTemplateRoster = {
+  groups: Record<TemplateMode, GroupPreset[]>;
+  taEntries: TaEntryPreset[];
+};
+
+export type TournamentTemplateConfig = {
+  version: typeof TOURNAMENT_TEMPLATE_VERSION;
+  settings: TournamentTemplateSettings;
+  overlayLayout: OverlayBroadcastLayout;
+  finalsRounds: FinalsRoundPreset[];
+  roster: TournamentTemplateRoster | null;
+};
+
+/** Shape of Tournament.setupPresets. */
+export type TournamentSetupPresets = {
+  finalsRounds: FinalsRoundPreset[];
+  groups: Record<TemplateMode, GroupPreset[]>;
+};
+
+/** Rows of a past tournament that a template is built from. */
+export type TournamentTemplateSource = {
+  tournament: TournamentTemplateSettings & { overlayLayout: unknown };
+  finalsRoundSettings: Array<{ mode: string; stage: string; round: string; targetWins: number }>;
+  finalsMatches: Array<{
+    mode: TemplateMode;
+    stage: string;
+    round: string | null;
+    matchNumber: number;
+    assignedCourses?: unknown;
+    assignedCups?: unknown;
+    startingCourseNumber?: number | null;
+  }>;
+  qualifications: Array<{ mode: TemplateMode; playerId: string; group: string; seeding: number | null }>;
+  taEntries: Array<{ playerId: string; seeding: number | null; partnerId: string | null; taHandicapSeconds: number }>;
+};
+
+export class TournamentTemplateError extends Error {
+  constructor(
+    message: string,
+    readonly code: string,
+  ) {
+    super(message);
+    this.name = 'TournamentTemplateError';
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+}
+
+function isTemplateMode(value: unknown): value is TemplateMode {
+  return TEMPLATE_MODES.includes(value as TemplateMode);
+}
+
+function isPresetStage(value: unknown): value is FinalsPresetStage {
+  return PRESET_STAGES.includes(value as FinalsPresetStage);
+}
+
+function isPositiveInteger(value: unknown, max = Number.MAX_SAFE_INTEGER): value is number {
+  return Number.isInteger(value) && (value as number) >= 1 && (value as number) <= max;
+}
+
+function normalizeCourses(value: unknown): string[] | undefined {
+  if (!Array.isArray(value) || value.length === 0) return undefined;
+  return value.every((course) => COURSES.includes(course as (typeof COURSES)[number]))
+    ? (value as string[])
+    : undefined;
+}
+
+function normalizeCups(value: unknown): string[] | undefined {
+  if (!Array.isArray(value) || value.length === 0) return undefined;
+  return value.every((cup) => CUPS.includes(cup as (typeof CUPS)[number])) ? (value as string[]) : undefined;
+}
+
+function emptyGroups(): Record<TemplateMode, GroupPreset[]> {
+  return { bm: [], mr: [], gp: [] };
+}
+
+function presetKey(preset: { mode: string; stage: string; round: string }): string {
+  return `${preset.mode}\u0000${preset.stage}\u0000${preset.round}`;
+}
+
+function normalizeFinalsRoundPreset(value: unknown): FinalsRoundPreset | null {
+  if (!isRecord(value)) return null;
+  const { mode, stage, round } = value;
+  if (!isTemplateMode(mode) || !isPresetStage(stage) || typeof round !== 'string' || !round) return null;
+  const preset: FinalsRoundPreset = { mode, stage, round };
+  if (isPositiveInteger(value.targetWins, MAX_PRESET_TARGET_WINS)) preset.targetWins = value.targetWins;
+  const courses = mode === 'mr' ? normalizeCourses(value.assignedCourses) : undefined;
+  if (courses) preset.assignedCourses = courses;
+  const cups = mode === 'gp' ? normalizeCups(value.assignedCups) : undefined;
+  if (cups) preset.assignedCups = cups;
+  if (mode === 'bm' && isPositiveInteger(value.startingCourseNumber, 4)) {
+    preset.startingCourseNumber = value.startingCourseNumber;
+  }
+  const hasPreset =
+    preset.targetWins !== undefined ||
+    preset.assignedCourses !== undefined ||
+    preset.assignedCups !== undefined ||
+    preset.startingCourseNumber !== undefined;
+  return hasPreset ? preset : null;
+}
+
+function normalizeFinalsRoundPresets(value: unknown): FinalsRoundPreset[] {
+  if (!Array.isArray(value)) return [];
+  const byKey = new Map<string, FinalsRoundPreset>();
+  for (const item of value) {
+    const preset = normalizeFinalsRoundPreset(item);
+    if (preset && !byKey.has(presetKey(preset))) byKey.set(presetKey(preset), preset);
+  }
+  return [...byKey.values()];
+}
+
+function normalizeGroupPresets(value: unknown): GroupPreset[] {
+  if (!Array.isArray(value)) return [];
+  const seen = new Set<string>();
+  const presets: GroupPreset[] = [];
+  for (const item of value) {
+    if (!isRecord(item) || typeof item.playerId !== 'string' || seen.has(item.playerId)) continue;
+    if (!(SUPPORTED_QUALIFICATION_GROUPS as readonly string[]).includes(item.group as string)) continue;
+    seen.add(item.playerId);
+    presets.push({
+      playerId: item.playerId,
+      group: item.group as string,
+      ...(isPositiveInteger(item.seeding) && { seeding: item.seeding }),
+    });
+  }
+  return presets;
+}
+
+function normalizeGroups(value: unknown): Record<TemplateMode, GroupPreset[]> {
+  const input = isRecord(value) ? value : {};
+  return {
+    bm: normalizeGroupPresets(input.bm),
+    mr: normalizeGroupPresets(input.mr),
+    gp: normalizeGroupPresets(input.gp),
+  };
+}
+
+function normalizeTaEntryPresets(value: unknown): TaEntryPreset[] {
+  if (!Array.isArray(value)) return [];
+  const entries = new Map<string, TaEntryPreset>();
+  for (const item of value) {
+    if (!isRecord(item) || typeof item.playerId !== 'string' || entries.has(item.playerId)) continue;
+    entries.set(item.playerId, {
+      playerId: item.playerId,
+      seeding: isPositiveInteger(item.seeding) ? item.seeding : null,
+      partnerId: typeof item.partnerId === 'string' ? item.partnerId : null,
+      taHandicapSeconds: normalizeTaHandicapSeconds(item.taHandicapSeconds),
+    });
+  }
+  // A partner outside the copied roster would point at a player who is not entered.
+  return [...entries.values()].map((entry) =>
+    entry.partnerId && !entries.has(entry.partnerId) ? { ...entry, partnerId: null } : entry,
+  );
+}
+
+function normalizeSettings(value: unknown): TournamentTemplateSettings {
+  const input = isRecord(value) ? value : {};
+  return {
+    dualReportEnabled: input.dualReportEnabled === true,
+    taPlayerSelfEdit: input.taPlayerSelfEdit !== false,
+    taBattleRoyaleMode: input.taBattleRoyaleMode === true,
+    qualificationScheduleMethod: normalizeQualificationScheduleMethod(input.qualificationScheduleMethod),
+  };
+}
+
+/**
+ * Build a template from a past tournament. Finals presets take the First-To
+ * value from FinalsRoundSetting (rounds the admin changed explicitly) and the
+ * course/cup/starting-course assignment from the first match of each round.
+ */
+export function buildTournamentTemplateConfig(
+  source: TournamentTemplateSource,
+  options: { includeRoster: boolean },
+): TournamentTemplateConfig {
+  const rounds = new Map<string, Record<string, unknown>>();
+  const roundFor = (mode: string, stage: string, round: string) => {
+    const key = presetKey({ mode, stage, round });
+    const existing = rounds.get(key);
+    if (existing) return existing;
+    const created: Record<string, unknown> = { mode, stage, round };
+    rounds.set(key, created);
+    return created;
+  };
+
+  const matches = [...source.finalsMatches].sort((a, b) => a.matchNumber - b.matchNumber);
+  for (const match of matches) {
+    if (!match.round || !isPresetStage(match.stage)) continue;
+    const preset = roundFor(match.mode, match.stage, match.round);
+    if (match.mode === 'mr' && preset.assignedCourses === undefined) preset.assignedCourses = match.assignedCourses;
+    if (match.mode === 'gp' && preset.assignedCups === undefined) preset.assignedCups = match.assignedCups;
+    if (match.mode === 'bm' && preset.startingCourseNumber === undefined) {
+      preset.startingCourseNumber = match.startingCourseNumber;
+    }
+  }
+  for (const setting of source.finalsRoundSettings) {
+    roundFor(setting.mode, setting.stage, setting.round).targetWins = setting.targetWins;
+  }
+
+  const groups = emptyGroups();
+  for (const qualification of source.qualifications) {
+    groups[qualification.mode].push({
+      playerId: qualification.playerId,
+      group: qualification.group,
+      ...(qualification.seeding !== null && { seeding: qualification.seeding }),
+    });
+  }
+
+  return {
+    version: TOURNAMENT_TEMPLATE_VERSION,
+    settings: normalizeSettings(source.tournament),
+    overlayLayout: normalizeOverlayBroadcastLayout(source.tournament.overlayLayout),
+    finalsRounds: normalizeFinalsRoundPresets([...rounds.values()]),
+    roster: options.includeRoster
+      ? {
+          groups: normalizeGroups(groups),
+          taEntries: normalizeTaEntryPresets(source.taEntries),
+        }
+      : null,
+  };
+}
+
+/** Validate a stored template. Unknown or malformed entries are dropped. */
+export function parseTournamentTemplateConfig(value: unknown): TournamentTemplateConfig {
+  if (!isRecord(value) || value.version !== TOURNAMENT_TEMPLATE_VERSION) {
+    throw new TournamentTemplateError('Unsupported tournament template format', 'TEMPLATE_INVALID');
+  }
+  const roster = isRecord(value.roster)
+    ? { groups: normalizeGroups(value.roster.groups), taEntries: normalizeTaEntryPresets(value.roster.taEntries) }
+    : null;
+  return {
+    version: TOURNAMENT_TEMPLATE_VERSION,
+    settings: normalizeSettings(value.settings),
+    overlayLayout: normalizeOverlayBroadcastLayout(value.overlayLayout),
+    finalsRounds: normalizeFinalsRoundPresets(value.finalsRounds),
+    roster,
+  };
+}
+
+/** Player IDs a template's roster refers to, for existence checks on apply. */
+export function getTemplateRosterPlayerIds(config: TournamentTemplateConfig): string[] {
+  if (!config.roster) return [];
+  const ids = new Set<string>();
+  for (const mode of TEMPLATE_MODES) {
+    for (const preset of config.roster.groups[mode]) ids.add(preset.playerId);
+  }
+  for (const entry of config.roster.taEntries) ids.add(entry.playerId);
+  return [...ids].sort();
+}
+
+/**
+ * Drop roster players that no longer exist (deleted or merged away) so a
+ * template saved months ago never references a missing player.
+ */
+export function filterTemplateRoster(
+  roster: TournamentTemplateRoster,
+  existingPlayerIds: ReadonlySet<string>,
+): TournamentTemplateRoster {
+  return {
+    groups: {
+      bm: roster.groups.bm.filter((preset) => existingPlayerIds.has(preset.playerId)),
+      mr: roster.groups.mr.filter((preset) => existingPlayerIds.has(preset.playerId)),
+      gp: roster.groups.gp.filter((preset) => existingPlayerIds.has(preset.playerId)),
+    },
+    taEntries: normalizeTaEntryPresets(roster.taEntries.filter((entry) => existingPlayerIds.has(entry.playerId))),
+  };
+}
+
+/** Presets stored on the new tournament. Returns null when there is nothing to store. */
+export function buildTournamentSetupPresets(
+  config: TournamentTemplateConfig,
+  options: { copyRoster: boolean },
+): TournamentSetupPresets | null {
+  const groups = options.copyRoster && config.roster ? config.roster.groups : emptyGroups();
+  const hasGroups = TEMPLATE_MODES.some((mode) => groups[mode].length > 0);
+  if (config.finalsRounds.length === 0 && !hasGroups) return null;
+  return { finalsRounds: config.finalsRounds, groups };
+}
+
+/** Finals presets for one mode and stage, keyed by round. */
+export function getFinalsRoundPresets(
+  setupPresets: unknown,
+  mode: TemplateMode,
+  stage: FinalsPresetStage,
+): Map<string, FinalsRoundPreset> {
+  const presets = isRecord(setupPresets) ? normalizeFinalsRoundPresets(setupPresets.finalsRounds) : [];
+  return new Map(
+    presets.filter((preset) => preset.mode === mode && preset.stage === stage).map((preset) => [preset.round, preset]),
+  );
+}
+
+/** Group assignments the setup dialog opens with while a mode has no qualification rows. */
+export function getGroupPresets(setupPresets: unknown, mode: TemplateMode): GroupPreset[] {
+  return isRecord(setupPresets) ? normalizeGroups(setupPresets.groups)[mode] : [];
+}
+
+/** Counts shown in the template list and create dialog. */
+export function summarizeTournamentTemplate(config: TournamentTemplateConfig) {
+  return {
+    finalsRounds: config.finalsRounds.length,
+    rosterPlayers: getTemplateRosterPlayerIds(config).length,
+  };
+}
@@ -0,0 +1,82 @@
+/**
+ * Venue call queue: what is on each TV now and what comes next.
+ *
+ * Pure derivation over incomplete BM/MR/GP matches that have a TV assigned,
+ * so the venue screen, the admin "call match" action and tests share one
+ * ordering. Kept DB-free; the route in app/api/tournaments/[id]/venue does
+ * the Prisma reads.
+ *
+ * Order on a TV: matches an admin has called (earliest call first), then
+ * planned start time (match-schedule.ts), then qualification before
+ * playoff/finals, then round and match number. The head of each TV's queue is
+ * the match being played; the next VENUE_QUEUE_UP_NEXT entries are up next.
+ */
+
+export const VENUE_QUEUE_MODES = ['bm', 'mr', 'gp'] as const;
+export type VenueQueueMode = (typeof VENUE_QUEUE_MODES)[number];
+
+/** Number of queued matches shown under the one in progress. */
+export const VENUE_QUEUE_UP_NEXT = 2;
+
+const STAGE_ORDER: Record<string, number> = { qualification: 0, playoff: 1, finals: 2 };
+const MODE_ORDER: Record<VenueQueueMode, number> = { bm: 0, mr: 1, gp: 2 };
+
+export interface VenueQueueMatch {
+  id: string;
+  mode: VenueQueueMode;
+  stage: string;
+  round: string | null;
+  matchNumber: number;
+  roundNumber: number | null;
+  tvNumber: number;
+  player1Nickname: string;
+  player2Nickname: string;
+  /** ISO timestamps; null when not planned / not called. */
+  scheduledStartAt: string | null;
+  calledAt: string | null;
+  /** QR deep links per side; only for admins who ask for them (venue route). */
+  reportUrls?: { player1: string; player2: string };
+}
+
+export interface VenueTvQueue {
+  tvNumber: number;
+  nowPlaying: VenueQueueMatch | null;
+  upNext: VenueQueueMatch[];
+}
+
+function timeOrInfinity(iso: string | null): number {
+  return iso ? Date.parse(iso) : Number.POSITIVE_INFINITY;
+}
+
+function compareQueueOrder(a: VenueQueueMatch, b: VenueQueueMatch): number {
+  return (
+    timeOrInfinity(a.calledAt) - timeOrInfinity(b.calledAt) ||
+    timeOrInfinity(a.scheduledStartAt) - timeOrInfinity(b.scheduledStartAt) ||
+    (STAGE_ORDER[a.stage] ?? 0) - (STAGE_ORDER[b.stage] ?? 0) ||
+    (a.roundNumber ?? 0) - (b.roundNumber ?? 0) ||
+    a.matchNumber - b.matchNumber ||
+    MODE_ORDER[a.mode] - MODE_ORDER[b.mode]
+  );
+}
+
+/**
+ * Group queued matches by TV, ascending by TV number. TVs without a queued
+ * match are omitted — the screen only lists TVs that have something to call.
+ * `Infinity - Infinity` is NaN, which `||` treats as a tie, so uncalled and
+ * unplanned matches fall through to the next key.
+ */
+export function buildVenueQueue(matches: VenueQueueMatch[]): VenueTvQueue[] {
+  const byTv = new Map<number, VenueQueueMatch[]>();
+  for (const match of matches) {
+    const queue = byTv.get(match.tvNumber) ?? [];
+    queue.push(match);
+    byTv.set(match.tvNumber, queue);
+  }
+
+  return [...byTv.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([tvNumber, queue]) => {
+      const [nowPlaying, ...rest] = [...queue].sort(compareQueueOrder);
+      return { tvNumber, nowPlaying: nowPlaying ?? null, upNext: rest.slice(0, VENUE_QUEUE_UP_NEXT) };
+    });
+}
@@ -16,8 +16,11 @@
 
 import type { Player } from '@/lib/types';
 
-/** Bracket type for double elimination tournament */
-export type BracketType = 'winners' | 'losers' | 'grand_final';
+/**
+ * Bracket section of a finals match. Single-elimination finals use `winners`
+ * plus an optional `third_place` match; round-robin finals use `round_robin`.
+ */
+export type BracketType = 'winners' | 'losers' | 'grand_final' | 'third_place' | 'round_robin';
 
 /** All possible round identifiers in a double elimination bracket */
 export type BracketRound =